@@ -1,11 +1,15 @@
 /**
  * 다이어그램 내보내기 관련 IPC 핸들러
- * PNG, PDF, SVG 형식으로 다이어그램 내보내기
+ * PNG, JPEG, WebP, PDF, SVG, HTML 형식으로 다이어그램 내보내기
  */
 
 import { ipcMain, dialog, BrowserWindow, PrintToPDFOptions } from 'electron';
 import * as fs from 'fs/promises';
-import type { ExportResult } from '../../types';
+import * as path from 'path';
+import type { ExportResult, CollectDiagramSourcesResult, SelectDirectoryResult, MarkdownPdfOptions } from '../../types';
+
+const { collectDiagramSources } = require('../utils/diagramSourceCollector');
+const { getPrintableAreaSize, buildPrintToPDFOptions, buildTocPageNumberScript } = require('../utils/pdfLayout');
 
 interface PrintToPDFResult {
   success: boolean;
@@ -19,6 +23,35 @@ interface FileFilter {
   extensions: string[];
 }
 
+// 렌더러가 완성된 텍스트를 넘겨주어 바로 저장하는 형식
+const TEXT_EXPORT_TYPES = ['svg', 'html'];
+
+/**
+ * 파일 존재 여부 확인
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 같은 이름의 파일이 있으면 뒤에 번호를 붙인 경로 반환
+ */
+async function findAvailableFilePath(filePath: string): Promise<string> {
+  const extension = path.extname(filePath);
+  const baseName = filePath.slice(0, filePath.length - extension.length);
+
+  let candidate = filePath;
+  for (let index = 1; await fileExists(candidate); index++) {
+    candidate = `${baseName}-${index}${extension}`;
+  }
+  return candidate;
+}
+
 /**
  * 내보내기 핸들러 등록
  */
@@ -41,6 +74,18 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
         case 'svg':
           filters = [{ name: 'SVG Files', extensions: ['svg'] }];
           break;
+        case 'jpeg':
+          filters = [{ name: 'JPEG Files', extensions: ['jpg', 'jpeg'] }];
+          break;
+        case 'webp':
+          filters = [{ name: 'WebP Files', extensions: ['webp'] }];
+          break;
+        case 'html':
+          filters = [{ name: 'HTML Files', extensions: ['html', 'htm'] }];
+          break;
+        case 'docx':
+          filters = [{ name: 'Word Documents', extensions: ['docx'] }];
+          break;
         default:
           filters = [{ name: 'All Files', extensions: ['*'] }];
       }
@@ -62,12 +107,12 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
 
       const filePath = result.filePath;
 
-      if (exportType === 'svg') {
-        // SVG는 바로 저장
+      if (TEXT_EXPORT_TYPES.includes(exportType)) {
+        // SVG/HTML은 바로 저장
         await fs.writeFile(filePath, svgData, 'utf-8');
         return { success: true, filePath };
       } else {
-        // PNG/PDF는 렌더러에서 변환 필요
+        // PNG/JPEG/WebP/PDF는 렌더러에서 변환 필요
         return { success: true, filePath, needsConversion: true };
       }
 
@@ -83,6 +128,8 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
    */
   ipcMain.handle('save-exported-file', async (_event, filePath: string, buffer: Uint8Array): Promise<{ success: boolean; error?: string }> => {
     try {
+      // 일괄 내보내기는 하위 폴더 구조를 유지하므로 상위 폴더 생성
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
       await fs.writeFile(filePath, buffer);
       return { success: true };
     } catch (error) {
@@ -92,13 +139,69 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
     }
   });
 
+  /**
+   * 기존 파일과 겹치지 않는 저장 경로 (예: diagram.png → diagram-1.png)
+   */
+  ipcMain.handle('get-available-file-path', async (_event, filePath: string): Promise<{ success: boolean; filePath?: string; error?: string }> => {
+    try {
+      return { success: true, filePath: await findAvailableFilePath(filePath) };
+    } catch (error) {
+      console.error('Error finding available file path:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 내보내기 대상 폴더 선택 다이얼로그
+   */
+  ipcMain.handle('select-export-directory', async (_event, defaultPath?: string): Promise<SelectDirectoryResult> => {
+    try {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) {
+        return { success: false, error: 'Main window not available' };
+      }
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Select Output Folder',
+        defaultPath,
+        properties: ['openDirectory', 'createDirectory']
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      return { success: true, directoryPath: result.filePaths[0] };
+    } catch (error) {
+      console.error('Error selecting export directory:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 폴더 내 모든 다이어그램 소스 수집 (일괄 내보내기)
+   */
+  ipcMain.handle('collect-diagram-sources', async (_event, folderPath: string): Promise<CollectDiagramSourcesResult> => {
+    try {
+      const files = await collectDiagramSources(folderPath);
+      return { success: true, files };
+    } catch (error) {
+      console.error('Error collecting diagram sources:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, files: [], error: errorMessage };
+    }
+  });
+
   /**
    * Markdown을 PDF로 내보내기 (브라우저 프린트 엔진 사용)
    * - CSS break-inside: avoid 자동 적용
    * - 이미지 비율 유지
    * - 페이지 분할 최적화
+   * - options 지정 시 용지/여백/머리글·바닥글 적용, 목차(.pdf-toc-page)에 쪽 번호 채움
    */
-  ipcMain.handle('print-to-pdf', async (_event, htmlContent: string, fileName: string): Promise<PrintToPDFResult> => {
+  ipcMain.handle('print-to-pdf', async (_event, htmlContent: string, fileName: string, options?: MarkdownPdfOptions): Promise<PrintToPDFResult> => {
     try {
       const mainWindow = getMainWindow();
       if (!mainWindow) {
@@ -115,10 +218,12 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
         return { success: false, canceled: true };
       }
 
-      // 임시 숨겨진 창 생성하여 PDF 렌더링
+      // 임시 숨겨진 창 생성하여 PDF 렌더링 (옵션이 있으면 본문 영역 크기에 맞춤)
+      const printableArea = options ? getPrintableAreaSize(options) : null;
       const printWindow = new BrowserWindow({
-        width: 794,  // A4 width at 96 DPI
-        height: 1123, // A4 height at 96 DPI
+        width: printableArea?.width ?? 794,  // 기본값: A4 width at 96 DPI
+        height: printableArea?.height ?? 1123, // 기본값: A4 height at 96 DPI
+        useContentSize: true,
         show: false,
         webPreferences: {
           nodeIntegration: false,
@@ -126,14 +231,22 @@ export function registerExportHandlers(getMainWindow: () => BrowserWindow | null
         }
       });
 
-      // HTML 콘텐츠 로드
-      await printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(htmlContent)}`);
+      // HTML 콘텐츠 로드 (앱 페이지를 기준 URL로 지정해 글꼴/이미지 등 스타일시트 리소스 로드 허용)
+      await printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(htmlContent)}`, {
+        baseURLForDataURL: new URL('.', mainWindow.webContents.getURL()).href
+      });
 
-      // 렌더링 완료 대기
+      // 렌더링 및 글꼴(KaTeX 등) 로드 완료 대기
+      await printWindow.webContents.executeJavaScript('document.fonts.ready.then(() => true)');
       await new Promise(resolve => setTimeout(resolve, 500));
 
+      // 목차 쪽 번호 계산
+      if (options?.tableOfContents && printableArea) {
+        await printWindow.webContents.executeJavaScript(buildTocPageNumberScript(printableArea.height));
+      }
+
       // PDF 옵션 설정
-      const pdfOptions: PrintToPDFOptions = {
+      const pdfOptions: PrintToPDFOptions = options ? buildPrintToPDFOptions(options) : {
         pageSize: 'A4',
         printBackground: true,
         margins: {
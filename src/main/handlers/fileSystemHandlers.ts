@@ -7,10 +7,11 @@ import { ipcMain, dialog, BrowserWindow } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type Store from 'electron-store';
-import type { RecentFile, SaveFileResult, FileOperationResult, RenameResult, StoreSchema, RecentFilesByFolder } from '../../types';
+import type { RecentFile, SaveFileResult, FileOperationResult, RenameResult, StoreSchema, RecentFilesByFolder, OpenFileDialogResult, ImportDialogResult } from '../../types';
 
 const { buildFileTree } = require('../utils/fileTreeBuilder');
 const fileWatcher = require('../services/fileWatcher');
+const { allowDocumentFolder } = require('../services/localFileProtocol');
 
 interface FileTreeResult {
   children: unknown[];
@@ -73,6 +74,9 @@ export function registerFileSystemHandlers(
       // 최근 파일 목록에 추가
       addToRecentFiles(filePath, store, getMainWindow());
 
+      // 문서 폴더의 상대 경로 이미지 허용
+      allowDocumentFolder(filePath);
+
       return content;
     } catch (error) {
       console.error('Error reading file:', error);
@@ -80,6 +84,73 @@ export function registerFileSystemHandlers(
     }
   });
 
+  /**
+   * 파일 열기 다이얼로그 (File > Open File… 명령)
+   */
+  ipcMain.handle('show-open-file-dialog', async (): Promise<OpenFileDialogResult> => {
+    try {
+      const currentWindow = getMainWindow();
+      if (!currentWindow) {
+        return { success: false, error: 'Main window not available' };
+      }
+
+      const result = await dialog.showOpenDialog(currentWindow, {
+        filters: [
+          { name: 'Supported Files', extensions: ['mmd', 'mermaid', 'md', 'markdown'] },
+          { name: 'Mermaid Files', extensions: ['mmd', 'mermaid'] },
+          { name: 'Markdown Files', extensions: ['md', 'markdown'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      });
+
+      if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+      const filePath = result.filePaths[0];
+      const content = await fs.readFile(filePath, 'utf-8');
+      allowDocumentFolder(filePath);
+      return { success: true, filePath, content };
+    } catch (error) {
+      console.error('Error opening file:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 가져오기 다이얼로그 (File > Import… 명령)
+   * 변환은 렌더러에서 (draw.io 압축 해제에 DOMParser/DecompressionStream 사용)
+   */
+  ipcMain.handle('show-import-dialog', async (): Promise<ImportDialogResult> => {
+    try {
+      const currentWindow = getMainWindow();
+      if (!currentWindow) {
+        return { success: false, error: 'Main window not available' };
+      }
+
+      const result = await dialog.showOpenDialog(currentWindow, {
+        properties: ['openFile', 'multiSelections'],
+        filters: [
+          { name: 'Diagram Files', extensions: ['drawio', 'xml', 'puml', 'plantuml', 'pu', 'iuml', 'dot', 'gv'] },
+          { name: 'draw.io Diagrams', extensions: ['drawio', 'xml'] },
+          { name: 'PlantUML Files', extensions: ['puml', 'plantuml', 'pu', 'iuml'] },
+          { name: 'Graphviz DOT Files', extensions: ['dot', 'gv'] }
+        ]
+      });
+
+      if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+      const files = await Promise.all(result.filePaths.map(async filePath => ({
+        filePath,
+        content: await fs.readFile(filePath, 'utf-8')
+      })));
+      return { success: true, files };
+    } catch (error) {
+      console.error('Error importing files:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
   /**
    * 새 폴더 생성
    */
@@ -0,0 +1,66 @@
+/**
+ * Git 관련 IPC 핸들러
+ * - 리비전별 파일 내용 조회 (다이어그램 비교, 변경 거터, 히스토리)
+ * - 저장소 상태, 스테이징/커밋, 파일 히스토리 (소스 컨트롤 패널)
+ */
+
+import { ipcMain } from 'electron';
+import type { GitFileContentResult, GitHistoryResult, GitOperationResult, GitStatusResult } from '../../types';
+
+const {
+  readFileAtRevision,
+  getRepositoryStatus,
+  stagePaths,
+  unstagePaths,
+  commitStaged,
+  getFileHistory
+} = require('../utils/gitCommand');
+
+/**
+ * Git 핸들러 등록
+ */
+export function registerGitHandlers(): void {
+  /**
+   * 리비전(기본 HEAD)에 커밋된 파일 내용 조회
+   */
+  ipcMain.handle('git-show-file', async (_event, filePath: string, revision?: string): Promise<GitFileContentResult> => {
+    return readFileAtRevision(filePath, revision || 'HEAD');
+  });
+
+  /**
+   * 폴더가 속한 저장소의 변경 상태 조회
+   */
+  ipcMain.handle('git-status', async (_event, folderPath: string): Promise<GitStatusResult> => {
+    return getRepositoryStatus(folderPath);
+  });
+
+  /**
+   * 파일 스테이징
+   */
+  ipcMain.handle('git-stage', async (_event, root: string, filePaths: string[]): Promise<GitOperationResult> => {
+    return stagePaths(root, filePaths);
+  });
+
+  /**
+   * 스테이징 취소
+   */
+  ipcMain.handle('git-unstage', async (_event, root: string, filePaths: string[]): Promise<GitOperationResult> => {
+    return unstagePaths(root, filePaths);
+  });
+
+  /**
+   * 스테이징된 변경 커밋
+   */
+  ipcMain.handle('git-commit', async (_event, root: string, message: string): Promise<GitOperationResult> => {
+    return commitStaged(root, message);
+  });
+
+  /**
+   * 파일 히스토리 (최신순 커밋 목록)
+   */
+  ipcMain.handle('git-file-history', async (_event, filePath: string): Promise<GitHistoryResult> => {
+    return getFileHistory(filePath);
+  });
+}
+
+module.exports = { registerGitHandlers };
@@ -0,0 +1,85 @@
+/**
+ * 단축키 관련 IPC 핸들러
+ * - 사용자 단축키 저장/로드 (기본 단축키를 바꾼 명령만 저장)
+ * - 변경 시 메뉴 단축키 표시 갱신 및 렌더러에 알림
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import type Store from 'electron-store';
+import type { StoreSchema, CommandId, Keybinding, KeybindingCondition, KeybindingOverrides } from '../../types';
+import { COMMAND_DEFINITIONS } from '../../types/commands';
+
+const COMMAND_IDS = new Set<string>(COMMAND_DEFINITIONS.map(definition => definition.id));
+
+const KEYBINDING_CONDITIONS = new Set<string>([
+  'editorFocus', 'terminalFocus', 'explorerFocus',
+  '!editorFocus', '!terminalFocus', '!explorerFocus'
+]);
+
+/**
+ * 저장할 단축키 정리 (알 수 없는 명령, 잘못된 항목 제외)
+ */
+function sanitizeKeybindings(keybindings: KeybindingOverrides): KeybindingOverrides {
+  const sanitized: KeybindingOverrides = {};
+
+  for (const [commandId, bindings] of Object.entries(keybindings ?? {})) {
+    if (!COMMAND_IDS.has(commandId) || !Array.isArray(bindings)) continue;
+
+    sanitized[commandId as CommandId] = bindings
+      .filter((binding): binding is Keybinding => typeof binding?.key === 'string' && binding.key.trim() !== '')
+      .map(binding => (
+        binding.when && KEYBINDING_CONDITIONS.has(binding.when)
+          ? { key: binding.key, when: binding.when as KeybindingCondition }
+          : { key: binding.key }
+      ));
+  }
+
+  return sanitized;
+}
+
+/**
+ * 단축키 핸들러 등록
+ * @param onKeybindingsChanged - 저장 후 호출 (메뉴 다시 만들기)
+ */
+export function registerKeybindingHandlers(
+  getMainWindow: () => BrowserWindow | null,
+  store: Store<StoreSchema>,
+  onKeybindingsChanged: () => void
+): void {
+  /**
+   * 사용자 단축키 가져오기
+   */
+  ipcMain.handle('get-keybindings', async (): Promise<KeybindingOverrides> => {
+    try {
+      return store.get('keybindings', {});
+    } catch (error) {
+      console.error('Error getting keybindings:', error);
+      return {};
+    }
+  });
+
+  /**
+   * 사용자 단축키 저장
+   */
+  ipcMain.handle('save-keybindings', async (_event, keybindings: KeybindingOverrides): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const sanitized = sanitizeKeybindings(keybindings);
+      store.set('keybindings', sanitized);
+      onKeybindingsChanged();
+
+      const mainWindow = getMainWindow();
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('keybindings-updated', sanitized);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving keybindings:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+}
+
+module.exports = {
+  registerKeybindingHandlers
+};
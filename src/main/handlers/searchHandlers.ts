@@ -0,0 +1,81 @@
+/**
+ * 워크스페이스 검색 관련 IPC 핸들러
+ * - 파일 내용 검색 (정규식, 대소문자, 단어 단위, include/exclude glob)
+ * - 검색 결과 모두 바꾸기
+ * - 빠른 파일 열기 목록 (워크스페이스 파일 인덱스)
+ */
+
+import { ipcMain } from 'electron';
+import * as path from 'path';
+import type Store from 'electron-store';
+import type {
+  WorkspaceSearchQuery,
+  WorkspaceSearchResult,
+  WorkspaceReplaceResult,
+  QuickOpenFilesResult,
+  RecentFilesByFolder,
+  StoreSchema
+} from '../../types';
+
+const { searchWorkspace, replaceInFiles } = require('../utils/workspaceSearch');
+const fileWatcher = require('../services/fileWatcher');
+const fileIndex = require('../services/fileIndex');
+
+/**
+ * 검색 핸들러 등록
+ */
+export function registerSearchHandlers(store: Store<StoreSchema>): void {
+  /**
+   * 워크스페이스 파일 내용 검색 (replacement 지정 시 바꾸기 미리보기 포함)
+   */
+  ipcMain.handle('workspace-search', async (
+    _event,
+    folderPath: string,
+    query: WorkspaceSearchQuery,
+    replacement?: string
+  ): Promise<WorkspaceSearchResult> => {
+    try {
+      return await searchWorkspace(folderPath, query, replacement);
+    } catch (error) {
+      console.error('Error searching workspace:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 지정한 파일들의 검색 결과를 모두 바꿈
+   */
+  ipcMain.handle('workspace-replace', async (
+    _event,
+    query: WorkspaceSearchQuery,
+    replacement: string,
+    filePaths: string[]
+  ): Promise<WorkspaceReplaceResult> => {
+    const result: WorkspaceReplaceResult = await replaceInFiles(query, replacement, filePaths);
+
+    // 앱에서 쓴 변경이므로 외부 변경 알림을 띄우지 않음
+    for (const filePath of result.changedFiles ?? []) {
+      fileWatcher.updateFileModTime(filePath);
+    }
+    return result;
+  });
+
+  /**
+   * 빠른 파일 열기 목록 (인덱스된 워크스페이스 파일과 최근 파일)
+   */
+  ipcMain.handle('quick-open-files', async (_event, folderPath: string): Promise<QuickOpenFilesResult> => {
+    try {
+      const { files, truncated } = await fileIndex.getFiles(folderPath);
+      const recentFilesByFolder = store.get('recentFilesByFolder', {}) as RecentFilesByFolder;
+      const recentFiles = (recentFilesByFolder[path.normalize(folderPath)] || []).map(file => file.path);
+      return { success: true, files, recentFiles, truncated };
+    } catch (error) {
+      console.error('Error listing workspace files:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+}
+
+module.exports = { registerSearchHandlers };
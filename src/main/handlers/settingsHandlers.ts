@@ -1,12 +1,20 @@
 /**
  * 설정 관련 IPC 핸들러
- * 북마크, 레이아웃 설정 등 앱 설정 관리
+ * 북마크, 레이아웃 설정, 내보내기 옵션 등 앱 설정 관리
  */
 
 import { ipcMain } from 'electron';
 import * as path from 'path';
 import type Store from 'electron-store';
-import type { Bookmark, LayoutSettings, StoreSchema } from '../../types';
+import type {
+  Bookmark,
+  LayoutSettings,
+  StoreSchema,
+  ExportRenderOptions,
+  ExportOptionsByWorkspace,
+  MarkdownPdfSettings,
+  MarkdownPdfSettingsByWorkspace
+} from '../../types';
 
 /**
  * 설정 핸들러 등록
@@ -103,6 +111,68 @@ export function registerSettingsHandlers(store: Store<StoreSchema>): void {
       return null;
     }
   });
+
+  // ============================================================================
+  // 내보내기 옵션
+  // ============================================================================
+
+  /**
+   * 워크스페이스별 마지막 내보내기 옵션 저장
+   */
+  ipcMain.handle('save-export-options', async (_event, workspace: string, options: ExportRenderOptions): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const exportOptions = store.get('exportOptionsByWorkspace', {}) as ExportOptionsByWorkspace;
+      exportOptions[workspace] = options;
+      store.set('exportOptionsByWorkspace', exportOptions);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving export options:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 워크스페이스별 마지막 내보내기 옵션 불러오기
+   */
+  ipcMain.handle('get-export-options', async (_event, workspace: string): Promise<ExportRenderOptions | null> => {
+    try {
+      const exportOptions = store.get('exportOptionsByWorkspace', {}) as ExportOptionsByWorkspace;
+      return exportOptions[workspace] || null;
+    } catch (error) {
+      console.error('Error getting export options:', error);
+      return null;
+    }
+  });
+
+  /**
+   * 워크스페이스별 Markdown PDF 설정(마지막 옵션, 프리셋) 저장
+   */
+  ipcMain.handle('save-markdown-pdf-settings', async (_event, workspace: string, settings: MarkdownPdfSettings): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const pdfSettings = store.get('markdownPdfSettingsByWorkspace', {}) as MarkdownPdfSettingsByWorkspace;
+      pdfSettings[workspace] = settings;
+      store.set('markdownPdfSettingsByWorkspace', pdfSettings);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving markdown PDF settings:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  });
+
+  /**
+   * 워크스페이스별 Markdown PDF 설정 불러오기
+   */
+  ipcMain.handle('get-markdown-pdf-settings', async (_event, workspace: string): Promise<MarkdownPdfSettings | null> => {
+    try {
+      const pdfSettings = store.get('markdownPdfSettingsByWorkspace', {}) as MarkdownPdfSettingsByWorkspace;
+      return pdfSettings[workspace] || null;
+    } catch (error) {
+      console.error('Error getting markdown PDF settings:', error);
+      return null;
+    }
+  });
 }
 
 module.exports = {
@@ -7,10 +7,11 @@ import { ipcMain, dialog, BrowserWindow } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type Store from 'electron-store';
-import type { RecentFile, RecentFolder, TabState, WorkspaceData, StoreSchema, RecentFilesByFolder, TabStatesByFolder } from '../../types';
+import type { RecentFile, RecentFolder, TabState, WorkspaceData, StoreSchema, RecentFilesByFolder, TabStatesByFolder, WorkspaceMermaidConfigResult } from '../../types';
 
 const { buildFileTree } = require('../utils/fileTreeBuilder');
 const fileWatcher = require('../services/fileWatcher');
+const { loadWorkspaceMermaidConfig } = require('../utils/mermaidConfigLoader');
 
 interface FileTreeResult {
   children: unknown[];
@@ -221,6 +222,14 @@ export function registerWorkspaceHandlers(
     }
   });
 
+  /**
+   * 워크스페이스 Mermaid 설정(mermaid.config.json) 가져오기
+   * 파일 변경은 폴더 감시에서 'mermaid-config-changed' 이벤트로 알림
+   */
+  ipcMain.handle('get-workspace-mermaid-config', async (_event, folderPath: string): Promise<WorkspaceMermaidConfigResult> => {
+    return loadWorkspaceMermaidConfig(folderPath);
+  });
+
   /**
    * 탭 상태 저장
    */
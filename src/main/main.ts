@@ -7,6 +7,8 @@
  * - 윈도우 관리 및 애플리케이션 생명주기
  * - IPC 핸들러 등록 (모듈화)
  * - 네이티브 메뉴 생성
+ * - 헤드리스 CLI 내보내기 (export 명령)
+ * - Markdown 미리보기용 로컬 이미지 프로토콜 (mermaid-file://)
  *
  * 리팩토링 개선사항:
  * - 1288줄 → 약 200줄로 축소
@@ -20,15 +22,15 @@
 // ============================================================================
 
 // Electron 핵심 모듈
-import { app, BrowserWindow, Menu, dialog, MenuItemConstructorOptions } from 'electron';
+import { app, BrowserWindow, Menu, MenuItemConstructorOptions } from 'electron';
 import * as path from 'path';
-import * as fs from 'fs/promises';
 
 // 서드파티 모듈
 import Store from 'electron-store';
 
 // 타입
-import type { StoreSchema } from '../types';
+import type { StoreSchema, Command, CommandId } from '../types';
+import { COMMAND_DEFINITIONS } from '../types/commands';
 
 // 커스텀 핸들러 모듈
 import { registerFileSystemHandlers } from './handlers/fileSystemHandlers';
@@ -36,7 +38,13 @@ import { registerWorkspaceHandlers } from './handlers/workspaceHandlers';
 import { registerExportHandlers } from './handlers/exportHandlers';
 import { registerSettingsHandlers } from './handlers/settingsHandlers';
 import { registerThemeHandlers } from './handlers/themeHandlers';
+import { registerKeybindingHandlers } from './handlers/keybindingHandlers';
 import { registerTerminalHandlers, cleanupTerminals } from './handlers/terminalHandlers';
+import { registerGitHandlers } from './handlers/gitHandlers';
+import { registerSearchHandlers } from './handlers/searchHandlers';
+import { isCliInvocation } from './utils/cliArgs';
+import { runCliExport } from './services/cliExporter';
+import { registerLocalFileScheme, registerLocalFileProtocol } from './services/localFileProtocol';
 
 // 서비스 모듈
 const fileWatcher = require('./services/fileWatcher');
@@ -67,6 +75,32 @@ if (process.env.NODE_ENV === 'test') {
 let mainWindow: BrowserWindow | null = null;
 let handlersRegistered = false;  // IPC 핸들러 등록 여부 추적
 
+// 명령줄 인자 (개발 모드에서는 'electron .' 뒤의 인자)
+const cliArgs = process.argv.slice(app.isPackaged ? 1 : 2);
+const isCliMode = isCliInvocation(cliArgs);
+
+// 커스텀 프로토콜 스킴은 app ready 이전에 등록해야 함
+registerLocalFileScheme();
+
+// ============================================================================
+// 렌더러 로드
+// ============================================================================
+
+// 배포 시 빌드된 렌더러 폴더
+const RENDERER_DIST_PATH = path.join(__dirname, '../../vite');
+
+/**
+ * 창에 렌더러 페이지 로드 (개발: Vite 서버, 배포: 빌드된 파일)
+ * @param hash - 렌더러 모드 (예: 'headless')
+ */
+async function loadRenderer(window: BrowserWindow, hash: string = ''): Promise<void> {
+  if (!app.isPackaged) {
+    await window.loadURL(`http://localhost:5173${hash ? `#${hash}` : ''}`);
+  } else {
+    await window.loadFile(path.join(RENDERER_DIST_PATH, 'index.html'), hash ? { hash } : undefined);
+  }
+}
+
 // ============================================================================
 // 윈도우 생성 함수
 // ============================================================================
@@ -90,13 +124,9 @@ function createWindow(): void {
     show: false
   });
 
-  const isDev = !app.isPackaged;
-
-  if (isDev) {
-    mainWindow.loadURL('http://localhost:5173');
+  loadRenderer(mainWindow);
+  if (!app.isPackaged) {
     mainWindow.webContents.openDevTools();
-  } else {
-    mainWindow.loadFile(path.join(__dirname, '../../vite/index.html'));
   }
 
   mainWindow.once('ready-to-show', () => {
@@ -133,7 +163,10 @@ function registerAllHandlers(): void {
   registerExportHandlers(getMainWindow);
   registerSettingsHandlers(store);
   registerThemeHandlers(getMainWindow, store);
+  registerKeybindingHandlers(getMainWindow, store, createMenu);
   registerTerminalHandlers(getMainWindow, store);
+  registerGitHandlers();
+  registerSearchHandlers(store);
 }
 
 // ============================================================================
@@ -152,6 +185,24 @@ function updateMainWindowReference(): void {
 // 네이티브 메뉴 생성
 // ============================================================================
 
+/**
+ * 명령 목록의 이름/단축키로 메뉴 항목 생성 (클릭하면 렌더러의 명령 레지스트리에서 실행)
+ * 단축키는 렌더러가 처리하므로 표시만 하고 시스템에 등록하지 않음 (macOS는 항상 등록되며 클릭과 같이 동작)
+ * 사용자가 바꾼 단축키가 있으면 그 첫 번째를 표시
+ */
+function commandMenuItem(commandId: CommandId): MenuItemConstructorOptions {
+  const command: Command | undefined = COMMAND_DEFINITIONS.find(definition => definition.id === commandId);
+  const userKeybindings = store.get('keybindings', {})[commandId];
+  return {
+    label: command?.title ?? commandId,
+    accelerator: userKeybindings ? userKeybindings[0]?.key : command?.keybindings?.[0],
+    registerAccelerator: false,
+    click: (): void => {
+      mainWindow?.webContents.send('run-command', commandId);
+    }
+  };
+}
+
 function createMenu(): void {
   const isMac = process.platform === 'darwin';
 
@@ -176,63 +227,19 @@ function createMenu(): void {
     {
       label: 'File',
       submenu: [
-        {
-          label: 'New',
-          accelerator: 'CmdOrCtrl+N',
-          click: (): void => {
-            mainWindow?.webContents.send('menu-new');
-          }
-        },
-        {
-          label: 'Open',
-          accelerator: 'CmdOrCtrl+O',
-          click: async (): Promise<void> => {
-            if (!mainWindow) return;
-
-            const result = await dialog.showOpenDialog(mainWindow, {
-              filters: [
-                { name: 'Supported Files', extensions: ['mmd', 'mermaid', 'md', 'markdown'] },
-                { name: 'Mermaid Files', extensions: ['mmd', 'mermaid'] },
-                { name: 'Markdown Files', extensions: ['md', 'markdown'] },
-                { name: 'All Files', extensions: ['*'] }
-              ]
-            });
-
-            if (!result.canceled && result.filePaths.length > 0) {
-              const content = await fs.readFile(result.filePaths[0], 'utf-8');
-              mainWindow.webContents.send('menu-open', content, result.filePaths[0]);
-            }
-          }
-        },
-        {
-          label: 'Save',
-          accelerator: 'CmdOrCtrl+S',
-          click: (): void => {
-            mainWindow?.webContents.send('menu-save');
-          }
-        },
+        commandMenuItem('file.newTab'),
+        commandMenuItem('file.open'),
+        commandMenuItem('file.openFolder'),
+        commandMenuItem('file.quickOpen'),
+        commandMenuItem('file.import'),
+        commandMenuItem('file.save'),
+        commandMenuItem('file.saveAs'),
         { type: 'separator' as const },
-        {
-          label: 'Export as PNG',
-          accelerator: 'CmdOrCtrl+Shift+P',
-          click: (): void => {
-            mainWindow?.webContents.send('menu-export-png');
-          }
-        },
-        {
-          label: 'Export as PDF',
-          accelerator: 'CmdOrCtrl+Shift+D',
-          click: (): void => {
-            mainWindow?.webContents.send('menu-export-pdf');
-          }
-        },
-        {
-          label: 'Export as SVG',
-          accelerator: 'CmdOrCtrl+Shift+S',
-          click: (): void => {
-            mainWindow?.webContents.send('menu-export-svg');
-          }
-        },
+        commandMenuItem('export.png'),
+        commandMenuItem('export.pdf'),
+        commandMenuItem('export.svg'),
+        { type: 'separator' as const },
+        commandMenuItem('preferences.keybindings'),
         ...(isMac ? [] : [
           { type: 'separator' as const },
           { role: 'quit' as const }
@@ -274,6 +281,14 @@ function createMenu(): void {
     {
       label: 'View',
       submenu: [
+        commandMenuItem('view.commandPalette'),
+        { type: 'separator' as const },
+        commandMenuItem('view.toggleExplorer'),
+        commandMenuItem('view.searchInFiles'),
+        commandMenuItem('view.toggleOutline'),
+        commandMenuItem('terminal.toggle'),
+        commandMenuItem('theme.toggle'),
+        { type: 'separator' as const },
         { role: 'reload' as const },
         { role: 'forceReload' as const },
         { role: 'toggleDevTools' as const },
@@ -311,7 +326,17 @@ function createMenu(): void {
 // ============================================================================
 
 // Electron 앱이 준비되면 실행
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  registerLocalFileProtocol(() => store.get('lastOpenedFolder', null), RENDERER_DIST_PATH);
+
+  // CLI 모드: 창을 표시하지 않고 내보내기 후 종료
+  if (isCliMode) {
+    app.dock?.hide();
+    const exitCode = await runCliExport(cliArgs, loadRenderer);
+    app.exit(exitCode);
+    return;
+  }
+
   createWindow();
   createMenu();
 
@@ -325,6 +350,9 @@ app.whenReady().then(() => {
 
 // 모든 창이 닫혔을 때
 app.on('window-all-closed', () => {
+  // CLI 모드는 내보내기가 끝나면 종료 코드와 함께 직접 종료
+  if (isCliMode) return;
+
   fileWatcher.stopWatchingAll();
   cleanupTerminals();
 
@@ -0,0 +1,294 @@
+/**
+ * 헤드리스 CLI 내보내기 서비스
+ * 창을 표시하지 않고 숨김 BrowserWindow에서 에디터와 같은 렌더링 경로로 내보내기
+ * - Mermaid 파일: 이미지(SVG/PNG/JPEG/WebP/PDF) 또는 HTML 한 개 생성
+ * - Markdown 파일: 모든 mermaid 펜스를 이미지로 만들고 문서를 이미지 참조로 다시 씀
+ */
+
+import { BrowserWindow } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  ExportRenderOptions,
+  ExportType,
+  HeadlessMarkdownResult,
+  HeadlessRenderSettings,
+  WorkspaceMermaidConfigResult
+} from '../../types';
+import type { CliExportOptions } from '../utils/cliArgs';
+
+const { CLI_USAGE, parseCliArgs } = require('../utils/cliArgs');
+const { loadMermaidConfigFile, loadWorkspaceMermaidConfig } = require('../utils/mermaidConfigLoader');
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+const DEFAULT_FORMAT: ExportType = 'svg';
+
+// 출력 파일 확장자 → 형식
+const EXTENSION_FORMATS: Record<string, ExportType> = {
+  svg: 'svg',
+  png: 'png',
+  pdf: 'pdf',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  webp: 'webp',
+  html: 'html',
+  htm: 'html'
+};
+
+// 형식 → 기본 출력 확장자
+const FORMAT_EXTENSIONS: Record<ExportType, string> = {
+  svg: 'svg',
+  png: 'png',
+  pdf: 'pdf',
+  jpeg: 'jpg',
+  webp: 'webp',
+  html: 'html'
+};
+const RENDERER_READY_TIMEOUT = 15000;
+const RENDERER_READY_POLL_INTERVAL = 100;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 숨김 창에 렌더러 페이지를 로드하는 함수 (main.ts의 창 로드 방식과 동일)
+ */
+export type RendererLoader = (window: BrowserWindow, hash: string) => Promise<void>;
+
+interface RendererCallResult<T> {
+  success: boolean;
+  value?: T;
+  error?: string;
+}
+
+// ============================================================================
+// 렌더러 호출
+// ============================================================================
+
+/**
+ * 렌더러에서 식을 실행하고 결과 반환
+ * executeJavaScript는 오류 메시지를 잃어버리므로 렌더러 쪽에서 결과 객체로 감싸서 전달
+ */
+async function callRenderer<T>(window: BrowserWindow, expression: string): Promise<T> {
+  const result: RendererCallResult<T> = await window.webContents.executeJavaScript(`
+    Promise.resolve()
+      .then(() => ${expression})
+      .then(
+        value => ({ success: true, value }),
+        error => ({ success: false, error: error instanceof Error ? error.message : String(error) })
+      )
+  `);
+
+  if (!result.success) {
+    throw new Error(result.error || 'Render failed');
+  }
+  return result.value as T;
+}
+
+/**
+ * 렌더러가 window.mermaidHeadless를 등록할 때까지 대기
+ */
+async function waitForHeadlessRenderer(window: BrowserWindow): Promise<void> {
+  const deadline = Date.now() + RENDERER_READY_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    const ready = await window.webContents.executeJavaScript('typeof window.mermaidHeadless !== "undefined"');
+    if (ready) return;
+    await new Promise(resolve => setTimeout(resolve, RENDERER_READY_POLL_INTERVAL));
+  }
+
+  throw new Error('Timed out waiting for the renderer to load');
+}
+
+// ============================================================================
+// 설정
+// ============================================================================
+
+/**
+ * Mermaid 설정 읽기 (--config 지정 시 해당 파일, 아니면 입력 파일 폴더의 mermaid.config.json)
+ */
+async function loadConfig(options: CliExportOptions): Promise<WorkspaceMermaidConfigResult> {
+  if (options.configPath) {
+    const configPath = path.resolve(options.configPath);
+    const result: WorkspaceMermaidConfigResult = await loadMermaidConfigFile(configPath);
+    if (result.success && !result.config) {
+      return { success: false, config: null, filePath: configPath, error: `Config file not found: ${configPath}` };
+    }
+    return result;
+  }
+  return loadWorkspaceMermaidConfig(path.dirname(path.resolve(options.input)));
+}
+
+/**
+ * --theme 옵션을 앱 테마와 Mermaid 테마로 변환
+ * light/dark는 에디터의 앱 테마, 나머지는 Mermaid 테마 이름
+ */
+function buildRenderSettings(options: CliExportOptions, configResult: WorkspaceMermaidConfigResult): HeadlessRenderSettings {
+  const theme = options.theme;
+  const appTheme = theme === 'dark' ? 'dark' : 'light';
+
+  if (!theme || theme === 'light' || theme === 'dark') {
+    return { appTheme, mermaidConfig: configResult.config };
+  }
+  return { appTheme, mermaidConfig: { ...configResult.config, theme } };
+}
+
+/**
+ * 출력 파일 확장자로 형식 추론
+ */
+function formatFromPath(filePath: string | undefined): ExportType | null {
+  const ext = filePath ? path.extname(filePath).slice(1).toLowerCase() : '';
+  return EXTENSION_FORMATS[ext] ?? null;
+}
+
+// ============================================================================
+// 내보내기
+// ============================================================================
+
+/**
+ * Mermaid 파일 하나를 이미지로 내보내기
+ */
+async function exportDiagramFile(window: BrowserWindow, options: CliExportOptions, renderOptions: ExportRenderOptions): Promise<number> {
+  const inputPath = path.resolve(options.input);
+  const format = options.format ?? formatFromPath(options.output) ?? DEFAULT_FORMAT;
+  const outputPath = options.output
+    ? path.resolve(options.output)
+    : path.join(path.dirname(inputPath), `${path.basename(inputPath, path.extname(inputPath))}.${FORMAT_EXTENSIONS[format]}`);
+
+  const code = await fs.readFile(inputPath, 'utf-8');
+  const title = path.basename(outputPath, path.extname(outputPath));
+  const data = await callRenderer<string>(
+    window,
+    `window.mermaidHeadless.renderDiagram(${JSON.stringify(code)}, ${JSON.stringify(format)}, ${JSON.stringify(renderOptions)}, ${JSON.stringify(title)})`
+  );
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, Buffer.from(data, 'base64'));
+  console.log(`Exported ${outputPath}`);
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Markdown 파일의 다이어그램을 이미지로 내보내고 문서에 이미지 참조 넣기
+ * 펜스는 남겨두므로 같은 문서를 다시 내보내면 이미지와 참조가 갱신됨
+ */
+async function exportMarkdownFile(window: BrowserWindow, options: CliExportOptions, renderOptions: ExportRenderOptions): Promise<number> {
+  const inputPath = path.resolve(options.input);
+  const outputPath = options.output ? path.resolve(options.output) : inputPath;
+  const outputDir = path.dirname(outputPath);
+  const baseName = path.basename(outputPath, path.extname(outputPath));
+  const format = options.format ?? DEFAULT_FORMAT;
+  if (format === 'html') {
+    throw new Error('HTML format is not supported for Markdown input (use an image format)');
+  }
+
+  // 이미지 경로는 문서 기준 상대 경로 ('/' 구분)
+  const assetsDir = path.resolve(outputDir, options.assetsDir ?? `${baseName}-diagrams`);
+  const relativeAssetsDir = path.relative(outputDir, assetsDir).split(path.sep).join('/');
+  const imagePrefix = `${relativeAssetsDir ? `${relativeAssetsDir}/` : ''}${baseName}-`;
+
+  const markdown = await fs.readFile(inputPath, 'utf-8');
+  const result = await callRenderer<HeadlessMarkdownResult>(
+    window,
+    `window.mermaidHeadless.renderMarkdown(${JSON.stringify(markdown)}, ${JSON.stringify(format)}, ${JSON.stringify(imagePrefix)}, ${JSON.stringify(renderOptions)})`
+  );
+
+  for (const image of result.images) {
+    const imagePath = path.resolve(outputDir, image.relativePath);
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.writeFile(imagePath, Buffer.from(image.data, 'base64'));
+    console.log(`Exported ${imagePath}`);
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(outputPath, result.markdown, 'utf-8');
+  console.log(`Updated ${outputPath} (${result.images.length} diagram${result.images.length === 1 ? '' : 's'})`);
+
+  result.failures.forEach(failure => {
+    console.error(`Failed to render diagram at ${failure.source}: ${failure.error}`);
+  });
+  return result.failures.length > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * CLI export 명령 실행
+ * @param args - 앱 경로를 제외한 인자 목록 (첫 번째는 'export')
+ * @param loadRenderer - 숨김 창에 렌더러 페이지를 로드하는 함수
+ * @returns 프로세스 종료 코드
+ */
+export async function runCliExport(args: string[], loadRenderer: RendererLoader): Promise<number> {
+  const parsed = parseCliArgs(args);
+  if (parsed.help) {
+    console.log(CLI_USAGE);
+    return EXIT_SUCCESS;
+  }
+  if (!parsed.success || !parsed.options) {
+    console.error(`Error: ${parsed.error}\n`);
+    console.error(CLI_USAGE);
+    return EXIT_USAGE;
+  }
+
+  const options: CliExportOptions = parsed.options;
+  let window: BrowserWindow | null = null;
+
+  try {
+    await fs.access(path.resolve(options.input));
+
+    const configResult = await loadConfig(options);
+    if (!configResult.success) {
+      throw new Error(`Invalid Mermaid config (${configResult.filePath}): ${configResult.error}`);
+    }
+
+    window = new BrowserWindow({
+      width: 1200,
+      height: 800,
+      show: false,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        backgroundThrottling: false,
+        preload: path.join(__dirname, '../../preload/preload.js')
+      }
+    });
+
+    await loadRenderer(window, 'headless');
+    await waitForHeadlessRenderer(window);
+    await callRenderer<void>(window, `window.mermaidHeadless.configure(${JSON.stringify(buildRenderSettings(options, configResult))})`);
+
+    const renderOptions: ExportRenderOptions = {
+      scale: options.scale,
+      width: options.width,
+      quality: options.quality,
+      background: options.background,
+      backgroundColor: options.backgroundColor,
+      padding: options.padding,
+      pdfPageSize: options.pageSize,
+      pdfOrientation: options.orientation,
+      svgStyle: options.svgStyle
+    };
+    const isMarkdown = MARKDOWN_EXTENSIONS.includes(path.extname(options.input).toLowerCase());
+
+    return isMarkdown
+      ? await exportMarkdownFile(window, options, renderOptions)
+      : await exportDiagramFile(window, options, renderOptions);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${errorMessage}`);
+    return EXIT_FAILURE;
+  } finally {
+    window?.destroy();
+  }
+}
+
+module.exports = {
+  runCliExport
+};
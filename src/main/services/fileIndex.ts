@@ -0,0 +1,258 @@
+/**
+ * 워크스페이스 파일 인덱스 서비스
+ * 빠른 파일 열기(Ctrl/Cmd+P)용으로 워크스페이스의 모든 파일 경로를 보관
+ * - 처음 요청 시 한 번 전체 탐색 (.gitignore, 숨김 파일/폴더, node_modules 제외)
+ * - 이후에는 FileWatcher의 워크스페이스 변경 이벤트로 바뀐 경로만 갱신
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { QuickOpenFile } from '../../types';
+import type { GitignoreRule } from '../utils/gitignoreRules';
+
+const { GITIGNORE_FILE_NAME, loadGitignoreRule, isIgnoredByRules } = require('../utils/gitignoreRules');
+const fileWatcher = require('./fileWatcher');
+
+// 탐색에서 제외할 폴더 (숨김 폴더는 별도로 제외)
+const IGNORED_DIRECTORIES = ['node_modules'];
+
+// 인덱스에 보관할 최대 파일 수
+const MAX_INDEXED_FILES = 100000;
+
+// 연속된 변경 이벤트를 모아서 처리하는 대기 시간
+const CHANGE_DEBOUNCE = 100;
+
+class FileIndex {
+  private rootPath: string | null = null;
+  // 절대 경로 → 워크스페이스 기준 상대 경로
+  private files: Map<string, string> = new Map();
+  // 폴더 상대 경로 → .gitignore 규칙
+  private gitignoreRules: Map<string, GitignoreRule> = new Map();
+  // 상위 → 하위 순으로 정렬한 규칙 (규칙이 바뀌면 초기화)
+  private sortedRules: GitignoreRule[] | null = null;
+  private buildPromise: Promise<void> | null = null;
+  private truncated = false;
+  private pendingChanges: Set<string> = new Set();
+  private changeTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    fileWatcher.onWorkspaceChange((changedPath: string) => this.queueChange(changedPath));
+  }
+
+  /**
+   * 워크스페이스 파일 목록 (상대 경로 순 정렬)
+   * 다른 워크스페이스이거나 아직 인덱싱하지 않았으면 전체 탐색
+   */
+  async getFiles(rootPath: string): Promise<{ files: QuickOpenFile[]; truncated: boolean }> {
+    const normalizedRoot = path.normalize(rootPath);
+    if (this.rootPath !== normalizedRoot || !this.buildPromise) {
+      this.rootPath = normalizedRoot;
+      this.buildPromise = this.build(normalizedRoot);
+    }
+    await this.buildPromise;
+
+    const files = Array.from(this.files, ([filePath, relativePath]) => ({ filePath, relativePath }));
+    files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    return { files, truncated: this.truncated };
+  }
+
+  // ==========================================================================
+  // 전체 탐색
+  // ==========================================================================
+
+  private async build(rootPath: string): Promise<void> {
+    this.files = new Map();
+    this.gitignoreRules = new Map();
+    this.sortedRules = null;
+    this.truncated = false;
+    this.pendingChanges.clear();
+
+    try {
+      await this.walkDirectory(rootPath, rootPath);
+    } catch (error) {
+      console.error(`Error indexing ${rootPath}:`, error);
+    }
+  }
+
+  /**
+   * 폴더 하위 파일 추가 (폴더의 .gitignore를 먼저 읽어 하위 항목에 적용)
+   */
+  private async walkDirectory(rootPath: string, dirPath: string): Promise<void> {
+    // 탐색 중 다른 워크스페이스로 바뀌면 중단
+    if (this.rootPath !== rootPath) return;
+
+    const base = this.toRelativePath(rootPath, dirPath);
+    const rule = await loadGitignoreRule(dirPath, base);
+    if (rule) {
+      this.gitignoreRules.set(base, rule);
+      this.sortedRules = null;
+    }
+
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (this.rootPath !== rootPath) return;
+      if (this.files.size >= MAX_INDEXED_FILES) {
+        this.truncated = true;
+        return;
+      }
+
+      const entryPath = path.join(dirPath, entry.name);
+      const relativePath = this.toRelativePath(rootPath, entryPath);
+      if (this.isExcludedEntry(entry.name, relativePath, entry.isDirectory())) continue;
+
+      if (entry.isDirectory()) {
+        try {
+          await this.walkDirectory(rootPath, entryPath);
+        } catch (error) {
+          console.error(`Error indexing ${entryPath}:`, error);
+        }
+      } else if (entry.isFile()) {
+        this.files.set(entryPath, relativePath);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // 증분 갱신
+  // ==========================================================================
+
+  private queueChange(changedPath: string): void {
+    if (!this.rootPath || !this.buildPromise || !changedPath.startsWith(this.rootPath + path.sep)) return;
+
+    this.pendingChanges.add(changedPath);
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.processChanges();
+    }, CHANGE_DEBOUNCE);
+  }
+
+  private async processChanges(): Promise<void> {
+    const rootPath = this.rootPath;
+    if (!rootPath || !this.buildPromise) return;
+
+    // 전체 탐색이 끝난 뒤에 적용
+    await this.buildPromise;
+    const changedPaths = Array.from(this.pendingChanges);
+    this.pendingChanges.clear();
+
+    for (const changedPath of changedPaths) {
+      if (this.rootPath !== rootPath) return;
+
+      try {
+        await this.applyChange(rootPath, changedPath);
+      } catch (error) {
+        console.error(`Error updating file index for ${changedPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * 변경된 경로 하나를 인덱스에 반영
+   * - 삭제: 파일 또는 폴더 하위 전체 제거
+   * - 새 파일: 무시 규칙 확인 후 추가
+   * - 새 폴더 (이름 변경/이동 포함): 해당 폴더만 탐색
+   * - .gitignore 변경: 규칙이 바뀌므로 해당 폴더만 다시 탐색
+   */
+  private async applyChange(rootPath: string, changedPath: string): Promise<void> {
+    const relativePath = this.toRelativePath(rootPath, changedPath);
+
+    if (path.basename(changedPath) === GITIGNORE_FILE_NAME) {
+      const dirPath = path.dirname(changedPath);
+      this.removePath(this.toRelativePath(rootPath, dirPath), dirPath === rootPath);
+      if (!this.isExcludedPath(this.toRelativePath(rootPath, dirPath), true)) {
+        await this.walkDirectory(rootPath, dirPath);
+      }
+      return;
+    }
+
+    let stats;
+    try {
+      stats = await fs.stat(changedPath);
+    } catch {
+      this.removePath(relativePath, false);
+      return;
+    }
+
+    if (this.isExcludedPath(relativePath, stats.isDirectory())) {
+      this.removePath(relativePath, false);
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      await this.walkDirectory(rootPath, changedPath);
+    } else if (stats.isFile() && this.files.size < MAX_INDEXED_FILES) {
+      this.files.set(changedPath, relativePath);
+    }
+  }
+
+  /**
+   * 파일 또는 폴더 하위 항목을 인덱스와 규칙 목록에서 제거
+   * @param isRoot - 워크스페이스 루트 (모든 항목 제거)
+   */
+  private removePath(relativePath: string, isRoot: boolean): void {
+    const isUnder = (candidate: string): boolean =>
+      isRoot || candidate === relativePath || candidate.startsWith(`${relativePath}/`);
+
+    for (const [filePath, fileRelativePath] of this.files) {
+      if (isUnder(fileRelativePath)) {
+        this.files.delete(filePath);
+      }
+    }
+    for (const base of this.gitignoreRules.keys()) {
+      if (base === '' ? isRoot : isUnder(base)) {
+        this.gitignoreRules.delete(base);
+        this.sortedRules = null;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // 제외 규칙
+  // ==========================================================================
+
+  private toRelativePath(rootPath: string, targetPath: string): string {
+    return path.relative(rootPath, targetPath).split(path.sep).join('/');
+  }
+
+  private getSortedRules(): GitignoreRule[] {
+    if (!this.sortedRules) {
+      this.sortedRules = Array.from(this.gitignoreRules.values()).sort((a, b) => a.base.length - b.base.length);
+    }
+    return this.sortedRules;
+  }
+
+  /**
+   * 폴더 항목 제외 여부 (숨김, node_modules, .gitignore)
+   */
+  private isExcludedEntry(name: string, relativePath: string, isDirectory: boolean): boolean {
+    if (name.startsWith('.')) return true;
+    if (isDirectory && IGNORED_DIRECTORIES.includes(name)) return true;
+    return isIgnoredByRules(this.getSortedRules(), relativePath, isDirectory);
+  }
+
+  /**
+   * 경로와 모든 상위 폴더의 제외 여부 (변경 이벤트는 제외된 폴더 안에서도 발생)
+   */
+  private isExcludedPath(relativePath: string, isDirectory: boolean): boolean {
+    if (!relativePath) return false;
+
+    const segments = relativePath.split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const isLast = i === segments.length - 1;
+      const segmentPath = segments.slice(0, i + 1).join('/');
+      if (this.isExcludedEntry(segments[i], segmentPath, isLast ? isDirectory : true)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+// 싱글톤 인스턴스
+const fileIndex = new FileIndex();
+
+module.exports = fileIndex;
+export default fileIndex;
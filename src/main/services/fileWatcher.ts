@@ -2,23 +2,34 @@
  * 파일 시스템 감시 서비스
  * 폴더 내 파일 변경 사항을 실시간으로 감지
  * 개별 파일 변경 감지 (외부 프로세스에 의한 수정)
+ * 워크스페이스 전체 변경 감지 (빠른 파일 열기 인덱스 갱신)
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 import type { BrowserWindow } from 'electron';
 import type { FSWatcher, Stats } from 'fs';
 const { buildFileTree } = require('../utils/fileTreeBuilder');
+const { MERMAID_CONFIG_FILE_NAME } = require('../utils/mermaidConfigLoader');
 
 interface FileTreeResult {
   children: unknown[];
 }
 
+/**
+ * 워크스페이스 변경 리스너 (변경된 파일/폴더 절대 경로)
+ */
+type WorkspaceChangeListener = (changedPath: string) => void;
+
 class FileWatcher {
   private currentWatchedFolder: string | null = null;
   private folderWatchers: Map<string, FSWatcher> = new Map();
   private fileWatchers: Map<string, boolean> = new Map();
   private fileModTimes: Map<string, number> = new Map();
   private mainWindow: BrowserWindow | null = null;
+  private configChangeTimer: NodeJS.Timeout | null = null;
+  private workspaceWatcher: FSWatcher | null = null;
+  private workspaceChangeListeners: WorkspaceChangeListener[] = [];
 
   /**
    * 메인 윈도우 설정
@@ -39,6 +50,32 @@ class FileWatcher {
     } catch (error) {
       console.error('Error starting folder watch:', error);
     }
+
+    this.watchWorkspace(folderPath);
+  }
+
+  /**
+   * 워크스페이스 변경 리스너 등록
+   * 트리에 펼치지 않은 하위 폴더를 포함한 모든 생성/삭제/이름 변경을 전달
+   */
+  onWorkspaceChange(listener: WorkspaceChangeListener): void {
+    this.workspaceChangeListeners.push(listener);
+  }
+
+  /**
+   * 워크스페이스 전체 재귀 감시 (리스너에 변경 경로 전달)
+   */
+  private watchWorkspace(folderPath: string): void {
+    try {
+      this.workspaceWatcher = fs.watch(folderPath, { recursive: true }, (_eventType: string, filename: string | null) => {
+        if (!filename) return;
+
+        const changedPath = path.join(folderPath, filename);
+        this.workspaceChangeListeners.forEach(listener => listener(changedPath));
+      });
+    } catch (error) {
+      console.error(`Error watching workspace ${folderPath}:`, error);
+    }
   }
 
   /**
@@ -57,6 +94,11 @@ class FileWatcher {
 
         console.log(`File system event: ${eventType} - ${filename} in ${dirPath}`);
 
+        // 워크스페이스 루트의 Mermaid 설정 파일 변경 → 렌더러가 설정을 다시 읽도록 알림
+        if (dirPath === this.currentWatchedFolder && filename === MERMAID_CONFIG_FILE_NAME) {
+          this.notifyMermaidConfigChanged(dirPath);
+        }
+
         // 디바운싱: 100ms 후 실행 (연속된 이벤트 방지)
         setTimeout(async () => {
           try {
@@ -80,6 +122,21 @@ class FileWatcher {
     }
   }
 
+  /**
+   * Mermaid 설정 파일 변경 알림 (저장 시 연속 이벤트를 하나로 묶음)
+   */
+  private notifyMermaidConfigChanged(folderPath: string): void {
+    if (this.configChangeTimer) {
+      clearTimeout(this.configChangeTimer);
+    }
+    this.configChangeTimer = setTimeout(() => {
+      this.configChangeTimer = null;
+      if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+        this.mainWindow.webContents.send('mermaid-config-changed', folderPath);
+      }
+    }, 100);
+  }
+
   /**
    * 특정 폴더 감시 중단
    */
@@ -109,6 +166,15 @@ class FileWatcher {
       }
     });
     this.folderWatchers.clear();
+
+    if (this.workspaceWatcher) {
+      try {
+        this.workspaceWatcher.close();
+      } catch (error) {
+        console.error('Error stopping workspace watcher:', error);
+      }
+      this.workspaceWatcher = null;
+    }
     this.currentWatchedFolder = null;
   }
 
@@ -0,0 +1,147 @@
+/**
+ * 로컬 이미지 프로토콜 서비스
+ * Markdown 미리보기의 상대 경로 이미지를 mermaid-file:// URL로 디스크에서 읽어 전달
+ * - 렌더러가 file:// 에 직접 접근하지 않도록 이미지/웹 글꼴 확장자의 일반 파일만 허용
+ *   (글꼴은 HTML 내보내기에서 KaTeX 글꼴을 파일에 포함할 때 사용)
+ * - 열린 워크스페이스, 연 문서의 폴더, 빌드된 렌더러 폴더(글꼴) 안의 파일만 허용
+ *   (심볼릭 링크는 실제 경로로 확인하므로 폴더 밖을 가리키면 거부)
+ * - URL 형식: mermaid-file://local/<경로 세그먼트별 인코딩된 절대 경로>
+ */
+
+import { net, protocol } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const LOCAL_FILE_SCHEME = 'mermaid-file';
+
+const ALLOWED_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.bmp', '.ico', '.avif',
+  '.woff2', '.woff', '.ttf', '.otf'
+]);
+
+// 연 문서의 폴더 (워크스페이스 밖에서 연 문서도 자기 폴더의 이미지는 표시)
+const documentFolders = new Set<string>();
+
+// ============================================================================
+// 경로 변환
+// ============================================================================
+
+/**
+ * mermaid-file:// URL을 절대 경로로 변환 (형식이 잘못되면 null)
+ */
+export function getLocalFilePath(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== `${LOCAL_FILE_SCHEME}:`) return null;
+
+    let filePath = decodeURIComponent(parsed.pathname);
+    // Windows 드라이브 경로: /C:/docs/a.png → C:/docs/a.png
+    if (/^\/[A-Za-z]:\//.test(filePath)) {
+      filePath = filePath.slice(1);
+    }
+    return path.isAbsolute(filePath) ? path.normalize(filePath) : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// 접근 허용 폴더
+// ============================================================================
+
+/**
+ * 문서를 열 때 그 폴더를 허용 목록에 추가
+ */
+export function allowDocumentFolder(filePath: string): void {
+  documentFolders.add(path.dirname(path.resolve(filePath)));
+}
+
+/**
+ * 경로가 폴더 자신이거나 폴더 안에 있는지 확인 (둘 다 정규화된 절대 경로)
+ */
+export function isInsideFolder(filePath: string, folderPath: string): boolean {
+  const relative = path.relative(folderPath, filePath);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * 심볼릭 링크를 따라간 실제 경로 (없는 경로면 정규화한 경로)
+ */
+async function resolveRealPath(targetPath: string): Promise<string> {
+  try {
+    return await fs.realpath(targetPath);
+  } catch {
+    return path.resolve(targetPath);
+  }
+}
+
+/**
+ * 허용 폴더 안의 파일인지 확인
+ */
+async function isAllowedPath(realPath: string, workspaceFolder: string | null, rendererFolder: string): Promise<boolean> {
+  const roots = [workspaceFolder, ...documentFolders, rendererFolder]
+    .filter((root): root is string => Boolean(root));
+  const realRoots = await Promise.all(roots.map(resolveRealPath));
+  return realRoots.some(root => isInsideFolder(realPath, root));
+}
+
+// ============================================================================
+// 프로토콜 등록
+// ============================================================================
+
+/**
+ * 스킴을 특권 스킴으로 등록 (app ready 이전에 호출해야 함)
+ * standard + secure로 등록해야 fetch/이미지 로드가 일반 URL처럼 동작
+ */
+export function registerLocalFileScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: LOCAL_FILE_SCHEME,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true, stream: true }
+    }
+  ]);
+}
+
+/**
+ * 요청 처리기 등록 (app ready 이후 호출)
+ * @param getWorkspaceFolder - 현재 열린 워크스페이스 폴더
+ * @param rendererFolder - 배포 시 렌더러를 불러오는 폴더 (KaTeX 글꼴이 file:// URL로 참조됨)
+ */
+export function registerLocalFileProtocol(getWorkspaceFolder: () => string | null, rendererFolder: string): void {
+  protocol.handle(LOCAL_FILE_SCHEME, async (request) => {
+    const filePath = getLocalFilePath(request.url);
+    if (!filePath || !ALLOWED_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    try {
+      const realPath = await fs.realpath(filePath);
+      if (!ALLOWED_EXTENSIONS.has(path.extname(realPath).toLowerCase()) || !(await isAllowedPath(realPath, getWorkspaceFolder(), rendererFolder))) {
+        return new Response('Forbidden', { status: 403 });
+      }
+
+      const stats = await fs.stat(realPath);
+      if (!stats.isFile()) {
+        return new Response('Not Found', { status: 404 });
+      }
+      return await net.fetch(pathToFileURL(realPath).toString());
+    } catch (error) {
+      console.error('Error loading local file:', error);
+      return new Response('Not Found', { status: 404 });
+    }
+  });
+}
+
+module.exports = {
+  LOCAL_FILE_SCHEME,
+  getLocalFilePath,
+  allowDocumentFolder,
+  isInsideFolder,
+  registerLocalFileScheme,
+  registerLocalFileProtocol
+};
@@ -0,0 +1,233 @@
+/**
+ * 명령줄 인자 파서
+ * 예: mermaid-editor export input.mmd -o out.png --scale 3 --theme dark
+ */
+
+import type { ExportBackground, ExportType, PdfOrientation, PdfPageSize, SVGExportStyle } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type CliTheme = 'light' | 'dark' | 'default' | 'forest' | 'neutral' | 'base';
+
+export interface CliExportOptions {
+  input: string;
+  output?: string;
+  format?: ExportType;
+  scale?: number;
+  width?: number;
+  quality?: number;
+  background?: ExportBackground;
+  backgroundColor?: string;
+  padding?: number;
+  pageSize?: PdfPageSize;
+  orientation?: PdfOrientation;
+  theme?: CliTheme;
+  configPath?: string;
+  svgStyle?: SVGExportStyle;
+  assetsDir?: string;
+}
+
+export interface CliParseResult {
+  success: boolean;
+  help?: boolean;
+  options?: CliExportOptions;
+  error?: string;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const CLI_COMMAND = 'export';
+
+const FORMATS: ExportType[] = ['svg', 'png', 'pdf', 'jpeg', 'webp', 'html'];
+const THEMES: CliTheme[] = ['light', 'dark', 'default', 'forest', 'neutral', 'base'];
+const SVG_STYLES: SVGExportStyle[] = ['raw', 'compat', 'clean'];
+const BACKGROUNDS: ExportBackground[] = ['transparent', 'solid', 'theme'];
+const PAGE_SIZES: PdfPageSize[] = ['fit', 'a4', 'letter'];
+const ORIENTATIONS: PdfOrientation[] = ['auto', 'portrait', 'landscape'];
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// 값을 받는 옵션
+const VALUE_OPTIONS = [
+  '-o', '--output', '-f', '--format', '-s', '--scale', '-w', '--width', '-q', '--quality', '-t', '--theme', '-c', '--config',
+  '--background', '--padding', '--page-size', '--orientation', '--svg-style', '--assets-dir'
+];
+
+export const CLI_USAGE = `Usage: mermaid-editor export <input> [options]
+
+Render a Mermaid file (.mmd, .mermaid) to an image, or render every mermaid
+fence in a Markdown file (.md, .markdown) to images and rewrite the file to
+reference them.
+
+Options:
+  -o, --output <file>      Output file (default: input name with the format extension;
+                           Markdown files are rewritten in place)
+  -f, --format <format>    svg | png | pdf | jpeg | webp | html
+                           (default: from --output extension, else svg)
+  -s, --scale <number>     Pixel scale for PNG/JPEG/WebP/PDF (default: 2)
+  -w, --width <px>         Exact image width for PNG/JPEG/WebP/PDF (overrides --scale)
+  -q, --quality <1-100>    JPEG/WebP quality (default: 92)
+  -t, --theme <theme>      light | dark | default | forest | neutral | base
+  -c, --config <file>      Mermaid config JSON (default: mermaid.config.json next to the input)
+      --background <bg>    transparent | solid | theme | #rrggbb (default: solid white)
+      --padding <px>       Space around the diagram (default: 0)
+      --page-size <size>   PDF page: fit | a4 | letter (default: fit)
+      --orientation <o>    PDF orientation: auto | portrait | landscape (default: auto)
+      --svg-style <style>  raw | compat | clean (default: raw)
+      --assets-dir <dir>   Image folder for Markdown input (default: <name>-diagrams)
+  -h, --help               Show this help
+`;
+
+// ============================================================================
+// 파싱
+// ============================================================================
+
+/**
+ * CLI 모드로 실행되었는지 확인 (첫 번째 인자가 export 명령)
+ * @param args - 앱 경로를 제외한 인자 목록
+ */
+export function isCliInvocation(args: string[]): boolean {
+  return args[0] === CLI_COMMAND;
+}
+
+/**
+ * export 명령 인자 파싱
+ * @param args - 앱 경로를 제외한 인자 목록 (첫 번째는 'export')
+ */
+export function parseCliArgs(args: string[]): CliParseResult {
+  const options: Partial<CliExportOptions> = {};
+  const rest = args.slice(1);
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+
+    if (arg === '-h' || arg === '--help') {
+      return { success: true, help: true };
+    }
+
+    if (!arg.startsWith('-')) {
+      if (options.input) {
+        return { success: false, error: `Unexpected argument: ${arg}` };
+      }
+      options.input = arg;
+      continue;
+    }
+
+    // --option=value 형식 지원
+    const [name, inlineValue] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    if (!VALUE_OPTIONS.includes(name)) {
+      return { success: false, error: `Unknown option: ${name}` };
+    }
+    const value = inlineValue ?? rest[++i];
+    if (value === undefined) {
+      return { success: false, error: `Missing value for ${name}` };
+    }
+
+    switch (name) {
+      case '-o':
+      case '--output':
+        options.output = value;
+        break;
+      case '-f':
+      case '--format':
+        if (!FORMATS.includes(value as ExportType)) {
+          return { success: false, error: `Unsupported format: ${value} (expected ${FORMATS.join(', ')})` };
+        }
+        options.format = value as ExportType;
+        break;
+      case '-s':
+      case '--scale': {
+        const scale = Number(value);
+        if (!Number.isFinite(scale) || scale <= 0) {
+          return { success: false, error: `Invalid scale: ${value}` };
+        }
+        options.scale = scale;
+        break;
+      }
+      case '-w':
+      case '--width': {
+        const width = Number(value);
+        if (!Number.isInteger(width) || width <= 0) {
+          return { success: false, error: `Invalid width: ${value}` };
+        }
+        options.width = width;
+        break;
+      }
+      case '-q':
+      case '--quality': {
+        const quality = Number(value);
+        if (!Number.isFinite(quality) || quality < 1 || quality > 100) {
+          return { success: false, error: `Invalid quality: ${value} (expected 1-100)` };
+        }
+        options.quality = quality / 100;
+        break;
+      }
+      case '--background':
+        if (COLOR_PATTERN.test(value)) {
+          options.background = 'solid';
+          options.backgroundColor = value;
+        } else if (BACKGROUNDS.includes(value as ExportBackground)) {
+          options.background = value as ExportBackground;
+        } else {
+          return { success: false, error: `Unsupported background: ${value} (expected ${BACKGROUNDS.join(', ')} or #rrggbb)` };
+        }
+        break;
+      case '--padding': {
+        const padding = Number(value);
+        if (!Number.isFinite(padding) || padding < 0) {
+          return { success: false, error: `Invalid padding: ${value}` };
+        }
+        options.padding = padding;
+        break;
+      }
+      case '--page-size':
+        if (!PAGE_SIZES.includes(value as PdfPageSize)) {
+          return { success: false, error: `Unsupported page size: ${value} (expected ${PAGE_SIZES.join(', ')})` };
+        }
+        options.pageSize = value as PdfPageSize;
+        break;
+      case '--orientation':
+        if (!ORIENTATIONS.includes(value as PdfOrientation)) {
+          return { success: false, error: `Unsupported orientation: ${value} (expected ${ORIENTATIONS.join(', ')})` };
+        }
+        options.orientation = value as PdfOrientation;
+        break;
+      case '-t':
+      case '--theme':
+        if (!THEMES.includes(value as CliTheme)) {
+          return { success: false, error: `Unsupported theme: ${value} (expected ${THEMES.join(', ')})` };
+        }
+        options.theme = value as CliTheme;
+        break;
+      case '-c':
+      case '--config':
+        options.configPath = value;
+        break;
+      case '--svg-style':
+        if (!SVG_STYLES.includes(value as SVGExportStyle)) {
+          return { success: false, error: `Unsupported SVG style: ${value} (expected ${SVG_STYLES.join(', ')})` };
+        }
+        options.svgStyle = value as SVGExportStyle;
+        break;
+      case '--assets-dir':
+        options.assetsDir = value;
+        break;
+    }
+  }
+
+  if (!options.input) {
+    return { success: false, error: 'Missing input file' };
+  }
+
+  return { success: true, options: options as CliExportOptions };
+}
+
+module.exports = {
+  CLI_COMMAND,
+  CLI_USAGE,
+  isCliInvocation,
+  parseCliArgs
+};
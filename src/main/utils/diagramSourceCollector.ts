@@ -0,0 +1,64 @@
+/**
+ * 다이어그램 소스 수집 유틸리티
+ * 폴더를 재귀적으로 탐색하여 Mermaid(.mmd, .mermaid)와 Markdown(.md, .markdown) 파일을 읽음
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DiagramSourceFile } from '../../types';
+
+// 다이어그램을 포함할 수 있는 파일 확장자
+const DIAGRAM_SOURCE_EXTENSIONS = ['.mmd', '.mermaid', '.md', '.markdown'];
+
+// 탐색에서 제외할 폴더 (숨김 폴더는 별도로 제외)
+const IGNORED_DIRECTORIES = ['node_modules'];
+
+/**
+ * 다이어그램 소스 파일인지 확인
+ */
+export function isDiagramSourceFile(filePath: string): boolean {
+  return DIAGRAM_SOURCE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * 폴더 내 모든 다이어그램 소스 파일 수집 (상대 경로 순 정렬)
+ * @param rootPath - 탐색 시작 폴더
+ */
+export async function collectDiagramSources(rootPath: string): Promise<DiagramSourceFile[]> {
+  const files: DiagramSourceFile[] = [];
+
+  const walk = async (dirPath: string): Promise<void> => {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue; // 숨김 파일/폴더 제외
+
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile() && isDiagramSourceFile(entry.name)) {
+        try {
+          const content = await fs.readFile(entryPath, 'utf-8');
+          files.push({
+            filePath: entryPath,
+            relativePath: path.relative(rootPath, entryPath).split(path.sep).join('/'),
+            content
+          });
+        } catch (error) {
+          console.error(`Error reading ${entryPath}:`, error);
+        }
+      }
+    }
+  };
+
+  await walk(rootPath);
+  files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return files;
+}
+
+module.exports = {
+  isDiagramSourceFile,
+  collectDiagramSources
+};
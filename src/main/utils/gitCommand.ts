@@ -0,0 +1,280 @@
+/**
+ * 로컬 git 실행 유틸리티
+ * 시스템에 설치된 git 바이너리를 파일이 있는 폴더에서 실행
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import type {
+  GitChangeType,
+  GitCommitInfo,
+  GitFileContentResult,
+  GitHistoryResult,
+  GitOperationResult,
+  GitStatusEntry,
+  GitStatusResult
+} from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+// git 출력 최대 크기 (큰 다이어그램/문서 파일 대비)
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+const NOT_A_REPOSITORY = /not a git repository/i;
+const MISSING_IN_REVISION = /does not exist in|exists on disk, but not in|invalid object name|unknown revision|bad revision/i;
+
+// 파일 히스토리 기본 조회 개수
+const DEFAULT_HISTORY_LIMIT = 100;
+
+// git log 필드 구분자 (커밋 메시지에 나오지 않는 제어 문자)
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+// porcelain 상태 문자 → 변경 종류
+const STATUS_CODES: Record<string, GitChangeType> = {
+  M: 'modified',
+  T: 'modified',
+  A: 'added',
+  C: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  U: 'conflicted'
+};
+
+// 충돌 상태 조합 (XY)
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+// ============================================================================
+// git 실행
+// ============================================================================
+
+/**
+ * git 명령 실행 (stdout 반환, 실패 시 git의 오류 메시지로 예외)
+ */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: MAX_OUTPUT_BYTES, encoding: 'utf8' }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve(stdout);
+        return;
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error('git is not installed or not on PATH'));
+        return;
+      }
+      // "nothing to commit" 등 일부 메시지는 stdout으로 출력됨
+      reject(new Error(stderr.trim() || stdout.trim() || error.message));
+    });
+  });
+}
+
+/**
+ * 리비전에 커밋된 파일 내용 읽기
+ * 저장소 밖의 파일, 커밋되지 않은 파일은 사용자에게 보여줄 오류 메시지로 반환
+ */
+export async function readFileAtRevision(filePath: string, revision = 'HEAD'): Promise<GitFileContentResult> {
+  // "-"로 시작하면 git이 옵션으로 해석하므로 거부
+  if (revision.startsWith('-')) {
+    return { success: false, error: `Invalid revision: ${revision}` };
+  }
+
+  const cwd = path.dirname(filePath);
+  try {
+    // "<rev>:./<name>" 은 현재 폴더 기준 경로 (저장소 루트를 따로 구하지 않아도 됨)
+    const content = await runGit(cwd, ['show', `${revision}:./${path.basename(filePath)}`]);
+    return { success: true, content };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (NOT_A_REPOSITORY.test(message)) {
+      return { success: false, error: `${path.basename(filePath)} is not inside a git repository` };
+    }
+    if (MISSING_IN_REVISION.test(message)) {
+      return { success: false, error: `${path.basename(filePath)} is not committed in ${revision}` };
+    }
+    console.error('Error reading file from git:', error);
+    return { success: false, error: message };
+  }
+}
+
+// ============================================================================
+// 저장소 상태
+// ============================================================================
+
+function toChangeType(code: string): GitChangeType | null {
+  return STATUS_CODES[code] ?? null;
+}
+
+/**
+ * "## main...origin/main [ahead 1]" / "## No commits yet on main" → 브랜치 이름
+ */
+function parseBranchLine(line: string): string {
+  const header = line.slice(3);
+  const noCommits = /^(?:No commits yet|Initial commit) on (.+)$/.exec(header);
+  if (noCommits) return noCommits[1];
+  return header.split('...')[0].split(' ')[0];
+}
+
+/**
+ * `git status --porcelain=v1 -z -b` 출력 파싱
+ * 경로는 저장소 루트 기준이므로 절대 경로로 변환
+ */
+function parseStatusOutput(output: string, root: string): { branch: string; entries: GitStatusEntry[] } {
+  const records = output.split('\0');
+  const entries: GitStatusEntry[] = [];
+  let branch = '';
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    if (record.startsWith('## ')) {
+      branch = parseBranchLine(record);
+      continue;
+    }
+
+    const code = record.slice(0, 2);
+    const relativePath = record.slice(3);
+    const entry: GitStatusEntry = {
+      path: path.join(root, relativePath),
+      relativePath,
+      staged: null,
+      unstaged: null
+    };
+
+    if (code === '??') {
+      entry.unstaged = 'untracked';
+    } else if (CONFLICT_CODES.has(code)) {
+      entry.unstaged = 'conflicted';
+    } else {
+      entry.staged = toChangeType(code[0]);
+      entry.unstaged = toChangeType(code[1]);
+    }
+
+    // 이름 변경/복사는 다음 레코드가 원래 경로
+    if (code[0] === 'R' || code[0] === 'C') {
+      entry.originalPath = path.join(root, records[++i] ?? '');
+    }
+
+    entries.push(entry);
+  }
+
+  return { branch, entries };
+}
+
+/**
+ * 폴더가 속한 저장소의 변경 상태 조회
+ * git 저장소가 아니면 isRepository: false로 성공 반환 (오류로 취급하지 않음)
+ */
+export async function getRepositoryStatus(folderPath: string): Promise<GitStatusResult> {
+  try {
+    // --show-toplevel은 심볼릭 링크를 해석한 경로를 돌려주므로, 파일 트리 경로와 맞도록 폴더 기준 상대 경로로 루트 계산
+    const root = path.resolve(folderPath, (await runGit(folderPath, ['rev-parse', '--show-cdup'])).trim());
+    const output = await runGit(root, ['status', '--porcelain=v1', '-z', '-b', '--untracked-files=all']);
+    const { branch, entries } = parseStatusOutput(output, root);
+    return { success: true, isRepository: true, root, branch, entries };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (NOT_A_REPOSITORY.test(message)) {
+      return { success: true, isRepository: false };
+    }
+    console.error('Error reading git status:', error);
+    return { success: false, error: message };
+  }
+}
+
+// ============================================================================
+// 스테이징 / 커밋
+// ============================================================================
+
+/**
+ * 파일 스테이징 (삭제된 파일 포함)
+ */
+export async function stagePaths(root: string, filePaths: string[]): Promise<GitOperationResult> {
+  try {
+    await runGit(root, ['add', '-A', '--', ...filePaths]);
+    return { success: true };
+  } catch (error) {
+    console.error('Error staging files:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * 스테이징 취소 (첫 커밋 전에는 HEAD가 없으므로 인덱스에서 제거)
+ */
+export async function unstagePaths(root: string, filePaths: string[]): Promise<GitOperationResult> {
+  try {
+    const hasHead = await runGit(root, ['rev-parse', '--verify', '-q', 'HEAD']).then(() => true, () => false);
+    await runGit(root, hasHead
+      ? ['reset', '-q', 'HEAD', '--', ...filePaths]
+      : ['rm', '--cached', '-q', '-r', '--', ...filePaths]);
+    return { success: true };
+  } catch (error) {
+    console.error('Error unstaging files:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * 스테이징된 변경 커밋
+ */
+export async function commitStaged(root: string, message: string): Promise<GitOperationResult> {
+  if (!message.trim()) {
+    return { success: false, error: 'Commit message is empty' };
+  }
+  try {
+    await runGit(root, ['commit', '-q', '-m', message]);
+    return { success: true };
+  } catch (error) {
+    console.error('Error committing:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// ============================================================================
+// 파일 히스토리
+// ============================================================================
+
+/**
+ * 파일을 변경한 커밋 목록 (최신순)
+ */
+export async function getFileHistory(filePath: string, limit = DEFAULT_HISTORY_LIMIT): Promise<GitHistoryResult> {
+  const format = ['%H', '%h', '%an', '%aI', '%s'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+  try {
+    const output = await runGit(path.dirname(filePath), [
+      'log', `-n${limit}`, `--format=${format}`, '--', path.basename(filePath)
+    ]);
+    const commits: GitCommitInfo[] = output
+      .split(RECORD_SEPARATOR)
+      .map(record => record.trim())
+      .filter(Boolean)
+      .map(record => {
+        const [hash, shortHash, author, date, subject] = record.split(FIELD_SEPARATOR);
+        return { hash, shortHash, author, date, subject };
+      });
+    return { success: true, commits };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (NOT_A_REPOSITORY.test(message)) {
+      return { success: false, error: `${path.basename(filePath)} is not inside a git repository` };
+    }
+    // 커밋이 하나도 없는 저장소
+    if (/does not have any commits/i.test(message)) {
+      return { success: true, commits: [] };
+    }
+    console.error('Error reading file history:', error);
+    return { success: false, error: message };
+  }
+}
+
+module.exports = {
+  runGit,
+  readFileAtRevision,
+  getRepositoryStatus,
+  stagePaths,
+  unstagePaths,
+  commitStaged,
+  getFileHistory
+};
@@ -0,0 +1,68 @@
+/**
+ * .gitignore 규칙 유틸리티
+ * 폴더별 .gitignore를 읽어 워크스페이스 기준 상대 경로의 무시 여부 판별
+ * 하위 폴더의 .gitignore가 상위 규칙보다 우선 (git과 동일)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+export const GITIGNORE_FILE_NAME = '.gitignore';
+
+/**
+ * 폴더 하나의 .gitignore 규칙
+ * base: 워크스페이스 기준 폴더 상대 경로 (루트는 '')
+ */
+export interface GitignoreRule {
+  base: string;
+  matcher: Ignore;
+}
+
+/**
+ * 폴더의 .gitignore 읽기 (없으면 null)
+ * @param dirPath - 폴더 절대 경로
+ * @param base - 워크스페이스 기준 폴더 상대 경로
+ */
+export async function loadGitignoreRule(dirPath: string, base: string): Promise<GitignoreRule | null> {
+  try {
+    const content = await fs.readFile(path.join(dirPath, GITIGNORE_FILE_NAME), 'utf-8');
+    return { base, matcher: ignore().add(content) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading ${GITIGNORE_FILE_NAME} in ${dirPath}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * 경로가 .gitignore 규칙에 의해 무시되는지 확인
+ * 상위 폴더 규칙부터 차례로 적용하고 마지막으로 일치한 규칙이 결정 (! 규칙으로 다시 포함 가능)
+ * @param rules - 상위 → 하위 순으로 정렬된 규칙
+ * @param relativePath - 워크스페이스 기준 상대 경로 ('/' 구분)
+ * @param isDirectory - 폴더 여부 ("build/" 같은 폴더 전용 패턴 판별)
+ */
+export function isIgnoredByRules(rules: GitignoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+    const pathFromBase = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    const result = rule.matcher.test(isDirectory ? `${pathFromBase}/` : pathFromBase);
+    if (result.ignored) {
+      ignored = true;
+    } else if (result.unignored) {
+      ignored = false;
+    }
+  }
+
+  return ignored;
+}
+
+module.exports = {
+  GITIGNORE_FILE_NAME,
+  loadGitignoreRule,
+  isIgnoredByRules
+};
@@ -0,0 +1,48 @@
+/**
+ * 워크스페이스 Mermaid 설정 파일 로더
+ * 열린 폴더 루트의 mermaid.config.json을 읽어 렌더러에 전달
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { MermaidUserConfig, WorkspaceMermaidConfigResult } from '../../types';
+
+// 워크스페이스 루트에 두는 설정 파일 이름
+export const MERMAID_CONFIG_FILE_NAME = 'mermaid.config.json';
+
+/**
+ * Mermaid 설정 파일 읽기
+ * 파일이 없으면 설정 없음(config: null)으로 성공 처리
+ */
+export async function loadMermaidConfigFile(filePath: string): Promise<WorkspaceMermaidConfigResult> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed: unknown = JSON.parse(content);
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { success: false, config: null, filePath, error: `${path.basename(filePath)} must contain a JSON object` };
+    }
+
+    return { success: true, config: parsed as MermaidUserConfig, filePath };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { success: true, config: null, filePath };
+    }
+    console.error('Error loading Mermaid config:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, config: null, filePath, error: errorMessage };
+  }
+}
+
+/**
+ * 워크스페이스 Mermaid 설정 읽기 (폴더 루트의 mermaid.config.json)
+ */
+export async function loadWorkspaceMermaidConfig(folderPath: string): Promise<WorkspaceMermaidConfigResult> {
+  return loadMermaidConfigFile(path.join(folderPath, MERMAID_CONFIG_FILE_NAME));
+}
+
+module.exports = {
+  MERMAID_CONFIG_FILE_NAME,
+  loadMermaidConfigFile,
+  loadWorkspaceMermaidConfig
+};
@@ -0,0 +1,198 @@
+/**
+ * Markdown PDF 레이아웃 유틸리티
+ * - 내보내기 옵션을 printToPDF 옵션(용지, 여백, 머리글/바닥글)으로 변환
+ * - 목차의 쪽 번호 계산 (숨김 창에서 실행할 스크립트)
+ */
+
+import type { PrintToPDFOptions } from 'electron';
+import type { MarkdownPdfOptions, MarkdownPdfPageSize } from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+// 용지 크기 (inch, 세로 방향 기준)
+const PAGE_SIZES: Record<MarkdownPdfPageSize, { width: number; height: number }> = {
+  A4: { width: 8.27, height: 11.69 },
+  A3: { width: 11.69, height: 16.54 },
+  Letter: { width: 8.5, height: 11 },
+  Legal: { width: 8.5, height: 14 }
+};
+
+const CSS_PIXELS_PER_INCH = 96;
+const MM_PER_INCH = 25.4;
+
+// 머리글/바닥글 템플릿 토큰 → Chromium 템플릿 클래스
+const TEMPLATE_TOKENS: Record<string, string> = {
+  title: 'title',
+  date: 'date',
+  page: 'pageNumber',
+  pages: 'totalPages'
+};
+
+const TEMPLATE_TOKEN_PATTERN = /\{(title|date|page|pages)\}/g;
+
+// ============================================================================
+// 용지/여백
+// ============================================================================
+
+/**
+ * 방향을 반영한 용지 크기 (inch)
+ */
+function getPageDimensions(options: MarkdownPdfOptions): { width: number; height: number } {
+  const size = PAGE_SIZES[options.pageSize] ?? PAGE_SIZES.A4;
+  return options.landscape ? { width: size.height, height: size.width } : size;
+}
+
+/**
+ * 여백을 뺀 본문 영역 크기 (CSS px)
+ * 숨김 창을 이 너비로 맞춰야 화면 레이아웃과 인쇄 레이아웃의 줄바꿈이 같아짐
+ */
+export function getPrintableAreaSize(options: MarkdownPdfOptions): { width: number; height: number } {
+  const page = getPageDimensions(options);
+  const { top, right, bottom, left } = options.margins;
+  return {
+    width: Math.round((page.width - (left + right) / MM_PER_INCH) * CSS_PIXELS_PER_INCH),
+    height: Math.round((page.height - (top + bottom) / MM_PER_INCH) * CSS_PIXELS_PER_INCH)
+  };
+}
+
+// ============================================================================
+// 머리글/바닥글
+// ============================================================================
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 템플릿 한 구역을 HTML로 변환 ({page} 등 토큰은 Chromium이 채우는 span으로)
+ */
+function renderTemplateSection(section: string): string {
+  let html = '';
+  let lastIndex = 0;
+  for (const match of section.matchAll(TEMPLATE_TOKEN_PATTERN)) {
+    html += escapeHTML(section.slice(lastIndex, match.index));
+    html += `<span class="${TEMPLATE_TOKENS[match[1]]}"></span>`;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  return html + escapeHTML(section.slice(lastIndex));
+}
+
+/**
+ * 머리글/바닥글 템플릿을 Chromium 템플릿 HTML로 변환
+ * '|'로 나눈 구역은 왼쪽|가운데|오른쪽 (두 구역이면 왼쪽|오른쪽)으로 배치
+ * 템플릿 영역은 페이지 스타일을 상속하지 않으므로 글꼴 크기/색상을 직접 지정
+ */
+export function buildHeaderFooterTemplate(template: string, margins: MarkdownPdfOptions['margins']): string {
+  if (!template.trim()) {
+    // 빈 템플릿을 넘기면 Chromium 기본 머리글(날짜/제목)이 표시되므로 빈 요소 사용
+    return '<span></span>';
+  }
+
+  const sections = template.split('|').map(section => section.trim());
+  const aligned = sections.length === 1 ? ['', sections[0], ''] : sections.length === 2 ? [sections[0], '', sections[1]] : sections.slice(0, 3);
+  const [left, center, right] = aligned.map(renderTemplateSection);
+
+  return `<div style="display: flex; box-sizing: border-box; width: 100%; padding: 0 ${margins.right}mm 0 ${margins.left}mm; font-family: sans-serif; font-size: 9px; color: #808080;">`
+    + `<span style="flex: 1; text-align: left;">${left}</span>`
+    + `<span style="flex: 1; text-align: center;">${center}</span>`
+    + `<span style="flex: 1; text-align: right;">${right}</span>`
+    + '</div>';
+}
+
+/**
+ * 내보내기 옵션 → printToPDF 옵션
+ */
+export function buildPrintToPDFOptions(options: MarkdownPdfOptions): PrintToPDFOptions {
+  const { top, right, bottom, left } = options.margins;
+  const hasHeaderFooter = Boolean(options.headerTemplate.trim() || options.footerTemplate.trim());
+
+  return {
+    pageSize: options.pageSize,
+    landscape: options.landscape,
+    printBackground: true,
+    margins: {
+      top: top / MM_PER_INCH,
+      right: right / MM_PER_INCH,
+      bottom: bottom / MM_PER_INCH,
+      left: left / MM_PER_INCH
+    },
+    displayHeaderFooter: hasHeaderFooter,
+    headerTemplate: buildHeaderFooterTemplate(options.headerTemplate, options.margins),
+    footerTemplate: buildHeaderFooterTemplate(options.footerTemplate, options.margins)
+  };
+}
+
+// ============================================================================
+// 목차 쪽 번호
+// ============================================================================
+
+/**
+ * 목차 쪽 번호를 채우는 스크립트 (숨김 창에서 executeJavaScript로 실행)
+ * 본문 블록 높이를 쌓아 인쇄 엔진의 쪽 나눔을 근사:
+ * - break-before/after: page는 새 쪽, break-inside: avoid 블록과 제목(+다음 블록)은 넘치면 다음 쪽으로
+ * - 한 쪽보다 긴 블록은 쪽 높이만큼 나누어 배치
+ * @param pageHeight - 여백을 뺀 쪽 높이 (CSS px)
+ * @returns 쪽 번호를 찾은 목차 항목 수
+ */
+export function buildTocPageNumberScript(pageHeight: number): string {
+  return `(() => {
+    const pageHeight = ${pageHeight};
+    const pages = {};
+    let page = 1;
+    let used = 0;
+
+    const outerHeight = (el) => {
+      const style = getComputedStyle(el);
+      return el.getBoundingClientRect().height + parseFloat(style.marginTop) + parseFloat(style.marginBottom);
+    };
+    const newPage = () => {
+      if (used > 0) {
+        page += 1;
+        used = 0;
+      }
+    };
+    const place = (el) => {
+      const style = getComputedStyle(el);
+      if (style.breakBefore === 'page') newPage();
+
+      const height = outerHeight(el);
+      const isHeading = /^H[1-6]$/.test(el.tagName);
+      const next = isHeading ? el.nextElementSibling : null;
+      const keepWith = next ? Math.min(outerHeight(next), pageHeight - height) : 0;
+      const keepTogether = isHeading || style.breakInside === 'avoid';
+      if (keepTogether && used > 0 && used + height + keepWith > pageHeight && height <= pageHeight) newPage();
+
+      if (el.id) pages[el.id] = page;
+      used += height;
+      while (used > pageHeight) {
+        page += 1;
+        used -= pageHeight;
+      }
+      if (style.breakAfter === 'page') newPage();
+    };
+
+    // 표지와 목차도 본문 컨테이너의 블록 (break-after: page)
+    document.querySelectorAll('.markdown-content > *').forEach(place);
+
+    let found = 0;
+    document.querySelectorAll('.pdf-toc-page').forEach((el) => {
+      const target = pages[el.getAttribute('data-target')];
+      el.textContent = target ? String(target) : '';
+      if (target) found += 1;
+    });
+    return found;
+  })()`;
+}
+
+module.exports = {
+  getPrintableAreaSize,
+  buildHeaderFooterTemplate,
+  buildPrintToPDFOptions,
+  buildTocPageNumberScript
+};
@@ -0,0 +1,425 @@
+/**
+ * 워크스페이스 검색/바꾸기 유틸리티
+ * 폴더를 재귀적으로 탐색하여 텍스트 파일 내용에서 문자열/정규식을 찾고 바꿈
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  WorkspaceSearchQuery,
+  WorkspaceSearchMatch,
+  WorkspaceSearchFileResult,
+  WorkspaceSearchResult,
+  WorkspaceReplaceResult
+} from '../../types';
+
+// 탐색에서 제외할 폴더 (숨김 폴더는 별도로 제외)
+const IGNORED_DIRECTORIES = ['node_modules'];
+
+// 검색할 최대 파일 크기 (이보다 큰 파일은 건너뜀)
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+// 반환할 최대 일치 수
+const MAX_MATCHES = 5000;
+
+// 미리보기에 포함할 일치 앞/뒤 글자 수
+const PREVIEW_BEFORE_LENGTH = 40;
+const PREVIEW_AFTER_LENGTH = 120;
+
+// ============================================================================
+// 검색 패턴
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 검색 조건으로 정규식 생성 (잘못된 정규식이면 예외)
+ */
+export function buildSearchRegExp(query: WorkspaceSearchQuery): RegExp {
+  let source = query.isRegex ? query.pattern : escapeRegExp(query.pattern);
+  if (query.isWholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, query.isCaseSensitive ? 'gm' : 'gim');
+}
+
+/**
+ * 일치 항목의 바꿀 문자열 계산
+ * 정규식 모드에서는 String.prototype.replace와 같은 $ 치환 지원 ($&, $1, $<name>, $$, $`, $')
+ */
+export function expandReplacement(
+  replacement: string,
+  match: RegExpExecArray,
+  isRegex: boolean
+): string {
+  if (!isRegex) return replacement;
+
+  const input = match.input;
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (key === '`') return input.slice(0, match.index);
+    if (key === "'") return input.slice(match.index + match[0].length);
+    if (name !== undefined) {
+      return match.groups ? match.groups[name] ?? '' : token;
+    }
+    // 두 자리 그룹 번호가 없으면 한 자리 + 문자로 해석
+    let groupIndex = Number(key);
+    let rest = '';
+    if (groupIndex >= match.length && key.length === 2) {
+      groupIndex = Number(key[0]);
+      rest = key[1];
+    }
+    if (groupIndex === 0 || groupIndex >= match.length) return token;
+    return (match[groupIndex] ?? '') + rest;
+  });
+}
+
+/**
+ * 문자열의 모든 일치 순회 (빈 문자열 일치는 건너뜀)
+ */
+function forEachMatch(content: string, regex: RegExp, callback: (match: RegExpExecArray) => boolean | void): void {
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    if (callback(match) === false) break;
+  }
+}
+
+// ============================================================================
+// glob 패턴
+// ============================================================================
+
+/**
+ * 쉼표로 구분한 glob 목록 분리 ({a,b} 안의 쉼표는 유지)
+ */
+function splitGlobList(globs: string): string[] {
+  const patterns: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of globs) {
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map(pattern => pattern.trim()).filter(Boolean);
+}
+
+/**
+ * glob 하나를 정규식으로 변환 (**, *, ?, {a,b} 지원)
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/"는 0개 이상의 폴더
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',') {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * glob 목록으로 상대 경로 판별 함수 생성 (패턴이 없으면 null)
+ * - "/"가 없는 패턴(예: *.mmd, archive)은 경로의 어느 부분과 일치해도 됨
+ * - "/"가 있는 패턴(예: docs/**)은 워크스페이스 기준 경로와 비교, "docs/"처럼 끝나면 폴더 전체
+ */
+export function createGlobMatcher(globs: string): ((relativePath: string) => boolean) | null {
+  const patterns = splitGlobList(globs);
+  if (patterns.length === 0) return null;
+
+  const matchers = patterns.map(pattern => {
+    let normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\//, '');
+    if (normalized.endsWith('/')) {
+      normalized += '**';
+    }
+
+    if (!normalized.includes('/')) {
+      const regex = globToRegExp(normalized);
+      return (relativePath: string): boolean => relativePath.split('/').some(segment => regex.test(segment));
+    }
+
+    const regex = globToRegExp(normalized);
+    const folderRegex = globToRegExp(`${normalized}/**`);
+    return (relativePath: string): boolean => regex.test(relativePath) || folderRegex.test(relativePath);
+  });
+
+  return (relativePath: string): boolean => matchers.some(matcher => matcher(relativePath));
+}
+
+// ============================================================================
+// 파일 탐색
+// ============================================================================
+
+/**
+ * 검색 대상 파일 목록 수집 (상대 경로 순 정렬)
+ */
+async function collectSearchFiles(
+  rootPath: string,
+  query: WorkspaceSearchQuery
+): Promise<Array<{ filePath: string; relativePath: string }>> {
+  const includeMatcher = createGlobMatcher(query.include);
+  const excludeMatcher = createGlobMatcher(query.exclude);
+  const files: Array<{ filePath: string; relativePath: string }> = [];
+
+  const walk = async (dirPath: string): Promise<void> => {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue; // 숨김 파일/폴더 제외
+
+      const entryPath = path.join(dirPath, entry.name);
+      const relativePath = path.relative(rootPath, entryPath).split(path.sep).join('/');
+      if (excludeMatcher && excludeMatcher(relativePath)) continue;
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile() && (!includeMatcher || includeMatcher(relativePath))) {
+        files.push({ filePath: entryPath, relativePath });
+      }
+    }
+  };
+
+  await walk(rootPath);
+  files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return files;
+}
+
+/**
+ * 텍스트 파일 읽기 (너무 크거나 바이너리면 null)
+ */
+async function readTextFile(filePath: string): Promise<string | null> {
+  const stats = await fs.stat(filePath);
+  if (stats.size > MAX_FILE_SIZE) return null;
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  return content.includes('\u0000') ? null : content;
+}
+
+// ============================================================================
+// 검색 / 바꾸기
+// ============================================================================
+
+/**
+ * 파일 내용에서 일치 항목 찾기
+ * @param content - 파일 내용
+ * @param regex - buildSearchRegExp로 만든 정규식
+ * @param limit - 최대 일치 수
+ * @param replacement - 지정 시 일치별 바꿀 문자열 포함
+ * @param isRegex - $ 치환 사용 여부
+ */
+export function findMatches(
+  content: string,
+  regex: RegExp,
+  limit: number,
+  replacement?: string,
+  isRegex = false
+): WorkspaceSearchMatch[] {
+  const matches: WorkspaceSearchMatch[] = [];
+  let lineNumber = 1;
+  let lineStart = 0;
+  let scannedTo = 0;
+
+  forEachMatch(content, regex, match => {
+    // 일치 위치까지 줄 번호 진행
+    for (let i = scannedTo; i < match.index; i++) {
+      if (content[i] === '\n') {
+        lineNumber++;
+        lineStart = i + 1;
+      }
+    }
+    scannedTo = match.index;
+
+    let lineEnd = content.indexOf('\n', match.index);
+    if (lineEnd === -1) lineEnd = content.length;
+    const lineText = content.slice(lineStart, lineEnd).replace(/\r$/, '');
+    const column = match.index - lineStart;
+    const matchedText = lineText.slice(column, column + match[0].length);
+    const before = lineText.slice(0, column);
+
+    matches.push({
+      lineNumber,
+      column: column + 1,
+      length: match[0].length,
+      before: before.length > PREVIEW_BEFORE_LENGTH
+        ? `…${before.slice(before.length - PREVIEW_BEFORE_LENGTH).trimStart()}`
+        : before.trimStart(),
+      text: matchedText,
+      after: lineText.slice(column + matchedText.length, column + matchedText.length + PREVIEW_AFTER_LENGTH),
+      ...(replacement !== undefined && { replacement: expandReplacement(replacement, match, isRegex) })
+    });
+
+    return matches.length < limit;
+  });
+
+  return matches;
+}
+
+/**
+ * 워크스페이스 파일 내용 검색
+ * @param folderPath - 워크스페이스 폴더
+ * @param query - 검색 조건
+ * @param replacement - 지정 시 바꾸기 미리보기 포함
+ */
+export async function searchWorkspace(
+  folderPath: string,
+  query: WorkspaceSearchQuery,
+  replacement?: string
+): Promise<WorkspaceSearchResult> {
+  if (!query.pattern) {
+    return { success: true, files: [], matchCount: 0, truncated: false };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = buildSearchRegExp(query);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+
+  const files: WorkspaceSearchFileResult[] = [];
+  let matchCount = 0;
+  let truncated = false;
+
+  for (const file of await collectSearchFiles(folderPath, query)) {
+    if (matchCount >= MAX_MATCHES) {
+      truncated = true;
+      break;
+    }
+
+    try {
+      const content = await readTextFile(file.filePath);
+      if (content === null) continue;
+
+      const matches = findMatches(content, regex, MAX_MATCHES - matchCount + 1, replacement, query.isRegex);
+      if (matches.length === 0) continue;
+
+      // 한도를 넘긴 한 건은 잘림 표시용
+      if (matchCount + matches.length > MAX_MATCHES) {
+        matches.length = MAX_MATCHES - matchCount;
+        truncated = true;
+      }
+      matchCount += matches.length;
+      files.push({ ...file, matches });
+    } catch (error) {
+      console.error(`Error searching ${file.filePath}:`, error);
+    }
+  }
+
+  return { success: true, files, matchCount, truncated };
+}
+
+/**
+ * 파일 내용의 모든 일치를 바꿈
+ * @returns 바꾼 내용과 바꾼 개수
+ */
+export function replaceInContent(
+  content: string,
+  regex: RegExp,
+  replacement: string,
+  isRegex: boolean
+): { content: string; count: number } {
+  let result = '';
+  let lastIndex = 0;
+  let count = 0;
+
+  forEachMatch(content, regex, match => {
+    result += content.slice(lastIndex, match.index) + expandReplacement(replacement, match, isRegex);
+    lastIndex = match.index + match[0].length;
+    count++;
+  });
+
+  return { content: result + content.slice(lastIndex), count };
+}
+
+/**
+ * 지정한 파일들에서 검색 결과를 모두 바꿈
+ * 검색 이후 파일이 바뀌었을 수 있으므로 파일을 다시 읽어 현재 내용 기준으로 바꿈
+ * @param query - 검색 조건
+ * @param replacement - 바꿀 문자열
+ * @param filePaths - 바꿀 파일 (검색 결과 중 사용자가 남겨둔 파일)
+ */
+export async function replaceInFiles(
+  query: WorkspaceSearchQuery,
+  replacement: string,
+  filePaths: string[]
+): Promise<WorkspaceReplaceResult> {
+  let regex: RegExp;
+  try {
+    regex = buildSearchRegExp(query);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+
+  const changedFiles: string[] = [];
+  let replacementCount = 0;
+
+  for (const filePath of filePaths) {
+    try {
+      const content = await readTextFile(filePath);
+      if (content === null) continue;
+
+      const result = replaceInContent(content, regex, replacement, query.isRegex);
+      if (result.count === 0 || result.content === content) continue;
+
+      await fs.writeFile(filePath, result.content, 'utf-8');
+      changedFiles.push(filePath);
+      replacementCount += result.count;
+    } catch (error) {
+      console.error(`Error replacing in ${filePath}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, changedFiles, replacementCount, error: `${path.basename(filePath)}: ${errorMessage}` };
+    }
+  }
+
+  return { success: true, changedFiles, replacementCount };
+}
+
+module.exports = {
+  buildSearchRegExp,
+  expandReplacement,
+  createGlobMatcher,
+  findMatches,
+  searchWorkspace,
+  replaceInContent,
+  replaceInFiles
+};
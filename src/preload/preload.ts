@@ -33,11 +33,28 @@ import type {
   LayoutSettings,
   ThemeSettings,
   Theme,
+  WorkspaceMermaidConfigResult,
   ExportResult,
+  ExportRenderOptions,
+  MarkdownPdfOptions,
+  MarkdownPdfSettings,
+  CollectDiagramSourcesResult,
+  SelectDirectoryResult,
+  OpenFileDialogResult,
+  ImportDialogResult,
   TerminalCreateOptions,
   TerminalOutput,
   TerminalExit,
-  TerminalStateData
+  TerminalStateData,
+  GitFileContentResult,
+  GitStatusResult,
+  GitOperationResult,
+  GitHistoryResult,
+  WorkspaceSearchQuery,
+  WorkspaceSearchResult,
+  WorkspaceReplaceResult,
+  QuickOpenFilesResult,
+  KeybindingOverrides
 } from '../types';
 
 // IPC 이벤트 콜백 타입 정의
@@ -52,6 +69,8 @@ interface ElectronAPI {
   // 파일 작업 API
   saveFile: (content: string, filePath?: string) => Promise<SaveFileResult>;
   readFile: (filePath: string) => Promise<string>;
+  showOpenFileDialog: () => Promise<OpenFileDialogResult>;
+  showImportDialog: () => Promise<ImportDialogResult>;
 
   // 폴더 작업 API
   openFolder: () => Promise<string | null>;
@@ -70,18 +89,20 @@ interface ElectronAPI {
   openRecentFolder: (folderPath: string) => Promise<{ success: boolean; folderPath?: string; error?: string }>;
   onRecentFoldersUpdated: (callback: IpcCallback) => void;
 
+  // Mermaid 설정 API
+  getWorkspaceMermaidConfig: (folderPath: string) => Promise<WorkspaceMermaidConfigResult>;
+  onMermaidConfigChanged: (callback: IpcCallback) => void;
+
   // 다이어그램 내보내기 API
   exportDiagram: (svgData: string, exportType: string, fileName: string) => Promise<ExportResult>;
   saveExportedFile: (filePath: string, buffer: Uint8Array) => Promise<{ success: boolean; error?: string }>;
-  printToPDF: (htmlContent: string, fileName: string) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
+  getAvailableFilePath: (filePath: string) => Promise<{ success: boolean; filePath?: string; error?: string }>;
+  selectExportDirectory: (defaultPath?: string) => Promise<SelectDirectoryResult>;
+  collectDiagramSources: (folderPath: string) => Promise<CollectDiagramSourcesResult>;
+  printToPDF: (htmlContent: string, fileName: string, options?: MarkdownPdfOptions) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
 
-  // 메뉴 이벤트 API
-  onMenuNew: (callback: IpcCallback) => void;
-  onMenuOpen: (callback: IpcCallback) => void;
-  onMenuSave: (callback: IpcCallback) => void;
-  onMenuExportPNG: (callback: IpcCallback) => void;
-  onMenuExportPDF: (callback: IpcCallback) => void;
-  onMenuExportSVG: (callback: IpcCallback) => void;
+  // 메뉴 명령 API
+  onRunCommand: (callback: IpcCallback) => void;
 
   // 탭 상태 API
   saveTabState: (state: TabState) => Promise<{ success: boolean; error?: string }>;
@@ -90,6 +111,10 @@ interface ElectronAPI {
   // 레이아웃 설정 API
   saveLayoutSettings: (settings: LayoutSettings) => Promise<{ success: boolean; error?: string }>;
   getLayoutSettings: () => Promise<LayoutSettings | null>;
+  saveExportOptions: (workspace: string, options: ExportRenderOptions) => Promise<{ success: boolean; error?: string }>;
+  getExportOptions: (workspace: string) => Promise<ExportRenderOptions | null>;
+  saveMarkdownPdfSettings: (workspace: string, settings: MarkdownPdfSettings) => Promise<{ success: boolean; error?: string }>;
+  getMarkdownPdfSettings: (workspace: string) => Promise<MarkdownPdfSettings | null>;
 
   // 북마크 API
   getBookmarks: () => Promise<Bookmark[]>;
@@ -113,12 +138,30 @@ interface ElectronAPI {
   getSystemTheme: () => Promise<Theme>;
   onSystemThemeChanged: (callback: IpcCallback) => void;
 
+  // 단축키 API
+  getKeybindings: () => Promise<KeybindingOverrides>;
+  saveKeybindings: (keybindings: KeybindingOverrides) => Promise<{ success: boolean; error?: string }>;
+  onKeybindingsUpdated: (callback: IpcCallback) => void;
+
   // 파일 감시 API
   watchFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   unwatchFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   updateFileModTime: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   onFileChangedExternally: (callback: IpcCallback) => void;
 
+  // Git API
+  gitShowFile: (filePath: string, revision?: string) => Promise<GitFileContentResult>;
+  gitStatus: (folderPath: string) => Promise<GitStatusResult>;
+  gitStage: (root: string, filePaths: string[]) => Promise<GitOperationResult>;
+  gitUnstage: (root: string, filePaths: string[]) => Promise<GitOperationResult>;
+  gitCommit: (root: string, message: string) => Promise<GitOperationResult>;
+  gitFileHistory: (filePath: string) => Promise<GitHistoryResult>;
+
+  // 워크스페이스 검색 API
+  searchWorkspace: (folderPath: string, query: WorkspaceSearchQuery, replacement?: string) => Promise<WorkspaceSearchResult>;
+  replaceInWorkspace: (query: WorkspaceSearchQuery, replacement: string, filePaths: string[]) => Promise<WorkspaceReplaceResult>;
+  quickOpenFiles: (folderPath: string) => Promise<QuickOpenFilesResult>;
+
   // 터미널 API
   terminalCreate: (options: TerminalCreateOptions) => Promise<{ success: boolean; id: string; error?: string }>;
   terminalInput: (id: string, data: string) => void;
@@ -178,6 +221,18 @@ const electronAPI: ElectronAPI = {
   readFile: (filePath: string): Promise<string> =>
     ipcRenderer.invoke('read-file', filePath),
 
+  /**
+   * 파일 열기 다이얼로그 표시 (선택한 파일 내용 반환)
+   */
+  showOpenFileDialog: (): Promise<OpenFileDialogResult> =>
+    ipcRenderer.invoke('show-open-file-dialog'),
+
+  /**
+   * 가져오기 다이얼로그 표시 (draw.io, PlantUML, Graphviz DOT 파일 내용 반환)
+   */
+  showImportDialog: (): Promise<ImportDialogResult> =>
+    ipcRenderer.invoke('show-import-dialog'),
+
   // ==========================================================================
   // 폴더 작업 API
   // ==========================================================================
@@ -269,6 +324,23 @@ const electronAPI: ElectronAPI = {
     ipcRenderer.on('recent-folders-updated', callback);
   },
 
+  // ==========================================================================
+  // Mermaid 설정 API
+  // ==========================================================================
+
+  /**
+   * 워크스페이스 Mermaid 설정 파일(mermaid.config.json) 읽기 및 변경 감시 시작
+   */
+  getWorkspaceMermaidConfig: (folderPath: string): Promise<WorkspaceMermaidConfigResult> =>
+    ipcRenderer.invoke('get-workspace-mermaid-config', folderPath),
+
+  /**
+   * 워크스페이스 Mermaid 설정 파일 변경 이벤트 수신
+   */
+  onMermaidConfigChanged: (callback: IpcCallback): void => {
+    ipcRenderer.on('mermaid-config-changed', callback);
+  },
+
   // ==========================================================================
   // 다이어그램 내보내기 API
   // ==========================================================================
@@ -286,55 +358,38 @@ const electronAPI: ElectronAPI = {
     ipcRenderer.invoke('save-exported-file', filePath, buffer),
 
   /**
-   * Markdown을 PDF로 내보내기 (브라우저 프린트 엔진 사용)
-   */
-  printToPDF: (htmlContent: string, fileName: string): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> =>
-    ipcRenderer.invoke('print-to-pdf', htmlContent, fileName),
-
-  // ==========================================================================
-  // 메뉴 이벤트 API
-  // ==========================================================================
-
-  /**
-   * 메뉴에서 'New' 클릭 시 이벤트 수신
+   * 기존 파일과 겹치지 않는 저장 경로 (예: diagram.png → diagram-1.png)
    */
-  onMenuNew: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-new', callback);
-  },
+  getAvailableFilePath: (filePath: string): Promise<{ success: boolean; filePath?: string; error?: string }> =>
+    ipcRenderer.invoke('get-available-file-path', filePath),
 
   /**
-   * 메뉴에서 'Open' 클릭 시 이벤트 수신
+   * 내보내기 대상 폴더 선택 다이얼로그
    */
-  onMenuOpen: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-open', callback);
-  },
+  selectExportDirectory: (defaultPath?: string): Promise<SelectDirectoryResult> =>
+    ipcRenderer.invoke('select-export-directory', defaultPath),
 
   /**
-   * 메뉴에서 'Save' 클릭 시 이벤트 수신
+   * 폴더 내 모든 다이어그램 소스(.mmd, .mermaid, .md) 수집 (일괄 내보내기)
    */
-  onMenuSave: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-save', callback);
-  },
+  collectDiagramSources: (folderPath: string): Promise<CollectDiagramSourcesResult> =>
+    ipcRenderer.invoke('collect-diagram-sources', folderPath),
 
   /**
-   * 메뉴에서 'Export as PNG' 클릭 시 이벤트 수신
+   * Markdown을 PDF로 내보내기 (브라우저 프린트 엔진 사용)
    */
-  onMenuExportPNG: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-export-png', callback);
-  },
+  printToPDF: (htmlContent: string, fileName: string, options?: MarkdownPdfOptions): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> =>
+    ipcRenderer.invoke('print-to-pdf', htmlContent, fileName, options),
 
-  /**
-   * 메뉴에서 'Export as PDF' 클릭 시 이벤트 수신
-   */
-  onMenuExportPDF: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-export-pdf', callback);
-  },
+  // ==========================================================================
+  // 메뉴 명령 API
+  // ==========================================================================
 
   /**
-   * 메뉴에서 'Export as SVG' 클릭 시 이벤트 수신
+   * 메뉴 항목 클릭 시 명령 ID 수신 (렌더러의 명령 레지스트리에서 실행)
    */
-  onMenuExportSVG: (callback: IpcCallback): void => {
-    ipcRenderer.on('menu-export-svg', callback);
+  onRunCommand: (callback: IpcCallback): void => {
+    ipcRenderer.on('run-command', callback);
   },
 
   // ==========================================================================
@@ -369,6 +424,30 @@ const electronAPI: ElectronAPI = {
   getLayoutSettings: (): Promise<LayoutSettings | null> =>
     ipcRenderer.invoke('get-layout-settings'),
 
+  /**
+   * 워크스페이스별 마지막 내보내기 옵션 저장
+   */
+  saveExportOptions: (workspace: string, options: ExportRenderOptions): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('save-export-options', workspace, options),
+
+  /**
+   * 워크스페이스별 마지막 내보내기 옵션 불러오기
+   */
+  getExportOptions: (workspace: string): Promise<ExportRenderOptions | null> =>
+    ipcRenderer.invoke('get-export-options', workspace),
+
+  /**
+   * 워크스페이스별 Markdown PDF 설정(마지막 옵션, 프리셋) 저장
+   */
+  saveMarkdownPdfSettings: (workspace: string, settings: MarkdownPdfSettings): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('save-markdown-pdf-settings', workspace, settings),
+
+  /**
+   * 워크스페이스별 Markdown PDF 설정 불러오기
+   */
+  getMarkdownPdfSettings: (workspace: string): Promise<MarkdownPdfSettings | null> =>
+    ipcRenderer.invoke('get-markdown-pdf-settings', workspace),
+
   // ==========================================================================
   // 북마크 API
   // ==========================================================================
@@ -481,6 +560,29 @@ const electronAPI: ElectronAPI = {
     ipcRenderer.on('system-theme-changed', callback);
   },
 
+  // ==========================================================================
+  // 단축키 API
+  // ==========================================================================
+
+  /**
+   * 사용자 단축키 가져오기 (기본 단축키를 바꾼 명령만)
+   */
+  getKeybindings: (): Promise<KeybindingOverrides> =>
+    ipcRenderer.invoke('get-keybindings'),
+
+  /**
+   * 사용자 단축키 저장 (메뉴 단축키 표시도 갱신)
+   */
+  saveKeybindings: (keybindings: KeybindingOverrides): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('save-keybindings', keybindings),
+
+  /**
+   * 사용자 단축키 변경 이벤트 수신
+   */
+  onKeybindingsUpdated: (callback: IpcCallback): void => {
+    ipcRenderer.on('keybindings-updated', callback);
+  },
+
   // ==========================================================================
   // 파일 감시 API (외부 변경 감지)
   // ==========================================================================
@@ -510,6 +612,68 @@ const electronAPI: ElectronAPI = {
     ipcRenderer.on('file-changed-externally', callback);
   },
 
+  // ==========================================================================
+  // Git API
+  // ==========================================================================
+
+  /**
+   * 특정 리비전(기본 HEAD)에 커밋된 파일 내용 조회
+   */
+  gitShowFile: (filePath: string, revision?: string): Promise<GitFileContentResult> =>
+    ipcRenderer.invoke('git-show-file', filePath, revision),
+
+  /**
+   * 폴더가 속한 저장소의 변경 상태 조회
+   */
+  gitStatus: (folderPath: string): Promise<GitStatusResult> =>
+    ipcRenderer.invoke('git-status', folderPath),
+
+  /**
+   * 파일 스테이징
+   */
+  gitStage: (root: string, filePaths: string[]): Promise<GitOperationResult> =>
+    ipcRenderer.invoke('git-stage', root, filePaths),
+
+  /**
+   * 스테이징 취소
+   */
+  gitUnstage: (root: string, filePaths: string[]): Promise<GitOperationResult> =>
+    ipcRenderer.invoke('git-unstage', root, filePaths),
+
+  /**
+   * 스테이징된 변경 커밋
+   */
+  gitCommit: (root: string, message: string): Promise<GitOperationResult> =>
+    ipcRenderer.invoke('git-commit', root, message),
+
+  /**
+   * 파일 히스토리 (최신순 커밋 목록)
+   */
+  gitFileHistory: (filePath: string): Promise<GitHistoryResult> =>
+    ipcRenderer.invoke('git-file-history', filePath),
+
+  // ==========================================================================
+  // 워크스페이스 검색 API
+  // ==========================================================================
+
+  /**
+   * 워크스페이스 파일 내용 검색 (replacement 지정 시 바꾸기 미리보기 포함)
+   */
+  searchWorkspace: (folderPath: string, query: WorkspaceSearchQuery, replacement?: string): Promise<WorkspaceSearchResult> =>
+    ipcRenderer.invoke('workspace-search', folderPath, query, replacement),
+
+  /**
+   * 지정한 파일들의 검색 결과를 모두 바꿈
+   */
+  replaceInWorkspace: (query: WorkspaceSearchQuery, replacement: string, filePaths: string[]): Promise<WorkspaceReplaceResult> =>
+    ipcRenderer.invoke('workspace-replace', query, replacement, filePaths),
+
+  /**
+   * 빠른 파일 열기 목록 (인덱스된 워크스페이스 파일과 최근 파일)
+   */
+  quickOpenFiles: (folderPath: string): Promise<QuickOpenFilesResult> =>
+    ipcRenderer.invoke('quick-open-files', folderPath),
+
   // ==========================================================================
   // 터미널 API
   // ==========================================================================
@@ -1,4 +1,4 @@
-import React, { useState, ReactElement } from 'react';
+import React, { useState, useCallback, ReactElement } from 'react';
 import FileExplorer from './components/FileExplorer';
 import Resizer from './components/Resizer';
 import TabView from './components/TabView';
@@ -8,20 +8,48 @@ import PreviewPanel from './components/Editor/PreviewPanel';
 import SplitView from './components/SplitView/SplitView';
 import ViewModeToggle from './components/ViewModeToggle/ViewModeToggle';
 import TerminalPanel from './components/Terminal/TerminalPanel';
+import OutlinePanel from './components/Outline/OutlinePanel';
+import DiagramDiffView from './components/DiffView/DiagramDiffView';
+import SourceControlPanel from './components/SourceControl/SourceControlPanel';
+import SearchPanel from './components/Search/SearchPanel';
+import QuickOpen from './components/QuickOpen/QuickOpen';
+import CommandPalette from './components/CommandPalette/CommandPalette';
+import KeybindingsEditor from './components/KeybindingsEditor/KeybindingsEditor';
 import { VIEW_MODES } from './constants/viewModes';
+import { getCommandTitle, getCommandTooltip } from './utils/commandRegistry';
 import { useTabManager } from './hooks/useTabManager';
 import { useLayoutSettings } from './hooks/useLayoutSettings';
 import { useDiagramRenderer } from './hooks/useDiagramRenderer';
+import { useSourceNavigation } from './hooks/useSourceNavigation';
+import { useScrollSync } from './hooks/useScrollSync';
+import { useWorkspaceMermaidConfig } from './hooks/useWorkspaceMermaidConfig';
+import { useExportOptions } from './hooks/useExportOptions';
+import { useMarkdownPdfSettings } from './hooks/useMarkdownPdfSettings';
+import { useMarkdownDiagnostics } from './hooks/useMarkdownDiagnostics';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
-import { useMenuHandlers } from './hooks/useMenuHandlers';
+import { useMenuCommands } from './hooks/useMenuCommands';
+import { useCommands } from './hooks/useCommands';
+import { useTabCommands } from './hooks/useTabCommands';
+import { useFileCommands } from './hooks/useFileCommands';
+import { useKeybindings } from './hooks/useKeybindings';
 import { useTheme } from './hooks/useTheme';
 import { useTerminal } from './hooks/useTerminal';
-import type { FileType } from '../types';
+import { useDiagramDiff } from './hooks/useDiagramDiff';
+import { useSourceControl } from './hooks/useSourceControl';
+import { useGitLineChanges } from './hooks/useGitLineChanges';
+import { useFileNavigation } from './hooks/useFileNavigation';
+import type { FileType, OutlineItem } from '../types';
 import './App.css';
 
 function App(): ReactElement {
   const [isExplorerVisible, setIsExplorerVisible] = useState<boolean>(true);
   const [workspaceFolder, setWorkspaceFolder] = useState<string | null>(null);
+  const [isSearchVisible, setIsSearchVisible] = useState<boolean>(false);
+  // 검색 패널을 열 때마다 검색어 입력에 포커스
+  const [searchFocusRequest, setSearchFocusRequest] = useState<number>(0);
+  const [isQuickOpenVisible, setIsQuickOpenVisible] = useState<boolean>(false);
+  const [isCommandPaletteVisible, setIsCommandPaletteVisible] = useState<boolean>(false);
+  const [isKeybindingsEditorVisible, setIsKeybindingsEditorVisible] = useState<boolean>(false);
 
   // Custom Hooks
   const {
@@ -36,24 +64,49 @@ function App(): ReactElement {
     handleTabSelect,
     handleTabClose,
     handleTabNew,
+    handleTabOpenContent,
+    handleTabOpenReadOnly,
+    handleTabsReload,
     handleTabReorder,
     handleCloseAllTabs,
     handleCloseOtherTabs,
-    handleCloseTabsToRight
+    handleCloseTabsToRight,
+    handlePreviewViewportChange
   } = useTabManager();
 
   const {
     explorerWidth,
     editorWidth,
     viewMode,
+    isOutlineVisible,
+    outlineWidth,
     handleExplorerResize,
     handleEditorResize,
-    handleViewModeChange
+    handleViewModeChange,
+    handleOutlineResize,
+    toggleOutline
   } = useLayoutSettings(isExplorerVisible);
 
-  const diagramRef = useDiagramRenderer(diagramCode, viewMode);
+  const activeFileType: FileType = activeTab?.fileType || 'mermaid';
+
+  useWorkspaceMermaidConfig(workspaceFolder);
+
+  const { exportOptions, updateExportOptions } = useExportOptions(workspaceFolder);
+
+  const { pdfSettings, updatePdfSettings } = useMarkdownPdfSettings(workspaceFolder);
+
+  const { diagramRef, problems: diagramProblems } = useDiagramRenderer(diagramCode, viewMode, activeFileType, activeTabId);
+
+  const markdownProblems = useMarkdownDiagnostics(diagramCode, activeFileType === 'markdown');
+
+  const problems = activeFileType === 'markdown' ? markdownProblems : diagramProblems;
+
+  const { revealRequest, cursorLine, revealSourceLine, handleCursorLineChange } = useSourceNavigation(activeTabId);
+
+  const { editorScrollRequest, previewScrollRequest, handleEditorScroll, handlePreviewScroll } = useScrollSync(activeTabId);
 
   const { theme, toggleTheme } = useTheme();
+  const { keybindings, updateCommandKeybindings, resetCommandKeybindings, resetAllKeybindings } = useKeybindings();
 
   const {
     isTerminalVisible,
@@ -63,22 +116,80 @@ function App(): ReactElement {
     handleTerminalResizeByPosition
   } = useTerminal();
 
-  useKeyboardShortcuts(tabs, activeTabId, handleTabClose, handleTabNew, (id) => handleTabSelect(id), toggleTerminal);
+  const { diffRequest, compareTab, compareFiles, compareFileWithHead, closeDiff } = useDiagramDiff(tabs);
+
+  const {
+    gitStatus,
+    refreshGitStatus,
+    stageFiles,
+    unstageFiles,
+    commitChanges,
+    historyFilePath,
+    history,
+    showFileHistory,
+    closeFileHistory,
+    openRevision
+  } = useSourceControl(workspaceFolder, tabs, handleTabOpenReadOnly);
+
+  const lineChanges = useGitLineChanges(currentFilePath, diagramCode, gitStatus);
+
+  const { openFile, openFileAt } = useFileNavigation(tabs, currentFilePath, handleFileSelect, revealSourceLine);
 
-  useMenuHandlers(diagramCode, currentFilePath, updateActiveTab, handleTabNew, handleFileSelect, diagramRef);
+  // 워크스페이스 검색 열기 (탐색기가 숨겨져 있으면 함께 표시)
+  const openSearch = useCallback((): void => {
+    setIsExplorerVisible(true);
+    setIsSearchVisible(true);
+    setSearchFocusRequest(prev => prev + 1);
+  }, []);
+
+  // 폴더 열기 (탐색기가 숨겨져 있으면 함께 표시, 다시 표시될 때 마지막 폴더를 불러옴)
+  const openFolder = useCallback((): void => {
+    setIsExplorerVisible(true);
+    window.electronAPI.openFolder();
+  }, []);
 
   // Explorer toggle handler
   const handleToggleExplorer = (): void => {
     setIsExplorerVisible(prev => !prev);
   };
 
+  // 앱 전체 명령 (메뉴, 단축키, 명령 팔레트에서 실행)
+  useCommands({
+    'file.openFolder': window.electronAPI ? openFolder : undefined,
+    'file.quickOpen': () => setIsQuickOpenVisible(true),
+    'view.commandPalette': () => setIsCommandPaletteVisible(true),
+    'view.searchInFiles': openSearch,
+    'view.toggleExplorer': handleToggleExplorer,
+    'view.toggleOutline': toggleOutline,
+    'view.codeOnly': () => handleViewModeChange(VIEW_MODES.CODE),
+    'view.split': () => handleViewModeChange(VIEW_MODES.SPLIT),
+    'view.previewOnly': () => handleViewModeChange(VIEW_MODES.PREVIEW),
+    'terminal.toggle': toggleTerminal,
+    'theme.toggle': toggleTheme,
+    'preferences.keybindings': () => setIsKeybindingsEditorVisible(true)
+  });
+
+  useTabCommands(tabs, activeTabId, handleTabSelect, handleTabClose, handleCloseAllTabs, handleCloseOtherTabs);
+
+  useFileCommands(diagramCode, currentFilePath, activeTab !== undefined, updateActiveTab, handleTabNew, handleFileSelect, handleTabOpenContent);
+
+  useKeyboardShortcuts();
+
+  useMenuCommands();
+
+  // 아웃라인 항목 선택 → 에디터 커서 이동 + 미리보기 스크롤
+  const handleOutlineSelect = (item: OutlineItem): void => {
+    revealSourceLine(item.lineNumber);
+    handleEditorScroll(item.lineNumber);
+  };
+
   // 콘텐츠 영역 렌더링 함수
   const renderContent = (): ReactElement => {
     if (tabs.length === 0) {
       return <EmptyState onCreateNew={handleTabNew} />;
     }
 
-    const fileType: FileType = activeTab?.fileType || 'mermaid';
+    const fileType = activeFileType;
 
     // Code Only 모드
     if (viewMode === VIEW_MODES.CODE) {
@@ -87,6 +198,11 @@ function App(): ReactElement {
           diagramCode={diagramCode}
           onEditorChange={handleEditorChange}
           fileType={fileType}
+          problems={problems}
+          revealRequest={revealRequest}
+          onCursorLineChange={handleCursorLineChange}
+          readOnly={activeTab?.readOnly}
+          lineChanges={lineChanges}
           fullWidth
         />
       );
@@ -100,6 +216,16 @@ function App(): ReactElement {
           content={diagramCode}
           fileType={fileType}
           currentFilePath={currentFilePath}
+          problems={problems}
+          documentId={activeTabId}
+          previewViewport={activeTab?.previewViewport}
+          onPreviewViewportChange={handlePreviewViewportChange}
+          exportOptions={exportOptions}
+          onExportOptionsChange={updateExportOptions}
+          scrollRequest={previewScrollRequest}
+          onFileSelect={handleFileSelect}
+          pdfSettings={pdfSettings}
+          onPdfSettingsChange={updatePdfSettings}
           fullWidth
         />
       );
@@ -113,6 +239,13 @@ function App(): ReactElement {
             diagramCode={diagramCode}
             onEditorChange={handleEditorChange}
             fileType={fileType}
+            problems={problems}
+            revealRequest={revealRequest}
+            onCursorLineChange={handleCursorLineChange}
+            scrollRequest={editorScrollRequest}
+            onScrollLineChange={fileType === 'markdown' ? handleEditorScroll : undefined}
+            readOnly={activeTab?.readOnly}
+            lineChanges={lineChanges}
           />
         }
         right={
@@ -121,6 +254,19 @@ function App(): ReactElement {
             content={diagramCode}
             fileType={fileType}
             currentFilePath={currentFilePath}
+            problems={problems}
+            documentId={activeTabId}
+            previewViewport={activeTab?.previewViewport}
+            onPreviewViewportChange={handlePreviewViewportChange}
+            highlightLine={cursorLine}
+            onSourceSelect={revealSourceLine}
+            exportOptions={exportOptions}
+            onExportOptionsChange={updateExportOptions}
+            scrollRequest={previewScrollRequest}
+            onScrollLineChange={handlePreviewScroll}
+            onFileSelect={handleFileSelect}
+            pdfSettings={pdfSettings}
+            onPdfSettingsChange={updatePdfSettings}
           />
         }
         leftWidth={editorWidth}
@@ -132,14 +278,30 @@ function App(): ReactElement {
   return (
     <div className="app">
       <div
-        className={`file-explorer-container ${!isExplorerVisible ? 'collapsed' : ''}`}
+        className={`file-explorer-container ${!isExplorerVisible ? 'collapsed' : ''} ${isSearchVisible ? 'searching' : ''}`}
         style={{ width: isExplorerVisible ? `${explorerWidth}px` : '48px' }}
       >
+        {isExplorerVisible && (
+          <SearchPanel
+            workspaceFolder={workspaceFolder}
+            isVisible={isSearchVisible}
+            focusRequest={searchFocusRequest}
+            modifiedFilePaths={tabs.filter(tab => tab.isModified && tab.filePath).map(tab => tab.filePath as string)}
+            onOpenMatch={openFileAt}
+            onFilesReplaced={handleTabsReload}
+            onClose={() => setIsSearchVisible(false)}
+          />
+        )}
         {isExplorerVisible ? (
           <FileExplorer
             onFileSelect={handleFileSelect}
             onToggleExplorer={handleToggleExplorer}
             onWorkspaceChange={setWorkspaceFolder}
+            onCompareFiles={compareFiles}
+            onCompareWithHead={compareFileWithHead}
+            gitStatus={gitStatus}
+            onShowFileHistory={showFileHistory}
+            onOpenSearch={openSearch}
           />
         ) : (
           <div className="explorer-collapsed">
@@ -152,6 +314,22 @@ function App(): ReactElement {
             </button>
           </div>
         )}
+        {isExplorerVisible && (
+          <SourceControlPanel
+            gitStatus={gitStatus}
+            activeFilePath={currentFilePath}
+            historyFilePath={historyFilePath}
+            history={history}
+            onFileOpen={handleFileSelect}
+            onStage={stageFiles}
+            onUnstage={unstageFiles}
+            onCommit={commitChanges}
+            onRefresh={refreshGitStatus}
+            onShowHistory={showFileHistory}
+            onCloseHistory={closeFileHistory}
+            onOpenRevision={openRevision}
+          />
+        )}
       </div>
 
       {isExplorerVisible && (
@@ -169,10 +347,17 @@ function App(): ReactElement {
               onViewModeChange={handleViewModeChange}
             />
             <div className="header-actions">
+              <button
+                className={`outline-toggle-btn ${isOutlineVisible ? 'active' : ''}`}
+                onClick={toggleOutline}
+                title={getCommandTitle('view.toggleOutline')}
+              >
+                ☰
+              </button>
               <button
                 className={`terminal-toggle-btn ${isTerminalVisible ? 'active' : ''}`}
                 onClick={toggleTerminal}
-                title={`Toggle Terminal (Ctrl+\`)`}
+                title={getCommandTooltip('terminal.toggle')}
               >
                 {'>_'}
               </button>
@@ -195,10 +380,27 @@ function App(): ReactElement {
             onCloseAllTabs={handleCloseAllTabs}
             onCloseOtherTabs={handleCloseOtherTabs}
             onCloseTabsToRight={handleCloseTabsToRight}
+            onCompareTab={compareTab}
           />
 
           <div className="editor-preview-content">
             {renderContent()}
+            {isOutlineVisible && tabs.length > 0 && (
+              <>
+                <Resizer
+                  direction="vertical"
+                  onResize={handleOutlineResize}
+                />
+                <OutlinePanel
+                  content={diagramCode}
+                  fileType={activeFileType}
+                  width={outlineWidth}
+                  activeLine={cursorLine}
+                  onSelect={handleOutlineSelect}
+                  onClose={toggleOutline}
+                />
+              </>
+            )}
           </div>
         </div>
 
@@ -219,6 +421,29 @@ function App(): ReactElement {
           </>
         )}
       </div>
+
+      <DiagramDiffView request={diffRequest} onClose={closeDiff} />
+
+      <QuickOpen
+        isOpen={isQuickOpenVisible}
+        workspaceFolder={workspaceFolder}
+        onSelect={openFile}
+        onClose={() => setIsQuickOpenVisible(false)}
+      />
+
+      <CommandPalette
+        isOpen={isCommandPaletteVisible}
+        onClose={() => setIsCommandPaletteVisible(false)}
+      />
+
+      <KeybindingsEditor
+        isOpen={isKeybindingsEditorVisible}
+        keybindings={keybindings}
+        onChange={updateCommandKeybindings}
+        onReset={resetCommandKeybindings}
+        onResetAll={resetAllKeybindings}
+        onClose={() => setIsKeybindingsEditorVisible(false)}
+      />
     </div>
   );
 }
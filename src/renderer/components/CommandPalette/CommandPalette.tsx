@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useMemo, useRef, ReactElement, ReactNode, KeyboardEvent } from 'react';
+import { fuzzyMatch } from '../../utils/quickOpenMatcher';
+import { getAvailableCommands, getCommandKeybinding, executeCommand } from '../../utils/commandRegistry';
+import type { Command } from '../../../types';
+import '../QuickOpen/QuickOpen.css';
+import './CommandPalette.css';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CommandItem {
+  command: Command;
+  label: string;
+  positions: number[];
+}
+
+/**
+ * 일치한 글자 강조
+ */
+function renderHighlighted(text: string, positions: number[]): ReactNode[] {
+  const matched = new Set(positions);
+  return Array.from(text, (char, index) => (
+    matched.has(index) ? <mark key={index} className="quick-open-highlight">{char}</mark> : char
+  ));
+}
+
+/**
+ * 명령 팔레트 (Ctrl/Cmd+Shift+P)
+ * 지금 실행할 수 있는 명령을 "분류: 이름"으로 퍼지 검색하고 단축키와 함께 표시
+ */
+const CommandPalette = ({ isOpen, onClose }: CommandPaletteProps): ReactElement | null => {
+  const [query, setQuery] = useState<string>('');
+  const [commands, setCommands] = useState<Command[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 열 때마다 실행 가능한 명령 목록 갱신 (열린 탭, 미리보기 종류에 따라 달라짐)
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setSelectedIndex(0);
+    setCommands(getAvailableCommands());
+  }, [isOpen]);
+
+  const items = useMemo<CommandItem[]>(() => {
+    const labeled = commands.map(command => ({ command, label: `${command.category}: ${command.title}` }));
+    if (!query.trim()) {
+      return labeled.map(item => ({ ...item, positions: [] }));
+    }
+
+    const matches: Array<CommandItem & { score: number }> = [];
+    for (const item of labeled) {
+      const match = fuzzyMatch(query, item.label);
+      if (match) {
+        matches.push({ ...item, positions: match.positions, score: match.score });
+      }
+    }
+    matches.sort((a, b) => b.score - a.score);
+    return matches.map(({ command, label, positions }) => ({ command, label, positions }));
+  }, [commands, query]);
+
+  // 검색어가 바뀌면 첫 항목 선택
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // 키보드로 이동한 항목이 보이도록 스크롤
+  useEffect(() => {
+    const selectedElement = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    selectedElement?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  // 팔레트를 닫은 뒤 실행 (명령이 다이얼로그를 열거나 포커스를 옮길 수 있음)
+  const runCommand = (item: CommandItem | undefined): void => {
+    if (!item) return;
+    onClose();
+    executeCommand(item.command.id);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => (items.length === 0 ? 0 : (index + 1) % items.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => (items.length === 0 ? 0 : (index - 1 + items.length) % items.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(items[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div className="quick-open-overlay" onClick={onClose} />
+      <div className="quick-open command-palette" role="dialog" aria-label="Command Palette">
+        <input
+          className="quick-open-input"
+          type="text"
+          placeholder="Type a command"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus
+        />
+        {items.length === 0 && <div className="quick-open-message">No matching commands</div>}
+        <div className="quick-open-list" ref={listRef} role="listbox">
+          {items.map((item, index) => {
+            const keybinding = getCommandKeybinding(item.command.id);
+            return (
+              <div
+                key={item.command.id}
+                className={`quick-open-item command-palette-item ${index === selectedIndex ? 'selected' : ''}`}
+                role="option"
+                aria-selected={index === selectedIndex}
+                onMouseMove={() => setSelectedIndex(index)}
+                onClick={() => runCommand(item)}
+              >
+                <span className="command-palette-label">{renderHighlighted(item.label, item.positions)}</span>
+                {keybinding && <kbd className="command-palette-keybinding">{keybinding}</kbd>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState, ReactElement } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { renderMermaid, getCurrentAppTheme } from '../../utils/mermaidSettings';
+import { collectDiagramElements, compareDiagramElements, highlightDiagramDiff } from '../../utils/diagramDiff';
+import type { DiagramElementMap } from '../../utils/diagramDiff';
+import { registerMermaidLanguage } from '../../utils/mermaidLanguage';
+import type { DiagramDiffChange, DiagramDiffRequest, DiagramDiffStatus } from '../../../types';
+import './DiagramDiffView.css';
+
+interface DiagramDiffViewProps {
+  request: DiagramDiffRequest | null;
+  onClose: () => void;
+}
+
+interface PaneErrors {
+  before?: string;
+  after?: string;
+}
+
+const STATUS_SYMBOLS: Record<DiagramDiffStatus, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~'
+};
+
+// 렌더링마다 고유 ID (mermaid.render는 같은 ID의 요소를 DOM에서 제거함)
+let renderCount = 0;
+
+/**
+ * 한쪽 버전을 컨테이너에 렌더링하고 비교 요소 추출 (실패 시 오류 메시지 반환)
+ */
+async function renderPane(container: HTMLDivElement, code: string, side: 'before' | 'after'): Promise<DiagramElementMap | string> {
+  container.innerHTML = '';
+  if (!code.trim()) return new Map();
+
+  try {
+    renderCount += 1;
+    const { svg } = await renderMermaid(`diagram-diff-${side}-${renderCount}`, code);
+    container.innerHTML = svg;
+    const svgElement = container.querySelector('svg');
+    return svgElement ? collectDiagramElements(svgElement, code) : new Map();
+  } catch (error) {
+    console.error(`Diagram diff rendering error (${side}):`, error);
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * 다이어그램 비교 뷰 컴포넌트
+ * 두 버전의 렌더링 결과를 나란히 표시하고 추가/삭제/변경된 노드·엣지를 강조,
+ * 아래에 소스 diff(Monaco DiffEditor) 표시
+ */
+const DiagramDiffView = ({ request, onClose }: DiagramDiffViewProps): ReactElement | null => {
+  const beforeRef = useRef<HTMLDivElement>(null);
+  const afterRef = useRef<HTMLDivElement>(null);
+  const [changes, setChanges] = useState<DiagramDiffChange[] | null>(null);
+  const [errors, setErrors] = useState<PaneErrors>({});
+
+  // 요청이 바뀌면 두 버전을 차례로 렌더링 (mermaid는 동시 렌더링을 지원하지 않음)
+  useEffect(() => {
+    if (!request || !beforeRef.current || !afterRef.current) return;
+
+    let isCancelled = false;
+    setChanges(null);
+    setErrors({});
+
+    const renderBoth = async (): Promise<void> => {
+      const before = await renderPane(beforeRef.current!, request.before.code, 'before');
+      if (isCancelled || !afterRef.current) return;
+      const after = await renderPane(afterRef.current, request.after.code, 'after');
+      if (isCancelled) return;
+
+      if (typeof before === 'string' || typeof after === 'string') {
+        setErrors({
+          before: typeof before === 'string' ? before : undefined,
+          after: typeof after === 'string' ? after : undefined
+        });
+        setChanges([]);
+        return;
+      }
+
+      const result = compareDiagramElements(before, after);
+      highlightDiagramDiff(before, result, 'before');
+      highlightDiagramDiff(after, result, 'after');
+      setChanges(result);
+    };
+
+    renderBoth();
+    return () => {
+      isCancelled = true;
+    };
+  }, [request]);
+
+  // ESC로 닫기
+  useEffect(() => {
+    if (!request) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [request, onClose]);
+
+  if (!request) return null;
+
+  const countOf = (status: DiagramDiffStatus): number => changes?.filter(change => change.status === status).length ?? 0;
+
+  // 목록에서 선택한 요소를 해당 쪽 미리보기에서 보이도록 스크롤
+  const handleChangeSelect = (change: DiagramDiffChange): void => {
+    const container = change.status === 'removed' ? beforeRef.current : afterRef.current;
+    const element = container?.querySelector(`[data-diff-key="${CSS.escape(change.key)}"]`);
+    element?.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+  };
+
+  const renderSummary = (): ReactElement => {
+    if (changes === null) {
+      return <span className="diagram-diff-summary">Rendering…</span>;
+    }
+    if (changes.length === 0 && !errors.before && !errors.after) {
+      return <span className="diagram-diff-summary">No visual changes</span>;
+    }
+    return (
+      <span className="diagram-diff-summary">
+        <span className="diagram-diff-count added">{countOf('added')} added</span>
+        <span className="diagram-diff-count removed">{countOf('removed')} removed</span>
+        <span className="diagram-diff-count changed">{countOf('changed')} changed</span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="diagram-diff-view" role="dialog" aria-label="Diagram diff">
+      <div className="diagram-diff-header">
+        <span className="diagram-diff-title">{request.title}</span>
+        {renderSummary()}
+        <button className="diagram-diff-close" onClick={onClose} title="Close (Esc)">
+          ✕
+        </button>
+      </div>
+
+      <div className="diagram-diff-body">
+        <div className="diagram-diff-panes">
+          <div className="diagram-diff-pane before">
+            <div className="diagram-diff-pane-label">{request.before.label}</div>
+            {errors.before && <div className="diagram-diff-error">{errors.before}</div>}
+            <div className="diagram-diff-canvas" ref={beforeRef} />
+          </div>
+          <div className="diagram-diff-pane after">
+            <div className="diagram-diff-pane-label">{request.after.label}</div>
+            {errors.after && <div className="diagram-diff-error">{errors.after}</div>}
+            <div className="diagram-diff-canvas" ref={afterRef} />
+          </div>
+          {changes && changes.length > 0 && (
+            <ul className="diagram-diff-changes">
+              {changes.map(change => (
+                <li
+                  key={`${change.status}:${change.key}`}
+                  className={`diagram-diff-change ${change.status}`}
+                  onClick={() => handleChangeSelect(change)}
+                  title={change.key}
+                >
+                  <span className="diagram-diff-change-symbol">{STATUS_SYMBOLS[change.status]}</span>
+                  <span className="diagram-diff-change-kind">{change.kind}</span>
+                  <span className="diagram-diff-change-label">
+                    {change.previousLabel !== undefined && change.previousLabel !== change.label
+                      ? `${change.previousLabel} → ${change.label}`
+                      : change.label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="diagram-diff-source">
+          <DiffEditor
+            height="100%"
+            language="mermaid"
+            original={request.before.code}
+            modified={request.after.code}
+            theme={getCurrentAppTheme() === 'dark' ? 'vs-dark' : 'vs-light'}
+            beforeMount={registerMermaidLanguage}
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              automaticLayout: true,
+              scrollBeyondLastLine: false
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramDiffView;
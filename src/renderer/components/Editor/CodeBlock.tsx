@@ -3,6 +3,8 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import MermaidBlock from './MermaidBlock';
 import { copyToClipboard as copyDiagramAsImage } from '../../utils/diagramExporter';
+import { applyDocumentMermaidConfig } from '../../utils/frontMatter';
+import type { MermaidUserConfig } from '../../../types';
 import './CodeBlock.css';
 
 type CopyStatus = 'success' | 'error' | null;
@@ -10,6 +12,8 @@ type CopyStatus = 'success' | 'error' | null;
 interface CodeBlockProps {
   language?: string;
   children: ReactNode;
+  sourceLine?: number;    // Markdown 소스 줄 (스크롤 동기화/클릭 이동용)
+  mermaidConfig?: MermaidUserConfig | null;  // 문서 front-matter의 mermaid 설정
 }
 
 // 언어 식별자 정규화 (컴포넌트 외부에 정의)
@@ -37,7 +41,7 @@ function normalizeLanguage(lang?: string): string {
  * - Mermaid 코드 → 다이어그램 렌더링 + 이미지 복사
  * - 일반 코드 → 구문 하이라이팅 + 텍스트 복사
  */
-function CodeBlock({ language, children }: CodeBlockProps): ReactElement {
+function CodeBlock({ language, children, sourceLine, mermaidConfig = null }: CodeBlockProps): ReactElement {
   const [copyStatus, setCopyStatus] = useState<CopyStatus>(null);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(
     document.documentElement.getAttribute('data-theme') === 'dark'
@@ -45,6 +49,8 @@ function CodeBlock({ language, children }: CodeBlockProps): ReactElement {
 
   const code = String(children).replace(/\n$/, '');
   const normalizedLang = normalizeLanguage(language);
+  // 렌더링/이미지 복사용 Mermaid 코드 (문서 설정 적용)
+  const diagramCode = normalizedLang === 'mermaid' ? applyDocumentMermaidConfig(code, mermaidConfig) : code;
 
   // 테마 변경 감지
   useEffect(() => {
@@ -65,7 +71,7 @@ function CodeBlock({ language, children }: CodeBlockProps): ReactElement {
     try {
       if (normalizedLang === 'mermaid') {
         // Mermaid: 다이어그램 이미지 복사
-        await copyDiagramAsImage(code, (msg: string, type?: string) => {
+        await copyDiagramAsImage(diagramCode, (msg: string, type?: string) => {
           if (type === 'error') throw new Error(msg);
         });
       } else {
@@ -88,7 +94,7 @@ function CodeBlock({ language, children }: CodeBlockProps): ReactElement {
   };
 
   return (
-    <div className="code-block-wrapper">
+    <div className="code-block-wrapper" data-source-line={sourceLine}>
       {/* 공통 헤더 */}
       <div className="code-block-header">
         <span className="code-block-language">{normalizedLang}</span>
@@ -104,7 +110,7 @@ function CodeBlock({ language, children }: CodeBlockProps): ReactElement {
       {/* 본문: Previewer 분기 */}
       <div className="code-block-content">
         {normalizedLang === 'mermaid' ? (
-          <MermaidBlock code={code} showHeader={false} />
+          <MermaidBlock code={diagramCode} showHeader={false} />
         ) : (
           <SyntaxHighlighter
             language={normalizedLang}
@@ -0,0 +1,99 @@
+import React, { useEffect, useState, ReactElement, RefObject } from 'react';
+import type { DiagramViewport } from '../../../types';
+import type { Size } from '../../hooks/usePanZoom';
+
+interface DiagramMinimapProps {
+  contentRef: RefObject<HTMLDivElement | null>;
+  contentSize: Size;
+  viewportSize: Size;
+  viewport: DiagramViewport;
+  onNavigate: (contentX: number, contentY: number) => void;
+}
+
+const MINIMAP_MAX_WIDTH = 180;
+const MINIMAP_MAX_HEIGHT = 140;
+// 확대된 다이어그램이 뷰포트보다 이 비율 이상 클 때만 미니맵 표시
+const MINIMAP_VISIBLE_RATIO = 1.2;
+
+/**
+ * 큰 다이어그램용 미니맵
+ * 전체 다이어그램 축소본 위에 현재 보이는 영역을 표시하고, 클릭/드래그로 이동
+ */
+const DiagramMinimap = ({ contentRef, contentSize, viewportSize, viewport, onNavigate }: DiagramMinimapProps): ReactElement | null => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  // 렌더링된 SVG를 이미지로 복사 (id 중복을 피하기 위해 DOM 복제 대신 data URL 사용)
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    const updateImage = (): void => {
+      const svg = content.querySelector('svg');
+      if (!svg) {
+        setImageUrl(null);
+        return;
+      }
+      const markup = new XMLSerializer().serializeToString(svg);
+      setImageUrl(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+    };
+
+    updateImage();
+    const observer = new MutationObserver(updateImage);
+    observer.observe(content, { childList: true });
+    return () => observer.disconnect();
+  }, [contentRef]);
+
+  const scaledWidth = contentSize.width * viewport.scale;
+  const scaledHeight = contentSize.height * viewport.scale;
+  const isVisible = imageUrl !== null && contentSize.width > 0 && contentSize.height > 0 && (
+    scaledWidth > viewportSize.width * MINIMAP_VISIBLE_RATIO ||
+    scaledHeight > viewportSize.height * MINIMAP_VISIBLE_RATIO
+  );
+
+  if (!isVisible) return null;
+
+  const minimapScale = Math.min(MINIMAP_MAX_WIDTH / contentSize.width, MINIMAP_MAX_HEIGHT / contentSize.height);
+  const width = contentSize.width * minimapScale;
+  const height = contentSize.height * minimapScale;
+
+  // 현재 보이는 영역 (콘텐츠 좌표 → 미니맵 좌표)
+  const visibleRect = {
+    left: (-viewport.x / viewport.scale) * minimapScale,
+    top: (-viewport.y / viewport.scale) * minimapScale,
+    width: (viewportSize.width / viewport.scale) * minimapScale,
+    height: (viewportSize.height / viewport.scale) * minimapScale
+  };
+
+  const navigateTo = (e: React.PointerEvent<HTMLDivElement>): void => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / minimapScale, (e.clientY - rect.top) / minimapScale);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>): void => {
+    // 미리보기 영역의 드래그 이동이 시작되지 않도록 차단
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    navigateTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>): void => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      navigateTo(e);
+    }
+  };
+
+  return (
+    <div
+      className="diagram-minimap"
+      style={{ width, height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      title="Minimap"
+    >
+      <img src={imageUrl} alt="" draggable={false} />
+      <div className="diagram-minimap-viewport" style={visibleRect} />
+    </div>
+  );
+};
+
+export default DiagramMinimap;
@@ -1,26 +1,69 @@
-import React, { useEffect, useState, ReactElement } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useEffect, useRef, useState, ReactElement } from 'react';
+import Editor, { Monaco, OnMount } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import ProblemsPanel from './ProblemsPanel';
 import { getEditorLanguage } from '../../utils/fileTypeDetector';
-import type { FileType } from '../../../types';
+import { registerMermaidLanguage } from '../../utils/mermaidLanguage';
+import type { FileType, DiagramProblem, SourceRevealRequest, ScrollSyncRequest, GitLineChange } from '../../../types';
 
 type MonacoTheme = 'vs-dark' | 'vs-light';
 
+// setModelMarkers 소유자 ID (다른 마커와 구분)
+const PROBLEM_MARKER_OWNER = 'mermaid-diagnostics';
+// 미리보기에서 이동한 줄 강조 유지 시간
+const REVEAL_HIGHLIGHT_DURATION = 1500;
+// 동기화로 스크롤한 직후의 스크롤 이벤트는 되돌려 보내지 않음 (양쪽이 서로 밀어내는 현상 방지)
+const SCROLL_SYNC_SUPPRESS_DURATION = 150;
+
 interface EditorPanelProps {
   diagramCode: string;
   onEditorChange: (value: string) => void;
   editorWidth?: number;
   fileType?: FileType;
   fullWidth?: boolean;
+  problems?: DiagramProblem[];
+  revealRequest?: SourceRevealRequest | null;
+  onCursorLineChange?: (lineNumber: number) => void;
+  scrollRequest?: ScrollSyncRequest | null;
+  onScrollLineChange?: (line: number) => void;
+  readOnly?: boolean;
+  lineChanges?: GitLineChange[];
 }
 
 /**
  * 에디터 패널 컴포넌트
  * Monaco Editor를 포함하는 패널
  */
-const EditorPanel = ({ diagramCode, onEditorChange, editorWidth, fileType = 'mermaid', fullWidth = false }: EditorPanelProps): ReactElement => {
+const EditorPanel = ({
+  diagramCode,
+  onEditorChange,
+  editorWidth,
+  fileType = 'mermaid',
+  fullWidth = false,
+  problems = [],
+  revealRequest = null,
+  onCursorLineChange,
+  scrollRequest = null,
+  onScrollLineChange,
+  readOnly = false,
+  lineChanges = []
+}: EditorPanelProps): ReactElement => {
 
   const editorLanguage = getEditorLanguage(fileType);
   const [monacoTheme, setMonacoTheme] = useState<MonacoTheme>('vs-dark');
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const glyphDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const revealDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const changeDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  // onMount에서 등록한 리스너가 항상 최신 콜백을 호출하도록 ref로 보관
+  const onCursorLineChangeRef = useRef<typeof onCursorLineChange>(onCursorLineChange);
+  onCursorLineChangeRef.current = onCursorLineChange;
+  const onScrollLineChangeRef = useRef<typeof onScrollLineChange>(onScrollLineChange);
+  onScrollLineChangeRef.current = onScrollLineChange;
+  const suppressScrollUntilRef = useRef<number>(0);
+  const scrollFrameRef = useRef<number | null>(null);
+  const [isEditorReady, setIsEditorReady] = useState<boolean>(false);
 
   // 앱 테마 변경 감지하여 Monaco 테마 동기화
   useEffect(() => {
@@ -49,6 +92,168 @@ const EditorPanel = ({ diagramCode, onEditorChange, editorWidth, fileType = 'mer
     return () => observer.disconnect();
   }, []);
 
+  // 진단 → Monaco 마커(물결 밑줄) + 거터 아이콘
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!editorInstance || !monaco || !model) return;
+
+    const lineCount = model.getLineCount();
+    const visibleProblems = problems.filter(problem => problem.startLineNumber <= lineCount);
+
+    monaco.editor.setModelMarkers(model, PROBLEM_MARKER_OWNER, visibleProblems.map(problem => ({
+      ...problem,
+      severity: problem.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning
+    })));
+
+    glyphDecorationsRef.current?.set(visibleProblems.map(problem => ({
+      range: new monaco.Range(problem.startLineNumber, 1, problem.startLineNumber, 1),
+      options: {
+        glyphMarginClassName: `problem-glyph-${problem.severity}`,
+        glyphMarginHoverMessage: { value: problem.message }
+      }
+    })));
+  }, [problems, isEditorReady]);
+
+  // git HEAD 대비 줄 변경 → 줄 번호 옆 변경 거터
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!monaco || !model) return;
+
+    const lineCount = model.getLineCount();
+    changeDecorationsRef.current?.set(lineChanges
+      .filter(change => change.startLineNumber <= lineCount)
+      .map(change => {
+        // 삭제는 삭제 위치 바로 위 줄의 아래쪽 (맨 앞에서 삭제되면 첫 줄의 위쪽)에 표시
+        return {
+          range: new monaco.Range(change.startLineNumber, 1, Math.min(change.endLineNumber, lineCount), 1),
+          options: {
+            isWholeLine: true,
+            linesDecorationsClassName: `git-gutter-${change.type}${change.aboveStartLine ? ' top' : ''}`,
+            overviewRuler: {
+              color: change.type === 'added' ? '#2ea04370' : change.type === 'deleted' ? '#f8514970' : '#0078d470',
+              position: monaco.editor.OverviewRulerLane.Left
+            }
+          }
+        };
+      }));
+  }, [lineChanges, isEditorReady]);
+
+  // 미리보기 요소 클릭 → 해당 줄로 이동 후 잠시 강조
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!revealRequest || !editorInstance || !monaco || !model) return;
+
+    const { lineNumber, column, length } = revealRequest;
+    if (lineNumber > model.getLineCount()) return;
+
+    // 가운데 정렬로 생긴 스크롤이 미리보기 스크롤 동기화를 덮어쓰지 않도록 억제
+    suppressScrollUntilRef.current = Date.now() + SCROLL_SYNC_SUPPRESS_DURATION;
+    editorInstance.revealLineInCenter(lineNumber);
+    if (column !== undefined) {
+      // 검색 일치 범위 선택 (여러 줄에 걸친 일치는 첫 줄 끝까지)
+      const endColumn = Math.min(column + (length ?? 0), model.getLineMaxColumn(lineNumber));
+      editorInstance.setSelection(new monaco.Range(lineNumber, column, lineNumber, endColumn));
+    } else {
+      editorInstance.setPosition({ lineNumber, column: model.getLineFirstNonWhitespaceColumn(lineNumber) || 1 });
+    }
+    editorInstance.focus();
+
+    revealDecorationsRef.current?.set([{
+      range: new monaco.Range(lineNumber, 1, lineNumber, 1),
+      options: { isWholeLine: true, className: 'source-line-highlight' }
+    }]);
+
+    const timeoutId = setTimeout(() => revealDecorationsRef.current?.clear(), REVEAL_HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeoutId);
+  }, [revealRequest, isEditorReady]);
+
+  // 미리보기 스크롤 → 같은 소스 줄이 맨 위에 오도록 스크롤
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const model = editorInstance?.getModel();
+    if (!scrollRequest || !editorInstance || !model) return;
+
+    const lineNumber = Math.min(Math.max(Math.floor(scrollRequest.line), 1), model.getLineCount());
+    const lineTop = editorInstance.getTopForLineNumber(lineNumber);
+    const nextLineTop = lineNumber < model.getLineCount()
+      ? editorInstance.getTopForLineNumber(lineNumber + 1)
+      : lineTop;
+
+    suppressScrollUntilRef.current = Date.now() + SCROLL_SYNC_SUPPRESS_DURATION;
+    editorInstance.setScrollTop(lineTop + (nextLineTop - lineTop) * (scrollRequest.line - lineNumber));
+  }, [scrollRequest, isEditorReady]);
+
+  useEffect(() => {
+    return () => {
+      if (scrollFrameRef.current !== null) {
+        cancelAnimationFrame(scrollFrameRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * 화면 맨 위에 보이는 소스 줄 계산 (줄 안의 위치는 소수점)
+   */
+  const getTopVisibleLine = (editorInstance: editor.IStandaloneCodeEditor): number | null => {
+    const firstRange = editorInstance.getVisibleRanges()[0];
+    if (!firstRange) return null;
+
+    const lineNumber = firstRange.startLineNumber;
+    const lineTop = editorInstance.getTopForLineNumber(lineNumber);
+    const lineHeight = editorInstance.getTopForLineNumber(lineNumber + 1) - lineTop;
+    const offset = editorInstance.getScrollTop() - lineTop;
+    return lineHeight > 0 ? lineNumber + Math.min(Math.max(offset / lineHeight, 0), 1) : lineNumber;
+  };
+
+  const handleEditorMount: OnMount = (editorInstance, monaco) => {
+    editorRef.current = editorInstance;
+    monacoRef.current = monaco;
+    glyphDecorationsRef.current = editorInstance.createDecorationsCollection();
+    revealDecorationsRef.current = editorInstance.createDecorationsCollection();
+    changeDecorationsRef.current = editorInstance.createDecorationsCollection();
+
+    // 커서 줄 변경 → 미리보기 요소 강조
+    editorInstance.onDidChangeCursorPosition((e) => {
+      onCursorLineChangeRef.current?.(e.position.lineNumber);
+    });
+
+    // 스크롤 → 미리보기 동기화 (프레임당 한 번만 전달)
+    editorInstance.onDidScrollChange((e) => {
+      if (!e.scrollTopChanged || !onScrollLineChangeRef.current) return;
+      if (Date.now() < suppressScrollUntilRef.current || scrollFrameRef.current !== null) return;
+
+      scrollFrameRef.current = requestAnimationFrame(() => {
+        scrollFrameRef.current = null;
+        const line = getTopVisibleLine(editorInstance);
+        if (line !== null) {
+          onScrollLineChangeRef.current?.(line);
+        }
+      });
+    });
+
+    setIsEditorReady(true);
+  };
+
+  // Problems 항목 클릭 시 해당 위치로 커서 이동
+  const handleProblemSelect = (problem: DiagramProblem): void => {
+    const editorInstance = editorRef.current;
+    if (!editorInstance) return;
+
+    editorInstance.revealLineInCenter(problem.startLineNumber);
+    editorInstance.setSelection({
+      startLineNumber: problem.startLineNumber,
+      startColumn: problem.startColumn,
+      endLineNumber: problem.endLineNumber,
+      endColumn: problem.endColumn
+    });
+    editorInstance.focus();
+  };
+
   // 파일 타입에 따른 헤더 텍스트
   const getHeaderText = (): string => {
     if (fileType === 'markdown') return 'Markdown Editor';
@@ -75,25 +280,40 @@ const EditorPanel = ({ diagramCode, onEditorChange, editorWidth, fileType = 'mer
     >
       <div className="editor-header">
         <h3>{getHeaderText()}</h3>
+        {readOnly && <span className="editor-readonly-badge">Read-only</span>}
+      </div>
+      <div className="editor-body">
+        <Editor
+          height="100%"
+          language={editorLanguage}
+          value={diagramCode}
+          onChange={(value) => onEditorChange(value ?? '')}
+          theme={monacoTheme}
+          beforeMount={registerMermaidLanguage}
+          onMount={handleEditorMount}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            wordWrap: 'on',
+            automaticLayout: true,
+            glyphMargin: true,
+            readOnly,
+            // Markdown 모드일 때 추가 옵션
+            ...(fileType === 'markdown' && {
+              quickSuggestions: true,
+              suggestOnTriggerCharacters: true
+            }),
+            // Mermaid 모드일 때 추가 옵션 (자동완성 + 블록 접기)
+            ...(fileType === 'mermaid' && {
+              quickSuggestions: { other: true, comments: false, strings: false },
+              suggestOnTriggerCharacters: true,
+              folding: true,
+              foldingStrategy: 'auto' as const
+            })
+          }}
+        />
       </div>
-      <Editor
-        height="100%"
-        language={editorLanguage}
-        value={diagramCode}
-        onChange={(value) => onEditorChange(value ?? '')}
-        theme={monacoTheme}
-        options={{
-          minimap: { enabled: false },
-          fontSize: 14,
-          wordWrap: 'on',
-          automaticLayout: true,
-          // Markdown 모드일 때 추가 옵션
-          ...(fileType === 'markdown' && {
-            quickSuggestions: true,
-            suggestOnTriggerCharacters: true
-          })
-        }}
-      />
+      <ProblemsPanel problems={problems} onSelect={handleProblemSelect} />
     </div>
   );
 };
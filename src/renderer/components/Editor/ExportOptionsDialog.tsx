@@ -0,0 +1,274 @@
+import React, { useEffect, useState, ReactElement, ChangeEvent } from 'react';
+import type {
+  ExportBackground,
+  ExportDialogFormat,
+  ExportRenderOptions,
+  ExportTheme,
+  PdfOrientation,
+  PdfPageSize,
+  SnippetImageFormat
+} from '../../../types';
+import './ExportOptionsDialog.css';
+
+interface ExportOptionsDialogProps {
+  format: ExportDialogFormat | null;
+  options: ExportRenderOptions;
+  onExport: (format: ExportDialogFormat, options: ExportRenderOptions) => void;
+  onCancel: () => void;
+}
+
+type SizeMode = 'scale' | 'width';
+
+const DEFAULT_SCALE = 2;
+const DEFAULT_BACKGROUND_COLOR = '#ffffff';
+const DEFAULT_QUALITY_PERCENT = 92;
+
+// 다이얼로그 제목에 표시할 형식 이름
+const FORMAT_LABELS: Record<ExportDialogFormat, string> = {
+  png: 'PNG',
+  pdf: 'PDF',
+  svg: 'SVG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  html: 'HTML',
+  markdown: 'Markdown snippet'
+};
+
+const SNIPPET_FORMAT_OPTIONS: { value: SnippetImageFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' }
+];
+
+const THEME_OPTIONS: { value: ExportTheme; label: string }[] = [
+  { value: 'current', label: 'Current' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' }
+];
+
+const BACKGROUND_OPTIONS: { value: ExportBackground; label: string }[] = [
+  { value: 'solid', label: 'Solid color' },
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'theme', label: 'Theme background' }
+];
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: 'fit', label: 'Fit to diagram' },
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' }
+];
+
+const ORIENTATION_OPTIONS: { value: PdfOrientation; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' }
+];
+
+/**
+ * 숫자 입력값 파싱 (비어 있거나 0 이하면 undefined)
+ */
+function parsePositive(value: string): number | undefined {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * 다이어그램 내보내기 옵션 다이얼로그
+ * 배율/가로 픽셀, JPEG/WebP 품질, 배경, 여백, PDF 용지 크기/방향, 테마 선택 (마지막 값은 워크스페이스별로 기억)
+ * Markdown 스니펫은 소스 옆에 저장할 이미지 형식을 추가로 선택
+ */
+const ExportOptionsDialog = ({ format, options, onExport, onCancel }: ExportOptionsDialogProps): ReactElement | null => {
+  const [draft, setDraft] = useState<ExportRenderOptions>(options);
+  const [sizeMode, setSizeMode] = useState<SizeMode>(options.width ? 'width' : 'scale');
+
+  // 다이얼로그가 열릴 때 저장된 옵션으로 초기화
+  useEffect(() => {
+    if (!format) return;
+    setDraft(options);
+    setSizeMode(options.width ? 'width' : 'scale');
+  }, [format, options]);
+
+  if (!format) return null;
+
+  // Markdown 스니펫은 선택한 이미지 형식 기준으로 옵션 표시
+  const imageFormat = format === 'markdown' ? draft.snippetFormat ?? 'png' : format;
+  const isRaster = imageFormat === 'png' || imageFormat === 'pdf' || imageFormat === 'jpeg' || imageFormat === 'webp';
+  const isLossy = imageFormat === 'jpeg' || imageFormat === 'webp';
+
+  const update = (changes: Partial<ExportRenderOptions>): void => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSizeModeChange = (mode: SizeMode): void => {
+    setSizeMode(mode);
+    update(mode === 'scale' ? { width: undefined } : { scale: undefined });
+  };
+
+  const handleExport = (): void => {
+    onExport(format, draft);
+  };
+
+  return (
+    <>
+      <div className="export-dialog-overlay" onClick={onCancel} />
+      <div className="export-options-dialog" role="dialog" aria-label="Export options">
+        <div className="export-dialog-header">Export as {FORMAT_LABELS[format]}</div>
+
+        <div className="export-dialog-content">
+          {format === 'markdown' && (
+            <label className="export-option">
+              <span className="export-option-label">Image format</span>
+              <select
+                value={imageFormat}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ snippetFormat: e.target.value as SnippetImageFormat })}
+              >
+                {SNIPPET_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="export-option">
+            <span className="export-option-label">Theme</span>
+            <select
+              value={draft.theme ?? 'current'}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ theme: e.target.value as ExportTheme })}
+            >
+              {THEME_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="export-option">
+            <span className="export-option-label">Background</span>
+            <div className="export-option-row">
+              <select
+                value={draft.background ?? 'solid'}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ background: e.target.value as ExportBackground })}
+              >
+                {BACKGROUND_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {(draft.background ?? 'solid') === 'solid' && (
+                <input
+                  type="color"
+                  value={draft.backgroundColor ?? DEFAULT_BACKGROUND_COLOR}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => update({ backgroundColor: e.target.value })}
+                  title="Background color"
+                />
+              )}
+            </div>
+          </div>
+
+          <label className="export-option">
+            <span className="export-option-label">Padding (px)</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.padding ?? 0}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ padding: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </label>
+
+          {isRaster && (
+            <div className="export-option">
+              <span className="export-option-label">Size</span>
+              <div className="export-option-row">
+                <label className="export-option-radio">
+                  <input
+                    type="radio"
+                    checked={sizeMode === 'scale'}
+                    onChange={() => handleSizeModeChange('scale')}
+                  />
+                  Scale
+                </label>
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  disabled={sizeMode !== 'scale'}
+                  value={draft.scale ?? DEFAULT_SCALE}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => update({ scale: parsePositive(e.target.value) })}
+                />
+                <label className="export-option-radio">
+                  <input
+                    type="radio"
+                    checked={sizeMode === 'width'}
+                    onChange={() => handleSizeModeChange('width')}
+                  />
+                  Width (px)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  disabled={sizeMode !== 'width'}
+                  value={draft.width ?? ''}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => update({ width: parsePositive(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          {isLossy && (
+            <label className="export-option">
+              <span className="export-option-label">Quality (%)</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={Math.round((draft.quality ?? DEFAULT_QUALITY_PERCENT / 100) * 100)}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                  const percent = parsePositive(e.target.value);
+                  update({ quality: percent ? Math.min(percent, 100) / 100 : undefined });
+                }}
+              />
+            </label>
+          )}
+
+          {format === 'pdf' && (
+            <>
+              <label className="export-option">
+                <span className="export-option-label">Page size</span>
+                <select
+                  value={draft.pdfPageSize ?? 'fit'}
+                  onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ pdfPageSize: e.target.value as PdfPageSize })}
+                >
+                  {PAGE_SIZE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="export-option">
+                <span className="export-option-label">Orientation</span>
+                <select
+                  value={draft.pdfOrientation ?? 'auto'}
+                  onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ pdfOrientation: e.target.value as PdfOrientation })}
+                >
+                  {ORIENTATION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="export-dialog-footer">
+          <button className="export-dialog-btn secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="export-dialog-btn primary" onClick={handleExport}>
+            Export
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ExportOptionsDialog;
@@ -0,0 +1,45 @@
+import React, { ReactElement } from 'react';
+import type { MarkdownFrontMatter } from '../../../types';
+
+interface FrontMatterHeaderProps {
+  frontMatter: MarkdownFrontMatter;
+}
+
+/**
+ * Markdown 문서 머리말 (front-matter의 제목, 작성자, 날짜, 상태, 태그)
+ * 표시할 항목이 없으면 렌더링하지 않음
+ */
+const FrontMatterHeader = ({ frontMatter }: FrontMatterHeaderProps): ReactElement | null => {
+  const { title, authors, date, status, tags } = frontMatter;
+  const hasMeta = authors.length > 0 || date !== null || status !== null;
+
+  if (!title && !hasMeta && tags.length === 0) return null;
+
+  return (
+    <header className="front-matter-header" data-source-line={frontMatter.startLine}>
+      {title && <h1 className="front-matter-title">{title}</h1>}
+
+      {hasMeta && (
+        <div className="front-matter-meta">
+          {authors.length > 0 && <span className="front-matter-authors">{authors.join(', ')}</span>}
+          {date && <time className="front-matter-date" dateTime={date}>{date}</time>}
+          {status && (
+            <span className={`front-matter-status front-matter-status-${status.toLowerCase().replace(/[^a-z0-9-]/g, '')}`}>
+              {status}
+            </span>
+          )}
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <ul className="front-matter-tags">
+          {tags.map(tag => (
+            <li key={tag} className="front-matter-tag">{tag}</li>
+          ))}
+        </ul>
+      )}
+    </header>
+  );
+};
+
+export default FrontMatterHeader;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState, ReactElement, ChangeEvent } from 'react';
+import { MAX_TOC_DEPTH } from '../../constants/markdownPdf';
+import type { MarkdownHtmlOptions } from '../../../types';
+import './ExportOptionsDialog.css';
+
+interface MarkdownHtmlDialogProps {
+  isOpen: boolean;
+  options: MarkdownHtmlOptions;
+  onExport: (options: MarkdownHtmlOptions) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Markdown HTML 내보내기 옵션 다이얼로그
+ * 화면 옆에 고정되는 목차 포함 여부와 제목 수준 선택
+ */
+const MarkdownHtmlDialog = ({ isOpen, options, onExport, onCancel }: MarkdownHtmlDialogProps): ReactElement | null => {
+  const [draft, setDraft] = useState<MarkdownHtmlOptions>(options);
+
+  // 다이얼로그가 열릴 때 마지막 옵션으로 초기화
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(options);
+  }, [isOpen, options]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="export-dialog-overlay" onClick={onCancel} />
+      <div className="export-options-dialog markdown-html-dialog" role="dialog" aria-label="HTML export options">
+        <div className="export-dialog-header">Export Markdown as HTML</div>
+
+        <div className="export-dialog-content">
+          <div className="export-option">
+            <span className="export-option-label">Table of contents</span>
+            <div className="export-option-row">
+              <input
+                type="checkbox"
+                checked={draft.tableOfContents}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, tableOfContents: e.target.checked }))}
+                aria-label="Floating table of contents"
+              />
+              <select
+                value={draft.tocDepth}
+                disabled={!draft.tableOfContents}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setDraft(prev => ({ ...prev, tocDepth: Number(e.target.value) }))}
+                title="Heading levels"
+              >
+                {Array.from({ length: MAX_TOC_DEPTH }, (_, i) => i + 1).map(depth => (
+                  <option key={depth} value={depth}>H1–H{depth}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="export-dialog-footer">
+          <button className="export-dialog-btn secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="export-dialog-btn primary" onClick={() => onExport(draft)}>
+            Export
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MarkdownHtmlDialog;
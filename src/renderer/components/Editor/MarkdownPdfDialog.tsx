@@ -0,0 +1,250 @@
+import React, { useEffect, useState, ReactElement, ChangeEvent } from 'react';
+import { MARKDOWN_PDF_PAGE_SIZES, MAX_TOC_DEPTH } from '../../constants/markdownPdf';
+import type {
+  MarkdownPdfMargins,
+  MarkdownPdfOptions,
+  MarkdownPdfPageSize,
+  MarkdownPdfSettings
+} from '../../../types';
+import './ExportOptionsDialog.css';
+import './MarkdownPdfDialog.css';
+
+interface MarkdownPdfDialogProps {
+  isOpen: boolean;
+  settings: MarkdownPdfSettings;
+  onExport: (options: MarkdownPdfOptions) => void;
+  onSettingsChange: (settings: MarkdownPdfSettings) => void;
+  onCancel: () => void;
+}
+
+const MARGIN_FIELDS: { key: keyof MarkdownPdfMargins; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'right', label: 'Right' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' }
+];
+
+const TEMPLATE_HINT = 'Tokens: {title} {date} {page} {pages} — use | to split left|center|right';
+
+/**
+ * Markdown PDF 내보내기 옵션 다이얼로그
+ * 용지 크기/방향, 여백, 머리글/바닥글 템플릿, 표지, 목차 선택
+ * 현재 옵션을 이름 있는 프리셋으로 저장/불러오기 (워크스페이스별)
+ */
+const MarkdownPdfDialog = ({ isOpen, settings, onExport, onSettingsChange, onCancel }: MarkdownPdfDialogProps): ReactElement | null => {
+  const [draft, setDraft] = useState<MarkdownPdfOptions>(settings.options);
+  const [selectedPreset, setSelectedPreset] = useState<string>('');
+  const [presetName, setPresetName] = useState<string>('');
+
+  // 다이얼로그가 열릴 때 마지막 옵션으로 초기화
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(settings.options);
+    setSelectedPreset('');
+    setPresetName('');
+  }, [isOpen, settings.options]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<MarkdownPdfOptions>): void => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateMargin = (key: keyof MarkdownPdfMargins, value: string): void => {
+    setDraft(prev => ({ ...prev, margins: { ...prev.margins, [key]: Math.max(0, Number(value) || 0) } }));
+  };
+
+  const handlePresetSelect = (name: string): void => {
+    setSelectedPreset(name);
+    setPresetName(name);
+    const preset = settings.presets.find(item => item.name === name);
+    if (preset) {
+      setDraft(preset.options);
+    }
+  };
+
+  // 같은 이름의 프리셋은 덮어씀
+  const handleSavePreset = (): void => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    const presets = settings.presets.filter(item => item.name !== name);
+    presets.push({ name, options: draft });
+    presets.sort((a, b) => a.name.localeCompare(b.name));
+    onSettingsChange({ ...settings, presets });
+    setSelectedPreset(name);
+  };
+
+  const handleDeletePreset = (): void => {
+    if (!selectedPreset) return;
+    onSettingsChange({ ...settings, presets: settings.presets.filter(item => item.name !== selectedPreset) });
+    setSelectedPreset('');
+    setPresetName('');
+  };
+
+  const handleExport = (): void => {
+    onExport(draft);
+  };
+
+  return (
+    <>
+      <div className="export-dialog-overlay" onClick={onCancel} />
+      <div className="export-options-dialog markdown-pdf-dialog" role="dialog" aria-label="PDF export options">
+        <div className="export-dialog-header">Export Markdown as PDF</div>
+
+        <div className="export-dialog-content">
+          <div className="export-option">
+            <span className="export-option-label">Preset</span>
+            <div className="export-option-row">
+              <select
+                className="markdown-pdf-preset-select"
+                value={selectedPreset}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => handlePresetSelect(e.target.value)}
+              >
+                <option value="">Last used</option>
+                {settings.presets.map(preset => (
+                  <option key={preset.name} value={preset.name}>{preset.name}</option>
+                ))}
+              </select>
+              <button
+                className="export-dialog-btn secondary"
+                onClick={handleDeletePreset}
+                disabled={!selectedPreset}
+                title="Delete preset"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <div className="export-option">
+            <span className="export-option-label">Save as preset</span>
+            <div className="export-option-row">
+              <input
+                type="text"
+                className="markdown-pdf-preset-name"
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setPresetName(e.target.value)}
+              />
+              <button
+                className="export-dialog-btn secondary"
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+
+          <label className="export-option">
+            <span className="export-option-label">Page size</span>
+            <select
+              value={draft.pageSize}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ pageSize: e.target.value as MarkdownPdfPageSize })}
+            >
+              {MARKDOWN_PDF_PAGE_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="export-option">
+            <span className="export-option-label">Orientation</span>
+            <select
+              value={draft.landscape ? 'landscape' : 'portrait'}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ landscape: e.target.value === 'landscape' })}
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </label>
+
+          <div className="export-option">
+            <span className="export-option-label">Margins (mm)</span>
+            <div className="export-option-row markdown-pdf-margins">
+              {MARGIN_FIELDS.map(field => (
+                <label key={field.key} className="markdown-pdf-margin">
+                  <span>{field.label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.margins[field.key]}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateMargin(field.key, e.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="export-option">
+            <span className="export-option-label">Header</span>
+            <input
+              type="text"
+              className="markdown-pdf-template"
+              value={draft.headerTemplate}
+              placeholder="{title}|{date}"
+              title={TEMPLATE_HINT}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ headerTemplate: e.target.value })}
+            />
+          </label>
+
+          <label className="export-option">
+            <span className="export-option-label">Footer</span>
+            <input
+              type="text"
+              className="markdown-pdf-template"
+              value={draft.footerTemplate}
+              placeholder="{page} / {pages}"
+              title={TEMPLATE_HINT}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ footerTemplate: e.target.value })}
+            />
+          </label>
+          <div className="markdown-pdf-hint">{TEMPLATE_HINT}</div>
+
+          <label className="export-option">
+            <span className="export-option-label">Cover page</span>
+            <input
+              type="checkbox"
+              checked={draft.coverPage}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ coverPage: e.target.checked })}
+            />
+          </label>
+
+          <div className="export-option">
+            <span className="export-option-label">Table of contents</span>
+            <div className="export-option-row">
+              <input
+                type="checkbox"
+                checked={draft.tableOfContents}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => update({ tableOfContents: e.target.checked })}
+                aria-label="Table of contents"
+              />
+              <select
+                value={draft.tocDepth}
+                disabled={!draft.tableOfContents}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ tocDepth: Number(e.target.value) })}
+                title="Heading levels"
+              >
+                {Array.from({ length: MAX_TOC_DEPTH }, (_, i) => i + 1).map(depth => (
+                  <option key={depth} value={depth}>H1–H{depth}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="export-dialog-footer">
+          <button className="export-dialog-btn secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="export-dialog-btn primary" onClick={handleExport}>
+            Export
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MarkdownPdfDialog;
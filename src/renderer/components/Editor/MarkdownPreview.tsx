@@ -1,13 +1,41 @@
-import React, { useState, ReactElement } from 'react';
+import React, { useEffect, useMemo, useRef, useState, ReactElement } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkFrontmatter from 'remark-frontmatter';
+import remarkMath from 'remark-math';
 import rehypeRaw from 'rehype-raw';
 import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
 import CodeBlock from './CodeBlock';
-import { exportMarkdownToPDF, printMarkdownPreview } from '../../utils/markdownExporter';
+import FrontMatterHeader from './FrontMatterHeader';
+import MarkdownPdfDialog from './MarkdownPdfDialog';
+import MarkdownHtmlDialog from './MarkdownHtmlDialog';
+import { exportMarkdownToDOCX, exportMarkdownToHTML, exportMarkdownToPDF, printMarkdownPreview } from '../../utils/markdownExporter';
+import {
+  rehypeSourceLines,
+  getScrollTopForSourceLine,
+  getSourceLineForScrollTop,
+  getSourceLineForElement
+} from '../../utils/markdownSourceLines';
+import {
+  remarkWikiLinks,
+  rehypeHeadingIds,
+  isExternalUrl,
+  isOpenableDocument,
+  splitLinkTarget,
+  resolveRelativePath,
+  resolveImageSource,
+  findAnchorElement
+} from '../../utils/markdownLinks';
+import { rehypeAlerts } from '../../utils/markdownAlerts';
+import { parseFrontMatter, getFrontMatterFileName } from '../../utils/frontMatter';
+import { DEFAULT_MARKDOWN_HTML_OPTIONS, DEFAULT_MARKDOWN_PDF_OPTIONS } from '../../constants/markdownPdf';
+import { getCommandTitle } from '../../utils/commandRegistry';
+import { useCommands } from '../../hooks/useCommands';
+import 'katex/dist/katex.min.css';
 import './MarkdownPreview.css';
-import type { Element, Text } from 'hast';
+import type { Element as HastElement, Text } from 'hast';
+import type { MarkdownHtmlOptions, MarkdownPdfOptions, MarkdownPdfSettings, ScrollSyncRequest } from '../../../types';
 
 type ToastType = 'success' | 'error' | 'info';
 
@@ -19,14 +47,140 @@ interface ToastState {
 interface MarkdownPreviewProps {
   content: string;
   currentFilePath: string | null;
+  scrollRequest?: ScrollSyncRequest | null;
+  onScrollLineChange?: (line: number) => void;
+  onSourceSelect?: (lineNumber: number) => void;
+  onFileSelect?: (content: string, filePath: string) => void;
+  pdfSettings?: MarkdownPdfSettings;
+  onPdfSettingsChange?: (settings: MarkdownPdfSettings) => void;
 }
 
+// 동기화로 스크롤한 직후의 스크롤 이벤트는 되돌려 보내지 않음 (양쪽이 서로 밀어내는 현상 방지)
+const SCROLL_SYNC_SUPPRESS_DURATION = 150;
+
+const DEFAULT_PDF_SETTINGS: MarkdownPdfSettings = { options: DEFAULT_MARKDOWN_PDF_OPTIONS, presets: [] };
+
+// 클릭해도 소스로 이동하지 않는 요소 (링크, 복사 버튼 등)
+const INTERACTIVE_SELECTOR = 'a, button, input, summary';
+
 /**
  * Markdown 미리보기 컴포넌트
+ * 블록 요소에 소스 줄 번호를 기록해 에디터와 스크롤을 동기화하고, 블록 클릭 시 해당 줄로 이동
+ * 상대 경로 이미지는 현재 파일 기준으로 디스크에서 읽고, .md/.mmd 링크는 새 탭으로, #anchor 링크는 미리보기 안에서 이동
+ * $인라인$ / $$블록$$ 수식은 KaTeX로, > [!NOTE] 등 GitHub 알림은 알림 블록으로 렌더링
+ * (KaTeX 출력과 알림 className은 sanitize에서 제거되므로 두 플러그인 모두 sanitize 이후에 실행)
+ * front-matter는 문서 머리말로 표시하고, title은 PDF 파일 이름에, mermaid 설정은 모든 다이어그램에 적용
+ * PDF 내보내기는 옵션 다이얼로그(용지, 여백, 머리글/바닥글, 표지, 목차, 프리셋)를 거쳐 실행
+ * HTML 내보내기는 렌더링된 미리보기로 스타일/다이어그램/이미지를 포함한 단일 파일 생성
+ * DOCX 내보내기는 소스를 Word 스타일로 변환 (다이어그램과 로컬 이미지는 PNG)
  */
-const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): ReactElement => {
+const MarkdownPreview = ({
+  content,
+  currentFilePath,
+  scrollRequest = null,
+  onScrollLineChange,
+  onSourceSelect,
+  onFileSelect,
+  pdfSettings = DEFAULT_PDF_SETTINGS,
+  onPdfSettingsChange
+}: MarkdownPreviewProps): ReactElement => {
   const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [isPdfDialogOpen, setIsPdfDialogOpen] = useState<boolean>(false);
+  const [isHtmlDialogOpen, setIsHtmlDialogOpen] = useState<boolean>(false);
+  const [htmlOptions, setHtmlOptions] = useState<MarkdownHtmlOptions>(DEFAULT_MARKDOWN_HTML_OPTIONS);
   const [toast, setToast] = useState<ToastState | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const suppressScrollUntilRef = useRef<number>(0);
+  const scrollFrameRef = useRef<number | null>(null);
+  const { frontMatter } = useMemo(() => parseFrontMatter(content), [content]);
+
+  // 에디터 스크롤 → 같은 소스 줄의 블록이 맨 위에 오도록 스크롤
+  useEffect(() => {
+    const container = contentRef.current;
+    if (!scrollRequest || !container) return;
+
+    suppressScrollUntilRef.current = Date.now() + SCROLL_SYNC_SUPPRESS_DURATION;
+    container.scrollTop = getScrollTopForSourceLine(container, scrollRequest.line);
+  }, [scrollRequest]);
+
+  useEffect(() => {
+    return () => {
+      if (scrollFrameRef.current !== null) {
+        cancelAnimationFrame(scrollFrameRef.current);
+      }
+    };
+  }, []);
+
+  // 미리보기 스크롤 → 에디터 동기화 (프레임당 한 번만 전달)
+  const handleScroll = (): void => {
+    if (!onScrollLineChange || Date.now() < suppressScrollUntilRef.current || scrollFrameRef.current !== null) return;
+
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      const container = contentRef.current;
+      if (!container) return;
+      const line = getSourceLineForScrollTop(container, container.scrollTop);
+      if (line !== null) {
+        onScrollLineChange(line);
+      }
+    });
+  };
+
+  // 블록 클릭 → 에디터에서 소스 줄로 이동 (텍스트 선택 중이거나 링크/버튼 클릭은 제외)
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>): void => {
+    if (!onSourceSelect || !(e.target instanceof Element)) return;
+    if (e.target.closest(INTERACTIVE_SELECTOR) || window.getSelection()?.toString()) return;
+
+    const lineNumber = getSourceLineForElement(e.target);
+    if (lineNumber !== null) {
+      onSourceSelect(lineNumber);
+    }
+  };
+
+  // #anchor → 미리보기 안에서 해당 제목으로 스크롤
+  const scrollToAnchor = (anchor: string): void => {
+    const container = contentRef.current;
+    if (!container) return;
+
+    const target = findAnchorElement(container, anchor);
+    if (!target) {
+      showToast(`Section not found: #${anchor}`, 'error');
+      return;
+    }
+    container.scrollTop += target.getBoundingClientRect().top - container.getBoundingClientRect().top;
+  };
+
+  // 링크 클릭: 외부 URL은 기본 동작, 문서 링크는 새 탭, 앵커는 미리보기 스크롤
+  const handleLinkClick = async (e: React.MouseEvent<HTMLAnchorElement>, href: string | undefined): Promise<void> => {
+    if (!href || isExternalUrl(href)) return;
+    e.preventDefault();
+
+    const { path, anchor } = splitLinkTarget(href);
+    if (!path) {
+      if (anchor) scrollToAnchor(anchor);
+      return;
+    }
+
+    if (!currentFilePath) {
+      showToast('Save the document to open relative links', 'error');
+      return;
+    }
+
+    const filePath = resolveRelativePath(currentFilePath, path);
+    if (!isOpenableDocument(filePath)) {
+      showToast(`Only Markdown and Mermaid files can be opened: ${path}`, 'error');
+      return;
+    }
+    if (!onFileSelect || !window.electronAPI) return;
+
+    try {
+      const fileContent = await window.electronAPI.readFile(filePath);
+      onFileSelect(fileContent, filePath);
+    } catch (error) {
+      console.error('Error opening linked file:', error);
+      showToast(`File not found: ${path}`, 'error');
+    }
+  };
 
   // 토스트 메시지 표시
   const showToast = (message: string, type: ToastType = 'info'): void => {
@@ -34,8 +188,10 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
     setTimeout(() => setToast(null), 3000);
   };
 
-  // 파일명 추출
+  // 파일명 추출 (front-matter title 우선)
   const getFileName = (): string => {
+    const title = getFrontMatterFileName(frontMatter);
+    if (title) return title;
     if (currentFilePath) {
       return currentFilePath.split('/').pop()?.replace(/\.[^/.]+$/, '') || 'document';
     }
@@ -50,9 +206,11 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
     }
   };
 
-  // PDF 내보내기
-  const handleExportPDF = async (): Promise<void> => {
+  // PDF 내보내기 (다이얼로그에서 선택한 옵션을 마지막 옵션으로 저장)
+  const handleExportPDF = async (options: MarkdownPdfOptions): Promise<void> => {
+    setIsPdfDialogOpen(false);
     if (isExporting) return;
+    onPdfSettingsChange?.({ ...pdfSettings, options });
 
     const element = document.querySelector('.markdown-content') as HTMLElement;
     if (!element) {
@@ -62,10 +220,45 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
 
     setIsExporting(true);
     try {
-      const result = await exportMarkdownToPDF(element, getFileName(), showToast);
-      if (result?.success) {
-        showToast(`PDF exported: ${result.pageCount} pages`, 'success');
-      }
+      await exportMarkdownToPDF(element, getFileName(), showToast, options, frontMatter);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      showToast(`Export failed: ${errorMessage}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // HTML 내보내기 (다이얼로그에서 선택한 옵션은 다음 내보내기에 유지)
+  const handleExportHTML = async (options: MarkdownHtmlOptions): Promise<void> => {
+    setIsHtmlDialogOpen(false);
+    if (isExporting) return;
+    setHtmlOptions(options);
+
+    const element = document.querySelector('.markdown-content') as HTMLElement;
+    if (!element) {
+      showToast('No content to export', 'error');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportMarkdownToHTML(element, getFileName(), showToast, options);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      showToast(`Export failed: ${errorMessage}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // DOCX 내보내기
+  const handleExportDOCX = async (): Promise<void> => {
+    if (isExporting) return;
+
+    setIsExporting(true);
+    try {
+      await exportMarkdownToDOCX(content, getFileName(), currentFilePath, showToast, frontMatter);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       showToast(`Export failed: ${errorMessage}`, 'error');
@@ -74,6 +267,14 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
     }
   };
 
+  // 내보내기 명령 (메뉴, 명령 팔레트에서도 버튼과 같은 동작, 내보내는 중에는 실행 불가)
+  useCommands({
+    'export.pdf': isExporting ? undefined : () => setIsPdfDialogOpen(true),
+    'export.html': isExporting ? undefined : () => setIsHtmlDialogOpen(true),
+    'export.docx': isExporting ? undefined : handleExportDOCX,
+    'export.print': handlePrint
+  });
+
   return (
     <div className="preview-panel markdown-preview">
       {/* Toast 메시지 */}
@@ -88,34 +289,79 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
         <div className="export-buttons">
           <button
             className="export-btn"
-            onClick={handleExportPDF}
+            onClick={() => setIsPdfDialogOpen(true)}
             disabled={isExporting}
-            title="Export as PDF"
+            title={getCommandTitle('export.pdf')}
           >
             {isExporting ? '⏳ Exporting...' : '📄 PDF'}
           </button>
+          <button
+            className="export-btn"
+            onClick={() => setIsHtmlDialogOpen(true)}
+            disabled={isExporting}
+            title={getCommandTitle('export.html')}
+          >
+            🌐 HTML
+          </button>
+          <button
+            className="export-btn"
+            onClick={handleExportDOCX}
+            disabled={isExporting}
+            title={getCommandTitle('export.docx')}
+          >
+            📝 DOCX
+          </button>
           <button
             className="export-btn"
             onClick={handlePrint}
-            title="Print"
+            title={getCommandTitle('export.print')}
           >
             🖨️ Print
           </button>
         </div>
       </div>
 
-      <div className="markdown-content">
+      <MarkdownPdfDialog
+        isOpen={isPdfDialogOpen}
+        settings={pdfSettings}
+        onExport={handleExportPDF}
+        onSettingsChange={(settings) => onPdfSettingsChange?.(settings)}
+        onCancel={() => setIsPdfDialogOpen(false)}
+      />
+
+      <MarkdownHtmlDialog
+        isOpen={isHtmlDialogOpen}
+        options={htmlOptions}
+        onExport={handleExportHTML}
+        onCancel={() => setIsHtmlDialogOpen(false)}
+      />
+
+      <div className="markdown-content" ref={contentRef} onScroll={handleScroll} onClick={handleContentClick}>
+        {frontMatter && <FrontMatterHeader frontMatter={frontMatter} />}
         <ReactMarkdown
-          remarkPlugins={[remarkFrontmatter, remarkGfm]}
-          rehypePlugins={[rehypeRaw, rehypeSanitize]}
+          remarkPlugins={[remarkFrontmatter, remarkGfm, remarkMath, remarkWikiLinks]}
+          rehypePlugins={[rehypeRaw, rehypeSanitize, rehypeKatex, rehypeAlerts, rehypeSourceLines, rehypeHeadingIds]}
           components={{
+            // img 태그: 상대 경로는 로컬 이미지 프로토콜로 변환
+            img({ node, src, ...props }) {
+              return <img src={resolveImageSource(src, currentFilePath)} {...props} />;
+            },
+            // a 태그: 문서 링크/앵커는 앱 안에서 처리
+            a({ node, href, children, ...props }) {
+              return (
+                <a href={href} onClick={(e) => handleLinkClick(e, href)} {...props}>
+                  {children}
+                </a>
+              );
+            },
             // pre 태그: 블록 코드를 CodeBlock으로 변환
             pre({ node, children }) {
+              const sourceLine = Number(node?.properties?.dataSourceLine) || undefined;
               // children에서 code 요소 추출
               const firstChild = node?.children?.[0];
               // type guard: Element인지 확인
               if (firstChild && 'tagName' in firstChild && firstChild.tagName === 'code') {
-                const codeElement = firstChild as Element;
+                const codeElement = firstChild as HastElement;
                 const classNames = codeElement.properties?.className;
                 const className = Array.isArray(classNames) ? String(classNames[0] || '') : '';
                 const match = /language-(\w+)/.exec(className);
@@ -124,13 +370,13 @@ const MarkdownPreview = ({ content, currentFilePath }: MarkdownPreviewProps): Re
                 const code = textNode && 'value' in textNode ? (textNode as Text).value : '';
 
                 return (
-                  <CodeBlock language={language}>
+                  <CodeBlock language={language} sourceLine={sourceLine} mermaidConfig={frontMatter?.mermaid}>
                     {code}
                   </CodeBlock>
                 );
               }
               // fallback
-              return <pre>{children}</pre>;
+              return <pre data-source-line={sourceLine}>{children}</pre>;
             },
             // code 태그: 인라인 코드만 처리 (블록은 pre에서 처리)
             code({ node, className, children, ...props }) {
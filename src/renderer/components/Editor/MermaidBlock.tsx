@@ -1,10 +1,17 @@
-import React, { useEffect, useRef, useState, ReactElement } from 'react';
-import mermaid from 'mermaid';
-import { mermaidConfig } from '../../constants/mermaidConfig';
+import React, { useEffect, useRef, useState, useSyncExternalStore, ReactElement } from 'react';
+import type { MermaidConfig } from 'mermaid';
 import { copyToClipboard } from '../../utils/diagramExporter';
+import { renderMermaid, subscribeMermaidSettings, getMermaidSettingsVersion } from '../../utils/mermaidSettings';
 
 type CopyStatus = 'success' | 'error' | null;
 
+// Markdown 내 다이어그램을 위한 추가 설정 (컨테이너 너비에 맞춤)
+const MARKDOWN_DIAGRAM_CONFIG: MermaidConfig = {
+  startOnLoad: false,
+  flowchart: { useMaxWidth: true },
+  sequence: { useMaxWidth: true }
+};
+
 interface MermaidBlockProps {
   code: string;
   showHeader?: boolean;
@@ -20,30 +27,15 @@ const MermaidBlock = ({ code, showHeader = true }: MermaidBlockProps): ReactElem
   const [error, setError] = useState<string | null>(null);
   const [copyStatus, setCopyStatus] = useState<CopyStatus>(null);
   const [isHovered, setIsHovered] = useState<boolean>(false);
-
-  useEffect(() => {
-    // Mermaid 설정 초기화
-    mermaid.initialize({
-      ...mermaidConfig,
-      startOnLoad: false,
-      // Markdown 내 다이어그램을 위한 추가 설정
-      flowchart: {
-        ...mermaidConfig.flowchart,
-        useMaxWidth: true,  // 컨테이너 너비에 맞춤
-      },
-      sequence: {
-        ...mermaidConfig.sequence,
-        useMaxWidth: true,
-      }
-    });
-  }, []);
+  // 워크스페이스 Mermaid 설정이 바뀌면 다시 렌더링
+  const settingsVersion = useSyncExternalStore(subscribeMermaidSettings, getMermaidSettingsVersion);
 
   useEffect(() => {
     if (ref.current && code) {
       const renderDiagram = async (): Promise<void> => {
         try {
           const id = 'mermaid-' + Math.random().toString(36).substr(2, 9);
-          const { svg } = await mermaid.render(id, code);
+          const { svg } = await renderMermaid(id, code, MARKDOWN_DIAGRAM_CONFIG);
           if (ref.current) {
             ref.current.innerHTML = svg;
           }
@@ -56,7 +48,7 @@ const MermaidBlock = ({ code, showHeader = true }: MermaidBlockProps): ReactElem
 
       renderDiagram();
     }
-  }, [code]);
+  }, [code, settingsVersion]);
 
   // 클립보드에 복사 (기존 diagramExporter 함수 재사용)
   const handleCopyToClipboard = async (): Promise<void> => {
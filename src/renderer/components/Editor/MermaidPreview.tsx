@@ -1,5 +1,12 @@
-import React, { useState, ReactElement, RefObject } from 'react';
+import React, { useEffect, useRef, useState, ReactElement, RefObject } from 'react';
+import DiagramMinimap from './DiagramMinimap';
+import ExportOptionsDialog from './ExportOptionsDialog';
+import { usePanZoom } from '../../hooks/usePanZoom';
+import { findSourceElements, getSourceLine } from '../../utils/diagramSourceMap';
 import { exportDiagram, copyToClipboard, ExportFormat, ShowToastFn } from '../../utils/diagramExporter';
+import { getCommandTitle } from '../../utils/commandRegistry';
+import { useCommands } from '../../hooks/useCommands';
+import type { CommandId, DiagramProblem, DiagramViewport, ExportDialogFormat, ExportRenderOptions, ScrollSyncRequest } from '../../../types';
 
 interface ContextMenuState {
   x: number;
@@ -15,33 +22,152 @@ interface MermaidPreviewProps {
   diagramRef: RefObject<HTMLDivElement | null>;
   content: string;
   currentFilePath: string | null;
+  renderError?: DiagramProblem | null;
+  documentId?: number | null;
+  previewViewport?: DiagramViewport | null;
+  onPreviewViewportChange?: (documentId: number, viewport: DiagramViewport) => void;
+  highlightLine?: number | null;
+  onSourceSelect?: (lineNumber: number) => void;
+  exportOptions?: ExportRenderOptions;
+  onExportOptionsChange?: (options: ExportRenderOptions) => void;
+  scrollRequest?: ScrollSyncRequest | null;
 }
 
+// 에디터 커서 줄에 대응하는 SVG 요소에 붙이는 클래스
+const SOURCE_HIGHLIGHT_CLASS = 'source-highlight';
+
+// 저장된 내보내기 옵션이 없을 때 (렌더링마다 새 객체가 생기지 않도록 고정)
+const DEFAULT_EXPORT_OPTIONS: ExportRenderOptions = {};
+
+// More 메뉴의 추가 내보내기 형식
+const MORE_EXPORT_FORMATS: { format: ExportDialogFormat; commandId: CommandId; icon: string }[] = [
+  { format: 'jpeg', commandId: 'export.jpeg', icon: '🖼️' },
+  { format: 'webp', commandId: 'export.webp', icon: '🖼️' },
+  { format: 'html', commandId: 'export.html', icon: '🌐' },
+  { format: 'markdown', commandId: 'export.markdownSnippet', icon: '📝' }
+];
+
 /**
  * Mermaid 다이어그램 전용 미리보기
+ * 문법 오류가 있으면 마지막 정상 렌더링을 흐리게 유지하고 상단에 오류 배너 표시
+ * 휠/핀치 확대, 드래그 이동, 맞춤 버튼, 미니맵 지원 (확대 상태는 탭별로 저장)
+ * 노드/엣지/참여자 클릭 시 에디터의 정의 줄로 이동하고, 에디터 커서 줄의 요소를 강조
+ * 내보내기 버튼은 옵션 다이얼로그를 거쳐 내보내며, 선택한 옵션은 다음 내보내기의 기본값이 됨
+ * JPEG/WebP/HTML/Markdown 스니펫은 More 메뉴에서 선택
+ * 아웃라인에서 항목을 선택하면 해당 줄의 요소가 가운데 오도록 이동
  */
-const MermaidPreview = ({ diagramRef, content, currentFilePath }: MermaidPreviewProps): ReactElement => {
+const MermaidPreview = ({
+  diagramRef,
+  content,
+  currentFilePath,
+  renderError = null,
+  documentId = null,
+  previewViewport = null,
+  onPreviewViewportChange,
+  highlightLine = null,
+  onSourceSelect,
+  exportOptions = DEFAULT_EXPORT_OPTIONS,
+  onExportOptionsChange,
+  scrollRequest = null
+}: MermaidPreviewProps): ReactElement => {
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [exportDialogFormat, setExportDialogFormat] = useState<ExportDialogFormat | null>(null);
+  const [showMoreFormats, setShowMoreFormats] = useState<boolean>(false);
   const [toast, setToast] = useState<ToastState | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const {
+    viewport,
+    contentSize,
+    viewportSize,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitToWidth,
+    fitToPage,
+    centerOn,
+    handlePointerDown,
+    handleClickCapture
+  } = usePanZoom({
+    viewportRef,
+    contentRef: diagramRef,
+    documentId,
+    initialViewport: previewViewport,
+    onViewportChange: onPreviewViewportChange
+  });
+
+  // 에디터 커서 줄 → 대응 요소 강조 (재렌더링으로 SVG가 교체되면 다시 적용)
+  useEffect(() => {
+    const container = diagramRef.current;
+    if (!container) return;
+
+    const applyHighlight = (): void => {
+      container.querySelectorAll(`.${SOURCE_HIGHLIGHT_CLASS}`).forEach(element => {
+        element.classList.remove(SOURCE_HIGHLIGHT_CLASS);
+      });
+      if (highlightLine === null) return;
+      findSourceElements(container, highlightLine).forEach(element => {
+        element.classList.add(SOURCE_HIGHLIGHT_CLASS);
+      });
+    };
+
+    applyHighlight();
+    const observer = new MutationObserver(applyHighlight);
+    observer.observe(container, { childList: true });
+    return () => observer.disconnect();
+  }, [diagramRef, highlightLine]);
+
+  // 아웃라인 선택 → 해당 줄의 요소를 뷰포트 가운데로 (확대 배율 유지)
+  useEffect(() => {
+    const container = diagramRef.current;
+    if (!scrollRequest || !container) return;
+
+    const target = findSourceElements(container, Math.floor(scrollRequest.line))[0];
+    if (!target) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const targetRect = target.getBoundingClientRect();
+    centerOn(
+      (targetRect.left + targetRect.width / 2 - containerRect.left) / viewport.scale,
+      (targetRect.top + targetRect.height / 2 - containerRect.top) / viewport.scale
+    );
+  }, [scrollRequest]);
+
+  // 요소 클릭 → 에디터에서 정의 줄로 이동 (드래그 이동 후의 클릭은 usePanZoom에서 차단)
+  const handleDiagramClick = (e: React.MouseEvent<HTMLDivElement>): void => {
+    if (!onSourceSelect || !(e.target instanceof Element)) return;
+    const lineNumber = getSourceLine(e.target);
+    if (lineNumber !== null) {
+      onSourceSelect(lineNumber);
+    }
+  };
 
   const showToast: ShowToastFn = (message, type = 'success') => {
     setToast({ message, type: type === 'info' ? 'success' : type });
     setTimeout(() => setToast(null), 1500);
   };
 
-  const handleExport = async (format: ExportFormat): Promise<void> => {
+  const handleExport = async (format: ExportFormat, options: ExportRenderOptions = exportOptions): Promise<void> => {
     if (!diagramRef.current) {
       showToast('No diagram to export', 'error');
       return;
     }
     try {
-      await exportDiagram(content, currentFilePath, format, diagramRef.current, showToast);
+      await exportDiagram(content, currentFilePath, format, diagramRef.current, showToast, options);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       showToast(`Export failed: ${errorMessage}`, 'error');
     }
   };
 
+  // 옵션 다이얼로그에서 내보내기 → 선택한 옵션 저장
+  const handleExportWithOptions = (format: ExportDialogFormat, options: ExportRenderOptions): void => {
+    setExportDialogFormat(null);
+    onExportOptionsChange?.(options);
+    handleExport(format, options);
+  };
+
   const handleCopyToClipboard = async (): Promise<void> => {
     try {
       await copyToClipboard(content, showToast);
@@ -52,6 +178,23 @@ const MermaidPreview = ({ diagramRef, content, currentFilePath }: MermaidPreview
     }
   };
 
+  // 내보내기/확대 명령 (메뉴, 단축키, 명령 팔레트에서도 버튼과 같은 동작)
+  useCommands({
+    'export.png': () => setExportDialogFormat('png'),
+    'export.pdf': () => setExportDialogFormat('pdf'),
+    'export.svg': () => setExportDialogFormat('svg'),
+    'export.jpeg': () => setExportDialogFormat('jpeg'),
+    'export.webp': () => setExportDialogFormat('webp'),
+    'export.html': () => setExportDialogFormat('html'),
+    'export.markdownSnippet': () => setExportDialogFormat('markdown'),
+    'export.copyImage': handleCopyToClipboard,
+    'preview.zoomIn': zoomIn,
+    'preview.zoomOut': zoomOut,
+    'preview.fitToWidth': fitToWidth,
+    'preview.fitToPage': fitToPage,
+    'preview.actualSize': resetZoom
+  });
+
   const handleContextMenu = (e: React.MouseEvent): void => {
     e.preventDefault();
     setContextMenu({ x: e.clientX, y: e.clientY });
@@ -68,6 +211,14 @@ const MermaidPreview = ({ diagramRef, content, currentFilePath }: MermaidPreview
     }
   }, [contextMenu]);
 
+  // More 메뉴 바깥 클릭 시 닫기
+  React.useEffect(() => {
+    if (!showMoreFormats) return;
+    const handleCloseMoreFormats = (): void => setShowMoreFormats(false);
+    document.addEventListener('click', handleCloseMoreFormats);
+    return () => document.removeEventListener('click', handleCloseMoreFormats);
+  }, [showMoreFormats]);
+
   return (
     <div className="preview-panel mermaid-preview">
       <div className="preview-header">
@@ -76,39 +227,95 @@ const MermaidPreview = ({ diagramRef, content, currentFilePath }: MermaidPreview
           <button
             className="export-btn"
             onClick={handleCopyToClipboard}
-            title="Copy to Clipboard"
+            title={getCommandTitle('export.copyImage')}
           >
             📋 Copy
           </button>
           <button
             className="export-btn"
-            onClick={() => handleExport('png')}
-            title="Export as PNG"
+            onClick={() => setExportDialogFormat('png')}
+            title={getCommandTitle('export.png')}
           >
             📷 PNG
           </button>
           <button
             className="export-btn"
-            onClick={() => handleExport('pdf')}
-            title="Export as PDF"
+            onClick={() => setExportDialogFormat('pdf')}
+            title={getCommandTitle('export.pdf')}
           >
             📄 PDF
           </button>
           <button
             className="export-btn"
-            onClick={() => handleExport('svg')}
-            title="Export as SVG"
+            onClick={() => setExportDialogFormat('svg')}
+            title={getCommandTitle('export.svg')}
           >
             🎨 SVG
           </button>
+          <div className="export-more">
+            <button
+              className="export-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowMoreFormats(prev => !prev);
+              }}
+              title="More export formats"
+            >
+              ⋯ More
+            </button>
+            {showMoreFormats && (
+              <div className="context-menu export-more-menu">
+                {MORE_EXPORT_FORMATS.map(item => (
+                  <button key={item.format} onClick={() => setExportDialogFormat(item.format)}>
+                    {item.icon} {getCommandTitle(item.commandId)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       <div
-        className="diagram-container"
-        ref={diagramRef}
+        className={`diagram-viewport ${isPanning ? 'panning' : ''}`}
+        ref={viewportRef}
+        onPointerDown={handlePointerDown}
+        onClickCapture={handleClickCapture}
+        onClick={handleDiagramClick}
         onContextMenu={handleContextMenu}
-      ></div>
+      >
+        {renderError && (
+          <div className="diagram-error-banner" role="alert" title={renderError.message}>
+            <span className="diagram-error-location">
+              ⛔ Ln {renderError.startLineNumber}, Col {renderError.startColumn}
+            </span>
+            <span className="diagram-error-message">{renderError.message}</span>
+          </div>
+        )}
+        <div
+          className={`diagram-container ${renderError ? 'stale' : ''}`}
+          ref={diagramRef}
+          style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})` }}
+        ></div>
+
+        <DiagramMinimap
+          contentRef={diagramRef}
+          contentSize={contentSize}
+          viewportSize={viewportSize}
+          viewport={viewport}
+          onNavigate={centerOn}
+        />
+
+        {/* 확대/맞춤 컨트롤 - 드래그 이동과 겹치지 않도록 포인터 이벤트 차단 */}
+        <div className="zoom-controls" onPointerDown={(e) => e.stopPropagation()}>
+          <button className="zoom-btn" onClick={zoomOut} title={getCommandTitle('preview.zoomOut')}>−</button>
+          <span className="zoom-level">{Math.round(viewport.scale * 100)}%</span>
+          <button className="zoom-btn" onClick={zoomIn} title={getCommandTitle('preview.zoomIn')}>+</button>
+          <button className="zoom-btn" onClick={fitToWidth} title={getCommandTitle('preview.fitToWidth')}>↔</button>
+          <button className="zoom-btn" onClick={fitToPage} title={getCommandTitle('preview.fitToPage')}>⤢</button>
+          <button className="zoom-btn" onClick={resetZoom} title={getCommandTitle('preview.actualSize')}>1:1</button>
+        </div>
+      </div>
 
       {contextMenu && (
         <div
@@ -121,11 +328,18 @@ const MermaidPreview = ({ diagramRef, content, currentFilePath }: MermaidPreview
           }}
         >
           <button onClick={handleCopyToClipboard}>
-            📋 Copy Image to Clipboard
+            📋 {getCommandTitle('export.copyImage')}
           </button>
         </div>
       )}
 
+      <ExportOptionsDialog
+        format={exportDialogFormat}
+        options={exportOptions}
+        onExport={handleExportWithOptions}
+        onCancel={() => setExportDialogFormat(null)}
+      />
+
       {toast && (
         <div className={`toast toast-${toast.type}`}>
           {toast.message}
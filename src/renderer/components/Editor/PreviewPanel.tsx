@@ -1,7 +1,7 @@
 import React, { ReactElement, RefObject } from 'react';
 import MermaidPreview from './MermaidPreview';
 import MarkdownPreview from './MarkdownPreview';
-import type { FileType } from '../../../types';
+import type { FileType, DiagramProblem, DiagramViewport, ExportRenderOptions, MarkdownPdfSettings, ScrollSyncRequest } from '../../../types';
 
 interface PreviewPanelProps {
   diagramRef?: RefObject<HTMLDivElement | null>;
@@ -9,12 +9,44 @@ interface PreviewPanelProps {
   fileType: FileType;
   currentFilePath: string | null;
   fullWidth?: boolean;
+  problems?: DiagramProblem[];
+  documentId?: number | null;
+  previewViewport?: DiagramViewport | null;
+  onPreviewViewportChange?: (documentId: number, viewport: DiagramViewport) => void;
+  highlightLine?: number | null;
+  onSourceSelect?: (lineNumber: number) => void;
+  exportOptions?: ExportRenderOptions;
+  onExportOptionsChange?: (options: ExportRenderOptions) => void;
+  scrollRequest?: ScrollSyncRequest | null;
+  onScrollLineChange?: (line: number) => void;
+  onFileSelect?: (content: string, filePath: string) => void;
+  pdfSettings?: MarkdownPdfSettings;
+  onPdfSettingsChange?: (settings: MarkdownPdfSettings) => void;
 }
 
 /**
  * 통합 프리뷰 패널 - 파일 타입에 따라 다른 프리뷰 렌더링
  */
-const PreviewPanel = ({ diagramRef, content, fileType, currentFilePath, fullWidth = false }: PreviewPanelProps): ReactElement => {
+const PreviewPanel = ({
+  diagramRef,
+  content,
+  fileType,
+  currentFilePath,
+  fullWidth = false,
+  problems = [],
+  documentId = null,
+  previewViewport = null,
+  onPreviewViewportChange,
+  highlightLine = null,
+  onSourceSelect,
+  exportOptions,
+  onExportOptionsChange,
+  scrollRequest = null,
+  onScrollLineChange,
+  onFileSelect,
+  pdfSettings,
+  onPdfSettingsChange
+}: PreviewPanelProps): ReactElement => {
 
   // Mermaid 파일
   if (fileType === 'mermaid' && diagramRef) {
@@ -23,6 +55,15 @@ const PreviewPanel = ({ diagramRef, content, fileType, currentFilePath, fullWidt
         diagramRef={diagramRef}
         content={content}
         currentFilePath={currentFilePath}
+        renderError={problems[0] ?? null}
+        documentId={documentId}
+        previewViewport={previewViewport}
+        onPreviewViewportChange={onPreviewViewportChange}
+        highlightLine={highlightLine}
+        onSourceSelect={onSourceSelect}
+        exportOptions={exportOptions}
+        onExportOptionsChange={onExportOptionsChange}
+        scrollRequest={scrollRequest}
       />
     );
   }
@@ -33,6 +74,12 @@ const PreviewPanel = ({ diagramRef, content, fileType, currentFilePath, fullWidt
       <MarkdownPreview
         content={content}
         currentFilePath={currentFilePath}
+        scrollRequest={scrollRequest}
+        onScrollLineChange={onScrollLineChange}
+        onSourceSelect={onSourceSelect}
+        onFileSelect={onFileSelect}
+        pdfSettings={pdfSettings}
+        onPdfSettingsChange={onPdfSettingsChange}
       />
     );
   }
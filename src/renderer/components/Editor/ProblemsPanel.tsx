@@ -0,0 +1,57 @@
+import React, { useState, ReactElement } from 'react';
+import type { DiagramProblem } from '../../../types';
+import './ProblemsPanel.css';
+
+interface ProblemsPanelProps {
+  problems: DiagramProblem[];
+  onSelect: (problem: DiagramProblem) => void;
+}
+
+/**
+ * Problems 목록 패널
+ * 에디터 하단에 진단 목록을 표시하고, 항목 클릭 시 해당 위치로 이동
+ */
+const ProblemsPanel = ({ problems, onSelect }: ProblemsPanelProps): ReactElement | null => {
+  const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
+
+  if (problems.length === 0) return null;
+
+  const errorCount = problems.filter(problem => problem.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <div className={`problems-panel ${isCollapsed ? 'collapsed' : ''}`}>
+      <button
+        className="problems-header"
+        onClick={() => setIsCollapsed(prev => !prev)}
+        title={isCollapsed ? 'Show Problems' : 'Hide Problems'}
+      >
+        <span className="problems-chevron">{isCollapsed ? '▸' : '▾'}</span>
+        <span className="problems-title">Problems</span>
+        {errorCount > 0 && <span className="problems-count error">⛔ {errorCount}</span>}
+        {warningCount > 0 && <span className="problems-count warning">⚠️ {warningCount}</span>}
+      </button>
+
+      {!isCollapsed && (
+        <ul className="problems-list">
+          {problems.map((problem, index) => (
+            <li
+              key={`${problem.startLineNumber}:${problem.startColumn}:${index}`}
+              className={`problem-item ${problem.severity}`}
+              onClick={() => onSelect(problem)}
+              title={problem.message}
+            >
+              <span className="problem-icon">{problem.severity === 'error' ? '⛔' : '⚠️'}</span>
+              <span className="problem-message">{problem.message}</span>
+              <span className="problem-location">
+                Ln {problem.startLineNumber}, Col {problem.startColumn}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useRef, ReactElement, ChangeEvent } from 'react';
+import { exportAllDiagrams, DEFAULT_NAMING_PATTERN } from '../../../utils/batchExporter';
+import type { BatchExportProgress, BatchExportSummary, ExportType } from '../../../../types';
+
+interface BatchExportDialogProps {
+  folderPath: string | null;
+  onClose: () => void;
+}
+
+type DialogPhase = 'options' | 'running' | 'done';
+
+const FORMAT_OPTIONS: { value: ExportType; label: string }[] = [
+  { value: 'svg', label: 'SVG' },
+  { value: 'png', label: 'PNG' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'html', label: 'HTML' }
+];
+
+const DEFAULT_OUTPUT_SUBFOLDER = 'export';
+
+/**
+ * 폴더 일괄 내보내기 다이얼로그 컴포넌트
+ * 형식/출력 폴더/이름 패턴 선택 → 진행 상태 표시 → 실패 요약
+ */
+const BatchExportDialog = ({ folderPath, onClose }: BatchExportDialogProps): ReactElement | null => {
+  const [phase, setPhase] = useState<DialogPhase>('options');
+  const [formats, setFormats] = useState<ExportType[]>(['svg']);
+  const [outputDirectory, setOutputDirectory] = useState<string>('');
+  const [namingPattern, setNamingPattern] = useState<string>(DEFAULT_NAMING_PATTERN);
+  const [progress, setProgress] = useState<BatchExportProgress | null>(null);
+  const [summary, setSummary] = useState<BatchExportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRequestedRef = useRef<boolean>(false);
+
+  // 다이얼로그가 열릴 때마다 초기화
+  useEffect(() => {
+    if (!folderPath) return;
+    setPhase('options');
+    setOutputDirectory(`${folderPath}/${DEFAULT_OUTPUT_SUBFOLDER}`);
+    setProgress(null);
+    setSummary(null);
+    setError(null);
+    cancelRequestedRef.current = false;
+  }, [folderPath]);
+
+  if (!folderPath) return null;
+
+  const folderName = folderPath.split(/[\\/]/).pop() || folderPath;
+
+  const toggleFormat = (format: ExportType): void => {
+    setFormats(prev => (prev.includes(format) ? prev.filter(f => f !== format) : [...prev, format]));
+  };
+
+  const handleBrowse = async (): Promise<void> => {
+    const result = await window.electronAPI.selectExportDirectory(outputDirectory || folderPath);
+    if (result.success && !result.canceled && result.directoryPath) {
+      setOutputDirectory(result.directoryPath);
+    }
+  };
+
+  const handleStart = async (): Promise<void> => {
+    cancelRequestedRef.current = false;
+    setError(null);
+    setPhase('running');
+
+    try {
+      const result = await exportAllDiagrams(
+        {
+          sourceFolder: folderPath,
+          outputDirectory: outputDirectory.trim(),
+          formats: FORMAT_OPTIONS.map(option => option.value).filter(format => formats.includes(format)),
+          namingPattern
+        },
+        setProgress,
+        () => cancelRequestedRef.current
+      );
+      setSummary(result);
+    } catch (err) {
+      console.error('Batch export error:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+
+    setPhase('done');
+  };
+
+  // 진행 중인 파일까지만 내보내고 중단
+  const handleCancel = (): void => {
+    cancelRequestedRef.current = true;
+  };
+
+  const canStart = formats.length > 0 && outputDirectory.trim() !== '';
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <>
+      <div className="popup-overlay" onClick={phase === 'running' ? undefined : onClose} />
+      <div className="batch-export-dialog">
+        <div className="dialog-header">
+          <span className="dialog-title">Export All Diagrams — {folderName}</span>
+        </div>
+
+        {phase === 'options' && (
+          <div className="dialog-content">
+            <div className="batch-export-field">
+              <span className="batch-export-label">Formats</span>
+              <div className="batch-export-formats">
+                {FORMAT_OPTIONS.map(option => (
+                  <label key={option.value} className="batch-export-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={formats.includes(option.value)}
+                      onChange={() => toggleFormat(option.value)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="batch-export-field">
+              <span className="batch-export-label">Output folder</span>
+              <div className="batch-export-row">
+                <input
+                  type="text"
+                  className="search-input batch-export-output"
+                  value={outputDirectory}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setOutputDirectory(e.target.value)}
+                />
+                <button className="dialog-btn cancel-btn" onClick={handleBrowse}>
+                  Browse…
+                </button>
+              </div>
+            </div>
+
+            <div className="batch-export-field">
+              <span className="batch-export-label">File name pattern</span>
+              <input
+                type="text"
+                className="search-input batch-export-pattern"
+                value={namingPattern}
+                placeholder={DEFAULT_NAMING_PATTERN}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNamingPattern(e.target.value)}
+              />
+              <span className="batch-export-hint">
+                {'{path}'} relative path · {'{name}'} file name · {'{index}'} diagram number in Markdown files
+              </span>
+            </div>
+          </div>
+        )}
+
+        {phase === 'running' && (
+          <div className="dialog-content">
+            <div className="batch-export-progress">
+              <div className="batch-export-progress-bar" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="batch-export-status">
+              {progress ? `${progress.completed} / ${progress.total}` : 'Collecting diagrams…'}
+              {progress?.current && <span className="batch-export-current">{progress.current}</span>}
+            </p>
+          </div>
+        )}
+
+        {phase === 'done' && (
+          <div className="dialog-content">
+            {error && <p className="warning-text">⚠️ {error}</p>}
+            {summary && (
+              <>
+                <p className="batch-export-summary">
+                  {summary.total === 0
+                    ? 'No diagrams found in this folder.'
+                    : `Exported ${summary.exported} of ${summary.total} files${summary.canceled ? ' (canceled)' : ''}.`}
+                </p>
+                {summary.failures.length > 0 && (
+                  <>
+                    <p className="warning-text">⚠️ {summary.failures.length} failed:</p>
+                    <ul className="batch-export-failures">
+                      {summary.failures.map((failure, index) => (
+                        <li key={index}>
+                          <strong>{failure.source}</strong>
+                          {failure.format && ` (${failure.format.toUpperCase()})`}: {failure.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="dialog-footer">
+          {phase === 'options' && (
+            <>
+              <button className="dialog-btn cancel-btn" onClick={onClose}>
+                Cancel
+              </button>
+              <button className="dialog-btn confirm-btn" onClick={handleStart} disabled={!canStart}>
+                Export
+              </button>
+            </>
+          )}
+          {phase === 'running' && (
+            <button className="dialog-btn cancel-btn" onClick={handleCancel}>
+              Cancel
+            </button>
+          )}
+          {phase === 'done' && (
+            <button className="dialog-btn confirm-btn" onClick={onClose}>
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default BatchExportDialog;
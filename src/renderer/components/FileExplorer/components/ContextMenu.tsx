@@ -14,14 +14,37 @@ interface ContextMenuProps {
   onCreateFile: () => void;
   onRename: () => void;
   onDelete: () => void;
+  onExportAll: () => void;
   onClose: () => void;
+  // 다이어그램 비교 (Mermaid 파일에만 표시)
+  canCompare?: boolean;
+  compareSourceName?: string | null;
+  onSelectForCompare?: () => void;
+  onCompareWithSelected?: () => void;
+  onCompareWithHead?: () => void;
+  // git 파일 히스토리 (저장소 안의 파일에만 표시)
+  onShowHistory?: () => void;
 }
 
 /**
  * 컨텍스트 메뉴 컴포넌트
  * 파일/폴더 우클릭 시 표시되는 메뉴
  */
-const ContextMenu = ({ contextMenu, onCreateFolder, onCreateFile, onRename, onDelete, onClose }: ContextMenuProps): ReactElement | null => {
+const ContextMenu = ({
+  contextMenu,
+  onCreateFolder,
+  onCreateFile,
+  onRename,
+  onDelete,
+  onExportAll,
+  onClose,
+  canCompare,
+  compareSourceName,
+  onSelectForCompare,
+  onCompareWithSelected,
+  onCompareWithHead,
+  onShowHistory
+}: ContextMenuProps): ReactElement | null => {
   if (!contextMenu) return null;
 
   const handleItemClick = (action: () => void): void => {
@@ -49,6 +72,38 @@ const ContextMenu = ({ contextMenu, onCreateFolder, onCreateFile, onRename, onDe
             📄 새 파일
           </div>
           <div className="context-menu-divider"></div>
+          <div className="context-menu-item" onClick={() => handleItemClick(onExportAll)}>
+            📦 Export all diagrams…
+          </div>
+          <div className="context-menu-divider"></div>
+        </>
+      )}
+      {canCompare && (
+        <>
+          {onSelectForCompare && (
+            <div className="context-menu-item" onClick={() => handleItemClick(onSelectForCompare)}>
+              🔀 비교 대상으로 선택
+            </div>
+          )}
+          {compareSourceName && onCompareWithSelected && (
+            <div className="context-menu-item" onClick={() => handleItemClick(onCompareWithSelected)}>
+              🔀 '{compareSourceName}'와 비교
+            </div>
+          )}
+          {onCompareWithHead && (
+            <div className="context-menu-item" onClick={() => handleItemClick(onCompareWithHead)}>
+              🔀 Git HEAD와 비교
+            </div>
+          )}
+          <div className="context-menu-divider"></div>
+        </>
+      )}
+      {!contextMenu.targetNode.isDirectory && onShowHistory && (
+        <>
+          <div className="context-menu-item" onClick={() => handleItemClick(onShowHistory)}>
+            🕘 파일 히스토리
+          </div>
+          <div className="context-menu-divider"></div>
         </>
       )}
       <div className="context-menu-item" onClick={() => handleItemClick(onRename)}>
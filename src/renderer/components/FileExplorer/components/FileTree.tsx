@@ -1,6 +1,7 @@
 import React, { ReactElement, MouseEvent, KeyboardEvent, ChangeEvent } from 'react';
 import InlineEdit from './InlineEdit';
-import type { FileTreeNode } from '../../../../types';
+import { GIT_STATUS_LABELS, GIT_STATUS_LETTERS } from '../../../utils/gitDecorations';
+import type { FileTreeNode, GitChangeType } from '../../../../types';
 
 type CreatingItemType = 'folder' | 'file';
 
@@ -24,6 +25,7 @@ interface FileTreeProps {
   onStartRename?: (node: FileTreeNode) => void;
   onRename: (oldPath: string, newName: string) => void;
   onCancelRename: () => void;
+  gitDecorations?: Map<string, GitChangeType>;
 }
 
 interface CreatingItemInputProps {
@@ -51,7 +53,8 @@ const FileTree = ({
   onCancelNewItem,
   onStartRename,
   onRename,
-  onCancelRename
+  onCancelRename,
+  gitDecorations
 }: FileTreeProps): ReactElement | null => {
   if (!node) return null;
 
@@ -63,11 +66,12 @@ const FileTree = ({
   const isSelected = selectedPath === node.path;
   const isCreatingInThisFolder = creatingItem && creatingItem.parentPath === node.path;
   const isRenaming = renamingNode && renamingNode.path === node.path;
+  const gitStatus = gitDecorations?.get(node.path);
 
   return (
     <div key={node.path} className="tree-node">
       <div
-        className={`tree-item ${node.isDirectory ? 'directory' : 'file'} ${isDisabled ? 'disabled' : ''} ${isSelected ? 'selected' : ''}`}
+        className={`tree-item ${node.isDirectory ? 'directory' : 'file'} ${isDisabled ? 'disabled' : ''} ${isSelected ? 'selected' : ''} ${gitStatus ? `git-${gitStatus}` : ''}`}
         style={{ paddingLeft: `${level * 16 + 8}px` }}
         onClick={(e: MouseEvent<HTMLDivElement>) => {
           if (isRenaming) return;
@@ -118,6 +122,11 @@ const FileTree = ({
             {node.isDirectory && childCount > 0 && (
               <span className="item-count">{childCount}</span>
             )}
+            {gitStatus && (
+              <span className="git-status-badge" title={GIT_STATUS_LABELS[gitStatus]}>
+                {node.isDirectory ? '●' : GIT_STATUS_LETTERS[gitStatus]}
+              </span>
+            )}
           </>
         )}
       </div>
@@ -152,6 +161,7 @@ const FileTree = ({
                 onStartRename={onStartRename}
                 onRename={onRename}
                 onCancelRename={onCancelRename}
+                gitDecorations={gitDecorations}
               />
             ))
           }
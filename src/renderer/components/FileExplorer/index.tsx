@@ -1,19 +1,30 @@
-import React, { useState, useEffect, useCallback, ReactElement, MouseEvent, ChangeEvent } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, ReactElement, MouseEvent, ChangeEvent } from 'react';
 import FileTree, { CreatingItemState } from './components/FileTree';
 import BookmarksSection from './components/BookmarksSection';
 import RecentFilesSection from './components/RecentFilesSection';
 import RecentFoldersPopup from './components/RecentFoldersPopup';
 import ContextMenu, { ContextMenuState } from './components/ContextMenu';
 import DeleteConfirmDialog, { DeleteConfirmState } from './components/DeleteConfirmDialog';
+import BatchExportDialog from './components/BatchExportDialog';
+import { buildGitDecorations } from '../../utils/gitDecorations';
+import { getCommandTooltip } from '../../utils/commandRegistry';
 import '../FileExplorer.css';
-import type { FileTreeNode, RecentFile, RecentFolder, Bookmark, WorkspaceData } from '../../../types';
+import type { FileTreeNode, RecentFile, RecentFolder, Bookmark, WorkspaceData, GitStatusResult } from '../../../types';
 
 interface FileExplorerProps {
   onFileSelect: (content: string, filePath: string) => void;
   onToggleExplorer: () => void;
   onWorkspaceChange?: (rootFolder: string | null) => void;
+  onCompareFiles?: (beforePath: string, afterPath: string) => void;
+  onCompareWithHead?: (filePath: string) => void;
+  gitStatus?: GitStatusResult | null;
+  onShowFileHistory?: (filePath: string) => void;
+  onOpenSearch?: () => void;
 }
 
+// 다이어그램 비교를 지원하는 파일 확장자
+const COMPARABLE_EXTENSIONS = ['mmd', 'mermaid'];
+
 /**
  * 파일 탐색기 메인 컴포넌트 (리팩토링 버전)
  *
@@ -22,7 +33,7 @@ interface FileExplorerProps {
  * - 컴포넌트 분리로 책임 명확화
  * - 재사용 가능한 서브 컴포넌트들
  */
-const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: FileExplorerProps): ReactElement => {
+const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange, onCompareFiles, onCompareWithHead, gitStatus, onShowFileHistory, onOpenSearch }: FileExplorerProps): ReactElement => {
   // ============================================================================
   // 상태 관리
   // ============================================================================
@@ -43,6 +54,14 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
   const [creatingItem, setCreatingItem] = useState<CreatingItemState | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<DeleteConfirmState | null>(null);
   const [renamingNode, setRenamingNode] = useState<FileTreeNode | null>(null);
+  const [batchExportFolder, setBatchExportFolder] = useState<string | null>(null);
+  const [compareSourcePath, setCompareSourcePath] = useState<string | null>(null);
+
+  // git 상태 장식 (파일/상위 폴더 경로 → 변경 종류)
+  const gitDecorations = useMemo(
+    () => gitStatus?.root && gitStatus.entries ? buildGitDecorations(gitStatus.entries, gitStatus.root) : undefined,
+    [gitStatus]
+  );
 
   // ============================================================================
   // 헬퍼 함수
@@ -375,6 +394,39 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
     setDeleteConfirm(null);
   };
 
+  const handleExportAll = (): void => {
+    if (!contextMenu) return;
+    setBatchExportFolder(contextMenu.targetPath);
+    setContextMenu(null);
+  };
+
+  const isComparable = (node: FileTreeNode): boolean =>
+    !node.isDirectory && COMPARABLE_EXTENSIONS.includes(node.name.split('.').pop()?.toLowerCase() || '');
+
+  const handleSelectForCompare = (): void => {
+    if (!contextMenu) return;
+    setCompareSourcePath(contextMenu.targetPath);
+    setContextMenu(null);
+  };
+
+  const handleCompareWithSelected = (): void => {
+    if (!contextMenu || !compareSourcePath) return;
+    onCompareFiles?.(compareSourcePath, contextMenu.targetPath);
+    setContextMenu(null);
+  };
+
+  const handleCompareWithHead = (): void => {
+    if (!contextMenu) return;
+    onCompareWithHead?.(contextMenu.targetPath);
+    setContextMenu(null);
+  };
+
+  const handleShowFileHistory = (): void => {
+    if (!contextMenu) return;
+    onShowFileHistory?.(contextMenu.targetPath);
+    setContextMenu(null);
+  };
+
   const handleStartRename = (node: FileTreeNode): void => {
     setRenamingNode(node);
     setContextMenu(null);
@@ -423,7 +475,16 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
         onCreateFile={handleCreateNewFile}
         onRename={() => contextMenu && handleStartRename(contextMenu.targetNode)}
         onDelete={handleDeleteItem}
+        onExportAll={handleExportAll}
         onClose={() => setContextMenu(null)}
+        canCompare={!!contextMenu && isComparable(contextMenu.targetNode)}
+        compareSourceName={compareSourcePath && compareSourcePath !== contextMenu?.targetPath
+          ? compareSourcePath.split(/[\\/]/).pop()
+          : null}
+        onSelectForCompare={onCompareFiles ? handleSelectForCompare : undefined}
+        onCompareWithSelected={onCompareFiles ? handleCompareWithSelected : undefined}
+        onCompareWithHead={onCompareWithHead ? handleCompareWithHead : undefined}
+        onShowHistory={onShowFileHistory && gitStatus ? handleShowFileHistory : undefined}
       />
 
       {/* 삭제 확인 다이얼로그 */}
@@ -433,6 +494,12 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
         onCancel={() => setDeleteConfirm(null)}
       />
 
+      {/* 일괄 내보내기 다이얼로그 */}
+      <BatchExportDialog
+        folderPath={batchExportFolder}
+        onClose={() => setBatchExportFolder(null)}
+      />
+
       {/* 최근 폴더 팝업 */}
       <RecentFoldersPopup
         show={showRecentFoldersPopup}
@@ -454,6 +521,11 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
               <button className="refresh-btn" onClick={() => window.location.reload()} title="Refresh">
                 🔄
               </button>
+              {onOpenSearch && (
+                <button className="search-in-files-btn" onClick={onOpenSearch} title={getCommandTooltip('view.searchInFiles')}>
+                  🔍
+                </button>
+              )}
             </>
           )}
           <button className="open-folder-btn" onClick={() => setShowRecentFoldersPopup(!showRecentFoldersPopup)} title="Recent Folders">
@@ -507,6 +579,7 @@ const FileExplorer = ({ onFileSelect, onToggleExplorer, onWorkspaceChange }: Fil
                 onStartRename={handleStartRename}
                 onRename={handleRename}
                 onCancelRename={handleCancelRename}
+                gitDecorations={gitDecorations}
               />
             ) : (
               <div className="no-results">No matching files found</div>
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo, ReactElement, KeyboardEvent } from 'react';
+import { getAllCommands, getCommandDefinition, getDefaultKeybindings, findKeybindingConflicts } from '../../utils/commandRegistry';
+import { formatKeybinding, keybindingFromEvent } from '../../utils/keybindings';
+import type { Command, CommandId, Keybinding, KeybindingCondition, KeybindingOverrides } from '../../../types';
+import './KeybindingsEditor.css';
+
+interface KeybindingsEditorProps {
+  isOpen: boolean;
+  keybindings: KeybindingOverrides;
+  onChange: (commandId: CommandId, bindings: Keybinding[]) => void;
+  onReset: (commandId: CommandId) => void;
+  onResetAll: () => void;
+  onClose: () => void;
+}
+
+// 적용 조건 선택 항목
+const CONDITION_OPTIONS: { value: KeybindingCondition | ''; label: string }[] = [
+  { value: '', label: 'Always' },
+  { value: 'editorFocus', label: 'Editor focused' },
+  { value: '!editorFocus', label: 'Editor not focused' },
+  { value: 'terminalFocus', label: 'Terminal focused' },
+  { value: '!terminalFocus', label: 'Terminal not focused' },
+  { value: 'explorerFocus', label: 'Explorer focused' },
+  { value: '!explorerFocus', label: 'Explorer not focused' }
+];
+
+function getCommandLabel(commandId: CommandId): string {
+  const command = getCommandDefinition(commandId);
+  return command ? `${command.category}: ${command.title}` : commandId;
+}
+
+/**
+ * 단축키 설정
+ * 모든 명령의 단축키를 표시하고 추가/삭제, 적용 조건 변경, 기본값 복원
+ * 같은 키 입력에 반응하는 다른 명령이 있으면 충돌로 표시
+ */
+const KeybindingsEditor = ({ isOpen, keybindings, onChange, onReset, onResetAll, onClose }: KeybindingsEditorProps): ReactElement | null => {
+  const [query, setQuery] = useState<string>('');
+  const [recordingCommandId, setRecordingCommandId] = useState<CommandId | null>(null);
+  const [recordHint, setRecordHint] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setRecordingCommandId(null);
+  }, [isOpen]);
+
+  const getBindings = (commandId: CommandId): Keybinding[] => keybindings[commandId] ?? getDefaultKeybindings(commandId);
+
+  // 명령 이름 또는 단축키로 검색 (예: "export", "ctrl+shift+s")
+  const commands = useMemo<Command[]>(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) return getAllCommands();
+
+    return getAllCommands().filter(command => {
+      const keys = (keybindings[command.id] ?? getDefaultKeybindings(command.id)).map(binding => formatKeybinding(binding.key));
+      return [getCommandLabel(command.id), ...keys].some(text => text.toLowerCase().includes(normalizedQuery));
+    });
+  }, [query, keybindings]);
+
+  if (!isOpen) return null;
+
+  const startRecording = (commandId: CommandId): void => {
+    setRecordingCommandId(commandId);
+    setRecordHint(null);
+  };
+
+  const stopRecording = (): void => {
+    setRecordingCommandId(null);
+    setRecordHint(null);
+  };
+
+  const handleRecorderKeyDown = (e: KeyboardEvent<HTMLInputElement>, commandId: CommandId): void => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape' && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      stopRecording();
+      return;
+    }
+
+    const key = keybindingFromEvent(e.nativeEvent);
+    if (!key) {
+      // 보조 키만 누른 중간 상태는 안내하지 않음
+      if (!['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) {
+        setRecordHint('Use Ctrl, Alt or Cmd with a key, or a function key');
+      }
+      return;
+    }
+
+    const bindings = getBindings(commandId);
+    if (!bindings.some(binding => binding.key === key && !binding.when)) {
+      onChange(commandId, [...bindings, { key }]);
+    }
+    stopRecording();
+  };
+
+  const handleConditionChange = (commandId: CommandId, index: number, value: KeybindingCondition | ''): void => {
+    onChange(commandId, getBindings(commandId).map((binding, i) => (
+      i !== index ? binding : (value ? { key: binding.key, when: value } : { key: binding.key })
+    )));
+  };
+
+  const handleRemove = (commandId: CommandId, index: number): void => {
+    onChange(commandId, getBindings(commandId).filter((_, i) => i !== index));
+  };
+
+  const handleResetAll = (): void => {
+    if (!window.confirm('모든 단축키를 기본값으로 되돌리시겠습니까?')) return;
+    onResetAll();
+  };
+
+  const handleDialogKeyDown = (e: KeyboardEvent<HTMLDivElement>): void => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div className="keybindings-editor-overlay" onClick={onClose} />
+      <div className="keybindings-editor" role="dialog" aria-label="Keyboard Shortcuts" onKeyDown={handleDialogKeyDown}>
+        <div className="keybindings-editor-header">
+          <span className="keybindings-editor-title">Keyboard Shortcuts</span>
+          <button className="keybindings-editor-close-btn" onClick={onClose} title="Close">×</button>
+        </div>
+
+        <input
+          className="keybindings-editor-search"
+          type="text"
+          placeholder="Search commands or keys"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          autoFocus
+        />
+
+        <div className="keybindings-editor-list">
+          {commands.length === 0 && <div className="keybindings-editor-message">No matching commands</div>}
+          {commands.map(command => {
+            const bindings = getBindings(command.id);
+            const isCustomized = keybindings[command.id] !== undefined;
+            const isRecording = recordingCommandId === command.id;
+
+            return (
+              <div
+                key={command.id}
+                className={`keybinding-row ${isCustomized ? 'customized' : ''}`}
+                data-command-id={command.id}
+              >
+                <div className="keybinding-command">
+                  <span className="keybinding-command-title">{command.title}</span>
+                  <span className="keybinding-command-category">{command.category}</span>
+                </div>
+
+                <div className="keybinding-list">
+                  {bindings.length === 0 && !isRecording && <span className="keybinding-none">—</span>}
+                  {bindings.map((binding, index) => {
+                    const conflicts = findKeybindingConflicts(command.id, binding);
+                    return (
+                      <div key={`${binding.key}-${index}`} className={`keybinding-item ${conflicts.length > 0 ? 'conflict' : ''}`}>
+                        <div className="keybinding-item-row">
+                          <kbd className="keybinding-key">{formatKeybinding(binding.key)}</kbd>
+                          <select
+                            className="keybinding-when"
+                            value={binding.when ?? ''}
+                            onChange={(e) => handleConditionChange(command.id, index, e.target.value as KeybindingCondition | '')}
+                            title="When"
+                          >
+                            {CONDITION_OPTIONS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                          <button
+                            className="keybinding-remove-btn"
+                            onClick={() => handleRemove(command.id, index)}
+                            title="Remove keybinding"
+                          >
+                            ×
+                          </button>
+                        </div>
+                        {conflicts.length > 0 && (
+                          <div className="keybinding-conflict">
+                            ⚠ Also used by {conflicts.map(getCommandLabel).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {isRecording && (
+                    <>
+                      <input
+                        className="keybinding-recorder"
+                        type="text"
+                        placeholder="Press a key combination (Esc to cancel)"
+                        onKeyDown={(e) => handleRecorderKeyDown(e, command.id)}
+                        onBlur={stopRecording}
+                        value=""
+                        readOnly
+                        autoFocus
+                      />
+                      {recordHint && <div className="keybinding-record-hint">{recordHint}</div>}
+                    </>
+                  )}
+                </div>
+
+                <div className="keybinding-actions">
+                  <button className="keybinding-add-btn" onClick={() => startRecording(command.id)} title="Add keybinding">+</button>
+                  {isCustomized && (
+                    <button className="keybinding-reset-btn" onClick={() => onReset(command.id)} title="Reset to default">↺</button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="keybindings-editor-footer">
+          <button className="keybindings-editor-btn" onClick={handleResetAll}>Reset All to Defaults</button>
+          <button className="keybindings-editor-btn primary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default KeybindingsEditor;
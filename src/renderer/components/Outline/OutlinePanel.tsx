@@ -0,0 +1,168 @@
+import React, { useDeferredValue, useMemo, useState, ReactElement } from 'react';
+import { buildOutline } from '../../utils/outlineBuilder';
+import type { FileType, OutlineItem, OutlineItemKind } from '../../../types';
+import './OutlinePanel.css';
+
+interface OutlinePanelProps {
+  content: string;
+  fileType: FileType;
+  width: number;
+  activeLine?: number | null;
+  onSelect: (item: OutlineItem) => void;
+  onClose: () => void;
+}
+
+interface OutlineRow {
+  item: OutlineItem;
+  index: number;
+  depth: number;
+  hasChildren: boolean;
+}
+
+// 항목 종류별 아이콘
+const KIND_ICONS: Record<OutlineItemKind, string> = {
+  heading: '#',
+  subgraph: '▢',
+  participant: '◉',
+  class: 'C',
+  state: '◇',
+  entity: '▤'
+};
+
+/**
+ * 접기 상태 키 (입력 중 줄 번호가 바뀌어도 유지되도록 종류/레벨/이름 사용)
+ */
+const getItemKey = (item: OutlineItem): string => `${item.kind}:${item.level}:${item.label}`;
+
+/**
+ * 항목 목록을 트리 깊이와 자식 여부가 포함된 행으로 변환
+ * 제목 레벨이 건너뛰어도(h1 → h3) 들여쓰기는 한 단계씩만 증가
+ */
+const buildRows = (items: OutlineItem[]): OutlineRow[] => {
+  const ancestors: number[] = [];
+
+  return items.map((item, index) => {
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] >= item.level) {
+      ancestors.pop();
+    }
+    const depth = ancestors.length;
+    ancestors.push(item.level);
+
+    const next = items[index + 1];
+    return { item, index, depth, hasChildren: next !== undefined && next.level > item.level };
+  });
+};
+
+/**
+ * 아웃라인 패널
+ * Markdown은 제목, Mermaid는 다이어그램 종류별 구조(서브그래프, 참여자, 클래스, 상태, 엔티티) 표시
+ * 입력 중에는 지연된 값으로 다시 계산하고, 에디터 커서가 속한 항목을 강조
+ */
+const OutlinePanel = ({
+  content,
+  fileType,
+  width,
+  activeLine = null,
+  onSelect,
+  onClose
+}: OutlinePanelProps): ReactElement => {
+  const [collapsedKeys, setCollapsedKeys] = useState<Set<string>>(() => new Set());
+  const deferredContent = useDeferredValue(content);
+
+  const items = useMemo(() => buildOutline(deferredContent, fileType), [deferredContent, fileType]);
+  const rows = useMemo(() => buildRows(items), [items]);
+
+  // 커서 줄 이전의 마지막 항목
+  const activeIndex = useMemo(() => {
+    if (activeLine === null) return -1;
+    let found = -1;
+    items.forEach((item, index) => {
+      if (item.lineNumber <= activeLine) found = index;
+    });
+    return found;
+  }, [items, activeLine]);
+
+  // 접힌 항목의 하위 항목 제외
+  const visibleRows = useMemo(() => {
+    const result: OutlineRow[] = [];
+    let hiddenBelowLevel: number | null = null;
+
+    rows.forEach(row => {
+      if (hiddenBelowLevel !== null && row.item.level > hiddenBelowLevel) return;
+      hiddenBelowLevel = null;
+      result.push(row);
+      if (row.hasChildren && collapsedKeys.has(getItemKey(row.item))) {
+        hiddenBelowLevel = row.item.level;
+      }
+    });
+
+    return result;
+  }, [rows, collapsedKeys]);
+
+  const toggleCollapsed = (e: React.MouseEvent, item: OutlineItem): void => {
+    e.stopPropagation();
+    const key = getItemKey(item);
+    setCollapsedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const getEmptyMessage = (): string => {
+    if (fileType === 'markdown') return 'No headings found';
+    if (fileType === 'mermaid') return 'No outline available for this diagram';
+    return 'Outline is not available for this file type';
+  };
+
+  return (
+    <div className="outline-panel" style={{ width: `${width}px` }}>
+      <div className="outline-header">
+        <span className="outline-title">OUTLINE</span>
+        <button className="outline-close-btn" onClick={onClose} title="Hide Outline">
+          ▶
+        </button>
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <div className="outline-empty">{getEmptyMessage()}</div>
+      ) : (
+        <ul className="outline-list">
+          {visibleRows.map(({ item, index, depth, hasChildren }) => {
+            const isCollapsed = collapsedKeys.has(getItemKey(item));
+            return (
+              <li
+                key={`${index}-${item.lineNumber}`}
+                className={`outline-item ${item.kind} ${index === activeIndex ? 'active' : ''}`}
+                style={{ paddingLeft: `${8 + depth * 12}px` }}
+                onClick={() => onSelect(item)}
+                title={`${item.label} (line ${item.lineNumber})`}
+                data-line={item.lineNumber}
+              >
+                {hasChildren ? (
+                  <span
+                    className="outline-toggle"
+                    onClick={(e) => toggleCollapsed(e, item)}
+                    title={isCollapsed ? 'Expand' : 'Collapse'}
+                  >
+                    {isCollapsed ? '▶' : '▼'}
+                  </span>
+                ) : (
+                  <span className="outline-toggle placeholder" />
+                )}
+                <span className="outline-icon">{KIND_ICONS[item.kind]}</span>
+                <span className="outline-label">{item.label}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OutlinePanel;
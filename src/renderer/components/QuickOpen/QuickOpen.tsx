@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo, useRef, ReactElement, ReactNode, KeyboardEvent } from 'react';
+import { rankQuickOpenFiles, QuickOpenItem } from '../../utils/quickOpenMatcher';
+import { isOpenableDocument } from '../../utils/markdownLinks';
+import type { QuickOpenFile } from '../../../types';
+import './QuickOpen.css';
+
+// 표시할 최대 결과 수
+const MAX_RESULTS = 100;
+
+interface QuickOpenProps {
+  isOpen: boolean;
+  workspaceFolder: string | null;
+  onSelect: (filePath: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 일치한 글자 강조 (positions는 전체 경로 기준 위치)
+ * @param text - 표시할 부분 문자열
+ * @param offset - 전체 경로에서 text의 시작 위치
+ */
+function renderHighlighted(text: string, positions: number[], offset: number): ReactNode[] {
+  const matched = new Set(positions);
+  const nodes: ReactNode[] = [];
+  let buffer = '';
+  let isBufferMatched = false;
+
+  const flush = (): void => {
+    if (!buffer) return;
+    nodes.push(isBufferMatched
+      ? <mark key={nodes.length} className="quick-open-highlight">{buffer}</mark>
+      : buffer);
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const isMatched = matched.has(offset + i);
+    if (isMatched !== isBufferMatched) {
+      flush();
+      isBufferMatched = isMatched;
+    }
+    buffer += text[i];
+  }
+  flush();
+
+  return nodes;
+}
+
+/**
+ * 빠른 파일 열기 팔레트 (Ctrl/Cmd+P)
+ * 메인 프로세스가 인덱싱한 워크스페이스 전체 파일에서 퍼지 매칭으로 찾고 최근 파일을 우선 표시
+ */
+const QuickOpen = ({ isOpen, workspaceFolder, onSelect, onClose }: QuickOpenProps): ReactElement | null => {
+  const [query, setQuery] = useState<string>('');
+  const [files, setFiles] = useState<QuickOpenFile[] | null>(null);
+  const [recentFiles, setRecentFiles] = useState<string[]>([]);
+  const [isTruncated, setIsTruncated] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 열 때마다 최신 인덱스 조회
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuery('');
+    setSelectedIndex(0);
+    setError(null);
+    if (!window.electronAPI || !workspaceFolder) {
+      setFiles([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const loadFiles = async (): Promise<void> => {
+      try {
+        const result = await window.electronAPI.quickOpenFiles(workspaceFolder);
+        if (isCancelled) return;
+        if (!result.success) {
+          setError(result.error ?? 'Unknown error');
+          setFiles([]);
+          return;
+        }
+        // 인덱스에는 모든 파일이 있지만 탭으로 열 수 있는 문서만 표시
+        setFiles((result.files ?? []).filter(file => isOpenableDocument(file.filePath)));
+        setRecentFiles(result.recentFiles ?? []);
+        setIsTruncated(!!result.truncated);
+      } catch (loadError) {
+        console.error('Error loading workspace files:', loadError);
+        const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
+        if (!isCancelled) {
+          setError(errorMessage);
+          setFiles([]);
+        }
+      }
+    };
+
+    loadFiles();
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, workspaceFolder]);
+
+  const items = useMemo<QuickOpenItem[]>(
+    () => rankQuickOpenFiles(files ?? [], query, recentFiles, MAX_RESULTS),
+    [files, query, recentFiles]
+  );
+
+  // 검색어가 바뀌면 첫 항목 선택
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // 키보드로 이동한 항목이 보이도록 스크롤
+  useEffect(() => {
+    const selectedElement = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    selectedElement?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  const handleSelect = (item: QuickOpenItem | undefined): void => {
+    if (!item) return;
+    onClose();
+    onSelect(item.file.filePath);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => (items.length === 0 ? 0 : (index + 1) % items.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => (items.length === 0 ? 0 : (index - 1 + items.length) % items.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSelect(items[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const renderMessage = (): ReactElement | null => {
+    if (!workspaceFolder) return <div className="quick-open-message">Open a folder to find files in it</div>;
+    if (error) return <div className="quick-open-message error">{error}</div>;
+    if (files === null) return <div className="quick-open-message">Indexing workspace…</div>;
+    if (items.length === 0) return <div className="quick-open-message">No matching files</div>;
+    return null;
+  };
+
+  return (
+    <>
+      <div className="quick-open-overlay" onClick={onClose} />
+      <div className="quick-open" role="dialog" aria-label="Go to File">
+        <input
+          className="quick-open-input"
+          type="text"
+          placeholder="Search files by name"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus
+        />
+        {renderMessage()}
+        <div className="quick-open-list" ref={listRef} role="listbox">
+          {items.map((item, index) => {
+            const { relativePath } = item.file;
+            const fileNameStart = relativePath.lastIndexOf('/') + 1;
+            const folder = relativePath.slice(0, Math.max(fileNameStart - 1, 0));
+            return (
+              <div
+                key={item.file.filePath}
+                className={`quick-open-item ${index === selectedIndex ? 'selected' : ''}`}
+                role="option"
+                aria-selected={index === selectedIndex}
+                onMouseMove={() => setSelectedIndex(index)}
+                onClick={() => handleSelect(item)}
+                title={item.file.filePath}
+              >
+                <span className="quick-open-name">
+                  {renderHighlighted(relativePath.slice(fileNameStart), item.positions, fileNameStart)}
+                </span>
+                {folder && (
+                  <span className="quick-open-folder">{renderHighlighted(folder, item.positions, 0)}</span>
+                )}
+                {item.isRecent && <span className="quick-open-recent">recently opened</span>}
+              </div>
+            );
+          })}
+        </div>
+        {isTruncated && (
+          <div className="quick-open-message">Workspace is too large; only part of it was indexed</div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default QuickOpen;
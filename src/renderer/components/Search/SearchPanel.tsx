@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useRef, ReactElement } from 'react';
+import type { WorkspaceSearchQuery, WorkspaceSearchResult, WorkspaceSearchFileResult, WorkspaceSearchMatch } from '../../../types';
+import './SearchPanel.css';
+
+// 입력 후 검색 시작까지 대기 시간
+const SEARCH_DEBOUNCE = 300;
+
+interface SearchPanelProps {
+  workspaceFolder: string | null;
+  isVisible: boolean;
+  focusRequest: number;
+  modifiedFilePaths: string[];
+  onOpenMatch: (filePath: string, lineNumber: number, column: number, length: number) => void;
+  onFilesReplaced: (filePaths: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface SearchOptionButtonProps {
+  label: string;
+  title: string;
+  isActive: boolean;
+  onToggle: () => void;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function getFolderName(relativePath: string): string {
+  const index = relativePath.lastIndexOf('/');
+  return index > 0 ? relativePath.slice(0, index) : '';
+}
+
+/**
+ * 검색 옵션 토글 버튼 (대소문자, 단어 단위, 정규식)
+ */
+const SearchOptionButton = ({ label, title, isActive, onToggle }: SearchOptionButtonProps): ReactElement => (
+  <button
+    className={`search-option-btn ${isActive ? 'active' : ''}`}
+    onClick={onToggle}
+    title={title}
+    aria-pressed={isActive}
+  >
+    {label}
+  </button>
+);
+
+/**
+ * 워크스페이스 검색 패널 컴포넌트
+ * 워크스페이스 전체 파일 내용을 메인 프로세스에서 검색하고 파일별로 묶어 표시
+ * 바꾸기 입력 시 일치별 미리보기 표시, 모두 바꾸기는 저장하지 않은 변경이 있는 파일을 건너뜀
+ */
+const SearchPanel = ({
+  workspaceFolder,
+  isVisible,
+  focusRequest,
+  modifiedFilePaths,
+  onOpenMatch,
+  onFilesReplaced,
+  onClose
+}: SearchPanelProps): ReactElement => {
+  const [pattern, setPattern] = useState<string>('');
+  const [replacement, setReplacement] = useState<string>('');
+  const [isReplaceVisible, setIsReplaceVisible] = useState<boolean>(false);
+  const [isDetailsVisible, setIsDetailsVisible] = useState<boolean>(false);
+  const [isCaseSensitive, setIsCaseSensitive] = useState<boolean>(false);
+  const [isWholeWord, setIsWholeWord] = useState<boolean>(false);
+  const [isRegex, setIsRegex] = useState<boolean>(false);
+  const [include, setInclude] = useState<string>('');
+  const [exclude, setExclude] = useState<string>('');
+  const [result, setResult] = useState<WorkspaceSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [isReplacing, setIsReplacing] = useState<boolean>(false);
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
+  const [dismissedFiles, setDismissedFiles] = useState<Set<string>>(new Set());
+  // 바꾸기 후 같은 조건으로 다시 검색
+  const [searchVersion, setSearchVersion] = useState<number>(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // 늦게 도착한 이전 검색 결과 무시
+  const searchIdRef = useRef<number>(0);
+
+  const query: WorkspaceSearchQuery = { pattern, isRegex, isCaseSensitive, isWholeWord, include, exclude };
+  const previewReplacement = isReplaceVisible ? replacement : undefined;
+
+  // 단축키/헤더 버튼으로 열 때 검색어 입력에 포커스
+  useEffect(() => {
+    if (!isVisible) return;
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest, isVisible]);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    if (!window.electronAPI || !workspaceFolder || !pattern) {
+      setResult(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const searchResult = await window.electronAPI.searchWorkspace(workspaceFolder, query, previewReplacement);
+        if (searchId !== searchIdRef.current) return;
+        setResult(searchResult);
+        setDismissedFiles(new Set());
+      } catch (error) {
+        console.error('Error searching workspace:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (searchId === searchIdRef.current) setResult({ success: false, error: errorMessage });
+      } finally {
+        if (searchId === searchIdRef.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => clearTimeout(timeoutId);
+    // query는 매 렌더링마다 새 객체이므로 구성 값으로 비교
+  }, [workspaceFolder, pattern, isRegex, isCaseSensitive, isWholeWord, include, exclude, previewReplacement, searchVersion]);
+
+  const files = (result?.files ?? []).filter(file => !dismissedFiles.has(file.filePath));
+  const matchCount = files.reduce((count, file) => count + file.matches.length, 0);
+
+  const toggleFileCollapsed = (filePath: string): void => {
+    setCollapsedFiles(prev => {
+      const next = new Set(prev);
+      if (next.has(filePath)) {
+        next.delete(filePath);
+      } else {
+        next.add(filePath);
+      }
+      return next;
+    });
+  };
+
+  const dismissFile = (filePath: string): void => {
+    setDismissedFiles(prev => new Set(prev).add(filePath));
+  };
+
+  const handleReplace = async (targetFiles: WorkspaceSearchFileResult[]): Promise<void> => {
+    if (!window.electronAPI || targetFiles.length === 0 || isReplacing) return;
+
+    // 편집 중인 내용을 덮어쓰지 않도록 저장하지 않은 파일은 제외
+    const skippedFiles = targetFiles.filter(file => modifiedFilePaths.includes(file.filePath));
+    const replaceableFiles = targetFiles.filter(file => !modifiedFilePaths.includes(file.filePath));
+    const skippedNames = skippedFiles.map(file => file.relativePath).join('\n');
+
+    if (replaceableFiles.length === 0) {
+      alert(`Files with unsaved changes cannot be replaced. Save them first:\n${skippedNames}`);
+      return;
+    }
+
+    const count = replaceableFiles.reduce((sum, file) => sum + file.matches.length, 0);
+    const message = `${replaceableFiles.length}개 파일에서 ${count}개 항목을 '${replacement}'(으)로 바꾸시겠습니까?`
+      + (skippedFiles.length > 0 ? `\n\n저장하지 않은 변경이 있는 파일은 건너뜁니다:\n${skippedNames}` : '');
+    if (!window.confirm(message)) return;
+
+    setIsReplacing(true);
+    try {
+      const replaceResult = await window.electronAPI.replaceInWorkspace(
+        query,
+        replacement,
+        replaceableFiles.map(file => file.filePath)
+      );
+      if (!replaceResult.success) {
+        alert(`Replace failed: ${replaceResult.error}`);
+      }
+      await onFilesReplaced(replaceResult.changedFiles ?? []);
+    } catch (error) {
+      console.error('Error replacing in workspace:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Replace failed: ${errorMessage}`);
+    } finally {
+      setIsReplacing(false);
+      setSearchVersion(version => version + 1);
+    }
+  };
+
+  const renderMatch = (file: WorkspaceSearchFileResult, match: WorkspaceSearchMatch, index: number): ReactElement => {
+    const isPreviewingReplace = match.replacement !== undefined;
+    return (
+      <div
+        key={index}
+        className="search-match"
+        onClick={() => onOpenMatch(file.filePath, match.lineNumber, match.column, match.length)}
+        title={`Line ${match.lineNumber}, Column ${match.column}`}
+      >
+        <span className="search-match-line">{match.lineNumber}</span>
+        <span className="search-match-preview">
+          {match.before}
+          <span className={`search-match-text ${isPreviewingReplace ? 'replaced' : ''}`}>{match.text}</span>
+          {isPreviewingReplace && <span className="search-match-replacement">{match.replacement}</span>}
+          {match.after}
+        </span>
+      </div>
+    );
+  };
+
+  const renderFile = (file: WorkspaceSearchFileResult): ReactElement => {
+    const isCollapsed = collapsedFiles.has(file.filePath);
+    const folder = getFolderName(file.relativePath);
+    const isModified = modifiedFilePaths.includes(file.filePath);
+
+    return (
+      <div key={file.filePath} className="search-file">
+        <div
+          className="search-file-header"
+          onClick={() => toggleFileCollapsed(file.filePath)}
+          title={file.relativePath}
+        >
+          <span className={`chevron ${isCollapsed ? '' : 'expanded'}`}>▶</span>
+          <span className="search-file-name">{getFileName(file.filePath)}</span>
+          {isModified && <span className="search-file-modified" title="Unsaved changes">●</span>}
+          {folder && <span className="search-file-folder">{folder}</span>}
+          <span className="search-file-actions" onClick={(e) => e.stopPropagation()}>
+            {isReplaceVisible && (
+              <button
+                className="search-icon-btn"
+                onClick={() => handleReplace([file])}
+                disabled={isReplacing}
+                title="Replace in File"
+              >
+                ⇄
+              </button>
+            )}
+            <button className="search-icon-btn" onClick={() => dismissFile(file.filePath)} title="Dismiss">
+              ✕
+            </button>
+          </span>
+          <span className="search-file-count">{file.matches.length}</span>
+        </div>
+        {!isCollapsed && file.matches.map((match, index) => renderMatch(file, match, index))}
+      </div>
+    );
+  };
+
+  const renderSummary = (): ReactElement | null => {
+    if (!workspaceFolder) return <div className="search-message">Open a folder to search its files</div>;
+    if (!pattern) return null;
+    if (result && !result.success) return <div className="search-message error">{result.error}</div>;
+    if (!result) return isSearching ? <div className="search-message">Searching…</div> : null;
+    if (files.length === 0) return <div className="search-message">No results found</div>;
+
+    return (
+      <div className="search-message">
+        {matchCount} result{matchCount === 1 ? '' : 's'} in {files.length} file{files.length === 1 ? '' : 's'}
+        {result.truncated && ' (showing first results only, refine your search)'}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`search-panel ${isVisible ? '' : 'hidden'}`}>
+      <div className="explorer-header">
+        <span className="title">SEARCH</span>
+        <div className="header-buttons">
+          <button
+            className="search-icon-btn"
+            onClick={() => setCollapsedFiles(new Set(files.map(file => file.filePath)))}
+            disabled={files.length === 0}
+            title="Collapse All"
+          >
+            ⊟
+          </button>
+          <button className="search-icon-btn" onClick={onClose} title="Back to Explorer">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="search-form">
+        <button
+          className="search-replace-toggle"
+          onClick={() => setIsReplaceVisible(!isReplaceVisible)}
+          title="Toggle Replace"
+        >
+          <span className={`chevron ${isReplaceVisible ? 'expanded' : ''}`}>▶</span>
+        </button>
+        <div className="search-inputs">
+          <div className="search-field">
+            <input
+              ref={inputRef}
+              type="text"
+              className="search-field-input search-query-input"
+              placeholder="Search"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+            />
+            <SearchOptionButton label="Aa" title="Match Case" isActive={isCaseSensitive} onToggle={() => setIsCaseSensitive(!isCaseSensitive)} />
+            <SearchOptionButton label="ab" title="Match Whole Word" isActive={isWholeWord} onToggle={() => setIsWholeWord(!isWholeWord)} />
+            <SearchOptionButton label=".*" title="Use Regular Expression" isActive={isRegex} onToggle={() => setIsRegex(!isRegex)} />
+          </div>
+          {isReplaceVisible && (
+            <div className="search-field">
+              <input
+                type="text"
+                className="search-field-input search-replace-input"
+                placeholder={isRegex ? 'Replace ($1 for groups)' : 'Replace'}
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+              />
+              <button
+                className="search-option-btn search-replace-all-btn"
+                onClick={() => handleReplace(files)}
+                disabled={files.length === 0 || isSearching || isReplacing}
+                title="Replace All"
+              >
+                ⇄
+              </button>
+            </div>
+          )}
+          <button
+            className={`search-details-toggle ${isDetailsVisible ? 'active' : ''}`}
+            onClick={() => setIsDetailsVisible(!isDetailsVisible)}
+            title="Toggle Search Details"
+          >
+            ⋯
+          </button>
+          {isDetailsVisible && (
+            <>
+              <label className="search-details-label">
+                files to include
+                <input
+                  type="text"
+                  className="search-field-input search-include-input"
+                  placeholder="e.g. *.mmd, docs/**"
+                  value={include}
+                  onChange={(e) => setInclude(e.target.value)}
+                />
+              </label>
+              <label className="search-details-label">
+                files to exclude
+                <input
+                  type="text"
+                  className="search-field-input search-exclude-input"
+                  placeholder="e.g. archive, **/*.md"
+                  value={exclude}
+                  onChange={(e) => setExclude(e.target.value)}
+                />
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+
+      {renderSummary()}
+
+      <div className="search-results">
+        {files.map(renderFile)}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,265 @@
+import React, { useState, ReactElement, KeyboardEvent } from 'react';
+import { GIT_STATUS_LABELS, GIT_STATUS_LETTERS, isInsideRepository } from '../../utils/gitDecorations';
+import type { GitChangeType, GitCommitInfo, GitStatusEntry, GitStatusResult } from '../../../types';
+import './SourceControlPanel.css';
+
+interface SourceControlPanelProps {
+  gitStatus: GitStatusResult | null;
+  activeFilePath: string | null;
+  historyFilePath: string | null;
+  history: GitCommitInfo[] | null;
+  onFileOpen: (content: string, filePath: string) => void;
+  onStage: (filePaths: string[]) => void;
+  onUnstage: (filePaths: string[]) => void;
+  onCommit: (message: string) => Promise<boolean>;
+  onRefresh: () => void;
+  onShowHistory: (filePath: string) => void;
+  onCloseHistory: () => void;
+  onOpenRevision: (filePath: string, commit: GitCommitInfo) => void;
+}
+
+interface ChangeGroupProps {
+  title: string;
+  entries: GitStatusEntry[];
+  getStatus: (entry: GitStatusEntry) => GitChangeType;
+  actionLabel: string;
+  actionTitle: string;
+  onAction: (filePaths: string[]) => void;
+  onOpen: (entry: GitStatusEntry) => void;
+  onShowHistory: (filePath: string) => void;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function getFolderName(relativePath: string): string {
+  const index = Math.max(relativePath.lastIndexOf('/'), relativePath.lastIndexOf('\\'));
+  return index > 0 ? relativePath.slice(0, index) : '';
+}
+
+/**
+ * 변경 목록 그룹 (스테이징된 변경 / 변경)
+ */
+const ChangeGroup = ({
+  title,
+  entries,
+  getStatus,
+  actionLabel,
+  actionTitle,
+  onAction,
+  onOpen,
+  onShowHistory
+}: ChangeGroupProps): ReactElement | null => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="scm-group">
+      <div className="scm-group-title">
+        <span>{title} ({entries.length})</span>
+        <button
+          className="scm-icon-btn"
+          onClick={() => onAction(entries.map(entry => entry.path))}
+          title={`${actionTitle} All`}
+        >
+          {actionLabel}
+        </button>
+      </div>
+      {entries.map(entry => {
+        const status = getStatus(entry);
+        const folder = getFolderName(entry.relativePath);
+        return (
+          <div
+            key={entry.path}
+            className={`scm-change git-${status}`}
+            onClick={() => onOpen(entry)}
+            title={`${entry.relativePath} • ${GIT_STATUS_LABELS[status]}`}
+          >
+            <span className="scm-change-name">{getFileName(entry.path)}</span>
+            {folder && <span className="scm-change-folder">{folder}</span>}
+            <span className="scm-change-actions">
+              {status !== 'untracked' && status !== 'added' && (
+                <button
+                  className="scm-icon-btn"
+                  onClick={(e) => { e.stopPropagation(); onShowHistory(entry.path); }}
+                  title="File History"
+                >
+                  🕘
+                </button>
+              )}
+              <button
+                className="scm-icon-btn"
+                onClick={(e) => { e.stopPropagation(); onAction([entry.path]); }}
+                title={actionTitle}
+              >
+                {actionLabel}
+              </button>
+            </span>
+            <span className="scm-change-status">{GIT_STATUS_LETTERS[status]}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * 소스 컨트롤 패널 컴포넌트
+ * 워크스페이스 저장소의 변경 목록, 스테이징/커밋, 파일 히스토리 표시
+ * 워크스페이스가 git 저장소가 아니면 표시하지 않음
+ */
+const SourceControlPanel = ({
+  gitStatus,
+  activeFilePath,
+  historyFilePath,
+  history,
+  onFileOpen,
+  onStage,
+  onUnstage,
+  onCommit,
+  onRefresh,
+  onShowHistory,
+  onCloseHistory,
+  onOpenRevision
+}: SourceControlPanelProps): ReactElement | null => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(true);
+  const [message, setMessage] = useState<string>('');
+  const [isCommitting, setIsCommitting] = useState<boolean>(false);
+
+  if (!gitStatus?.isRepository || !gitStatus.root) return null;
+
+  const entries = gitStatus.entries ?? [];
+  const stagedEntries = entries.filter(entry => entry.staged);
+  const changedEntries = entries.filter(entry => entry.unstaged);
+  const canCommit = stagedEntries.length > 0 && message.trim().length > 0 && !isCommitting;
+  const canShowActiveHistory = !!activeFilePath && isInsideRepository(activeFilePath, gitStatus.root);
+
+  const handleOpen = async (entry: GitStatusEntry): Promise<void> => {
+    // 삭제된 파일은 열 수 없음
+    if (entry.staged === 'deleted' || entry.unstaged === 'deleted') return;
+
+    try {
+      const content = await window.electronAPI.readFile(entry.path);
+      onFileOpen(content, entry.path);
+    } catch (error) {
+      console.error('Error reading file:', error);
+    }
+  };
+
+  const handleCommit = async (): Promise<void> => {
+    if (!canCommit) return;
+
+    setIsCommitting(true);
+    const committed = await onCommit(message);
+    setIsCommitting(false);
+    if (committed) {
+      setMessage('');
+    }
+  };
+
+  const handleMessageKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>): void => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleCommit();
+    }
+  };
+
+  const renderHistory = (): ReactElement => (
+    <div className="scm-history">
+      <div className="scm-group-title">
+        <button className="scm-icon-btn" onClick={onCloseHistory} title="Back to Changes">
+          ←
+        </button>
+        <span className="scm-history-title" title={historyFilePath ?? ''}>
+          History: {getFileName(historyFilePath ?? '')}
+        </span>
+      </div>
+      {history === null && <div className="scm-empty">Loading…</div>}
+      {history && history.length === 0 && <div className="scm-empty">No commits for this file</div>}
+      {history?.map(commit => (
+        <div
+          key={commit.hash}
+          className="scm-commit"
+          onClick={() => historyFilePath && onOpenRevision(historyFilePath, commit)}
+          title={`${commit.hash}\n${commit.author}\n${new Date(commit.date).toLocaleString()}`}
+        >
+          <span className="scm-commit-subject">{commit.subject}</span>
+          <span className="scm-commit-meta">
+            {commit.shortHash} • {commit.author} • {new Date(commit.date).toLocaleDateString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderChanges = (): ReactElement => (
+    <>
+      <div className="scm-commit-box">
+        <textarea
+          className="scm-message"
+          placeholder={`Message (${navigator.platform.includes('Mac') ? '⌘' : 'Ctrl'}+Enter to commit)`}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={handleMessageKeyDown}
+          rows={2}
+        />
+        <button
+          className="scm-commit-btn"
+          onClick={handleCommit}
+          disabled={!canCommit}
+          title={stagedEntries.length === 0 ? 'Stage changes to commit' : 'Commit staged changes'}
+        >
+          ✓ Commit
+        </button>
+      </div>
+      <ChangeGroup
+        title="Staged Changes"
+        entries={stagedEntries}
+        getStatus={entry => entry.staged as GitChangeType}
+        actionLabel="−"
+        actionTitle="Unstage"
+        onAction={onUnstage}
+        onOpen={handleOpen}
+        onShowHistory={onShowHistory}
+      />
+      <ChangeGroup
+        title="Changes"
+        entries={changedEntries}
+        getStatus={entry => entry.unstaged as GitChangeType}
+        actionLabel="+"
+        actionTitle="Stage"
+        onAction={onStage}
+        onOpen={handleOpen}
+        onShowHistory={onShowHistory}
+      />
+      {entries.length === 0 && <div className="scm-empty">No changes</div>}
+    </>
+  );
+
+  return (
+    <div className={`source-control-panel ${isExpanded ? 'expanded' : ''}`}>
+      <div className="section-title collapsible" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className={`chevron ${isExpanded ? 'expanded' : ''}`}>▶</span>
+        SOURCE CONTROL
+        {gitStatus.branch && <span className="scm-branch" title="Current branch">⎇ {gitStatus.branch}</span>}
+        <span className="scm-header-actions" onClick={(e) => e.stopPropagation()}>
+          {canShowActiveHistory && (
+            <button className="scm-icon-btn" onClick={() => onShowHistory(activeFilePath!)} title="History of Current File">
+              🕘
+            </button>
+          )}
+          <button className="scm-icon-btn" onClick={onRefresh} title="Refresh">
+            ↻
+          </button>
+        </span>
+      </div>
+      {isExpanded && (
+        <div className="scm-content">
+          {historyFilePath ? renderHistory() : renderChanges()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceControlPanel;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, ReactElement } from 'react';
 import { useTabScrolling } from '../hooks/useTabScrolling';
-import type { Tab } from '../../types';
+import type { Tab, DiagramDiffBase } from '../../types';
 import './TabView.css';
 
 interface ContextMenuState {
@@ -9,7 +9,7 @@ interface ContextMenuState {
   tabId: number;
 }
 
-type ContextMenuAction = 'close' | 'closeOthers' | 'closeToRight' | 'closeAll';
+type ContextMenuAction = 'close' | 'closeOthers' | 'closeToRight' | 'closeAll' | 'compareSaved' | 'compareHead';
 
 interface TabViewProps {
   tabs: Tab[];
@@ -21,9 +21,10 @@ interface TabViewProps {
   onCloseAllTabs: () => void;
   onCloseOtherTabs: (tabId: number) => void;
   onCloseTabsToRight: (tabId: number) => void;
+  onCompareTab?: (tabId: number, base: DiagramDiffBase) => void;
 }
 
-const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabReorder, onCloseAllTabs, onCloseOtherTabs, onCloseTabsToRight }: TabViewProps): ReactElement => {
+const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabReorder, onCloseAllTabs, onCloseOtherTabs, onCloseTabsToRight, onCompareTab }: TabViewProps): ReactElement => {
   const [draggedTabId, setDraggedTabId] = useState<number | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
 
@@ -51,6 +52,9 @@ const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabRe
   };
 
   const getTabTitle = (tab: Tab): string => {
+    if (tab.readOnly && tab.title) {
+      return tab.title;
+    }
     if (!tab.filePath) {
       return 'Untitled';
     }
@@ -109,10 +113,20 @@ const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabRe
       case 'closeAll':
         onCloseAllTabs();
         break;
+      case 'compareSaved':
+        onCompareTab?.(contextMenu.tabId, 'saved');
+        break;
+      case 'compareHead':
+        onCompareTab?.(contextMenu.tabId, 'head');
+        break;
     }
     setContextMenu(null);
   };
 
+  // 비교 항목은 파일로 저장된 탭에만 표시
+  const canCompare = (tabId: number): boolean =>
+    !!onCompareTab && !!tabs.find(tab => tab.id === tabId)?.filePath;
+
   // Close context menu when clicking outside
   useEffect(() => {
     if (contextMenu) {
@@ -149,9 +163,9 @@ const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabRe
             onDragStart={(e) => handleDragStart(e, tab.id)}
             onDragOver={(e) => handleDragOver(e, tab.id)}
             onDragEnd={handleDragEnd}
-            title={tab.filePath || 'Untitled'}
+            title={tab.filePath || (tab.readOnly ? `${getTabTitle(tab)} (read-only)` : 'Untitled')}
           >
-            <span className="tab-icon">📊</span>
+            <span className="tab-icon">{tab.readOnly ? '🕘' : '📊'}</span>
             <span className="tab-title">{getTabTitle(tab)}</span>
             {tab.isModified && <span className="modified-indicator">●</span>}
             <button
@@ -201,6 +215,17 @@ const TabView = ({ tabs, activeTabId, onTabSelect, onTabClose, onTabNew, onTabRe
           <div className="context-menu-item" onClick={() => handleContextMenuAction('closeAll')}>
             모든 탭 닫기
           </div>
+          {canCompare(contextMenu.tabId) && (
+            <>
+              <div className="context-menu-divider"></div>
+              <div className="context-menu-item" onClick={() => handleContextMenuAction('compareSaved')}>
+                저장된 버전과 비교
+              </div>
+              <div className="context-menu-item" onClick={() => handleContextMenuAction('compareHead')}>
+                Git HEAD와 비교
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -20,6 +20,7 @@ import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import { SerializeAddon } from '@xterm/addon-serialize';
 import { useTabScrolling } from '../../hooks/useTabScrolling';
+import { getCommandKeybinding } from '../../utils/commandRegistry';
 import '@xterm/xterm/css/xterm.css';
 import './TerminalPanel.css';
 import type { TerminalStateData, TerminalInfo, ThemeMode } from '../../../types';
@@ -842,7 +843,7 @@ function TerminalPanel({ isVisible, height, onClose, workspace, theme = 'dark' }
             e.stopPropagation();
             onClose();
           }}
-          title="Close Panel (Ctrl+`)"
+          title={`Close Panel (${getCommandKeybinding('terminal.toggle')})`}
         >
           ×
         </button>
@@ -0,0 +1,15 @@
+/**
+ * Markdown front-matter 스키마
+ * 문서 템플릿의 필드 정의 - 필수 필드가 없거나 형식이 다르면 Problems 패널에 경고 표시
+ * (front-matter가 없는 문서는 검사하지 않음)
+ */
+import type { FrontMatterFieldSchema } from '../../types';
+
+export const FRONT_MATTER_SCHEMA: FrontMatterFieldSchema[] = [
+  { key: 'title', type: 'string', required: true },
+  { key: 'authors', type: 'string-list', required: true, aliases: ['author'] },
+  { key: 'date', type: 'date', required: true },
+  { key: 'tags', type: 'string-list' },
+  { key: 'status', type: 'string', values: ['draft', 'review', 'approved', 'deprecated'] },
+  { key: 'mermaid', type: 'object' }
+];
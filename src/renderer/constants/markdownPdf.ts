@@ -0,0 +1,25 @@
+/**
+ * Markdown PDF/HTML 내보내기 기본 옵션
+ */
+import type { MarkdownHtmlOptions, MarkdownPdfOptions, MarkdownPdfPageSize } from '../../types';
+
+export const MARKDOWN_PDF_PAGE_SIZES: MarkdownPdfPageSize[] = ['A4', 'A3', 'Letter', 'Legal'];
+
+// 목차에 포함할 수 있는 최대 제목 수준
+export const MAX_TOC_DEPTH = 6;
+
+export const DEFAULT_MARKDOWN_PDF_OPTIONS: MarkdownPdfOptions = {
+  pageSize: 'A4',
+  landscape: false,
+  margins: { top: 20, right: 15, bottom: 20, left: 15 },
+  headerTemplate: '',
+  footerTemplate: '{title}||{page} / {pages}',
+  coverPage: false,
+  tableOfContents: false,
+  tocDepth: 3
+};
+
+export const DEFAULT_MARKDOWN_HTML_OPTIONS: MarkdownHtmlOptions = {
+  tableOfContents: true,
+  tocDepth: 3
+};
@@ -0,0 +1,448 @@
+/**
+ * Mermaid 문법 정의
+ * Monaco 언어 등록(토크나이저, 자동완성, 호버)에서 공통으로 사용하는 키워드 사전
+ * 기준 버전: mermaid 11
+ */
+
+/**
+ * 다이어그램 종류 식별자
+ */
+export type MermaidDiagramKind =
+  | 'flowchart'
+  | 'sequence'
+  | 'class'
+  | 'state'
+  | 'er'
+  | 'journey'
+  | 'gantt'
+  | 'pie'
+  | 'quadrant'
+  | 'requirement'
+  | 'gitGraph'
+  | 'c4'
+  | 'mindmap'
+  | 'timeline'
+  | 'zenuml'
+  | 'sankey'
+  | 'xychart'
+  | 'block'
+  | 'packet'
+  | 'kanban'
+  | 'architecture'
+  | 'radar'
+  | 'treemap'
+  | 'info';
+
+/**
+ * 다이어그램 선언 키워드
+ */
+export interface MermaidDiagramDeclaration {
+  keyword: string;
+  kind: MermaidDiagramKind;
+  doc: string;
+  snippet: string;
+}
+
+/**
+ * 키워드 문서 항목
+ */
+export interface MermaidKeywordDoc {
+  keyword: string;
+  doc: string;
+  snippet?: string;
+}
+
+/**
+ * 다이어그램 선언부 (파일 첫 줄)
+ */
+export const DIAGRAM_DECLARATIONS: MermaidDiagramDeclaration[] = [
+  { keyword: 'flowchart', kind: 'flowchart', doc: 'Flowchart with a direction (TB, TD, BT, RL, LR).', snippet: 'flowchart ${1|TD,TB,BT,LR,RL|}\n    ${2:A[Start]} --> ${3:B[End]}' },
+  { keyword: 'graph', kind: 'flowchart', doc: 'Legacy alias of `flowchart`.', snippet: 'graph ${1|TD,TB,BT,LR,RL|}\n    ${2:A} --> ${3:B}' },
+  { keyword: 'sequenceDiagram', kind: 'sequence', doc: 'Sequence diagram showing messages exchanged between participants over time.', snippet: 'sequenceDiagram\n    ${1:Alice}->>${2:Bob}: ${3:Hello}' },
+  { keyword: 'classDiagram', kind: 'class', doc: 'UML class diagram with classes, members and relationships.', snippet: 'classDiagram\n    class ${1:Animal} {\n        +${2:String name}\n    }' },
+  { keyword: 'classDiagram-v2', kind: 'class', doc: 'Class diagram rendered with the v2 renderer.', snippet: 'classDiagram-v2\n    ${1:A} <|-- ${2:B}' },
+  { keyword: 'stateDiagram', kind: 'state', doc: 'State diagram (legacy renderer).', snippet: 'stateDiagram\n    [*] --> ${1:Idle}' },
+  { keyword: 'stateDiagram-v2', kind: 'state', doc: 'State diagram with composite states, forks, joins and notes.', snippet: 'stateDiagram-v2\n    [*] --> ${1:Idle}\n    ${1:Idle} --> [*]' },
+  { keyword: 'erDiagram', kind: 'er', doc: 'Entity-relationship diagram.', snippet: 'erDiagram\n    ${1:CUSTOMER} ||--o{ ${2:ORDER} : ${3:places}' },
+  { keyword: 'journey', kind: 'journey', doc: 'User journey with sections, tasks, scores and actors.', snippet: 'journey\n    title ${1:My day}\n    section ${2:Morning}\n        ${3:Wake up}: ${4:5}: ${5:Me}' },
+  { keyword: 'gantt', kind: 'gantt', doc: 'Gantt chart for project schedules.', snippet: 'gantt\n    title ${1:Project}\n    dateFormat YYYY-MM-DD\n    section ${2:Phase}\n        ${3:Task} :${4:a1}, ${5:2024-01-01}, ${6:7d}' },
+  { keyword: 'pie', kind: 'pie', doc: 'Pie chart. Add `showData` to print values.', snippet: 'pie title ${1:Pets}\n    "${2:Dogs}" : ${3:42}' },
+  { keyword: 'quadrantChart', kind: 'quadrant', doc: 'Quadrant chart with two axes and four labelled quadrants.', snippet: 'quadrantChart\n    title ${1:Reach and engagement}\n    x-axis ${2:Low Reach} --> ${3:High Reach}\n    y-axis ${4:Low Engagement} --> ${5:High Engagement}' },
+  { keyword: 'requirementDiagram', kind: 'requirement', doc: 'SysML requirement diagram.', snippet: 'requirementDiagram\n    requirement ${1:test_req} {\n        id: ${2:1}\n        text: ${3:the test text.}\n        risk: high\n        verifymethod: test\n    }' },
+  { keyword: 'gitGraph', kind: 'gitGraph', doc: 'Git commit graph with branches, merges and cherry-picks.', snippet: 'gitGraph\n    commit\n    branch ${1:develop}\n    checkout ${1:develop}\n    commit' },
+  { keyword: 'C4Context', kind: 'c4', doc: 'C4 system context diagram.', snippet: 'C4Context\n    title ${1:System Context}\n    Person(${2:user}, "${3:User}")' },
+  { keyword: 'C4Container', kind: 'c4', doc: 'C4 container diagram.', snippet: 'C4Container\n    title ${1:Containers}' },
+  { keyword: 'C4Component', kind: 'c4', doc: 'C4 component diagram.', snippet: 'C4Component\n    title ${1:Components}' },
+  { keyword: 'C4Dynamic', kind: 'c4', doc: 'C4 dynamic diagram.', snippet: 'C4Dynamic\n    title ${1:Dynamic}' },
+  { keyword: 'C4Deployment', kind: 'c4', doc: 'C4 deployment diagram.', snippet: 'C4Deployment\n    title ${1:Deployment}' },
+  { keyword: 'mindmap', kind: 'mindmap', doc: 'Mind map; hierarchy is defined by indentation.', snippet: 'mindmap\n  root((${1:Topic}))\n    ${2:Idea}' },
+  { keyword: 'timeline', kind: 'timeline', doc: 'Timeline of events grouped into periods.', snippet: 'timeline\n    title ${1:History}\n    ${2:2002} : ${3:Event}' },
+  { keyword: 'zenuml', kind: 'zenuml', doc: 'ZenUML sequence diagram (requires the zenuml plugin).', snippet: 'zenuml\n    ${1:A}.${2:method}()' },
+  { keyword: 'sankey-beta', kind: 'sankey', doc: 'Sankey diagram defined as CSV rows: source,target,value.', snippet: 'sankey-beta\n\n${1:Source},${2:Target},${3:10}' },
+  { keyword: 'xychart-beta', kind: 'xychart', doc: 'XY chart with bar and line series.', snippet: 'xychart-beta\n    title "${1:Sales}"\n    x-axis [${2:jan, feb, mar}]\n    y-axis "${3:Revenue}" 0 --> ${4:100}\n    bar [${5:10, 50, 80}]' },
+  { keyword: 'block-beta', kind: 'block', doc: 'Block diagram with explicit column layout.', snippet: 'block-beta\n    columns ${1:3}\n    ${2:a} ${3:b} ${4:c}' },
+  { keyword: 'packet-beta', kind: 'packet', doc: 'Network packet layout diagram.', snippet: 'packet-beta\n    0-15: "${1:Source Port}"\n    16-31: "${2:Destination Port}"' },
+  { keyword: 'kanban', kind: 'kanban', doc: 'Kanban board with columns and cards.', snippet: 'kanban\n    ${1:Todo}\n        ${2:task1}[${3:Write docs}]' },
+  { keyword: 'architecture-beta', kind: 'architecture', doc: 'Architecture diagram with groups, services and edges.', snippet: 'architecture-beta\n    group ${1:api}(cloud)[${2:API}]\n    service ${3:db}(database)[${4:Database}] in ${1:api}' },
+  { keyword: 'radar-beta', kind: 'radar', doc: 'Radar (spider) chart with axes and curves.', snippet: 'radar-beta\n    axis ${1:a}["${2:A}"], ${3:b}["${4:B}"], ${5:c}["${6:C}"]\n    curve ${7:c1}{${8:1, 2, 3}}' },
+  { keyword: 'treemap-beta', kind: 'treemap', doc: 'Treemap of hierarchical values; hierarchy is defined by indentation.', snippet: 'treemap-beta\n"${1:Root}"\n    "${2:Leaf}": ${3:10}' },
+  { keyword: 'info', kind: 'info', doc: 'Prints mermaid version information.', snippet: 'info' }
+];
+
+/**
+ * 다이어그램별 본문 키워드
+ */
+export const DIAGRAM_KEYWORDS: Record<MermaidDiagramKind, MermaidKeywordDoc[]> = {
+  flowchart: [
+    { keyword: 'subgraph', doc: 'Groups nodes into a titled box. Close with `end`.', snippet: 'subgraph ${1:id} [${2:Title}]\n    $0\nend' },
+    { keyword: 'end', doc: 'Closes a `subgraph` block.' },
+    { keyword: 'direction', doc: 'Sets the layout direction inside a subgraph.', snippet: 'direction ${1|TB,BT,LR,RL|}' },
+    { keyword: 'classDef', doc: 'Defines a reusable style class.', snippet: 'classDef ${1:className} fill:${2:#f9f},stroke:${3:#333}' },
+    { keyword: 'class', doc: 'Applies a style class to one or more nodes.', snippet: 'class ${1:nodeId} ${2:className}' },
+    { keyword: 'style', doc: 'Styles a single node inline.', snippet: 'style ${1:nodeId} fill:${2:#f9f}' },
+    { keyword: 'linkStyle', doc: 'Styles links by their zero-based index.', snippet: 'linkStyle ${1:0} stroke:${2:#ff3},stroke-width:${3:4px}' },
+    { keyword: 'click', doc: 'Binds a URL or callback to a node.', snippet: 'click ${1:nodeId} "${2:https://}" "${3:tooltip}"' },
+    { keyword: 'interpolate', doc: 'Sets the curve used by `linkStyle`.' }
+  ],
+  sequence: [
+    { keyword: 'participant', doc: 'Declares a participant box.', snippet: 'participant ${1:A} as ${2:Alice}' },
+    { keyword: 'actor', doc: 'Declares a participant drawn as a stick figure.', snippet: 'actor ${1:A} as ${2:Alice}' },
+    { keyword: 'boundary', doc: 'Participant with the boundary symbol.' },
+    { keyword: 'control', doc: 'Participant with the control symbol.' },
+    { keyword: 'entity', doc: 'Participant with the entity symbol.' },
+    { keyword: 'database', doc: 'Participant with the database symbol.' },
+    { keyword: 'collections', doc: 'Participant with the collections symbol.' },
+    { keyword: 'queue', doc: 'Participant with the queue symbol.' },
+    { keyword: 'create', doc: 'Creates a participant at this point of the sequence.', snippet: 'create participant ${1:B}' },
+    { keyword: 'destroy', doc: 'Destroys a participant at this point of the sequence.', snippet: 'destroy ${1:B}' },
+    { keyword: 'box', doc: 'Groups participants in a coloured box. Close with `end`.', snippet: 'box ${1:Aqua} ${2:Group}\n    $0\nend' },
+    { keyword: 'activate', doc: 'Activates a participant (draws an activation bar).', snippet: 'activate ${1:A}' },
+    { keyword: 'deactivate', doc: 'Deactivates a participant.', snippet: 'deactivate ${1:A}' },
+    { keyword: 'note', doc: 'Adds a note `left of`, `right of` or `over` participants.', snippet: 'Note ${1|right of,left of,over|} ${2:A}: ${3:text}' },
+    { keyword: 'loop', doc: 'Repeats the enclosed messages. Close with `end`.', snippet: 'loop ${1:Every minute}\n    $0\nend' },
+    { keyword: 'alt', doc: 'Alternative paths; combine with `else`. Close with `end`.', snippet: 'alt ${1:condition}\n    $0\nelse ${2:otherwise}\nend' },
+    { keyword: 'else', doc: 'Alternative branch inside `alt`.' },
+    { keyword: 'opt', doc: 'Optional block. Close with `end`.', snippet: 'opt ${1:condition}\n    $0\nend' },
+    { keyword: 'par', doc: 'Parallel actions; combine with `and`. Close with `end`.', snippet: 'par ${1:action 1}\n    $0\nand ${2:action 2}\nend' },
+    { keyword: 'and', doc: 'Parallel branch inside `par`.' },
+    { keyword: 'critical', doc: 'Critical region; combine with `option`. Close with `end`.', snippet: 'critical ${1:action}\n    $0\noption ${2:failure}\nend' },
+    { keyword: 'option', doc: 'Alternative branch inside `critical`.' },
+    { keyword: 'break', doc: 'Stops the sequence when the condition holds. Close with `end`.', snippet: 'break ${1:condition}\n    $0\nend' },
+    { keyword: 'rect', doc: 'Highlights a region with a background colour. Close with `end`.', snippet: 'rect ${1:rgb(191, 223, 255)}\n    $0\nend' },
+    { keyword: 'end', doc: 'Closes a `loop`, `alt`, `opt`, `par`, `critical`, `break`, `rect` or `box` block.' },
+    { keyword: 'autonumber', doc: 'Numbers every message automatically.' },
+    { keyword: 'title', doc: 'Diagram title.' },
+    { keyword: 'link', doc: 'Adds a menu link to a participant.' },
+    { keyword: 'links', doc: 'Adds several menu links to a participant as JSON.' }
+  ],
+  class: [
+    { keyword: 'class', doc: 'Declares a class, optionally with a body.', snippet: 'class ${1:Name} {\n    $0\n}' },
+    { keyword: 'namespace', doc: 'Groups classes into a namespace.', snippet: 'namespace ${1:Name} {\n    $0\n}' },
+    { keyword: 'note', doc: 'Adds a note, optionally `for` a class.', snippet: 'note for ${1:Class} "${2:text}"' },
+    { keyword: 'direction', doc: 'Sets the layout direction.', snippet: 'direction ${1|TB,BT,LR,RL|}' },
+    { keyword: 'classDef', doc: 'Defines a reusable style class.' },
+    { keyword: 'style', doc: 'Styles a single class inline.' },
+    { keyword: 'cssClass', doc: 'Applies a CSS class to classes.' },
+    { keyword: 'callback', doc: 'Binds a JavaScript callback to a class.' },
+    { keyword: 'click', doc: 'Binds a URL or callback to a class.' },
+    { keyword: 'link', doc: 'Binds a URL to a class.' },
+    { keyword: '<<interface>>', doc: 'Annotates a class as an interface.' },
+    { keyword: '<<abstract>>', doc: 'Annotates a class as abstract.' },
+    { keyword: '<<service>>', doc: 'Annotates a class as a service.' },
+    { keyword: '<<enumeration>>', doc: 'Annotates a class as an enumeration.' }
+  ],
+  state: [
+    { keyword: 'state', doc: 'Declares a state, a composite state or a pseudo state.', snippet: 'state ${1:Name} {\n    $0\n}' },
+    { keyword: 'note', doc: 'Adds a note `left of` or `right of` a state. Close multi-line notes with `end note`.', snippet: 'note ${1|right of,left of|} ${2:State} : ${3:text}' },
+    { keyword: 'direction', doc: 'Sets the layout direction.', snippet: 'direction ${1|TB,BT,LR,RL|}' },
+    { keyword: '<<fork>>', doc: 'Fork pseudo state.' },
+    { keyword: '<<join>>', doc: 'Join pseudo state.' },
+    { keyword: '<<choice>>', doc: 'Choice pseudo state.' },
+    { keyword: '[*]', doc: 'Start or end state.' },
+    { keyword: 'classDef', doc: 'Defines a reusable style class.' },
+    { keyword: 'class', doc: 'Applies a style class to states.' },
+    { keyword: 'end', doc: 'Closes a multi-line `note`.' }
+  ],
+  er: [
+    { keyword: 'title', doc: 'Diagram title.' },
+    { keyword: 'direction', doc: 'Sets the layout direction.' },
+    { keyword: 'PK', doc: 'Primary key attribute marker.' },
+    { keyword: 'FK', doc: 'Foreign key attribute marker.' },
+    { keyword: 'UK', doc: 'Unique key attribute marker.' },
+    { keyword: 'classDef', doc: 'Defines a reusable style class.' },
+    { keyword: 'style', doc: 'Styles a single entity inline.' }
+  ],
+  journey: [
+    { keyword: 'title', doc: 'Journey title.' },
+    { keyword: 'section', doc: 'Starts a new section of tasks.', snippet: 'section ${1:Name}' }
+  ],
+  gantt: [
+    { keyword: 'title', doc: 'Chart title.' },
+    { keyword: 'dateFormat', doc: 'Input date format (dayjs tokens).', snippet: 'dateFormat ${1:YYYY-MM-DD}' },
+    { keyword: 'axisFormat', doc: 'Output format of the time axis (d3 tokens).', snippet: 'axisFormat ${1:%Y-%m-%d}' },
+    { keyword: 'tickInterval', doc: 'Interval between axis ticks, e.g. `1week`.' },
+    { keyword: 'excludes', doc: 'Excluded dates or `weekends`.', snippet: 'excludes ${1:weekends}' },
+    { keyword: 'includes', doc: 'Dates included despite `excludes`.' },
+    { keyword: 'todayMarker', doc: 'Styles or hides (`off`) the today marker.' },
+    { keyword: 'weekday', doc: 'First day of the week used by week intervals.' },
+    { keyword: 'section', doc: 'Starts a new section of tasks.', snippet: 'section ${1:Name}' },
+    { keyword: 'milestone', doc: 'Task tag that draws a milestone.' },
+    { keyword: 'crit', doc: 'Task tag that marks a critical task.' },
+    { keyword: 'active', doc: 'Task tag that marks an active task.' },
+    { keyword: 'done', doc: 'Task tag that marks a finished task.' },
+    { keyword: 'after', doc: 'Starts a task after another task id.' },
+    { keyword: 'until', doc: 'Ends a task when another task starts.' },
+    { keyword: 'click', doc: 'Binds a URL or callback to a task.' }
+  ],
+  pie: [
+    { keyword: 'title', doc: 'Chart title.' },
+    { keyword: 'showData', doc: 'Prints the raw values next to the legend.' }
+  ],
+  quadrant: [
+    { keyword: 'title', doc: 'Chart title.' },
+    { keyword: 'x-axis', doc: 'X axis labels: `x-axis Low --> High`.' },
+    { keyword: 'y-axis', doc: 'Y axis labels: `y-axis Low --> High`.' },
+    { keyword: 'quadrant-1', doc: 'Label of the top-right quadrant.' },
+    { keyword: 'quadrant-2', doc: 'Label of the top-left quadrant.' },
+    { keyword: 'quadrant-3', doc: 'Label of the bottom-left quadrant.' },
+    { keyword: 'quadrant-4', doc: 'Label of the bottom-right quadrant.' }
+  ],
+  requirement: [
+    { keyword: 'requirement', doc: 'Generic requirement block.' },
+    { keyword: 'functionalRequirement', doc: 'Functional requirement block.' },
+    { keyword: 'interfaceRequirement', doc: 'Interface requirement block.' },
+    { keyword: 'performanceRequirement', doc: 'Performance requirement block.' },
+    { keyword: 'physicalRequirement', doc: 'Physical requirement block.' },
+    { keyword: 'designConstraint', doc: 'Design constraint block.' },
+    { keyword: 'element', doc: 'Element block with `type` and `docref`.' },
+    { keyword: 'satisfies', doc: 'Relationship: element satisfies requirement.' },
+    { keyword: 'derives', doc: 'Relationship: requirement derives from another.' },
+    { keyword: 'contains', doc: 'Relationship: requirement contains another.' },
+    { keyword: 'copies', doc: 'Relationship: element copies another.' },
+    { keyword: 'refines', doc: 'Relationship: element refines a requirement.' },
+    { keyword: 'traces', doc: 'Relationship: element traces a requirement.' },
+    { keyword: 'verifies', doc: 'Relationship: element verifies a requirement.' },
+    { keyword: 'risk', doc: 'Risk level: low, medium or high.' },
+    { keyword: 'verifymethod', doc: 'Verification method: analysis, inspection, test or demonstration.' }
+  ],
+  gitGraph: [
+    { keyword: 'commit', doc: 'Adds a commit; accepts `id:`, `tag:` and `type:`.' },
+    { keyword: 'branch', doc: 'Creates a branch and checks it out.', snippet: 'branch ${1:name}' },
+    { keyword: 'checkout', doc: 'Switches to a branch.', snippet: 'checkout ${1:name}' },
+    { keyword: 'switch', doc: 'Alias of `checkout`.' },
+    { keyword: 'merge', doc: 'Merges a branch into the current branch.', snippet: 'merge ${1:name}' },
+    { keyword: 'cherry-pick', doc: 'Cherry-picks a commit by id.', snippet: 'cherry-pick id: "${1:id}"' },
+    { keyword: 'id:', doc: 'Custom commit id.' },
+    { keyword: 'tag:', doc: 'Commit tag label.' },
+    { keyword: 'type:', doc: 'Commit type: NORMAL, REVERSE or HIGHLIGHT.' },
+    { keyword: 'order:', doc: 'Branch display order.' }
+  ],
+  c4: [
+    { keyword: 'title', doc: 'Diagram title.' },
+    { keyword: 'Person', doc: 'Person element.' },
+    { keyword: 'Person_Ext', doc: 'External person element.' },
+    { keyword: 'System', doc: 'Software system element.' },
+    { keyword: 'System_Ext', doc: 'External software system element.' },
+    { keyword: 'SystemDb', doc: 'Database system element.' },
+    { keyword: 'SystemQueue', doc: 'Queue system element.' },
+    { keyword: 'Container', doc: 'Container element.' },
+    { keyword: 'ContainerDb', doc: 'Database container element.' },
+    { keyword: 'Component', doc: 'Component element.' },
+    { keyword: 'Boundary', doc: 'Generic boundary.' },
+    { keyword: 'Enterprise_Boundary', doc: 'Enterprise boundary.' },
+    { keyword: 'System_Boundary', doc: 'System boundary.' },
+    { keyword: 'Container_Boundary', doc: 'Container boundary.' },
+    { keyword: 'Deployment_Node', doc: 'Deployment node.' },
+    { keyword: 'Rel', doc: 'Relationship between elements.' },
+    { keyword: 'BiRel', doc: 'Bidirectional relationship.' },
+    { keyword: 'UpdateElementStyle', doc: 'Overrides the style of an element.' },
+    { keyword: 'UpdateRelStyle', doc: 'Overrides the style of a relationship.' },
+    { keyword: 'UpdateLayoutConfig', doc: 'Changes shapes and boundaries per row.' }
+  ],
+  mindmap: [
+    { keyword: '::icon', doc: 'Adds an icon to the previous node.', snippet: '::icon(${1:fa fa-book})' }
+  ],
+  timeline: [
+    { keyword: 'title', doc: 'Timeline title.' },
+    { keyword: 'section', doc: 'Groups time periods.', snippet: 'section ${1:Name}' }
+  ],
+  zenuml: [
+    { keyword: 'title', doc: 'Diagram title.' },
+    { keyword: '@Actor', doc: 'Declares an actor participant.' },
+    { keyword: '@Database', doc: 'Declares a database participant.' },
+    { keyword: 'if', doc: 'Conditional fragment.' },
+    { keyword: 'else', doc: 'Alternative branch.' },
+    { keyword: 'while', doc: 'Loop fragment.' },
+    { keyword: 'for', doc: 'Loop fragment.' },
+    { keyword: 'forEach', doc: 'Loop fragment.' },
+    { keyword: 'loop', doc: 'Loop fragment.' },
+    { keyword: 'opt', doc: 'Optional fragment.' },
+    { keyword: 'par', doc: 'Parallel fragment.' },
+    { keyword: 'try', doc: 'Try fragment.' },
+    { keyword: 'catch', doc: 'Catch fragment.' },
+    { keyword: 'finally', doc: 'Finally fragment.' },
+    { keyword: 'return', doc: 'Return message.' },
+    { keyword: 'new', doc: 'Creates a participant.' }
+  ],
+  sankey: [],
+  xychart: [
+    { keyword: 'title', doc: 'Chart title.' },
+    { keyword: 'x-axis', doc: 'X axis: categories `[a, b]` or a range `min --> max`.' },
+    { keyword: 'y-axis', doc: 'Y axis: title and range `min --> max`.' },
+    { keyword: 'bar', doc: 'Bar series.', snippet: 'bar [${1:1, 2, 3}]' },
+    { keyword: 'line', doc: 'Line series.', snippet: 'line [${1:1, 2, 3}]' },
+    { keyword: 'horizontal', doc: 'Draws the chart horizontally.' }
+  ],
+  block: [
+    { keyword: 'columns', doc: 'Number of columns of the block grid.', snippet: 'columns ${1:3}' },
+    { keyword: 'block', doc: 'Nested block. Close with `end`.', snippet: 'block:${1:id}\n    $0\nend' },
+    { keyword: 'space', doc: 'Empty cell(s) in the grid.' },
+    { keyword: 'end', doc: 'Closes a nested `block`.' },
+    { keyword: 'classDef', doc: 'Defines a reusable style class.' },
+    { keyword: 'class', doc: 'Applies a style class to blocks.' },
+    { keyword: 'style', doc: 'Styles a single block inline.' }
+  ],
+  packet: [
+    { keyword: 'title', doc: 'Diagram title.' }
+  ],
+  kanban: [
+    { keyword: '@{', doc: 'Card metadata: assigned, ticket, priority.', snippet: '@{ assigned: "${1:name}", priority: "${2|Very High,High,Low,Very Low|}" }' }
+  ],
+  architecture: [
+    { keyword: 'group', doc: 'Group of services.', snippet: 'group ${1:id}(${2:cloud})[${3:Title}]' },
+    { keyword: 'service', doc: 'Service node.', snippet: 'service ${1:id}(${2:server})[${3:Title}]' },
+    { keyword: 'junction', doc: 'Four-way edge junction.', snippet: 'junction ${1:id}' },
+    { keyword: 'in', doc: 'Places a service or group inside a group.' }
+  ],
+  radar: [
+    { keyword: 'title', doc: 'Chart title.' },
+    { keyword: 'axis', doc: 'Axis definitions.' },
+    { keyword: 'curve', doc: 'Data curve.' },
+    { keyword: 'max', doc: 'Maximum value of the scale.' },
+    { keyword: 'min', doc: 'Minimum value of the scale.' },
+    { keyword: 'ticks', doc: 'Number of concentric ticks.' },
+    { keyword: 'graticule', doc: 'Grid shape: circle or polygon.' },
+    { keyword: 'showLegend', doc: 'Shows or hides the legend.' }
+  ],
+  treemap: [
+    { keyword: 'classDef', doc: 'Defines a reusable style class.' }
+  ],
+  info: [
+    { keyword: 'showInfo', doc: 'Shows extended information.' }
+  ]
+};
+
+/**
+ * 공통 키워드 (모든 다이어그램)
+ */
+export const COMMON_KEYWORDS: MermaidKeywordDoc[] = [
+  { keyword: 'accTitle', doc: 'Accessible title for screen readers.', snippet: 'accTitle: ${1:title}' },
+  { keyword: 'accDescr', doc: 'Accessible description for screen readers.', snippet: 'accDescr: ${1:description}' }
+];
+
+/**
+ * 방향 키워드
+ */
+export const DIRECTIONS = ['TB', 'TD', 'BT', 'RL', 'LR'];
+
+/**
+ * 화살표/연결선 (다이어그램별)
+ */
+export const ARROWS: Partial<Record<MermaidDiagramKind, MermaidKeywordDoc[]>> = {
+  flowchart: [
+    { keyword: '-->', doc: 'Arrow link.' },
+    { keyword: '---', doc: 'Open link without arrow.' },
+    { keyword: '-.->', doc: 'Dotted arrow link.' },
+    { keyword: '-.-', doc: 'Dotted link.' },
+    { keyword: '==>', doc: 'Thick arrow link.' },
+    { keyword: '===', doc: 'Thick link.' },
+    { keyword: '~~~', doc: 'Invisible link (layout only).' },
+    { keyword: '--o', doc: 'Link with a circle end.' },
+    { keyword: '--x', doc: 'Link with a cross end.' },
+    { keyword: '<-->', doc: 'Bidirectional arrow link.' },
+    { keyword: '-->|text|', doc: 'Arrow link with a label.', snippet: '-->|${1:text}| ' }
+  ],
+  sequence: [
+    { keyword: '->>', doc: 'Solid line with arrowhead.' },
+    { keyword: '-->>', doc: 'Dotted line with arrowhead.' },
+    { keyword: '->', doc: 'Solid line without arrow.' },
+    { keyword: '-->', doc: 'Dotted line without arrow.' },
+    { keyword: '-x', doc: 'Solid line with a cross at the end.' },
+    { keyword: '--x', doc: 'Dotted line with a cross at the end.' },
+    { keyword: '-)', doc: 'Solid line with an open arrow (async).' },
+    { keyword: '--)', doc: 'Dotted line with an open arrow (async).' },
+    { keyword: '<<->>', doc: 'Solid bidirectional arrow.' },
+    { keyword: '<<-->>', doc: 'Dotted bidirectional arrow.' }
+  ],
+  class: [
+    { keyword: '<|--', doc: 'Inheritance.' },
+    { keyword: '*--', doc: 'Composition.' },
+    { keyword: 'o--', doc: 'Aggregation.' },
+    { keyword: '-->', doc: 'Association.' },
+    { keyword: '--', doc: 'Solid link.' },
+    { keyword: '..>', doc: 'Dependency.' },
+    { keyword: '..|>', doc: 'Realization.' },
+    { keyword: '..', doc: 'Dashed link.' }
+  ],
+  state: [
+    { keyword: '-->', doc: 'Transition.' },
+    { keyword: '--', doc: 'Concurrency separator inside a composite state.' }
+  ],
+  er: [
+    { keyword: '||--||', doc: 'Exactly one to exactly one.' },
+    { keyword: '||--o{', doc: 'Exactly one to zero or more.' },
+    { keyword: '||--|{', doc: 'Exactly one to one or more.' },
+    { keyword: '|o--o{', doc: 'Zero or one to zero or more.' },
+    { keyword: '}o--o{', doc: 'Zero or more to zero or more.' },
+    { keyword: '}|..|{', doc: 'One or more to one or more (non-identifying).' }
+  ],
+  requirement: [
+    { keyword: '- satisfies ->', doc: 'Satisfies relationship.' },
+    { keyword: '- traces ->', doc: 'Traces relationship.' },
+    { keyword: '- verifies ->', doc: 'Verifies relationship.' }
+  ],
+  block: [
+    { keyword: '-->', doc: 'Arrow link.' },
+    { keyword: '---', doc: 'Open link.' }
+  ],
+  architecture: [
+    { keyword: ':R -- L:', doc: 'Edge from the right side to the left side.' },
+    { keyword: ':B --> T:', doc: 'Arrow from the bottom side to the top side.' }
+  ]
+};
+
+/**
+ * 플로우차트 노드 모양
+ */
+export const NODE_SHAPES: MermaidKeywordDoc[] = [
+  { keyword: '[text]', doc: 'Rectangle.', snippet: '[${1:text}]' },
+  { keyword: '(text)', doc: 'Rounded rectangle.', snippet: '(${1:text})' },
+  { keyword: '([text])', doc: 'Stadium.', snippet: '([${1:text}])' },
+  { keyword: '[[text]]', doc: 'Subroutine.', snippet: '[[${1:text}]]' },
+  { keyword: '[(text)]', doc: 'Cylinder (database).', snippet: '[(${1:text})]' },
+  { keyword: '((text))', doc: 'Circle.', snippet: '((${1:text}))' },
+  { keyword: '(((text)))', doc: 'Double circle.', snippet: '(((${1:text})))' },
+  { keyword: '>text]', doc: 'Asymmetric (flag).', snippet: '>${1:text}]' },
+  { keyword: '{text}', doc: 'Rhombus (decision).', snippet: '{${1:text}}' },
+  { keyword: '{{text}}', doc: 'Hexagon.', snippet: '{{${1:text}}}' },
+  { keyword: '[/text/]', doc: 'Parallelogram.', snippet: '[/${1:text}/]' },
+  { keyword: '[\\text\\]', doc: 'Alternative parallelogram.', snippet: '[\\\\${1:text}\\\\]' },
+  { keyword: '[/text\\]', doc: 'Trapezoid.', snippet: '[/${1:text}\\\\]' },
+  { keyword: '[\\text/]', doc: 'Alternative trapezoid.', snippet: '[\\\\${1:text}/]' },
+  { keyword: '@{ shape }', doc: 'Expanded shape syntax (mermaid 11), e.g. `@{ shape: doc }`.', snippet: '@{ shape: ${1|rect,rounded,stadium,subproc,cyl,circle,diam,hex,lean-r,lean-l,trap-b,trap-t,doc,docs,delay,das,notch-rect,bolt,brace,cloud,hourglass,text|}, label: "${2:text}" }' }
+];
+
+/**
+ * 지시자 (%%{init}%%, front-matter 설정 키)
+ */
+export const DIRECTIVES: MermaidKeywordDoc[] = [
+  { keyword: 'init', doc: 'Overrides the mermaid configuration for this diagram.', snippet: '%%{init: { "theme": "${1|default,dark,forest,neutral,base|}" } }%%' },
+  { keyword: 'theme', doc: 'Built-in theme: default, dark, forest, neutral or base.' },
+  { keyword: 'themeVariables', doc: 'Overrides theme colours and fonts (requires theme `base` for full control).' },
+  { keyword: 'flowchart', doc: 'Flowchart options such as `curve`, `nodeSpacing` and `rankSpacing`.' },
+  { keyword: 'sequence', doc: 'Sequence diagram options such as `mirrorActors`.' },
+  { keyword: 'layout', doc: 'Layout engine: dagre or elk.' },
+  { keyword: 'look', doc: 'Visual style: classic or handDrawn.' },
+  { keyword: 'fontFamily', doc: 'Font family used for all text.' },
+  { keyword: 'wrap', doc: 'Wraps long labels automatically.' }
+];
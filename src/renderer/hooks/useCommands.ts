@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { registerCommand } from '../utils/commandRegistry';
+import type { CommandId } from '../../types';
+
+/**
+ * 명령 ID → 실행 함수
+ */
+export type CommandHandlers = Partial<Record<CommandId, () => void>>;
+
+/**
+ * 명령 등록 Hook
+ * 컴포넌트가 마운트되어 있는 동안 명령 실행 함수를 레지스트리에 등록
+ * 실행 시 마지막 렌더링의 함수를 호출하므로 렌더링마다 다시 등록하지 않음
+ * @param handlers - 실행 함수가 undefined인 명령은 등록하지 않음 (팔레트/단축키에서 실행 불가)
+ */
+export const useCommands = (handlers: CommandHandlers): void => {
+  const handlersRef = useRef<CommandHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  const commandIds = (Object.keys(handlers) as CommandId[])
+    .filter(commandId => handlers[commandId])
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!commandIds) return;
+
+    const unregisters = (commandIds.split(',') as CommandId[]).map(commandId =>
+      registerCommand(commandId, () => handlersRef.current[commandId]?.())
+    );
+    return () => unregisters.forEach(unregister => unregister());
+  }, [commandIds]);
+};
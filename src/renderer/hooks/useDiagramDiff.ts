@@ -0,0 +1,107 @@
+import { useState, useCallback } from 'react';
+import type { Tab, DiagramDiffBase, DiagramDiffRequest } from '../../types';
+
+/**
+ * useDiagramDiff 반환 타입
+ */
+export interface UseDiagramDiffReturn {
+  diffRequest: DiagramDiffRequest | null;
+  compareTab: (tabId: number, base: DiagramDiffBase) => Promise<void>;
+  compareFiles: (beforePath: string, afterPath: string) => Promise<void>;
+  compareFileWithHead: (filePath: string) => Promise<void>;
+  closeDiff: () => void;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * 다이어그램 비교 Hook
+ * 비교할 두 버전(저장된 파일 / 탭의 편집 내용 / git HEAD / 다른 파일)을 읽어 비교 뷰 요청으로 보관
+ * 읽기 실패(저장소 밖의 파일 등)는 알림으로 표시
+ * @param tabs - 열린 탭 목록 (열려 있는 파일은 디스크 대신 편집 중인 내용을 사용)
+ */
+export const useDiagramDiff = (tabs: Tab[]): UseDiagramDiffReturn => {
+  const [diffRequest, setDiffRequest] = useState<DiagramDiffRequest | null>(null);
+
+  // 편집 중인 탭이 있으면 그 내용, 없으면 디스크의 파일
+  const readWorkingCopy = useCallback(async (filePath: string): Promise<string> => {
+    const openTab = tabs.find(tab => tab.filePath === filePath);
+    return openTab ? openTab.diagramCode : window.electronAPI.readFile(filePath);
+  }, [tabs]);
+
+  const compareWithHead = useCallback(async (filePath: string, workingCopy: string): Promise<void> => {
+    const result = await window.electronAPI.gitShowFile(filePath);
+    if (!result.success || result.content === undefined) {
+      alert(`Cannot compare with Git HEAD: ${result.error ?? 'Unknown error'}`);
+      return;
+    }
+    const fileName = getFileName(filePath);
+    setDiffRequest({
+      title: `${fileName} (HEAD ↔ Working Copy)`,
+      before: { label: 'HEAD', code: result.content },
+      after: { label: 'Working Copy', code: workingCopy }
+    });
+  }, []);
+
+  const compareTab = useCallback(async (tabId: number, base: DiagramDiffBase): Promise<void> => {
+    const tab = tabs.find(t => t.id === tabId);
+    if (!tab?.filePath || !window.electronAPI) return;
+
+    try {
+      if (base === 'head') {
+        await compareWithHead(tab.filePath, tab.diagramCode);
+        return;
+      }
+
+      const saved = await window.electronAPI.readFile(tab.filePath);
+      setDiffRequest({
+        title: `${getFileName(tab.filePath)} (Saved ↔ Unsaved)`,
+        before: { label: 'Saved', code: saved },
+        after: { label: tab.isModified ? 'Unsaved Changes' : 'Editor', code: tab.diagramCode }
+      });
+    } catch (error) {
+      console.error('Error preparing diagram diff:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot compare: ${errorMessage}`);
+    }
+  }, [tabs, compareWithHead]);
+
+  const compareFiles = useCallback(async (beforePath: string, afterPath: string): Promise<void> => {
+    if (!window.electronAPI) return;
+
+    try {
+      const [beforeCode, afterCode] = await Promise.all([readWorkingCopy(beforePath), readWorkingCopy(afterPath)]);
+      const beforeName = getFileName(beforePath);
+      const afterName = getFileName(afterPath);
+      setDiffRequest({
+        title: `${beforeName} ↔ ${afterName}`,
+        before: { label: beforeName, code: beforeCode },
+        after: { label: afterName, code: afterCode }
+      });
+    } catch (error) {
+      console.error('Error preparing diagram diff:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot compare: ${errorMessage}`);
+    }
+  }, [readWorkingCopy]);
+
+  const compareFileWithHead = useCallback(async (filePath: string): Promise<void> => {
+    if (!window.electronAPI) return;
+
+    try {
+      await compareWithHead(filePath, await readWorkingCopy(filePath));
+    } catch (error) {
+      console.error('Error preparing diagram diff:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot compare: ${errorMessage}`);
+    }
+  }, [readWorkingCopy, compareWithHead]);
+
+  const closeDiff = useCallback((): void => {
+    setDiffRequest(null);
+  }, []);
+
+  return { diffRequest, compareTab, compareFiles, compareFileWithHead, closeDiff };
+};
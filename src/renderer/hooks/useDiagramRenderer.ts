@@ -1,32 +1,49 @@
-import { useEffect, useRef, useState, RefObject } from 'react';
-import mermaid from 'mermaid';
-import { mermaidConfig } from '../constants/mermaidConfig';
-import type { DiagramTheme } from '../../types';
+import { useEffect, useRef, useState, useSyncExternalStore, RefObject } from 'react';
+import { renderMermaid, subscribeMermaidSettings, getMermaidSettingsVersion } from '../utils/mermaidSettings';
+import { mermaidErrorToProblems, validateMermaidCode } from '../utils/mermaidDiagnostics';
+import { annotateDiagramSource } from '../utils/diagramSourceMap';
+import type { DiagramTheme, DiagramProblem, FileType } from '../../types';
 import type { ViewModeValue } from '../constants/viewModes';
 
+// 마지막으로 성공한 렌더링 결과
+interface LastGoodRender {
+  svg: string;
+  documentId: number | null;
+}
+
+/**
+ * useDiagramRenderer 반환 타입
+ */
+export interface UseDiagramRendererReturn {
+  diagramRef: RefObject<HTMLDivElement | null>;
+  problems: DiagramProblem[];
+}
+
 /**
  * Mermaid 다이어그램 렌더링 Hook
- * Mermaid 초기화 및 다이어그램 렌더링 관리 (테마 동기화 포함)
+ * 다이어그램 렌더링 관리 (앱 테마 및 워크스페이스/파일별 Mermaid 설정 반영)
+ * 렌더링 실패 시 오류를 소스 위치로 매핑하여 problems로 반환
  * @param diagramCode - Mermaid 다이어그램 코드
  * @param viewMode - 현재 뷰 모드 (viewMode 변경 시 재렌더링 트리거)
+ * 오류가 있는 동안에는 마지막으로 성공한 SVG를 유지 (같은 문서일 때만)
+ * 렌더링된 SVG 요소에 원본 줄 번호(소스 맵)를 기록하여 미리보기 ↔ 에디터 이동에 사용
+ * @param fileType - 활성 탭의 파일 타입 (mermaid일 때만 렌더링/검증)
+ * @param documentId - 활성 탭 ID (탭 전환 시 이전 탭의 렌더링 결과를 재사용하지 않기 위함)
  */
-export const useDiagramRenderer = (diagramCode: string, viewMode: ViewModeValue): RefObject<HTMLDivElement | null> => {
+export const useDiagramRenderer = (
+  diagramCode: string,
+  viewMode: ViewModeValue,
+  fileType: FileType = 'mermaid',
+  documentId: number | null = null
+): UseDiagramRendererReturn => {
   const diagramRef = useRef<HTMLDivElement>(null);
   const [currentTheme, setCurrentTheme] = useState<DiagramTheme>('default');
+  const [problems, setProblems] = useState<DiagramProblem[]>([]);
   const prevViewModeRef = useRef<ViewModeValue>(viewMode);
-
-  // Initialize Mermaid once on mount with theme detection
-  useEffect(() => {
-    const appTheme = document.documentElement.getAttribute('data-theme');
-    const mermaidTheme = appTheme === 'dark' ? 'dark' : 'default';
-
-    mermaid.initialize({
-      ...mermaidConfig,
-      theme: mermaidTheme
-    });
-
-    setCurrentTheme(mermaidTheme);
-  }, []);
+  const renderCountRef = useRef<number>(0);
+  const lastGoodRenderRef = useRef<LastGoodRender | null>(null);
+  // 워크스페이스 Mermaid 설정이 바뀌면 다시 렌더링
+  const settingsVersion = useSyncExternalStore(subscribeMermaidSettings, getMermaidSettingsVersion);
 
   // Watch for theme changes
   useEffect(() => {
@@ -34,15 +51,14 @@ export const useDiagramRenderer = (diagramCode: string, viewMode: ViewModeValue)
       const appTheme = document.documentElement.getAttribute('data-theme');
       const mermaidTheme: DiagramTheme = appTheme === 'dark' ? 'dark' : 'default';
 
+      // 실제 설정은 렌더링 시점에 buildMermaidConfig가 다시 계산하므로 재렌더링만 트리거
       if (mermaidTheme !== currentTheme) {
-        mermaid.initialize({
-          ...mermaidConfig,
-          theme: mermaidTheme
-        });
         setCurrentTheme(mermaidTheme);
       }
     };
 
+    updateMermaidTheme();
+
     // MutationObserver로 data-theme 속성 변경 감지
     const observer = new MutationObserver((mutations) => {
       mutations.forEach((mutation) => {
@@ -62,20 +78,58 @@ export const useDiagramRenderer = (diagramCode: string, viewMode: ViewModeValue)
 
   // Render diagram whenever code, theme, or viewMode changes
   useEffect(() => {
+    if (fileType !== 'mermaid') {
+      setProblems([]);
+      return;
+    }
+
+    let isCancelled = false;
+
     const renderDiagram = async (): Promise<void> => {
-      if (!diagramRef.current) return;
+      // 미리보기가 없는 Code 모드: 파싱만 수행하여 진단 갱신
+      if (!diagramRef.current) {
+        const result = await validateMermaidCode(diagramCode);
+        if (!isCancelled) setProblems(result);
+        return;
+      }
 
-      try {
-        const element = diagramRef.current;
+      const element = diagramRef.current;
+
+      if (!diagramCode.trim()) {
         element.innerHTML = '';
+        lastGoodRenderRef.current = null;
+        setProblems([]);
+        return;
+      }
 
-        const { svg } = await mermaid.render('mermaid-diagram', diagramCode);
+      try {
+        // 렌더링마다 고유 ID 사용: mermaid.render는 같은 ID의 기존 요소를 DOM에서 제거하므로
+        // 고정 ID를 쓰면 오류 시 유지해야 할 이전 SVG까지 사라짐
+        renderCountRef.current += 1;
+        const { svg } = await renderMermaid(`mermaid-diagram-${renderCountRef.current}`, diagramCode);
+        if (isCancelled) return;
+
+        // 파싱에 성공했을 때만 SVG 교체
         element.innerHTML = svg;
+        const svgElement = element.querySelector('svg');
+        if (svgElement) {
+          annotateDiagramSource(svgElement, diagramCode);
+        }
+        // 소스 맵이 기록된 상태로 저장하여 컨테이너 재마운트 시에도 유지
+        lastGoodRenderRef.current = { svg: element.innerHTML, documentId };
+        setProblems([]);
       } catch (err) {
         console.error('Mermaid rendering error:', err);
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        if (diagramRef.current) {
-          diagramRef.current.innerHTML = `<div class="error">렌더링 오류: ${errorMessage}</div>`;
+        if (isCancelled) return;
+        setProblems(mermaidErrorToProblems(err, diagramCode));
+
+        // 마지막 정상 렌더링 유지 (다른 탭의 결과는 표시하지 않음)
+        const lastGood = lastGoodRenderRef.current;
+        if (!lastGood || lastGood.documentId !== documentId) {
+          element.innerHTML = '';
+        } else if (!element.querySelector('svg')) {
+          // 뷰 모드 전환 등으로 컨테이너가 새로 마운트된 경우 복원
+          element.innerHTML = lastGood.svg;
         }
       }
     };
@@ -86,8 +140,11 @@ export const useDiagramRenderer = (diagramCode: string, viewMode: ViewModeValue)
 
     const debounceTime = isViewModeChanged ? 0 : 300;
     const timeoutId = setTimeout(renderDiagram, debounceTime);
-    return () => clearTimeout(timeoutId);
-  }, [diagramCode, currentTheme, viewMode]);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [diagramCode, currentTheme, viewMode, fileType, documentId, settingsVersion]);
 
-  return diagramRef;
+  return { diagramRef, problems };
 };
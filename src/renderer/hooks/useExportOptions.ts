@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ExportRenderOptions } from '../../types';
+
+/**
+ * useExportOptions 반환 타입
+ */
+export interface UseExportOptionsReturn {
+  exportOptions: ExportRenderOptions;
+  updateExportOptions: (options: ExportRenderOptions) => void;
+}
+
+// 폴더를 열지 않은 상태의 저장 키
+const NO_WORKSPACE_KEY = '';
+
+/**
+ * 내보내기 옵션 Hook
+ * 마지막으로 사용한 내보내기 옵션을 워크스페이스별로 저장/복원
+ * @param workspaceFolder - 현재 열린 워크스페이스 폴더
+ */
+export const useExportOptions = (workspaceFolder: string | null): UseExportOptionsReturn => {
+  const [exportOptions, setExportOptions] = useState<ExportRenderOptions>({});
+  const workspaceKey = workspaceFolder ?? NO_WORKSPACE_KEY;
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    let isCancelled = false;
+
+    const loadOptions = async (): Promise<void> => {
+      try {
+        const saved = await window.electronAPI.getExportOptions(workspaceKey);
+        if (!isCancelled) {
+          setExportOptions(saved ?? {});
+        }
+      } catch (error) {
+        console.error('Failed to load export options:', error);
+      }
+    };
+
+    loadOptions();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [workspaceKey]);
+
+  const updateExportOptions = useCallback((options: ExportRenderOptions): void => {
+    setExportOptions(options);
+    window.electronAPI?.saveExportOptions(workspaceKey, options).catch(error => {
+      console.error('Failed to save export options:', error);
+    });
+  }, [workspaceKey]);
+
+  return { exportOptions, updateExportOptions };
+};
@@ -0,0 +1,87 @@
+import { useCommands } from './useCommands';
+import { importDiagram } from '../utils/diagramImporter';
+import type { ImportedDiagramFile } from '../../types';
+
+interface TabUpdates {
+  filePath?: string | null;
+  isModified?: boolean;
+  readOnly?: boolean;
+}
+
+/**
+ * 파일 명령 Hook
+ * 새 탭, 파일 열기, 가져오기, 저장, 다른 이름으로 저장 명령 등록 (메뉴, 단축키, 명령 팔레트에서 실행)
+ * 가져오기는 파일마다 변환 결과를 저장하지 않은 새 탭으로 열고, 실패와 변환하지 못한 항목을 알림
+ */
+export const useFileCommands = (
+  diagramCode: string,
+  currentFilePath: string | null,
+  hasActiveTab: boolean,
+  updateActiveTab: (updates: TabUpdates) => void,
+  handleTabNew: () => void,
+  handleFileSelect: (content: string, filePath: string) => void,
+  handleTabOpenContent: (content: string) => void
+): void => {
+  const openFile = async (): Promise<void> => {
+    const result = await window.electronAPI.showOpenFileDialog();
+    if (result.success && result.filePath && result.content !== undefined) {
+      handleFileSelect(result.content, result.filePath);
+    } else if (result.error) {
+      alert(`Cannot open file: ${result.error}`);
+    }
+  };
+
+  const importFiles = async (files: ImportedDiagramFile[]): Promise<void> => {
+    const failures: string[] = [];
+    const partial: string[] = [];
+
+    for (const file of files) {
+      const fileName = file.filePath.split(/[\\/]/).pop() ?? file.filePath;
+      try {
+        const result = await importDiagram(file);
+        handleTabOpenContent(result.code);
+        if (result.warnings.length > 0) {
+          partial.push(`${fileName}: ${result.warnings.length} item(s) not translated`);
+        }
+      } catch (error) {
+        console.error(`Failed to import ${file.filePath}:`, error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        failures.push(`${fileName}: ${errorMessage}`);
+      }
+    }
+
+    if (failures.length > 0 || partial.length > 0) {
+      const sections = [
+        failures.length > 0 ? `Import failed:\n${failures.join('\n')}` : '',
+        partial.length > 0 ? `Imported with warnings (see the comments at the top of each tab):\n${partial.join('\n')}` : ''
+      ];
+      alert(sections.filter(Boolean).join('\n\n'));
+    }
+  };
+
+  const showImportDialog = async (): Promise<void> => {
+    const result = await window.electronAPI.showImportDialog();
+    if (result.success && result.files) {
+      await importFiles(result.files);
+    } else if (result.error) {
+      alert(`Import failed: ${result.error}`);
+    }
+  };
+
+  // 경로가 없으면 저장 다이얼로그 표시 (다른 이름으로 저장은 항상)
+  const save = async (filePath?: string): Promise<void> => {
+    const result = await window.electronAPI.saveFile(diagramCode, filePath);
+    if (result.success) {
+      // 읽기 전용 탭(이전 리비전)을 다른 이름으로 저장하면 일반 파일 탭이 됨
+      updateActiveTab({ filePath: result.filePath, isModified: false, readOnly: false });
+    }
+  };
+
+  useCommands({
+    'file.newTab': handleTabNew,
+    'file.open': window.electronAPI ? openFile : undefined,
+    'file.import': window.electronAPI ? showImportDialog : undefined,
+    'file.save': window.electronAPI && hasActiveTab ? () => save(currentFilePath ?? undefined) : undefined,
+    'file.saveAs': window.electronAPI && hasActiveTab ? () => save() : undefined
+  });
+};
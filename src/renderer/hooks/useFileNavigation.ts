@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Tab } from '../../types';
+
+/**
+ * 이동 대기 중인 위치
+ */
+interface PendingLocation {
+  filePath: string;
+  lineNumber: number;
+  column?: number;
+  length?: number;
+}
+
+/**
+ * useFileNavigation 반환 타입
+ */
+export interface UseFileNavigationReturn {
+  openFile: (filePath: string) => Promise<void>;
+  openFileAt: (filePath: string, lineNumber: number, column?: number, length?: number) => Promise<void>;
+}
+
+/**
+ * 파일 열기/위치 이동 Hook
+ * 파일을 탭으로 열고 (이미 열려 있으면 전환) 지정한 줄/범위로 에디터 이동
+ * 탭 전환 시 useSourceNavigation이 이동 요청을 초기화하므로 탭이 활성화된 뒤에 요청
+ * @param tabs - 열린 탭 목록
+ * @param currentFilePath - 활성 탭의 파일 경로
+ * @param handleFileSelect - 파일을 탭으로 여는 함수
+ * @param revealSourceLine - 에디터 위치 이동 요청 함수
+ */
+export const useFileNavigation = (
+  tabs: Tab[],
+  currentFilePath: string | null,
+  handleFileSelect: (content: string, filePath: string) => void,
+  revealSourceLine: (lineNumber: number, column?: number, length?: number) => void
+): UseFileNavigationReturn => {
+  const [pendingLocation, setPendingLocation] = useState<PendingLocation | null>(null);
+
+  // 대상 파일 탭이 활성화되면 이동
+  useEffect(() => {
+    if (!pendingLocation || pendingLocation.filePath !== currentFilePath) return;
+
+    revealSourceLine(pendingLocation.lineNumber, pendingLocation.column, pendingLocation.length);
+    setPendingLocation(null);
+  }, [pendingLocation, currentFilePath, revealSourceLine]);
+
+  // 열린 탭은 편집 중인 내용을 유지하도록 다시 읽지 않음
+  const readUnlessOpen = useCallback(async (filePath: string): Promise<string> => {
+    const isOpen = tabs.some(tab => tab.filePath === filePath);
+    return isOpen ? '' : window.electronAPI.readFile(filePath);
+  }, [tabs]);
+
+  const openFile = useCallback(async (filePath: string): Promise<void> => {
+    try {
+      const content = await readUnlessOpen(filePath);
+      handleFileSelect(content, filePath);
+    } catch (error) {
+      console.error('Error opening file:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot open file: ${errorMessage}`);
+    }
+  }, [readUnlessOpen, handleFileSelect]);
+
+  const openFileAt = useCallback(async (
+    filePath: string,
+    lineNumber: number,
+    column?: number,
+    length?: number
+  ): Promise<void> => {
+    try {
+      const content = await readUnlessOpen(filePath);
+      setPendingLocation({ filePath, lineNumber, column, length });
+      handleFileSelect(content, filePath);
+    } catch (error) {
+      console.error('Error opening file:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot open file: ${errorMessage}`);
+    }
+  }, [readUnlessOpen, handleFileSelect]);
+
+  return { openFile, openFileAt };
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { computeLineChanges } from '../utils/lineDiff';
+import { isInsideRepository } from '../utils/gitDecorations';
+import type { GitLineChange, GitStatusResult } from '../../types';
+
+// 입력 중 diff 재계산 간격
+const DIFF_DEBOUNCE = 200;
+
+/**
+ * git 변경 거터 Hook
+ * 열린 파일의 HEAD 버전과 편집 중인 내용을 줄 단위로 비교
+ * 저장소 밖의 파일, 저장하지 않은 탭은 빈 목록
+ * @param filePath - 활성 탭의 파일 경로
+ * @param code - 편집 중인 내용
+ * @param gitStatus - 저장소 상태 (저장소 루트나 이 파일의 상태가 바뀔 때만 HEAD 버전을 다시 읽음)
+ */
+export const useGitLineChanges = (
+  filePath: string | null,
+  code: string,
+  gitStatus: GitStatusResult | null
+): GitLineChange[] => {
+  // HEAD 버전 (null이면 비교하지 않음)
+  const [baseContent, setBaseContent] = useState<string | null>(null);
+  const [lineChanges, setLineChanges] = useState<GitLineChange[]>([]);
+
+  // 상태 새로고침마다 git show를 다시 실행하지 않도록 이 파일에 해당하는 값만 의존
+  const root = gitStatus?.root ?? null;
+  const entry = filePath ? gitStatus?.entries?.find(item => item.path === filePath) : undefined;
+  const stagedStatus = entry?.staged ?? null;
+  const unstagedStatus = entry?.unstaged ?? null;
+
+  useEffect(() => {
+    if (!window.electronAPI || !filePath || !root || !isInsideRepository(filePath, root)) {
+      setBaseContent(null);
+      return;
+    }
+
+    let isCancelled = false;
+    const loadBaseContent = async (): Promise<void> => {
+      try {
+        const result = await window.electronAPI.gitShowFile(filePath);
+        if (isCancelled) return;
+        if (result.success && result.content !== undefined) {
+          setBaseContent(result.content);
+          return;
+        }
+        // HEAD에 없는 새 파일은 모든 줄을 추가로 표시
+        const isNewFile = unstagedStatus === 'untracked' || stagedStatus === 'added';
+        setBaseContent(isNewFile ? '' : null);
+      } catch (error) {
+        console.error('Error loading HEAD version:', error);
+        if (!isCancelled) setBaseContent(null);
+      }
+    };
+
+    loadBaseContent();
+    return () => {
+      isCancelled = true;
+    };
+  }, [filePath, root, stagedStatus, unstagedStatus]);
+
+  useEffect(() => {
+    if (baseContent === null) {
+      setLineChanges([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      if (baseContent === '') {
+        // 새 파일: 전체 추가
+        const lineCount = code.split('\n').length;
+        setLineChanges(code ? [{ type: 'added', startLineNumber: 1, endLineNumber: lineCount }] : []);
+        return;
+      }
+      setLineChanges(computeLineChanges(baseContent, code));
+    }, DIFF_DEBOUNCE);
+    return () => clearTimeout(timeoutId);
+  }, [baseContent, code]);
+
+  return lineChanges;
+};
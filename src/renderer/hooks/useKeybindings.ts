@@ -0,0 +1,106 @@
+/**
+ * useKeybindings Hook
+ * 사용자 단축키 관리
+ *
+ * 기능:
+ * - 저장된 사용자 단축키 로드 후 명령 레지스트리에 적용
+ * - 명령별 단축키 변경/기본값 복원, 전체 기본값 복원
+ * - 다른 곳(메인 프로세스)에서 저장한 단축키 반영
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { setUserKeybindings, getDefaultKeybindings } from '../utils/commandRegistry';
+import type { CommandId, Keybinding, KeybindingOverrides, UseKeybindingsReturn } from '../../types';
+
+// 기본 단축키와 같은지 확인 (같으면 사용자 단축키로 저장하지 않음)
+function isSameAsDefault(commandId: CommandId, bindings: Keybinding[]): boolean {
+  const defaults = getDefaultKeybindings(commandId);
+  return bindings.length === defaults.length &&
+    bindings.every((binding, index) => binding.key === defaults[index].key && binding.when === defaults[index].when);
+}
+
+export const useKeybindings = (): UseKeybindingsReturn => {
+  const [keybindings, setKeybindings] = useState<KeybindingOverrides>({});
+
+  /**
+   * 레지스트리와 상태에 함께 적용 (다시 렌더링되는 버튼 툴팁이 새 단축키를 표시하도록 레지스트리 먼저)
+   */
+  const applyKeybindings = useCallback((next: KeybindingOverrides): void => {
+    setUserKeybindings(next);
+    setKeybindings(next);
+  }, []);
+
+  /**
+   * 저장된 단축키 로드 및 변경 이벤트 수신
+   */
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const loadKeybindings = async (): Promise<void> => {
+      try {
+        applyKeybindings(await window.electronAPI.getKeybindings());
+      } catch (error) {
+        console.error('Error loading keybindings:', error);
+      }
+    };
+
+    loadKeybindings();
+
+    const handleKeybindingsUpdated = (_event: unknown, updated: KeybindingOverrides): void => {
+      applyKeybindings(updated);
+    };
+
+    window.electronAPI.onKeybindingsUpdated(handleKeybindingsUpdated);
+
+    return () => {
+      window.electronAPI.removeAllListeners('keybindings-updated');
+    };
+  }, [applyKeybindings]);
+
+  /**
+   * 단축키 저장
+   */
+  const saveKeybindings = useCallback(async (next: KeybindingOverrides): Promise<void> => {
+    applyKeybindings(next);
+    if (!window.electronAPI) return;
+
+    try {
+      const result = await window.electronAPI.saveKeybindings(next);
+      if (!result.success) {
+        console.error('Error saving keybindings:', result.error);
+      }
+    } catch (error) {
+      console.error('Error saving keybindings:', error);
+    }
+  }, [applyKeybindings]);
+
+  /**
+   * 명령의 단축키 변경 (기본 단축키와 같아지면 사용자 단축키 삭제)
+   */
+  const updateCommandKeybindings = useCallback(async (commandId: CommandId, bindings: Keybinding[]): Promise<void> => {
+    const { [commandId]: _previous, ...rest } = keybindings;
+    await saveKeybindings(isSameAsDefault(commandId, bindings) ? rest : { ...rest, [commandId]: bindings });
+  }, [keybindings, saveKeybindings]);
+
+  /**
+   * 명령의 단축키를 기본값으로 복원
+   */
+  const resetCommandKeybindings = useCallback(async (commandId: CommandId): Promise<void> => {
+    const { [commandId]: _previous, ...rest } = keybindings;
+    await saveKeybindings(rest);
+  }, [keybindings, saveKeybindings]);
+
+  /**
+   * 모든 단축키를 기본값으로 복원
+   */
+  const resetAllKeybindings = useCallback(async (): Promise<void> => {
+    await saveKeybindings({});
+  }, [saveKeybindings]);
+
+  return {
+    keybindings,
+    updateCommandKeybindings,
+    resetCommandKeybindings,
+    resetAllKeybindings
+  };
+};
@@ -9,22 +9,41 @@ export interface UseLayoutSettingsReturn {
   explorerWidth: number;
   editorWidth: number;
   viewMode: ViewModeValue;
+  isOutlineVisible: boolean;
+  outlineWidth: number;
   layoutLoaded: boolean;
   handleExplorerResize: (clientX: number) => void;
   handleEditorResize: (clientX: number) => void;
   handleViewModeChange: (mode: ViewModeValue) => void;
+  handleOutlineResize: (clientX: number) => void;
+  toggleOutline: () => void;
 }
 
+const COLLAPSED_EXPLORER_WIDTH = 48;
+const DEFAULT_OUTLINE_WIDTH = 240;
+const MIN_OUTLINE_WIDTH = 160;
+const MAX_OUTLINE_WIDTH = 500;
+
 /**
- * 레이아웃 설정 관리 Hook
- * explorerWidth, editorWidth, viewMode 상태 및 저장 관리
+ * 레이아웃 설정 일부만 저장 (터미널 높이 등 다른 Hook이 저장한 값 유지)
  */
-const COLLAPSED_EXPLORER_WIDTH = 48;
+const saveLayout = (changes: LayoutSettings): void => {
+  if (!window.electronAPI) return;
+  window.electronAPI.getLayoutSettings().then(settings => {
+    window.electronAPI.saveLayoutSettings({ ...settings, ...changes });
+  });
+};
 
+/**
+ * 레이아웃 설정 관리 Hook
+ * explorerWidth, editorWidth, viewMode, 아웃라인 패널 표시/너비 상태 및 저장 관리
+ */
 export const useLayoutSettings = (isExplorerVisible = true): UseLayoutSettingsReturn => {
   const [explorerWidth, setExplorerWidth] = useState<number>(300);
   const [editorWidth, setEditorWidth] = useState<number>(600);
   const [viewMode, setViewMode] = useState<ViewModeValue>(DEFAULT_VIEW_MODE);
+  const [isOutlineVisible, setIsOutlineVisible] = useState<boolean>(false);
+  const [outlineWidth, setOutlineWidth] = useState<number>(DEFAULT_OUTLINE_WIDTH);
   const [layoutLoaded, setLayoutLoaded] = useState<boolean>(false);
 
   // Load layout settings on mount
@@ -47,6 +66,12 @@ export const useLayoutSettings = (isExplorerVisible = true): UseLayoutSettingsRe
             setViewMode(layoutSettings.viewMode);
           }
           // else: 기본값 SPLIT 유지
+          if (layoutSettings.outlineVisible !== undefined) {
+            setIsOutlineVisible(layoutSettings.outlineVisible);
+          }
+          if (layoutSettings.outlineWidth) {
+            setOutlineWidth(layoutSettings.outlineWidth);
+          }
         }
         setLayoutLoaded(true);
       } catch (error) {
@@ -61,13 +86,11 @@ export const useLayoutSettings = (isExplorerVisible = true): UseLayoutSettingsRe
   // 뷰 모드 변경 핸들러
   const handleViewModeChange = (mode: ViewModeValue): void => {
     setViewMode(mode);
-    if (window.electronAPI) {
-      window.electronAPI.saveLayoutSettings({
-        explorerWidth,
-        editorWidth,
-        viewMode: mode
-      });
-    }
+    saveLayout({
+      explorerWidth,
+      editorWidth,
+      viewMode: mode
+    });
   };
 
   const handleExplorerResize = (clientX: number): void => {
@@ -75,13 +98,11 @@ export const useLayoutSettings = (isExplorerVisible = true): UseLayoutSettingsRe
     setExplorerWidth(newWidth);
 
     // Save layout settings
-    if (window.electronAPI) {
-      window.electronAPI.saveLayoutSettings({
-        explorerWidth: newWidth,
-        editorWidth,
-        viewMode
-      });
-    }
+    saveLayout({
+      explorerWidth: newWidth,
+      editorWidth,
+      viewMode
+    });
   };
 
   const handleEditorResize = (clientX: number): void => {
@@ -92,22 +113,37 @@ export const useLayoutSettings = (isExplorerVisible = true): UseLayoutSettingsRe
     setEditorWidth(newEditorWidth);
 
     // Save layout settings
-    if (window.electronAPI) {
-      window.electronAPI.saveLayoutSettings({
-        explorerWidth,
-        editorWidth: newEditorWidth,
-        viewMode
-      });
-    }
+    saveLayout({
+      explorerWidth,
+      editorWidth: newEditorWidth,
+      viewMode
+    });
+  };
+
+  // 아웃라인 패널은 오른쪽에 있으므로 창 오른쪽 끝에서부터의 거리로 너비 계산
+  const handleOutlineResize = (clientX: number): void => {
+    const newWidth = Math.max(MIN_OUTLINE_WIDTH, Math.min(MAX_OUTLINE_WIDTH, window.innerWidth - clientX));
+    setOutlineWidth(newWidth);
+    saveLayout({ outlineWidth: newWidth });
+  };
+
+  const toggleOutline = (): void => {
+    const visible = !isOutlineVisible;
+    setIsOutlineVisible(visible);
+    saveLayout({ outlineVisible: visible });
   };
 
   return {
     explorerWidth,
     editorWidth,
     viewMode,
+    isOutlineVisible,
+    outlineWidth,
     layoutLoaded,
     handleExplorerResize,
     handleEditorResize,
-    handleViewModeChange
+    handleViewModeChange,
+    handleOutlineResize,
+    toggleOutline
   };
 };
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { validateMarkdownMermaidFences } from '../utils/mermaidDiagnostics';
+import { parseFrontMatter } from '../utils/frontMatter';
+import type { DiagramProblem } from '../../types';
+
+const VALIDATION_DEBOUNCE_MS = 300;
+
+/**
+ * Markdown 문서 진단 Hook
+ * ```mermaid 코드 펜스를 파싱하여 문서 기준 줄 번호로 매핑된 진단 반환
+ * front-matter YAML 오류와 스키마 경고(필수 필드 누락 등)도 함께 반환
+ * @param content - Markdown 문서 내용
+ * @param enabled - 활성 탭이 Markdown일 때만 true
+ */
+export const useMarkdownDiagnostics = (content: string, enabled: boolean): DiagramProblem[] => {
+  const [problems, setProblems] = useState<DiagramProblem[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setProblems([]);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const timeoutId = setTimeout(async () => {
+      const { problems: frontMatterProblems } = parseFrontMatter(content);
+      const fenceProblems = await validateMarkdownMermaidFences(content);
+      if (!isCancelled) setProblems([...frontMatterProblems, ...fenceProblems]);
+    }, VALIDATION_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [content, enabled]);
+
+  return problems;
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_MARKDOWN_PDF_OPTIONS } from '../constants/markdownPdf';
+import type { MarkdownPdfSettings } from '../../types';
+
+/**
+ * useMarkdownPdfSettings 반환 타입
+ */
+export interface UseMarkdownPdfSettingsReturn {
+  pdfSettings: MarkdownPdfSettings;
+  updatePdfSettings: (settings: MarkdownPdfSettings) => void;
+}
+
+// 폴더를 열지 않은 상태의 저장 키
+const NO_WORKSPACE_KEY = '';
+
+const DEFAULT_SETTINGS: MarkdownPdfSettings = {
+  options: DEFAULT_MARKDOWN_PDF_OPTIONS,
+  presets: []
+};
+
+/**
+ * 저장된 설정에 빠진 항목을 기본값으로 채움 (이전 버전에서 저장한 설정 호환)
+ */
+function withDefaults(saved: Partial<MarkdownPdfSettings> | null): MarkdownPdfSettings {
+  if (!saved) return DEFAULT_SETTINGS;
+  return {
+    options: {
+      ...DEFAULT_MARKDOWN_PDF_OPTIONS,
+      ...saved.options,
+      margins: { ...DEFAULT_MARKDOWN_PDF_OPTIONS.margins, ...saved.options?.margins }
+    },
+    presets: saved.presets ?? []
+  };
+}
+
+/**
+ * Markdown PDF 설정 Hook
+ * 마지막으로 사용한 PDF 옵션과 이름 있는 프리셋을 워크스페이스별로 저장/복원
+ * @param workspaceFolder - 현재 열린 워크스페이스 폴더
+ */
+export const useMarkdownPdfSettings = (workspaceFolder: string | null): UseMarkdownPdfSettingsReturn => {
+  const [pdfSettings, setPdfSettings] = useState<MarkdownPdfSettings>(DEFAULT_SETTINGS);
+  const workspaceKey = workspaceFolder ?? NO_WORKSPACE_KEY;
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    let isCancelled = false;
+
+    const loadSettings = async (): Promise<void> => {
+      try {
+        const saved = await window.electronAPI.getMarkdownPdfSettings(workspaceKey);
+        if (!isCancelled) {
+          setPdfSettings(withDefaults(saved));
+        }
+      } catch (error) {
+        console.error('Failed to load markdown PDF settings:', error);
+      }
+    };
+
+    loadSettings();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [workspaceKey]);
+
+  const updatePdfSettings = useCallback((settings: MarkdownPdfSettings): void => {
+    setPdfSettings(settings);
+    window.electronAPI?.saveMarkdownPdfSettings(workspaceKey, settings).catch(error => {
+      console.error('Failed to save markdown PDF settings:', error);
+    });
+  }, [workspaceKey]);
+
+  return { pdfSettings, updatePdfSettings };
+};
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { executeCommand } from '../utils/commandRegistry';
+import type { CommandId } from '../../types';
+
+/**
+ * 메뉴 명령 Hook
+ * 네이티브 메뉴 항목 클릭으로 받은 명령을 레지스트리에서 실행 (단축키, 명령 팔레트와 같은 실행 함수)
+ */
+export const useMenuCommands = (): void => {
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const handleRunCommand = (_event: unknown, commandId: CommandId): void => {
+      executeCommand(commandId);
+    };
+
+    window.electronAPI.onRunCommand(handleRunCommand);
+    return () => {
+      window.electronAPI.removeAllListeners('run-command');
+    };
+  }, []);
+};
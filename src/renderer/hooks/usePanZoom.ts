@@ -0,0 +1,407 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import type React from 'react';
+import type { DiagramViewport } from '../../types';
+
+/**
+ * 크기 (px)
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+interface UsePanZoomOptions {
+  viewportRef: RefObject<HTMLDivElement | null>;
+  contentRef: RefObject<HTMLDivElement | null>;
+  documentId: number | null;
+  initialViewport?: DiagramViewport | null;
+  onViewportChange?: (documentId: number, viewport: DiagramViewport) => void;
+}
+
+interface PendingSave {
+  documentId: number | null;
+  viewport: DiagramViewport;
+}
+
+/**
+ * usePanZoom 반환 타입
+ */
+export interface UsePanZoomReturn {
+  viewport: DiagramViewport;
+  contentSize: Size;
+  viewportSize: Size;
+  isPanning: boolean;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  resetZoom: () => void;
+  fitToWidth: () => void;
+  fitToPage: () => void;
+  centerOn: (contentX: number, contentY: number) => void;
+  handlePointerDown: (e: React.PointerEvent<HTMLDivElement>) => void;
+  handleClickCapture: (e: React.MouseEvent<HTMLDivElement>) => void;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 8;
+const ZOOM_STEP = 1.2;
+const WHEEL_ZOOM_SPEED = 0.0015;
+const PINCH_ZOOM_SPEED = 0.01;
+const DRAG_THRESHOLD = 3;
+const SAVE_DEBOUNCE_MS = 400;
+
+const DEFAULT_VIEWPORT: DiagramViewport = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * 렌더링된 SVG를 viewBox 기준 고유 크기로 고정
+ * mermaid가 넣는 width="100%" / max-width 스타일은 transform 기반 확대와 충돌하므로 제거
+ */
+const normalizeSvgSize = (svg: SVGSVGElement): void => {
+  const viewBox = svg.viewBox?.baseVal;
+  if (!viewBox || viewBox.width === 0 || viewBox.height === 0) return;
+
+  svg.style.width = `${viewBox.width}px`;
+  svg.style.height = `${viewBox.height}px`;
+  svg.style.maxWidth = 'none';
+  svg.removeAttribute('width');
+  svg.removeAttribute('height');
+};
+
+/**
+ * 미리보기 확대/축소 및 이동 Hook
+ * - 마우스 휠 / 트랙패드 핀치(ctrl+wheel) / 터치 핀치 확대
+ * - 드래그 이동
+ * - 너비 맞춤, 페이지 맞춤, 1:1 복원
+ * - 탭별 상태 복원 및 변경 시 저장 콜백 (디바운싱)
+ */
+export const usePanZoom = ({
+  viewportRef,
+  contentRef,
+  documentId,
+  initialViewport = null,
+  onViewportChange
+}: UsePanZoomOptions): UsePanZoomReturn => {
+  const [viewport, setViewport] = useState<DiagramViewport>(initialViewport ?? DEFAULT_VIEWPORT);
+  const [contentSize, setContentSize] = useState<Size>({ width: 0, height: 0 });
+  const [viewportSize, setViewportSize] = useState<Size>({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState<boolean>(false);
+
+  const viewportStateRef = useRef<DiagramViewport>(viewport);
+  const initialViewportRef = useRef<DiagramViewport | null>(initialViewport);
+  const onViewportChangeRef = useRef(onViewportChange);
+  const needsAutoFitRef = useRef<boolean>(!initialViewport);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<PendingSave | null>(null);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const dragStartRef = useRef<{ x: number; y: number; viewport: DiagramViewport } | null>(null);
+  const pinchStartRef = useRef<{ distance: number; viewport: DiagramViewport } | null>(null);
+  const didDragRef = useRef<boolean>(false);
+
+  initialViewportRef.current = initialViewport;
+  onViewportChangeRef.current = onViewportChange;
+
+  /**
+   * 대기 중인 저장을 즉시 실행 (탭 전환/언마운트 시 유실 방지)
+   */
+  const flushPendingSave = useCallback((): void => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending && pending.documentId !== null) {
+      onViewportChangeRef.current?.(pending.documentId, pending.viewport);
+    }
+  }, []);
+
+  /**
+   * 뷰포트 상태 적용 (persist=true면 디바운싱 후 탭 상태에 저장)
+   */
+  const applyViewport = useCallback((next: DiagramViewport, persist: boolean = true): void => {
+    viewportStateRef.current = next;
+    setViewport(next);
+
+    if (!persist) return;
+    pendingSaveRef.current = { documentId, viewport: next };
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(flushPendingSave, SAVE_DEBOUNCE_MS);
+  }, [documentId, flushPendingSave]);
+
+  const measure = useCallback((): { content: Size; view: Size } => {
+    const content = contentRef.current;
+    const view = viewportRef.current;
+    const svg = content?.querySelector('svg');
+    if (svg) normalizeSvgSize(svg);
+
+    const contentMeasured = {
+      width: content?.offsetWidth ?? 0,
+      height: content?.offsetHeight ?? 0
+    };
+    const viewMeasured = {
+      width: view?.clientWidth ?? 0,
+      height: view?.clientHeight ?? 0
+    };
+    setContentSize(contentMeasured);
+    setViewportSize(viewMeasured);
+    return { content: contentMeasured, view: viewMeasured };
+  }, [contentRef, viewportRef]);
+
+  // ==========================================================================
+  // 맞춤 / 확대 명령
+  // ==========================================================================
+
+  const fitToWidth = useCallback((): void => {
+    const { content, view } = measure();
+    if (content.width === 0 || view.width === 0) return;
+    const scale = clampScale(view.width / content.width);
+    applyViewport({ scale, x: (view.width - content.width * scale) / 2, y: 0 });
+  }, [measure, applyViewport]);
+
+  const fitToPage = useCallback((): void => {
+    const { content, view } = measure();
+    if (content.width === 0 || content.height === 0 || view.width === 0) return;
+    const scale = clampScale(Math.min(view.width / content.width, view.height / content.height));
+    applyViewport({
+      scale,
+      x: (view.width - content.width * scale) / 2,
+      y: Math.max(0, (view.height - content.height * scale) / 2)
+    });
+  }, [measure, applyViewport]);
+
+  const resetZoom = useCallback((): void => {
+    const { content, view } = measure();
+    applyViewport({ scale: 1, x: Math.max(0, (view.width - content.width) / 2), y: 0 });
+  }, [measure, applyViewport]);
+
+  /**
+   * 뷰포트 내 한 점(px)을 고정한 채로 확대/축소
+   */
+  const zoomAt = useCallback((nextScale: number, originX: number, originY: number): void => {
+    const current = viewportStateRef.current;
+    const scale = clampScale(nextScale);
+    const ratio = scale / current.scale;
+    applyViewport({
+      scale,
+      x: originX - (originX - current.x) * ratio,
+      y: originY - (originY - current.y) * ratio
+    });
+  }, [applyViewport]);
+
+  const zoomByStep = useCallback((factor: number): void => {
+    const view = viewportRef.current;
+    const centerX = (view?.clientWidth ?? 0) / 2;
+    const centerY = (view?.clientHeight ?? 0) / 2;
+    zoomAt(viewportStateRef.current.scale * factor, centerX, centerY);
+  }, [viewportRef, zoomAt]);
+
+  const zoomIn = useCallback((): void => zoomByStep(ZOOM_STEP), [zoomByStep]);
+  const zoomOut = useCallback((): void => zoomByStep(1 / ZOOM_STEP), [zoomByStep]);
+
+  /**
+   * 콘텐츠 좌표(확대 전 px)가 뷰포트 중앙에 오도록 이동 (미니맵용)
+   */
+  const centerOn = useCallback((contentX: number, contentY: number): void => {
+    const view = viewportRef.current;
+    const { scale } = viewportStateRef.current;
+    applyViewport({
+      scale,
+      x: (view?.clientWidth ?? 0) / 2 - contentX * scale,
+      y: (view?.clientHeight ?? 0) / 2 - contentY * scale
+    });
+  }, [viewportRef, applyViewport]);
+
+  /**
+   * 저장된 상태가 없는 문서의 첫 렌더링: 뷰포트보다 넓으면 너비 맞춤, 아니면 1:1 가운데 정렬
+   */
+  const autoFit = useCallback((): void => {
+    const { content, view } = measure();
+    // 아직 SVG가 렌더링되지 않았으면 다음 렌더링까지 대기
+    if (!contentRef.current?.querySelector('svg') || content.width === 0 || view.width === 0) return;
+    needsAutoFitRef.current = false;
+
+    const scale = Math.min(1, view.width / content.width);
+    applyViewport({ scale, x: (view.width - content.width * scale) / 2, y: 0 }, false);
+  }, [contentRef, measure, applyViewport]);
+
+  // ==========================================================================
+  // 문서(탭) 전환 시 저장된 상태 복원
+  // ==========================================================================
+
+  useEffect(() => {
+    const saved = initialViewportRef.current;
+
+    if (saved) {
+      needsAutoFitRef.current = false;
+      applyViewport(saved, false);
+    } else {
+      // 새 탭의 SVG가 렌더링되면 자동 맞춤 (MutationObserver)
+      needsAutoFitRef.current = true;
+    }
+
+    // 이전 탭의 변경 사항은 전환 직전에 저장
+    return flushPendingSave;
+  }, [documentId]);
+
+  // 렌더링 결과(SVG) 교체 및 뷰포트 크기 변경 감지
+  useEffect(() => {
+    const content = contentRef.current;
+    const view = viewportRef.current;
+    if (!content || !view) return;
+
+    const handleContentChange = (): void => {
+      if (needsAutoFitRef.current) {
+        autoFit();
+      } else {
+        measure();
+      }
+    };
+
+    const mutationObserver = new MutationObserver(handleContentChange);
+    mutationObserver.observe(content, { childList: true });
+
+    const resizeObserver = new ResizeObserver(() => measure());
+    resizeObserver.observe(view);
+
+    measure();
+
+    return () => {
+      mutationObserver.disconnect();
+      resizeObserver.disconnect();
+    };
+  }, [contentRef, viewportRef, measure, autoFit]);
+
+  // ==========================================================================
+  // 휠 / 핀치 확대 (preventDefault를 위해 passive: false 리스너 직접 등록)
+  // ==========================================================================
+
+  useEffect(() => {
+    const view = viewportRef.current;
+    if (!view) return;
+
+    const handleWheel = (e: WheelEvent): void => {
+      e.preventDefault();
+      const rect = view.getBoundingClientRect();
+      // 트랙패드 핀치는 ctrlKey가 설정된 wheel 이벤트로 전달됨
+      const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      const factor = Math.exp(-e.deltaY * speed);
+      zoomAt(viewportStateRef.current.scale * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    view.addEventListener('wheel', handleWheel, { passive: false });
+    return () => view.removeEventListener('wheel', handleWheel);
+  }, [viewportRef, zoomAt]);
+
+  // ==========================================================================
+  // 드래그 이동 / 터치 핀치
+  // ==========================================================================
+
+  const getPinchDistance = (): number => {
+    const [first, second] = Array.from(pointersRef.current.values());
+    return Math.hypot(first.x - second.x, first.y - second.y);
+  };
+
+  const handlePointerMove = useCallback((e: PointerEvent): void => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // 두 손가락: 핀치 확대
+    if (pointersRef.current.size === 2 && pinchStartRef.current) {
+      const view = viewportRef.current;
+      if (!view) return;
+      const rect = view.getBoundingClientRect();
+      const [first, second] = Array.from(pointersRef.current.values());
+      const ratio = getPinchDistance() / pinchStartRef.current.distance;
+      didDragRef.current = true;
+      viewportStateRef.current = pinchStartRef.current.viewport;
+      zoomAt(
+        pinchStartRef.current.viewport.scale * ratio,
+        (first.x + second.x) / 2 - rect.left,
+        (first.y + second.y) / 2 - rect.top
+      );
+      return;
+    }
+
+    const start = dragStartRef.current;
+    if (!start) return;
+
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (!didDragRef.current && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+    didDragRef.current = true;
+    setIsPanning(true);
+    applyViewport({ ...start.viewport, x: start.viewport.x + dx, y: start.viewport.y + dy });
+  }, [viewportRef, zoomAt, applyViewport]);
+
+  const handlePointerUp = useCallback((e: PointerEvent): void => {
+    pointersRef.current.delete(e.pointerId);
+    pinchStartRef.current = null;
+
+    if (pointersRef.current.size === 0) {
+      dragStartRef.current = null;
+      setIsPanning(false);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    } else {
+      // 핀치 후 남은 손가락으로 이어서 이동
+      const [remaining] = Array.from(pointersRef.current.values());
+      dragStartRef.current = { ...remaining, viewport: viewportStateRef.current };
+    }
+  }, [handlePointerMove]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+    // 왼쪽/가운데 버튼만 (오른쪽은 컨텍스트 메뉴)
+    if (e.pointerType === 'mouse' && e.button !== 0 && e.button !== 1) return;
+
+    if (pointersRef.current.size === 0) {
+      didDragRef.current = false;
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+      window.addEventListener('pointercancel', handlePointerUp);
+    }
+
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointersRef.current.size === 2) {
+      dragStartRef.current = null;
+      pinchStartRef.current = { distance: getPinchDistance(), viewport: viewportStateRef.current };
+    } else {
+      dragStartRef.current = { x: e.clientX, y: e.clientY, viewport: viewportStateRef.current };
+    }
+  }, [handlePointerMove, handlePointerUp]);
+
+  // 드래그로 끝난 경우 다이어그램 요소 클릭으로 처리되지 않도록 차단
+  const handleClickCapture = useCallback((e: React.MouseEvent<HTMLDivElement>): void => {
+    if (didDragRef.current) {
+      e.stopPropagation();
+      e.preventDefault();
+      didDragRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [handlePointerMove, handlePointerUp]);
+
+  return {
+    viewport,
+    contentSize,
+    viewportSize,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitToWidth,
+    fitToPage,
+    centerOn,
+    handlePointerDown,
+    handleClickCapture
+  };
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ScrollSyncRequest } from '../../types';
+
+/**
+ * useScrollSync 반환 타입
+ */
+export interface UseScrollSyncReturn {
+  editorScrollRequest: ScrollSyncRequest | null;
+  previewScrollRequest: ScrollSyncRequest | null;
+  handleEditorScroll: (line: number) => void;
+  handlePreviewScroll: (line: number) => void;
+}
+
+/**
+ * 에디터 ↔ Markdown 미리보기 양방향 스크롤 동기화 Hook
+ * - 에디터 스크롤 → 미리보기를 같은 소스 줄로 이동 (previewScrollRequest)
+ * - 미리보기 스크롤 → 에디터를 같은 소스 줄로 이동 (editorScrollRequest)
+ * 아웃라인 항목 선택 시에도 previewScrollRequest로 미리보기를 이동
+ * 요청을 적용한 쪽은 그로 인한 스크롤 이벤트를 다시 보내지 않아야 함 (각 컴포넌트에서 처리)
+ * @param documentId - 활성 탭 ID (탭 전환 시 상태 초기화)
+ */
+export const useScrollSync = (documentId: number | null): UseScrollSyncReturn => {
+  const [editorScrollRequest, setEditorScrollRequest] = useState<ScrollSyncRequest | null>(null);
+  const [previewScrollRequest, setPreviewScrollRequest] = useState<ScrollSyncRequest | null>(null);
+  const requestIdRef = useRef<number>(0);
+
+  // 탭이 바뀌면 이전 문서의 스크롤 위치는 의미가 없으므로 초기화
+  useEffect(() => {
+    setEditorScrollRequest(null);
+    setPreviewScrollRequest(null);
+  }, [documentId]);
+
+  const handleEditorScroll = useCallback((line: number): void => {
+    requestIdRef.current += 1;
+    setPreviewScrollRequest({ line, requestId: requestIdRef.current });
+  }, []);
+
+  const handlePreviewScroll = useCallback((line: number): void => {
+    requestIdRef.current += 1;
+    setEditorScrollRequest({ line, requestId: requestIdRef.current });
+  }, []);
+
+  return { editorScrollRequest, previewScrollRequest, handleEditorScroll, handlePreviewScroll };
+};
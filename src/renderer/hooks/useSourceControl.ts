@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getFileType } from '../utils/fileTypeDetector';
+import type { Tab, FileType, GitStatusResult, GitCommitInfo } from '../../types';
+
+// 탭 저장 등으로 상태가 바뀐 뒤 git status 재조회까지 대기 시간
+const REFRESH_DEBOUNCE = 300;
+
+/**
+ * useSourceControl 반환 타입
+ */
+export interface UseSourceControlReturn {
+  gitStatus: GitStatusResult | null;
+  refreshGitStatus: () => Promise<void>;
+  stageFiles: (filePaths: string[]) => Promise<void>;
+  unstageFiles: (filePaths: string[]) => Promise<void>;
+  commitChanges: (message: string) => Promise<boolean>;
+  historyFilePath: string | null;
+  history: GitCommitInfo[] | null;
+  showFileHistory: (filePath: string) => Promise<void>;
+  closeFileHistory: () => void;
+  openRevision: (filePath: string, commit: GitCommitInfo) => Promise<void>;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * 소스 컨트롤 Hook
+ * 워크스페이스가 속한 git 저장소의 상태 조회, 스테이징/커밋, 파일 히스토리 관리
+ * 상태는 워크스페이스 변경, 창 포커스, 탭 저장 시 다시 조회
+ * @param workspaceFolder - 현재 워크스페이스 폴더
+ * @param tabs - 열린 탭 목록 (저장 여부 변화 감지)
+ * @param onOpenReadOnly - 이전 리비전을 읽기 전용 탭으로 여는 함수
+ */
+export const useSourceControl = (
+  workspaceFolder: string | null,
+  tabs: Tab[],
+  onOpenReadOnly: (content: string, title: string, fileType: FileType) => void
+): UseSourceControlReturn => {
+  const [gitStatus, setGitStatus] = useState<GitStatusResult | null>(null);
+  const [historyFilePath, setHistoryFilePath] = useState<string | null>(null);
+  const [history, setHistory] = useState<GitCommitInfo[] | null>(null);
+  // 워크스페이스가 바뀐 뒤 도착한 이전 조회 결과는 무시
+  const workspaceRef = useRef<string | null>(workspaceFolder);
+  workspaceRef.current = workspaceFolder;
+
+  const refreshGitStatus = useCallback(async (): Promise<void> => {
+    if (!window.electronAPI || !workspaceFolder) {
+      setGitStatus(null);
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.gitStatus(workspaceFolder);
+      if (workspaceRef.current !== workspaceFolder) return;
+      if (!result.success) {
+        console.error('Failed to read git status:', result.error);
+      }
+      setGitStatus(result.success && result.isRepository ? result : null);
+    } catch (error) {
+      console.error('Error reading git status:', error);
+      setGitStatus(null);
+    }
+  }, [workspaceFolder]);
+
+  // 워크스페이스 변경 시 히스토리 닫기
+  useEffect(() => {
+    setHistoryFilePath(null);
+    setHistory(null);
+  }, [workspaceFolder]);
+
+  // 창 포커스 (외부 터미널에서 커밋 등) 시 재조회
+  useEffect(() => {
+    const handleFocus = (): void => {
+      refreshGitStatus();
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [refreshGitStatus]);
+
+  // 탭 저장/열기/닫기 시 재조회 (워크스페이스 변경 포함)
+  const savedStateKey = tabs.map(tab => `${tab.filePath ?? ''}:${tab.isModified}`).join('|');
+  useEffect(() => {
+    const timeoutId = setTimeout(refreshGitStatus, REFRESH_DEBOUNCE);
+    return () => clearTimeout(timeoutId);
+  }, [savedStateKey, refreshGitStatus]);
+
+  const runOperation = useCallback(async (
+    operation: (root: string) => Promise<{ success: boolean; error?: string }>,
+    failureMessage: string
+  ): Promise<boolean> => {
+    if (!window.electronAPI || !gitStatus?.root) return false;
+
+    try {
+      const result = await operation(gitStatus.root);
+      if (!result.success) {
+        alert(`${failureMessage}: ${result.error}`);
+      }
+      return result.success;
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`${failureMessage}: ${errorMessage}`);
+      return false;
+    } finally {
+      await refreshGitStatus();
+    }
+  }, [gitStatus, refreshGitStatus]);
+
+  const stageFiles = useCallback(async (filePaths: string[]): Promise<void> => {
+    await runOperation(root => window.electronAPI.gitStage(root, filePaths), 'Failed to stage');
+  }, [runOperation]);
+
+  const unstageFiles = useCallback(async (filePaths: string[]): Promise<void> => {
+    await runOperation(root => window.electronAPI.gitUnstage(root, filePaths), 'Failed to unstage');
+  }, [runOperation]);
+
+  const commitChanges = useCallback(async (message: string): Promise<boolean> => {
+    const committed = await runOperation(root => window.electronAPI.gitCommit(root, message), 'Commit failed');
+    // 열린 히스토리에 새 커밋 반영
+    if (committed && historyFilePath) {
+      const result = await window.electronAPI.gitFileHistory(historyFilePath);
+      if (result.success) setHistory(result.commits ?? []);
+    }
+    return committed;
+  }, [runOperation, historyFilePath]);
+
+  const showFileHistory = useCallback(async (filePath: string): Promise<void> => {
+    if (!window.electronAPI) return;
+
+    setHistoryFilePath(filePath);
+    setHistory(null);
+    try {
+      const result = await window.electronAPI.gitFileHistory(filePath);
+      if (!result.success) {
+        alert(`Cannot show history: ${result.error}`);
+        setHistoryFilePath(null);
+        return;
+      }
+      setHistory(result.commits ?? []);
+    } catch (error) {
+      console.error('Error loading file history:', error);
+      setHistoryFilePath(null);
+    }
+  }, []);
+
+  const closeFileHistory = useCallback((): void => {
+    setHistoryFilePath(null);
+    setHistory(null);
+  }, []);
+
+  const openRevision = useCallback(async (filePath: string, commit: GitCommitInfo): Promise<void> => {
+    if (!window.electronAPI) return;
+
+    try {
+      const result = await window.electronAPI.gitShowFile(filePath, commit.hash);
+      if (!result.success || result.content === undefined) {
+        alert(`Cannot open revision: ${result.error ?? 'Unknown error'}`);
+        return;
+      }
+      onOpenReadOnly(result.content, `${getFileName(filePath)} @ ${commit.shortHash}`, getFileType(filePath));
+    } catch (error) {
+      console.error('Error opening revision:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Cannot open revision: ${errorMessage}`);
+    }
+  }, [onOpenReadOnly]);
+
+  return {
+    gitStatus,
+    refreshGitStatus,
+    stageFiles,
+    unstageFiles,
+    commitChanges,
+    historyFilePath,
+    history,
+    showFileHistory,
+    closeFileHistory,
+    openRevision
+  };
+};
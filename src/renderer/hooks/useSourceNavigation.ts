@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SourceRevealRequest } from '../../types';
+
+/**
+ * useSourceNavigation 반환 타입
+ */
+export interface UseSourceNavigationReturn {
+  revealRequest: SourceRevealRequest | null;
+  cursorLine: number | null;
+  revealSourceLine: (lineNumber: number, column?: number, length?: number) => void;
+  handleCursorLineChange: (lineNumber: number) => void;
+}
+
+/**
+ * 미리보기 ↔ 에디터 소스 위치 연동 Hook
+ * - 미리보기 요소 클릭 → 에디터에서 정의 줄로 이동 (revealRequest)
+ * - 검색 결과 클릭 → 에디터에서 일치 범위 선택
+ * - 에디터 커서 줄 변경 → 미리보기에서 해당 요소 강조 (cursorLine)
+ * @param documentId - 활성 탭 ID (탭 전환 시 상태 초기화)
+ */
+export const useSourceNavigation = (documentId: number | null): UseSourceNavigationReturn => {
+  const [revealRequest, setRevealRequest] = useState<SourceRevealRequest | null>(null);
+  const [cursorLine, setCursorLine] = useState<number | null>(null);
+  const requestIdRef = useRef<number>(0);
+
+  // 탭이 바뀌면 이전 문서의 줄 정보는 의미가 없으므로 초기화
+  useEffect(() => {
+    setRevealRequest(null);
+    setCursorLine(null);
+  }, [documentId]);
+
+  const revealSourceLine = useCallback((lineNumber: number, column?: number, length?: number): void => {
+    requestIdRef.current += 1;
+    setRevealRequest({ lineNumber, column, length, requestId: requestIdRef.current });
+  }, []);
+
+  const handleCursorLineChange = useCallback((lineNumber: number): void => {
+    setCursorLine(lineNumber);
+  }, []);
+
+  return { revealRequest, cursorLine, revealSourceLine, handleCursorLineChange };
+};
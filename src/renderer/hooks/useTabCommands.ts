@@ -0,0 +1,53 @@
+import { useCommands } from './useCommands';
+import type { Tab } from '../../types';
+
+/**
+ * 탭 명령 Hook
+ * 탭 닫기, 다음/이전 탭, 번호로 탭 이동 명령 등록 (탭이 없으면 실행 불가)
+ * 탭 닫기는 탭이 없어도 등록 (Ctrl/Cmd+W가 창 닫기 메뉴로 넘어가지 않도록)
+ */
+export const useTabCommands = (
+  tabs: Tab[],
+  activeTabId: number | null,
+  handleTabSelect: (tabId: number) => void,
+  handleTabClose: (tabId: number) => void,
+  handleCloseAllTabs: () => void,
+  handleCloseOtherTabs: (keepTabId: number) => void
+): void => {
+  const hasTabs = tabs.length > 0;
+  const currentIndex = tabs.findIndex(tab => tab.id === activeTabId);
+
+  // 마지막 탭 다음은 첫 탭, 첫 탭 이전은 마지막 탭
+  const selectNext = (): void => {
+    handleTabSelect(tabs[currentIndex !== -1 && currentIndex < tabs.length - 1 ? currentIndex + 1 : 0].id);
+  };
+  const selectPrevious = (): void => {
+    handleTabSelect(tabs[currentIndex > 0 ? currentIndex - 1 : tabs.length - 1].id);
+  };
+  const selectIndex = (index: number) => (): void => {
+    if (index < tabs.length) {
+      handleTabSelect(tabs[index].id);
+    }
+  };
+
+  useCommands({
+    'tabs.close': () => {
+      if (activeTabId !== null) {
+        handleTabClose(activeTabId);
+      }
+    },
+    'tabs.closeOthers': activeTabId !== null && tabs.length > 1 ? () => handleCloseOtherTabs(activeTabId) : undefined,
+    'tabs.closeAll': hasTabs ? handleCloseAllTabs : undefined,
+    'tabs.next': hasTabs ? selectNext : undefined,
+    'tabs.previous': hasTabs ? selectPrevious : undefined,
+    'tabs.goTo1': hasTabs ? selectIndex(0) : undefined,
+    'tabs.goTo2': hasTabs ? selectIndex(1) : undefined,
+    'tabs.goTo3': hasTabs ? selectIndex(2) : undefined,
+    'tabs.goTo4': hasTabs ? selectIndex(3) : undefined,
+    'tabs.goTo5': hasTabs ? selectIndex(4) : undefined,
+    'tabs.goTo6': hasTabs ? selectIndex(5) : undefined,
+    'tabs.goTo7': hasTabs ? selectIndex(6) : undefined,
+    'tabs.goTo8': hasTabs ? selectIndex(7) : undefined,
+    'tabs.goTo9': hasTabs ? selectIndex(8) : undefined
+  });
+};
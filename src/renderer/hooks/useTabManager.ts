@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { defaultDiagram } from '../constants/defaultDiagram';
 import { getFileType } from '../utils/fileTypeDetector';
-import type { Tab, FileType, WorkspaceData, TabState } from '../../types';
+import type { Tab, FileType, WorkspaceData, TabState, DiagramViewport } from '../../types';
 
 let nextTabId = 1;
 
@@ -14,6 +14,8 @@ interface TabUpdates {
   fileType?: FileType;
   isModified?: boolean;
   title?: string;
+  readOnly?: boolean;
+  previewViewport?: DiagramViewport;
 }
 
 /**
@@ -31,10 +33,14 @@ export interface UseTabManagerReturn {
   handleTabSelect: (tabId: number) => void;
   handleTabClose: (tabId: number) => void;
   handleTabNew: () => void;
+  handleTabOpenContent: (content: string) => void;
+  handleTabOpenReadOnly: (content: string, title: string, fileType: FileType) => void;
+  handleTabsReload: (filePaths: string[]) => Promise<void>;
   handleTabReorder: (draggedIndex: number, targetIndex: number) => void;
   handleCloseAllTabs: () => void;
   handleCloseOtherTabs: (keepTabId: number) => void;
   handleCloseTabsToRight: (fromTabId: number) => void;
+  handlePreviewViewportChange: (tabId: number, viewport: DiagramViewport) => void;
 }
 
 /**
@@ -273,6 +279,15 @@ export const useTabManager = (): UseTabManagerReturn => {
     );
   };
 
+  // 미리보기 확대/이동 상태는 탭별로 저장 (수정 여부에는 영향 없음)
+  const handlePreviewViewportChange = (tabId: number, viewport: DiagramViewport): void => {
+    setTabs(prevTabs =>
+      prevTabs.map(tab =>
+        tab.id === tabId ? { ...tab, previewViewport: viewport } : tab
+      )
+    );
+  };
+
   const handleEditorChange = (value: string): void => {
     updateActiveTab({ diagramCode: value, isModified: true });
   };
@@ -344,6 +359,72 @@ export const useTabManager = (): UseTabManagerReturn => {
     setActiveTabId(newTab.id);
   };
 
+  /**
+   * 저장하지 않은 새 Mermaid 탭을 주어진 내용으로 열기 (가져온 다이어그램 등)
+   */
+  const handleTabOpenContent = (content: string): void => {
+    const newTab: Tab = {
+      id: nextTabId++,
+      diagramCode: content,
+      filePath: null,
+      fileType: 'mermaid',
+      isModified: true
+    };
+    setTabs(prevTabs => [...prevTabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  /**
+   * 읽기 전용 탭 열기 (git 히스토리의 이전 리비전 등)
+   * 같은 제목의 읽기 전용 탭이 이미 있으면 그 탭으로 전환
+   */
+  const handleTabOpenReadOnly = (content: string, title: string, fileType: FileType): void => {
+    const existingTab = tabs.find(tab => tab.readOnly && tab.title === title);
+    if (existingTab) {
+      setActiveTabId(existingTab.id);
+      return;
+    }
+
+    const newTab: Tab = {
+      id: nextTabId++,
+      diagramCode: content,
+      filePath: null,
+      fileType,
+      isModified: false,
+      readOnly: true,
+      title
+    };
+    setTabs(prevTabs => [...prevTabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  /**
+   * 앱에서 디스크의 파일을 직접 바꾼 뒤 (워크스페이스 바꾸기 등) 열린 탭 내용을 다시 읽음
+   * 저장하지 않은 변경이 있는 탭은 덮어쓰지 않음
+   */
+  const handleTabsReload = async (filePaths: string[]): Promise<void> => {
+    if (!window.electronAPI) return;
+
+    const targetPaths = tabs
+      .filter(tab => tab.filePath && !tab.isModified && filePaths.includes(tab.filePath))
+      .map(tab => tab.filePath as string);
+
+    for (const filePath of targetPaths) {
+      try {
+        const content = await window.electronAPI.readFile(filePath);
+        setTabs(currentTabs =>
+          currentTabs.map(tab =>
+            tab.filePath === filePath && !tab.isModified
+              ? { ...tab, diagramCode: content }
+              : tab
+          )
+        );
+      } catch (error) {
+        console.error('[App] Failed to reload file:', error);
+      }
+    }
+  };
+
   const handleTabReorder = (draggedIndex: number, targetIndex: number): void => {
     setTabs(prevTabs => {
       const newTabs = [...prevTabs];
@@ -440,9 +521,13 @@ export const useTabManager = (): UseTabManagerReturn => {
     handleTabSelect,
     handleTabClose,
     handleTabNew,
+    handleTabOpenContent,
+    handleTabOpenReadOnly,
+    handleTabsReload,
     handleTabReorder,
     handleCloseAllTabs,
     handleCloseOtherTabs,
-    handleCloseTabsToRight
+    handleCloseTabsToRight,
+    handlePreviewViewportChange
   };
 };
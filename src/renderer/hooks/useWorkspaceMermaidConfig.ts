@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { setWorkspaceMermaidConfig } from '../utils/mermaidSettings';
+
+/**
+ * 워크스페이스 Mermaid 설정 Hook
+ * 열린 폴더의 mermaid.config.json을 읽어 전역 Mermaid 설정에 반영하고,
+ * 파일이 변경되면 다시 읽음 (잘못된 JSON으로 저장된 경우 이전 설정 유지)
+ * @param workspaceFolder - 현재 열린 워크스페이스 폴더 (없으면 기본 설정)
+ */
+export const useWorkspaceMermaidConfig = (workspaceFolder: string | null): void => {
+  useEffect(() => {
+    if (!workspaceFolder) {
+      setWorkspaceMermaidConfig(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    /**
+     * @param isReload - 파일 변경으로 다시 읽는 경우 (실패 시 이전 설정 유지)
+     */
+    const loadConfig = async (isReload: boolean): Promise<void> => {
+      try {
+        const result = await window.electronAPI.getWorkspaceMermaidConfig(workspaceFolder);
+        if (isCancelled) return;
+
+        if (!result.success) {
+          console.error('Invalid Mermaid config:', result.filePath, result.error);
+          // 폴더를 새로 연 경우에는 이전 워크스페이스 설정이 남지 않도록 초기화
+          if (!isReload) setWorkspaceMermaidConfig(null);
+          return;
+        }
+        setWorkspaceMermaidConfig(result.config);
+      } catch (error) {
+        console.error('Failed to load Mermaid config:', error);
+      }
+    };
+
+    loadConfig(false);
+
+    const handleConfigChanged = (_event: unknown, folderPath: string): void => {
+      if (folderPath === workspaceFolder) {
+        loadConfig(true);
+      }
+    };
+
+    window.electronAPI.onMermaidConfigChanged(handleConfigChanged);
+
+    return () => {
+      isCancelled = true;
+      window.electronAPI.removeAllListeners('mermaid-config-changed');
+    };
+  }, [workspaceFolder]);
+};
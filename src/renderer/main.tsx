@@ -1,21 +1,28 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { installHeadlessRenderer, HEADLESS_HASH } from './utils/headlessRenderer';
 
-console.log('main.tsx: Starting React app...');
+// CLI 모드: UI 없이 렌더링 API만 노출
+if (window.location.hash === HEADLESS_HASH) {
+  installHeadlessRenderer();
+  console.log('main.tsx: Headless renderer ready');
+} else {
+  console.log('main.tsx: Starting React app...');
 
-try {
-  const container = document.getElementById('root');
-  console.log('main.tsx: Root element found:', container);
+  try {
+    const container = document.getElementById('root');
+    console.log('main.tsx: Root element found:', container);
 
-  if (!container) {
-    throw new Error('Root element not found!');
-  }
+    if (!container) {
+      throw new Error('Root element not found!');
+    }
 
-  const root = createRoot(container);
-  root.render(<App />);
+    const root = createRoot(container);
+    root.render(<App />);
 
-  console.log('main.tsx: React app rendered successfully');
-} catch (error) {
-  console.error('main.tsx: Error rendering React app:', error);
-}
\ No newline at end of file
+    console.log('main.tsx: React app rendered successfully');
+  } catch (error) {
+    console.error('main.tsx: Error rendering React app:', error);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * 폴더 일괄 내보내기 유틸리티
+ * - 폴더 안의 .mmd/.mermaid 파일과 .md 파일의 mermaid 코드 펜스를 모두 수집
+ * - 각 다이어그램을 선택한 형식(SVG/PNG/PDF)으로 출력 폴더에 저장
+ * - 실패한 항목은 중단하지 않고 모아서 요약으로 반환
+ */
+
+import { generateExportFile, getExportFileExtension } from './diagramExporter';
+import { extractMermaidFences } from './mermaidDiagnostics';
+import { parseFrontMatter, applyDocumentMermaidConfig } from './frontMatter';
+import { getFileType } from './fileTypeDetector';
+import type {
+  BatchExportOptions,
+  BatchExportProgress,
+  BatchExportSummary,
+  DiagramSourceFile
+} from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const DEFAULT_NAMING_PATTERN = '{path}';
+
+// 파일 이름에 사용할 수 없는 문자 (Windows 기준 - 모든 플랫폼에서 같은 이름이 나오도록)
+const INVALID_NAME_CHARS = /[<>:"\\|?*]/g;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 내보낼 다이어그램 하나
+ */
+interface DiagramJob {
+  code: string;
+  relativePath: string;   // 소스 파일 상대 경로
+  index: number | null;   // Markdown 내 다이어그램 순번 (1부터), .mmd 파일은 null
+  label: string;          // 진행/오류 표시용 이름
+}
+
+// ============================================================================
+// 다이어그램 수집
+// ============================================================================
+
+/**
+ * 소스 파일을 다이어그램 단위 작업으로 변환
+ */
+function createJobs(files: DiagramSourceFile[]): DiagramJob[] {
+  const jobs: DiagramJob[] = [];
+
+  files.forEach(file => {
+    const fileType = getFileType(file.filePath);
+
+    if (fileType === 'mermaid') {
+      if (file.content.trim()) {
+        jobs.push({ code: file.content, relativePath: file.relativePath, index: null, label: file.relativePath });
+      }
+      return;
+    }
+
+    if (fileType === 'markdown') {
+      // 문서 front-matter의 mermaid 설정은 모든 다이어그램에 적용
+      const documentConfig = parseFrontMatter(file.content).frontMatter?.mermaid ?? null;
+      extractMermaidFences(file.content)
+        .filter(fence => fence.code.trim())
+        .forEach((fence, i) => {
+          jobs.push({
+            code: applyDocumentMermaidConfig(fence.code, documentConfig),
+            relativePath: file.relativePath,
+            index: i + 1,
+            label: `${file.relativePath}:${fence.startLine}`
+          });
+        });
+    }
+  });
+
+  return jobs;
+}
+
+// ============================================================================
+// 파일 이름 생성
+// ============================================================================
+
+/**
+ * 경로 구성 요소 하나를 파일 시스템에 안전한 이름으로 변환
+ */
+function sanitizeSegment(segment: string): string {
+  return Array.from(segment.replace(INVALID_NAME_CHARS, '_'))
+    .map(char => (char.charCodeAt(0) < 32 ? '_' : char))
+    .join('')
+    .trim();
+}
+
+/**
+ * 이름 패턴으로 출력 파일 경로 생성 (출력 폴더 기준 상대 경로, 확장자 제외)
+ * - {path}: 상대 경로(확장자 제외), {name}: 파일 이름, {index}: Markdown 내 다이어그램 순번
+ * - Markdown 다이어그램인데 패턴에 {index}가 없으면 끝에 -{index}를 붙여 이름 충돌 방지
+ * - 출력 폴더 밖으로 나가지 않도록 '.' / '..' 구성 요소는 제거
+ */
+export function formatOutputName(pattern: string, relativePath: string, index: number | null): string {
+  const pathWithoutExt = relativePath.replace(/\.[^./]+$/, '');
+  const name = pathWithoutExt.split('/').pop() || pathWithoutExt;
+  const effectivePattern = (pattern.trim() || DEFAULT_NAMING_PATTERN) +
+    (index !== null && !pattern.includes('{index}') ? '-{index}' : '');
+
+  const formatted = effectivePattern
+    .replace(/\{path\}/g, pathWithoutExt)
+    .replace(/\{name\}/g, name)
+    .replace(/\{index\}/g, index !== null ? String(index) : '');
+
+  const segments = formatted
+    .split(/[\\/]+/)
+    .map(sanitizeSegment)
+    .filter(segment => segment && segment !== '.' && segment !== '..');
+
+  return segments.length > 0 ? segments.join('/') : sanitizeSegment(name) || 'diagram';
+}
+
+/**
+ * 이미 사용한 이름이면 -2, -3... 을 붙여 고유한 이름 반환
+ */
+function makeUniqueName(baseName: string, usedNames: Set<string>): string {
+  let candidate = baseName;
+  let suffix = 2;
+  while (usedNames.has(candidate.toLowerCase())) {
+    candidate = `${baseName}-${suffix}`;
+    suffix++;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// ============================================================================
+// 일괄 내보내기
+// ============================================================================
+
+/**
+ * 폴더 안의 모든 다이어그램을 내보내기
+ * @param options - 내보내기 옵션
+ * @param onProgress - 진행 상태 콜백
+ * @param shouldCancel - true를 반환하면 남은 작업을 중단
+ * @returns 내보내기 결과 요약
+ */
+export async function exportAllDiagrams(
+  options: BatchExportOptions,
+  onProgress?: (progress: BatchExportProgress) => void,
+  shouldCancel?: () => boolean
+): Promise<BatchExportSummary> {
+  const summary: BatchExportSummary = { total: 0, exported: 0, canceled: false, failures: [] };
+
+  const collected = await window.electronAPI.collectDiagramSources(options.sourceFolder);
+  if (!collected.success) {
+    throw new Error(collected.error || 'Failed to read folder');
+  }
+
+  const jobs = createJobs(collected.files);
+  summary.total = jobs.length * options.formats.length;
+
+  const outputDirectory = options.outputDirectory.replace(/[\\/]+$/, '');
+  const usedNames = new Set<string>();
+  let completed = 0;
+
+  for (const job of jobs) {
+    const baseName = makeUniqueName(formatOutputName(options.namingPattern, job.relativePath, job.index), usedNames);
+
+    for (const format of options.formats) {
+      if (shouldCancel?.()) {
+        summary.canceled = true;
+        return summary;
+      }
+
+      onProgress?.({ completed, total: summary.total, current: `${job.label} → ${format.toUpperCase()}` });
+
+      try {
+        const data = await generateExportFile(job.code, format, {}, job.label);
+        const saveResult = await window.electronAPI.saveExportedFile(
+          `${outputDirectory}/${baseName}.${getExportFileExtension(format)}`,
+          data
+        );
+        if (!saveResult.success) {
+          throw new Error(saveResult.error || 'Failed to save file');
+        }
+        summary.exported++;
+      } catch (error) {
+        summary.failures.push({
+          source: job.label,
+          format,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      completed++;
+    }
+  }
+
+  onProgress?.({ completed, total: summary.total, current: '' });
+  return summary;
+}
@@ -0,0 +1,185 @@
+/**
+ * 명령 레지스트리
+ * 메뉴, 키보드 단축키, 명령 팔레트, 미리보기 버튼이 같은 명령을 실행하도록 명령별 실행 함수를 보관
+ * - 명령 이름과 기본 단축키는 COMMAND_DEFINITIONS (메인 프로세스 메뉴와 공유)
+ * - 사용자 단축키가 있는 명령은 기본 단축키 대신 사용자 단축키 사용
+ * - 실행 함수는 기능을 가진 컴포넌트/Hook이 마운트될 때 등록 (예: 내보내기는 현재 미리보기)
+ * - 같은 명령을 여러 곳에서 등록하면 마지막에 등록한 함수가 실행됨
+ */
+
+import { COMMAND_DEFINITIONS } from '../../types';
+import type { Command, CommandId, Keybinding, KeybindingContext, KeybindingOverrides } from '../../types';
+import { matchesKeybinding, formatKeybinding, keybindingsOverlap, conditionsOverlap, matchesCondition } from './keybindings';
+
+/**
+ * 명령 실행 함수
+ */
+export type CommandHandler = () => void;
+
+// 명령 정의 (Command 타입으로 다루기 위해 한 번 넓힘)
+const COMMANDS: readonly Command[] = COMMAND_DEFINITIONS;
+
+const handlers = new Map<CommandId, CommandHandler[]>();
+
+let userKeybindings: KeybindingOverrides = {};
+
+/**
+ * 명령 실행 함수 등록
+ * @returns 등록 해제 함수
+ */
+export function registerCommand(commandId: CommandId, handler: CommandHandler): () => void {
+  const registered = handlers.get(commandId) ?? [];
+  handlers.set(commandId, [...registered, handler]);
+
+  return () => {
+    const remaining = (handlers.get(commandId) ?? []).filter(item => item !== handler);
+    if (remaining.length > 0) {
+      handlers.set(commandId, remaining);
+    } else {
+      handlers.delete(commandId);
+    }
+  };
+}
+
+/**
+ * 실행 가능한 명령인지 (실행 함수가 등록되어 있는지) 확인
+ */
+export function isCommandAvailable(commandId: CommandId): boolean {
+  return handlers.has(commandId);
+}
+
+/**
+ * 명령 실행
+ * @returns 실행 함수가 없으면 false
+ */
+export function executeCommand(commandId: CommandId): boolean {
+  const registered = handlers.get(commandId);
+  if (!registered || registered.length === 0) return false;
+
+  try {
+    registered[registered.length - 1]();
+  } catch (error) {
+    console.error(`Error running command ${commandId}:`, error);
+  }
+  return true;
+}
+
+/**
+ * 명령 정의 조회
+ */
+export function getCommandDefinition(commandId: CommandId): Command | undefined {
+  return COMMANDS.find(definition => definition.id === commandId);
+}
+
+/**
+ * 명령 이름 (메뉴, 버튼, 팔레트에서 같은 이름 사용)
+ */
+export function getCommandTitle(commandId: CommandId): string {
+  return getCommandDefinition(commandId)?.title ?? commandId;
+}
+
+/**
+ * 전체 명령 목록 (정의 순서)
+ */
+export function getAllCommands(): Command[] {
+  return [...COMMANDS];
+}
+
+/**
+ * 지금 실행할 수 있는 명령 목록 (정의 순서)
+ */
+export function getAvailableCommands(): Command[] {
+  return COMMANDS.filter(definition => handlers.has(definition.id));
+}
+
+// ============================================================================
+// 단축키
+// ============================================================================
+
+/**
+ * 사용자 단축키 설정 (저장소에서 불러오거나 변경할 때)
+ */
+export function setUserKeybindings(keybindings: KeybindingOverrides): void {
+  userKeybindings = keybindings;
+}
+
+/**
+ * 명령의 기본 단축키
+ */
+export function getDefaultKeybindings(commandId: CommandId): Keybinding[] {
+  const definition = getCommandDefinition(commandId);
+  return (definition?.keybindings ?? []).map(key => (definition?.when ? { key, when: definition.when } : { key }));
+}
+
+/**
+ * 사용자가 단축키를 바꾼 명령인지 확인
+ */
+export function isKeybindingCustomized(commandId: CommandId): boolean {
+  return userKeybindings[commandId] !== undefined;
+}
+
+/**
+ * 명령에 적용되는 단축키 (사용자 단축키, 없으면 기본 단축키)
+ */
+export function getCommandKeybindings(commandId: CommandId): Keybinding[] {
+  return userKeybindings[commandId] ?? getDefaultKeybindings(commandId);
+}
+
+/**
+ * 명령의 대표 단축키 (표시용, 없으면 null)
+ */
+export function getCommandKeybinding(commandId: CommandId): string | null {
+  const keybinding = getCommandKeybindings(commandId)[0];
+  return keybinding ? formatKeybinding(keybinding.key) : null;
+}
+
+/**
+ * 버튼 툴팁용 명령 이름 (단축키가 있으면 함께 표시)
+ */
+export function getCommandTooltip(commandId: CommandId): string {
+  const title = getCommandTitle(commandId);
+  const keybinding = getCommandKeybinding(commandId);
+  return keybinding ? `${title} (${keybinding})` : title;
+}
+
+/**
+ * 같은 키 입력에 반응하는 다른 명령 목록 (적용 조건이 겹치는 경우만)
+ */
+export function findKeybindingConflicts(commandId: CommandId, keybinding: Keybinding): CommandId[] {
+  return COMMANDS
+    .filter(definition => definition.id !== commandId)
+    .filter(definition => getCommandKeybindings(definition.id).some(other =>
+      keybindingsOverlap(keybinding.key, other.key) && conditionsOverlap(keybinding.when, other.when)
+    ))
+    .map(definition => definition.id);
+}
+
+// 적용 조건이 구체적일수록 우선 (영역 조건 > 영역 제외 조건 > 조건 없음)
+function getConditionPriority(keybinding: Keybinding): number {
+  if (!keybinding.when) return 0;
+  return keybinding.when.startsWith('!') ? 1 : 2;
+}
+
+/**
+ * 키 이벤트에 해당하는 실행 가능한 명령 찾기
+ * 여러 명령이 일치하면 적용 조건이 더 구체적인 명령, 같으면 정의 순서가 빠른 명령
+ * @param context - 키 이벤트가 발생한 영역
+ */
+export function findCommandForKeyEvent(event: KeyboardEvent, context: KeybindingContext | null): CommandId | null {
+  let found: { commandId: CommandId; priority: number } | null = null;
+
+  for (const definition of COMMANDS) {
+    if (!handlers.has(definition.id)) continue;
+
+    for (const keybinding of getCommandKeybindings(definition.id)) {
+      if (!matchesKeybinding(event, keybinding.key) || !matchesCondition(keybinding.when, context)) continue;
+
+      const priority = getConditionPriority(keybinding);
+      if (!found || priority > found.priority) {
+        found = { commandId: definition.id, priority };
+      }
+    }
+  }
+
+  return found?.commandId ?? null;
+}
@@ -0,0 +1,259 @@
+/**
+ * 다이어그램 시각적 비교 유틸리티
+ * 두 버전을 각각 렌더링한 SVG에서 노드/엣지/참여자/메시지를 식별자로 추출하고
+ * 추가·삭제·레이블 변경된 요소를 찾아 SVG에 강조 클래스를 부여
+ */
+
+import { detectDiagramKind } from './mermaidLanguage';
+import type { DiagramDiffChange, DiagramDiffElementKind, DiagramDiffStatus } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 비교 단위 요소 (같은 key의 SVG 요소를 묶음)
+ * signature: 변경 여부 판단용 값 (레이블 + 모양/선 종류)
+ */
+export interface DiagramElement {
+  key: string;
+  kind: DiagramDiffElementKind;
+  label: string;
+  signature: string;
+  elements: Element[];
+}
+
+export type DiagramElementMap = Map<string, DiagramElement>;
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const DIFF_CLASS_NAMES: Record<DiagramDiffStatus, string> = {
+  added: 'diagram-diff-added',
+  removed: 'diagram-diff-removed',
+  changed: 'diagram-diff-changed'
+};
+
+// 노드 모양을 구분하는 SVG 요소
+const SHAPE_SELECTOR = 'rect, polygon, circle, ellipse, path';
+
+// ============================================================================
+// 요소 추출
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeText(element: Element | null): string {
+  return (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * id 속성에서 식별자 추출 (예: "flowchart-A-3" → "A")
+ */
+function identifierFromId(id: string, prefix: string): string | null {
+  const match = new RegExp(`^${escapeRegExp(prefix)}(.+)-\\d+$`).exec(id);
+  return match ? match[1] : null;
+}
+
+/**
+ * 노드 모양 식별 값 (같은 레이블로 모양만 바뀐 경우 감지)
+ */
+function shapeSignature(node: Element): string {
+  const shape = node.querySelector(SHAPE_SELECTOR);
+  if (!shape) return '';
+  return [shape.tagName.toLowerCase(), shape.getAttribute('rx') ?? '', node.getAttribute('class') ?? ''].join(':');
+}
+
+/**
+ * 엣지 선 종류 식별 값 (실선/점선/굵은 선, 화살표)
+ */
+function edgeSignature(path: Element): string {
+  const classes = (path.getAttribute('class') ?? '').split(/\s+/).filter(name => /^edge-(?:pattern|thickness)-/.test(name));
+  return [...classes, path.getAttribute('marker-start') ? 'start' : '', path.getAttribute('marker-end') ? 'end' : ''].join(':');
+}
+
+function addElement(
+  map: DiagramElementMap,
+  key: string,
+  kind: DiagramDiffElementKind,
+  label: string,
+  signature: string,
+  elements: Element[]
+): void {
+  const existing = map.get(key);
+  if (existing) {
+    existing.elements.push(...elements);
+    return;
+  }
+  map.set(key, { key, kind, label, signature: `${label}\u0000${signature}`, elements });
+}
+
+/**
+ * 같은 텍스트가 반복될 수 있는 요소(메시지, 노트)는 등장 순번을 key에 포함
+ */
+function createOccurrenceCounter(): (text: string) => number {
+  const counts = new Map<string, number>();
+  return (text: string): number => {
+    const count = (counts.get(text) ?? 0) + 1;
+    counts.set(text, count);
+    return count;
+  };
+}
+
+function collectNodesById(svg: SVGSVGElement, map: DiagramElementMap, selector: string, prefix: string): void {
+  svg.querySelectorAll(selector).forEach(node => {
+    const identifier = identifierFromId(node.id, prefix);
+    if (!identifier) return;
+    addElement(map, `node:${identifier}`, 'node', normalizeText(node), shapeSignature(node), [node]);
+  });
+}
+
+function collectFlowchart(svg: SVGSVGElement, map: DiagramElementMap): void {
+  collectNodesById(svg, map, 'g.node[id]', 'flowchart-');
+
+  svg.querySelectorAll('g.cluster[id]').forEach(cluster => {
+    addElement(map, `cluster:${cluster.id}`, 'cluster', normalizeText(cluster.querySelector('.cluster-label') ?? cluster), '', [cluster]);
+  });
+
+  // 엣지 ID: L_<start>_<end>_<같은 노드 쌍 내 순번>
+  svg.querySelectorAll('path[data-id^="L_"]').forEach(path => {
+    const edgeId = path.getAttribute('data-id') ?? '';
+    const labelElement = svg.querySelector(`.edgeLabel [data-id="${CSS.escape(edgeId)}"]`);
+    const labelGroup = labelElement?.closest('.edgeLabel') ?? null;
+    const label = normalizeText(labelElement);
+    addElement(map, `edge:${edgeId}`, 'edge', label || edgeId.replace(/^L_|_\d+$/g, '').replace(/_/g, ' → '),
+      edgeSignature(path), labelGroup && label ? [path, labelGroup] : [path]);
+  });
+}
+
+function collectSequence(svg: SVGSVGElement, map: DiagramElementMap): void {
+  // 참여자 상자/생명선: name 속성 = 참여자 이름
+  svg.querySelectorAll('[name]').forEach(element => {
+    const name = element.getAttribute('name');
+    if (!name) return;
+    const parent = element.parentElement;
+    const group = parent && parent.tagName.toLowerCase() === 'g' && parent.querySelectorAll('[name]').length === 1 ? parent : element;
+    const label = normalizeText(group) || name;
+    addElement(map, `participant:${name}`, 'participant', label, '', [group]);
+  });
+
+  // 메시지: 텍스트와 선이 같은 순서로 그려짐
+  const nextMessage = createOccurrenceCounter();
+  const lines = Array.from(svg.querySelectorAll('.messageLine0, .messageLine1'));
+  svg.querySelectorAll('.messageText').forEach((text, index) => {
+    const label = normalizeText(text);
+    const line = lines[index];
+    addElement(map, `message:${label}#${nextMessage(label)}`, 'message', label,
+      line?.getAttribute('class')?.includes('messageLine1') ? 'dotted' : 'solid', line ? [text, line] : [text]);
+  });
+
+  const nextNote = createOccurrenceCounter();
+  svg.querySelectorAll('rect.note').forEach(rect => {
+    const group = rect.parentElement ?? rect;
+    const label = normalizeText(group);
+    addElement(map, `note:${label}#${nextNote(label)}`, 'note', label, '', [group]);
+  });
+}
+
+function collectEdgesById(svg: SVGSVGElement, map: DiagramElementMap): void {
+  svg.querySelectorAll('path[data-id], path.relation[id]').forEach(path => {
+    const edgeId = path.getAttribute('data-id') ?? path.id;
+    if (!edgeId) return;
+    addElement(map, `edge:${edgeId}`, 'edge', edgeId.replace(/^(?:L_|id_)|_\d+$/g, '').replace(/_/g, ' → '), edgeSignature(path), [path]);
+  });
+}
+
+/**
+ * 전용 규칙이 없는 다이어그램: 표시 텍스트 단위로 비교
+ */
+function collectTexts(svg: SVGSVGElement, map: DiagramElementMap): void {
+  const nextText = createOccurrenceCounter();
+  svg.querySelectorAll('text').forEach(text => {
+    const label = normalizeText(text);
+    if (!label) return;
+    addElement(map, `text:${label}#${nextText(label)}`, 'text', label, '', [text]);
+  });
+}
+
+/**
+ * 렌더링된 SVG에서 비교 단위 요소 추출
+ * @param svg - mermaid.render 결과 SVG 요소
+ * @param code - 렌더링에 사용한 Mermaid 코드 (다이어그램 종류 판별)
+ */
+export function collectDiagramElements(svg: SVGSVGElement, code: string): DiagramElementMap {
+  const map: DiagramElementMap = new Map();
+
+  switch (detectDiagramKind(code)) {
+    case 'flowchart':
+      collectFlowchart(svg, map);
+      break;
+    case 'sequence':
+      collectSequence(svg, map);
+      break;
+    case 'class':
+      collectNodesById(svg, map, 'g.node[id]', 'classId-');
+      collectEdgesById(svg, map);
+      break;
+    case 'state':
+      collectNodesById(svg, map, 'g.node[id]', 'state-');
+      collectEdgesById(svg, map);
+      break;
+    case 'er':
+      collectNodesById(svg, map, 'g[id^="entity-"]', 'entity-');
+      collectEdgesById(svg, map);
+      break;
+    default:
+      break;
+  }
+
+  if (map.size === 0) {
+    collectTexts(svg, map);
+  }
+  return map;
+}
+
+// ============================================================================
+// 비교 / 강조
+// ============================================================================
+
+/**
+ * 두 버전의 요소 비교 (after 기준 순서, 삭제된 요소는 뒤에)
+ */
+export function compareDiagramElements(before: DiagramElementMap, after: DiagramElementMap): DiagramDiffChange[] {
+  const changes: DiagramDiffChange[] = [];
+
+  after.forEach(element => {
+    const previous = before.get(element.key);
+    if (!previous) {
+      changes.push({ key: element.key, kind: element.kind, status: 'added', label: element.label });
+    } else if (previous.signature !== element.signature) {
+      changes.push({ key: element.key, kind: element.kind, status: 'changed', label: element.label, previousLabel: previous.label });
+    }
+  });
+
+  before.forEach(element => {
+    if (!after.has(element.key)) {
+      changes.push({ key: element.key, kind: element.kind, status: 'removed', label: element.label });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * 변경된 요소에 강조 클래스 부여
+ * before 쪽에는 삭제/변경, after 쪽에는 추가/변경 요소만 표시
+ */
+export function highlightDiagramDiff(elements: DiagramElementMap, changes: DiagramDiffChange[], side: 'before' | 'after'): void {
+  changes.forEach(change => {
+    if (side === 'before' && change.status === 'added') return;
+    if (side === 'after' && change.status === 'removed') return;
+    elements.get(change.key)?.elements.forEach(element => {
+      element.classList.add(DIFF_CLASS_NAMES[change.status]);
+      element.setAttribute('data-diff-key', change.key);
+    });
+  });
+}
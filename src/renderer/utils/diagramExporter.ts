@@ -1,16 +1,18 @@
 /**
  * 다이어그램 내보내기 유틸리티
- * PNG, PDF, SVG 형식으로 다이어그램 내보내기
+ * PNG, JPEG, WebP, PDF, SVG, HTML 형식과 Markdown 스니펫으로 다이어그램 내보내기
  */
 
-import mermaid from 'mermaid';
 import jsPDF from 'jspdf';
+import { renderMermaid, getCurrentAppTheme } from './mermaidSettings';
+import { buildInteractiveHTML } from './interactiveHtml';
+import type { ExportType, ExportRenderOptions } from '../../types';
 
 // ============================================================================
 // 타입 정의
 // ============================================================================
 
-export type ExportFormat = 'png' | 'pdf' | 'svg' | 'svg-compat';
+export type ExportFormat = ExportType | 'svg-compat' | 'markdown';
 export type ToastType = 'success' | 'error' | 'info';
 export type ShowToastFn = (message: string, type?: ToastType) => void;
 
@@ -21,12 +23,23 @@ interface SVGDimensions {
   vbY: number;
 }
 
+type RasterFormat = 'png' | 'jpeg' | 'webp';
+
 interface SVGResult {
   svg: string;
   width: number;
   height: number;
 }
 
+/**
+ * 문서에 넣을 PNG 이미지 (width/height는 배율 적용 전 표시 크기)
+ */
+export interface PNGImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
 // ============================================================================
 // 상수 정의
 // ============================================================================
@@ -42,6 +55,7 @@ const INLINE_STYLE_PROPS = [
 
 const DEFAULT_DIMENSIONS = { width: 800, height: 600 };
 const DEFAULT_EXPORT_SCALE = 2;
+const MAX_EXPORT_SCALE = 10;
 const DEFAULT_FONT_FAMILY = 'trebuchet ms, verdana, arial, sans-serif';
 
 // 색상 팔레트
@@ -70,6 +84,33 @@ const MAX_TEXT_LENGTH_BEFORE_WRAP = 8;
 const CLEAN_SVG_PADDING = 20;
 const MARKER_SIZE = '10';
 const PNG_QUALITY = 1.0;
+const DEFAULT_LOSSY_QUALITY = 0.92;
+
+// 래스터 형식별 MIME 타입
+const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// 형식별 파일 확장자
+const FILE_EXTENSIONS: Record<ExportType, string> = {
+  png: 'png',
+  pdf: 'pdf',
+  svg: 'svg',
+  jpeg: 'jpg',
+  webp: 'webp',
+  html: 'html'
+};
+
+// 테마 배경색 (앱의 --bg-primary와 동일)
+const THEME_BACKGROUNDS = {
+  light: '#ffffff',
+  dark: '#1e1e1e'
+};
+
+// PDF 용지 여백 (pt)
+const PDF_PAGE_MARGIN = 36;
 
 // 선 굵기 상수
 const STROKE_WIDTHS = {
@@ -211,23 +252,57 @@ function configureSVGAttributes(svgEl: SVGSVGElement, width: number, height: num
 }
 
 /**
- * SVG에 흰색 배경 추가
+ * SVG에 배경 추가
  */
-function addWhiteBackground(svgEl: SVGSVGElement, x: number, y: number, width: number, height: number): void {
+function addBackground(svgEl: SVGSVGElement, x: number, y: number, width: number, height: number, color: string): void {
   const bg = document.createElementNS(SVG_NS, 'rect');
   bg.setAttribute('x', String(x));
   bg.setAttribute('y', String(y));
   bg.setAttribute('width', String(width));
   bg.setAttribute('height', String(height));
-  bg.setAttribute('fill', COLORS.WHITE);
+  bg.setAttribute('fill', color);
   svgEl.insertBefore(bg, svgEl.firstChild);
 }
 
+// ============================================================================
+// 내보내기 옵션 헬퍼 함수
+// ============================================================================
+
+/**
+ * 내보내기에 사용할 앱 테마
+ */
+function resolveExportTheme(options: ExportRenderOptions): 'light' | 'dark' {
+  return !options.theme || options.theme === 'current' ? getCurrentAppTheme() : options.theme;
+}
+
+/**
+ * 배경색 결정 (투명이면 null)
+ */
+function resolveBackgroundColor(options: ExportRenderOptions): string | null {
+  switch (options.background) {
+    case 'transparent':
+      return null;
+    case 'theme':
+      return THEME_BACKGROUNDS[resolveExportTheme(options)];
+    default:
+      return options.backgroundColor || COLORS.WHITE;
+  }
+}
+
+/**
+ * PNG 배율 결정 (가로 픽셀 지정 시 SVG 너비 기준으로 환산)
+ */
+function resolveExportScale(options: ExportRenderOptions, svgWidth: number): number | null {
+  const scale = options.width && options.width > 0 ? options.width / svgWidth : options.scale;
+  return scale && scale > 0 ? Math.min(scale, MAX_EXPORT_SCALE) : null;
+}
+
 /**
  * Mermaid 다이어그램 렌더링 및 SVG 요소 파싱
+ * 미리보기와 같은 Mermaid 설정(워크스페이스/파일별 테마 포함)으로 렌더링
  */
-async function renderMermaidSVG(diagramCode: string, id = 'temp-diagram-export'): Promise<SVGSVGElement> {
-  const { svg } = await mermaid.render(id, diagramCode);
+async function renderMermaidSVG(diagramCode: string, id = 'temp-diagram-export', options: ExportRenderOptions = {}): Promise<SVGSVGElement> {
+  const { svg } = await renderMermaid(id, diagramCode, {}, resolveExportTheme(options));
 
   const tmp = document.createElement('div');
   tmp.innerHTML = svg.trim();
@@ -248,14 +323,30 @@ async function renderMermaidSVG(diagramCode: string, id = 'temp-diagram-export')
  * SVG 생성 - Raw 또는 호환성 모드
  * @param diagramCode - Mermaid 다이어그램 코드
  * @param compatMode - true면 인라인 스타일 적용, false면 원본 유지
+ * @param options - 테마, 배경, 여백
  */
-async function generateSVG(diagramCode: string, compatMode = false): Promise<SVGResult> {
+async function generateSVG(diagramCode: string, compatMode = false, options: ExportRenderOptions = {}): Promise<SVGResult> {
   const id = compatMode ? 'temp-diagram-export-compat' : 'temp-diagram-export-raw';
-  const svgEl = await renderMermaidSVG(diagramCode, id);
+  const svgEl = await renderMermaidSVG(diagramCode, id, options);
+
+  const dimensions = extractSVGDimensions(svgEl);
+
+  // 여백만큼 viewBox 확장
+  const padding = Math.max(0, options.padding ?? 0);
+  const width = dimensions.width + padding * 2;
+  const height = dimensions.height + padding * 2;
+  const vbX = dimensions.vbX - padding;
+  const vbY = dimensions.vbY - padding;
+  if (padding > 0) {
+    svgEl.setAttribute('viewBox', `${vbX} ${vbY} ${width} ${height}`);
+  }
 
-  const { width, height, vbX, vbY } = extractSVGDimensions(svgEl);
   configureSVGAttributes(svgEl, width, height, vbX, vbY);
-  addWhiteBackground(svgEl, vbX, vbY, width, height);
+
+  const backgroundColor = resolveBackgroundColor(options);
+  if (backgroundColor) {
+    addBackground(svgEl, vbX, vbY, width, height, backgroundColor);
+  }
 
   // 폰트 패밀리 보장
   if (!svgEl.style.fontFamily) {
@@ -277,15 +368,15 @@ async function generateSVG(diagramCode: string, compatMode = false): Promise<SVG
  * Raw SVG 생성 - Mermaid가 생성한 SVG를 있는 그대로 사용
  * (viewBox/defs/markers를 보존하여 시퀀스/간트 다이어그램 왜곡 방지)
  */
-export const generateRawSVG = async (diagramCode: string): Promise<SVGResult> => {
-  return generateSVG(diagramCode, false);
+export const generateRawSVG = async (diagramCode: string, options: ExportRenderOptions = {}): Promise<SVGResult> => {
+  return generateSVG(diagramCode, false, options);
 };
 
 /**
  * 호환성 SVG 생성 - 스타일 인라인 + 마커/참조 보강
  */
-export const generateCompatSVG = async (diagramCode: string): Promise<SVGResult> => {
-  return generateSVG(diagramCode, true);
+export const generateCompatSVG = async (diagramCode: string, options: ExportRenderOptions = {}): Promise<SVGResult> => {
+  return generateSVG(diagramCode, true, options);
 };
 
 // ============================================================================
@@ -517,12 +608,12 @@ function loadImage(url: string): Promise<HTMLImageElement> {
 /**
  * Canvas를 Blob으로 변환
  */
-function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType = RASTER_MIME_TYPES.png, quality = PNG_QUALITY): Promise<Blob> {
   return new Promise((resolve, reject) => {
     canvas.toBlob((b) => {
-      if (!b) return reject(new Error('Failed to create PNG'));
+      if (!b) return reject(new Error(`Failed to create ${mimeType} image`));
       resolve(b);
-    }, 'image/png', PNG_QUALITY);
+    }, mimeType, quality);
   });
 }
 
@@ -539,17 +630,28 @@ function blobToDataURL(blob: Blob): Promise<string> {
 }
 
 // ============================================================================
-// SVG → PNG 변환 헬퍼 함수 (중복 제거)
+// SVG → 래스터 이미지 변환 헬퍼 함수 (중복 제거)
 // ============================================================================
 
 /**
- * SVG를 PNG Blob으로 변환
+ * SVG를 래스터 이미지 Blob으로 변환
  * @param svgString - SVG 문자열
  * @param width - SVG 너비
  * @param height - SVG 높이
  * @param scale - 스케일 배율 (기본값: devicePixelRatio 기반)
+ * @param backgroundColor - 캔버스 배경색 (null이면 투명)
+ * @param format - 이미지 형식 (기본값: png)
+ * @param quality - JPEG/WebP 품질 0~1
  */
-async function convertSVGToPNGBlob(svgString: string, width: number, height: number, scale: number | null = null): Promise<Blob> {
+async function convertSVGToImageBlob(
+  svgString: string,
+  width: number,
+  height: number,
+  scale: number | null = null,
+  backgroundColor: string | null = COLORS.WHITE,
+  format: RasterFormat = 'png',
+  quality = DEFAULT_LOSSY_QUALITY
+): Promise<Blob> {
   const exportScale = scale || Math.max(DEFAULT_EXPORT_SCALE, Math.ceil(window.devicePixelRatio || 1));
 
   // SVG → Base64 Data URL → Image (Blob URL 대신 Data URL 사용으로 tainted canvas 방지)
@@ -565,12 +667,16 @@ async function convertSVGToPNGBlob(svgString: string, width: number, height: num
   const ctx = canvas.getContext('2d');
 
   if (ctx) {
-    ctx.fillStyle = COLORS.WHITE;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (backgroundColor) {
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
     ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
   }
 
-  return canvasToBlob(canvas);
+  return format === 'png'
+    ? canvasToBlob(canvas)
+    : canvasToBlob(canvas, RASTER_MIME_TYPES[format], quality);
 }
 
 // ============================================================================
@@ -597,6 +703,155 @@ function validateElectronAPI(): void {
   }
 }
 
+// ============================================================================
+// 파일 데이터 생성 함수
+// ============================================================================
+
+/**
+ * JPEG/WebP 품질 결정 (0~1 범위로 제한)
+ */
+function resolveQuality(options: ExportRenderOptions): number {
+  const quality = options.quality;
+  return quality && quality > 0 ? Math.min(quality, 1) : DEFAULT_LOSSY_QUALITY;
+}
+
+/**
+ * 래스터 이미지(PNG/JPEG/WebP) 파일 데이터 생성
+ * JPEG는 투명도를 지원하지 않으므로 투명 배경이면 흰색으로 채움
+ */
+async function generateRasterBytes(
+  diagramCode: string,
+  format: RasterFormat,
+  options: ExportRenderOptions = {}
+): Promise<Uint8Array> {
+  const { svg: svgString, width, height } = await generateRawSVG(diagramCode, options);
+  const backgroundColor = resolveBackgroundColor(options) ?? (format === 'jpeg' ? COLORS.WHITE : null);
+  const blob = await convertSVGToImageBlob(
+    svgString, width, height, resolveExportScale(options, width), backgroundColor, format, resolveQuality(options)
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * PNG 파일 데이터 생성
+ */
+function generatePNGBytes(diagramCode: string, options: ExportRenderOptions = {}): Promise<Uint8Array> {
+  return generateRasterBytes(diagramCode, 'png', options);
+}
+
+/**
+ * PDF 파일 데이터 생성
+ * 용지 크기가 fit이면 다이어그램 크기의 한 페이지, A4/Letter면 여백 안에 비율 유지하여 가운데 배치
+ */
+async function generatePDFBytes(diagramCode: string, options: ExportRenderOptions = {}): Promise<Uint8Array> {
+  const { svg: svgString, width, height } = await generateRawSVG(diagramCode, options);
+  const blob = await convertSVGToImageBlob(
+    svgString, width, height, resolveExportScale(options, width), resolveBackgroundColor(options)
+  );
+
+  // Blob → Data URL
+  const imgData = await blobToDataURL(blob);
+
+  const orientation = !options.pdfOrientation || options.pdfOrientation === 'auto'
+    ? (width > height ? 'landscape' : 'portrait')
+    : options.pdfOrientation;
+  const pageSize = options.pdfPageSize ?? 'fit';
+
+  if (pageSize === 'fit') {
+    const pdf = new jsPDF({ orientation, unit: 'px', format: [width, height] });
+    pdf.addImage(imgData, 'PNG', 0, 0, width, height);
+    return new Uint8Array(pdf.output('arraybuffer'));
+  }
+
+  const pdf = new jsPDF({ orientation, unit: 'pt', format: pageSize });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  // 용지보다 크면 축소, 작으면 원래 크기 유지
+  const fitRatio = Math.min(
+    (pageWidth - PDF_PAGE_MARGIN * 2) / width,
+    (pageHeight - PDF_PAGE_MARGIN * 2) / height,
+    1
+  );
+  const imageWidth = width * fitRatio;
+  const imageHeight = height * fitRatio;
+
+  pdf.addImage(imgData, 'PNG', (pageWidth - imageWidth) / 2, (pageHeight - imageHeight) / 2, imageWidth, imageHeight);
+
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
+
+/**
+ * SVG 문자열에 XML 선언 추가
+ */
+function withXMLDeclaration(svgContent: string): string {
+  return svgContent.startsWith('<?xml')
+    ? svgContent
+    : `<?xml version="1.0" encoding="UTF-8"?>\n${svgContent}`;
+}
+
+/**
+ * 확대/이동을 지원하는 단일 HTML 문서 생성
+ */
+async function generateHTMLDocument(diagramCode: string, title: string, options: ExportRenderOptions = {}): Promise<string> {
+  const { svg } = await generateStyledSVG(diagramCode, options);
+  return buildInteractiveHTML(svg, title, resolveBackgroundColor(options));
+}
+
+/**
+ * 방식에 맞는 SVG 생성
+ */
+function generateStyledSVG(diagramCode: string, options: ExportRenderOptions = {}): Promise<SVGResult> {
+  if (options.svgStyle === 'clean') return generateCleanSVG(diagramCode);
+  if (options.svgStyle === 'compat') return generateCompatSVG(diagramCode, options);
+  return generateRawSVG(diagramCode, options);
+}
+
+/**
+ * 형식의 파일 확장자 (jpeg → jpg)
+ */
+export const getExportFileExtension = (format: ExportType): string => FILE_EXTENSIONS[format];
+
+/**
+ * 저장 다이얼로그 없이 내보내기 파일 데이터 생성 (일괄 내보내기, CLI용)
+ * @param diagramCode - Mermaid 다이어그램 코드
+ * @param format - 파일 형식
+ * @param options - 내보내기 옵션 (배율, 품질, 배경, 여백, 용지, 테마, SVG 방식)
+ * @param title - HTML 문서 제목
+ */
+export const generateExportFile = async (
+  diagramCode: string,
+  format: ExportType,
+  options: ExportRenderOptions = {},
+  title = 'Diagram'
+): Promise<Uint8Array> => {
+  switch (format) {
+    case 'svg': {
+      const { svg } = await generateStyledSVG(diagramCode, options);
+      return new TextEncoder().encode(withXMLDeclaration(svg));
+    }
+    case 'html':
+      return new TextEncoder().encode(await generateHTMLDocument(diagramCode, title, options));
+    case 'pdf':
+      return generatePDFBytes(diagramCode, options);
+    default:
+      return generateRasterBytes(diagramCode, format, options);
+  }
+};
+
+/**
+ * 다이어그램 PNG와 표시 크기 생성 (DOCX 등 다른 문서에 이미지로 넣을 때 사용)
+ * @param diagramCode - Mermaid 다이어그램 코드
+ * @param options - 내보내기 옵션 (배율, 배경, 테마)
+ */
+export const generatePNGImage = async (diagramCode: string, options: ExportRenderOptions = {}): Promise<PNGImage> => {
+  const { svg: svgString, width, height } = await generateRawSVG(diagramCode, options);
+  const blob = await convertSVGToImageBlob(
+    svgString, width, height, resolveExportScale(options, width), resolveBackgroundColor(options)
+  );
+  return { data: new Uint8Array(await blob.arrayBuffer()), width, height };
+};
+
 // ============================================================================
 // 내보내기 함수
 // ============================================================================
@@ -608,7 +863,8 @@ export const exportToPNG = async (
   _diagramElement: HTMLElement | null,
   fileName: string,
   diagramCode: string,
-  showToast?: ShowToastFn
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
 ): Promise<void> => {
   try {
     validateElectronAPI();
@@ -619,10 +875,7 @@ export const exportToPNG = async (
       throw new Error(result.error || 'Export dialog failed');
     }
 
-    const { svg: svgString, width, height } = await generateRawSVG(diagramCode);
-    const blob = await convertSVGToPNGBlob(svgString, width, height);
-    const buffer = await blob.arrayBuffer();
-    const uint8Array = new Uint8Array(buffer);
+    const uint8Array = await generatePNGBytes(diagramCode, options);
 
     const saveResult = await window.electronAPI.saveExportedFile(result.filePath!, uint8Array);
     if (!saveResult.success) {
@@ -642,7 +895,8 @@ export const exportToPDF = async (
   _diagramElement: HTMLElement | null,
   fileName: string,
   diagramCode: string,
-  showToast?: ShowToastFn
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
 ): Promise<void> => {
   try {
     validateElectronAPI();
@@ -653,23 +907,7 @@ export const exportToPDF = async (
       throw new Error(result.error || 'Export dialog failed');
     }
 
-    const { svg: svgString, width, height } = await generateRawSVG(diagramCode);
-    const blob = await convertSVGToPNGBlob(svgString, width, height);
-
-    // Blob → Data URL
-    const imgData = await blobToDataURL(blob);
-
-    // jsPDF로 PDF 생성
-    const pdf = new jsPDF({
-      orientation: width > height ? 'landscape' : 'portrait',
-      unit: 'px',
-      format: [width, height]
-    });
-
-    pdf.addImage(imgData, 'PNG', 0, 0, width, height);
-
-    const pdfBuffer = pdf.output('arraybuffer');
-    const uint8Array = new Uint8Array(pdfBuffer);
+    const uint8Array = await generatePDFBytes(diagramCode, options);
 
     const saveResult = await window.electronAPI.saveExportedFile(result.filePath!, uint8Array);
     if (!saveResult.success) {
@@ -682,6 +920,91 @@ export const exportToPDF = async (
   }
 };
 
+/**
+ * JPEG/WebP로 내보내기
+ */
+async function exportToLossyImage(
+  fileName: string,
+  diagramCode: string,
+  format: 'jpeg' | 'webp',
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
+): Promise<void> {
+  const label = format.toUpperCase();
+  const result = await window.electronAPI.exportDiagram('', format, `${fileName}.${FILE_EXTENSIONS[format]}`);
+  if (result.canceled) return;
+  if (!result.success) {
+    throw new Error(result.error || 'Export dialog failed');
+  }
+
+  const uint8Array = await generateRasterBytes(diagramCode, format, options);
+
+  const saveResult = await window.electronAPI.saveExportedFile(result.filePath!, uint8Array);
+  if (!saveResult.success) {
+    throw new Error(saveResult.error || `Failed to save ${label} file`);
+  }
+
+  if (showToast) showToast(`${label} exported successfully!`);
+}
+
+/**
+ * 확대/이동 가능한 단일 HTML로 내보내기
+ */
+async function exportToHTML(
+  fileName: string,
+  diagramCode: string,
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
+): Promise<void> {
+  const html = await generateHTMLDocument(diagramCode, fileName, options);
+
+  const result = await window.electronAPI.exportDiagram(html, 'html', `${fileName}.html`);
+  if (result.canceled) return;
+  if (!result.success) {
+    throw new Error(result.error || 'Export failed');
+  }
+
+  if (showToast) showToast('HTML exported successfully!');
+}
+
+/**
+ * Markdown 스니펫 내보내기
+ * 소스 파일 옆에 이미지를 저장하고 ![alt](path) 참조를 클립보드에 복사
+ * 같은 이름의 파일이 있으면 덮어쓰지 않고 번호를 붙인 이름으로 저장 (예: diagram-1.png)
+ */
+async function exportMarkdownSnippet(
+  currentFilePath: string | null,
+  fileName: string,
+  diagramCode: string,
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
+): Promise<void> {
+  if (!currentFilePath) {
+    throw new Error('Save the file first to export a Markdown snippet');
+  }
+
+  const format = options.snippetFormat ?? 'png';
+  const sourceDirectory = currentFilePath.replace(/[^/\\]+$/, '');
+
+  const data = await generateExportFile(diagramCode, format, options);
+
+  const pathResult = await window.electronAPI.getAvailableFilePath(`${sourceDirectory}${fileName}.${FILE_EXTENSIONS[format]}`);
+  if (!pathResult.success || !pathResult.filePath) {
+    throw new Error(pathResult.error || 'Failed to check image file name');
+  }
+  const imagePath = pathResult.filePath;
+  const imageName = imagePath.slice(sourceDirectory.length);
+
+  const saveResult = await window.electronAPI.saveExportedFile(imagePath, data);
+  if (!saveResult.success) {
+    throw new Error(saveResult.error || 'Failed to save image file');
+  }
+
+  await navigator.clipboard.writeText(`![${fileName}](${encodeURI(imageName)})`);
+
+  if (showToast) showToast(`Saved ${imageName} and copied Markdown reference`);
+}
+
 /**
  * 클립보드에 이미지 복사
  */
@@ -692,7 +1015,7 @@ export const copyToClipboard = async (diagramCode: string, showToast?: ShowToast
     }
 
     const { svg: svgString, width, height } = await generateRawSVG(diagramCode);
-    const blob = await convertSVGToPNGBlob(svgString, width, height);
+    const blob = await convertSVGToImageBlob(svgString, width, height);
 
     await navigator.clipboard.write([
       new ClipboardItem({ 'image/png': blob })
@@ -708,9 +1031,7 @@ export const copyToClipboard = async (diagramCode: string, showToast?: ShowToast
  * SVG를 파일로 내보내기 (공통 로직)
  */
 async function exportSVGToFile(svgContent: string, fileName: string, formatType: string, showToast?: ShowToastFn): Promise<void> {
-  const finalSVG = svgContent.startsWith('<?xml')
-    ? svgContent
-    : `<?xml version="1.0" encoding="UTF-8"?>\n${svgContent}`;
+  const finalSVG = withXMLDeclaration(svgContent);
 
   const result = await window.electronAPI.exportDiagram(finalSVG, 'svg', `${fileName}.svg`);
 
@@ -724,13 +1045,15 @@ async function exportSVGToFile(svgContent: string, fileName: string, formatType:
 
 /**
  * 다이어그램 내보내기 메인 함수
+ * @param options - 내보내기 옵션 (지정하지 않으면 기본값: 흰 배경, 다이어그램 크기 PDF)
  */
 export const exportDiagram = async (
   diagramCode: string,
   currentFilePath: string | null,
   format: ExportFormat,
   diagramElement: HTMLElement | null,
-  showToast?: ShowToastFn
+  showToast?: ShowToastFn,
+  options: ExportRenderOptions = {}
 ): Promise<void> => {
   try {
     if (!diagramCode?.trim()) {
@@ -744,15 +1067,21 @@ export const exportDiagram = async (
       : 'diagram';
 
     if (format === 'svg') {
-      const { svg: rawSVG } = await generateRawSVG(diagramCode);
+      const { svg: rawSVG } = await generateRawSVG(diagramCode, options);
       await exportSVGToFile(rawSVG, fileName, 'SVG', showToast);
     } else if (format === 'svg-compat') {
-      const { svg: compatSVG } = await generateCompatSVG(diagramCode);
+      const { svg: compatSVG } = await generateCompatSVG(diagramCode, options);
       await exportSVGToFile(compatSVG, fileName, 'SVG (compat)', showToast);
     } else if (format === 'png') {
-      await exportToPNG(diagramElement, fileName, diagramCode, showToast);
+      await exportToPNG(diagramElement, fileName, diagramCode, showToast, options);
     } else if (format === 'pdf') {
-      await exportToPDF(diagramElement, fileName, diagramCode, showToast);
+      await exportToPDF(diagramElement, fileName, diagramCode, showToast, options);
+    } else if (format === 'jpeg' || format === 'webp') {
+      await exportToLossyImage(fileName, diagramCode, format, showToast, options);
+    } else if (format === 'html') {
+      await exportToHTML(fileName, diagramCode, showToast, options);
+    } else if (format === 'markdown') {
+      await exportMarkdownSnippet(currentFilePath, fileName, diagramCode, showToast, options);
     } else {
       throw new Error(`Unsupported export format: ${format}`);
     }
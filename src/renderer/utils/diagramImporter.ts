@@ -0,0 +1,75 @@
+/**
+ * 다이어그램 가져오기
+ * - 확장자로 형식(draw.io / PlantUML / Graphviz DOT)을 판별해 Mermaid로 변환
+ * - 변환 결과 맨 위에 원본 파일 이름과 변환하지 못한 항목을 주석으로 남김
+ */
+
+import { convertDotToMermaid } from './dotImporter';
+import { convertDrawioToMermaid } from './drawioImporter';
+import { convertPlantUmlToMermaid } from './plantUmlImporter';
+import type { DiagramImportFormat, DiagramImportResult, ImportedDiagramFile } from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const FORMAT_EXTENSIONS: Record<DiagramImportFormat, string[]> = {
+  drawio: ['drawio', 'xml'],
+  plantuml: ['puml', 'plantuml', 'pu', 'iuml'],
+  dot: ['dot', 'gv']
+};
+
+// ============================================================================
+// 형식 판별
+// ============================================================================
+
+/**
+ * 파일 확장자로 가져오기 형식 판별 (지원하지 않으면 null)
+ */
+export function getImportFormat(filePath: string): DiagramImportFormat | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() || '';
+  const entry = (Object.entries(FORMAT_EXTENSIONS) as [DiagramImportFormat, string[]][])
+    .find(([, extensions]) => extensions.includes(ext));
+  return entry ? entry[0] : null;
+}
+
+// ============================================================================
+// 변환
+// ============================================================================
+
+/**
+ * 다이어그램 선언 줄(front-matter 다음 첫 줄) 바로 아래에 주석 삽입
+ */
+function insertHeaderComments(code: string, comments: string[]): string {
+  const lines = code.split('\n');
+  let declaration = 0;
+  if (lines[0]?.trim() === '---') {
+    const closing = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    declaration = closing + 1;
+  }
+  lines.splice(declaration + 1, 0, ...comments.map(comment => `  %% ${comment}`));
+  return lines.join('\n');
+}
+
+/**
+ * 가져온 파일을 Mermaid 코드로 변환
+ * 변환하지 못한 항목은 warnings와 코드 주석 양쪽에 남김
+ */
+export async function importDiagram(file: ImportedDiagramFile): Promise<DiagramImportResult> {
+  const format = getImportFormat(file.filePath);
+  if (!format) {
+    throw new Error('Unsupported file type (supported: .drawio, .puml, .dot)');
+  }
+
+  const result = format === 'drawio'
+    ? await convertDrawioToMermaid(file.content)
+    : format === 'plantuml' ? convertPlantUmlToMermaid(file.content) : convertDotToMermaid(file.content);
+
+  const fileName = file.filePath.split(/[\\/]/).pop() ?? file.filePath;
+  const comments = [
+    `Imported from ${fileName}`,
+    ...result.warnings.map(warning => `Import warning: ${warning.replace(/\r?\n/g, ' ')}`)
+  ];
+
+  return { code: insertHeaderComments(result.code, comments), warnings: result.warnings };
+}
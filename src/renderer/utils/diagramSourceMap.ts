@@ -0,0 +1,312 @@
+/**
+ * 다이어그램 소스 맵 유틸리티
+ * 렌더링된 Mermaid SVG 요소(노드, 엣지, 참여자, 서브그래프 등)에
+ * 정의된 원본 줄 번호를 data 속성으로 기록하여 미리보기 ↔ 에디터 이동에 사용
+ */
+
+import { detectDiagramKind, findDeclarationLine } from './mermaidLanguage';
+import type { MermaidDiagramKind } from '../constants/mermaidSyntax';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+// 클릭 시 이동할 줄 (정의 줄, 1-based)
+export const SOURCE_LINE_ATTR = 'data-source-line';
+// 커서 위치 강조에 사용할 참조 줄 목록 (공백 구분)
+export const SOURCE_LINES_ATTR = 'data-source-lines';
+
+const FRONT_MATTER_DELIMITER = /^-{3}\s*$/;
+const COMMENT_OR_DIRECTIVE = /^\s*%%/;
+// flowchart 라벨/모양 텍스트 (식별자 검색에서 제외)
+const FLOWCHART_LABELS = /"[^"]*"|\|[^|]*\||\[[^\]]*\]|\([^)]*\)|\{[^}]*\}/g;
+const QUOTED_TEXT = /"[^"]*"/g;
+// sequence 메시지: "A->>B: text"
+const SEQUENCE_MESSAGE = /^\s*[^:%\s][^:]*?(?:<<)?-{1,2}(?:>>|>|x|\)|\|\\|\|\/)\s*[+-]?[^:]+:/;
+const SEQUENCE_NOTE = /^\s*note\s/i;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+// 검색 대상 소스 줄
+interface SourceLine {
+  lineNumber: number;  // 1-based
+  raw: string;
+  text: string;        // 라벨/설명을 제거한 식별자 검색용 텍스트
+}
+
+interface SourceLocation {
+  line: number;
+  lines: number[];
+}
+
+// ============================================================================
+// 소스 분석
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function tokenPattern(identifier: string): RegExp {
+  return new RegExp(`(?<![\\w])${escapeRegExp(identifier)}(?![\\w])`);
+}
+
+/**
+ * 식별자 검색용 텍스트 생성 (라벨에 포함된 같은 단어가 매칭되지 않도록 제거)
+ */
+function stripLabels(line: string, kind: MermaidDiagramKind | null): string {
+  if (kind === 'flowchart') {
+    return line.replace(FLOWCHART_LABELS, ' ');
+  }
+  const withoutQuotes = line.replace(QUOTED_TEXT, ' ');
+  const colonIndex = withoutQuotes.indexOf(':');
+  return colonIndex === -1 ? withoutQuotes : withoutQuotes.slice(0, colonIndex);
+}
+
+/**
+ * 다이어그램 본문 줄 목록 (front-matter, 주석, 지시자 제외)
+ */
+function collectSourceLines(code: string, kind: MermaidDiagramKind | null): SourceLine[] {
+  const lines = code.split('\n');
+  const declarationLine = findDeclarationLine(lines);
+  if (declarationLine === -1) return [];
+
+  const result: SourceLine[] = [];
+  for (let index = declarationLine + 1; index < lines.length; index++) {
+    const raw = lines[index];
+    if (!raw.trim() || COMMENT_OR_DIRECTIVE.test(raw) || FRONT_MATTER_DELIMITER.test(raw)) continue;
+    result.push({ lineNumber: index + 1, raw, text: stripLabels(raw, kind) });
+  }
+  return result;
+}
+
+/**
+ * 식별자의 정의 줄과 참조 줄 목록 찾기
+ * @param definitionPattern - 정의 줄로 우선할 패턴 (없으면 첫 참조 줄)
+ */
+function locateIdentifier(
+  sourceLines: SourceLine[],
+  identifier: string,
+  definitionPattern?: RegExp
+): SourceLocation | null {
+  const pattern = tokenPattern(identifier);
+  const lines = sourceLines.filter(line => pattern.test(line.text)).map(line => line.lineNumber);
+  const definition = definitionPattern
+    ? sourceLines.find(line => definitionPattern.test(line.raw))?.lineNumber
+    : undefined;
+
+  if (definition !== undefined && !lines.includes(definition)) {
+    lines.unshift(definition);
+  }
+  if (lines.length === 0) return null;
+  return { line: definition ?? lines[0], lines };
+}
+
+// ============================================================================
+// SVG 주석 처리
+// ============================================================================
+
+function annotate(element: Element | null, location: SourceLocation | null): void {
+  if (!element || !location) return;
+  element.setAttribute(SOURCE_LINE_ATTR, String(location.line));
+  element.setAttribute(SOURCE_LINES_ATTR, location.lines.join(' '));
+}
+
+/**
+ * id 속성에서 식별자 추출 (예: "flowchart-A-3" → "A")
+ */
+function identifierFromId(id: string, prefix: string): string | null {
+  const match = new RegExp(`^${escapeRegExp(prefix)}(.+)-\\d+$`).exec(id);
+  return match ? match[1] : null;
+}
+
+/**
+ * 순서대로 그려진 요소(메시지, 노트)를 같은 순서의 소스 줄에 대응
+ */
+function annotateInOrder(elements: Element[], lineNumbers: number[]): void {
+  elements.forEach((element, index) => {
+    const lineNumber = lineNumbers[index];
+    if (lineNumber !== undefined) {
+      annotate(element, { line: lineNumber, lines: [lineNumber] });
+    }
+  });
+}
+
+function annotateFlowchart(svg: SVGSVGElement, sourceLines: SourceLine[]): void {
+  const nodeIds = new Set<string>();
+
+  svg.querySelectorAll('g.node[id]').forEach(node => {
+    const nodeId = identifierFromId(node.id, 'flowchart-');
+    if (!nodeId) return;
+    nodeIds.add(nodeId);
+    const definition = new RegExp(`(?<![\\w])${escapeRegExp(nodeId)}(?:\\[|\\(|\\{|>|@\\{)`);
+    annotate(node, locateIdentifier(sourceLines, nodeId, definition));
+  });
+
+  svg.querySelectorAll('g.cluster[id]').forEach(cluster => {
+    const definition = new RegExp(`^\\s*subgraph\\s+${escapeRegExp(cluster.id)}(?![\\w])`);
+    annotate(cluster, locateIdentifier(sourceLines, cluster.id, definition));
+  });
+
+  // 엣지 ID: L_<start>_<end>_<같은 노드 쌍 내 순번>
+  const edgeLocations = new Map<string, SourceLocation | null>();
+  const locateEdge = (edgeId: string): SourceLocation | null => {
+    if (edgeLocations.has(edgeId)) return edgeLocations.get(edgeId) ?? null;
+
+    let location: SourceLocation | null = null;
+    const match = /^L_(.+)_(\d+)$/.exec(edgeId);
+    if (match) {
+      const [, pair, counter] = match;
+      // 노드 ID에 '_'가 포함될 수 있으므로 양쪽이 모두 실제 노드인 분할 지점을 찾음
+      for (let index = pair.indexOf('_'); index !== -1; index = pair.indexOf('_', index + 1)) {
+        const start = pair.slice(0, index);
+        const end = pair.slice(index + 1);
+        if (!nodeIds.has(start) || !nodeIds.has(end)) continue;
+
+        const startPattern = tokenPattern(start);
+        const endPattern = tokenPattern(end);
+        const candidates = sourceLines.filter(line => (
+          startPattern.test(line.text) && endPattern.test(line.text) && /[-=.~]{2}/.test(line.text)
+        ));
+        const candidate = candidates[Number(counter)] ?? candidates[0];
+        if (candidate) {
+          location = { line: candidate.lineNumber, lines: [candidate.lineNumber] };
+        }
+        break;
+      }
+    }
+
+    edgeLocations.set(edgeId, location);
+    return location;
+  };
+
+  svg.querySelectorAll('path[data-id^="L_"]').forEach(path => {
+    annotate(path, locateEdge(path.getAttribute('data-id') ?? ''));
+  });
+  svg.querySelectorAll('.edgeLabel [data-id^="L_"]').forEach(label => {
+    annotate(label.closest('.edgeLabel'), locateEdge(label.getAttribute('data-id') ?? ''));
+  });
+}
+
+function annotateSequence(svg: SVGSVGElement, sourceLines: SourceLine[]): void {
+  // 참여자 상자/생명선: name 속성 = 참여자 이름
+  svg.querySelectorAll('[name]').forEach(element => {
+    const name = element.getAttribute('name');
+    if (!name) return;
+    const definition = new RegExp(`^\\s*(?:create\\s+)?(?:participant|actor)\\s+${escapeRegExp(name)}(?![\\w])`);
+    const location = locateIdentifier(sourceLines, name, definition);
+    annotate(element, location);
+
+    // 상자와 이름 텍스트를 묶는 그룹도 클릭 대상으로 지정
+    const parent = element.parentElement;
+    if (parent && parent.tagName.toLowerCase() === 'g' && parent.querySelectorAll('[name]').length === 1) {
+      annotate(parent, location);
+    }
+  });
+
+  const messageLines = sourceLines
+    .filter(line => SEQUENCE_MESSAGE.test(line.raw) && !SEQUENCE_NOTE.test(line.raw))
+    .map(line => line.lineNumber);
+  annotateInOrder(Array.from(svg.querySelectorAll('.messageText')), messageLines);
+  annotateInOrder(Array.from(svg.querySelectorAll('.messageLine0, .messageLine1')), messageLines);
+
+  const noteLines = sourceLines.filter(line => SEQUENCE_NOTE.test(line.raw)).map(line => line.lineNumber);
+  annotateInOrder(Array.from(svg.querySelectorAll('rect.note')).map(rect => rect.parentElement ?? rect), noteLines);
+}
+
+function annotateNodesById(
+  svg: SVGSVGElement,
+  sourceLines: SourceLine[],
+  selector: string,
+  prefix: string,
+  definitionFor: (identifier: string) => RegExp
+): void {
+  svg.querySelectorAll(selector).forEach(element => {
+    let identifier = identifierFromId(element.id, prefix);
+    if (!identifier) return;
+
+    let location = locateIdentifier(sourceLines, identifier, definitionFor(identifier));
+    // state 다이어그램은 "state-<id>-<type>-<n>" 형태도 있으므로 접미사 제거 후 재시도
+    if (!location && identifier.includes('-')) {
+      identifier = identifier.slice(0, identifier.lastIndexOf('-'));
+      location = locateIdentifier(sourceLines, identifier, definitionFor(identifier));
+    }
+    annotate(element, location);
+  });
+}
+
+/**
+ * 전용 규칙이 없는 요소: 표시 텍스트가 포함된 첫 소스 줄로 대응
+ */
+function annotateByText(svg: SVGSVGElement, sourceLines: SourceLine[]): void {
+  svg.querySelectorAll('text, foreignObject').forEach(element => {
+    if (element.closest(`[${SOURCE_LINE_ATTR}]`)) return;
+
+    const label = element.textContent?.trim() ?? '';
+    if (label.length < 2 || !/\p{L}/u.test(label)) return;
+
+    const line = sourceLines.find(sourceLine => sourceLine.raw.includes(label));
+    if (line) {
+      annotate(element, { line: line.lineNumber, lines: [line.lineNumber] });
+    }
+  });
+}
+
+/**
+ * 렌더링된 SVG에 원본 줄 번호 기록
+ * @param svg - mermaid.render 결과 SVG 요소
+ * @param code - 렌더링에 사용한 Mermaid 코드
+ */
+export function annotateDiagramSource(svg: SVGSVGElement, code: string): void {
+  const kind = detectDiagramKind(code);
+  const sourceLines = collectSourceLines(code, kind);
+  if (sourceLines.length === 0) return;
+
+  switch (kind) {
+    case 'flowchart':
+      annotateFlowchart(svg, sourceLines);
+      break;
+    case 'sequence':
+      annotateSequence(svg, sourceLines);
+      break;
+    case 'class':
+      annotateNodesById(svg, sourceLines, 'g.node[id]', 'classId-',
+        id => new RegExp(`^\\s*class\\s+${escapeRegExp(id)}(?![\\w])`));
+      break;
+    case 'state':
+      annotateNodesById(svg, sourceLines, 'g.node[id]', 'state-',
+        id => new RegExp(`^\\s*state\\s+(?:"[^"]*"\\s+as\\s+)?${escapeRegExp(id)}(?![\\w])`));
+      break;
+    case 'er':
+      annotateNodesById(svg, sourceLines, 'g[id^="entity-"]', 'entity-',
+        id => new RegExp(`^\\s*${escapeRegExp(id)}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`));
+      break;
+    default:
+      break;
+  }
+
+  annotateByText(svg, sourceLines);
+}
+
+// ============================================================================
+// 조회
+// ============================================================================
+
+/**
+ * 클릭된 요소에 대응하는 원본 줄 번호 (없으면 null)
+ */
+export function getSourceLine(target: Element): number | null {
+  const element = target.closest(`[${SOURCE_LINE_ATTR}]`);
+  if (!element) return null;
+  const line = Number(element.getAttribute(SOURCE_LINE_ATTR));
+  return Number.isFinite(line) && line > 0 ? line : null;
+}
+
+/**
+ * 주어진 줄을 참조하는 SVG 요소 목록
+ */
+export function findSourceElements(container: Element, lineNumber: number): Element[] {
+  return Array.from(container.querySelectorAll(`[${SOURCE_LINES_ATTR}~="${lineNumber}"]`));
+}
@@ -0,0 +1,551 @@
+/**
+ * Graphviz DOT → Mermaid flowchart 변환
+ * - 노드(모양, 레이블, 색상), 연결선(방향, 점선/굵은 선, 레이블), cluster 서브그래프, rankdir
+ * - 레코드/HTML 레이블은 텍스트만 유지하고, 포트와 레이아웃 속성은 변환하지 않음 (경고로 보고)
+ */
+
+import {
+  createIdAllocator,
+  createWarningCollector,
+  formatFlowchartEdge,
+  formatFlowchartNode,
+  formatNodeStyle,
+  quoteLabel
+} from './mermaidSourceWriter';
+import type { FlowchartEdge, FlowchartShape, WarningCollector } from './mermaidSourceWriter';
+import type { DiagramImportResult } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+type TokenType = 'id' | 'string' | 'html' | 'punct' | 'edgeop';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+}
+
+type Attributes = Record<string, string>;
+
+interface DotCluster {
+  key: string;
+  attrs: Attributes;
+  nodes: string[];
+  clusters: DotCluster[];
+}
+
+interface DotNode {
+  key: string;
+  attrs: Attributes;
+  cluster: DotCluster;
+}
+
+interface DotEdge {
+  from: string;
+  to: string;
+  attrs: Attributes;
+  line: number;
+}
+
+// 문장 범위: 기본 속성은 중괄호 안에서만 유지
+interface Scope {
+  nodeDefaults: Attributes;
+  edgeDefaults: Attributes;
+  cluster: DotCluster;
+}
+
+interface DotGraph {
+  directed: boolean;
+  name: string;
+  attrs: Attributes;
+  root: DotCluster;
+  nodes: Map<string, DotNode>;
+  edges: DotEdge[];
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const SHAPES: Record<string, FlowchartShape> = {
+  box: 'rect',
+  rect: 'rect',
+  rectangle: 'rect',
+  square: 'rect',
+  plaintext: 'rect',
+  plain: 'rect',
+  none: 'rect',
+  note: 'rect',
+  tab: 'rect',
+  folder: 'rect',
+  component: 'subroutine',
+  box3d: 'subroutine',
+  ellipse: 'stadium',
+  oval: 'stadium',
+  egg: 'stadium',
+  circle: 'circle',
+  point: 'circle',
+  doublecircle: 'double-circle',
+  Mcircle: 'circle',
+  diamond: 'diamond',
+  Mdiamond: 'diamond',
+  hexagon: 'hexagon',
+  octagon: 'hexagon',
+  parallelogram: 'parallelogram',
+  trapezium: 'trapezoid',
+  invtrapezium: 'trapezoid-alt',
+  cylinder: 'cylinder',
+  record: 'rect',
+  Mrecord: 'round'
+};
+
+const DIRECTIONS: Record<string, string> = { TB: 'TB', LR: 'LR', BT: 'BT', RL: 'RL' };
+
+// 변환에 사용하는 속성 (나머지는 변환하지 않은 속성으로 보고)
+const NODE_ATTRIBUTES = new Set(['label', 'shape', 'style', 'fillcolor', 'color', 'fontcolor']);
+const EDGE_ATTRIBUTES = new Set(['label', 'xlabel', 'style', 'dir', 'arrowhead', 'arrowtail', 'penwidth']);
+const GRAPH_ATTRIBUTES = new Set(['label', 'rankdir']);
+
+const ID_START = /[A-Za-z_\u0080-\uffff]/;
+const ID_CHAR = /[\w\u0080-\uffff]/;
+const NUMERAL = /^-?(?:\.\d+|\d+(?:\.\d*)?)/;
+
+// ============================================================================
+// 토큰화
+// ============================================================================
+
+class DotSyntaxError extends Error {
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'DotSyntaxError';
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#' && (i === 0 || source[i - 1] === '\n')) {
+      // 전처리기 출력 줄
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      line += (source.slice(i, stop).match(/\n/g) || []).length;
+      i = stop;
+    } else if (source.startsWith('->', i) || source.startsWith('--', i)) {
+      tokens.push({ type: 'edgeop', value: source.slice(i, i + 2), line });
+      i += 2;
+    } else if ('{}[];,=:'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, line });
+      i++;
+    } else if (char === '"') {
+      const startLine = line;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && source[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (source[i] === '\\' && source[i + 1] === '\n') {
+          // 줄 잇기
+          line++;
+          i += 2;
+        } else {
+          if (source[i] === '\n') line++;
+          value += source[i];
+          i++;
+        }
+      }
+      i++;
+      // "a" + "b" 이어 붙이기
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'punct' && previous.value === '+' && tokens[tokens.length - 2]?.type === 'string') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ type: 'string', value, line: startLine });
+      }
+    } else if (char === '+') {
+      tokens.push({ type: 'punct', value: '+', line });
+      i++;
+    } else if (char === '<') {
+      const startLine = line;
+      let depth = 0;
+      let value = '';
+      do {
+        if (source[i] === '<') depth++;
+        if (source[i] === '>') depth--;
+        if (source[i] === '\n') line++;
+        value += source[i];
+        i++;
+      } while (i < source.length && depth > 0);
+      tokens.push({ type: 'html', value: value.slice(1, -1), line: startLine });
+    } else if (ID_START.test(char)) {
+      let value = '';
+      while (i < source.length && ID_CHAR.test(source[i])) {
+        value += source[i];
+        i++;
+      }
+      tokens.push({ type: 'id', value, line });
+    } else {
+      const numeral = NUMERAL.exec(source.slice(i));
+      if (!numeral) {
+        throw new DotSyntaxError(`Unexpected character "${char}"`, line);
+      }
+      tokens.push({ type: 'id', value: numeral[0], line });
+      i += numeral[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// 파싱
+// ============================================================================
+
+/**
+ * DOT 문법 재귀 하향 파서
+ * 노드는 처음 나온 cluster에 속하며, 최상위에서 먼저 나온 노드가 나중에 cluster에 나오면 그 cluster로 이동
+ */
+function parseDot(source: string, warnings: WarningCollector): DotGraph {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[position + offset];
+  const next = (): Token => {
+    const token = tokens[position++];
+    if (!token) throw new DotSyntaxError('Unexpected end of file', tokens[tokens.length - 1]?.line ?? 1);
+    return token;
+  };
+  const isPunct = (value: string, offset = 0): boolean => peek(offset)?.type === 'punct' && peek(offset)?.value === value;
+  const expectPunct = (value: string): void => {
+    const token = next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new DotSyntaxError(`Expected "${value}" but found "${token.value}"`, token.line);
+    }
+  };
+  const isIdToken = (token: Token | undefined): boolean => token !== undefined && ['id', 'string', 'html'].includes(token.type);
+  const isKeyword = (keyword: string, offset = 0): boolean => peek(offset)?.type === 'id' && peek(offset)?.value.toLowerCase() === keyword;
+
+  if (isKeyword('strict')) next();
+  if (!isKeyword('graph') && !isKeyword('digraph')) {
+    throw new DotSyntaxError('Expected "graph" or "digraph"', peek()?.line ?? 1);
+  }
+  const directed = next().value.toLowerCase() === 'digraph';
+  const name = isIdToken(peek()) ? next().value : '';
+
+  const root: DotCluster = { key: '', attrs: {}, nodes: [], clusters: [] };
+  const graph: DotGraph = { directed, name, attrs: root.attrs, root, nodes: new Map(), edges: [] };
+  let anonymousCount = 0;
+
+  const parseAttributeList = (): Attributes => {
+    const attrs: Attributes = {};
+    while (isPunct('[')) {
+      next();
+      while (!isPunct(']')) {
+        const key = next();
+        if (isPunct('=')) {
+          next();
+          const value = next();
+          attrs[key.value] = value.type === 'html' ? `<${value.value}>` : value.value;
+        } else {
+          attrs[key.value] = 'true';
+        }
+        if (isPunct(',') || isPunct(';')) next();
+      }
+      expectPunct(']');
+    }
+    return attrs;
+  };
+
+  const declareNode = (key: string, attrs: Attributes, scope: Scope): void => {
+    const existing = graph.nodes.get(key);
+    if (!existing) {
+      graph.nodes.set(key, { key, attrs: { ...scope.nodeDefaults, ...attrs }, cluster: scope.cluster });
+      scope.cluster.nodes.push(key);
+      return;
+    }
+    Object.assign(existing.attrs, attrs);
+    if (existing.cluster === root && scope.cluster !== root) {
+      root.nodes.splice(root.nodes.indexOf(key), 1);
+      scope.cluster.nodes.push(key);
+      existing.cluster = scope.cluster;
+    }
+  };
+
+  // 노드 ID (포트는 제외)
+  const parseNodeId = (): string => {
+    const token = next();
+    if (isPunct(':')) {
+      next();
+      next();
+      if (isPunct(':')) {
+        next();
+        next();
+      }
+      warnings.warnOnce('port', 'Record/HTML ports are not supported; edges connect to the whole node');
+    }
+    return token.value;
+  };
+
+  // 서브그래프 (안에서 언급된 노드 목록 반환, 연결선 피연산자로 사용)
+  const parseSubgraph = (scope: Scope): string[] => {
+    let key = '';
+    if (isKeyword('subgraph')) {
+      next();
+      if (isIdToken(peek())) key = next().value;
+    }
+    if (!key) key = `__anonymous_${++anonymousCount}`;
+
+    // cluster 이름의 서브그래프만 상자로 표시 (나머지는 rank=same 같은 묶음)
+    const isCluster = key.startsWith('cluster');
+    const cluster: DotCluster = isCluster ? { key, attrs: {}, nodes: [], clusters: [] } : scope.cluster;
+    if (isCluster) scope.cluster.clusters.push(cluster);
+
+    const inner: Scope = { nodeDefaults: { ...scope.nodeDefaults }, edgeDefaults: { ...scope.edgeDefaults }, cluster };
+    const groupAttrs: Attributes = {};
+    const mentioned: string[] = [];
+    expectPunct('{');
+    parseStatements(inner, isCluster ? cluster.attrs : groupAttrs, mentioned);
+    expectPunct('}');
+
+    if (groupAttrs.rank) {
+      warnings.warnOnce('rank', 'Rank constraints (rank=same, ...) are not supported and were ignored');
+    }
+    return [...new Set(mentioned)];
+  };
+
+  // 연결선 피연산자 (노드 하나 또는 서브그래프의 모든 노드)
+  const parseOperand = (scope: Scope, mentioned: string[]): string[] => {
+    if (isKeyword('subgraph') || isPunct('{')) {
+      const nodes = parseSubgraph(scope);
+      mentioned.push(...nodes);
+      return nodes;
+    }
+    const key = parseNodeId();
+    declareNode(key, {}, scope);
+    mentioned.push(key);
+    return [key];
+  };
+
+  const parseStatements = (scope: Scope, graphAttrs: Attributes, mentioned: string[]): void => {
+    while (peek() && !isPunct('}')) {
+      if (isPunct(';')) {
+        next();
+        continue;
+      }
+
+      const token = peek()!;
+      if (isIdToken(token) && isPunct('=', 1)) {
+        next();
+        next();
+        graphAttrs[token.value] = next().value;
+      } else if (isKeyword('graph') && isPunct('[', 1)) {
+        next();
+        Object.assign(graphAttrs, parseAttributeList());
+      } else if (isKeyword('node') && isPunct('[', 1)) {
+        next();
+        Object.assign(scope.nodeDefaults, parseAttributeList());
+      } else if (isKeyword('edge') && isPunct('[', 1)) {
+        next();
+        Object.assign(scope.edgeDefaults, parseAttributeList());
+      } else if (isIdToken(token)) {
+        const isNodeStatement = !isKeyword('subgraph') && peek(1)?.type !== 'edgeop' && !isPunct(':', 1);
+        const operands = [parseOperand(scope, mentioned)];
+        if (isNodeStatement) {
+          declareNode(operands[0][0], parseAttributeList(), scope);
+          continue;
+        }
+        // 연결선 문장 (a -> b -> c, a -> { b c }) 또는 단독 서브그래프
+        while (peek()?.type === 'edgeop') {
+          next();
+          operands.push(parseOperand(scope, mentioned));
+        }
+        const attrs = { ...scope.edgeDefaults, ...parseAttributeList() };
+        for (let i = 1; i < operands.length; i++) {
+          operands[i - 1].forEach(from => operands[i].forEach(to => {
+            graph.edges.push({ from, to, attrs, line: token.line });
+          }));
+        }
+      } else if (isPunct('{')) {
+        parseOperand(scope, mentioned);
+      } else {
+        throw new DotSyntaxError(`Unexpected "${token.value}"`, token.line);
+      }
+    }
+  };
+
+  expectPunct('{');
+  parseStatements({ nodeDefaults: {}, edgeDefaults: {}, cluster: root }, root.attrs, []);
+  expectPunct('}');
+
+  if (position < tokens.length) {
+    warnings.warn('Only the first graph in the file was imported');
+  }
+
+  return graph;
+}
+
+// ============================================================================
+// 레이블
+// ============================================================================
+
+/**
+ * DOT 레이블 → 텍스트
+ * \n \l \r 은 줄바꿈, \N 은 노드 이름, \G 는 그래프 이름
+ * HTML 레이블은 태그를 제거하고, 레코드 레이블은 필드를 줄로 나눔
+ */
+function resolveLabel(label: string | undefined, fallback: string, graphName: string, shape: string | undefined, warnings: WarningCollector): string {
+  if (label === undefined) return fallback;
+
+  if (label.startsWith('<') && label.endsWith('>')) {
+    warnings.warnOnce('html-label', 'HTML-like labels were converted to plain text');
+    return label
+      .slice(1, -1)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
+  let text = label
+    .replace(/\\[nlr]/g, '\n')
+    .replace(/\\N/g, fallback)
+    .replace(/\\G/g, graphName)
+    .replace(/\\(.)/g, '$1');
+
+  if (shape === 'record' || shape === 'Mrecord') {
+    warnings.warnOnce('record', 'Record shapes were flattened to one field per line');
+    text = text.replace(/<[^>]*>/g, '').replace(/[{}]/g, '').split('|').map(field => field.trim()).filter(Boolean).join('\n');
+  }
+
+  return text.trim();
+}
+
+// ============================================================================
+// Mermaid 생성
+// ============================================================================
+
+function resolveEdge(attrs: Attributes, directed: boolean): FlowchartEdge & { reversed: boolean } {
+  const styles = (attrs.style ?? '').split(',').map(style => style.trim());
+  const penwidth = Number(attrs.penwidth);
+  const line = styles.includes('dashed') || styles.includes('dotted')
+    ? 'dotted'
+    : styles.includes('bold') || penwidth >= 2 ? 'thick' : 'solid';
+
+  const dir = attrs.dir ?? (directed ? 'forward' : 'none');
+  let arrow: FlowchartEdge['arrow'] = dir === 'both' ? 'both' : dir === 'none' ? 'none' : 'end';
+  const head = dir === 'back' ? attrs.arrowtail : attrs.arrowhead;
+  if (arrow === 'end' && head === 'none') arrow = 'none';
+
+  return { line, arrow, label: attrs.label ?? attrs.xlabel, reversed: dir === 'back' };
+}
+
+/**
+ * 사용하지 않은 속성 이름 수집 (경고 한 줄로 보고)
+ */
+function collectUnsupported(attrs: Attributes, supported: Set<string>, target: Set<string>): void {
+  Object.keys(attrs).forEach(key => {
+    if (!supported.has(key)) target.add(key);
+  });
+}
+
+/**
+ * Graphviz DOT 소스를 Mermaid flowchart로 변환
+ */
+export function convertDotToMermaid(source: string): DiagramImportResult {
+  const warnings = createWarningCollector();
+  const graph = parseDot(source, warnings);
+  const toId = createIdAllocator();
+  const unsupported = new Set<string>();
+  const lines: string[] = [];
+  const styles: string[] = [];
+
+  const rankdir = (graph.attrs.rankdir ?? 'TB').toUpperCase();
+  if (graph.attrs.label) {
+    lines.push('---', `title: ${JSON.stringify(resolveLabel(graph.attrs.label, '', graph.name, undefined, warnings))}`, '---');
+  }
+  lines.push(`flowchart ${DIRECTIONS[rankdir] ?? 'TB'}`);
+  collectUnsupported(graph.attrs, GRAPH_ATTRIBUTES, unsupported);
+
+  const writeNode = (key: string, indent: string): void => {
+    const node = graph.nodes.get(key)!;
+    const { attrs } = node;
+    collectUnsupported(attrs, NODE_ATTRIBUTES, unsupported);
+
+    const styleList = (attrs.style ?? '').split(',').map(style => style.trim());
+    if (styleList.includes('invis')) {
+      warnings.warn(`Invisible node "${key}" is shown`);
+    }
+
+    const shapeName = attrs.shape ?? 'ellipse';
+    let shape = SHAPES[shapeName];
+    if (!shape) {
+      warnings.warnOnce(`shape:${shapeName}`, `Shape "${shapeName}" is not supported and was drawn as a rectangle`);
+      shape = 'rect';
+    }
+    if (shape === 'rect' && styleList.includes('rounded')) shape = 'round';
+
+    const id = toId(key);
+    lines.push(`${indent}${formatFlowchartNode(id, resolveLabel(attrs.label, key, graph.name, shapeName, warnings), shape)}`);
+
+    const filled = styleList.includes('filled');
+    const style = formatNodeStyle(id, {
+      fill: attrs.fillcolor ?? (filled ? attrs.color : undefined),
+      stroke: attrs.color,
+      color: attrs.fontcolor
+    });
+    if (style) styles.push(style);
+  };
+
+  const writeCluster = (cluster: DotCluster, indent: string): void => {
+    collectUnsupported(cluster.attrs, GRAPH_ATTRIBUTES, unsupported);
+    const title = resolveLabel(cluster.attrs.label, cluster.key.replace(/^cluster_?/, '') || cluster.key, graph.name, undefined, warnings);
+    lines.push(`${indent}subgraph ${toId(cluster.key)} [${quoteLabel(title)}]`);
+    cluster.nodes.forEach(key => writeNode(key, `${indent}  `));
+    cluster.clusters.forEach(child => writeCluster(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  graph.root.nodes.forEach(key => writeNode(key, '  '));
+  graph.root.clusters.forEach(cluster => writeCluster(cluster, '  '));
+
+  graph.edges.forEach(edge => {
+    collectUnsupported(edge.attrs, EDGE_ATTRIBUTES, unsupported);
+    if ((edge.attrs.style ?? '').includes('invis')) {
+      warnings.warn(`Invisible edge ${edge.from} → ${edge.to} was skipped`, edge.line);
+      return;
+    }
+    const { reversed, ...resolved } = resolveEdge(edge.attrs, graph.directed);
+    const [from, to] = reversed ? [edge.to, edge.from] : [edge.from, edge.to];
+    lines.push(`  ${formatFlowchartEdge(toId(from), toId(to), {
+      ...resolved,
+      label: resolved.label && resolveLabel(resolved.label, '', graph.name, undefined, warnings)
+    })}`);
+  });
+
+  lines.push(...styles.map(style => `  ${style}`));
+
+  if (unsupported.size > 0) {
+    warnings.warn(`Attributes not translated: ${[...unsupported].sort().join(', ')}`);
+  }
+
+  return { code: lines.join('\n'), warnings: warnings.list() };
+}
@@ -0,0 +1,350 @@
+/**
+ * draw.io (diagrams.net) → Mermaid flowchart 변환
+ * - 도형(사각형, 둥근 사각형, 타원, 마름모, 육각형, 평행사변형, 사다리꼴, 원통) → flowchart 노드
+ * - 연결선(점선/굵은 선, 양방향, 레이블), 컨테이너/그룹/스윔레인 → subgraph
+ * - 채우기/선/글자 색상 → style 구문
+ * 좌표와 크기는 방향(TB/LR) 추정에만 사용, 첫 번째 페이지만 변환
+ */
+
+import {
+  createIdAllocator,
+  createWarningCollector,
+  formatFlowchartEdge,
+  formatFlowchartNode,
+  formatNodeStyle,
+  quoteLabel
+} from './mermaidSourceWriter';
+import type { FlowchartEdge, FlowchartShape, WarningCollector } from './mermaidSourceWriter';
+import type { DiagramImportResult } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+type CellStyle = Record<string, string>;
+
+interface DrawioCell {
+  id: string;
+  parent: string | null;
+  label: string;
+  style: CellStyle;
+  // style 첫 항목의 이름만 있는 값 (예: "ellipse;whiteSpace=wrap" → ellipse)
+  baseStyle: string | null;
+  vertex: boolean;
+  edge: boolean;
+  source: string | null;
+  target: string | null;
+  geometry: { x: number; y: number; width: number; height: number } | null;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const SHAPES: Record<string, FlowchartShape> = {
+  rect: 'rect',
+  rectangle: 'rect',
+  label: 'rect',
+  text: 'rect',
+  ellipse: 'stadium',
+  doubleEllipse: 'double-circle',
+  rhombus: 'diamond',
+  hexagon: 'hexagon',
+  parallelogram: 'parallelogram',
+  trapezoid: 'trapezoid',
+  cylinder: 'cylinder',
+  cylinder3: 'cylinder',
+  datastore: 'cylinder',
+  process: 'subroutine'
+};
+
+// subgraph로 변환하는 컨테이너 스타일
+const CONTAINER_STYLES = ['swimlane', 'group', 'container'];
+
+// style 구문에 넣지 않는 draw.io 색상 값
+const NO_COLOR = new Set(['none', 'default', 'inherit']);
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': '\'',
+  '&nbsp;': ' ',
+  '&amp;': '&'
+};
+
+// ============================================================================
+// 파일 읽기
+// ============================================================================
+
+/**
+ * 압축된 diagram 본문 해제 (base64 → raw deflate → URI 인코딩 해제)
+ */
+async function inflateDiagram(text: string): Promise<string> {
+  const binary = atob(text.trim());
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const inflated = await new Response(stream).text();
+  return decodeURIComponent(inflated);
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid draw.io file (XML could not be parsed)');
+  }
+  return doc;
+}
+
+/**
+ * mxfile 또는 mxGraphModel 문서에서 첫 페이지의 mxGraphModel 요소 찾기
+ */
+async function loadGraphModel(source: string, warnings: WarningCollector): Promise<Element> {
+  const doc = parseXml(source);
+  const root = doc.documentElement;
+  if (root.tagName === 'mxGraphModel') return root;
+  if (root.tagName !== 'mxfile') {
+    throw new Error(`Not a draw.io file (unexpected <${root.tagName}> root element)`);
+  }
+
+  const pages = Array.from(root.getElementsByTagName('diagram'));
+  if (pages.length === 0) throw new Error('The draw.io file contains no diagrams');
+  if (pages.length > 1) {
+    warnings.warn(`Only the first page "${pages[0].getAttribute('name') ?? 'Page-1'}" of ${pages.length} was imported`);
+  }
+
+  const page = pages[0];
+  const model = page.getElementsByTagName('mxGraphModel')[0];
+  if (model) return model;
+
+  const content = page.textContent?.trim();
+  if (!content) throw new Error('The first draw.io page is empty');
+  try {
+    return parseXml(await inflateDiagram(content)).documentElement;
+  } catch (error) {
+    console.error('Failed to decompress draw.io diagram:', error);
+    throw new Error('The compressed draw.io diagram could not be decoded');
+  }
+}
+
+// ============================================================================
+// 셀 해석
+// ============================================================================
+
+function parseStyle(style: string | null): { style: CellStyle; baseStyle: string | null } {
+  const result: CellStyle = {};
+  let baseStyle: string | null = null;
+  (style ?? '').split(';').map(entry => entry.trim()).filter(Boolean).forEach((entry, index) => {
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      if (index === 0) baseStyle = entry;
+      result[entry] = '1';
+    } else {
+      result[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  });
+  return { style: result, baseStyle };
+}
+
+/**
+ * HTML 레이블 → 텍스트 (줄바꿈 태그는 줄바꿈으로)
+ */
+function toPlainText(value: string, html: boolean, warnings: WarningCollector): string {
+  if (!html || !/<[a-z!/]/i.test(value)) return value.trim();
+  if (/<(?:b|i|u|font|span)\b[^>]*>/i.test(value)) {
+    warnings.warnOnce('rich-text', 'Rich text formatting in labels was converted to plain text');
+  }
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:div|p|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(?:lt|gt|quot|#39|nbsp|amp);/g, entity => HTML_ENTITIES[entity])
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function readGeometry(cell: Element): DrawioCell['geometry'] {
+  const geometry = cell.getElementsByTagName('mxGeometry')[0];
+  if (!geometry) return null;
+  const read = (name: string): number => Number(geometry.getAttribute(name) ?? 0) || 0;
+  return { x: read('x'), y: read('y'), width: read('width'), height: read('height') };
+}
+
+/**
+ * mxCell 목록 (UserObject/object로 감싼 셀은 바깥 요소의 id와 label 사용)
+ */
+function readCells(model: Element, warnings: WarningCollector): DrawioCell[] {
+  return Array.from(model.getElementsByTagName('mxCell')).map(cell => {
+    const wrapper = cell.parentNode as Element | null;
+    const wrapped = wrapper?.tagName === 'UserObject' || wrapper?.tagName === 'object';
+    const { style, baseStyle } = parseStyle(cell.getAttribute('style'));
+    const rawLabel = (wrapped ? wrapper!.getAttribute('label') : cell.getAttribute('value')) ?? '';
+
+    return {
+      id: (wrapped ? wrapper!.getAttribute('id') : cell.getAttribute('id')) ?? '',
+      parent: cell.getAttribute('parent'),
+      label: toPlainText(rawLabel, style.html === '1', warnings),
+      style,
+      baseStyle,
+      vertex: cell.getAttribute('vertex') === '1',
+      edge: cell.getAttribute('edge') === '1',
+      source: cell.getAttribute('source'),
+      target: cell.getAttribute('target'),
+      geometry: readGeometry(cell)
+    };
+  });
+}
+
+function resolveShape(cell: DrawioCell, warnings: WarningCollector): FlowchartShape {
+  const name = cell.style.shape ?? cell.baseStyle ?? 'rect';
+  const fixedAspect = cell.style.aspect === 'fixed'
+    || (cell.geometry !== null && cell.geometry.width > 0 && cell.geometry.width === cell.geometry.height);
+
+  if (name === 'ellipse' && fixedAspect) return 'circle';
+  if (name === 'rhombus' || cell.style.rhombus === '1') return 'diamond';
+
+  const shape = SHAPES[name];
+  if (!shape) {
+    warnings.warnOnce(`shape:${name}`, `Shape "${name}" is not supported and was drawn as a rectangle`);
+    return cell.style.rounded === '1' ? 'round' : 'rect';
+  }
+  if (shape === 'rect' && cell.style.rounded === '1') return 'round';
+  return shape;
+}
+
+function resolveEdge(cell: DrawioCell): FlowchartEdge & { reversed: boolean } {
+  const strokeWidth = Number(cell.style.strokeWidth ?? 1);
+  const line = cell.style.dashed === '1' ? 'dotted' : strokeWidth >= 2 ? 'thick' : 'solid';
+
+  // draw.io 기본값: 끝에 화살표, 시작에는 없음
+  const hasEnd = (cell.style.endArrow ?? 'classic') !== 'none';
+  const hasStart = Boolean(cell.style.startArrow) && cell.style.startArrow !== 'none';
+  const arrow: FlowchartEdge['arrow'] = hasEnd && hasStart ? 'both' : hasEnd || hasStart ? 'end' : 'none';
+
+  return { line, arrow, label: cell.label, reversed: hasStart && !hasEnd };
+}
+
+function isContainer(cell: DrawioCell, cells: DrawioCell[]): boolean {
+  return CONTAINER_STYLES.some(style => cell.style[style] === '1' || cell.baseStyle === style)
+    || cells.some(child => child.vertex && child.parent === cell.id && child.style.edgeLabel !== '1');
+}
+
+function isColor(value: string | undefined): string | undefined {
+  return value && !NO_COLOR.has(value) ? value : undefined;
+}
+
+// ============================================================================
+// Mermaid 생성
+// ============================================================================
+
+/**
+ * 연결선의 가로/세로 비율로 방향 추정 (가로 연결이 더 많으면 LR)
+ */
+function guessDirection(cells: Map<string, DrawioCell>, edges: DrawioCell[]): 'TB' | 'LR' {
+  // 부모 컨테이너 좌표를 더한 중심점
+  const center = (id: string): { x: number; y: number } | null => {
+    let cell = cells.get(id);
+    if (!cell?.geometry) return null;
+    let x = cell.geometry.x + cell.geometry.width / 2;
+    let y = cell.geometry.y + cell.geometry.height / 2;
+    while (cell.parent && (cell = cells.get(cell.parent))?.vertex && cell.geometry) {
+      x += cell.geometry.x;
+      y += cell.geometry.y;
+    }
+    return { x, y };
+  };
+
+  let horizontal = 0;
+  let vertical = 0;
+  edges.forEach(edge => {
+    const from = edge.source ? center(edge.source) : null;
+    const to = edge.target ? center(edge.target) : null;
+    if (!from || !to) return;
+    if (Math.abs(to.x - from.x) > Math.abs(to.y - from.y)) horizontal++;
+    else vertical++;
+  });
+  return horizontal > vertical ? 'LR' : 'TB';
+}
+
+/**
+ * draw.io 파일(.drawio / 내보낸 .xml)을 Mermaid flowchart로 변환
+ */
+export async function convertDrawioToMermaid(source: string): Promise<DiagramImportResult> {
+  const warnings = createWarningCollector();
+  const model = await loadGraphModel(source, warnings);
+  const cells = readCells(model, warnings);
+  const byId = new Map(cells.map(cell => [cell.id, cell]));
+  const toId = createIdAllocator();
+  const lines: string[] = [];
+  const styles: string[] = [];
+
+  const edges = cells.filter(cell => cell.edge);
+  const vertices = cells.filter(cell => cell.vertex);
+
+  // 연결선 위에 놓인 레이블 셀은 해당 연결선 레이블로 합침
+  const edgeLabels = new Map<string, string[]>();
+  vertices.forEach(cell => {
+    if (cell.style.edgeLabel !== '1' || !cell.parent || !byId.get(cell.parent)?.edge) return;
+    edgeLabels.set(cell.parent, [...(edgeLabels.get(cell.parent) ?? []), cell.label]);
+  });
+
+  const nodes = vertices.filter(cell => !(cell.style.edgeLabel === '1' && cell.parent && byId.get(cell.parent)?.edge));
+  const nodeIds = new Set(nodes.map(cell => cell.id));
+  const childrenOf = (parent: string | null): DrawioCell[] => nodes.filter(cell => cell.parent === parent);
+
+  if (nodes.some(cell => cell.style.shape === 'image' || cell.style.image)) {
+    warnings.warnOnce('image', 'Images were drawn as plain nodes');
+  }
+
+  const writeVertex = (cell: DrawioCell, indent: string): void => {
+    const id = toId(cell.id);
+    if (isContainer(cell, nodes)) {
+      lines.push(`${indent}subgraph ${id} [${quoteLabel(cell.label || ' ')}]`);
+      childrenOf(cell.id).forEach(child => writeVertex(child, `${indent}  `));
+      lines.push(`${indent}end`);
+    } else {
+      if (cell.baseStyle === 'text' && !edges.some(edge => edge.source === cell.id || edge.target === cell.id)) {
+        warnings.warnOnce('free-text', 'Free-standing text was converted to nodes');
+      }
+      lines.push(`${indent}${formatFlowchartNode(id, cell.label, resolveShape(cell, warnings))}`);
+    }
+
+    const style = formatNodeStyle(id, {
+      fill: isColor(cell.style.fillColor ?? cell.style.swimlaneFillColor),
+      stroke: isColor(cell.style.strokeColor),
+      color: isColor(cell.style.fontColor)
+    });
+    if (style) styles.push(style);
+  };
+
+  // 레이어(vertex/edge가 아닌 셀) 바로 아래 도형부터 시작
+  const layers = new Set(cells.filter(cell => !cell.vertex && !cell.edge).map(cell => cell.id));
+  const topLevel = nodes.filter(cell => !cell.parent || layers.has(cell.parent) || !nodeIds.has(cell.parent));
+  if (layers.size > 2) {
+    warnings.warnOnce('layers', 'Layers were merged into one diagram');
+  }
+
+  lines.push(`flowchart ${guessDirection(byId, edges)}`);
+  topLevel.forEach(cell => writeVertex(cell, '  '));
+
+  edges.forEach(edge => {
+    if (!edge.source || !edge.target || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      warnings.warn(`Connector "${edge.label || edge.id}" is not attached to shapes at both ends and was skipped`);
+      return;
+    }
+    const { reversed, ...resolved } = resolveEdge(edge);
+    const label = [resolved.label, ...(edgeLabels.get(edge.id) ?? [])].filter(Boolean).join('\n');
+    const [from, to] = reversed ? [edge.target, edge.source] : [edge.source, edge.target];
+    lines.push(`  ${formatFlowchartEdge(toId(from), toId(to), { ...resolved, label })}`);
+  });
+
+  lines.push(...styles.map(style => `  ${style}`));
+
+  if (nodes.length === 0) {
+    warnings.warn('The diagram contains no shapes');
+  }
+
+  return { code: lines.join('\n'), warnings: warnings.list() };
+}
@@ -3,7 +3,7 @@ import type { FileType } from '../../types';
 /**
  * Monaco Editor 언어 모드 타입
  */
-export type EditorLanguage = 'markdown' | 'text' | 'plaintext';
+export type EditorLanguage = 'markdown' | 'mermaid' | 'text' | 'plaintext';
 
 /**
  * 파일 확장자로 파일 타입 감지
@@ -36,7 +36,7 @@ export const getEditorLanguage = (fileType: FileType): EditorLanguage => {
     case 'markdown':
       return 'markdown';
     case 'mermaid':
-      return 'text';
+      return 'mermaid';
     default:
       return 'plaintext';
   }
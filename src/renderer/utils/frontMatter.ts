@@ -0,0 +1,242 @@
+/**
+ * Markdown front-matter 파싱/검증
+ * - 문서 맨 앞의 --- YAML --- 블록을 읽어 제목, 작성자, 날짜, 태그, 상태, mermaid 설정 추출
+ * - YAML 문법 오류와 스키마 경고를 문서 기준 줄 번호의 진단으로 반환
+ * - mermaid: 설정을 문서 안의 각 다이어그램 코드에 %%{init}%% 지시문으로 적용
+ */
+
+import { parse, parseDocument, isMap, isScalar, LineCounter } from 'yaml';
+import { FRONT_MATTER_SCHEMA } from '../constants/frontMatterSchema';
+import { normalizeMermaidUserConfig } from './mermaidSettings';
+import type {
+  DiagramProblem,
+  DiagramProblemSeverity,
+  FrontMatterFieldSchema,
+  FrontMatterResult,
+  MarkdownFrontMatter,
+  MermaidUserConfig
+} from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const OPENING_DELIMITER = /^-{3}\s*$/;
+const CLOSING_DELIMITER = /^(?:-{3}|\.{3})\s*$/;
+// 다이어그램 코드 자체의 front-matter
+const DIAGRAM_FRONT_MATTER = /^\s*---\s*\n([\s\S]*?)\n\s*---[ \t]*(?:\n|$)/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// 파일 이름에 쓸 수 없는 문자
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+// ============================================================================
+// 값 변환
+// ============================================================================
+
+function toText(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+function toTextList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(toText).filter((item): item is string => item !== null);
+  }
+  const text = toText(value);
+  // "a, b, c" 형식의 문자열도 목록으로 처리
+  return text ? text.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+/**
+ * 스키마 필드 값 (별칭 키 포함, 처음 찾은 값)
+ */
+function getFieldValue(data: Record<string, unknown>, field: FrontMatterFieldSchema): { key: string; value: unknown } | null {
+  for (const key of [field.key, ...(field.aliases ?? [])]) {
+    if (data[key] !== undefined && data[key] !== null) {
+      return { key, value: data[key] };
+    }
+  }
+  return null;
+}
+
+function isValidFieldValue(value: unknown, field: FrontMatterFieldSchema): boolean {
+  switch (field.type) {
+    case 'string':
+      return toText(value) !== null;
+    case 'string-list':
+      return Array.isArray(value) ? value.every(item => toText(item) !== null) : toText(value) !== null;
+    case 'date': {
+      const text = toText(value);
+      return text !== null && DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text));
+    }
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+// ============================================================================
+// 파싱
+// ============================================================================
+
+function createProblem(message: string, lineNumber: number, severity: DiagramProblemSeverity = 'warning'): DiagramProblem {
+  return {
+    message,
+    severity,
+    startLineNumber: lineNumber,
+    startColumn: 1,
+    endLineNumber: lineNumber,
+    endColumn: Number.MAX_SAFE_INTEGER
+  };
+}
+
+/**
+ * 스키마 검증 (필수 필드 누락, 형식 오류, 허용되지 않은 값)
+ * @param keyLines - 최상위 키별 문서 기준 줄 번호
+ */
+function validateFrontMatter(
+  data: Record<string, unknown>,
+  keyLines: Map<string, number>,
+  startLine: number
+): DiagramProblem[] {
+  const problems: DiagramProblem[] = [];
+
+  FRONT_MATTER_SCHEMA.forEach(field => {
+    const found = getFieldValue(data, field);
+    if (!found) {
+      if (field.required) {
+        problems.push(createProblem(`Front-matter is missing required field "${field.key}"`, startLine));
+      }
+      return;
+    }
+
+    const lineNumber = keyLines.get(found.key) ?? startLine;
+    if (!isValidFieldValue(found.value, field)) {
+      const expected = field.type === 'string-list' ? 'a string or list of strings' : field.type === 'date' ? 'a date (YYYY-MM-DD)' : `a ${field.type}`;
+      problems.push(createProblem(`Front-matter field "${found.key}" should be ${expected}`, lineNumber));
+      return;
+    }
+
+    const text = toText(found.value);
+    if (field.values && text && !field.values.includes(text)) {
+      problems.push(createProblem(
+        `Front-matter field "${found.key}" should be one of: ${field.values.join(', ')}`,
+        lineNumber
+      ));
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Markdown 문서의 front-matter 파싱
+ * front-matter가 없거나 닫히지 않았으면 frontMatter는 null
+ */
+export function parseFrontMatter(markdown: string): FrontMatterResult {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  if (!OPENING_DELIMITER.test(lines[0] ?? '')) {
+    return { frontMatter: null, problems: [] };
+  }
+
+  const closingIndex = lines.findIndex((line, i) => i > 0 && CLOSING_DELIMITER.test(line));
+  if (closingIndex === -1) {
+    return { frontMatter: null, problems: [] };
+  }
+
+  // YAML 본문은 문서 2번째 줄부터 시작
+  const yamlLineOffset = 1;
+  const lineCounter = new LineCounter();
+  const document = parseDocument(lines.slice(1, closingIndex).join('\n'), { lineCounter });
+
+  if (document.errors.length > 0) {
+    return {
+      frontMatter: null,
+      problems: document.errors.map(error => createProblem(
+        `Front-matter YAML error: ${error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')}`,
+        (error.linePos?.[0].line ?? 1) + yamlLineOffset,
+        'error'
+      ))
+    };
+  }
+
+  const contents = document.contents;
+  const data: Record<string, unknown> = isMap(contents) ? document.toJS() : {};
+  const keyLines = new Map<string, number>();
+  if (isMap(contents)) {
+    contents.items.forEach(pair => {
+      if (isScalar(pair.key) && pair.key.range) {
+        keyLines.set(String(pair.key.value), lineCounter.linePos(pair.key.range[0]).line + yamlLineOffset);
+      }
+    });
+  }
+
+  const field = (key: string): unknown => getFieldValue(data, FRONT_MATTER_SCHEMA.find(item => item.key === key) ?? { key, type: 'string' })?.value;
+
+  const frontMatter: MarkdownFrontMatter = {
+    data,
+    title: toText(field('title')),
+    authors: toTextList(field('authors')),
+    date: toText(field('date')),
+    tags: toTextList(field('tags')),
+    status: toText(field('status')),
+    mermaid: normalizeMermaidUserConfig(field('mermaid')),
+    startLine: 1,
+    endLine: closingIndex + 1
+  };
+
+  return { frontMatter, problems: validateFrontMatter(data, keyLines, 1) };
+}
+
+/**
+ * front-matter 제목을 파일 이름으로 쓸 수 있게 정리 (제목이 없으면 null)
+ */
+export function getFrontMatterFileName(frontMatter: MarkdownFrontMatter | null): string | null {
+  const title = frontMatter?.title?.replace(INVALID_FILE_NAME_CHARS, '-').replace(/\s+/g, ' ').trim();
+  return title || null;
+}
+
+// ============================================================================
+// 문서 Mermaid 설정
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 다이어그램 front-matter의 config (없거나 잘못된 YAML이면 null)
+ */
+function getDiagramFrontMatterConfig(frontMatter: string): Record<string, unknown> | null {
+  try {
+    const data: unknown = parse(frontMatter);
+    return isPlainObject(data) && isPlainObject(data.config) ? data.config : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 문서 front-matter의 mermaid 설정을 다이어그램 코드에 %%{init}%% 지시문으로 추가
+ * 미리보기, 복사, 내보내기가 모두 같은 코드를 사용하도록 코드 자체에 설정을 넣음
+ * 다이어그램 자체 설정이 우선: 지시문은 다이어그램 앞(자체 front-matter 뒤)에 두고,
+ * mermaid는 지시문을 front-matter config보다 우선 적용하므로 자체 config에 있는 키는 제외
+ */
+export function applyDocumentMermaidConfig(code: string, config: MermaidUserConfig | null): string {
+  if (!config) return code;
+
+  const frontMatter = DIAGRAM_FRONT_MATTER.exec(code);
+  const diagramConfig = frontMatter ? getDiagramFrontMatterConfig(frontMatter[1]) : null;
+  const documentConfig = Object.fromEntries(
+    Object.entries(config).filter(([key]) => !diagramConfig || !(key in diagramConfig))
+  );
+  if (Object.keys(documentConfig).length === 0) return code;
+
+  const directive = `%%{init: ${JSON.stringify(documentConfig)}}%%`;
+  if (!frontMatter) {
+    return `${directive}\n${code}`;
+  }
+  const header = frontMatter[0].endsWith('\n') ? frontMatter[0] : `${frontMatter[0]}\n`;
+  return `${header}${directive}\n${code.slice(frontMatter[0].length)}`;
+}
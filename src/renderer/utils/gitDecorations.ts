@@ -0,0 +1,75 @@
+/**
+ * git 상태 표시 유틸리티
+ * 파일 탐색기 장식(상태 문자, 색상)과 소스 컨트롤 패널에서 공통으로 사용
+ */
+
+import type { GitChangeType, GitStatusEntry } from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const GIT_STATUS_LETTERS: Record<GitChangeType, string> = {
+  modified: 'M',
+  added: 'A',
+  deleted: 'D',
+  renamed: 'R',
+  untracked: 'U',
+  conflicted: 'C'
+};
+
+export const GIT_STATUS_LABELS: Record<GitChangeType, string> = {
+  modified: 'Modified',
+  added: 'Added',
+  deleted: 'Deleted',
+  renamed: 'Renamed',
+  untracked: 'Untracked',
+  conflicted: 'Conflicted'
+};
+
+// 폴더 장식에 쓸 하위 항목 상태 우선순위 (앞쪽이 우선)
+const FOLDER_PRIORITY: GitChangeType[] = ['conflicted', 'modified', 'renamed', 'deleted', 'added', 'untracked'];
+
+// ============================================================================
+// 장식 계산
+// ============================================================================
+
+/**
+ * 파일 탐색기에 표시할 상태 (작업 트리 변경 우선, 없으면 스테이징된 변경)
+ */
+export function getDisplayStatus(entry: GitStatusEntry): GitChangeType | null {
+  return entry.unstaged ?? entry.staged;
+}
+
+/**
+ * 경로별 표시 상태 맵 생성
+ * 변경된 파일의 상위 폴더(저장소 루트 전까지)에도 우선순위가 가장 높은 하위 상태를 기록
+ */
+export function buildGitDecorations(entries: GitStatusEntry[], root: string): Map<string, GitChangeType> {
+  const decorations = new Map<string, GitChangeType>();
+
+  entries.forEach(entry => {
+    const status = getDisplayStatus(entry);
+    if (!status) return;
+    decorations.set(entry.path, status);
+
+    let folder = entry.path.slice(0, Math.max(entry.path.lastIndexOf('/'), entry.path.lastIndexOf('\\')));
+    while (folder.length > root.length) {
+      const current = decorations.get(folder);
+      if (current && FOLDER_PRIORITY.indexOf(current) <= FOLDER_PRIORITY.indexOf(status)) break;
+      decorations.set(folder, status);
+      folder = folder.slice(0, Math.max(folder.lastIndexOf('/'), folder.lastIndexOf('\\')));
+    }
+  });
+
+  return decorations;
+}
+
+/**
+ * 파일이 저장소 루트 아래에 있는지 확인
+ * 접두사만 비교하면 /repo2 의 파일도 /repo 안으로 판단하므로 구분자까지 확인
+ */
+export function isInsideRepository(filePath: string, root: string): boolean {
+  if (!filePath.startsWith(root) || filePath.length === root.length) return false;
+  return /[\\/]$/.test(root) || /[\\/]/.test(filePath[root.length]);
+}
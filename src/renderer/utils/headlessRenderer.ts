@@ -0,0 +1,131 @@
+/**
+ * 헤드리스 렌더러
+ * CLI 모드에서 메인 프로세스가 숨김 창(#headless)을 띄우고
+ * window.mermaidHeadless를 executeJavaScript로 호출하여 다이어그램을 렌더링
+ * - 에디터 내보내기와 같은 경로(generateExportFile)를 사용하므로 결과가 동일함
+ */
+
+import { generateExportFile, getExportFileExtension } from './diagramExporter';
+import { extractMermaidFences } from './mermaidDiagnostics';
+import { setWorkspaceMermaidConfig } from './mermaidSettings';
+import { parseFrontMatter, applyDocumentMermaidConfig } from './frontMatter';
+import type {
+  ExportRenderOptions,
+  ExportType,
+  HeadlessMarkdownResult,
+  HeadlessRenderSettings
+} from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const HEADLESS_HASH = '#headless';
+
+// String.fromCharCode 인자 개수 제한을 피하기 위한 분할 크기
+const BASE64_CHUNK_SIZE = 0x8000;
+
+// 생성한 이미지 참조 줄 표시 (다시 실행하면 새로 추가하지 않고 이 줄을 갱신)
+const GENERATED_IMAGE_MARKER = '<!-- mermaid-export -->';
+const GENERATED_IMAGE_LINE = /^\s*!\[[^\]]*\]\([^)]*\)\s*<!-- mermaid-export -->\s*$/;
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+/**
+ * 바이너리 데이터를 Base64 문자열로 변환
+ */
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...data.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+// ============================================================================
+// 렌더러 API
+// ============================================================================
+
+/**
+ * 앱 테마와 워크스페이스 Mermaid 설정 적용
+ */
+function configure(settings: HeadlessRenderSettings): void {
+  document.documentElement.setAttribute('data-theme', settings.appTheme);
+  setWorkspaceMermaidConfig(settings.mermaidConfig);
+}
+
+/**
+ * 다이어그램 하나를 파일 데이터(Base64)로 렌더링
+ */
+async function renderDiagram(
+  code: string,
+  format: ExportType,
+  options: ExportRenderOptions = {},
+  title?: string
+): Promise<string> {
+  return toBase64(await generateExportFile(code, format, options, title));
+}
+
+/**
+ * Markdown의 mermaid 코드 펜스를 이미지로 렌더링하고 펜스 바로 아래에 이미지 참조를 넣은 문서 반환
+ * 펜스(다이어그램 소스)는 그대로 두고, 이전 실행에서 넣은 참조 줄이 있으면 갱신
+ * 렌더링에 실패한 펜스는 건드리지 않음
+ * @param imagePrefix - 이미지 상대 경로 접두사 (예: 'diagrams/doc-' → diagrams/doc-1.svg)
+ */
+async function renderMarkdown(
+  markdown: string,
+  format: ExportType,
+  imagePrefix: string,
+  options: ExportRenderOptions = {}
+): Promise<HeadlessMarkdownResult> {
+  const lineEnding = markdown.includes('\r\n') ? '\r\n' : '\n';
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const fences = extractMermaidFences(markdown);
+  const documentConfig = parseFrontMatter(markdown).frontMatter?.mermaid ?? null;
+  const result: HeadlessMarkdownResult = { markdown: '', images: [], failures: [] };
+
+  // 뒤에서부터 바꿔야 앞쪽 펜스의 줄 번호가 유지됨
+  const insertions: { lineIndex: number; replace: boolean; line: string }[] = [];
+
+  for (const [i, fence] of fences.entries()) {
+    if (!fence.code.trim()) continue;
+
+    const index = i + 1;
+    const relativePath = `${imagePrefix}${index}.${getExportFileExtension(format)}`;
+
+    try {
+      const data = await renderDiagram(applyDocumentMermaidConfig(fence.code, documentConfig), format, options);
+      result.images.push({ relativePath, data });
+
+      const indent = /^\s*/.exec(lines[fence.startLine - 2])?.[0] ?? '';
+      const lineIndex = Math.min(fence.endLine, lines.length - 1) + 1;
+      insertions.push({
+        lineIndex,
+        replace: GENERATED_IMAGE_LINE.test(lines[lineIndex] ?? ''),
+        line: `${indent}![Diagram ${index}](${encodeURI(relativePath)}) ${GENERATED_IMAGE_MARKER}`
+      });
+    } catch (error) {
+      result.failures.push({
+        source: `line ${fence.startLine - 1}`,
+        format,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  insertions.reverse().forEach(({ lineIndex, replace, line }) => {
+    lines.splice(lineIndex, replace ? 1 : 0, line);
+  });
+
+  result.markdown = lines.join(lineEnding);
+  return result;
+}
+
+/**
+ * window.mermaidHeadless 등록
+ */
+export function installHeadlessRenderer(): void {
+  window.mermaidHeadless = { configure, renderDiagram, renderMarkdown };
+}
@@ -0,0 +1,135 @@
+/**
+ * 단일 HTML 내보내기 템플릿
+ * SVG를 그대로 포함하고 휠 확대, 드래그 이동, 더블클릭 맞춤을 지원하는 독립 실행 HTML 생성
+ */
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// 배경을 투명으로 내보낼 때 페이지 배경 (체커보드 대신 중립 회색)
+const TRANSPARENT_PAGE_BACKGROUND = '#f5f5f5';
+
+const PAGE_STYLES = `
+  html, body { margin: 0; height: 100%; overflow: hidden; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+  #viewport { width: 100%; height: 100%; cursor: grab; touch-action: none; }
+  #viewport.panning { cursor: grabbing; }
+  #diagram { transform-origin: 0 0; display: inline-block; }
+  #diagram svg { display: block; max-width: none !important; }
+  #controls { position: fixed; right: 12px; bottom: 12px; display: flex; gap: 4px; }
+  #controls button {
+    min-width: 32px; height: 28px; border: 1px solid #ccc; border-radius: 4px;
+    background: #fff; color: #333; cursor: pointer; font-size: 13px;
+  }
+  #controls button:hover { background: #eee; }
+`;
+
+// 확대/이동 스크립트 (외부 의존성 없음)
+const PAN_ZOOM_SCRIPT = `
+(function () {
+  var MIN_SCALE = 0.1, MAX_SCALE = 10, ZOOM_STEP = 1.2;
+  var viewport = document.getElementById('viewport');
+  var diagram = document.getElementById('diagram');
+  var state = { x: 0, y: 0, scale: 1 };
+  var drag = null;
+
+  function apply() {
+    diagram.style.transform = 'translate(' + state.x + 'px,' + state.y + 'px) scale(' + state.scale + ')';
+  }
+
+  function zoomAt(factor, cx, cy) {
+    var next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, state.scale * factor));
+    state.x = cx - (cx - state.x) * (next / state.scale);
+    state.y = cy - (cy - state.y) * (next / state.scale);
+    state.scale = next;
+    apply();
+  }
+
+  function fit() {
+    var w = diagram.offsetWidth, h = diagram.offsetHeight;
+    var vw = viewport.clientWidth, vh = viewport.clientHeight;
+    if (!w || !h) return;
+    state.scale = Math.min(vw / w, vh / h, 1);
+    state.x = (vw - w * state.scale) / 2;
+    state.y = (vh - h * state.scale) / 2;
+    apply();
+  }
+
+  viewport.addEventListener('wheel', function (e) {
+    e.preventDefault();
+    zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+  }, { passive: false });
+
+  viewport.addEventListener('pointerdown', function (e) {
+    drag = { x: e.clientX - state.x, y: e.clientY - state.y };
+    viewport.classList.add('panning');
+    viewport.setPointerCapture(e.pointerId);
+  });
+  viewport.addEventListener('pointermove', function (e) {
+    if (!drag) return;
+    state.x = e.clientX - drag.x;
+    state.y = e.clientY - drag.y;
+    apply();
+  });
+  viewport.addEventListener('pointerup', function () {
+    drag = null;
+    viewport.classList.remove('panning');
+  });
+  viewport.addEventListener('dblclick', fit);
+
+  document.getElementById('zoom-in').onclick = function () { zoomAt(ZOOM_STEP, viewport.clientWidth / 2, viewport.clientHeight / 2); };
+  document.getElementById('zoom-out').onclick = function () { zoomAt(1 / ZOOM_STEP, viewport.clientWidth / 2, viewport.clientHeight / 2); };
+  document.getElementById('zoom-fit').onclick = fit;
+  window.addEventListener('resize', fit);
+  fit();
+})();
+`;
+
+// ============================================================================
+// HTML 생성
+// ============================================================================
+
+/**
+ * HTML 특수 문자 이스케이프
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * SVG를 포함한 독립 실행 HTML 문서 생성
+ * @param svg - 포함할 SVG 문자열
+ * @param title - 문서 제목
+ * @param backgroundColor - 페이지 배경색 (null이면 투명 배경 대신 중립 회색)
+ */
+export function buildInteractiveHTML(svg: string, title: string, backgroundColor: string | null): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${PAGE_STYLES}  body { background: ${backgroundColor ?? TRANSPARENT_PAGE_BACKGROUND}; }
+</style>
+</head>
+<body>
+<div id="viewport"><div id="diagram">${svg}</div></div>
+<div id="controls">
+  <button id="zoom-out" title="Zoom Out">−</button>
+  <button id="zoom-in" title="Zoom In">+</button>
+  <button id="zoom-fit" title="Fit">⤢</button>
+</div>
+<script>${PAN_ZOOM_SCRIPT}</script>
+</body>
+</html>
+`;
+}
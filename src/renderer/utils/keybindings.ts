@@ -0,0 +1,201 @@
+/**
+ * 키보드 단축키 유틸리티
+ * Electron accelerator 형식(예: "CmdOrCtrl+Shift+P")의 단축키를 키 이벤트와 비교하고 화면 표시용 문자열로 변환
+ * - CmdOrCtrl: Cmd 또는 Ctrl 중 하나 (플랫폼과 관계없이 둘 다 허용)
+ * - Cmd: Cmd(Meta)만, Ctrl: Ctrl만
+ * - Shift/Alt는 정확히 일치해야 함 (Ctrl+Tab과 Ctrl+Shift+Tab 구분)
+ * - 적용 조건(when)은 키 이벤트가 발생한 영역(에디터/터미널/탐색기)과 비교
+ */
+
+import type { KeybindingCondition, KeybindingContext } from '../../types';
+
+/**
+ * 분석한 단축키
+ */
+interface ParsedKeybinding {
+  cmdOrCtrl: boolean;
+  cmd: boolean;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  key: string;
+}
+
+// accelerator 키 이름 → KeyboardEvent.key
+const KEY_NAMES: Record<string, string> = {
+  left: 'arrowleft',
+  right: 'arrowright',
+  up: 'arrowup',
+  down: 'arrowdown',
+  esc: 'escape',
+  space: ' ',
+  plus: '+'
+};
+
+// KeyboardEvent.key → accelerator 키 이름 (단축키 입력 시)
+const ACCELERATOR_KEY_NAMES: Record<string, string> = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ' ': 'Space',
+  '+': 'Plus'
+};
+
+// 단독으로는 단축키가 아닌 보조 키
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+// 적용 조건별 영역 선택자
+const CONTEXT_SELECTORS: Record<KeybindingContext, string> = {
+  editorFocus: '.monaco-editor',
+  terminalFocus: '.terminal-panel',
+  explorerFocus: '.file-explorer-container'
+};
+
+/**
+ * macOS 여부 (단축키 표시에 Cmd/Ctrl 선택)
+ */
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && navigator.platform.includes('Mac');
+}
+
+function parseKeybinding(keybinding: string): ParsedKeybinding {
+  const parsed: ParsedKeybinding = { cmdOrCtrl: false, cmd: false, ctrl: false, shift: false, alt: false, key: '' };
+
+  // 마지막 '+'는 키 자체일 수 있음 (예: "Ctrl++")
+  const parts = keybinding.endsWith('++')
+    ? [...keybinding.slice(0, -2).split('+'), '+']
+    : keybinding.split('+');
+
+  for (const part of parts) {
+    const lower = part.toLowerCase();
+    if (lower === 'cmdorctrl' || lower === 'commandorcontrol') parsed.cmdOrCtrl = true;
+    else if (lower === 'cmd' || lower === 'command' || lower === 'meta' || lower === 'super') parsed.cmd = true;
+    else if (lower === 'ctrl' || lower === 'control') parsed.ctrl = true;
+    else if (lower === 'shift') parsed.shift = true;
+    else if (lower === 'alt' || lower === 'option') parsed.alt = true;
+    else parsed.key = KEY_NAMES[lower] ?? lower;
+  }
+
+  return parsed;
+}
+
+/**
+ * 키 이벤트의 키 이름 (소문자)
+ * Shift/Option과 함께 눌러 다른 문자가 입력된 경우(예: Shift+1 → "!") 물리 키 기준 문자/숫자 사용
+ */
+function getEventKey(event: KeyboardEvent): string {
+  const key = event.key.toLowerCase();
+  if (/^[a-z0-9]$/.test(key)) return key;
+
+  const physical = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(event.code);
+  if (physical) return (physical[1] ?? physical[2]).toLowerCase();
+  return key;
+}
+
+/**
+ * 키 이벤트가 단축키와 일치하는지 확인
+ */
+export function matchesKeybinding(event: KeyboardEvent, keybinding: string): boolean {
+  const parsed = parseKeybinding(keybinding);
+  if (!parsed.key || getEventKey(event) !== parsed.key) return false;
+  if (event.shiftKey !== parsed.shift || event.altKey !== parsed.alt) return false;
+
+  if (parsed.cmdOrCtrl) return event.metaKey || event.ctrlKey;
+  return event.metaKey === parsed.cmd && event.ctrlKey === parsed.ctrl;
+}
+
+/**
+ * 화면 표시용 단축키 문자열 (예: macOS "Cmd+Shift+P", 그 외 "Ctrl+Shift+P")
+ */
+export function formatKeybinding(keybinding: string): string {
+  const isMac = isMacPlatform();
+  return keybinding
+    .split('+')
+    .map(part => {
+      const lower = part.toLowerCase();
+      if (lower === 'cmdorctrl' || lower === 'commandorcontrol') return isMac ? 'Cmd' : 'Ctrl';
+      if (lower === 'alt' && isMac) return 'Option';
+      return part;
+    })
+    .join('+');
+}
+
+/**
+ * 키 이벤트를 단축키 문자열로 변환 (단축키 입력용)
+ * Ctrl/Cmd/Alt 없이 누른 일반 키는 입력과 겹치므로 기능 키(F1~F24)만 허용
+ * @returns 단축키가 될 수 없으면 null
+ */
+export function keybindingFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const eventKey = getEventKey(event);
+  const isFunctionKey = /^F([1-9]|1[0-9]|2[0-4])$/.test(event.key);
+  if (!event.ctrlKey && !event.metaKey && !event.altKey && !isFunctionKey) return null;
+
+  // 현재 플랫폼의 기본 보조 키(macOS Cmd, 그 외 Ctrl)는 CmdOrCtrl로 저장
+  const isMac = isMacPlatform();
+  const parts: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push('CmdOrCtrl');
+  if (isMac ? event.ctrlKey : event.metaKey) parts.push(isMac ? 'Ctrl' : 'Cmd');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+
+  const key = eventKey.length === 1
+    ? (ACCELERATOR_KEY_NAMES[eventKey] ?? eventKey.toUpperCase())
+    : (ACCELERATOR_KEY_NAMES[event.key] ?? event.key);
+  parts.push(key);
+
+  return parts.join('+');
+}
+
+/**
+ * 두 단축키가 같은 키 입력에 반응하는지 확인 (CmdOrCtrl은 Cmd, Ctrl 모두와 겹침)
+ */
+export function keybindingsOverlap(a: string, b: string): boolean {
+  const first = parseKeybinding(a);
+  const second = parseKeybinding(b);
+  if (!first.key || first.key !== second.key) return false;
+  if (first.shift !== second.shift || first.alt !== second.alt) return false;
+
+  if (first.cmdOrCtrl || second.cmdOrCtrl) {
+    const other = first.cmdOrCtrl ? second : first;
+    return other.cmdOrCtrl || other.cmd || other.ctrl;
+  }
+  return first.cmd === second.cmd && first.ctrl === second.ctrl;
+}
+
+/**
+ * 두 적용 조건이 동시에 만족될 수 있는지 확인
+ * 포커스는 한 영역에만 있으므로 서로 다른 영역 조건, 같은 영역의 긍정/부정 조건은 겹치지 않음
+ */
+export function conditionsOverlap(a?: KeybindingCondition, b?: KeybindingCondition): boolean {
+  if (!a || !b || a === b) return true;
+
+  const aNegated = a.startsWith('!');
+  const bNegated = b.startsWith('!');
+  const aContext = a.replace('!', '');
+  const bContext = b.replace('!', '');
+
+  if (!aNegated && !bNegated) return false;
+  if (aNegated !== bNegated) return aContext !== bContext;
+  return true;
+}
+
+/**
+ * 요소가 속한 영역 (키 이벤트 대상의 포커스 영역)
+ */
+export function getKeybindingContext(element: Element | null): KeybindingContext | null {
+  if (!element) return null;
+  const contexts = Object.keys(CONTEXT_SELECTORS) as KeybindingContext[];
+  return contexts.find(context => element.closest(CONTEXT_SELECTORS[context])) ?? null;
+}
+
+/**
+ * 적용 조건이 현재 영역에서 만족되는지 확인
+ */
+export function matchesCondition(condition: KeybindingCondition | undefined, context: KeybindingContext | null): boolean {
+  if (!condition) return true;
+  if (condition.startsWith('!')) return condition.slice(1) !== context;
+  return condition === context;
+}
@@ -0,0 +1,167 @@
+/**
+ * 줄 단위 diff 유틸리티
+ * 에디터 변경 거터용으로 원본(HEAD)과 현재 내용을 비교해 추가/수정/삭제 구간 계산
+ * Myers 알고리즘 (공통 접두/접미 줄은 미리 제외)
+ */
+
+import type { GitLineChange } from '../../types';
+
+// 이 이상 차이가 나면 비교를 포기하고 전체를 수정으로 표시 (큰 파일의 과도한 계산 방지)
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * 서로 다른 구간 (원본 [originalStart, originalEnd), 현재 [modifiedStart, modifiedEnd), 0부터 시작)
+ */
+interface DiffHunk {
+  originalStart: number;
+  originalEnd: number;
+  modifiedStart: number;
+  modifiedEnd: number;
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Myers 최단 편집 경로로 같은 줄 쌍(원본 인덱스, 현재 인덱스) 계산
+ * 편집 거리가 한도를 넘으면 null
+ */
+function findMatchingLines(original: string[], modified: string[]): Array<[number, number]> | null {
+  const n = original.length;
+  const m = modified.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && original[x] === modified[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, n, m, offset, original, modified);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(
+  trace: Int32Array[],
+  distance: number,
+  n: number,
+  m: number,
+  offset: number,
+  original: string[],
+  modified: string[]
+): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = distance; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  // d = 0 구간 (시작 부분의 같은 줄)
+  while (x > 0 && y > 0 && original[x - 1] === modified[y - 1]) {
+    x--;
+    y--;
+    matches.push([x, y]);
+  }
+
+  return matches.reverse();
+}
+
+/**
+ * 같은 줄 쌍 사이의 빈 구간을 변경 구간으로 묶음
+ */
+function toHunks(matches: Array<[number, number]>, n: number, m: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+
+  [...matches, [n, m] as [number, number]].forEach(([originalMatch, modifiedMatch]) => {
+    if (originalMatch > originalIndex || modifiedMatch > modifiedIndex) {
+      hunks.push({
+        originalStart: originalIndex,
+        originalEnd: originalMatch,
+        modifiedStart: modifiedIndex,
+        modifiedEnd: modifiedMatch
+      });
+    }
+    originalIndex = originalMatch + 1;
+    modifiedIndex = modifiedMatch + 1;
+  });
+
+  return hunks;
+}
+
+/**
+ * 원본 대비 현재 내용의 줄 변경 계산 (에디터 줄 번호, 1부터 시작)
+ */
+export function computeLineChanges(originalText: string, modifiedText: string): GitLineChange[] {
+  if (originalText === modifiedText) return [];
+
+  const original = splitLines(originalText);
+  const modified = splitLines(modifiedText);
+
+  // 공통 접두/접미 줄 제외
+  let prefix = 0;
+  while (prefix < original.length && prefix < modified.length && original[prefix] === modified[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < modified.length - prefix &&
+    original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const originalMiddle = original.slice(prefix, original.length - suffix);
+  const modifiedMiddle = modified.slice(prefix, modified.length - suffix);
+  const matches = findMatchingLines(originalMiddle, modifiedMiddle);
+
+  const hunks = matches
+    ? toHunks(matches, originalMiddle.length, modifiedMiddle.length)
+    : [{ originalStart: 0, originalEnd: originalMiddle.length, modifiedStart: 0, modifiedEnd: modifiedMiddle.length }];
+
+  return hunks.map(hunk => {
+    const startLineNumber = prefix + hunk.modifiedStart + 1;
+    if (hunk.modifiedEnd === hunk.modifiedStart) {
+      // 맨 앞에서 삭제되면 1번 줄 위쪽에 표시
+      return startLineNumber === 1
+        ? { type: 'deleted', startLineNumber: 1, endLineNumber: 1, aboveStartLine: true }
+        : { type: 'deleted', startLineNumber: startLineNumber - 1, endLineNumber: startLineNumber - 1 };
+    }
+    return {
+      type: hunk.originalEnd === hunk.originalStart ? 'added' : 'modified',
+      startLineNumber,
+      endLineNumber: prefix + hunk.modifiedEnd
+    };
+  });
+}
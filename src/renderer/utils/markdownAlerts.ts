@@ -0,0 +1,93 @@
+/**
+ * GitHub 스타일 알림(callout) 변환
+ * > [!NOTE] / [!TIP] / [!IMPORTANT] / [!WARNING] / [!CAUTION] 로 시작하는 인용문을
+ * 제목이 있는 알림 블록(div.markdown-alert)으로 변환
+ */
+
+import type { Root, Element as HastElement, ElementContent } from 'hast';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const ALERT_MARKER = /^\s*\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(?:\r?\n|$)/i;
+
+const ALERT_TITLES: Record<string, string> = {
+  note: 'ℹ️ Note',
+  tip: '💡 Tip',
+  important: '❗ Important',
+  warning: '⚠️ Warning',
+  caution: '🛑 Caution'
+};
+
+// ============================================================================
+// 변환
+// ============================================================================
+
+/**
+ * 인용문 첫 문단에서 알림 표시를 찾아 제거하고 알림 종류 반환
+ */
+function extractAlertType(blockquote: HastElement): string | null {
+  const firstParagraph = blockquote.children.find(
+    (child): child is HastElement => child.type === 'element'
+  );
+  if (!firstParagraph || firstParagraph.tagName !== 'p') return null;
+
+  const firstText = firstParagraph.children[0];
+  if (!firstText || firstText.type !== 'text') return null;
+
+  const match = ALERT_MARKER.exec(firstText.value);
+  if (!match) return null;
+
+  firstText.value = firstText.value.slice(match[0].length);
+  if (!firstText.value) {
+    firstParagraph.children.shift();
+  }
+  // 표시만 있던 문단(뒤에 줄바꿈 요소만 남은 경우 포함)은 제거
+  const hasContent = firstParagraph.children.some(child =>
+    !(child.type === 'element' && child.tagName === 'br') && !(child.type === 'text' && !child.value.trim())
+  );
+  if (!hasContent) {
+    blockquote.children = blockquote.children.filter(child => child !== firstParagraph);
+  }
+
+  return match[1].toLowerCase();
+}
+
+function transformElement(node: HastElement): void {
+  if (node.tagName === 'blockquote') {
+    const type = extractAlertType(node);
+    if (type) {
+      const title: HastElement = {
+        type: 'element',
+        tagName: 'p',
+        properties: { className: ['markdown-alert-title'] },
+        children: [{ type: 'text', value: ALERT_TITLES[type] }]
+      };
+      node.tagName = 'div';
+      node.properties = { ...node.properties, className: ['markdown-alert', `markdown-alert-${type}`] };
+      node.children = [title, ...node.children];
+    }
+  }
+  node.children.forEach(transformChild);
+}
+
+function transformChild(child: ElementContent): void {
+  if (child.type === 'element') {
+    transformElement(child);
+  }
+}
+
+/**
+ * GitHub 알림 인용문을 알림 블록으로 바꾸는 rehype 플러그인
+ * sanitize가 className을 제거하므로 sanitize 이후에 실행
+ */
+export function rehypeAlerts() {
+  return (tree: Root): void => {
+    tree.children.forEach(child => {
+      if (child.type === 'element') {
+        transformElement(child);
+      }
+    });
+  };
+}
@@ -0,0 +1,496 @@
+/**
+ * Markdown → DOCX 변환
+ * - Markdown 소스를 mdast로 파싱해 Word 스타일(제목, 목록, 표, 코드 블록, 인용)로 변환
+ * - mermaid 펜스는 다이어그램 내보내기와 같은 경로(generatePNGImage)로 고해상도 PNG를 만들어 포함
+ * - 로컬 이미지는 PNG로 변환해 포함 (외부 URL 이미지는 링크로 남김)
+ * - 수식은 Word 수식 대신 TeX 원문을 수식 글꼴로 표시
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import type { IRunOptions, ParagraphChild } from 'docx';
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkMath from 'remark-math';
+import { generatePNGImage } from './diagramExporter';
+import type { PNGImage } from './diagramExporter';
+import { applyDocumentMermaidConfig } from './frontMatter';
+import { isExternalUrl, resolveImageSource } from './markdownLinks';
+import type { Nodes, PhrasingContent, Root, RootContent, Table as MdastTable } from 'mdast';
+import type { FilePath, MarkdownFrontMatter } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface MarkdownDocxOptions {
+  currentFilePath: FilePath | null;   // 상대 경로 이미지 기준 파일
+  frontMatter: MarkdownFrontMatter | null;
+}
+
+type BlockContent = Paragraph | Table;
+
+// 블록 변환 상태 (인용/목록 중첩)
+interface BlockContext {
+  quote: boolean;
+  listLevel: number;    // -1: 목록 밖
+}
+
+// 펜스/이미지 노드 → 미리 만든 PNG
+type ImageCache = Map<Nodes, PNGImage>;
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+// A4 세로, 여백 1 inch 기준 본문 너비 (px, 96 dpi)
+const MAX_IMAGE_WIDTH = 600;
+
+// 다이어그램은 흰 용지에 맞춰 라이트 테마, 흰 배경, 3배 해상도로 렌더링
+const DIAGRAM_RENDER_OPTIONS = {
+  scale: 3,
+  theme: 'light',
+  background: 'solid',
+  backgroundColor: '#ffffff'
+} as const;
+
+// SVG 이미지는 해상도가 없으므로 배율을 적용해 래스터화
+const SVG_IMAGE_SCALE = 3;
+
+const CODE_FONT = 'Consolas';
+const MATH_FONT = 'Cambria Math';
+
+const ORDERED_LIST_REFERENCE = 'ordered-list';
+const MAX_LIST_LEVEL = 8;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const TABLE_ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT
+};
+
+const BORDER_COLOR = 'D0D7DE';
+
+// Word 스타일 정의 (제목/목록은 Word 기본 스타일 사용)
+const PARAGRAPH_STYLES = [
+  {
+    id: 'SourceCode',
+    name: 'Source Code',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { font: CODE_FONT, size: 19 },
+    paragraph: {
+      spacing: { before: 120, after: 120, line: 260 },
+      shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F6F8FA' },
+      border: {
+        top: { style: BorderStyle.SINGLE, size: 4, color: BORDER_COLOR, space: 4 },
+        bottom: { style: BorderStyle.SINGLE, size: 4, color: BORDER_COLOR, space: 4 },
+        left: { style: BorderStyle.SINGLE, size: 4, color: BORDER_COLOR, space: 4 },
+        right: { style: BorderStyle.SINGLE, size: 4, color: BORDER_COLOR, space: 4 }
+      }
+    }
+  },
+  {
+    id: 'Quote',
+    name: 'Quote',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { color: '57606A' },
+    paragraph: {
+      indent: { left: 360 },
+      border: { left: { style: BorderStyle.SINGLE, size: 18, color: BORDER_COLOR, space: 8 } }
+    }
+  },
+  {
+    id: 'Subtitle',
+    name: 'Subtitle',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { color: '57606A' },
+    paragraph: { spacing: { after: 240 } }
+  },
+  {
+    id: 'Figure',
+    name: 'Figure',
+    basedOn: 'Normal',
+    next: 'Normal',
+    paragraph: { alignment: AlignmentType.CENTER, spacing: { before: 120, after: 120 } }
+  }
+];
+
+const CHARACTER_STYLES = [
+  {
+    id: 'InlineCode',
+    name: 'Inline Code',
+    basedOn: 'DefaultParagraphFont',
+    run: { font: CODE_FONT, size: 19, shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'EFF1F3' } }
+  }
+];
+
+// ============================================================================
+// 이미지 준비
+// ============================================================================
+
+/**
+ * Blob을 Data URL로 변환
+ */
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 로컬 이미지를 PNG로 변환 (캔버스 오염을 피하려고 Data URL로 로드)
+ */
+async function rasterizeImage(url: string): Promise<PNGImage> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load image ${url} (${response.status})`);
+  }
+  const blob = await response.blob();
+  const dataUrl = await blobToDataURL(blob);
+
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+
+  const width = img.naturalWidth || img.width;
+  const height = img.naturalHeight || img.height;
+  const scale = blob.type === 'image/svg+xml' ? SVG_IMAGE_SCALE : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const png = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Failed to create PNG image'))), 'image/png');
+  });
+  return { data: new Uint8Array(await png.arrayBuffer()), width, height };
+}
+
+/**
+ * mermaid 펜스와 로컬 이미지를 미리 PNG로 변환
+ * Mermaid 렌더링이 겹치지 않도록 하나씩 처리하고, 실패한 항목은 원문/대체 텍스트로 남김
+ */
+async function prepareImages(tree: Root, options: MarkdownDocxOptions): Promise<ImageCache> {
+  const cache: ImageCache = new Map();
+  const pending: Nodes[] = [];
+
+  const collect = (node: Nodes): void => {
+    if ((node.type === 'code' && node.lang === 'mermaid') || node.type === 'image') {
+      pending.push(node);
+    }
+    if ('children' in node) {
+      node.children.forEach(child => collect(child as Nodes));
+    }
+  };
+  collect(tree);
+
+  for (const node of pending) {
+    try {
+      if (node.type === 'code') {
+        const code = applyDocumentMermaidConfig(node.value, options.frontMatter?.mermaid ?? null);
+        cache.set(node, await generatePNGImage(code, DIAGRAM_RENDER_OPTIONS));
+      } else if (node.type === 'image' && !isExternalUrl(node.url)) {
+        const src = resolveImageSource(node.url, options.currentFilePath);
+        if (src) {
+          cache.set(node, await rasterizeImage(src));
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to embed image in DOCX:', error);
+    }
+  }
+
+  return cache;
+}
+
+/**
+ * 본문 너비에 맞춘 이미지 런
+ */
+function createImageRun(image: PNGImage, altText: string): ImageRun {
+  const ratio = Math.min(1, MAX_IMAGE_WIDTH / image.width);
+  return new ImageRun({
+    type: 'png',
+    data: image.data,
+    transformation: {
+      width: Math.round(image.width * ratio),
+      height: Math.round(image.height * ratio)
+    },
+    altText: { name: altText, title: altText, description: altText }
+  });
+}
+
+// ============================================================================
+// 인라인 변환
+// ============================================================================
+
+/**
+ * 인라인 노드 → 런 (강조/굵게/취소선은 부모 서식을 이어받음)
+ */
+function convertInline(nodes: PhrasingContent[], images: ImageCache, format: IRunOptions = {}): ParagraphChild[] {
+  return nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case 'text':
+        return [new TextRun({ ...format, text: node.value.replace(/\n/g, ' ') })];
+      case 'strong':
+        return convertInline(node.children, images, { ...format, bold: true });
+      case 'emphasis':
+        return convertInline(node.children, images, { ...format, italics: true });
+      case 'delete':
+        return convertInline(node.children, images, { ...format, strike: true });
+      case 'inlineCode':
+        return [new TextRun({ ...format, text: node.value, style: 'InlineCode' })];
+      case 'inlineMath':
+        return [new TextRun({ ...format, text: node.value, font: MATH_FONT, italics: true })];
+      case 'break':
+        return [new TextRun({ ...format, break: 1 })];
+      case 'link': {
+        const children = convertInline(node.children, images, { ...format, style: 'Hyperlink' });
+        // 문서 안 앵커/상대 경로 링크는 Word에서 열 수 없으므로 텍스트만 유지
+        return isExternalUrl(node.url) ? [new ExternalHyperlink({ link: node.url, children })] : children;
+      }
+      case 'image': {
+        const image = images.get(node);
+        if (image) return [createImageRun(image, node.alt ?? '')];
+        const label = node.alt || node.url;
+        return isExternalUrl(node.url)
+          ? [new ExternalHyperlink({ link: node.url, children: [new TextRun({ text: label, style: 'Hyperlink' })] })]
+          : [new TextRun({ ...format, text: `[${label}]` })];
+      }
+      case 'footnoteReference':
+        return [new TextRun({ ...format, text: `[${node.label ?? node.identifier}]`, superScript: true })];
+      default:
+        return [];
+    }
+  });
+}
+
+// ============================================================================
+// 블록 변환
+// ============================================================================
+
+/**
+ * 문단 스타일/들여쓰기 (인용 안, 목록 안의 두 번째 문단 이후)
+ */
+function paragraphLayout(context: BlockContext): { style?: string; indent?: { left: number } } {
+  return {
+    ...(context.quote ? { style: 'Quote' } : {}),
+    ...(context.listLevel >= 0 ? { indent: { left: 720 * (context.listLevel + 1) } } : {})
+  };
+}
+
+/**
+ * 코드 블록 (줄마다 줄바꿈 런을 넣어 하나의 음영 문단으로 유지)
+ */
+function convertCodeBlock(value: string, context: BlockContext): Paragraph {
+  const lines = value.split('\n');
+  return new Paragraph({
+    style: 'SourceCode',
+    ...(context.listLevel >= 0 ? { indent: { left: 720 * (context.listLevel + 1) } } : {}),
+    children: lines.map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined }))
+  });
+}
+
+/**
+ * GFM 표 (첫 행은 머리글, 열 정렬 유지)
+ */
+function convertTable(node: MdastTable, images: ImageCache): Table {
+  const alignments = node.align ?? [];
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: node.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: row.children.map((cell, cellIndex) => {
+        const align = alignments[cellIndex];
+        return new TableCell({
+          ...(rowIndex === 0 ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F6F8FA' } } : {}),
+          children: [new Paragraph({
+            ...(align ? { alignment: TABLE_ALIGNMENTS[align] } : {}),
+            children: convertInline(cell.children, images, rowIndex === 0 ? { bold: true } : {})
+          })]
+        });
+      })
+    }))
+  });
+}
+
+/**
+ * 블록 노드 → 문단/표
+ * @param listInstance - 번호 목록마다 번호를 새로 시작하기 위한 인스턴스 카운터
+ */
+function convertBlocks(
+  nodes: RootContent[],
+  images: ImageCache,
+  context: BlockContext,
+  listInstance: { next: number }
+): BlockContent[] {
+  return nodes.flatMap((node): BlockContent[] => {
+    switch (node.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: HEADING_LEVELS[node.depth - 1],
+          children: convertInline(node.children, images)
+        })];
+
+      case 'paragraph':
+        return [new Paragraph({ ...paragraphLayout(context), children: convertInline(node.children, images) })];
+
+      case 'blockquote':
+        return convertBlocks(node.children, images, { ...context, quote: true }, listInstance);
+
+      case 'code': {
+        const image = node.lang === 'mermaid' ? images.get(node) : undefined;
+        if (image) {
+          return [new Paragraph({ style: 'Figure', children: [createImageRun(image, 'Mermaid diagram')] })];
+        }
+        return [convertCodeBlock(node.value, context)];
+      }
+
+      case 'math':
+        return [new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: node.value, font: MATH_FONT, italics: true })]
+        })];
+
+      case 'list': {
+        const level = Math.min(context.listLevel + 1, MAX_LIST_LEVEL);
+        const instance = listInstance.next++;
+        return node.children.flatMap(item => {
+          const [first, ...rest] = item.children;
+          const checkbox = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : '';
+          const numbering = node.ordered
+            ? { numbering: { reference: ORDERED_LIST_REFERENCE, level, instance } }
+            : { bullet: { level } };
+
+          const firstParagraph = new Paragraph({
+            ...(context.quote ? { style: 'Quote' } : {}),
+            ...numbering,
+            children: [
+              ...(checkbox ? [new TextRun(checkbox)] : []),
+              ...(first?.type === 'paragraph' ? convertInline(first.children, images) : [])
+            ]
+          });
+          const remaining = first && first.type !== 'paragraph' ? [first, ...rest] : rest;
+          return [firstParagraph, ...convertBlocks(remaining, images, { ...context, listLevel: level }, listInstance)];
+        });
+      }
+
+      case 'table':
+        return [convertTable(node, images)];
+
+      case 'thematicBreak':
+        return [new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BORDER_COLOR, space: 1 } },
+          children: []
+        })];
+
+      case 'footnoteDefinition': {
+        const [first, ...rest] = node.children;
+        const label = new TextRun({ text: `[${node.label ?? node.identifier}] `, superScript: true });
+        return [
+          new Paragraph({ children: [label, ...(first?.type === 'paragraph' ? convertInline(first.children, images) : [])] }),
+          ...convertBlocks(first?.type === 'paragraph' ? rest : node.children, images, context, listInstance)
+        ];
+      }
+
+      default:
+        // yaml(front-matter), html, definition은 문서 본문이 아님
+        return [];
+    }
+  });
+}
+
+/**
+ * front-matter 제목과 작성자/날짜 (미리보기 머리말과 같은 정보)
+ */
+function buildTitleBlock(frontMatter: MarkdownFrontMatter | null): Paragraph[] {
+  if (!frontMatter?.title) return [];
+
+  const meta = [frontMatter.authors.join(', '), frontMatter.date, frontMatter.status].filter(Boolean).join(' · ');
+  return [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(frontMatter.title)] }),
+    ...(meta ? [new Paragraph({ style: 'Subtitle', children: [new TextRun(meta)] })] : [])
+  ];
+}
+
+// ============================================================================
+// 문서 생성
+// ============================================================================
+
+/**
+ * 번호 목록 번호 형식 (수준마다 1. → a. → i. 반복)
+ */
+function buildOrderedListLevels() {
+  const formats = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+  return Array.from({ length: MAX_LIST_LEVEL + 1 }, (_, level) => ({
+    level,
+    format: formats[level % formats.length],
+    text: `%${level + 1}.`,
+    alignment: AlignmentType.START,
+    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+  }));
+}
+
+/**
+ * Markdown 소스를 DOCX 파일 데이터로 변환
+ */
+export async function buildMarkdownDocx(markdown: string, options: MarkdownDocxOptions): Promise<Uint8Array> {
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkFrontmatter)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .parse(markdown) as Root;
+
+  const images = await prepareImages(tree, options);
+  const body = convertBlocks(tree.children, images, { quote: false, listLevel: -1 }, { next: 1 });
+  const { frontMatter } = options;
+
+  const document = new Document({
+    title: frontMatter?.title ?? undefined,
+    creator: frontMatter?.authors.join(', ') || undefined,
+    keywords: frontMatter?.tags.join(', ') || undefined,
+    styles: {
+      paragraphStyles: PARAGRAPH_STYLES,
+      characterStyles: CHARACTER_STYLES
+    },
+    numbering: {
+      config: [{ reference: ORDERED_LIST_REFERENCE, levels: buildOrderedListLevels() }]
+    },
+    sections: [{ children: [...buildTitleBlock(frontMatter), ...body] }]
+  });
+
+  return new Uint8Array(await Packer.toArrayBuffer(document));
+}
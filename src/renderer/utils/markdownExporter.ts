@@ -1,10 +1,20 @@
 /**
- * Markdown PDF 내보내기 유틸리티
+ * Markdown PDF/HTML 내보내기 유틸리티
  * - Electron printToPDF API 사용 (브라우저 프린트 엔진)
  * - CSS break-inside: avoid 자동 적용
+ * - KaTeX 수식과 알림 블록은 앱 스타일시트를 그대로 복사해 유지
+ * - 옵션에 따라 front-matter 표지와 쪽 번호가 있는 목차 추가 (용지/여백/머리글·바닥글은 메인 프로세스에서 적용)
  * - 이미지 비율 유지, 페이지 분할 최적화
+ * - HTML: 미리보기 DOM(렌더링된 다이어그램 SVG, 하이라이팅된 코드)을 사용하는 자바스크립트 없는 단일 파일
+ * - DOCX: Markdown 소스를 Word 스타일로 변환하고 다이어그램/이미지는 PNG로 포함 (markdownDocx)
  */
 
+import { escapeHTML } from './interactiveHtml';
+import { LOCAL_FILE_PROTOCOL, toLocalFileUrl } from './markdownLinks';
+import { buildMarkdownDocx } from './markdownDocx';
+import { DEFAULT_MARKDOWN_HTML_OPTIONS } from '../constants/markdownPdf';
+import type { FilePath, MarkdownFrontMatter, MarkdownHtmlOptions, MarkdownPdfOptions } from '../../types';
+
 // ============================================================================
 // 타입 정의
 // ============================================================================
@@ -29,11 +39,6 @@ const PDF_STYLES = `
     box-sizing: border-box;
   }
 
-  @page {
-    size: A4;
-    margin: 0;
-  }
-
   html, body {
     margin: 0;
     padding: 0;
@@ -44,7 +49,6 @@ const PDF_STYLES = `
 
   .markdown-content {
     max-width: 100%;
-    padding: 15mm;
     min-height: 100vh;
   }
 
@@ -54,7 +58,8 @@ const PDF_STYLES = `
     break-after: avoid;
   }
 
-  pre, blockquote, table, img {
+  pre, blockquote, table, img,
+  .markdown-alert, .katex-display {
     page-break-inside: avoid;
     break-inside: avoid;
   }
@@ -87,6 +92,167 @@ const PDF_STYLES = `
   }
 `;
 
+// 브라우저 프린트: 용지/여백을 지정할 수 없으므로 A4 전체를 배경으로 채우고 본문 안쪽 여백 사용
+const PRINT_PAGE_STYLES = `
+  @page {
+    size: A4;
+    margin: 0;
+  }
+
+  .markdown-content {
+    padding: 15mm;
+  }
+`;
+
+// PDF 내보내기: 여백은 printToPDF 옵션으로 지정 (머리글/바닥글이 여백 영역에 표시됨)
+const PDF_PAGE_STYLES = `
+  .markdown-content {
+    padding: 0;
+  }
+
+  /* 표지 */
+  .markdown-content .pdf-cover {
+    padding-top: 30vh;
+    text-align: center;
+    color: var(--md-text);
+    break-after: page;
+    page-break-after: always;
+  }
+
+  .markdown-content .pdf-cover-title {
+    font-size: 2.4em;
+    font-weight: 600;
+    margin: 0 0 24px 0;
+    border-bottom: none;
+  }
+
+  .markdown-content .pdf-cover-meta {
+    margin: 4px 0;
+    color: var(--md-text-secondary);
+  }
+
+  /* 목차 */
+  .markdown-content .pdf-toc {
+    color: var(--md-text);
+    break-after: page;
+    page-break-after: always;
+  }
+
+  .markdown-content .pdf-toc-title {
+    font-size: 1.5em;
+    font-weight: 600;
+    margin: 0 0 16px 0;
+  }
+
+  .markdown-content .pdf-toc-list {
+    list-style: none;
+    margin: 0;
+    padding: 0;
+  }
+
+  .markdown-content .pdf-toc-item {
+    display: flex;
+    align-items: baseline;
+    gap: 6px;
+    margin: 4px 0;
+  }
+
+  .markdown-content .pdf-toc-item a {
+    color: var(--md-text);
+    text-decoration: none;
+  }
+
+  .markdown-content .pdf-toc-leader {
+    flex: 1;
+    border-bottom: 1px dotted var(--md-text-secondary);
+  }
+
+  .markdown-content .pdf-toc-page {
+    min-width: 2em;
+    text-align: right;
+  }
+`;
+
+// 목차 들여쓰기 (수준당 em)
+const TOC_INDENT_EM = 1.5;
+
+// 인쇄/PDF에서 다이어그램 최대 너비 (A4 기준 컨텐츠 영역, px)
+const PRINT_MAX_DIAGRAM_WIDTH = 650;
+
+// CSS url() 참조 (따옴표 유무 모두)
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+// ============================================================================
+// 스타일 복사
+// ============================================================================
+
+/**
+ * CSS 텍스트의 상대 경로 url()을 기준 URL에 대한 절대 URL로 변환
+ */
+function absolutizeCssUrls(cssText: string, baseUrl: string): string {
+  return cssText.replace(CSS_URL_PATTERN, (match, _quote: string, url: string) => {
+    if (/^(?:data:|blob:|#)/.test(url)) return match;
+    try {
+      return `url("${new URL(url, baseUrl).href}")`;
+    } catch (_) {
+      return match;
+    }
+  });
+}
+
+/**
+ * 현재 페이지의 스타일시트 규칙을 하나의 문자열로 복사
+ * 복사본은 다른 문서(프린트 창, PDF용 data: URL)에서 쓰이므로
+ * 상대 경로 url()을 원래 스타일시트 위치 기준 절대 URL로 변환 (KaTeX 글꼴 등)
+ */
+function collectPageStyles(): string {
+  let styles = '';
+  try {
+    Array.from(document.styleSheets).forEach(styleSheet => {
+      const baseUrl = styleSheet.href || document.baseURI;
+      try {
+        Array.from(styleSheet.cssRules).forEach(rule => {
+          styles += absolutizeCssUrls(rule.cssText, baseUrl) + '\n';
+        });
+      } catch (_) { /* cross-origin 스타일시트 무시 */ }
+    });
+  } catch (_) { /* ignore */ }
+  return styles;
+}
+
+// ============================================================================
+// 인쇄용 본문
+// ============================================================================
+
+/**
+ * 미리보기 본문을 인쇄/PDF용으로 복제
+ * 복사 버튼 등을 제거하고 Mermaid SVG 크기를 viewBox 기준으로 고정 (최대 너비 제한)
+ */
+function clonePrintableContent(element: HTMLElement): HTMLElement {
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  clone.querySelectorAll('.copy-button, .mermaid-copy-btn, .code-copy-btn, button').forEach((btn) => {
+    btn.remove();
+  });
+
+  clone.querySelectorAll('.mermaid-block svg').forEach((svg) => {
+    const svgEl = svg as SVGSVGElement;
+    const viewBox = svgEl.getAttribute('viewBox');
+
+    if (viewBox) {
+      const [, , vbWidth, vbHeight] = viewBox.split(/\s+/).map(Number);
+      if (vbWidth && vbHeight) {
+        const scale = vbWidth > PRINT_MAX_DIAGRAM_WIDTH ? PRINT_MAX_DIAGRAM_WIDTH / vbWidth : 1;
+        svgEl.style.width = `${vbWidth * scale}px`;
+        svgEl.style.height = `${vbHeight * scale}px`;
+        svgEl.style.maxWidth = '100%';
+      }
+    }
+  });
+
+  return clone;
+}
+
 // ============================================================================
 // 메인 내보내기 함수
 // ============================================================================
@@ -99,7 +265,9 @@ const PDF_STYLES = `
 export async function exportMarkdownToPDF(
   element: HTMLElement | null,
   fileName: string,
-  showToast?: ShowToastFn
+  showToast?: ShowToastFn,
+  options?: MarkdownPdfOptions,
+  frontMatter: MarkdownFrontMatter | null = null
 ): Promise<ExportResult> {
   try {
     if (!element) {
@@ -113,10 +281,10 @@ export async function exportMarkdownToPDF(
     if (showToast) showToast('Preparing PDF...', 'info');
 
     // HTML 콘텐츠 준비
-    const htmlContent = buildPDFHTML(element);
+    const htmlContent = buildPDFHTML(element, fileName, options, frontMatter);
 
     // printToPDF API 호출
-    const result = await window.electronAPI.printToPDF(htmlContent, `${fileName}.pdf`);
+    const result = await window.electronAPI.printToPDF(htmlContent, `${fileName}.pdf`, options);
 
     if (result.canceled) {
       return { success: false, canceled: true };
@@ -142,63 +310,90 @@ export async function exportMarkdownToPDF(
   }
 }
 
+/**
+ * front-matter로 표지 생성 (제목이 없으면 파일 이름 사용)
+ */
+function buildCoverPage(title: string, frontMatter: MarkdownFrontMatter | null): string {
+  const meta = [
+    frontMatter?.authors.join(', '),
+    frontMatter?.date,
+    frontMatter?.status,
+    frontMatter?.tags.map(tag => `#${tag}`).join(' ')
+  ].filter((value): value is string => Boolean(value));
+
+  return `<section class="pdf-cover">
+    <h1 class="pdf-cover-title">${escapeHTML(frontMatter?.title ?? title)}</h1>
+    ${meta.map(value => `<p class="pdf-cover-meta">${escapeHTML(value)}</p>`).join('\n')}
+  </section>`;
+}
+
+/**
+ * 본문 제목으로 목차 생성 (쪽 번호는 메인 프로세스가 .pdf-toc-page에 채움)
+ * 쪽 번호 계산과 같은 기준으로 본문 최상위의 id가 있는 제목만 포함
+ */
+function buildTableOfContents(content: HTMLElement, depth: number): string {
+  const selector = Array.from({ length: depth }, (_, i) => `:scope > h${i + 1}[id]`).join(', ');
+  const headings = Array.from(content.querySelectorAll<HTMLElement>(selector));
+  if (headings.length === 0) return '';
+
+  const minLevel = Math.min(...headings.map(heading => Number(heading.tagName[1])));
+  const items = headings.map(heading => {
+    const indent = (Number(heading.tagName[1]) - minLevel) * TOC_INDENT_EM;
+    return `<li class="pdf-toc-item" style="padding-left: ${indent}em">
+      <a href="#${escapeHTML(heading.id)}">${escapeHTML(heading.textContent?.trim() ?? '')}</a>
+      <span class="pdf-toc-leader"></span>
+      <span class="pdf-toc-page" data-target="${escapeHTML(heading.id)}">0</span>
+    </li>`;
+  });
+
+  return `<nav class="pdf-toc">
+    <h2 class="pdf-toc-title">Contents</h2>
+    <ol class="pdf-toc-list">${items.join('\n')}</ol>
+  </nav>`;
+}
+
 /**
  * PDF용 완전한 HTML 문서 생성
+ * @param title - 문서 제목 (PDF 메타데이터의 Title로 사용)
+ * @param options - 표지/목차 옵션 (없으면 본문만)
+ * @param frontMatter - 표지에 사용할 문서 front-matter
  */
-function buildPDFHTML(element: HTMLElement): string {
+function buildPDFHTML(
+  element: HTMLElement,
+  title: string,
+  options?: MarkdownPdfOptions,
+  frontMatter: MarkdownFrontMatter | null = null
+): string {
   // 현재 테마 감지
   const currentTheme = document.documentElement.getAttribute('data-theme') || 'light';
 
-  // SVG 크기 고정 처리
-  const clone = element.cloneNode(true) as HTMLElement;
+  const clone = clonePrintableContent(element);
 
-  // 복사 버튼 제거 (PDF에서 불필요)
-  clone.querySelectorAll('.copy-button, .mermaid-copy-btn, .code-copy-btn, button').forEach((btn) => {
-    btn.remove();
-  });
+  // 표지를 만들면 본문의 front-matter 머리말은 중복이므로 제거
+  if (options?.coverPage) {
+    clone.querySelector('.front-matter-header')?.remove();
+  }
+  const cover = options?.coverPage ? buildCoverPage(title, frontMatter) : '';
+  const toc = options?.tableOfContents ? buildTableOfContents(clone, options.tocDepth) : '';
 
-  // 모든 Mermaid SVG의 크기를 명시적으로 설정
-  clone.querySelectorAll('.mermaid-block svg').forEach((svg) => {
-    const svgEl = svg as SVGSVGElement;
-    const viewBox = svgEl.getAttribute('viewBox');
-
-    if (viewBox) {
-      const [, , vbWidth, vbHeight] = viewBox.split(/\s+/).map(Number);
-      if (vbWidth && vbHeight) {
-        // viewBox 기준으로 크기 설정 (최대 너비 제한)
-        const maxWidth = 650; // A4 기준 컨텐츠 영역
-        const scale = vbWidth > maxWidth ? maxWidth / vbWidth : 1;
-        svgEl.style.width = `${vbWidth * scale}px`;
-        svgEl.style.height = `${vbHeight * scale}px`;
-        svgEl.style.maxWidth = '100%';
-      }
-    }
-  });
-
-  // 현재 페이지의 스타일시트 복사
-  let appStyles = '';
-  try {
-    Array.from(document.styleSheets).forEach(styleSheet => {
-      try {
-        Array.from(styleSheet.cssRules).forEach(rule => {
-          appStyles += rule.cssText + '\n';
-        });
-      } catch (_) { /* cross-origin 스타일시트 무시 */ }
-    });
-  } catch (_) { /* ignore */ }
+  // 현재 페이지의 스타일시트 복사 (KaTeX 글꼴 등 url()은 절대 경로로)
+  const appStyles = collectPageStyles();
 
   return `<!DOCTYPE html>
 <html data-theme="${currentTheme}">
 <head>
   <meta charset="UTF-8">
-  <title>PDF Export</title>
+  <title>${escapeHTML(title)}</title>
   <style>
     ${appStyles}
     ${PDF_STYLES}
+    ${options ? PDF_PAGE_STYLES : PRINT_PAGE_STYLES}
   </style>
 </head>
 <body data-theme="${currentTheme}">
   <div class="markdown-content">
+    ${cover}
+    ${toc}
     ${clone.innerHTML}
   </div>
 </body>
@@ -217,41 +412,10 @@ export function printMarkdownPreview(element: HTMLElement | null): void {
   // 현재 테마 감지
   const currentTheme = document.documentElement.getAttribute('data-theme') || 'light';
 
-  // SVG 크기 고정 처리
-  const clone = element.cloneNode(true) as HTMLElement;
-
-  // 복사 버튼 제거
-  clone.querySelectorAll('.copy-button, .mermaid-copy-btn, .code-copy-btn, button').forEach((btn) => {
-    btn.remove();
-  });
-
-  clone.querySelectorAll('.mermaid-block svg').forEach((svg) => {
-    const svgEl = svg as SVGSVGElement;
-    const viewBox = svgEl.getAttribute('viewBox');
-
-    if (viewBox) {
-      const [, , vbWidth, vbHeight] = viewBox.split(/\s+/).map(Number);
-      if (vbWidth && vbHeight) {
-        const maxWidth = 650;
-        const scale = vbWidth > maxWidth ? maxWidth / vbWidth : 1;
-        svgEl.style.width = `${vbWidth * scale}px`;
-        svgEl.style.height = `${vbHeight * scale}px`;
-        svgEl.style.maxWidth = '100%';
-      }
-    }
-  });
+  const clone = clonePrintableContent(element);
 
-  // 현재 페이지의 스타일시트 복사
-  let appStyles = '';
-  try {
-    Array.from(document.styleSheets).forEach(styleSheet => {
-      try {
-        Array.from(styleSheet.cssRules).forEach(rule => {
-          appStyles += rule.cssText + '\n';
-        });
-      } catch (_) { /* cross-origin 스타일시트 무시 */ }
-    });
-  } catch (_) { /* ignore */ }
+  // 현재 페이지의 스타일시트 복사 (KaTeX 글꼴 등 url()은 절대 경로로)
+  const appStyles = collectPageStyles();
 
   printWindow.document.write(`<!DOCTYPE html>
 <html data-theme="${currentTheme}">
@@ -260,6 +424,7 @@ export function printMarkdownPreview(element: HTMLElement | null): void {
   <style>
     ${appStyles}
     ${PDF_STYLES}
+    ${PRINT_PAGE_STYLES}
   </style>
 </head>
 <body data-theme="${currentTheme}">
@@ -272,13 +437,397 @@ export function printMarkdownPreview(element: HTMLElement | null): void {
   printWindow.document.close();
   printWindow.focus();
 
-  setTimeout(() => {
-    printWindow.print();
-    printWindow.close();
-  }, 500);
+  // 수식 글꼴이 로드된 뒤에 프린트
+  printWindow.document.fonts.ready.then(() => {
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 500);
+  });
+}
+
+// ============================================================================
+// HTML 내보내기
+// ============================================================================
+
+// 정적 문서에서는 일치할 수 없는 상태 의사 클래스/의사 요소 (선택자 사용 여부 검사 시 제거)
+const DYNAMIC_PSEUDO_PATTERN = /::?(?:hover|focus(?:-visible|-within)?|active|visited|before|after|first-line|first-letter|selection|placeholder|marker|-webkit-[\w-]+|-moz-[\w-]+)(?:\([^)]*\))?/g;
+
+// @font-face src의 url()과 format()
+const FONT_SOURCE_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)(?:\s*format\(\s*['"]?([\w-]+)['"]?\s*\))?/g;
+
+// 단일 HTML 페이지 레이아웃 (앱 전역 스타일의 body overflow: hidden 등을 덮어씀)
+const HTML_PAGE_STYLES = `
+  html, body {
+    margin: 0;
+    padding: 0;
+    height: auto;
+    overflow: auto;
+  }
+
+  .markdown-content {
+    max-width: none;
+    min-height: 100vh;
+    height: auto;
+    overflow: visible;
+    padding: 32px max(24px, calc((100% - 860px) / 2));
+  }
+
+  .markdown-content .mermaid-block svg {
+    max-width: 100%;
+    height: auto;
+  }
+
+  /* 고정 목차 */
+  .markdown-content.has-toc {
+    padding-right: max(300px, calc((100% - 860px) / 2));
+  }
+
+  .markdown-content .html-toc {
+    position: fixed;
+    top: 24px;
+    right: 24px;
+    width: 240px;
+    max-height: calc(100vh - 48px);
+    overflow-y: auto;
+    padding: 12px 16px;
+    background: var(--md-bg);
+    border: 1px solid var(--md-border);
+    border-radius: 6px;
+    font-size: 0.85em;
+  }
+
+  .markdown-content .html-toc-title {
+    margin: 0 0 8px 0;
+    font-weight: 600;
+    color: var(--md-text-secondary);
+    text-transform: uppercase;
+    font-size: 0.85em;
+  }
+
+  .markdown-content .html-toc-list {
+    list-style: none;
+    margin: 0;
+    padding: 0;
+  }
+
+  .markdown-content .html-toc-item {
+    margin: 4px 0;
+  }
+
+  @media (max-width: 1100px) {
+    .markdown-content .html-toc {
+      display: none;
+    }
+
+    .markdown-content.has-toc {
+      padding-right: 24px;
+    }
+  }
+`;
+
+/**
+ * URL을 렌더러에서 fetch 가능한 URL로 변환
+ * file:// 은 fetch가 막혀 있으므로 로컬 파일 프로토콜을 거침
+ */
+function toFetchableUrl(url: string): string {
+  if (!url.startsWith('file:')) return url;
+  return toLocalFileUrl(decodeURIComponent(new URL(url).pathname));
+}
+
+/**
+ * URL 내용을 Data URL로 읽기
+ */
+async function fetchAsDataURL(url: string): Promise<string> {
+  const response = await fetch(toFetchableUrl(url));
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status})`);
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${url}`));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 선택자가 내보낼 문서의 요소와 일치하는지 확인
+ */
+function selectorMatches(doc: Document, selectorText: string): boolean {
+  const selector = selectorText.replace(DYNAMIC_PSEUDO_PATTERN, '').trim() || '*';
+  try {
+    return doc.querySelector(selector) !== null;
+  } catch (_) {
+    return false;
+  }
+}
+
+/**
+ * 스타일 규칙 중 내보낼 문서에서 쓰이는 규칙만 복사
+ * @font-face는 따로 모아 사용하는 글꼴만 포함
+ */
+function collectUsedRules(rules: CSSRuleList, doc: Document, baseUrl: string, fontFaces: CSSFontFaceRule[]): string {
+  let styles = '';
+  Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      if (selectorMatches(doc, rule.selectorText)) {
+        styles += absolutizeCssUrls(rule.cssText, baseUrl) + '\n';
+      }
+    } else if (rule instanceof CSSFontFaceRule) {
+      fontFaces.push(rule);
+    } else if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+      const inner = collectUsedRules(rule.cssRules, doc, baseUrl, fontFaces);
+      if (inner) {
+        const keyword = rule instanceof CSSMediaRule ? '@media' : '@supports';
+        styles += `${keyword} ${rule.conditionText} {\n${inner}}\n`;
+      }
+    }
+  });
+  return styles;
+}
+
+/**
+ * 글꼴을 Data URL로 포함한 @font-face 규칙 (woff2 우선, 읽지 못하면 null)
+ */
+async function inlineFontFace(rule: CSSFontFaceRule, baseUrl: string): Promise<string | null> {
+  const sources = Array.from(rule.style.getPropertyValue('src').matchAll(FONT_SOURCE_PATTERN));
+  const source = sources.find(match => match[3] === 'woff2') ?? sources[0];
+  if (!source) return null;
+
+  try {
+    const dataUrl = await fetchAsDataURL(new URL(source[2], baseUrl).href);
+    const declarations = Array.from(rule.style)
+      .filter(property => property !== 'src')
+      .map(property => `${property}: ${rule.style.getPropertyValue(property)};`)
+      .join(' ');
+    const format = source[3] ? ` format("${source[3]}")` : '';
+    return `@font-face { ${declarations} src: url("${dataUrl}")${format}; }`;
+  } catch (error) {
+    console.warn('Failed to embed font:', error);
+    return null;
+  }
+}
+
+/**
+ * 내보낼 문서에서 쓰이는 스타일만 수집하고 사용하는 글꼴은 파일에 포함
+ * 현재 테마의 [data-theme] 규칙만 일치하므로 다른 테마의 스타일은 제외됨
+ */
+async function collectStandaloneStyles(doc: Document): Promise<string> {
+  let styles = '';
+  const fontFaces: { rule: CSSFontFaceRule; baseUrl: string }[] = [];
+
+  Array.from(document.styleSheets).forEach(styleSheet => {
+    const baseUrl = styleSheet.href || document.baseURI;
+    try {
+      const sheetFonts: CSSFontFaceRule[] = [];
+      styles += collectUsedRules(styleSheet.cssRules, doc, baseUrl, sheetFonts);
+      sheetFonts.forEach(rule => fontFaces.push({ rule, baseUrl }));
+    } catch (_) { /* cross-origin 스타일시트 무시 */ }
+  });
+
+  // 수집한 스타일에서 이름이 쓰인 글꼴만 포함 (KaTeX_Main 등)
+  const usedFonts = fontFaces.filter(({ rule }) => {
+    const family = rule.style.getPropertyValue('font-family').replace(/['"]/g, '').trim();
+    return family && styles.includes(family);
+  });
+  const inlinedFonts = await Promise.all(usedFonts.map(({ rule, baseUrl }) => inlineFontFace(rule, baseUrl)));
+
+  return inlinedFonts.filter(Boolean).join('\n') + '\n' + styles;
+}
+
+/**
+ * 로컬 이미지를 Data URL로 포함 (외부 URL 이미지는 그대로 유지)
+ */
+async function embedLocalImages(content: HTMLElement): Promise<void> {
+  const images = Array.from(content.querySelectorAll('img'));
+  await Promise.all(images.map(async (img) => {
+    const src = img.getAttribute('src') ?? '';
+    if (!src.startsWith(`${LOCAL_FILE_PROTOCOL}:`) && !src.startsWith('file:')) return;
+
+    try {
+      img.setAttribute('src', await fetchAsDataURL(src));
+    } catch (error) {
+      console.warn('Failed to embed image:', error);
+    }
+  }));
+}
+
+/**
+ * 본문 제목으로 화면에 고정되는 목차 생성
+ */
+function buildFloatingTableOfContents(content: HTMLElement, depth: number): string {
+  const selector = Array.from({ length: depth }, (_, i) => `h${i + 1}[id]`).join(', ');
+  const headings = Array.from(content.querySelectorAll<HTMLElement>(selector));
+  if (headings.length === 0) return '';
+
+  const minLevel = Math.min(...headings.map(heading => Number(heading.tagName[1])));
+  const items = headings.map(heading => {
+    const indent = (Number(heading.tagName[1]) - minLevel) * TOC_INDENT_EM;
+    return `<li class="html-toc-item" style="padding-left: ${indent}em"><a href="#${escapeHTML(heading.id)}">${escapeHTML(heading.textContent?.trim() ?? '')}</a></li>`;
+  });
+
+  return `<nav class="html-toc">
+    <p class="html-toc-title">Contents</p>
+    <ul class="html-toc-list">${items.join('\n')}</ul>
+  </nav>`;
+}
+
+/**
+ * 자바스크립트 없이 열리는 단일 HTML 문서 생성
+ * 미리보기에 렌더링된 다이어그램 SVG와 하이라이팅된 코드를 그대로 사용
+ */
+async function buildStandaloneHTML(element: HTMLElement, title: string, options: MarkdownHtmlOptions): Promise<string> {
+  const currentTheme = document.documentElement.getAttribute('data-theme') || 'light';
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  // 버튼(복사 등)과 에디터 연동용 속성 제거
+  clone.querySelectorAll('button').forEach(button => button.remove());
+  clone.querySelectorAll('[data-source-line]').forEach(el => el.removeAttribute('data-source-line'));
+
+  await embedLocalImages(clone);
+
+  const toc = options.tableOfContents ? buildFloatingTableOfContents(clone, options.tocDepth) : '';
+  const body = `<div class="markdown-content${toc ? ' has-toc' : ''}">
+    ${toc}
+    ${clone.innerHTML}
+  </div>`;
+
+  // 사용하는 스타일만 고르기 위해 같은 구조의 문서를 만들어 선택자 일치 여부 확인
+  const doc = document.implementation.createHTMLDocument(title);
+  doc.documentElement.setAttribute('data-theme', currentTheme);
+  doc.body.setAttribute('data-theme', currentTheme);
+  doc.body.innerHTML = body;
+  const styles = await collectStandaloneStyles(doc);
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="${currentTheme}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHTML(title)}</title>
+  <style>
+    ${styles}
+    ${HTML_PAGE_STYLES}
+  </style>
+</head>
+<body data-theme="${currentTheme}">
+  ${body}
+</body>
+</html>`;
+}
+
+/**
+ * Markdown을 단일 HTML 파일로 내보내기
+ * - 현재 테마의 스타일과 사용하는 글꼴(KaTeX 등)을 파일에 포함
+ * - Mermaid 다이어그램은 미리 렌더링된 SVG, 로컬 이미지는 Data URL로 포함
+ * - 자바스크립트가 없으므로 정적 호스팅에서 그대로 열림
+ */
+export async function exportMarkdownToHTML(
+  element: HTMLElement | null,
+  fileName: string,
+  showToast?: ShowToastFn,
+  options: MarkdownHtmlOptions = DEFAULT_MARKDOWN_HTML_OPTIONS
+): Promise<ExportResult> {
+  try {
+    if (!element) {
+      throw new Error('No content element provided');
+    }
+
+    if (!window.electronAPI) {
+      throw new Error('Electron API not available');
+    }
+
+    if (showToast) showToast('Preparing HTML...', 'info');
+
+    const html = await buildStandaloneHTML(element, fileName, options);
+    const result = await window.electronAPI.exportDiagram(html, 'html', `${fileName}.html`);
+
+    if (result.canceled) {
+      return { success: false, canceled: true };
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || 'HTML export failed');
+    }
+
+    if (showToast) {
+      showToast('HTML exported successfully!', 'success');
+    }
+
+    return { success: true, filePath: result.filePath };
+
+  } catch (error) {
+    console.error('HTML export error:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (showToast) {
+      showToast(`Export failed: ${errorMessage}`, 'error');
+    }
+    return { success: false, error: errorMessage };
+  }
+}
+
+// ============================================================================
+// DOCX 내보내기
+// ============================================================================
+
+/**
+ * Markdown을 Word 문서(DOCX)로 내보내기
+ * - 제목, 목록, 표, 코드 블록, 인용은 Word 스타일로 변환
+ * - Mermaid 다이어그램과 로컬 이미지는 고해상도 PNG로 포함
+ * @param markdown - Markdown 소스 (미리보기 DOM이 아닌 원문을 변환)
+ * @param currentFilePath - 상대 경로 이미지 기준 파일
+ */
+export async function exportMarkdownToDOCX(
+  markdown: string,
+  fileName: string,
+  currentFilePath: FilePath | null,
+  showToast?: ShowToastFn,
+  frontMatter: MarkdownFrontMatter | null = null
+): Promise<ExportResult> {
+  try {
+    if (!window.electronAPI) {
+      throw new Error('Electron API not available');
+    }
+
+    const result = await window.electronAPI.exportDiagram('', 'docx', `${fileName}.docx`);
+
+    if (result.canceled) {
+      return { success: false, canceled: true };
+    }
+
+    if (!result.success || !result.filePath) {
+      throw new Error(result.error || 'Export dialog failed');
+    }
+
+    if (showToast) showToast('Generating DOCX...', 'info');
+
+    const data = await buildMarkdownDocx(markdown, { currentFilePath, frontMatter });
+    const saveResult = await window.electronAPI.saveExportedFile(result.filePath, data);
+    if (!saveResult.success) {
+      throw new Error(saveResult.error || 'Failed to save DOCX file');
+    }
+
+    if (showToast) {
+      showToast('DOCX exported successfully!', 'success');
+    }
+
+    return { success: true, filePath: result.filePath };
+
+  } catch (error) {
+    console.error('DOCX export error:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (showToast) {
+      showToast(`Export failed: ${errorMessage}`, 'error');
+    }
+    return { success: false, error: errorMessage };
+  }
 }
 
 export default {
   exportMarkdownToPDF,
+  exportMarkdownToHTML,
+  exportMarkdownToDOCX,
   printMarkdownPreview,
 };
@@ -0,0 +1,260 @@
+/**
+ * Markdown 미리보기 링크/이미지 경로 처리
+ * - 상대 경로 이미지 → mermaid-file:// 프로토콜 URL (메인 프로세스가 디스크에서 읽음)
+ * - 상대 경로 링크 → 현재 파일 기준 절대 경로
+ * - 위키 링크 [[문서]], [[문서#제목|표시 이름]] → 일반 링크
+ * - 제목 id (GitHub 방식 slug) → #anchor 링크 대상
+ */
+
+import type { Root as HastRoot, Element as HastElement, ElementContent } from 'hast';
+import type { Nodes as MdastNodes, Root as MdastRoot, PhrasingContent, Link } from 'mdast';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const LOCAL_FILE_PROTOCOL = 'mermaid-file';
+
+// 미리보기 링크로 새 탭에서 열 수 있는 문서
+const OPENABLE_EXTENSIONS = ['.md', '.markdown', '.mmd', '.mermaid'];
+
+// 위키 링크 확장자가 없을 때 붙이는 기본 확장자
+const DEFAULT_WIKI_LINK_EXTENSION = '.md';
+
+const EXTERNAL_URL = /^(?:[a-z][a-z\d+.-]*:|\/\/)/i;
+const WINDOWS_ABSOLUTE_PATH = /^[A-Za-z]:[\\/]/;
+const WIKI_LINK = /\[\[([^[\]|#]*)(?:#([^[\]|]*))?(?:\|([^[\]]*))?\]\]/g;
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface LinkTarget {
+  path: string;
+  anchor: string | null;
+}
+
+// ============================================================================
+// 경로 처리
+// ============================================================================
+
+/**
+ * 외부 URL 여부 (http:, mailto:, data:, //host 등)
+ * Windows 드라이브 경로(C:/...)는 외부 URL로 보지 않음
+ */
+export function isExternalUrl(url: string): boolean {
+  return EXTERNAL_URL.test(url) && !WINDOWS_ABSOLUTE_PATH.test(url);
+}
+
+/**
+ * 링크를 경로와 앵커로 분리 (쿼리 문자열은 무시, 퍼센트 인코딩 해제)
+ */
+export function splitLinkTarget(href: string): LinkTarget {
+  const hashIndex = href.indexOf('#');
+  const anchor = hashIndex === -1 ? null : href.slice(hashIndex + 1);
+  const rawPath = (hashIndex === -1 ? href : href.slice(0, hashIndex)).split('?')[0];
+
+  const decode = (value: string): string => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  return { path: decode(rawPath), anchor: anchor ? decode(anchor) : null };
+}
+
+/**
+ * 현재 파일 기준 상대 경로를 절대 경로로 변환
+ * 결과 경로의 구분자는 기준 파일 경로의 구분자를 따름 (탭의 filePath와 비교하기 위함)
+ */
+export function resolveRelativePath(baseFilePath: string, relativePath: string): string {
+  const useBackslash = baseFilePath.includes('\\');
+  const normalizedBase = baseFilePath.replace(/\\/g, '/');
+  const normalizedRelative = relativePath.replace(/\\/g, '/');
+
+  const isAbsolute = normalizedRelative.startsWith('/') || WINDOWS_ABSOLUTE_PATH.test(normalizedRelative);
+  const segments = isAbsolute
+    ? []
+    : normalizedBase.split('/').slice(0, -1);
+
+  normalizedRelative.split('/').forEach((segment, index) => {
+    if (segment === '..') {
+      // 루트('' 또는 드라이브) 위로는 올라가지 않음
+      if (segments.length > 1) segments.pop();
+    } else if (segment === '.' || (segment === '' && !(isAbsolute && index === 0))) {
+      // 건너뛰기
+    } else {
+      segments.push(segment);
+    }
+  });
+
+  const resolved = segments.join('/');
+  return useBackslash ? resolved.replace(/\//g, '\\') : resolved;
+}
+
+/**
+ * 절대 경로를 mermaid-file:// URL로 변환 (세그먼트별 인코딩)
+ */
+export function toLocalFileUrl(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  const rooted = normalized.startsWith('/') ? normalized : `/${normalized}`;
+  return `${LOCAL_FILE_PROTOCOL}://local${rooted.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * 이미지 src를 표시 가능한 URL로 변환
+ * 외부 URL이거나 저장되지 않은 문서면 그대로 반환
+ */
+export function resolveImageSource(src: string | undefined, currentFilePath: string | null): string | undefined {
+  if (!src || !currentFilePath || isExternalUrl(src) || src.startsWith('#')) return src;
+
+  const { path } = splitLinkTarget(src);
+  return path ? toLocalFileUrl(resolveRelativePath(currentFilePath, path)) : src;
+}
+
+/**
+ * 새 탭에서 열 수 있는 문서(.md/.mmd) 여부
+ */
+export function isOpenableDocument(filePath: string): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return OPENABLE_EXTENSIONS.some(ext => lowerPath.endsWith(ext));
+}
+
+// ============================================================================
+// 제목 앵커
+// ============================================================================
+
+/**
+ * GitHub 방식 제목 slug (소문자, 문장부호 제거, 공백 → '-')
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * hast 요소의 텍스트 내용
+ */
+function getElementText(node: HastElement | ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(getElementText).join('');
+  return '';
+}
+
+/**
+ * 제목 요소에 slug id를 붙이는 rehype 플러그인 (같은 slug는 -1, -2 접미사)
+ * sanitize가 id에 접두사를 붙이므로 sanitize 이후에 실행
+ */
+export function rehypeHeadingIds() {
+  return (tree: HastRoot): void => {
+    const counts = new Map<string, number>();
+
+    const visit = (node: HastElement): void => {
+      if (HEADING_TAGS.has(node.tagName)) {
+        const slug = slugifyHeading(getElementText(node));
+        const count = counts.get(slug) ?? 0;
+        counts.set(slug, count + 1);
+        node.properties = { ...node.properties, id: count === 0 ? slug : `${slug}-${count}` };
+        return;
+      }
+      node.children.forEach(child => {
+        if (child.type === 'element') visit(child);
+      });
+    };
+
+    tree.children.forEach(child => {
+      if (child.type === 'element') visit(child);
+    });
+  };
+}
+
+/**
+ * 앵커에 해당하는 요소 찾기 (제목 slug, sanitize 접두사가 붙은 원본 HTML id/name 순)
+ */
+export function findAnchorElement(container: HTMLElement, anchor: string): HTMLElement | null {
+  const candidates = [anchor, slugifyHeading(anchor), `user-content-${anchor}`];
+
+  for (const candidate of candidates) {
+    const escaped = CSS.escape(candidate);
+    const element = container.querySelector<HTMLElement>(`[id="${escaped}"], [name="${escaped}"]`);
+    if (element) return element;
+  }
+  return null;
+}
+
+// ============================================================================
+// 위키 링크
+// ============================================================================
+
+/**
+ * [[문서#제목|표시 이름]] → 링크 노드
+ */
+function createWikiLink(page: string, heading: string | undefined, alias: string | undefined): Link {
+  const trimmedPage = page.trim();
+  const trimmedHeading = heading?.trim();
+  const hasExtension = /\.[^/\\.]+$/.test(trimmedPage);
+
+  const pagePath = trimmedPage && !hasExtension ? `${trimmedPage}${DEFAULT_WIKI_LINK_EXTENSION}` : trimmedPage;
+  const url = `${encodeURI(pagePath)}${trimmedHeading ? `#${slugifyHeading(trimmedHeading)}` : ''}`;
+  const label = alias?.trim() || [trimmedPage, trimmedHeading].filter(Boolean).join(' › ');
+
+  return { type: 'link', url, children: [{ type: 'text', value: label }] };
+}
+
+/**
+ * 텍스트 노드를 위키 링크 기준으로 분할
+ */
+function splitWikiLinks(value: string): PhrasingContent[] | null {
+  const parts: PhrasingContent[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(WIKI_LINK)) {
+    const [raw, page, heading, alias] = match;
+    if (!page.trim() && !heading?.trim()) continue;
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: value.slice(lastIndex, index) });
+    }
+    parts.push(createWikiLink(page, heading, alias));
+    lastIndex = index + raw.length;
+  }
+
+  if (parts.length === 0) return null;
+  if (lastIndex < value.length) {
+    parts.push({ type: 'text', value: value.slice(lastIndex) });
+  }
+  return parts;
+}
+
+/**
+ * [[문서]] 형식의 위키 링크를 일반 링크로 바꾸는 remark 플러그인
+ * 코드와 기존 링크 안의 텍스트는 변환하지 않음
+ */
+export function remarkWikiLinks() {
+  const visit = (node: MdastNodes): void => {
+    if (!('children' in node) || node.type === 'link' || node.type === 'linkReference') return;
+
+    const children = node.children as MdastNodes[];
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
+      if (child.type === 'text') {
+        const parts = splitWikiLinks(child.value);
+        if (parts) {
+          children.splice(i, 1, ...parts);
+          i += parts.length - 1;
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+
+  return (tree: MdastRoot): void => visit(tree);
+}
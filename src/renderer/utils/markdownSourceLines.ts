@@ -0,0 +1,148 @@
+/**
+ * Markdown 미리보기 ↔ 소스 줄 매핑
+ * - rehype 플러그인으로 블록 요소에 원본 줄 번호(data-source-line) 기록
+ * - 미리보기 스크롤 위치 ↔ 소스 줄(소수점 포함) 상호 변환
+ */
+
+import type { Root, Element as HastElement, ElementContent } from 'hast';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const SOURCE_LINE_ATTRIBUTE = 'data-source-line';
+
+// 줄 번호를 기록할 블록 요소 (인라인 요소는 같은 줄에 여러 개라 제외)
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'table', 'tr', 'hr', 'div', 'details', 'dl', 'dt', 'dd'
+]);
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+interface SourceLineAnchor {
+  line: number;
+  top: number;
+}
+
+// ============================================================================
+// rehype 플러그인
+// ============================================================================
+
+/**
+ * 블록 요소에 시작 줄 번호 기록
+ */
+function annotateElement(node: HastElement): void {
+  const line = node.position?.start.line;
+  if (line !== undefined && BLOCK_TAGS.has(node.tagName)) {
+    node.properties = { ...node.properties, dataSourceLine: line };
+  }
+  node.children.forEach(annotateChild);
+}
+
+function annotateChild(child: ElementContent): void {
+  if (child.type === 'element') {
+    annotateElement(child);
+  }
+}
+
+/**
+ * 원본 Markdown 줄 번호를 data-source-line 속성으로 남기는 rehype 플러그인
+ * sanitize 이후에 실행해야 속성이 제거되지 않음
+ */
+export function rehypeSourceLines() {
+  return (tree: Root): void => {
+    tree.children.forEach(child => {
+      if (child.type === 'element') {
+        annotateElement(child);
+      }
+    });
+  };
+}
+
+// ============================================================================
+// 스크롤 위치 변환
+// ============================================================================
+
+/**
+ * 컨테이너 안에서 줄 번호가 기록된 요소들의 위치 수집 (줄 번호 순)
+ */
+function collectAnchors(container: HTMLElement): SourceLineAnchor[] {
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+  const anchors: SourceLineAnchor[] = [];
+
+  container.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTRIBUTE}]`).forEach(element => {
+    const line = Number(element.getAttribute(SOURCE_LINE_ATTRIBUTE));
+    // 화면에 표시되지 않는 요소(접힌 details 등)는 제외
+    if (!Number.isFinite(line) || element.offsetParent === null) return;
+    anchors.push({ line, top: element.getBoundingClientRect().top - containerTop });
+  });
+
+  return anchors.sort((a, b) => a.line - b.line || a.top - b.top);
+}
+
+/**
+ * 소스 줄에 해당하는 미리보기 스크롤 위치 계산
+ * 앞뒤 블록 사이는 줄 번호 비율로 보간
+ * @param line - 1부터 시작하는 소스 줄 (소수점 허용)
+ */
+export function getScrollTopForSourceLine(container: HTMLElement, line: number): number {
+  const anchors = collectAnchors(container);
+  if (anchors.length === 0) return 0;
+
+  let previous: SourceLineAnchor | null = null;
+  let next: SourceLineAnchor | null = null;
+  for (const anchor of anchors) {
+    if (anchor.line <= line) {
+      previous = anchor;
+    } else {
+      next = anchor;
+      break;
+    }
+  }
+
+  if (!previous) return 0;
+  if (!next || next.line === previous.line) return previous.top;
+
+  const ratio = (line - previous.line) / (next.line - previous.line);
+  return previous.top + (next.top - previous.top) * ratio;
+}
+
+/**
+ * 미리보기 스크롤 위치에 해당하는 소스 줄 계산 (소수점 포함)
+ */
+export function getSourceLineForScrollTop(container: HTMLElement, scrollTop: number): number | null {
+  // 같은 위치의 중첩 요소(ul과 첫 li 등)는 위치 순으로 정렬해 앞쪽만 사용
+  const anchors = collectAnchors(container).sort((a, b) => a.top - b.top || a.line - b.line);
+  if (anchors.length === 0) return null;
+
+  let previous: SourceLineAnchor | null = null;
+  let next: SourceLineAnchor | null = null;
+  for (const anchor of anchors) {
+    if (anchor.top <= scrollTop) {
+      previous = anchor;
+    } else if (!previous || anchor.top > previous.top) {
+      next = anchor;
+      break;
+    }
+  }
+
+  // 첫 블록 위쪽은 문서 첫 줄부터 보간
+  if (!previous) return next ? 1 + (next.line - 1) * Math.min(scrollTop / Math.max(next.top, 1), 1) : 1;
+  if (!next || next.line <= previous.line) return previous.line;
+
+  const ratio = (scrollTop - previous.top) / (next.top - previous.top);
+  return previous.line + (next.line - previous.line) * ratio;
+}
+
+/**
+ * 클릭한 요소에서 가장 가까운 블록의 소스 줄 찾기
+ */
+export function getSourceLineForElement(element: Element): number | null {
+  const block = element.closest(`[${SOURCE_LINE_ATTRIBUTE}]`);
+  if (!block) return null;
+  const line = Number(block.getAttribute(SOURCE_LINE_ATTRIBUTE));
+  return Number.isFinite(line) ? line : null;
+}
@@ -0,0 +1,337 @@
+/**
+ * Mermaid 진단 유틸리티
+ * mermaid 파싱/렌더링 오류를 원본 소스 위치(줄/열)로 매핑하여
+ * Monaco 마커와 Problems 목록에서 사용할 수 있는 형태로 변환
+ */
+
+import mermaid from 'mermaid';
+import type { DiagramProblem } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * Markdown 문서 내 ```mermaid 코드 펜스
+ */
+export interface MermaidFence {
+  code: string;
+  startLine: number;  // 코드 첫 줄의 원본 줄 번호 (1-based)
+  endLine: number;    // 코드 마지막 줄의 원본 줄 번호 (1-based)
+}
+
+// jison 파서 오류 (flowchart, sequence, class 등)
+interface JisonErrorHash {
+  line?: number;
+  loc?: {
+    first_line: number;
+    last_line: number;
+    first_column: number;
+    last_column: number;
+  };
+}
+
+// langium 파서 오류 (pie, gitGraph, packet, architecture 등)
+interface LangiumLexerError {
+  line?: number;
+  column?: number;
+  length?: number;
+  message: string;
+}
+
+interface LangiumParserError {
+  message: string;
+  token?: {
+    startLine?: number;
+    startColumn?: number;
+    endLine?: number;
+    endColumn?: number;
+  };
+}
+
+interface LangiumParseResult {
+  lexerErrors: LangiumLexerError[];
+  parserErrors: LangiumParserError[];
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const FRONT_MATTER_DELIMITER = /^-{3}\s*$/;
+const DIRECTIVE_INLINE = /%%\{.*?\}%%/g;
+const DIRECTIVE_OPEN = /%%\{/;
+const DIRECTIVE_CLOSE = /\}%%/;
+const COMMENT_LINE = /^\s*%%(?!\{)./;
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})\s*mermaid\b/;
+const JISON_LINE_IN_MESSAGE = /on line (\d+)/i;
+
+// ============================================================================
+// 줄 번호 매핑
+// ============================================================================
+
+/**
+ * mermaid 전처리 후 코드의 줄 번호 → 원본 줄 번호 매핑 생성
+ *
+ * mermaid는 파싱 전에 front-matter 제거, %%{ }%% 지시자 제거,
+ * %% 주석 줄(및 바로 앞의 빈 줄) 제거, 앞쪽 공백 trim을 수행하므로
+ * 파서가 보고하는 줄 번호가 편집기의 줄 번호와 어긋난다.
+ * 같은 규칙을 줄 단위로 재현하여 index(0-based 전처리 줄) → 원본 줄(1-based) 배열을 만든다.
+ */
+export function buildSourceLineMap(code: string): number[] {
+  const lines = code.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+
+  // front-matter (--- ... ---) 건너뛰기
+  if (FRONT_MATTER_DELIMITER.test(lines[0] ?? '')) {
+    const closing = lines.findIndex((line, i) => i > 0 && FRONT_MATTER_DELIMITER.test(line));
+    if (closing !== -1) index = closing + 1;
+  }
+
+  const entries: { line: number; text: string }[] = [];
+
+  while (index < lines.length) {
+    const originalLine = index + 1;
+    let text = lines[index];
+
+    // 여러 줄에 걸친 지시자는 한 줄로 합쳐짐
+    if (DIRECTIVE_OPEN.test(text.replace(DIRECTIVE_INLINE, '')) && !DIRECTIVE_CLOSE.test(text)) {
+      const head = text.slice(0, text.search(DIRECTIVE_OPEN));
+      while (index < lines.length - 1 && !DIRECTIVE_CLOSE.test(lines[index])) {
+        index++;
+      }
+      const tail = lines[index].split(DIRECTIVE_CLOSE).slice(1).join('}%%');
+      text = head + tail;
+    }
+
+    text = text.replace(DIRECTIVE_INLINE, '');
+
+    if (COMMENT_LINE.test(text)) {
+      // 주석 정규식의 ^\s* 가 앞쪽 빈 줄까지 함께 삼킴
+      while (entries.length > 0 && entries[entries.length - 1].text.trim() === '') {
+        entries.pop();
+      }
+    } else {
+      entries.push({ line: originalLine, text });
+    }
+    index++;
+  }
+
+  // 앞쪽 공백 trim
+  const firstContent = entries.findIndex(entry => entry.text.trim() !== '');
+  return entries.slice(firstContent === -1 ? entries.length : firstContent).map(entry => entry.line);
+}
+
+/**
+ * 전처리 후 줄 번호(1-based)를 원본 줄 번호(1-based)로 변환
+ */
+function toSourceLine(lineMap: number[], processedLine: number, fallback: number): number {
+  if (!Number.isFinite(processedLine) || lineMap.length === 0) return fallback;
+  const clamped = Math.min(Math.max(processedLine, 1), lineMap.length);
+  return lineMap[clamped - 1];
+}
+
+// ============================================================================
+// 오류 메시지 정리
+// ============================================================================
+
+/**
+ * jison 오류 메시지에서 원본과 맞지 않는 발췌/캐럿 줄을 제거
+ * "Parse error on line 3:\n...B -->\n------^\nExpecting 'X', got 'Y'" → "Parse error: Expecting 'X', got 'Y'"
+ */
+function cleanErrorMessage(message: string): string {
+  const lines = message.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return 'Unknown Mermaid error';
+
+  if (/^(Parse|Lexical) error/i.test(lines[0])) {
+    const headline = lines[0]
+      .replace(/\s*on line \d+\s*([:.])?\s*/i, (_match, punctuation: string | undefined) => punctuation === '.' ? ': ' : '')
+      .replace(/[:\s]+$/, '');
+    // 캐럿(^) 줄 이후가 실제 원인 ("Expecting ..., got ...")
+    const caretIndex = lines.findIndex(line => /\^$/.test(line));
+    const reason = caretIndex === -1 ? '' : lines.slice(caretIndex + 1).join(' ');
+    return reason ? `${headline}: ${reason}` : headline;
+  }
+
+  return lines.join(' ');
+}
+
+// ============================================================================
+// 오류 → 진단 변환
+// ============================================================================
+
+/**
+ * 줄 전체(앞쪽 들여쓰기 제외)를 덮는 진단 생성
+ */
+function createLineProblem(message: string, sourceLines: string[], lineNumber: number): DiagramProblem {
+  const text = sourceLines[lineNumber - 1] ?? '';
+  const startColumn = text.length - text.trimStart().length + 1;
+  return {
+    message,
+    severity: 'error',
+    startLineNumber: lineNumber,
+    startColumn,
+    endLineNumber: lineNumber,
+    endColumn: Math.max(text.length + 1, startColumn + 1)
+  };
+}
+
+/**
+ * mermaid 오류 객체를 원본 소스 위치의 진단으로 변환
+ * @param err - mermaid.parse / mermaid.render 에서 발생한 오류
+ * @param code - 파싱한 Mermaid 코드
+ * @param lineOffset - 원본 문서에서 code 첫 줄 앞의 줄 수 (Markdown 펜스용)
+ */
+export function mermaidErrorToProblems(err: unknown, code: string, lineOffset: number = 0): DiagramProblem[] {
+  const rawMessage = err instanceof Error ? err.message : String(err);
+  const sourceLines = code.replace(/\r\n?/g, '\n').split('\n');
+  const lineMap = buildSourceLineMap(code);
+  const fallbackLine = lineMap[0] ?? 1;
+  const offset = (problem: DiagramProblem): DiagramProblem => ({
+    ...problem,
+    startLineNumber: problem.startLineNumber + lineOffset,
+    endLineNumber: problem.endLineNumber + lineOffset
+  });
+
+  // langium 파서: 오류 목록에 정확한 위치 정보가 포함됨
+  const langiumResult = (err as { result?: LangiumParseResult } | null)?.result;
+  if (langiumResult && Array.isArray(langiumResult.lexerErrors) && Array.isArray(langiumResult.parserErrors)) {
+    const problems: DiagramProblem[] = [];
+
+    langiumResult.lexerErrors.forEach(lexerError => {
+      const line = toSourceLine(lineMap, lexerError.line ?? NaN, fallbackLine);
+      const column = lexerError.column ?? 1;
+      problems.push({
+        message: lexerError.message,
+        severity: 'error',
+        startLineNumber: line,
+        startColumn: column,
+        endLineNumber: line,
+        endColumn: column + Math.max(lexerError.length ?? 1, 1)
+      });
+    });
+
+    langiumResult.parserErrors.forEach(parserError => {
+      const token = parserError.token;
+      // EOF 토큰은 위치가 NaN → 마지막 줄로 표시
+      if (!token || !Number.isFinite(token.startLine)) {
+        problems.push(createLineProblem(parserError.message, sourceLines, lineMap[lineMap.length - 1] ?? 1));
+        return;
+      }
+      const startLine = toSourceLine(lineMap, token.startLine as number, fallbackLine);
+      const endLine = toSourceLine(lineMap, token.endLine ?? (token.startLine as number), startLine);
+      problems.push({
+        message: parserError.message,
+        severity: 'error',
+        startLineNumber: startLine,
+        startColumn: token.startColumn ?? 1,
+        endLineNumber: endLine,
+        endColumn: (token.endColumn ?? token.startColumn ?? 1) + 1
+      });
+    });
+
+    if (problems.length > 0) return problems.map(offset);
+  }
+
+  const message = cleanErrorMessage(rawMessage);
+  const hash = (err as { hash?: JisonErrorHash } | null)?.hash;
+
+  // jison 파서: loc.first_line 은 1-based, column 은 0-based
+  if (hash?.loc) {
+    const startLine = toSourceLine(lineMap, hash.loc.first_line, fallbackLine);
+    const endLine = toSourceLine(lineMap, hash.loc.last_line, startLine);
+    const startColumn = hash.loc.first_column + 1;
+    const endColumn = hash.loc.last_column + 1;
+
+    // 위치가 한 글자 미만이면 줄 전체 표시
+    if (startLine === endLine && endColumn <= startColumn) {
+      return [offset(createLineProblem(message, sourceLines, startLine))];
+    }
+    return [offset({
+      message,
+      severity: 'error',
+      startLineNumber: startLine,
+      startColumn,
+      endLineNumber: endLine,
+      endColumn
+    })];
+  }
+
+  // jison 렉서 오류: hash.line 은 0-based
+  if (typeof hash?.line === 'number') {
+    const line = toSourceLine(lineMap, hash.line + 1, fallbackLine);
+    return [offset(createLineProblem(message, sourceLines, line))];
+  }
+
+  // 메시지에 줄 번호만 있는 경우
+  const lineMatch = JISON_LINE_IN_MESSAGE.exec(rawMessage);
+  const line = lineMatch ? toSourceLine(lineMap, Number(lineMatch[1]), fallbackLine) : fallbackLine;
+  return [offset(createLineProblem(message, sourceLines, line))];
+}
+
+// ============================================================================
+// 검증
+// ============================================================================
+
+/**
+ * Mermaid 코드 문법 검증 (렌더링 없이 파싱만 수행)
+ * @returns 오류가 없으면 빈 배열
+ */
+export async function validateMermaidCode(code: string, lineOffset: number = 0): Promise<DiagramProblem[]> {
+  if (!code.trim()) return [];
+
+  try {
+    await mermaid.parse(code);
+    return [];
+  } catch (err) {
+    return mermaidErrorToProblems(err, code, lineOffset);
+  }
+}
+
+/**
+ * Markdown 문서에서 ```mermaid / ~~~mermaid 코드 펜스 추출
+ */
+export function extractMermaidFences(markdown: string): MermaidFence[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const fences: MermaidFence[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const match = FENCE_OPEN.exec(lines[index]);
+    if (!match) {
+      index++;
+      continue;
+    }
+
+    const marker = match[1];
+    const closing = new RegExp(`^\\s*${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+    const openLine = index;
+    index++;
+    while (index < lines.length && !closing.test(lines[index])) {
+      index++;
+    }
+
+    fences.push({
+      code: lines.slice(openLine + 1, index).join('\n'),
+      startLine: openLine + 2,
+      endLine: index
+    });
+    index++;
+  }
+
+  return fences;
+}
+
+/**
+ * Markdown 문서 안의 모든 Mermaid 펜스 검증
+ * 진단 위치는 Markdown 문서 기준 줄 번호로 변환됨
+ */
+export async function validateMarkdownMermaidFences(markdown: string): Promise<DiagramProblem[]> {
+  const problems: DiagramProblem[] = [];
+
+  for (const fence of extractMermaidFences(markdown)) {
+    problems.push(...await validateMermaidCode(fence.code, fence.startLine - 1));
+  }
+
+  return problems;
+}
@@ -0,0 +1,583 @@
+/**
+ * Monaco Editor용 Mermaid 언어 등록
+ * - Monarch 토크나이저 (mermaid 11 전체 다이어그램 타입)
+ * - 문맥 기반 자동완성 (키워드, 화살표, 노드 모양, 지시자)
+ * - 키워드 호버 문서
+ * - 블록 접기 (subgraph/end, loop/end, { } 등)
+ */
+
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, languages, Position, IRange } from 'monaco-editor';
+import {
+  DIAGRAM_DECLARATIONS,
+  DIAGRAM_KEYWORDS,
+  COMMON_KEYWORDS,
+  DIRECTIONS,
+  ARROWS,
+  NODE_SHAPES,
+  DIRECTIVES,
+  MermaidDiagramKind,
+  MermaidKeywordDoc
+} from '../constants/mermaidSyntax';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const MERMAID_LANGUAGE_ID = 'mermaid';
+
+// 하이픈이 포함된 키워드(stateDiagram-v2, x-axis 등)를 하나의 단어로 취급
+const WORD_PATTERN = /(-?\d*\.\d\w*)|([A-Za-z_]\w*(?:-[A-Za-z0-9]\w*)*)/;
+
+// 블록을 여는 키워드 (end로 닫힘)
+const END_BLOCK_OPENERS = /^\s*(subgraph|loop|alt|opt|par|critical|break|rect|box|block(:\S+)?)\b/;
+const END_BLOCK_CLOSER = /^\s*end\s*$/;
+
+// 들여쓰기로 계층을 표현하는 다이어그램
+const INDENT_BASED_KINDS: MermaidDiagramKind[] = ['mindmap', 'treemap', 'kanban'];
+
+// 식별자 수집 시 제외할 단어
+const IDENTIFIER_STOP_WORDS = new Set(['end', 'as', 'of', 'left', 'right', 'over', 'for']);
+
+let isRegistered = false;
+
+// ============================================================================
+// 다이어그램 종류 감지
+// ============================================================================
+
+/**
+ * 다이어그램 선언이 있는 줄 번호(0-based) 반환
+ * front-matter, %%{init}%% 지시자, 주석, 빈 줄은 건너뜀
+ */
+export function findDeclarationLine(lines: string[]): number {
+  let index = 0;
+
+  // front-matter (--- ... ---) 건너뛰기
+  if (lines[0]?.trim() === '---') {
+    const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (closing !== -1) index = closing + 1;
+  }
+
+  for (; index < lines.length; index++) {
+    const trimmed = lines[index].trim();
+    if (!trimmed || trimmed.startsWith('%%')) continue;
+    return index;
+  }
+
+  return -1;
+}
+
+/**
+ * 코드의 다이어그램 종류 감지
+ * @param code - Mermaid 코드
+ * @returns 다이어그램 종류 또는 선언이 없으면 null
+ */
+export function detectDiagramKind(code: string): MermaidDiagramKind | null {
+  const lines = code.split('\n');
+  const declarationLine = findDeclarationLine(lines);
+  if (declarationLine === -1) return null;
+
+  const firstWord = lines[declarationLine].trim().split(/\s+/)[0];
+  const declaration = DIAGRAM_DECLARATIONS.find(d => d.keyword === firstWord);
+  return declaration ? declaration.kind : null;
+}
+
+// ============================================================================
+// 토크나이저
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Monarch 토크나이저 정의 생성
+ */
+function createTokensProvider(): languages.IMonarchLanguage {
+  const declarationKeywords = DIAGRAM_DECLARATIONS.map(d => d.keyword);
+
+  const bodyKeywords = new Set<string>();
+  Object.values(DIAGRAM_KEYWORDS).forEach(list => {
+    list.forEach(({ keyword }) => {
+      if (/^[A-Za-z][\w-]*$/.test(keyword)) bodyKeywords.add(keyword);
+    });
+  });
+  COMMON_KEYWORDS.forEach(({ keyword }) => bodyKeywords.add(keyword));
+
+  // 긴 화살표부터 매칭되도록 길이 역순 정렬
+  const arrowSet = new Set<string>();
+  Object.values(ARROWS).forEach(list => {
+    list?.forEach(({ keyword }) => {
+      if (!/[A-Za-z|]/.test(keyword)) arrowSet.add(keyword);
+    });
+  });
+  const arrowPattern = Array.from(arrowSet)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+
+  return {
+    defaultToken: '',
+    tokenPostfix: '.mermaid',
+    declarations: declarationKeywords,
+    keywords: Array.from(bodyKeywords),
+    directions: DIRECTIONS,
+
+    tokenizer: {
+      root: [
+        // front-matter 시작
+        [/^---\s*$/, { token: 'meta.frontmatter', next: '@frontmatter' }],
+
+        // %%{init: ...}%% 지시자
+        [/%%\{/, { token: 'annotation', next: '@directive' }],
+
+        // 주석
+        [/%%.*$/, 'comment'],
+
+        // 접근성 키워드 (값은 문자열로 처리)
+        [/(accTitle|accDescr)(\s*:)(.*)$/, ['keyword', 'delimiter', 'string']],
+
+        // 시퀀스 메시지 / 노트 텍스트 (":" 뒤 전체)
+        [/(:)(\s*[^:{}\n]*)$/, ['delimiter', 'string']],
+
+        // 스테레오타입 <<interface>>, <<fork>> 등
+        [/<<[\w\s]+>>/, 'annotation'],
+
+        // 시작/종료 상태
+        [/\[\*\]/, 'keyword'],
+
+        // 링크 라벨 |text|
+        [/\|[^|\n]*\|/, 'string.label'],
+
+        // 문자열
+        [/"/, { token: 'string.quote', next: '@string' }],
+
+        // 화살표
+        [new RegExp(arrowPattern), 'operator.arrow'],
+        [/[-=.]{2,}>?|<[-=.]{2,}/, 'operator.arrow'],
+
+        // 스타일 속성 (fill:#fff, stroke-width:2px)
+        [/([a-z-]+)(:)(#[0-9a-fA-F]{3,8}\b)/, ['attribute.name', 'delimiter', 'number.hex']],
+
+        // 색상 값
+        [/#[0-9a-fA-F]{3,8}\b/, 'number.hex'],
+
+        // 숫자
+        [/\d+(\.\d+)?(px|%|d|h|w|m|s)?\b/, 'number'],
+
+        // 식별자 / 키워드
+        [/[A-Za-z_]\w*(?:-[A-Za-z0-9]\w*)*/, {
+          cases: {
+            '@declarations': 'type.declaration',
+            '@keywords': 'keyword',
+            '@directions': 'keyword.direction',
+            '@default': 'identifier'
+          }
+        }],
+
+        // 노드 모양 괄호
+        [/[[\](){}]/, '@brackets'],
+        [/[;,&]/, 'delimiter']
+      ],
+
+      string: [
+        [/[^"]+/, 'string'],
+        [/"/, { token: 'string.quote', next: '@pop' }]
+      ],
+
+      directive: [
+        [/\}%%/, { token: 'annotation', next: '@pop' }],
+        [/"[^"]*"(?=\s*:)/, 'attribute.name'],
+        [/'[^']*'(?=\s*:)/, 'attribute.name'],
+        [/[A-Za-z_]\w*(?=\s*:)/, 'attribute.name'],
+        [/"[^"]*"|'[^']*'/, 'string'],
+        [/\d+(\.\d+)?/, 'number'],
+        [/true|false/, 'keyword'],
+        [/[{}[\],:]/, 'delimiter'],
+        [/./, '']
+      ],
+
+      frontmatter: [
+        [/^---\s*$/, { token: 'meta.frontmatter', next: '@pop' }],
+        [/^(\s*)([\w-]+)(\s*:)/, ['', 'attribute.name', 'delimiter']],
+        [/#.*$/, 'comment'],
+        [/"[^"]*"|'[^']*'/, 'string'],
+        [/\d+(\.\d+)?/, 'number'],
+        [/./, 'string']
+      ]
+    }
+  } as languages.IMonarchLanguage;
+}
+
+/**
+ * 언어 설정 (주석, 괄호, 자동 닫기, 들여쓰기)
+ */
+const languageConfiguration: languages.LanguageConfiguration = {
+  comments: {
+    lineComment: '%%'
+  },
+  brackets: [
+    ['{', '}'],
+    ['[', ']'],
+    ['(', ')']
+  ],
+  autoClosingPairs: [
+    { open: '{', close: '}' },
+    { open: '[', close: ']' },
+    { open: '(', close: ')' },
+    { open: '"', close: '"', notIn: ['string'] }
+  ],
+  surroundingPairs: [
+    { open: '{', close: '}' },
+    { open: '[', close: ']' },
+    { open: '(', close: ')' },
+    { open: '"', close: '"' }
+  ],
+  wordPattern: WORD_PATTERN,
+  indentationRules: {
+    increaseIndentPattern: /^\s*(subgraph|loop|alt|else|opt|par|and|critical|option|break|rect|box|block:\S+|state\s+.*\{|class\s+.*\{|namespace\s+.*\{)\b.*$/,
+    decreaseIndentPattern: /^\s*(end|else|and|option|\})\b.*$/
+  }
+};
+
+// ============================================================================
+// 자동완성
+// ============================================================================
+
+/**
+ * 키워드 문서 → 자동완성 항목 변환
+ */
+function toCompletionItem(
+  monaco: Monaco,
+  item: MermaidKeywordDoc,
+  kind: languages.CompletionItemKind,
+  range: IRange,
+  sortPrefix: string
+): languages.CompletionItem {
+  return {
+    label: item.keyword,
+    kind,
+    detail: item.doc,
+    documentation: { value: item.doc },
+    insertText: item.snippet ?? item.keyword,
+    insertTextRules: item.snippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+    range,
+    sortText: `${sortPrefix}${item.keyword}`
+  };
+}
+
+/**
+ * 문서에서 이미 사용된 식별자(노드 ID, 참가자 등) 수집
+ */
+function collectIdentifiers(lines: string[], declarationLine: number, keywords: Set<string>): string[] {
+  const identifiers = new Set<string>();
+
+  lines.forEach((line, index) => {
+    if (index <= declarationLine) return;
+    const trimmed = line.trim();
+    if (trimmed.startsWith('%%')) return;
+
+    // 문자열/라벨 제거 후 식별자 추출
+    const stripped = trimmed
+      .replace(/"[^"]*"/g, ' ')
+      .replace(/\|[^|]*\|/g, ' ')
+      .replace(/\[[^\]]*\]|\([^)]*\)|\{[^}]*\}/g, ' ')
+      .replace(/:.*$/, ' ');
+
+    const matches = stripped.match(/\b[A-Za-z_][\w]*\b/g) || [];
+    matches.forEach(word => {
+      if (!keywords.has(word) && !DIRECTIONS.includes(word) && !IDENTIFIER_STOP_WORDS.has(word)) {
+        identifiers.add(word);
+      }
+    });
+  });
+
+  return Array.from(identifiers);
+}
+
+/**
+ * 문맥 기반 자동완성 제공자
+ */
+function createCompletionProvider(monaco: Monaco): languages.CompletionItemProvider {
+  const { CompletionItemKind } = monaco.languages;
+
+  return {
+    triggerCharacters: ['%', '{', '-', '.', '=', '>', '<', '|', '[', '(', '@', ' '],
+
+    provideCompletionItems: (model: editor.ITextModel, position: Position): languages.CompletionList => {
+      const lines = model.getLinesContent();
+      const lineText = model.getLineContent(position.lineNumber);
+      const textBefore = lineText.substring(0, position.column - 1);
+      const word = model.getWordUntilPosition(position);
+      const wordRange: IRange = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn
+      };
+
+      const declarationLine = findDeclarationLine(lines);
+      const currentLine = position.lineNumber - 1;
+      const suggestions: languages.CompletionItem[] = [];
+
+      // 1) %% 지시자
+      const directiveMatch = /%%\{?\s*(\w*)$/.exec(textBefore);
+      if (directiveMatch) {
+        const range: IRange = {
+          ...wordRange,
+          startColumn: position.column - directiveMatch[0].length
+        };
+        DIRECTIVES.forEach(directive => {
+          suggestions.push(toCompletionItem(monaco, {
+            ...directive,
+            snippet: directive.keyword === 'init' ? directive.snippet : `%%{init: { "${directive.keyword}": $1 } }%%`
+          }, CompletionItemKind.Module, range, '0'));
+        });
+        return { suggestions };
+      }
+
+      // 2) 다이어그램 선언 전 (또는 선언 줄 자체)
+      if (declarationLine === -1 || currentLine <= declarationLine) {
+        const declarationMatch = /^\s*([\w-]*)$/.exec(textBefore);
+        if (declarationMatch) {
+          const range: IRange = { ...wordRange, startColumn: position.column - declarationMatch[1].length };
+          DIAGRAM_DECLARATIONS.forEach(declaration => {
+            suggestions.push(toCompletionItem(monaco, declaration, CompletionItemKind.Class, range, '0'));
+          });
+          return { suggestions };
+        }
+
+        // flowchart/graph 뒤 방향
+        if (/^\s*(flowchart|graph)\s+\w*$/.test(textBefore)) {
+          DIRECTIONS.forEach(direction => {
+            suggestions.push(toCompletionItem(monaco, { keyword: direction, doc: 'Layout direction.' }, CompletionItemKind.EnumMember, wordRange, '0'));
+          });
+        }
+        return { suggestions };
+      }
+
+      const kind = detectDiagramKind(model.getValue()) ?? 'flowchart';
+      const keywords = DIAGRAM_KEYWORDS[kind] || [];
+      const keywordSet = new Set(keywords.map(k => k.keyword));
+
+      // 3) direction 키워드 뒤
+      if (/\bdirection\s+\w*$/.test(textBefore)) {
+        DIRECTIONS.forEach(direction => {
+          suggestions.push(toCompletionItem(monaco, { keyword: direction, doc: 'Layout direction.' }, CompletionItemKind.EnumMember, wordRange, '0'));
+        });
+        return { suggestions };
+      }
+
+      // 4) 화살표 입력 중 (-, =, ., <, > 등)
+      const arrowMatch = /[-=.<>|*}{~]*[-=.<>~]$/.exec(textBefore);
+      const arrows = ARROWS[kind] || [];
+      if (arrowMatch && arrows.length > 0 && /\S/.test(textBefore.slice(0, -arrowMatch[0].length))) {
+        const range: IRange = { ...wordRange, startColumn: position.column - arrowMatch[0].length, endColumn: position.column };
+        arrows.forEach(arrow => {
+          suggestions.push(toCompletionItem(monaco, arrow, CompletionItemKind.Operator, range, '0'));
+        });
+        return { suggestions };
+      }
+
+      // 5) 플로우차트 노드 ID 바로 뒤: 노드 모양
+      const shapeMatch = /(^|\s|>|-)([A-Za-z_][\w]*)([[({>@]?)$/.exec(textBefore);
+      if (kind === 'flowchart' && shapeMatch && shapeMatch[3]) {
+        const range: IRange = { ...wordRange, startColumn: position.column - shapeMatch[3].length, endColumn: position.column };
+        NODE_SHAPES.forEach(shape => {
+          suggestions.push(toCompletionItem(monaco, shape, CompletionItemKind.Struct, range, '0'));
+        });
+        return { suggestions };
+      }
+
+      // 6) 줄 첫 단어: 다이어그램 키워드 + 공통 키워드
+      const isFirstToken = /^\s*[\w-]*$/.test(textBefore);
+      if (isFirstToken) {
+        keywords.forEach(keyword => {
+          suggestions.push(toCompletionItem(monaco, keyword, CompletionItemKind.Keyword, wordRange, '1'));
+        });
+        COMMON_KEYWORDS.forEach(keyword => {
+          suggestions.push(toCompletionItem(monaco, keyword, CompletionItemKind.Keyword, wordRange, '3'));
+        });
+      } else if (arrows.length > 0 && /\w\s+$/.test(textBefore)) {
+        // 노드 뒤 공백: 화살표 제안
+        arrows.forEach(arrow => {
+          suggestions.push(toCompletionItem(monaco, arrow, CompletionItemKind.Operator, wordRange, '1'));
+        });
+      }
+
+      // 7) 이미 사용된 식별자
+      collectIdentifiers(lines, declarationLine, keywordSet).forEach(identifier => {
+        if (identifier === word.word) return;
+        suggestions.push({
+          label: identifier,
+          kind: CompletionItemKind.Variable,
+          insertText: identifier,
+          range: wordRange,
+          sortText: `2${identifier}`
+        });
+      });
+
+      return { suggestions };
+    }
+  };
+}
+
+// ============================================================================
+// 호버
+// ============================================================================
+
+/**
+ * 키워드 호버 문서 제공자
+ */
+function createHoverProvider(): languages.HoverProvider {
+  return {
+    provideHover: (model: editor.ITextModel, position: Position): languages.Hover | null => {
+      const word = model.getWordAtPosition(position);
+      if (!word) return null;
+
+      const lineNumber = position.lineNumber;
+      const range: IRange = {
+        startLineNumber: lineNumber,
+        endLineNumber: lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn
+      };
+
+      // 다이어그램 선언
+      const declaration = DIAGRAM_DECLARATIONS.find(d => d.keyword === word.word);
+      const lines = model.getLinesContent();
+      if (declaration && findDeclarationLine(lines) === lineNumber - 1) {
+        return {
+          range,
+          contents: [
+            { value: `**${declaration.keyword}** _(diagram)_` },
+            { value: declaration.doc }
+          ]
+        };
+      }
+
+      // 지시자 안의 설정 키
+      const lineText = model.getLineContent(lineNumber);
+      if (lineText.includes('%%{')) {
+        const directive = DIRECTIVES.find(d => d.keyword === word.word);
+        if (directive) {
+          return { range, contents: [{ value: `**${directive.keyword}** _(directive)_` }, { value: directive.doc }] };
+        }
+      }
+
+      // 현재 다이어그램 키워드 → 공통 키워드 순으로 검색
+      const kind = detectDiagramKind(model.getValue());
+      const candidates = [
+        ...(kind ? DIAGRAM_KEYWORDS[kind] : []),
+        ...COMMON_KEYWORDS
+      ];
+      const keyword = candidates.find(k => k.keyword === word.word || k.keyword === `${word.word}:`);
+      if (keyword) {
+        return { range, contents: [{ value: `**${keyword.keyword}**` }, { value: keyword.doc }] };
+      }
+
+      if (DIRECTIONS.includes(word.word)) {
+        const names: Record<string, string> = {
+          TB: 'top to bottom', TD: 'top-down (same as TB)', BT: 'bottom to top', RL: 'right to left', LR: 'left to right'
+        };
+        return { range, contents: [{ value: `**${word.word}** _(direction)_` }, { value: `Layout ${names[word.word]}.` }] };
+      }
+
+      return null;
+    }
+  };
+}
+
+// ============================================================================
+// 접기
+// ============================================================================
+
+/**
+ * 블록 접기 범위 제공자
+ * end로 닫히는 블록, 중괄호 블록, front-matter, 들여쓰기 기반 다이어그램 지원
+ */
+function createFoldingRangeProvider(monaco: Monaco): languages.FoldingRangeProvider {
+  return {
+    provideFoldingRanges: (model: editor.ITextModel): languages.FoldingRange[] => {
+      const lines = model.getLinesContent();
+      const ranges: languages.FoldingRange[] = [];
+      const endStack: number[] = [];
+      const braceStack: number[] = [];
+
+      // front-matter
+      if (lines[0]?.trim() === '---') {
+        const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+        if (closing > 0) {
+          ranges.push({ start: 1, end: closing + 1, kind: monaco.languages.FoldingRangeKind.Comment });
+        }
+      }
+
+      lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        const trimmed = line.trim();
+        if (trimmed.startsWith('%%')) return;
+
+        if (END_BLOCK_OPENERS.test(line)) {
+          endStack.push(lineNumber);
+        } else if (END_BLOCK_CLOSER.test(line) && endStack.length > 0) {
+          const start = endStack.pop()!;
+          if (lineNumber > start) ranges.push({ start, end: lineNumber });
+        }
+
+        // 문자열 안의 중괄호는 무시
+        const withoutStrings = trimmed.replace(/"[^"]*"/g, '');
+        if (/\{\s*$/.test(withoutStrings) && !withoutStrings.startsWith('%%{')) {
+          braceStack.push(lineNumber);
+        } else if (/^\}/.test(withoutStrings) && braceStack.length > 0) {
+          const start = braceStack.pop()!;
+          if (lineNumber > start) ranges.push({ start, end: lineNumber });
+        }
+      });
+
+      // 들여쓰기 기반 다이어그램
+      const kind = detectDiagramKind(model.getValue());
+      if (kind && INDENT_BASED_KINDS.includes(kind)) {
+        const indentOf = (line: string): number => line.length - line.trimStart().length;
+        lines.forEach((line, index) => {
+          if (!line.trim()) return;
+          const indent = indentOf(line);
+          let end = index;
+          for (let i = index + 1; i < lines.length; i++) {
+            if (!lines[i].trim()) continue;
+            if (indentOf(lines[i]) <= indent) break;
+            end = i;
+          }
+          if (end > index) ranges.push({ start: index + 1, end: end + 1 });
+        });
+      }
+
+      return ranges;
+    }
+  };
+}
+
+// ============================================================================
+// 등록
+// ============================================================================
+
+/**
+ * Mermaid 언어를 Monaco에 등록 (앱 수명 동안 한 번만)
+ * Editor의 beforeMount 콜백으로 사용
+ * @param monaco - Monaco 인스턴스
+ */
+export function registerMermaidLanguage(monaco: Monaco): void {
+  if (isRegistered) return;
+  isRegistered = true;
+
+  monaco.languages.register({
+    id: MERMAID_LANGUAGE_ID,
+    extensions: ['.mmd', '.mermaid'],
+    aliases: ['Mermaid', 'mermaid']
+  });
+
+  monaco.languages.setMonarchTokensProvider(MERMAID_LANGUAGE_ID, createTokensProvider());
+  monaco.languages.setLanguageConfiguration(MERMAID_LANGUAGE_ID, languageConfiguration);
+  monaco.languages.registerCompletionItemProvider(MERMAID_LANGUAGE_ID, createCompletionProvider(monaco));
+  monaco.languages.registerHoverProvider(MERMAID_LANGUAGE_ID, createHoverProvider());
+  monaco.languages.registerFoldingRangeProvider(MERMAID_LANGUAGE_ID, createFoldingRangeProvider(monaco));
+}
@@ -0,0 +1,194 @@
+/**
+ * Mermaid 설정 관리
+ * 기본 설정(mermaidConfig) + 앱 테마 + 워크스페이스 설정(mermaid.config.json)을 합쳐
+ * 미리보기, Markdown 내 다이어그램, 내보내기가 모두 같은 설정으로 렌더링되도록 함
+ *
+ * 파일별 설정(front-matter `config:` / %%{init}%% 지시자)은 mermaid.render가 직접 적용하며,
+ * 이 모듈은 파일에서 테마를 지정한 경우 기본 색상 덮어쓰기를 생략하여 해당 테마가 그대로 보이게 함
+ */
+
+import mermaid from 'mermaid';
+import type { MermaidConfig, RenderResult } from 'mermaid';
+import { mermaidConfig } from '../constants/mermaidConfig';
+import type { MermaidThemeName, MermaidUserConfig } from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const MERMAID_THEMES: MermaidThemeName[] = ['default', 'dark', 'forest', 'neutral', 'base'];
+
+// 앱 동작에 필요한 설정 - 워크스페이스 설정으로 바꿀 수 없음
+const RESERVED_KEYS = ['startOnLoad', 'securityLevel', 'secure'];
+
+// 기본 themeVariables 중 테마와 무관한 글꼴 관련 항목 (다른 테마를 지정해도 유지)
+const FONT_VARIABLE_KEYS = ['fontSize', 'edgeLabelFontSize', 'fontFamily'];
+
+const FRONT_MATTER = /^\s*---\s*\n([\s\S]*?)\n\s*---\s*(\n|$)/;
+const FRONT_MATTER_THEME = /^\s*theme\s*:/m;
+const DIRECTIVE_THEME = /%%\{[\s\S]*?["']?theme["']?\s*:[\s\S]*?\}%%/;
+
+// ============================================================================
+// 상태
+// ============================================================================
+
+type SettingsListener = () => void;
+type AppTheme = 'light' | 'dark';
+
+let workspaceConfig: MermaidUserConfig | null = null;
+let settingsVersion = 0;
+const listeners = new Set<SettingsListener>();
+
+function notifySettingsChanged(): void {
+  settingsVersion += 1;
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * 설정 변경 구독 (useSyncExternalStore용)
+ */
+export function subscribeMermaidSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 설정 버전 (변경될 때마다 증가 - 렌더링 effect 의존성으로 사용)
+ */
+export function getMermaidSettingsVersion(): number {
+  return settingsVersion;
+}
+
+// ============================================================================
+// 설정 병합
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 중첩 객체 병합 (배열/원시값은 덮어씀)
+ */
+function mergeConfig(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+  Object.entries(source).forEach(([key, value]) => {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+  });
+  return result;
+}
+
+/**
+ * 워크스페이스 설정 정리 (잘못된 테마, 예약된 키 제거)
+ */
+export function normalizeMermaidUserConfig(raw: unknown): MermaidUserConfig | null {
+  if (!isPlainObject(raw)) return null;
+
+  const config: MermaidUserConfig = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    if (RESERVED_KEYS.includes(key)) return;
+    if (key === 'theme' && !MERMAID_THEMES.includes(value as MermaidThemeName)) {
+      console.warn(`Ignoring unknown Mermaid theme: ${String(value)}`);
+      return;
+    }
+    if (key === 'themeVariables' && !isPlainObject(value)) return;
+    config[key] = value;
+  });
+
+  // fontFamily만 지정해도 노드/라벨 글꼴에 반영되도록 themeVariables에도 복사
+  if (typeof config.fontFamily === 'string' && config.themeVariables?.fontFamily === undefined) {
+    config.themeVariables = { ...config.themeVariables, fontFamily: config.fontFamily };
+  }
+
+  return config;
+}
+
+/**
+ * 워크스페이스 설정 적용 (null이면 기본 설정으로 복귀)
+ */
+export function setWorkspaceMermaidConfig(config: MermaidUserConfig | null): void {
+  workspaceConfig = normalizeMermaidUserConfig(config);
+  notifySettingsChanged();
+}
+
+/**
+ * 현재 워크스페이스 설정
+ */
+export function getWorkspaceMermaidConfig(): MermaidUserConfig | null {
+  return workspaceConfig;
+}
+
+/**
+ * 코드 자체(front-matter / %%{init}%%)에서 테마를 지정했는지 확인
+ */
+function hasInlineTheme(code: string): boolean {
+  const frontMatter = FRONT_MATTER.exec(code);
+  if (frontMatter && FRONT_MATTER_THEME.test(frontMatter[1])) return true;
+  return DIRECTIVE_THEME.test(code);
+}
+
+/**
+ * 현재 앱 테마 (light/dark)
+ */
+export function getCurrentAppTheme(): AppTheme {
+  return document.documentElement.getAttribute('data-theme') === 'dark' ? 'dark' : 'light';
+}
+
+/**
+ * 렌더링에 사용할 최종 Mermaid 설정 생성
+ * 우선순위: 기본 설정 < 앱 테마 < 워크스페이스 설정 < overrides (파일별 설정은 mermaid가 마지막에 적용)
+ * @param code - 렌더링할 코드 (파일별 테마 지정 여부 확인용)
+ * @param overrides - 렌더링 위치별 추가 설정 (예: Markdown 내 다이어그램의 useMaxWidth)
+ * @param appTheme - 기준 앱 테마 (기본값: 현재 앱 테마, 내보내기 시 다른 테마 지정 가능)
+ */
+export function buildMermaidConfig(code: string = '', overrides: MermaidConfig = {}, appTheme: AppTheme = getCurrentAppTheme()): MermaidConfig {
+  const userConfig = workspaceConfig ?? {};
+  const hasCustomTheme = userConfig.theme !== undefined || hasInlineTheme(code);
+
+  // 기본 색상 덮어쓰기는 기본/다크 테마용이므로, 다른 테마를 지정하면 글꼴 항목만 유지
+  const baseThemeVariables: Record<string, unknown> = hasCustomTheme
+    ? Object.fromEntries(Object.entries(mermaidConfig.themeVariables).filter(([key]) => FONT_VARIABLE_KEYS.includes(key)))
+    : { ...mermaidConfig.themeVariables };
+
+  let config: Record<string, unknown> = {
+    ...mermaidConfig,
+    theme: appTheme === 'dark' ? 'dark' : 'default',
+    themeVariables: baseThemeVariables
+  };
+  config = mergeConfig(config, userConfig);
+  config = mergeConfig(config, overrides as Record<string, unknown>);
+
+  return config as MermaidConfig;
+}
+
+// ============================================================================
+// 렌더링
+// ============================================================================
+
+/**
+ * 현재 설정으로 mermaid 초기화
+ */
+export function initializeMermaid(code: string = '', overrides: MermaidConfig = {}, appTheme?: AppTheme): void {
+  mermaid.initialize(buildMermaidConfig(code, overrides, appTheme));
+}
+
+// 앞선 렌더링이 끝난 뒤 다음 렌더링 시작 (실패해도 다음 렌더링은 진행)
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 현재 설정을 적용한 뒤 다이어그램 렌더링
+ * 미리보기/Markdown/내보내기 모두 이 함수를 거쳐 같은 설정으로 렌더링
+ * mermaid 설정은 전역이므로 초기화와 렌더링을 한 묶음으로 순서대로 실행
+ * (동시에 요청한 렌더링이 다른 요청의 설정/테마로 그려지지 않도록)
+ */
+export function renderMermaid(id: string, code: string, overrides: MermaidConfig = {}, appTheme?: AppTheme): Promise<RenderResult> {
+  const result = renderQueue.then(() => {
+    initializeMermaid(code, overrides, appTheme);
+    return mermaid.render(id, code);
+  });
+  renderQueue = result.catch(() => undefined);
+  return result;
+}
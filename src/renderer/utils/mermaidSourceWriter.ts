@@ -0,0 +1,176 @@
+/**
+ * Mermaid 소스 작성 도우미
+ * draw.io / PlantUML / DOT 가져오기 변환기에서 공통으로 사용
+ * - 원본 ID → Mermaid에서 쓸 수 있는 노드 ID
+ * - 따옴표 레이블, flowchart 노드/연결선/스타일 구문
+ * - 변환하지 못한 항목 수집
+ */
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * flowchart 노드 모양
+ */
+export type FlowchartShape =
+  | 'rect'
+  | 'round'
+  | 'stadium'
+  | 'circle'
+  | 'double-circle'
+  | 'diamond'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'trapezoid'
+  | 'trapezoid-alt'
+  | 'cylinder'
+  | 'subroutine';
+
+/**
+ * flowchart 연결선 (선 종류, 화살표 방향, 레이블)
+ */
+export interface FlowchartEdge {
+  line: 'solid' | 'dotted' | 'thick';
+  arrow: 'none' | 'end' | 'both';
+  label?: string;
+}
+
+/**
+ * 노드 스타일 (CSS 색상 값)
+ */
+export interface FlowchartNodeStyle {
+  fill?: string;
+  stroke?: string;
+  color?: string;
+}
+
+export interface WarningCollector {
+  warn: (message: string, lineNumber?: number) => void;
+  // 같은 종류의 경고는 한 번만 기록 (예: 지원하지 않는 속성 이름)
+  warnOnce: (key: string, message: string) => void;
+  list: () => string[];
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+// 노드 ID로 쓰면 구문이 깨지는 flowchart 키워드
+const RESERVED_IDS = new Set([
+  'end', 'graph', 'flowchart', 'subgraph', 'style', 'class', 'classdef',
+  'click', 'linkstyle', 'direction', 'default', 'call', 'href'
+]);
+
+const SHAPE_BRACKETS: Record<FlowchartShape, [string, string]> = {
+  rect: ['[', ']'],
+  round: ['(', ')'],
+  stadium: ['([', '])'],
+  circle: ['((', '))'],
+  'double-circle': ['(((', ')))'],
+  diamond: ['{', '}'],
+  hexagon: ['{{', '}}'],
+  parallelogram: ['[/', '/]'],
+  trapezoid: ['[/', '\\]'],
+  'trapezoid-alt': ['[\\', '/]'],
+  cylinder: ['[(', ')]'],
+  subroutine: ['[[', ']]']
+};
+
+const EDGE_OPERATORS: Record<FlowchartEdge['line'], Record<FlowchartEdge['arrow'], string>> = {
+  solid: { none: '---', end: '-->', both: '<-->' },
+  dotted: { none: '-.-', end: '-.->', both: '<-.->' },
+  thick: { none: '===', end: '==>', both: '<==>' }
+};
+
+// style 구문에 넣을 수 있는 색상 (#hex 또는 색상 이름)
+const COLOR_PATTERN = /^#?[0-9A-Za-z]+$/;
+
+// ============================================================================
+// ID / 레이블
+// ============================================================================
+
+/**
+ * 원본 ID를 Mermaid 노드 ID로 바꾸는 함수 생성
+ * 같은 원본 ID는 항상 같은 ID로, 정리 후 겹치는 ID는 _2, _3 접미사로 구분
+ */
+export function createIdAllocator(prefix = 'n'): (key: string) => string {
+  const assigned = new Map<string, string>();
+  const used = new Set<string>();
+
+  return (key: string): string => {
+    const existing = assigned.get(key);
+    if (existing) return existing;
+
+    let base = key.replace(/[^\w]/g, '_').replace(/^_+|_+$/g, '');
+    if (!base || /^\d/.test(base) || RESERVED_IDS.has(base.toLowerCase())) {
+      base = `${prefix}_${base}`.replace(/_+$/, '');
+    }
+
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    assigned.set(key, id);
+    used.add(id);
+    return id;
+  };
+}
+
+/**
+ * 따옴표 레이블 (따옴표는 엔티티로, 줄바꿈은 <br>로)
+ */
+export function quoteLabel(text: string): string {
+  const escaped = text
+    .replace(/"/g, '#quot;')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .join('<br>');
+  return `"${escaped}"`;
+}
+
+// ============================================================================
+// flowchart 구문
+// ============================================================================
+
+export function formatFlowchartNode(id: string, label: string, shape: FlowchartShape = 'rect'): string {
+  const [open, close] = SHAPE_BRACKETS[shape];
+  return `${id}${open}${quoteLabel(label)}${close}`;
+}
+
+export function formatFlowchartEdge(from: string, to: string, edge: FlowchartEdge): string {
+  const operator = EDGE_OPERATORS[edge.line][edge.arrow];
+  const label = edge.label?.trim() ? `|${quoteLabel(edge.label)}|` : '';
+  return `${from} ${operator}${label} ${to}`;
+}
+
+/**
+ * style 구문 (표현할 수 없는 색상 값은 제외, 남는 값이 없으면 null)
+ */
+export function formatNodeStyle(id: string, style: FlowchartNodeStyle): string | null {
+  const properties = (Object.entries(style) as [keyof FlowchartNodeStyle, string | undefined][])
+    .filter((entry): entry is [keyof FlowchartNodeStyle, string] => Boolean(entry[1] && COLOR_PATTERN.test(entry[1])))
+    .map(([property, value]) => `${property}:${value}`);
+  return properties.length > 0 ? `style ${id} ${properties.join(',')}` : null;
+}
+
+// ============================================================================
+// 경고 수집
+// ============================================================================
+
+export function createWarningCollector(): WarningCollector {
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  return {
+    warn: (message, lineNumber) => {
+      warnings.push(lineNumber ? `Line ${lineNumber}: ${message}` : message);
+    },
+    warnOnce: (key, message) => {
+      if (seen.has(key)) return;
+      seen.add(key);
+      warnings.push(message);
+    },
+    list: () => [...warnings]
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * 아웃라인(목차) 생성 유틸리티
+ * - Markdown: ATX(#)/Setext(===, ---) 제목
+ * - Mermaid: 다이어그램 종류별 서브그래프, 참여자, 클래스, 상태, 엔티티
+ */
+
+import { detectDiagramKind, findDeclarationLine } from './mermaidLanguage';
+import type { FileType, OutlineItem, OutlineItemKind } from '../../types';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const FRONT_MATTER_DELIMITER = /^-{3}\s*$/;
+const FENCE_OPEN = /^\s{0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+
+const COMMENT_LINE = /^\s*%%/;
+
+// flowchart
+const SUBGRAPH = /^\s*subgraph\s+(.+?)\s*$/;
+const SUBGRAPH_END = /^\s*end\s*$/;
+const SUBGRAPH_TITLE = /^([^\s[]+)\s*\[\s*"?(.*?)"?\s*\]$/;
+
+// sequence
+const PARTICIPANT = /^\s*(?:create\s+)?(?:participant|actor)\s+(.+?)(?:\s+as\s+(.+?))?\s*$/;
+const SEQUENCE_MESSAGE = /^\s*([^\s:%+-][^:]*?)\s*(?:<<)?-{1,2}(?:>>|>|x|\)|\|\\|\|\/)\s*[+-]?\s*([^:]+?)\s*:/;
+const SEQUENCE_BLOCK = /^\s*(?:loop|alt|else|opt|par|and|critical|option|break|rect|box|end|note|activate|deactivate|autonumber|destroy)\b/;
+
+// class
+const CLASS_DECLARATION = /^\s*class\s+([\w`]+)(?:~[^~]*~)?(?:\s*\[\s*"(.*?)"\s*\])?/;
+const CLASS_RELATION = /^\s*([\w`]+)\s*(?:"[^"]*"\s*)?(?:<\|--|\*--|o--|-->|\.\.>|\.\.\|>|--\*|--o|--\|>|<--|<\.\.|--|\.\.)\s*(?:"[^"]*"\s*)?([\w`]+)/;
+const CLASS_MEMBER = /^\s*([\w`]+)\s*:/;
+
+// state
+const STATE_DECLARATION = /^\s*state\s+(?:"([^"]*)"\s+as\s+)?([\w-]+)(?:\s*:\s*(.*?))?\s*(\{)?\s*$/;
+const STATE_TRANSITION = /^\s*([\w-]+|\[\*\])\s*-->\s*([\w-]+|\[\*\])/;
+const STATE_DESCRIPTION = /^\s*([\w-]+)\s*:/;
+const BLOCK_CLOSE = /^\s*\}\s*$/;
+
+// er
+const ER_ENTITY_BLOCK = /^\s*([\w-]+)(?:\s*\[[^\]]*\])?\s*\{\s*$/;
+const ER_RELATION = /^\s*([\w-]+)\s*[|}o][|o]?(?:--|\.\.)[|o][|{o]?\s*([\w-]+)/;
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * 제목 텍스트에서 인라인 Markdown 문법 제거
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+/**
+ * Markdown 제목 목록 (코드 펜스와 front-matter 안은 제외)
+ */
+export function buildMarkdownOutline(markdown: string): OutlineItem[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const items: OutlineItem[] = [];
+  let index = 0;
+
+  // front-matter 건너뛰기
+  if (FRONT_MATTER_DELIMITER.test(lines[0] ?? '')) {
+    const closing = lines.findIndex((line, i) => i > 0 && FRONT_MATTER_DELIMITER.test(line));
+    if (closing !== -1) index = closing + 1;
+  }
+
+  let fence: string | null = null;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fenceMatch = FENCE_OPEN.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && !line.trim().slice(fenceMatch[1].length).trim()) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      const label = stripInlineMarkdown(atx[2]);
+      if (label) {
+        items.push({ kind: 'heading', label, lineNumber: index + 1, level: atx[1].length });
+      }
+      continue;
+    }
+
+    // Setext 제목: 텍스트 줄 바로 다음의 === 또는 --- (빈 줄 다음의 ---는 구분선)
+    const next = lines[index + 1];
+    const setext = next !== undefined ? SETEXT_UNDERLINE.exec(next) : null;
+    if (setext && line.trim() && !/^\s{0,3}[-*+>]\s/.test(line)) {
+      items.push({
+        kind: 'heading',
+        label: stripInlineMarkdown(line),
+        lineNumber: index + 1,
+        level: setext[1][0] === '=' ? 1 : 2
+      });
+      index++;
+    }
+  }
+
+  return items;
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+/**
+ * 따옴표/백틱 제거
+ */
+function unquote(text: string): string {
+  return text.trim().replace(/^["`](.*)["`]$/, '$1');
+}
+
+/**
+ * 항목 추가 (같은 이름은 처음 등장한 줄만 사용)
+ */
+function addUnique(
+  items: OutlineItem[],
+  seen: Set<string>,
+  kind: OutlineItemKind,
+  key: string,
+  label: string,
+  lineNumber: number,
+  level = 1
+): void {
+  if (!key || seen.has(key)) return;
+  seen.add(key);
+  items.push({ kind, label, lineNumber, level });
+}
+
+/**
+ * flowchart: 서브그래프 (중첩 깊이를 level로 표시)
+ */
+function outlineFlowchart(lines: string[], start: number): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  let depth = 0;
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const subgraph = SUBGRAPH.exec(line);
+    if (subgraph) {
+      depth++;
+      const title = SUBGRAPH_TITLE.exec(subgraph[1]);
+      items.push({
+        kind: 'subgraph',
+        label: title ? unquote(title[2]) || title[1] : unquote(subgraph[1]),
+        lineNumber: index + 1,
+        level: depth
+      });
+    } else if (SUBGRAPH_END.test(line) && depth > 0) {
+      depth--;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * sequence: 선언된 참여자와 메시지에만 등장하는 참여자 (등장 순서)
+ */
+function outlineSequence(lines: string[], start: number): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  const seen = new Set<string>();
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const participant = PARTICIPANT.exec(line);
+    if (participant) {
+      const name = unquote(participant[1]);
+      addUnique(items, seen, 'participant', name, participant[2] ? unquote(participant[2]) : name, index + 1);
+      continue;
+    }
+    if (SEQUENCE_BLOCK.test(line)) continue;
+
+    const message = SEQUENCE_MESSAGE.exec(line);
+    if (message) {
+      addUnique(items, seen, 'participant', message[1], message[1], index + 1);
+      addUnique(items, seen, 'participant', message[2], message[2], index + 1);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * class: 선언된 클래스와 관계/멤버 정의에만 등장하는 클래스
+ */
+function outlineClass(lines: string[], start: number): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  const seen = new Set<string>();
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const declaration = CLASS_DECLARATION.exec(line);
+    if (declaration) {
+      const name = unquote(declaration[1]);
+      addUnique(items, seen, 'class', name, declaration[2] || name, index + 1);
+      continue;
+    }
+
+    const relation = CLASS_RELATION.exec(line);
+    if (relation) {
+      addUnique(items, seen, 'class', unquote(relation[1]), unquote(relation[1]), index + 1);
+      addUnique(items, seen, 'class', unquote(relation[2]), unquote(relation[2]), index + 1);
+      continue;
+    }
+
+    const member = CLASS_MEMBER.exec(line);
+    if (member) {
+      addUnique(items, seen, 'class', unquote(member[1]), unquote(member[1]), index + 1);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * state: 상태 (복합 상태 { } 중첩 깊이를 level로 표시, 시작/종료 [*] 제외)
+ */
+function outlineState(lines: string[], start: number): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  const seen = new Set<string>();
+  let depth = 1;
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const declaration = STATE_DECLARATION.exec(line);
+    if (declaration) {
+      const id = declaration[2];
+      addUnique(items, seen, 'state', id, declaration[1] || id, index + 1, depth);
+      if (declaration[4]) depth++;
+      continue;
+    }
+    if (BLOCK_CLOSE.test(line)) {
+      depth = Math.max(1, depth - 1);
+      continue;
+    }
+
+    const transition = STATE_TRANSITION.exec(line);
+    if (transition) {
+      [transition[1], transition[2]].forEach(id => {
+        if (id !== '[*]') addUnique(items, seen, 'state', id, id, index + 1, depth);
+      });
+      continue;
+    }
+
+    const description = STATE_DESCRIPTION.exec(line);
+    if (description) {
+      addUnique(items, seen, 'state', description[1], description[1], index + 1, depth);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * er: 엔티티 (속성 블록 또는 관계에 처음 등장한 줄)
+ */
+function outlineEntityRelationship(lines: string[], start: number): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  const seen = new Set<string>();
+  let inBlock = false;
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    if (inBlock) {
+      if (BLOCK_CLOSE.test(line)) inBlock = false;
+      continue;
+    }
+
+    const entity = ER_ENTITY_BLOCK.exec(line);
+    if (entity) {
+      addUnique(items, seen, 'entity', entity[1], entity[1], index + 1);
+      inBlock = true;
+      continue;
+    }
+
+    const relation = ER_RELATION.exec(line);
+    if (relation) {
+      addUnique(items, seen, 'entity', relation[1], relation[1], index + 1);
+      addUnique(items, seen, 'entity', relation[2], relation[2], index + 1);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Mermaid 다이어그램 아웃라인 (지원하지 않는 다이어그램 종류는 빈 목록)
+ */
+export function buildMermaidOutline(code: string): OutlineItem[] {
+  const lines = code.replace(/\r\n?/g, '\n').split('\n');
+  const declarationLine = findDeclarationLine(lines);
+  if (declarationLine === -1) return [];
+
+  // 주석 줄은 빈 줄로 바꿔 줄 번호 유지
+  const body = lines.map(line => (COMMENT_LINE.test(line) ? '' : line));
+  const start = declarationLine + 1;
+
+  switch (detectDiagramKind(code)) {
+    case 'flowchart':
+      return outlineFlowchart(body, start);
+    case 'sequence':
+      return outlineSequence(body, start);
+    case 'class':
+      return outlineClass(body, start);
+    case 'state':
+      return outlineState(body, start);
+    case 'er':
+      return outlineEntityRelationship(body, start);
+    default:
+      return [];
+  }
+}
+
+/**
+ * 파일 타입에 맞는 아웃라인 생성
+ */
+export function buildOutline(content: string, fileType: FileType): OutlineItem[] {
+  if (fileType === 'markdown') return buildMarkdownOutline(content);
+  if (fileType === 'mermaid') return buildMermaidOutline(content);
+  return [];
+}
@@ -0,0 +1,914 @@
+/**
+ * PlantUML → Mermaid 변환
+ * - 시퀀스 다이어그램 → sequenceDiagram (참여자, 메시지, 활성화, 노트, alt/opt/loop/par 블록)
+ * - 클래스 다이어그램 → classDiagram (클래스/인터페이스/열거형, 멤버, 관계, 패키지)
+ * - 액티비티 다이어그램(새 문법) → flowchart (동작, if/switch/while/repeat/fork, partition)
+ * 스타일(skinparam, 색상)과 레이아웃 힌트는 변환하지 않음 (경고로 보고)
+ */
+
+import {
+  createIdAllocator,
+  createWarningCollector,
+  formatFlowchartEdge,
+  formatFlowchartNode,
+  quoteLabel
+} from './mermaidSourceWriter';
+import type { FlowchartShape, WarningCollector } from './mermaidSourceWriter';
+import type { DiagramImportResult } from '../../types';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+type PlantUmlKind = 'sequence' | 'class' | 'activity';
+
+// 원본 줄 (경고에 표시할 1-based 줄 번호 포함)
+interface SourceLine {
+  text: string;
+  lineNumber: number;
+}
+
+interface ConvertContext {
+  warnings: WarningCollector;
+  title: string | null;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const START_TAG = /^\s*@start(\w+)/;
+const END_TAG = /^\s*@end\w+/;
+
+// 세 종류 공통으로 변환하지 않는 문장
+const STYLE_STATEMENT = /^(?:skinparam|hide|show|scale|!\w+|set\s|header|footer|caption|legend|mainframe|newpage|allowmixing)\b/i;
+const TITLE = /^title\s+(.+)$/i;
+const COMMENT = /^'(.*)$/;
+
+// 종류 판별
+// entity는 시퀀스 참여자 종류와 겹치므로 판별에 사용하지 않음
+const CLASS_HINT = /^(?:abstract\s+class|abstract|class|interface|enum|annotation|struct|protocol|exception)\s+["\w]/;
+const CLASS_RELATION_HINT = /(?:<\|--|--\|>|<\|\.\.|\.\.\|>|\*--|--\*|o--|--o)/;
+const ACTIVITY_HINT = /^(?:start|stop|end|if\s*\(|while\s*\(|repeat\b|fork\b|switch\s*\(|:.*)$/;
+const LEGACY_ACTIVITY = /\(\*\)/;
+
+// 시퀀스
+const PARTICIPANT = /^(participant|actor|boundary|control|entity|database|collections|queue)\s+(.+)$/i;
+const MESSAGE = /^("[^"]+"|[\w.@]+|\[|\])\s*((?:[ox]?<<?|[ox/\\])?[-.]+(?:\[[^\]]*\])?[-.]*(?:>>?[ox]?|[ox/\\])?)\s*("[^"]+"|[\w.@]+|\[|\])\s*(\+\+|--|\*\*|!!)?\s*(?::\s*(.*))?$/;
+const SEQUENCE_BLOCK = /^(alt|opt|loop|par|break|critical|group)\b\s*(.*)$/i;
+const SEQUENCE_ELSE = /^else\b\s*(.*)$/i;
+const SEQUENCE_END = /^end\b(?!\s*(?:note|box|ref))/i;
+const BOX = /^box\b\s*(?:"([^"]*)"|([^#]*?))?\s*(#\S+)?\s*$/i;
+const END_BOX = /^end\s+box$/i;
+const NOTE_SEQUENCE = /^[hr]?note\s+(left|right|over)(?:\s+of)?\s*([^:]*?)\s*(?::\s*(.*))?$/i;
+const END_NOTE = /^end\s*[hr]?note$/i;
+const REF = /^ref\s+over\s+([^:]+?)\s*:\s*(.*)$/i;
+const ACTIVATION = /^(activate|deactivate|destroy|create)\s+(?:participant\s+|actor\s+)?("[^"]+"|[\w.@]+)/i;
+const AUTONUMBER = /^autonumber\b\s*(.*)$/i;
+const DIVIDER = /^==\s*(.*?)\s*==$/;
+const DELAY = /^(?:\.\.\.|\|\|\d*\|\|?)/;
+
+// 클래스
+const CLASS_DECLARATION = /^(abstract\s+class|abstract|class|interface|enum|annotation|entity|struct|protocol|exception)\s+("[^"]+"|[\w.$]+)(\s*<[^>]*>)?(?:\s+as\s+([\w.$]+))?((?:\s*<<[^>]+>>)*)\s*(#\S+)?(?:\s+extends\s+([\w.$,\s]+?))?(?:\s+implements\s+([\w.$,\s]+?))?\s*(\{)?\s*(\})?$/;
+const CLASS_RELATION = /^("[^"]+"|[\w.$]+)\s*(?:"([^"]*)")?\s*([<*o#x}+^|]*[-.]+(?:\[[^\]]*\]|left|right|up|down|le|ri|do|l|r|u|d)?[-.]*[>*o#x{+^|]*)\s*(?:"([^"]*)")?\s*("[^"]+"|[\w.$]+)\s*(?::\s*(.*))?$/;
+const CLASS_MEMBER_LINE = /^("[^"]+"|[\w.$]+)\s*:\s*(.+)$/;
+const PACKAGE = /^(package|namespace|folder|frame|cloud|node|rectangle)\s+("[^"]+"|[\w.$:-]+)[^{]*\{\s*$/i;
+const NOTE_CLASS = /^note\s+(?:(left|right|top|bottom)\s+of\s+)?("[^"]+"|[\w.$]+)?\s*(?:as\s+\w+)?\s*(?::\s*(.*))?$/i;
+const FLOATING_NOTE = /^note\s+"([^"]*)"\s+as\s+(\w+)$/i;
+const DIRECTION = /^(left to right|top to bottom) direction$/i;
+const MEMBER_SEPARATOR = /^(?:--+|\.\.+|==+|__+)(?:.*?)(?:--+|\.\.+|==+|__+)?$/;
+
+// 액티비티
+const ACTION_START = /^:(.*)$/;
+const ACTION_END = /[;|<>/\]}]$/;
+const IF = /^if\s*\((.*?)\)\s*(?:is\s*\((.*?)\)\s*)?(?:then\s*(?:\((.*?)\))?)?$/i;
+const ELSE_IF = /^else\s*if\s*\((.*?)\)\s*(?:then\s*(?:\((.*?)\))?)?$/i;
+const ELSE = /^else\s*(?:\((.*?)\))?$/i;
+const END_IF = /^end\s*if$/i;
+const SWITCH = /^switch\s*\((.*)\)$/i;
+const CASE = /^case\s*\((.*)\)$/i;
+const END_SWITCH = /^end\s*switch$/i;
+const WHILE = /^while\s*\((.*?)\)\s*(?:is\s*\((.*?)\))?$/i;
+const END_WHILE = /^end\s*while\s*(?:\((.*?)\))?$/i;
+const REPEAT = /^repeat$/i;
+const REPEAT_WHILE = /^repeat\s*while\s*\((.*?)\)\s*(?:is\s*\((.*?)\))?\s*(?:not\s*\((.*?)\))?$/i;
+const FORK = /^(fork|split)$/i;
+const FORK_AGAIN = /^(fork|split)\s+again$/i;
+const END_FORK = /^end\s*(fork|merge|split)\b.*$/i;
+const ARROW_LABEL = /^-+(?:\[[^\]]*\])?-*>\s*(.*?);?$/;
+const GROUP_START = /^(partition|group|package|rectangle|card)\s+("[^"]+"|[^{]+?)\s*\{?$/i;
+const SWIMLANE = /^\|.*\|$/;
+const TERMINAL = /^(stop|end|kill|detach)$/i;
+
+// ============================================================================
+// 공통
+// ============================================================================
+
+function unquote(text: string): string {
+  return text.startsWith('"') && text.endsWith('"') ? text.slice(1, -1) : text;
+}
+
+/**
+ * PlantUML 텍스트의 \n 줄바꿈을 Mermaid <br/>로
+ */
+function toMermaidText(text: string): string {
+  return text.replace(/\\n/g, '<br/>').replace(/;/g, '#59;').trim();
+}
+
+/**
+ * @startuml ~ @enduml 본문 추출 (블록 주석은 같은 줄 수의 빈 줄로 대체)
+ */
+function extractBody(source: string, warnings: WarningCollector): SourceLine[] {
+  const text = source.replace(/\r\n?/g, '\n').replace(/\/'[\s\S]*?'\//g, comment => comment.replace(/[^\n]/g, ''));
+  const lines = text.split('\n').map((line, index) => ({ text: line.trim(), lineNumber: index + 1 }));
+
+  const start = lines.findIndex(line => START_TAG.test(line.text));
+  if (start === -1) return lines;
+
+  const startTag = START_TAG.exec(lines[start].text)![1].toLowerCase();
+  if (startTag !== 'uml') {
+    throw new Error(`PlantUML @start${startTag} diagrams are not supported`);
+  }
+
+  const end = lines.findIndex((line, index) => index > start && END_TAG.test(line.text));
+  const body = lines.slice(start + 1, end === -1 ? undefined : end);
+  if (end !== -1 && lines.slice(end + 1).some(line => START_TAG.test(line.text))) {
+    warnings.warn('Only the first @startuml block in the file was imported');
+  }
+  return body;
+}
+
+function detectKind(lines: SourceLine[]): PlantUmlKind {
+  const texts = lines.map(line => line.text);
+  if (texts.some(text => LEGACY_ACTIVITY.test(text))) {
+    throw new Error('Legacy PlantUML activity syntax "(*)" is not supported; convert it to the new activity syntax first');
+  }
+  if (texts.some(text => CLASS_HINT.test(text) || CLASS_RELATION_HINT.test(text))) return 'class';
+  if (texts.some(text => PARTICIPANT.test(text) || MESSAGE.test(text))) return 'sequence';
+  if (texts.some(text => ACTIVITY_HINT.test(text))) return 'activity';
+  throw new Error('Unsupported PlantUML diagram type (supported: sequence, class, activity)');
+}
+
+/**
+ * 세 종류 공통 문장 처리 (제목, 주석, 스타일) - 처리했으면 Mermaid 줄(또는 null), 아니면 undefined
+ */
+function convertCommonStatement(line: SourceLine, context: ConvertContext): string | null | undefined {
+  const title = TITLE.exec(line.text);
+  if (title) {
+    context.title = unquote(title[1].trim());
+    return null;
+  }
+  const comment = COMMENT.exec(line.text);
+  if (comment) return `%% ${comment[1].trim()}`;
+  if (STYLE_STATEMENT.test(line.text)) {
+    const keyword = line.text.split(/\s/)[0].toLowerCase();
+    context.warnings.warnOnce(`style:${keyword}`, `"${keyword}" statements (styling/layout) were not translated`);
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * skinparam/legend 등 여러 줄 블록은 건너뜀 (다음 처리할 줄 위치 반환)
+ */
+function skipBlock(lines: SourceLine[], index: number): number {
+  const text = lines[index].text;
+  if (/^skinparam\b.*\{$/i.test(text) || /^(?:style|<style>)/i.test(text)) {
+    let i = index + 1;
+    while (i < lines.length && !/^\}|<\/style>/i.test(lines[i].text)) i++;
+    return i + 1;
+  }
+  if (/^(?:legend|header|footer)\b(?!.*:)/i.test(text) && !/^(?:header|footer)\s+\S/i.test(text)) {
+    let i = index + 1;
+    while (i < lines.length && !/^end\s*(?:legend|header|footer)$/i.test(lines[i].text)) i++;
+    return i + 1;
+  }
+  return index + 1;
+}
+
+function withTitle(lines: string[], title: string | null): string {
+  return (title ? ['---', `title: ${JSON.stringify(title)}`, '---', ...lines] : lines).join('\n');
+}
+
+// ============================================================================
+// 시퀀스 다이어그램
+// ============================================================================
+
+/**
+ * 화살표 → Mermaid 화살표 (역방향 여부 포함)
+ */
+function convertSequenceArrow(arrow: string, warnings: WarningCollector, lineNumber: number): { operator: string; reversed: boolean } {
+  if (/\[[^\]]*\]/.test(arrow)) {
+    warnings.warnOnce('arrow-color', 'Arrow colors and styles were not translated');
+  }
+  const plain = arrow.replace(/\[[^\]]*\]/g, '');
+  const dashed = /--|\.\./.test(plain) || /^[<ox/\\]*-\s*-/.test(plain);
+  const left = /^(?:<<|<|x|o|\/|\\)/.exec(plain)?.[0] ?? '';
+  const right = /(?:>>|>|x|o|\/|\\)$/.exec(plain)?.[0] ?? '';
+  const line = dashed ? '--' : '-';
+
+  if (left && right) {
+    return { operator: `<<${line}>>`, reversed: false };
+  }
+
+  const head = left || right;
+  if (head === 'o' || head === '/' || head === '\\') {
+    warnings.warn(`Arrow head "${arrow}" was drawn as a plain arrow`, lineNumber);
+  }
+  const operator = head === '>>' || head === '<<'
+    ? `${line})`
+    : head === 'x' ? `${line}x` : head ? `${line}>>` : line;
+  return { operator, reversed: Boolean(left) };
+}
+
+function convertSequence(lines: SourceLine[], context: ConvertContext): string {
+  const { warnings } = context;
+  const toId = createIdAllocator('p');
+  const declared = new Set<string>();
+  const participantOrder: string[] = [];
+  const blockStack: string[] = [];
+  const output: string[] = ['sequenceDiagram'];
+  let lastMessage: { from: string; to: string } | null = null;
+
+  // 참여자 ID (처음 나온 이름이 ID와 다르면 별칭 선언 추가)
+  const participant = (name: string): string => {
+    const key = unquote(name);
+    const id = toId(key);
+    if (!declared.has(id)) {
+      declared.add(id);
+      participantOrder.push(id);
+      if (id !== key) output.push(`  participant ${id} as ${toMermaidText(key)}`);
+    }
+    return id;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const { text, lineNumber } = line;
+    if (!text) continue;
+
+    const indent = '  '.repeat(blockStack.length + 1);
+    const common = convertCommonStatement(line, context);
+    if (common !== undefined) {
+      if (common) output.push(`${indent}${common}`);
+      index = skipBlock(lines, index) - 1;
+      continue;
+    }
+
+    const participantMatch = PARTICIPANT.exec(text);
+    if (participantMatch) {
+      const type = participantMatch[1].toLowerCase();
+      const rest = participantMatch[2].replace(/<<[^>]*>>/g, '').replace(/\s+order\s+\d+/i, '').replace(/\s+#\S+\s*$/, '').trim();
+      const alias = /^("[^"]+"|\S+)\s+as\s+("[^"]+"|\S+)$/.exec(rest);
+      // "Long name" as L 과 L as "Long name" 모두 지원
+      const [name, label] = alias
+        ? (alias[1].startsWith('"') ? [alias[2], alias[1]] : [alias[1], alias[2]])
+        : [rest, rest];
+      const id = toId(unquote(name));
+      if (type !== 'participant' && type !== 'actor') {
+        warnings.warnOnce(`participant:${type}`, `"${type}" participants are shown as plain participants`);
+      }
+      const keyword = type === 'actor' ? 'actor' : 'participant';
+      const display = unquote(label);
+      output.push(`${indent}${keyword} ${id}${display !== id ? ` as ${toMermaidText(display)}` : ''}`);
+      if (!declared.has(id)) {
+        declared.add(id);
+        participantOrder.push(id);
+      }
+      continue;
+    }
+
+    const box = BOX.exec(text);
+    if (box && !END_BOX.test(text)) {
+      const label = (box[1] ?? box[2] ?? '').trim();
+      output.push(`${indent}box ${label || 'Group'}`);
+      blockStack.push('box');
+      continue;
+    }
+    if (END_BOX.test(text)) {
+      blockStack.pop();
+      output.push(`${'  '.repeat(blockStack.length + 1)}end`);
+      continue;
+    }
+
+    const block = SEQUENCE_BLOCK.exec(text);
+    if (block) {
+      const type = block[1].toLowerCase();
+      const label = toMermaidText(block[2].replace(/^#\S+\s*/, ''));
+      if (type === 'group') {
+        warnings.warn('"group" was converted to a highlighted rect; its label is kept as a note-less comment', lineNumber);
+        output.push(`${indent}%% group ${label}`, `${indent}rect rgb(240, 240, 240)`);
+      } else {
+        output.push(`${indent}${type} ${label}`.trimEnd());
+      }
+      blockStack.push(type);
+      continue;
+    }
+
+    const elseMatch = SEQUENCE_ELSE.exec(text);
+    if (elseMatch && blockStack.length > 0) {
+      const keyword = blockStack[blockStack.length - 1] === 'par' ? 'and' : blockStack[blockStack.length - 1] === 'critical' ? 'option' : 'else';
+      output.push(`${'  '.repeat(blockStack.length)}${keyword} ${toMermaidText(elseMatch[1].replace(/^#\S+\s*/, ''))}`.trimEnd());
+      continue;
+    }
+
+    if (SEQUENCE_END.test(text) && blockStack.length > 0) {
+      blockStack.pop();
+      output.push(`${'  '.repeat(blockStack.length + 1)}end`);
+      continue;
+    }
+
+    const note = NOTE_SEQUENCE.exec(text);
+    if (note) {
+      let body = note[3];
+      if (body === undefined) {
+        // 여러 줄 노트
+        const noteLines: string[] = [];
+        while (++index < lines.length && !END_NOTE.test(lines[index].text)) {
+          noteLines.push(lines[index].text);
+        }
+        body = noteLines.join('\\n');
+      }
+      const position = note[1].toLowerCase();
+      const targets = note[2].split(',').map(target => target.trim()).filter(Boolean);
+      const resolved = targets.length > 0
+        ? targets.map(participant)
+        : lastMessage ? [position === 'right' ? lastMessage.to : lastMessage.from] : [];
+      if (resolved.length === 0) {
+        warnings.warn('Note without a participant was skipped', lineNumber);
+        continue;
+      }
+      const placement = position === 'over' ? 'over' : `${position} of`;
+      output.push(`${indent}Note ${placement} ${resolved.join(',')}: ${toMermaidText(body)}`);
+      continue;
+    }
+
+    const ref = REF.exec(text);
+    if (ref) {
+      warnings.warn('"ref" was converted to a note', lineNumber);
+      output.push(`${indent}Note over ${ref[1].split(',').map(target => participant(target.trim())).join(',')}: ref: ${toMermaidText(ref[2])}`);
+      continue;
+    }
+
+    const activation = ACTIVATION.exec(text);
+    if (activation) {
+      const action = activation[1].toLowerCase();
+      const id = participant(activation[2]);
+      if (action === 'create') {
+        output.push(`${indent}create participant ${id}`);
+      } else if (action === 'destroy') {
+        warnings.warn(`"destroy ${activation[2]}" was not translated (Mermaid destroys participants with a message)`, lineNumber);
+      } else {
+        output.push(`${indent}${action} ${id}`);
+      }
+      continue;
+    }
+
+    const autonumber = AUTONUMBER.exec(text);
+    if (autonumber) {
+      if (autonumber[1]) warnings.warn('Autonumber start/step/format was not translated', lineNumber);
+      output.push(`${indent}autonumber`);
+      continue;
+    }
+
+    const divider = DIVIDER.exec(text);
+    if (divider) {
+      if (participantOrder.length === 0) {
+        warnings.warn(`Divider "${divider[1]}" was skipped`, lineNumber);
+      } else {
+        const span = participantOrder.length > 1 ? `${participantOrder[0]},${participantOrder[participantOrder.length - 1]}` : participantOrder[0];
+        output.push(`${indent}Note over ${span}: ${toMermaidText(divider[1])}`);
+      }
+      continue;
+    }
+
+    if (DELAY.test(text)) {
+      warnings.warnOnce('delay', 'Delays ("...") and spacing ("|||") were not translated');
+      continue;
+    }
+
+    const message = MESSAGE.exec(text);
+    if (message) {
+      const [, rawFrom, arrow, rawTo, activationSuffix, label] = message;
+      if ([rawFrom, rawTo].some(name => name === '[' || name === ']')) {
+        warnings.warn('Incoming/outgoing messages from outside the diagram were skipped', lineNumber);
+        continue;
+      }
+      const { operator, reversed } = convertSequenceArrow(arrow, warnings, lineNumber);
+      const from = participant(reversed ? rawTo : rawFrom);
+      const to = participant(reversed ? rawFrom : rawTo);
+
+      let activationMark = '';
+      if (activationSuffix === '++') activationMark = '+';
+      if (activationSuffix === '--') activationMark = '-';
+      if (activationSuffix === '**') output.push(`${indent}create participant ${to}`);
+      if (activationSuffix === '!!') output.push(`${indent}destroy ${to}`);
+
+      output.push(`${indent}${from}${operator}${activationMark}${to}: ${toMermaidText(label ?? '')}`.trimEnd());
+      lastMessage = { from, to };
+      continue;
+    }
+
+    if (/^return\b/i.test(text)) {
+      warnings.warn('"return" was not translated; add the reply message explicitly', lineNumber);
+      continue;
+    }
+
+    warnings.warn(`Unrecognized statement: ${text}`, lineNumber);
+  }
+
+  while (blockStack.length > 0) {
+    blockStack.pop();
+    output.push(`${'  '.repeat(blockStack.length + 1)}end`);
+  }
+
+  return withTitle(output, context.title);
+}
+
+// ============================================================================
+// 클래스 다이어그램
+// ============================================================================
+
+const CLASS_ANNOTATIONS: Record<string, string | null> = {
+  class: null,
+  interface: 'interface',
+  'abstract class': 'abstract',
+  abstract: 'abstract',
+  enum: 'enumeration',
+  annotation: 'annotation',
+  entity: 'entity',
+  struct: 'struct',
+  protocol: 'protocol',
+  exception: 'exception'
+};
+
+/**
+ * 멤버 한 줄 (static/abstract 표시, 제네릭, 메서드 반환 형식)
+ */
+function convertClassMember(member: string): string {
+  let text = member.trim();
+  let suffix = '';
+  if (/\{(?:static|classifier)\}/i.test(text)) suffix = '$';
+  if (/\{abstract\}/i.test(text)) suffix = '*';
+  text = text.replace(/\{(?:static|classifier|abstract|field|method)\}\s*/gi, '');
+  text = text.replace(/<([^<>]*)>/g, '~$1~');
+  // name(args) : Type → name(args) Type
+  text = text.replace(/\)\s*:\s*(.+)$/, ') $1');
+  return `${text}${suffix}`;
+}
+
+/**
+ * 관계 화살표 → Mermaid 관계 (지원하지 않는 머리는 제거)
+ */
+function convertClassArrow(arrow: string, warnings: WarningCollector, lineNumber: number): string | null {
+  if (/\[hidden\]/i.test(arrow)) return null;
+  if (/\[[^\]]*\]/.test(arrow) || /(?:left|right|up|down|le|ri|do|[lrud])(?=[-.])/i.test(arrow.replace(/^[<*o#x}+^|]*/, '').replace(/[-.]+[>*o#x{+^|]*$/, '') + '-')) {
+    warnings.warnOnce('arrow-hint', 'Arrow direction hints and styles were not translated');
+  }
+  const plain = arrow.replace(/\[[^\]]*\]/g, '').replace(/(left|right|up|down|le|ri|do)(?=[-.])|(?<=[-.])[lrud](?=[-.])/gi, '');
+  const match = /^(<\||\^|[<*o#x}+])?([-.]+)(\|>|\^|[>*o#x{+])?$/.exec(plain);
+  if (!match) {
+    warnings.warn(`Relation "${arrow}" was not recognized`, lineNumber);
+    return null;
+  }
+
+  const mapHead = (head: string | undefined, side: 'left' | 'right'): string => {
+    if (!head) return '';
+    if (head === '^') return side === 'left' ? '<|' : '|>';
+    if (['#', 'x', '}', '{', '+'].includes(head)) {
+      warnings.warnOnce(`head:${head}`, `Relation end "${head}" is not supported in Mermaid and was dropped`);
+      return '';
+    }
+    return head;
+  };
+
+  const line = match[2].includes('.') ? '..' : '--';
+  return `${mapHead(match[1], 'left')}${line}${mapHead(match[3], 'right')}`;
+}
+
+function convertClass(lines: SourceLine[], context: ConvertContext): string {
+  const { warnings } = context;
+  const toId = createIdAllocator('c');
+  const declared = new Set<string>();
+  const output: string[] = ['classDiagram'];
+  const relations: string[] = [];
+  const notes: string[] = [];
+  let namespaceDepth = 0;
+  let openNamespaces = 0;
+
+  const classId = (name: string): string => toId(unquote(name).replace(/<[^>]*>$/, ''));
+  const indent = (): string => '  '.repeat(openNamespaces + 1);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const { text, lineNumber } = line;
+    if (!text) continue;
+
+    const common = convertCommonStatement(line, context);
+    if (common !== undefined) {
+      if (common) output.push(`${indent()}${common}`);
+      index = skipBlock(lines, index) - 1;
+      continue;
+    }
+
+    const direction = DIRECTION.exec(text);
+    if (direction) {
+      output.push(`  direction ${direction[1].toLowerCase().startsWith('left') ? 'LR' : 'TB'}`);
+      continue;
+    }
+
+    const pkg = PACKAGE.exec(text);
+    if (pkg) {
+      namespaceDepth++;
+      // Mermaid namespace는 중첩할 수 없으므로 바깥 패키지만 사용
+      if (namespaceDepth === 1) {
+        output.push(`  namespace ${unquote(pkg[2]).replace(/[^\w.]/g, '_')} {`);
+        openNamespaces = 1;
+      } else {
+        warnings.warnOnce('nested-package', 'Nested packages were flattened into their outermost namespace');
+      }
+      continue;
+    }
+
+    const declaration = CLASS_DECLARATION.exec(text);
+    if (declaration) {
+      const [, type, rawName, generics, alias, stereotypes, color, extendsList, implementsList, openBrace, closeBrace] = declaration;
+      const displayName = unquote(rawName);
+      const id = alias ? toId(alias) : classId(rawName);
+      const genericSuffix = generics ? `~${generics.trim().slice(1, -1).replace(/\s+/g, '')}~` : '';
+      const label = id !== displayName && !alias ? `["${displayName}"]` : alias && rawName.startsWith('"') ? `["${displayName}"]` : '';
+      if (color) warnings.warnOnce('class-color', 'Class colors were not translated');
+
+      const members: string[] = [];
+      if (openBrace && !closeBrace) {
+        while (++index < lines.length && lines[index].text !== '}') {
+          const member = lines[index].text;
+          if (!member || MEMBER_SEPARATOR.test(member)) continue;
+          members.push(convertClassMember(member));
+        }
+      }
+
+      output.push(members.length > 0
+        ? `${indent()}class ${id}${genericSuffix}${label} {\n${members.map(member => `${indent()}  ${member}`).join('\n')}\n${indent()}}`
+        : `${indent()}class ${id}${genericSuffix}${label}`);
+      declared.add(id);
+
+      const annotation = CLASS_ANNOTATIONS[type.replace(/\s+/g, ' ')];
+      const extraStereotypes = [...(stereotypes ?? '').matchAll(/<<([^>]+)>>/g)].map(match => match[1].trim());
+      [annotation, ...extraStereotypes].filter(Boolean).forEach(stereotype => {
+        output.push(`${indent()}<<${stereotype}>> ${id}`);
+      });
+
+      extendsList?.split(',').map(name => name.trim()).filter(Boolean).forEach(parent => {
+        relations.push(`  ${classId(parent)} <|-- ${id}`);
+      });
+      implementsList?.split(',').map(name => name.trim()).filter(Boolean).forEach(parent => {
+        relations.push(`  ${classId(parent)} <|.. ${id}`);
+      });
+      continue;
+    }
+
+    if (text === '}') {
+      if (namespaceDepth > 0) {
+        namespaceDepth--;
+        if (namespaceDepth === 0) {
+          output.push('  }');
+          openNamespaces = 0;
+        }
+      }
+      continue;
+    }
+
+    const floatingNote = FLOATING_NOTE.exec(text);
+    if (floatingNote) {
+      notes.push(`  note "${toMermaidText(floatingNote[1])}"`);
+      warnings.warnOnce('note-link', 'Links between notes and classes were not translated');
+      continue;
+    }
+
+    const note = NOTE_CLASS.exec(text);
+    if (note && /^note\b/i.test(text)) {
+      let body = note[3];
+      if (body === undefined) {
+        const noteLines: string[] = [];
+        while (++index < lines.length && !END_NOTE.test(lines[index].text)) {
+          noteLines.push(lines[index].text);
+        }
+        body = noteLines.join('\\n');
+      }
+      const target = note[2] ? classId(note[2]) : null;
+      notes.push(target ? `  note for ${target} "${toMermaidText(body)}"` : `  note "${toMermaidText(body)}"`);
+      continue;
+    }
+
+    const relation = CLASS_RELATION.exec(text);
+    if (relation) {
+      const [, from, fromCardinality, arrow, toCardinality, to, label] = relation;
+      const operator = convertClassArrow(arrow, warnings, lineNumber);
+      if (!operator) continue;
+      const fromLabel = fromCardinality !== undefined ? ` "${fromCardinality}"` : '';
+      const toLabel = toCardinality !== undefined ? `"${toCardinality}" ` : '';
+      const relationLabel = label ? ` : ${label.replace(/\s*[<>]\s*$|^\s*[<>]\s*/g, '').trim()}` : '';
+      relations.push(`  ${classId(from)}${fromLabel} ${operator} ${toLabel}${classId(to)}${relationLabel}`);
+      continue;
+    }
+
+    const member = CLASS_MEMBER_LINE.exec(text);
+    if (member) {
+      relations.push(`  ${classId(member[1])} : ${convertClassMember(member[2])}`);
+      continue;
+    }
+
+    warnings.warn(`Unrecognized statement: ${text}`, lineNumber);
+  }
+
+  if (openNamespaces > 0) output.push('  }');
+
+  // 관계/노트는 namespace 블록 안에 둘 수 없으므로 마지막에 배치
+  return withTitle([...output, ...relations, ...notes], context.title);
+}
+
+// ============================================================================
+// 액티비티 다이어그램 → flowchart
+// ============================================================================
+
+// 다음 노드와 연결될 끝점 (분기 레이블 포함)
+interface Tail {
+  id: string;
+  label?: string;
+}
+
+type ActivityFrame =
+  | { type: 'if'; decision: string; ends: Tail[]; hasElse: boolean }
+  | { type: 'switch'; decision: string; ends: Tail[]; hasCase: boolean }
+  | { type: 'while'; decision: string }
+  | { type: 'repeat'; start: string | null }
+  | { type: 'fork'; origin: Tail[]; ends: Tail[] }
+  | { type: 'group' };
+
+function convertActivity(lines: SourceLine[], context: ConvertContext): string {
+  const { warnings } = context;
+  const nodes: string[] = [];
+  const edges: string[] = [];
+  const frames: ActivityFrame[] = [];
+  let tails: Tail[] = [];
+  let pendingLabel: string | undefined;
+  let count = 0;
+  let groupDepth = 0;
+
+  const addNode = (label: string, shape: FlowchartShape, connect = true): string => {
+    const id = `A${++count}`;
+    nodes.push(`${'  '.repeat(groupDepth + 1)}${formatFlowchartNode(id, label, shape)}`);
+    if (connect) {
+      tails.forEach(tail => {
+        edges.push(`  ${formatFlowchartEdge(tail.id, id, { line: 'solid', arrow: 'end', label: tail.label ?? pendingLabel })}`);
+      });
+    }
+    pendingLabel = undefined;
+    tails = [{ id }];
+
+    // repeat 루프는 다음 노드에서 시작
+    const repeatFrame = [...frames].reverse().find(frame => frame.type === 'repeat' && frame.start === null);
+    if (repeatFrame?.type === 'repeat') repeatFrame.start = id;
+    return id;
+  };
+
+  const connect = (from: Tail[], to: string): void => {
+    from.forEach(tail => {
+      edges.push(`  ${formatFlowchartEdge(tail.id, to, { line: 'solid', arrow: 'end', label: tail.label })}`);
+    });
+  };
+
+  const findFrame = <T extends ActivityFrame['type']>(type: T): Extract<ActivityFrame, { type: T }> | undefined => {
+    const frame = frames[frames.length - 1];
+    return frame?.type === type ? frame as Extract<ActivityFrame, { type: T }> : undefined;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const { text, lineNumber } = line;
+    if (!text) continue;
+
+    const common = convertCommonStatement(line, context);
+    if (common !== undefined) {
+      if (common) nodes.push(`${'  '.repeat(groupDepth + 1)}${common}`);
+      index = skipBlock(lines, index) - 1;
+      continue;
+    }
+
+    if (/^start$/i.test(text)) {
+      addNode('Start', 'circle');
+      continue;
+    }
+
+    const terminal = TERMINAL.exec(text);
+    if (terminal) {
+      const kind = terminal[1].toLowerCase();
+      if (kind === 'stop' || kind === 'end') {
+        addNode(kind === 'stop' ? 'Stop' : 'End', 'double-circle');
+      }
+      tails = [];
+      continue;
+    }
+
+    const action = ACTION_START.exec(text);
+    if (action) {
+      let body = action[1];
+      while (!ACTION_END.test(body) && index + 1 < lines.length) {
+        body += `\n${lines[++index].text}`;
+      }
+      const terminator = body.slice(-1);
+      if (terminator !== ';') {
+        warnings.warnOnce('sdl', 'SDL action shapes (|, <, >, /, ], }) were drawn as plain actions');
+      }
+      addNode(body.slice(0, -1).replace(/\\n/g, '\n').replace(/\*\*|__|\/\/|""/g, ''), 'round');
+      continue;
+    }
+
+    const arrowLabel = ARROW_LABEL.exec(text);
+    if (arrowLabel) {
+      pendingLabel = arrowLabel[1] || undefined;
+      tails = tails.map(tail => ({ ...tail, label: tail.label ?? pendingLabel }));
+      continue;
+    }
+
+    const ifMatch = IF.exec(text);
+    if (ifMatch) {
+      const decision = addNode(ifMatch[1], 'diamond');
+      frames.push({ type: 'if', decision, ends: [], hasElse: false });
+      tails = [{ id: decision, label: ifMatch[3] ?? ifMatch[2] }];
+      continue;
+    }
+
+    const elseIf = ELSE_IF.exec(text);
+    if (elseIf) {
+      const frame = findFrame('if');
+      if (!frame) {
+        warnings.warn('"elseif" outside of "if" was skipped', lineNumber);
+        continue;
+      }
+      frame.ends.push(...tails);
+      tails = [{ id: frame.decision }];
+      frame.decision = addNode(elseIf[1], 'diamond');
+      tails = [{ id: frame.decision, label: elseIf[2] }];
+      continue;
+    }
+
+    const elseMatch = ELSE.exec(text);
+    if (elseMatch) {
+      const frame = findFrame('if');
+      if (!frame) {
+        warnings.warn('"else" outside of "if" was skipped', lineNumber);
+        continue;
+      }
+      frame.ends.push(...tails);
+      frame.hasElse = true;
+      tails = [{ id: frame.decision, label: elseMatch[1] }];
+      continue;
+    }
+
+    if (END_IF.test(text)) {
+      const frame = findFrame('if');
+      if (!frame) continue;
+      frames.pop();
+      tails = [...frame.ends, ...tails, ...(frame.hasElse ? [] : [{ id: frame.decision }])];
+      continue;
+    }
+
+    const switchMatch = SWITCH.exec(text);
+    if (switchMatch) {
+      const decision = addNode(switchMatch[1], 'diamond');
+      frames.push({ type: 'switch', decision, ends: [], hasCase: false });
+      continue;
+    }
+
+    const caseMatch = CASE.exec(text);
+    if (caseMatch) {
+      const frame = findFrame('switch');
+      if (!frame) continue;
+      if (frame.hasCase) frame.ends.push(...tails);
+      frame.hasCase = true;
+      tails = [{ id: frame.decision, label: caseMatch[1] }];
+      continue;
+    }
+
+    if (END_SWITCH.test(text)) {
+      const frame = findFrame('switch');
+      if (!frame) continue;
+      frames.pop();
+      tails = [...frame.ends, ...tails];
+      continue;
+    }
+
+    const whileMatch = WHILE.exec(text);
+    if (whileMatch) {
+      const decision = addNode(whileMatch[1], 'diamond');
+      frames.push({ type: 'while', decision });
+      tails = [{ id: decision, label: whileMatch[2] }];
+      continue;
+    }
+
+    const endWhile = END_WHILE.exec(text);
+    if (endWhile) {
+      const frame = findFrame('while');
+      if (!frame) continue;
+      frames.pop();
+      connect(tails, frame.decision);
+      tails = [{ id: frame.decision, label: endWhile[1] }];
+      continue;
+    }
+
+    if (REPEAT.test(text)) {
+      frames.push({ type: 'repeat', start: null });
+      continue;
+    }
+
+    const repeatWhile = REPEAT_WHILE.exec(text);
+    if (repeatWhile) {
+      const frame = findFrame('repeat');
+      if (!frame) continue;
+      frames.pop();
+      const decision = addNode(repeatWhile[1], 'diamond');
+      if (frame.start) {
+        edges.push(`  ${formatFlowchartEdge(decision, frame.start, { line: 'solid', arrow: 'end', label: repeatWhile[2] })}`);
+      }
+      tails = [{ id: decision, label: repeatWhile[3] }];
+      continue;
+    }
+
+    if (FORK.test(text)) {
+      frames.push({ type: 'fork', origin: tails, ends: [] });
+      continue;
+    }
+
+    if (FORK_AGAIN.test(text)) {
+      const frame = findFrame('fork');
+      if (!frame) continue;
+      frame.ends.push(...tails);
+      tails = frame.origin;
+      continue;
+    }
+
+    if (END_FORK.test(text)) {
+      const frame = findFrame('fork');
+      if (!frame) continue;
+      frames.pop();
+      tails = [...frame.ends, ...tails];
+      continue;
+    }
+
+    const group = GROUP_START.exec(text);
+    if (group) {
+      nodes.push(`${'  '.repeat(groupDepth + 1)}subgraph G${++count} [${quoteLabel(unquote(group[2].trim()))}]`);
+      groupDepth++;
+      frames.push({ type: 'group' });
+      continue;
+    }
+
+    if (text === '}' && findFrame('group')) {
+      frames.pop();
+      groupDepth--;
+      nodes.push(`${'  '.repeat(groupDepth + 1)}end`);
+      continue;
+    }
+
+    if (SWIMLANE.test(text)) {
+      warnings.warnOnce('swimlane', 'Swimlanes were not translated');
+      continue;
+    }
+
+    if (/^[hr]?note\b/i.test(text) || /^floating\s+note\b/i.test(text)) {
+      warnings.warn('Notes were not translated', lineNumber);
+      if (!/:/.test(text)) {
+        while (++index < lines.length && !END_NOTE.test(lines[index].text)) { /* 노트 본문 건너뜀 */ }
+      }
+      continue;
+    }
+
+    warnings.warn(`Unrecognized statement: ${text}`, lineNumber);
+  }
+
+  while (groupDepth-- > 0) nodes.push('  end');
+
+  return withTitle(['flowchart TD', ...nodes, ...edges], context.title);
+}
+
+// ============================================================================
+// 진입점
+// ============================================================================
+
+/**
+ * PlantUML 소스를 Mermaid로 변환 (다이어그램 종류 자동 판별)
+ */
+export function convertPlantUmlToMermaid(source: string): DiagramImportResult {
+  const warnings = createWarningCollector();
+  const lines = extractBody(source, warnings);
+  const context: ConvertContext = { warnings, title: null };
+
+  const kind = detectKind(lines);
+  const code = kind === 'sequence'
+    ? convertSequence(lines, context)
+    : kind === 'class' ? convertClass(lines, context) : convertActivity(lines, context);
+
+  return { code, warnings: warnings.list() };
+}
@@ -0,0 +1,162 @@
+/**
+ * 빠른 파일 열기 매칭 유틸리티
+ * 입력한 글자가 순서대로 포함된 경로를 찾아 점수순으로 정렬 (퍼지 매칭)
+ * 파일 이름 안의 일치, 연속된 글자, 단어 시작(/, -, _, ., 대문자) 일치와 최근 파일에 가산점
+ */
+
+import type { QuickOpenFile } from '../../types';
+
+const SCORE_MATCH = 1;
+const SCORE_CONSECUTIVE = 5;
+const SCORE_WORD_START = 8;
+const SCORE_SEGMENT_START = 10;
+const SCORE_FILE_NAME = 25;
+// 일치 글자 사이 간격 감점 상한
+const MAX_GAP_PENALTY = 3;
+// 가장 최근 파일 가산점 (순위가 내려갈수록 감소)
+const RECENT_BONUS = 40;
+const RECENT_BONUS_STEP = 3;
+
+/**
+ * 퍼지 매칭 결과 (positions: 일치한 글자의 경로 내 위치)
+ */
+export interface FuzzyMatch {
+  score: number;
+  positions: number[];
+}
+
+/**
+ * 빠른 파일 열기 결과 항목
+ */
+export interface QuickOpenItem {
+  file: QuickOpenFile;
+  positions: number[];
+  isRecent: boolean;
+}
+
+function isWordSeparator(char: string): boolean {
+  return char === '-' || char === '_' || char === '.' || char === ' ';
+}
+
+function isUpperCase(char: string): boolean {
+  return char !== char.toLowerCase();
+}
+
+/**
+ * from 이후에서 query 글자를 순서대로 찾기
+ * 가장 앞의 일치로 끝 위치를 정한 뒤 거꾸로 찾아 가장 짧은 구간으로 좁힘
+ */
+function findPositions(query: string, target: string, from: number): number[] | null {
+  let queryIndex = 0;
+  let end = -1;
+  for (let i = from; i < target.length && queryIndex < query.length; i++) {
+    if (target[i] === query[queryIndex]) {
+      queryIndex++;
+      end = i;
+    }
+  }
+  if (queryIndex < query.length) return null;
+
+  queryIndex = query.length - 1;
+  let start = end;
+  for (let i = end; i >= from && queryIndex >= 0; i--) {
+    if (target[i] === query[queryIndex]) {
+      queryIndex--;
+      start = i;
+    }
+  }
+
+  const positions: number[] = [];
+  queryIndex = 0;
+  for (let i = start; i <= end && queryIndex < query.length; i++) {
+    if (target[i] === query[queryIndex]) {
+      positions.push(i);
+      queryIndex++;
+    }
+  }
+  return positions;
+}
+
+/**
+ * 경로 퍼지 매칭 (대소문자 무시, 공백 무시)
+ * 파일 이름 안에서 모두 일치하면 우선, 아니면 경로 전체에서 찾음
+ * @returns 일치하지 않으면 null
+ */
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+  const normalizedQuery = query.replace(/\s+/g, '').toLowerCase();
+  if (!normalizedQuery) return { score: 0, positions: [] };
+
+  const lowerTarget = target.toLowerCase();
+  const fileNameStart = target.lastIndexOf('/') + 1;
+  const positions = findPositions(normalizedQuery, lowerTarget, fileNameStart)
+    ?? findPositions(normalizedQuery, lowerTarget, 0);
+  if (!positions) return null;
+
+  let score = positions[0] >= fileNameStart ? SCORE_FILE_NAME : 0;
+  positions.forEach((position, index) => {
+    score += SCORE_MATCH;
+
+    const previousChar = target[position - 1];
+    if (position === 0 || previousChar === '/') {
+      score += SCORE_SEGMENT_START;
+    } else if (isWordSeparator(previousChar) || (isUpperCase(target[position]) && !isUpperCase(previousChar))) {
+      score += SCORE_WORD_START;
+    }
+
+    if (index > 0) {
+      const gap = position - positions[index - 1] - 1;
+      score += gap === 0 ? SCORE_CONSECUTIVE : -Math.min(gap, MAX_GAP_PENALTY);
+    }
+  });
+
+  // 점수가 같으면 짧은 경로 우선
+  return { score: score - target.length / 100, positions };
+}
+
+/**
+ * 빠른 파일 열기 후보 정렬
+ * 검색어가 없으면 최근 파일(최근 순) 다음에 나머지 파일(경로 순)
+ * @param files - 워크스페이스 파일 목록 (경로 순 정렬)
+ * @param query - 입력한 검색어
+ * @param recentFiles - 최근 파일 경로 (최근 순)
+ * @param limit - 최대 결과 수
+ */
+export function rankQuickOpenFiles(
+  files: QuickOpenFile[],
+  query: string,
+  recentFiles: string[],
+  limit: number
+): QuickOpenItem[] {
+  const recentRanks = new Map(recentFiles.map((filePath, index) => [filePath, index]));
+  const getRecentBonus = (filePath: string): number => {
+    const rank = recentRanks.get(filePath);
+    return rank === undefined ? 0 : Math.max(RECENT_BONUS - rank * RECENT_BONUS_STEP, 1);
+  };
+
+  if (!query.trim()) {
+    const recent = files
+      .filter(file => recentRanks.has(file.filePath))
+      .sort((a, b) => (recentRanks.get(a.filePath) ?? 0) - (recentRanks.get(b.filePath) ?? 0));
+    const others = files.filter(file => !recentRanks.has(file.filePath));
+    return [...recent, ...others].slice(0, limit).map(file => ({
+      file,
+      positions: [],
+      isRecent: recentRanks.has(file.filePath)
+    }));
+  }
+
+  const matches: Array<QuickOpenItem & { score: number }> = [];
+  for (const file of files) {
+    const match = fuzzyMatch(query, file.relativePath);
+    if (!match) continue;
+    matches.push({
+      file,
+      positions: match.positions,
+      isRecent: recentRanks.has(file.filePath),
+      score: match.score + getRecentBonus(file.filePath)
+    });
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+  return matches.slice(0, limit).map(({ file, positions, isRecent }) => ({ file, positions, isRecent }));
+}
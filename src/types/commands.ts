@@ -0,0 +1,124 @@
+/**
+ * 명령 타입
+ * 메뉴, 키보드 단축키, 명령 팔레트, 미리보기 버튼이 공유하는 명령 목록
+ * (메인 프로세스 메뉴와 렌더러가 같은 이름과 단축키를 쓰도록 한 곳에서 정의)
+ */
+
+/**
+ * 명령 분류 (명령 팔레트에 "분류: 이름"으로 표시)
+ */
+export type CommandCategory = 'File' | 'Export' | 'View' | 'Preview' | 'Tabs' | 'Terminal' | 'Theme' | 'Preferences';
+
+/**
+ * 단축키 적용 조건 (포커스가 있는 영역)
+ */
+export type KeybindingContext = 'editorFocus' | 'terminalFocus' | 'explorerFocus';
+
+/**
+ * 단축키 적용 조건 ("!"는 해당 영역에 포커스가 없을 때)
+ */
+export type KeybindingCondition = KeybindingContext | `!${KeybindingContext}`;
+
+/**
+ * 명령 정의
+ * keybindings: 기본 단축키, Electron accelerator 형식 (예: "CmdOrCtrl+Shift+P"), 첫 번째가 메뉴와 팔레트에 표시됨
+ * when: 기본 단축키의 적용 조건 (없으면 항상)
+ */
+export interface CommandDefinition {
+  id: string;
+  title: string;
+  category: CommandCategory;
+  keybindings?: readonly string[];
+  when?: KeybindingCondition;
+}
+
+/**
+ * 전체 명령 목록
+ * 실행 함수는 렌더러에서 기능을 가진 컴포넌트/Hook이 등록 (등록된 명령만 실행 가능)
+ */
+export const COMMAND_DEFINITIONS = [
+  // 파일
+  { id: 'file.newTab', title: 'New Tab', category: 'File', keybindings: ['CmdOrCtrl+N', 'CmdOrCtrl+T'], when: '!terminalFocus' },
+  { id: 'file.open', title: 'Open File…', category: 'File', keybindings: ['CmdOrCtrl+O'] },
+  { id: 'file.openFolder', title: 'Open Folder…', category: 'File', keybindings: ['CmdOrCtrl+Shift+O'] },
+  { id: 'file.import', title: 'Import…', category: 'File' },
+  { id: 'file.quickOpen', title: 'Go to File…', category: 'File', keybindings: ['CmdOrCtrl+P'], when: '!terminalFocus' },
+  { id: 'file.save', title: 'Save', category: 'File', keybindings: ['CmdOrCtrl+S'] },
+  { id: 'file.saveAs', title: 'Save As…', category: 'File', keybindings: ['CmdOrCtrl+Shift+S'] },
+
+  // 내보내기
+  { id: 'export.png', title: 'Export as PNG', category: 'Export', keybindings: ['CmdOrCtrl+Shift+E'] },
+  { id: 'export.pdf', title: 'Export as PDF', category: 'Export', keybindings: ['CmdOrCtrl+Shift+D'] },
+  { id: 'export.svg', title: 'Export as SVG', category: 'Export' },
+  { id: 'export.jpeg', title: 'Export as JPEG', category: 'Export' },
+  { id: 'export.webp', title: 'Export as WebP', category: 'Export' },
+  { id: 'export.html', title: 'Export as HTML', category: 'Export' },
+  { id: 'export.docx', title: 'Export as Word document', category: 'Export' },
+  { id: 'export.markdownSnippet', title: 'Export as Markdown Snippet', category: 'Export' },
+  { id: 'export.copyImage', title: 'Copy Image to Clipboard', category: 'Export' },
+  { id: 'export.print', title: 'Print', category: 'Export' },
+
+  // 보기
+  { id: 'view.commandPalette', title: 'Show All Commands', category: 'View', keybindings: ['CmdOrCtrl+Shift+P'] },
+  { id: 'view.searchInFiles', title: 'Search in Files', category: 'View', keybindings: ['CmdOrCtrl+Shift+F'] },
+  { id: 'view.toggleExplorer', title: 'Toggle Explorer', category: 'View' },
+  { id: 'view.toggleOutline', title: 'Toggle Outline', category: 'View' },
+  { id: 'view.codeOnly', title: 'Show Code Only', category: 'View' },
+  { id: 'view.split', title: 'Show Code and Preview', category: 'View' },
+  { id: 'view.previewOnly', title: 'Show Preview Only', category: 'View' },
+
+  // 미리보기 (Mermaid 확대/맞춤)
+  { id: 'preview.zoomIn', title: 'Zoom In', category: 'Preview' },
+  { id: 'preview.zoomOut', title: 'Zoom Out', category: 'Preview' },
+  { id: 'preview.fitToWidth', title: 'Fit to Width', category: 'Preview' },
+  { id: 'preview.fitToPage', title: 'Fit to Page', category: 'Preview' },
+  { id: 'preview.actualSize', title: 'Actual Size (1:1)', category: 'Preview' },
+
+  // 탭
+  { id: 'tabs.close', title: 'Close Tab', category: 'Tabs', keybindings: ['CmdOrCtrl+W'], when: '!terminalFocus' },
+  { id: 'tabs.closeOthers', title: 'Close Other Tabs', category: 'Tabs' },
+  { id: 'tabs.closeAll', title: 'Close All Tabs', category: 'Tabs' },
+  { id: 'tabs.next', title: 'Next Tab', category: 'Tabs', keybindings: ['Ctrl+Tab', 'Cmd+Alt+Right'] },
+  { id: 'tabs.previous', title: 'Previous Tab', category: 'Tabs', keybindings: ['Ctrl+Shift+Tab', 'Cmd+Alt+Left'] },
+  { id: 'tabs.goTo1', title: 'Go to Tab 1', category: 'Tabs', keybindings: ['CmdOrCtrl+1'] },
+  { id: 'tabs.goTo2', title: 'Go to Tab 2', category: 'Tabs', keybindings: ['CmdOrCtrl+2'] },
+  { id: 'tabs.goTo3', title: 'Go to Tab 3', category: 'Tabs', keybindings: ['CmdOrCtrl+3'] },
+  { id: 'tabs.goTo4', title: 'Go to Tab 4', category: 'Tabs', keybindings: ['CmdOrCtrl+4'] },
+  { id: 'tabs.goTo5', title: 'Go to Tab 5', category: 'Tabs', keybindings: ['CmdOrCtrl+5'] },
+  { id: 'tabs.goTo6', title: 'Go to Tab 6', category: 'Tabs', keybindings: ['CmdOrCtrl+6'] },
+  { id: 'tabs.goTo7', title: 'Go to Tab 7', category: 'Tabs', keybindings: ['CmdOrCtrl+7'] },
+  { id: 'tabs.goTo8', title: 'Go to Tab 8', category: 'Tabs', keybindings: ['CmdOrCtrl+8'] },
+  { id: 'tabs.goTo9', title: 'Go to Tab 9', category: 'Tabs', keybindings: ['CmdOrCtrl+9'] },
+
+  // 터미널/테마
+  { id: 'terminal.toggle', title: 'Toggle Terminal', category: 'Terminal', keybindings: ['Ctrl+`', 'Cmd+J'] },
+  { id: 'theme.toggle', title: 'Toggle Light/Dark Theme', category: 'Theme' },
+
+  // 설정
+  { id: 'preferences.keybindings', title: 'Keyboard Shortcuts', category: 'Preferences' }
+] as const satisfies readonly CommandDefinition[];
+
+/**
+ * 명령 ID
+ */
+export type CommandId = typeof COMMAND_DEFINITIONS[number]['id'];
+
+/**
+ * 목록에 있는 명령 정의 (id가 CommandId)
+ */
+export type Command = CommandDefinition & { id: CommandId };
+
+/**
+ * 단축키 (사용자 설정)
+ * key: Electron accelerator 형식, when: 적용 조건 (없으면 항상)
+ */
+export interface Keybinding {
+  key: string;
+  when?: KeybindingCondition;
+}
+
+/**
+ * 명령별 사용자 단축키
+ * 명령이 있으면 기본 단축키를 대신함 (빈 배열이면 단축키 없음), 없으면 기본 단축키 사용
+ */
+export type KeybindingOverrides = Partial<Record<CommandId, Keybinding[]>>;
@@ -5,11 +5,16 @@
 import type { FilePath, FolderPath } from '../common';
 import type { FileTreeNode } from '../file-system';
 import type { RecentFile, RecentFolder, Bookmark } from '../workspace';
+import type { GitChangeType, GitStatusResult } from '../git';
 
 export interface FileExplorerProps {
   onFileSelect: (content: string, filePath: FilePath) => void;
   onToggleExplorer: () => void;
   onWorkspaceChange?: (folderPath: FolderPath) => void;
+  onCompareFiles?: (beforePath: FilePath, afterPath: FilePath) => void;
+  onCompareWithHead?: (filePath: FilePath) => void;
+  gitStatus?: GitStatusResult | null;
+  onShowFileHistory?: (filePath: FilePath) => void;
 }
 
 export interface FileTreeProps {
@@ -28,6 +33,7 @@ export interface FileTreeProps {
   onDragStart: (e: React.DragEvent, node: FileTreeNode) => void;
   onDragOver: (e: React.DragEvent, node: FileTreeNode) => void;
   onDrop: (e: React.DragEvent, targetNode: FileTreeNode) => void;
+  gitDecorations?: Map<string, GitChangeType>;
 }
 
 export interface ContextMenuState {
@@ -2,7 +2,7 @@
  * TabView 컴포넌트 Props 타입
  */
 
-import type { Tab } from '../editor';
+import type { Tab, DiagramDiffBase } from '../editor';
 
 export interface TabViewProps {
   tabs: Tab[];
@@ -14,4 +14,5 @@ export interface TabViewProps {
   onCloseAllTabs: () => void;
   onCloseOtherTabs: (keepTabId: number) => void;
   onCloseTabsToRight: (fromTabId: number) => void;
+  onCompareTab?: (tabId: number, base: DiagramDiffBase) => void;
 }
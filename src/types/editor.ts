@@ -3,6 +3,7 @@
  */
 
 import type { FilePath, Nullable } from './common';
+import type { MermaidUserConfig } from './theme';
 
 /**
  * 파일 타입
@@ -12,7 +13,16 @@ export type FileType = 'mermaid' | 'markdown' | 'text';
 /**
  * 에디터 언어
  */
-export type EditorLanguage = 'markdown' | 'text' | 'plaintext';
+export type EditorLanguage = 'markdown' | 'mermaid' | 'text' | 'plaintext';
+
+/**
+ * 미리보기 확대/이동 상태 (translate 후 scale 적용)
+ */
+export interface DiagramViewport {
+  scale: number;
+  x: number;
+  y: number;
+}
 
 /**
  * 탭
@@ -23,6 +33,10 @@ export interface Tab {
   filePath: Nullable<FilePath>;
   fileType: FileType;
   isModified: boolean;
+  previewViewport?: DiagramViewport;
+  // 읽기 전용 탭 (git 히스토리의 이전 리비전 등) - 탭 제목을 따로 지정
+  readOnly?: boolean;
+  title?: string;
 }
 
 /**
@@ -38,10 +52,159 @@ export interface TabState {
  */
 export type TabUpdate = Partial<Omit<Tab, 'id'>>;
 
+/**
+ * 진단(Problems) 심각도
+ */
+export type DiagramProblemSeverity = 'error' | 'warning';
+
+/**
+ * 소스 위치가 매핑된 진단 항목 (Monaco 마커와 동일한 1-based 좌표)
+ */
+export interface DiagramProblem {
+  message: string;
+  severity: DiagramProblemSeverity;
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+/**
+ * 미리보기 요소 클릭 시 에디터에서 표시할 줄 요청
+ * 같은 줄을 다시 클릭해도 이동하도록 requestId로 구분
+ * column/length 지정 시 해당 범위 선택 (워크스페이스 검색 결과)
+ */
+export interface SourceRevealRequest {
+  lineNumber: number;
+  column?: number;
+  length?: number;
+  requestId: number;
+}
+
+/**
+ * 에디터 ↔ Markdown 미리보기 스크롤 동기화 요청
+ * line은 화면 맨 위에 보이는 소스 줄 (1부터 시작, 블록 사이 위치는 소수점)
+ */
+export interface ScrollSyncRequest {
+  line: number;
+  requestId: number;
+}
+
+/**
+ * 아웃라인 항목 종류
+ * Markdown은 제목, Mermaid는 다이어그램 종류에 따라 서브그래프/참여자/클래스/상태/엔티티
+ */
+export type OutlineItemKind = 'heading' | 'subgraph' | 'participant' | 'class' | 'state' | 'entity';
+
+/**
+ * 아웃라인 항목
+ */
+export interface OutlineItem {
+  kind: OutlineItemKind;
+  label: string;
+  lineNumber: number;  // 정의 줄 (1-based)
+  level: number;       // 들여쓰기 깊이 (1부터 시작, 제목 수준 또는 중첩 깊이)
+}
+
+/**
+ * Front-matter 필드 값 형식
+ * string-list: 문자열 하나 또는 문자열 목록
+ */
+export type FrontMatterFieldType = 'string' | 'string-list' | 'date' | 'object';
+
+/**
+ * Front-matter 스키마 필드 정의
+ */
+export interface FrontMatterFieldSchema {
+  key: string;
+  type: FrontMatterFieldType;
+  required?: boolean;
+  aliases?: string[];   // 같은 의미의 다른 키 (예: authors ← author)
+  values?: string[];    // 허용 값 (지정 시 그 외 값은 경고)
+}
+
+/**
+ * Markdown 문서 front-matter (--- YAML ---)
+ */
+export interface MarkdownFrontMatter {
+  data: Record<string, unknown>;
+  title: string | null;
+  authors: string[];
+  date: string | null;
+  tags: string[];
+  status: string | null;
+  mermaid: MermaidUserConfig | null;   // 문서 안의 모든 mermaid 펜스에 적용할 설정
+  startLine: number;                   // 여는 --- 줄 (1-based)
+  endLine: number;                     // 닫는 --- 줄 (1-based)
+}
+
+/**
+ * Front-matter 파싱 결과 (YAML 오류와 스키마 경고 포함)
+ */
+export interface FrontMatterResult {
+  frontMatter: MarkdownFrontMatter | null;
+  problems: DiagramProblem[];
+}
+
 /**
  * 내보내기 타입
+ * html: SVG를 포함하고 확대/이동을 지원하는 단일 HTML 파일
+ */
+export type ExportType = 'png' | 'pdf' | 'svg' | 'jpeg' | 'webp' | 'html';
+
+/**
+ * 내보내기 다이얼로그 형식 (markdown: 소스 옆에 이미지를 저장하고 ![alt](path) 참조 복사)
+ */
+export type ExportDialogFormat = ExportType | 'markdown';
+
+/**
+ * Markdown 스니펫에 사용할 이미지 형식
+ */
+export type SnippetImageFormat = 'svg' | 'png' | 'jpeg' | 'webp';
+
+/**
+ * SVG 내보내기 방식
+ * raw: Mermaid 출력 그대로, compat: 스타일 인라인, clean: 단순화된 스타일
+ */
+export type SVGExportStyle = 'raw' | 'compat' | 'clean';
+
+/**
+ * 내보내기 배경
+ * transparent: 투명, solid: 지정한 색, theme: 내보내기 테마의 배경색
+ */
+export type ExportBackground = 'transparent' | 'solid' | 'theme';
+
+/**
+ * PDF 용지 크기 (fit: 다이어그램 크기에 맞춤)
+ */
+export type PdfPageSize = 'fit' | 'a4' | 'letter';
+
+/**
+ * PDF 용지 방향 (auto: 다이어그램 비율에 맞춤)
  */
-export type ExportType = 'png' | 'pdf' | 'svg';
+export type PdfOrientation = 'auto' | 'portrait' | 'landscape';
+
+/**
+ * 내보내기 테마 (current: 현재 앱 테마)
+ */
+export type ExportTheme = 'current' | 'light' | 'dark';
+
+/**
+ * 내보내기 렌더링 옵션 (지정하지 않은 항목은 기본값 사용)
+ */
+export interface ExportRenderOptions {
+  scale?: number;                   // 래스터(PNG/JPEG/WebP/PDF) 배율 (기본값: 2 또는 devicePixelRatio)
+  width?: number;                   // 래스터 이미지 가로 픽셀 (지정 시 scale 대신 사용)
+  quality?: number;                 // JPEG/WebP 품질 0~1 (기본값: 0.92)
+  background?: ExportBackground;    // 기본값: solid
+  backgroundColor?: string;         // solid 배경색 (기본값: #ffffff)
+  padding?: number;                 // 다이어그램 주변 여백 px (기본값: 0)
+  pdfPageSize?: PdfPageSize;        // 기본값: fit
+  pdfOrientation?: PdfOrientation;  // 기본값: auto
+  theme?: ExportTheme;              // 기본값: current
+  svgStyle?: SVGExportStyle;        // SVG 방식 (기본값: raw)
+  snippetFormat?: SnippetImageFormat; // Markdown 스니펫 이미지 형식 (기본값: png)
+}
 
 /**
  * 내보내기 결과
@@ -53,3 +216,211 @@ export interface ExportResult {
   canceled?: boolean;
   error?: string;
 }
+
+// ============================================================================
+// Markdown 내보내기 (PDF/HTML)
+// ============================================================================
+
+/**
+ * Markdown PDF 용지 크기
+ */
+export type MarkdownPdfPageSize = 'A4' | 'A3' | 'Letter' | 'Legal';
+
+/**
+ * Markdown PDF 여백 (mm)
+ */
+export interface MarkdownPdfMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Markdown PDF 내보내기 옵션
+ * 머리글/바닥글 템플릿 토큰: {title} 문서 제목, {date} 내보낸 날짜, {page} 현재 쪽, {pages} 전체 쪽 수
+ * '|'로 나누면 왼쪽|가운데|오른쪽 (두 부분이면 왼쪽|오른쪽) 정렬
+ */
+export interface MarkdownPdfOptions {
+  pageSize: MarkdownPdfPageSize;
+  landscape: boolean;
+  margins: MarkdownPdfMargins;
+  headerTemplate: string;     // 빈 문자열이면 머리글 없음
+  footerTemplate: string;     // 빈 문자열이면 바닥글 없음
+  coverPage: boolean;         // front-matter로 표지 생성
+  tableOfContents: boolean;   // 쪽 번호가 있는 목차 생성
+  tocDepth: number;           // 목차에 포함할 제목 수준 (1~6)
+}
+
+/**
+ * 이름이 있는 Markdown PDF 옵션 프리셋
+ */
+export interface MarkdownPdfPreset {
+  name: string;
+  options: MarkdownPdfOptions;
+}
+
+/**
+ * 워크스페이스별 Markdown PDF 설정 (마지막 사용 옵션 + 프리셋)
+ */
+export interface MarkdownPdfSettings {
+  options: MarkdownPdfOptions;
+  presets: MarkdownPdfPreset[];
+}
+
+/**
+ * Markdown HTML 내보내기 옵션
+ */
+export interface MarkdownHtmlOptions {
+  tableOfContents: boolean;   // 화면 옆에 고정된 목차 포함
+  tocDepth: number;           // 목차에 포함할 제목 수준 (1~6)
+}
+
+/**
+ * 일괄 내보내기 옵션
+ * namingPattern 토큰: {path} 상대 경로(확장자 제외), {name} 파일 이름, {index} Markdown 내 다이어그램 순번
+ */
+export interface BatchExportOptions {
+  sourceFolder: FilePath;
+  outputDirectory: FilePath;
+  formats: ExportType[];
+  namingPattern: string;
+}
+
+/**
+ * 일괄 내보내기 진행 상태
+ */
+export interface BatchExportProgress {
+  completed: number;
+  total: number;
+  current: string;
+}
+
+/**
+ * 일괄 내보내기 실패 항목
+ */
+export interface BatchExportFailure {
+  source: string;
+  format?: ExportType;
+  error: string;
+}
+
+/**
+ * 일괄 내보내기 결과 요약
+ */
+export interface BatchExportSummary {
+  total: number;
+  exported: number;
+  canceled: boolean;
+  failures: BatchExportFailure[];
+}
+
+// ============================================================================
+// 다이어그램 가져오기 (draw.io / PlantUML / Graphviz DOT)
+// ============================================================================
+
+/**
+ * 가져올 수 있는 다이어그램 형식
+ */
+export type DiagramImportFormat = 'drawio' | 'plantuml' | 'dot';
+
+/**
+ * 가져오기 다이얼로그에서 선택한 파일 (메인 프로세스가 읽은 원본)
+ */
+export interface ImportedDiagramFile {
+  filePath: FilePath;
+  content: string;
+}
+
+/**
+ * 가져오기 다이얼로그 결과
+ */
+export interface ImportDialogResult {
+  success: boolean;
+  canceled?: boolean;
+  files?: ImportedDiagramFile[];
+  error?: string;
+}
+
+/**
+ * Mermaid로 변환한 결과
+ * warnings: 변환하지 못해 제외하거나 단순화한 항목 (원본 줄 번호 포함)
+ */
+export interface DiagramImportResult {
+  code: string;
+  warnings: string[];
+}
+
+// ============================================================================
+// 다이어그램 비교 (시각적 diff)
+// ============================================================================
+
+/**
+ * 탭 내용과 비교할 기준 버전 (디스크에 저장된 파일 / git HEAD)
+ */
+export type DiagramDiffBase = 'saved' | 'head';
+
+/**
+ * 비교할 한쪽 버전
+ */
+export interface DiagramDiffSide {
+  label: string;
+  code: string;
+}
+
+/**
+ * 비교 요청 (before → after)
+ */
+export interface DiagramDiffRequest {
+  title: string;
+  before: DiagramDiffSide;
+  after: DiagramDiffSide;
+}
+
+export type DiagramDiffStatus = 'added' | 'removed' | 'changed';
+
+export type DiagramDiffElementKind = 'node' | 'edge' | 'cluster' | 'participant' | 'message' | 'note' | 'text';
+
+/**
+ * 렌더링된 두 SVG 사이의 요소 변경
+ * previousLabel: 변경(changed)일 때 이전 레이블
+ */
+export interface DiagramDiffChange {
+  key: string;
+  kind: DiagramDiffElementKind;
+  status: DiagramDiffStatus;
+  label: string;
+  previousLabel?: string;
+}
+
+// ============================================================================
+// 헤드리스 렌더링 (CLI)
+// ============================================================================
+
+/**
+ * 헤드리스 렌더러 설정
+ */
+export interface HeadlessRenderSettings {
+  appTheme: 'light' | 'dark';
+  mermaidConfig: MermaidUserConfig | null;
+}
+
+/**
+ * Markdown 내 다이어그램을 이미지로 렌더링하고 참조를 넣은 결과
+ * 이미지 데이터는 Base64 문자열 (executeJavaScript 결과로 전달)
+ */
+export interface HeadlessMarkdownResult {
+  markdown: string;
+  images: { relativePath: string; data: string }[];
+  failures: BatchExportFailure[];
+}
+
+/**
+ * 숨김 창의 렌더러가 window.mermaidHeadless로 노출하는 API
+ * 에디터와 같은 렌더링/변환 경로(diagramExporter)를 사용
+ */
+export interface HeadlessRenderer {
+  configure(settings: HeadlessRenderSettings): void;
+  renderDiagram(code: string, format: ExportType, options?: ExportRenderOptions, title?: string): Promise<string>;
+  renderMarkdown(markdown: string, format: ExportType, imagePrefix: string, options?: ExportRenderOptions): Promise<HeadlessMarkdownResult>;
+}
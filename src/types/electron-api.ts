@@ -3,11 +3,14 @@
  */
 
 import type { IpcInvokeChannels } from './ipc-channels';
-import type { FileTreeNode } from './file-system';
+import type { FileTreeNode, CollectDiagramSourcesResult, SelectDirectoryResult, OpenFileDialogResult } from './file-system';
 import type { WorkspaceData, RecentFile, RecentFolder, Bookmark, LayoutSettings } from './workspace';
-import type { TabState, ExportResult } from './editor';
+import type { TabState, ExportResult, ExportRenderOptions, MarkdownPdfOptions, MarkdownPdfSettings, HeadlessRenderer, ImportDialogResult } from './editor';
 import type { TerminalCreateOptions, TerminalStateData, TerminalOutput, TerminalExit } from './terminal';
-import type { ThemeSettings, Theme } from './theme';
+import type { ThemeSettings, Theme, WorkspaceMermaidConfigResult } from './theme';
+import type { GitFileContentResult, GitStatusResult, GitOperationResult, GitHistoryResult } from './git';
+import type { WorkspaceSearchQuery, WorkspaceSearchResult, WorkspaceReplaceResult, QuickOpenFilesResult } from './search';
+import type { CommandId, KeybindingOverrides } from './commands';
 
 /**
  * Electron API 인터페이스
@@ -16,6 +19,8 @@ export interface ElectronAPI {
   // ===== 파일 작업 =====
   saveFile(content: string, filePath?: string): Promise<IpcInvokeChannels['save-file']['result']>;
   readFile(filePath: string): Promise<string>;
+  showOpenFileDialog(): Promise<OpenFileDialogResult>;
+  showImportDialog(): Promise<ImportDialogResult>;
 
   // ===== 폴더 작업 =====
   openFolder(): Promise<string | null>;
@@ -29,6 +34,9 @@ export interface ElectronAPI {
   getRecentFolders(): Promise<RecentFolder[]>;
   openRecentFolder(folderPath: string): Promise<{ success: boolean }>;
 
+  // ===== Mermaid 설정 =====
+  getWorkspaceMermaidConfig(folderPath: string): Promise<WorkspaceMermaidConfigResult>;
+
   // ===== 북마크 =====
   getBookmarks(): Promise<Bookmark[]>;
   addBookmark(folderPath: string): Promise<{ success: boolean; bookmarks?: Bookmark[] }>;
@@ -45,24 +53,48 @@ export interface ElectronAPI {
   // ===== 내보내기 =====
   exportDiagram(svgData: string, exportType: string, fileName: string): Promise<ExportResult>;
   saveExportedFile(filePath: string, buffer: Uint8Array): Promise<{ success: boolean; error?: string }>;
-  printToPDF(htmlContent: string, fileName: string): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
+  getAvailableFilePath(filePath: string): Promise<{ success: boolean; filePath?: string; error?: string }>;
+  selectExportDirectory(defaultPath?: string): Promise<SelectDirectoryResult>;
+  collectDiagramSources(folderPath: string): Promise<CollectDiagramSourcesResult>;
+  printToPDF(htmlContent: string, fileName: string, options?: MarkdownPdfOptions): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
 
   // ===== 탭/레이아웃 =====
   saveTabState(state: TabState): Promise<{ success: boolean }>;
   getTabState(): Promise<TabState | null>;
   saveLayoutSettings(settings: LayoutSettings): Promise<{ success: boolean }>;
   getLayoutSettings(): Promise<LayoutSettings | null>;
+  saveExportOptions(workspace: string, options: ExportRenderOptions): Promise<{ success: boolean; error?: string }>;
+  getExportOptions(workspace: string): Promise<ExportRenderOptions | null>;
+  saveMarkdownPdfSettings(workspace: string, settings: MarkdownPdfSettings): Promise<{ success: boolean; error?: string }>;
+  getMarkdownPdfSettings(workspace: string): Promise<MarkdownPdfSettings | null>;
 
   // ===== 테마 =====
   getThemeSettings(): Promise<ThemeSettings>;
   saveThemeSettings(settings: ThemeSettings): Promise<{ success: boolean; error?: string }>;
   getSystemTheme(): Promise<Theme>;
 
+  // ===== 단축키 =====
+  getKeybindings(): Promise<KeybindingOverrides>;
+  saveKeybindings(keybindings: KeybindingOverrides): Promise<{ success: boolean; error?: string }>;
+
   // ===== 파일 감시 =====
   watchFile(filePath: string): Promise<{ success: boolean }>;
   unwatchFile(filePath: string): Promise<{ success: boolean }>;
   updateFileModTime(filePath: string): Promise<{ success: boolean }>;
 
+  // ===== Git =====
+  gitShowFile(filePath: string, revision?: string): Promise<GitFileContentResult>;
+  gitStatus(folderPath: string): Promise<GitStatusResult>;
+  gitStage(root: string, filePaths: string[]): Promise<GitOperationResult>;
+  gitUnstage(root: string, filePaths: string[]): Promise<GitOperationResult>;
+  gitCommit(root: string, message: string): Promise<GitOperationResult>;
+  gitFileHistory(filePath: string): Promise<GitHistoryResult>;
+
+  // ===== 워크스페이스 검색 =====
+  searchWorkspace(folderPath: string, query: WorkspaceSearchQuery, replacement?: string): Promise<WorkspaceSearchResult>;
+  replaceInWorkspace(query: WorkspaceSearchQuery, replacement: string, filePaths: string[]): Promise<WorkspaceReplaceResult>;
+  quickOpenFiles(folderPath: string): Promise<QuickOpenFilesResult>;
+
   // ===== 터미널 =====
   terminalCreate(options: TerminalCreateOptions): Promise<{ success: boolean; id: string; error?: string }>;
   terminalInput(id: string, data: string): void;
@@ -81,15 +113,12 @@ export interface ElectronAPI {
   onFileRenamed(callback: (event: unknown, oldPath: string, newPath: string) => void): void;
   onFileMoved(callback: (event: unknown, oldPath: string, newPath: string) => void): void;
   onFileChangedExternally(callback: (event: unknown, filePath: string) => void): void;
+  onMermaidConfigChanged(callback: (event: unknown, filePath: string) => void): void;
   onSystemThemeChanged(callback: (event: unknown, theme: Theme) => void): void;
   onTerminalOutput(callback: (data: TerminalOutput) => void): void;
   onTerminalExit(callback: (data: TerminalExit) => void): void;
-  onMenuNew(callback: (event: unknown) => void): void;
-  onMenuOpen(callback: (event: unknown, content: string, filePath: string) => void): void;
-  onMenuSave(callback: (event: unknown) => void): void;
-  onMenuExportPNG(callback: (event: unknown) => void): void;
-  onMenuExportPDF(callback: (event: unknown) => void): void;
-  onMenuExportSVG(callback: (event: unknown) => void): void;
+  onRunCommand(callback: (event: unknown, commandId: CommandId) => void): void;
+  onKeybindingsUpdated(callback: (event: unknown, keybindings: KeybindingOverrides) => void): void;
 
   // ===== 리스너 제거 =====
   removeTerminalListeners(): void;
@@ -102,6 +131,7 @@ export interface ElectronAPI {
 declare global {
   interface Window {
     electronAPI: ElectronAPI;
+    mermaidHeadless?: HeadlessRenderer;
   }
 }
 
@@ -51,3 +51,42 @@ export interface LoadFolderChildrenResult {
   children: FileTreeNode[];
   error?: string;
 }
+
+/**
+ * 다이어그램 소스 파일 (일괄 내보내기용)
+ */
+export interface DiagramSourceFile {
+  filePath: FilePath;
+  relativePath: string;  // 기준 폴더로부터의 상대 경로 ('/' 구분)
+  content: string;
+}
+
+/**
+ * 다이어그램 소스 수집 결과
+ */
+export interface CollectDiagramSourcesResult {
+  success: boolean;
+  files: DiagramSourceFile[];
+  error?: string;
+}
+
+/**
+ * 파일 열기 다이얼로그 결과 (선택한 파일 내용 포함)
+ */
+export interface OpenFileDialogResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: FilePath;
+  content?: string;
+  error?: string;
+}
+
+/**
+ * 폴더 선택 결과
+ */
+export interface SelectDirectoryResult {
+  success: boolean;
+  canceled?: boolean;
+  directoryPath?: FilePath;
+  error?: string;
+}
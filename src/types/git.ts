@@ -0,0 +1,83 @@
+/**
+ * Git 타입
+ */
+
+/**
+ * 특정 리비전의 파일 내용 조회 결과
+ */
+export interface GitFileContentResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+}
+
+/**
+ * 파일 변경 종류 (git status)
+ */
+export type GitChangeType = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+/**
+ * git status 항목
+ * staged: 인덱스(스테이징) 변경, unstaged: 작업 트리 변경
+ */
+export interface GitStatusEntry {
+  path: string;
+  relativePath: string;
+  originalPath?: string;
+  staged: GitChangeType | null;
+  unstaged: GitChangeType | null;
+}
+
+/**
+ * 저장소 상태 조회 결과 (git 저장소가 아니면 isRepository: false)
+ */
+export interface GitStatusResult {
+  success: boolean;
+  isRepository?: boolean;
+  root?: string;
+  branch?: string;
+  entries?: GitStatusEntry[];
+  error?: string;
+}
+
+/**
+ * 스테이징/커밋 결과
+ */
+export interface GitOperationResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 파일 히스토리의 커밋 정보
+ */
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+/**
+ * 파일 히스토리 조회 결과
+ */
+export interface GitHistoryResult {
+  success: boolean;
+  commits?: GitCommitInfo[];
+  error?: string;
+}
+
+/**
+ * 에디터 변경 거터 표시 단위 (HEAD 대비 줄 단위 변경)
+ * deleted: startLineNumber 줄 바로 아래에서 줄이 삭제됨
+ * (파일 맨 앞에서 삭제되면 1번 줄에 aboveStartLine으로 표시 — Monaco에는 0번 줄이 없음)
+ */
+export type GitLineChangeType = 'added' | 'modified' | 'deleted';
+
+export interface GitLineChange {
+  type: GitLineChangeType;
+  startLineNumber: number;
+  endLineNumber: number;
+  aboveStartLine?: boolean;
+}
@@ -3,10 +3,24 @@
  */
 
 import type { RefObject } from 'react';
-import type { Tab, TabUpdate, FileType } from './editor';
+import type {
+  Tab,
+  TabUpdate,
+  FileType,
+  DiagramProblem,
+  DiagramViewport,
+  SourceRevealRequest,
+  ScrollSyncRequest,
+  ExportRenderOptions,
+  MarkdownPdfSettings,
+  DiagramDiffBase,
+  DiagramDiffRequest
+} from './editor';
 import type { ViewMode, LayoutSettings } from './workspace';
 import type { Theme, ThemeMode } from './theme';
+import type { CommandId, Keybinding, KeybindingOverrides } from './commands';
 import type { FilePath, Nullable } from './common';
+import type { GitStatusResult, GitCommitInfo } from './git';
 
 /**
  * useTabManager 반환 타입
@@ -24,10 +38,14 @@ export interface UseTabManagerReturn {
   handleTabSelect: (tabId: number) => void;
   handleTabClose: (tabId: number) => void;
   handleTabNew: () => void;
+  handleTabOpenContent: (content: string) => void;
+  handleTabOpenReadOnly: (content: string, title: string, fileType: FileType) => void;
+  handleTabsReload: (filePaths: FilePath[]) => Promise<void>;
   handleTabReorder: (draggedIndex: number, targetIndex: number) => void;
   handleCloseAllTabs: () => void;
   handleCloseOtherTabs: (keepTabId: number) => void;
   handleCloseTabsToRight: (fromTabId: number) => void;
+  handlePreviewViewportChange: (tabId: number, viewport: DiagramViewport) => void;
 }
 
 /**
@@ -37,10 +55,14 @@ export interface UseLayoutSettingsReturn {
   explorerWidth: number;
   editorWidth: number;
   viewMode: ViewMode;
+  isOutlineVisible: boolean;
+  outlineWidth: number;
   layoutLoaded: boolean;
   handleExplorerResize: (clientX: number) => void;
   handleEditorResize: (clientX: number) => void;
   handleViewModeChange: (mode: ViewMode) => void;
+  handleOutlineResize: (clientX: number) => void;
+  toggleOutline: () => void;
 }
 
 /**
@@ -70,7 +92,78 @@ export interface UseDiagramRendererParams {
  */
 export interface UseDiagramRendererReturn {
   diagramRef: RefObject<HTMLDivElement | null>;
-  error: string | null;
+  problems: DiagramProblem[];
+}
+
+/**
+ * useSourceNavigation 반환 타입
+ */
+export interface UseSourceNavigationReturn {
+  revealRequest: SourceRevealRequest | null;
+  cursorLine: number | null;
+  revealSourceLine: (lineNumber: number, column?: number, length?: number) => void;
+  handleCursorLineChange: (lineNumber: number) => void;
+}
+
+/**
+ * useScrollSync 반환 타입
+ */
+export interface UseScrollSyncReturn {
+  editorScrollRequest: ScrollSyncRequest | null;
+  previewScrollRequest: ScrollSyncRequest | null;
+  handleEditorScroll: (line: number) => void;
+  handlePreviewScroll: (line: number) => void;
+}
+
+/**
+ * useExportOptions 반환 타입
+ */
+export interface UseExportOptionsReturn {
+  exportOptions: ExportRenderOptions;
+  updateExportOptions: (options: ExportRenderOptions) => void;
+}
+
+/**
+ * useMarkdownPdfSettings 반환 타입
+ */
+export interface UseMarkdownPdfSettingsReturn {
+  pdfSettings: MarkdownPdfSettings;
+  updatePdfSettings: (settings: MarkdownPdfSettings) => void;
+}
+
+/**
+ * useDiagramDiff 반환 타입
+ */
+export interface UseDiagramDiffReturn {
+  diffRequest: Nullable<DiagramDiffRequest>;
+  compareTab: (tabId: number, base: DiagramDiffBase) => Promise<void>;
+  compareFiles: (beforePath: FilePath, afterPath: FilePath) => Promise<void>;
+  compareFileWithHead: (filePath: FilePath) => Promise<void>;
+  closeDiff: () => void;
+}
+
+/**
+ * useSourceControl 반환 타입
+ */
+export interface UseSourceControlReturn {
+  gitStatus: Nullable<GitStatusResult>;
+  refreshGitStatus: () => Promise<void>;
+  stageFiles: (filePaths: FilePath[]) => Promise<void>;
+  unstageFiles: (filePaths: FilePath[]) => Promise<void>;
+  commitChanges: (message: string) => Promise<boolean>;
+  historyFilePath: Nullable<FilePath>;
+  history: Nullable<GitCommitInfo[]>;
+  showFileHistory: (filePath: FilePath) => Promise<void>;
+  closeFileHistory: () => void;
+  openRevision: (filePath: FilePath, commit: GitCommitInfo) => Promise<void>;
+}
+
+/**
+ * useFileNavigation 반환 타입
+ */
+export interface UseFileNavigationReturn {
+  openFile: (filePath: FilePath) => Promise<void>;
+  openFileAt: (filePath: FilePath, lineNumber: number, column?: number, length?: number) => Promise<void>;
 }
 
 /**
@@ -88,28 +181,38 @@ export interface UseTerminalReturn {
 }
 
 /**
- * useKeyboardShortcuts 파라미터
+ * useKeybindings 반환 타입
  */
-export interface UseKeyboardShortcutsParams {
+export interface UseKeybindingsReturn {
+  keybindings: KeybindingOverrides;
+  updateCommandKeybindings: (commandId: CommandId, bindings: Keybinding[]) => Promise<void>;
+  resetCommandKeybindings: (commandId: CommandId) => Promise<void>;
+  resetAllKeybindings: () => Promise<void>;
+}
+
+/**
+ * useTabCommands 파라미터
+ */
+export interface UseTabCommandsParams {
   tabs: Tab[];
   activeTabId: Nullable<number>;
+  handleTabSelect: (tabId: number) => void;
   handleTabClose: (tabId: number) => void;
-  handleTabNew: () => void;
-  setActiveTabId: (tabId: number) => void;
-  toggleTerminal?: () => void;
+  handleCloseAllTabs: () => void;
+  handleCloseOtherTabs: (keepTabId: number) => void;
 }
 
 /**
- * useMenuHandlers 파라미터
+ * useFileCommands 파라미터
  */
-export interface UseMenuHandlersParams {
+export interface UseFileCommandsParams {
   diagramCode: string;
   currentFilePath: Nullable<FilePath>;
-  fileType: FileType;
+  hasActiveTab: boolean;
   updateActiveTab: (updates: TabUpdate) => void;
   handleTabNew: () => void;
   handleFileSelect: (content: string, filePath: FilePath) => void;
-  diagramRef: RefObject<HTMLDivElement | null>;
+  handleTabOpenContent: (content: string) => void;
 }
 
 /**
@@ -11,6 +11,9 @@ export * from './workspace';
 export * from './editor';
 export * from './terminal';
 export * from './theme';
+export * from './git';
+export * from './search';
+export * from './commands';
 export * from './store';
 
 // IPC
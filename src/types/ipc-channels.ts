@@ -8,6 +8,9 @@ import type {
   RenameResult,
   LoadFolderChildrenResult,
   FileTreeNode,
+  CollectDiagramSourcesResult,
+  SelectDirectoryResult,
+  OpenFileDialogResult,
 } from './file-system';
 import type {
   WorkspaceData,
@@ -16,12 +19,15 @@ import type {
   Bookmark,
   LayoutSettings,
 } from './workspace';
-import type { TabState, ExportResult } from './editor';
+import type { TabState, ExportResult, ExportRenderOptions, MarkdownPdfOptions, MarkdownPdfSettings, ImportDialogResult } from './editor';
 import type {
   TerminalCreateOptions,
   TerminalStateData,
 } from './terminal';
-import type { ThemeSettings, Theme } from './theme';
+import type { ThemeSettings, Theme, WorkspaceMermaidConfigResult } from './theme';
+import type { GitFileContentResult, GitStatusResult, GitOperationResult, GitHistoryResult } from './git';
+import type { WorkspaceSearchQuery, WorkspaceSearchResult, WorkspaceReplaceResult, QuickOpenFilesResult } from './search';
+import type { CommandId, KeybindingOverrides } from './commands';
 
 /**
  * IPC Invoke 채널 정의
@@ -36,6 +42,14 @@ export interface IpcInvokeChannels {
     params: [filePath: string];
     result: string;
   };
+  'show-open-file-dialog': {
+    params: [];
+    result: OpenFileDialogResult;
+  };
+  'show-import-dialog': {
+    params: [];
+    result: ImportDialogResult;
+  };
   'create-folder': {
     params: [folderPath: string];
     result: FileOperationResult;
@@ -94,6 +108,10 @@ export interface IpcInvokeChannels {
     params: [];
     result: RecentFolder[];
   };
+  'get-workspace-mermaid-config': {
+    params: [folderPath: string];
+    result: WorkspaceMermaidConfigResult;
+  };
 
   // 탭/레이아웃
   'save-tab-state': {
@@ -112,6 +130,22 @@ export interface IpcInvokeChannels {
     params: [];
     result: LayoutSettings | null;
   };
+  'save-export-options': {
+    params: [workspace: string, options: ExportRenderOptions];
+    result: { success: boolean; error?: string };
+  };
+  'get-export-options': {
+    params: [workspace: string];
+    result: ExportRenderOptions | null;
+  };
+  'save-markdown-pdf-settings': {
+    params: [workspace: string, settings: MarkdownPdfSettings];
+    result: { success: boolean; error?: string };
+  };
+  'get-markdown-pdf-settings': {
+    params: [workspace: string];
+    result: MarkdownPdfSettings | null;
+  };
 
   // 북마크
   'get-bookmarks': {
@@ -136,6 +170,22 @@ export interface IpcInvokeChannels {
     params: [filePath: string, buffer: Uint8Array];
     result: { success: boolean; error?: string };
   };
+  'get-available-file-path': {
+    params: [filePath: string];
+    result: { success: boolean; filePath?: string; error?: string };
+  };
+  'select-export-directory': {
+    params: [defaultPath?: string];
+    result: SelectDirectoryResult;
+  };
+  'collect-diagram-sources': {
+    params: [folderPath: string];
+    result: CollectDiagramSourcesResult;
+  };
+  'print-to-pdf': {
+    params: [htmlContent: string, fileName: string, options?: MarkdownPdfOptions];
+    result: { success: boolean; canceled?: boolean; filePath?: string; error?: string };
+  };
 
   // 테마
   'get-theme-settings': {
@@ -151,6 +201,16 @@ export interface IpcInvokeChannels {
     result: Theme;
   };
 
+  // 단축키
+  'get-keybindings': {
+    params: [];
+    result: KeybindingOverrides;
+  };
+  'save-keybindings': {
+    params: [keybindings: KeybindingOverrides];
+    result: { success: boolean; error?: string };
+  };
+
   // 터미널
   'terminal:create': {
     params: [options: TerminalCreateOptions];
@@ -173,6 +233,46 @@ export interface IpcInvokeChannels {
     result: TerminalStateData | null;
   };
 
+  // Git
+  'git-show-file': {
+    params: [filePath: string, revision?: string];
+    result: GitFileContentResult;
+  };
+  'git-status': {
+    params: [folderPath: string];
+    result: GitStatusResult;
+  };
+  'git-stage': {
+    params: [root: string, filePaths: string[]];
+    result: GitOperationResult;
+  };
+  'git-unstage': {
+    params: [root: string, filePaths: string[]];
+    result: GitOperationResult;
+  };
+  'git-commit': {
+    params: [root: string, message: string];
+    result: GitOperationResult;
+  };
+  'git-file-history': {
+    params: [filePath: string];
+    result: GitHistoryResult;
+  };
+
+  // 워크스페이스 검색
+  'workspace-search': {
+    params: [folderPath: string, query: WorkspaceSearchQuery, replacement?: string];
+    result: WorkspaceSearchResult;
+  };
+  'workspace-replace': {
+    params: [query: WorkspaceSearchQuery, replacement: string, filePaths: string[]];
+    result: WorkspaceReplaceResult;
+  };
+  'quick-open-files': {
+    params: [folderPath: string];
+    result: QuickOpenFilesResult;
+  };
+
   // 파일 감시
   'watch-file': {
     params: [filePath: string];
@@ -201,13 +301,10 @@ export interface IpcSendChannels {
   'file-renamed': [oldPath: string, newPath: string];
   'file-moved': [oldPath: string, newPath: string];
   'file-changed-externally': string;
+  'mermaid-config-changed': string;
   'system-theme-changed': Theme;
   'terminal:output': { id: string; data: string };
   'terminal:exit': { id: string; exitCode: number; signal?: string };
-  'menu-new': void;
-  'menu-open': [content: string, filePath: string];
-  'menu-save': void;
-  'menu-export-png': void;
-  'menu-export-pdf': void;
-  'menu-export-svg': void;
+  'run-command': CommandId;
+  'keybindings-updated': KeybindingOverrides;
 }
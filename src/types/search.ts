@@ -0,0 +1,84 @@
+/**
+ * 워크스페이스 검색 타입
+ */
+
+/**
+ * 파일 내용 검색 조건
+ * include/exclude: 쉼표로 구분한 glob 패턴 (예: "*.mmd, docs/**")
+ */
+export interface WorkspaceSearchQuery {
+  pattern: string;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+  isWholeWord: boolean;
+  include: string;
+  exclude: string;
+}
+
+/**
+ * 검색 일치 항목
+ * column은 1부터 시작, 여러 줄에 걸친 일치는 첫 줄만 미리보기
+ */
+export interface WorkspaceSearchMatch {
+  lineNumber: number;
+  column: number;
+  length: number;
+  // 미리보기 (일치 앞/일치/일치 뒤)
+  before: string;
+  text: string;
+  after: string;
+  // 바꿀 문자열 ($1 등 치환 결과, 바꾸기 미리보기 시에만)
+  replacement?: string;
+}
+
+/**
+ * 파일별 검색 결과
+ */
+export interface WorkspaceSearchFileResult {
+  filePath: string;
+  relativePath: string;
+  matches: WorkspaceSearchMatch[];
+}
+
+/**
+ * 워크스페이스 검색 결과
+ * truncated: 최대 일치 수를 넘어 일부 결과만 반환됨
+ */
+export interface WorkspaceSearchResult {
+  success: boolean;
+  files?: WorkspaceSearchFileResult[];
+  matchCount?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * 워크스페이스 바꾸기 결과
+ */
+export interface WorkspaceReplaceResult {
+  success: boolean;
+  changedFiles?: string[];
+  replacementCount?: number;
+  error?: string;
+}
+
+/**
+ * 빠른 파일 열기 항목
+ */
+export interface QuickOpenFile {
+  filePath: string;
+  relativePath: string;
+}
+
+/**
+ * 빠른 파일 열기 목록 조회 결과
+ * recentFiles: 워크스페이스의 최근 파일 경로 (최근 순)
+ * truncated: 최대 파일 수를 넘어 일부 파일만 인덱싱됨
+ */
+export interface QuickOpenFilesResult {
+  success: boolean;
+  files?: QuickOpenFile[];
+  recentFiles?: string[];
+  truncated?: boolean;
+  error?: string;
+}
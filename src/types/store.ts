@@ -2,10 +2,11 @@
  * Electron Store 스키마 타입
  */
 
-import type { TabState } from './editor';
+import type { TabState, ExportRenderOptions, MarkdownPdfSettings } from './editor';
 import type { RecentFile, RecentFolder, Bookmark, LayoutSettings } from './workspace';
 import type { ThemeSettings } from './theme';
 import type { TerminalStateData } from './terminal';
+import type { KeybindingOverrides } from './commands';
 
 /**
  * 폴더별 최근 파일 맵
@@ -28,6 +29,20 @@ export interface TerminalStatesByWorkspace {
   [workspace: string]: TerminalStateData;
 }
 
+/**
+ * 워크스페이스별 마지막 내보내기 옵션 맵
+ */
+export interface ExportOptionsByWorkspace {
+  [workspace: string]: ExportRenderOptions;
+}
+
+/**
+ * 워크스페이스별 Markdown PDF 설정 맵
+ */
+export interface MarkdownPdfSettingsByWorkspace {
+  [workspace: string]: MarkdownPdfSettings;
+}
+
 /**
  * Electron Store 통합 스키마
  */
@@ -49,6 +64,13 @@ export interface StoreSchema {
   // 터미널 관련
   terminalStatesByWorkspace: TerminalStatesByWorkspace;
 
+  // 내보내기 관련
+  exportOptionsByWorkspace: ExportOptionsByWorkspace;
+  markdownPdfSettingsByWorkspace: MarkdownPdfSettingsByWorkspace;
+
+  // 단축키 관련
+  keybindings: KeybindingOverrides;
+
   // 확장을 위한 인덱스 시그니처
   [key: string]: unknown;
 }
@@ -17,6 +17,37 @@ export type ThemeMode = 'light' | 'dark' | 'auto';
  */
 export type DiagramTheme = 'default' | 'dark';
 
+/**
+ * Mermaid 내장 테마
+ */
+export type MermaidThemeName = 'default' | 'dark' | 'forest' | 'neutral' | 'base';
+
+/**
+ * 사용자 Mermaid 설정 (워크스페이스 mermaid.config.json)
+ * mermaid.initialize 설정과 같은 구조이며, 지정한 키만 기본 설정 위에 덮어씀
+ */
+export interface MermaidUserConfig {
+  theme?: MermaidThemeName;
+  themeVariables?: Record<string, string | number | boolean>;
+  themeCSS?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  flowchart?: Record<string, unknown>;
+  sequence?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * 워크스페이스 Mermaid 설정 조회 결과
+ * 설정 파일이 없으면 success: true, config: null
+ */
+export interface WorkspaceMermaidConfigResult {
+  success: boolean;
+  config: MermaidUserConfig | null;
+  filePath?: string;
+  error?: string;
+}
+
 /**
  * 테마 설정
  */
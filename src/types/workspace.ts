@@ -51,6 +51,8 @@ export interface LayoutSettings {
   editorWidth?: number;
   viewMode?: ViewMode;
   terminalHeight?: number;
+  outlineVisible?: boolean;
+  outlineWidth?: number;
 }
 
 /**
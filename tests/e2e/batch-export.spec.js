@@ -0,0 +1,114 @@
+/**
+ * 폴더 일괄 내보내기 E2E 테스트
+ * - 다이어그램 소스 파일 수집
+ * - 하위 폴더가 없는 출력 경로에 저장
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  callAPI,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+test.describe('폴더 일괄 내보내기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async () => {
+    testWorkspace = await createTestWorkspace();
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('하위 폴더까지 다이어그램 소스 파일을 수집해야 함', async ({ window }) => {
+    await fs.writeFile(path.join(testWorkspace, 'notes.txt'), 'not a diagram');
+
+    const result = await callAPI(window, 'collectDiagramSources', testWorkspace);
+
+    expect(result.success).toBe(true);
+    expect(result.files.map(file => file.relativePath).sort()).toEqual([
+      'subfolder/nested.mmd',
+      'test.md',
+      'test1.mmd',
+      'test2.mmd'
+    ]);
+    expect(result.files.find(file => file.relativePath === 'test1.mmd').content).toContain('A[Test1]');
+  });
+
+  test('숨김 폴더와 node_modules는 제외', async ({ window }) => {
+    await fs.mkdir(path.join(testWorkspace, 'node_modules'));
+    await fs.writeFile(path.join(testWorkspace, 'node_modules', 'dep.mmd'), 'graph TD\n  A --> B');
+    await fs.mkdir(path.join(testWorkspace, '.hidden'));
+    await fs.writeFile(path.join(testWorkspace, '.hidden', 'secret.mmd'), 'graph TD\n  A --> B');
+
+    const result = await callAPI(window, 'collectDiagramSources', testWorkspace);
+
+    expect(result.success).toBe(true);
+    expect(result.files.some(file => file.relativePath.includes('dep.mmd'))).toBe(false);
+    expect(result.files.some(file => file.relativePath.includes('secret.mmd'))).toBe(false);
+  });
+
+  test('존재하지 않는 하위 폴더에도 내보낸 파일을 저장해야 함', async ({ window }) => {
+    const outputPath = path.join(testWorkspace, 'export', 'subfolder', 'nested.svg');
+
+    const result = await window.evaluate(async (filePath) => {
+      const data = new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+      return window.electronAPI.saveExportedFile(filePath, data);
+    }, outputPath);
+
+    expect(result.success).toBe(true);
+    const saved = await fs.readFile(outputPath, 'utf-8');
+    expect(saved).toContain('<svg');
+  });
+});
+
+test.describe('파일 탐색기 컨텍스트 메뉴', () => {
+  let testWorkspace;
+
+  test.beforeEach(async () => {
+    testWorkspace = await createTestWorkspace();
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('폴더 우클릭 시 일괄 내보내기 다이얼로그가 열려야 함', async ({ window }) => {
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+
+    await window.click('.tree-item.directory:has-text("subfolder")', { button: 'right' });
+    await window.click('.context-menu-item:has-text("Export all diagrams")');
+
+    await expect(window.locator('.batch-export-dialog')).toBeVisible();
+    await expect(window.locator('.batch-export-checkbox')).toHaveCount(6);
+
+    await window.click('.batch-export-dialog .cancel-btn:has-text("Cancel")');
+    await expect(window.locator('.batch-export-dialog')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * 헤드리스 CLI 내보내기 E2E 테스트
+ * - Mermaid 파일 → SVG/PNG
+ * - Markdown 펜스 → 이미지 + 펜스 아래 참조 (펜스 유지)
+ * - 잘못된 인자 처리
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const { execFile } = require('child_process');
+const electronPath = require('electron');
+const {
+  createTestWorkspace,
+  cleanupTestWorkspace
+} = require('../helpers/electron-helpers');
+
+const mainPath = path.join(__dirname, '../../dist/tscbuild/main/main.js');
+
+// PNG 파일 시그니처
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+/**
+ * CLI 실행 (창 없이 종료될 때까지 대기)
+ */
+function runCli(args) {
+  return new Promise(resolve => {
+    execFile(electronPath, [mainPath, 'export', ...args], { timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+test.describe('CLI 내보내기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async () => {
+    testWorkspace = await createTestWorkspace();
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('Mermaid 파일을 SVG로 내보내야 함', async () => {
+    const input = path.join(testWorkspace, 'test1.mmd');
+    const output = path.join(testWorkspace, 'out', 'test1.svg');
+
+    const result = await runCli([input, '-o', output]);
+
+    expect(result.code).toBe(0);
+    const svg = await fs.readFile(output, 'utf-8');
+    expect(svg).toContain('<?xml');
+    expect(svg).toContain('Test1');
+  });
+
+  test('--scale 옵션으로 PNG를 내보내야 함', async () => {
+    const input = path.join(testWorkspace, 'test2.mmd');
+    const output1x = path.join(testWorkspace, 'test2-1x.png');
+    const output3x = path.join(testWorkspace, 'test2-3x.png');
+
+    expect((await runCli([input, '-o', output1x, '--scale', '1'])).code).toBe(0);
+    expect((await runCli([input, '-o', output3x, '--scale', '3', '--theme', 'dark'])).code).toBe(0);
+
+    const png1x = await fs.readFile(output1x);
+    const png3x = await fs.readFile(output3x);
+    expect(png1x.subarray(0, 4).equals(PNG_SIGNATURE)).toBe(true);
+    expect(png3x.length).toBeGreaterThan(png1x.length);
+  });
+
+  test('출력 확장자로 JPEG/WebP/HTML 형식을 추론해야 함', async () => {
+    const input = path.join(testWorkspace, 'test1.mmd');
+    const jpegOutput = path.join(testWorkspace, 'test1.jpg');
+    const webpOutput = path.join(testWorkspace, 'test1.webp');
+    const htmlOutput = path.join(testWorkspace, 'test1.html');
+
+    expect((await runCli([input, '-o', jpegOutput, '--quality', '80'])).code).toBe(0);
+    expect((await runCli([input, '-o', webpOutput, '--background', 'transparent'])).code).toBe(0);
+    expect((await runCli([input, '-o', htmlOutput])).code).toBe(0);
+
+    const jpeg = await fs.readFile(jpegOutput);
+    expect(jpeg[0]).toBe(0xff);
+    expect(jpeg[1]).toBe(0xd8);
+
+    const webp = await fs.readFile(webpOutput);
+    expect(webp.subarray(8, 12).toString()).toBe('WEBP');
+
+    const html = await fs.readFile(htmlOutput, 'utf-8');
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('<title>test1</title>');
+    expect(html).toContain('<svg');
+    expect(html).toContain('zoom-fit');
+  });
+
+  test('Markdown 펜스를 이미지로 만들고 펜스 아래에 참조를 넣어야 함', async () => {
+    const input = path.join(testWorkspace, 'test.md');
+    const original = await fs.readFile(input, 'utf-8');
+    const fenceCount = original.split('```mermaid').length - 1;
+
+    const result = await runCli([input, '--format', 'svg']);
+
+    expect(result.code).toBe(0);
+    const markdown = await fs.readFile(input, 'utf-8');
+    expect(markdown.split('```mermaid').length - 1).toBe(fenceCount);
+    expect(markdown).toContain('```\n![Diagram 1](test-diagrams/test-1.svg) <!-- mermaid-export -->');
+
+    const image = await fs.readFile(path.join(testWorkspace, 'test-diagrams', 'test-1.svg'), 'utf-8');
+    expect(image).toContain('<svg');
+
+    // 다시 실행하면 참조를 새로 추가하지 않고 갱신
+    expect((await runCli([input, '--format', 'png'])).code).toBe(0);
+    const rerun = await fs.readFile(input, 'utf-8');
+    expect(rerun.split('```mermaid').length - 1).toBe(fenceCount);
+    expect(rerun.split('<!-- mermaid-export -->').length - 1).toBe(fenceCount);
+    expect(rerun).toContain('![Diagram 1](test-diagrams/test-1.png) <!-- mermaid-export -->');
+    expect(rerun).not.toContain('test-1.svg');
+  });
+
+  test('렌더링에 실패한 펜스는 그대로 두고 실패 코드로 종료', async () => {
+    const input = path.join(testWorkspace, 'broken.md');
+    await fs.writeFile(input, '# Broken\n\n```mermaid\ngraph TD\n  A -->\n```\n');
+
+    const result = await runCli([input]);
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('Failed to render diagram');
+    expect(await fs.readFile(input, 'utf-8')).toContain('```mermaid');
+  });
+
+  test('범위를 벗어난 품질 값은 사용법 오류', async () => {
+    const result = await runCli([path.join(testWorkspace, 'test1.mmd'), '-f', 'jpeg', '--quality', '150']);
+
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('Invalid quality');
+  });
+
+  test('알 수 없는 옵션은 사용법을 출력하고 종료 코드 2', async () => {
+    const result = await runCli([path.join(testWorkspace, 'test1.mmd'), '--unknown']);
+
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('Unknown option');
+    expect(result.stderr).toContain('Usage: mermaid-editor export');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * 명령 팔레트 (Ctrl/Cmd+Shift+P) E2E 테스트
+ * - 실행 가능한 명령을 단축키와 함께 검색해 실행해야 함
+ * - 메뉴, 단축키, 팔레트, 미리보기 버튼이 같은 명령(같은 옵션 다이얼로그)을 실행해야 함
+ * - 현재 미리보기에 없는 명령은 표시하지 않아야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  waitForDiagramRender,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+test.describe('명령 팔레트', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), 'flowchart TD\n  A[Start] --> B[End]');
+    await fs.writeFile(path.join(testWorkspace, 'notes.md'), '# Notes\n\nSome text.');
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async ({ window }) => {
+    if (await window.locator('.command-palette').isVisible()) {
+      await window.keyboard.press('Escape');
+    }
+    const dialog = window.locator('.export-options-dialog');
+    if (await dialog.isVisible()) {
+      await dialog.locator('button:has-text("Cancel")').click();
+    }
+    if (await window.locator('.terminal-panel').isVisible()) {
+      await window.click('.terminal-toggle-btn');
+    }
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  async function openCommandPalette(window) {
+    await window.keyboard.press('Control+Shift+P');
+    const palette = window.locator('.command-palette');
+    await expect(palette).toBeVisible();
+    await expect(palette.locator('.quick-open-input')).toBeFocused();
+    return palette;
+  }
+
+  async function openMermaidFile(window) {
+    await selectFileInTree(window, 'flow.mmd');
+    await waitForDiagramRender(window);
+  }
+
+  test('Ctrl+Shift+P로 열고 명령과 단축키를 표시해야 함', async ({ window }) => {
+    await openMermaidFile(window);
+    const palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('export png');
+
+    const first = palette.locator('.command-palette-item').first();
+    await expect(first.locator('.command-palette-label')).toHaveText('Export: Export as PNG');
+    await expect(first.locator('.command-palette-keybinding')).toHaveText(/^(Ctrl|Cmd)\+Shift\+E$/);
+
+    await window.keyboard.press('Escape');
+    await expect(palette).toHaveCount(0);
+  });
+
+  test('팔레트에서 선택한 내보내기는 미리보기 버튼과 같은 옵션 다이얼로그를 열어야 함', async ({ window }) => {
+    await openMermaidFile(window);
+    const palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('export svg');
+    await window.keyboard.press('Enter');
+
+    await expect(palette).toHaveCount(0);
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Export as SVG');
+  });
+
+  test('단축키와 메뉴 명령도 같은 옵션 다이얼로그를 열어야 함', async ({ window, electronApp }) => {
+    await openMermaidFile(window);
+
+    await window.keyboard.press('Control+Shift+E');
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Export as PNG');
+    await dialog.locator('button:has-text("Cancel")').click();
+    await expect(dialog).toHaveCount(0);
+
+    // File > Export as PDF 메뉴 클릭과 같은 메시지
+    await electronApp.evaluate(({ BrowserWindow }) => {
+      BrowserWindow.getAllWindows()[0].webContents.send('run-command', 'export.pdf');
+    });
+    await expect(dialog).toContainText('Export as PDF');
+  });
+
+  test('팔레트에서 터미널을 열고 닫을 수 있어야 함', async ({ window }) => {
+    await openMermaidFile(window);
+
+    let palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('toggle terminal');
+    await palette.locator('.command-palette-item').first().click();
+    await expect(window.locator('.terminal-panel')).toBeVisible();
+
+    palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('toggle terminal');
+    await window.keyboard.press('Enter');
+    await expect(window.locator('.terminal-panel')).toHaveCount(0);
+  });
+
+  test('Markdown 탭에서는 Markdown 내보내기 명령만 표시해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'notes.md');
+    await expect(window.locator('.markdown-preview h1')).toHaveText('Notes');
+
+    const palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('export');
+    await expect(palette.locator('.command-palette-item:has-text("Export as Word document")')).toHaveCount(1);
+    await expect(palette.locator('.command-palette-item:has-text("Export as JPEG")')).toHaveCount(0);
+
+    await palette.locator('.quick-open-input').fill('export pdf');
+    await window.keyboard.press('Enter');
+    await expect(window.locator('.markdown-pdf-dialog')).toBeVisible();
+    await window.locator('.markdown-pdf-dialog button:has-text("Cancel")').click();
+  });
+
+  test('일치하는 명령이 없으면 안내를 표시해야 함', async ({ window }) => {
+    const palette = await openCommandPalette(window);
+    await palette.locator('.quick-open-input').fill('zzzqqq');
+
+    await expect(palette.locator('.command-palette-item')).toHaveCount(0);
+    await expect(palette.locator('.quick-open-message')).toHaveText('No matching commands');
+  });
+});
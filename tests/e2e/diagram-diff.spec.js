@@ -0,0 +1,169 @@
+/**
+ * 다이어그램 비교 E2E 테스트
+ * - 저장된 파일 ↔ 편집 중인 내용, 두 파일, git HEAD ↔ 작업 사본을 렌더링 결과로 비교해야 함
+ * - 추가/삭제/레이블 변경된 노드·엣지를 미리보기 SVG에서 강조해야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const { execFileSync } = require('child_process');
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC,
+  typeInEditor
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const ORIGINAL = [
+  'flowchart TD',
+  '  A[Start] --> B[Review]',
+  '  B --> C[Done]'
+].join('\n');
+
+// B 레이블 변경, C 삭제, D 추가
+const EDITED = [
+  'flowchart TD',
+  '  A[Start] --> B[Approve]',
+  '  B --> D[Publish]'
+].join('\n');
+
+/**
+ * 탭 컨텍스트 메뉴에서 항목 선택
+ */
+async function openTabContextMenuItem(window, tabName, itemText) {
+  await window.locator(`.tab-item:has-text("${tabName}")`).click({ button: 'right' });
+  await window.locator(`.tab-context-menu .context-menu-item:has-text("${itemText}")`).click();
+}
+
+/**
+ * 파일 탐색기 컨텍스트 메뉴에서 항목 선택
+ */
+async function openExplorerContextMenuItem(window, fileName, itemText) {
+  await window.locator(`.tree-item.file:has-text("${fileName}")`).click({ button: 'right' });
+  await window.locator(`.context-menu .context-menu-item:has-text("${itemText}")`).click();
+}
+
+function git(cwd, ...args) {
+  execFileSync('git', args, { cwd, stdio: 'pipe' });
+}
+
+test.describe('다이어그램 비교', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), ORIGINAL);
+    await fs.writeFile(path.join(testWorkspace, 'flow-v2.mmd'), EDITED);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async ({ window }) => {
+    // 열린 비교 뷰 닫기
+    await window.keyboard.press('Escape');
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('저장된 버전과 편집 중인 내용의 차이를 강조해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'flow.mmd');
+    await typeInEditor(window, EDITED);
+
+    await openTabContextMenuItem(window, 'flow.mmd', '저장된 버전과 비교');
+
+    const view = window.locator('.diagram-diff-view');
+    await expect(view).toBeVisible();
+    await expect(view.locator('.diagram-diff-title')).toContainText('Saved ↔ Unsaved');
+    await expect(view.locator('.diagram-diff-pane.before .diagram-diff-pane-label')).toHaveText('Saved');
+    await expect(view.locator('.diagram-diff-pane.after .diagram-diff-pane-label')).toHaveText('Unsaved Changes');
+
+    // 렌더링된 미리보기에서 노드 강조
+    const before = view.locator('.diagram-diff-pane.before svg');
+    const after = view.locator('.diagram-diff-pane.after svg');
+    await expect(after.locator('g.node.diagram-diff-added')).toContainText('Publish', { timeout: 10000 });
+    await expect(after.locator('g.node.diagram-diff-changed')).toContainText('Approve');
+    await expect(before.locator('g.node.diagram-diff-removed')).toContainText('Done');
+    await expect(before.locator('g.node.diagram-diff-changed')).toContainText('Review');
+
+    // 변경 목록
+    await expect(view.locator('.diagram-diff-change.changed')).toContainText('Review → Approve');
+    await expect(view.locator('.diagram-diff-count.added')).toContainText('added');
+
+    // 소스 diff 에디터
+    await expect(view.locator('.diagram-diff-source .monaco-diff-editor')).toBeVisible();
+
+    await window.keyboard.press('Escape');
+    await expect(view).toHaveCount(0);
+  });
+
+  test('파일 탐색기에서 고른 두 파일을 비교해야 함', async ({ window }) => {
+    await openExplorerContextMenuItem(window, 'flow.mmd', '비교 대상으로 선택');
+    await openExplorerContextMenuItem(window, 'flow-v2.mmd', "'flow.mmd'와 비교");
+
+    const view = window.locator('.diagram-diff-view');
+    await expect(view.locator('.diagram-diff-title')).toHaveText('flow.mmd ↔ flow-v2.mmd');
+    await expect(view.locator('.diagram-diff-pane.after svg g.node.diagram-diff-added')).toContainText('Publish', { timeout: 10000 });
+    await expect(view.locator('.diagram-diff-pane.before svg g.node.diagram-diff-removed')).toContainText('Done');
+  });
+
+  test('Git HEAD와 작업 사본을 비교해야 함', async ({ window }) => {
+    git(testWorkspace, 'init', '-q');
+    git(testWorkspace, 'add', 'flow.mmd');
+    git(testWorkspace, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'initial');
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), EDITED);
+
+    await openExplorerContextMenuItem(window, 'flow.mmd', 'Git HEAD와 비교');
+
+    const view = window.locator('.diagram-diff-view');
+    await expect(view.locator('.diagram-diff-title')).toContainText('HEAD ↔ Working Copy');
+    await expect(view.locator('.diagram-diff-pane.after svg g.node.diagram-diff-added')).toContainText('Publish', { timeout: 10000 });
+    await expect(view.locator('.diagram-diff-pane.before svg g.node.diagram-diff-removed')).toContainText('Done');
+  });
+
+  test('커밋되지 않은 파일은 Git HEAD 비교 시 오류를 알려야 함', async ({ window }) => {
+    git(testWorkspace, 'init', '-q');
+
+    const dialogPromise = window.waitForEvent('dialog');
+    await openExplorerContextMenuItem(window, 'flow.mmd', 'Git HEAD와 비교');
+    const dialog = await dialogPromise;
+    expect(dialog.message()).toContain('Cannot compare with Git HEAD');
+    await dialog.dismiss();
+
+    await expect(window.locator('.diagram-diff-view')).toHaveCount(0);
+  });
+
+  test('"-"로 시작하는 리비전은 git 옵션으로 전달하지 않아야 함', async ({ window }) => {
+    git(testWorkspace, 'init', '-q');
+    git(testWorkspace, 'add', 'flow.mmd');
+    git(testWorkspace, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'initial');
+
+    const result = await callIPC(window, 'git-show-file', path.join(testWorkspace, 'flow.mmd'), '--output=flow-leak.txt');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid revision');
+    await expect(fs.access(path.join(testWorkspace, 'flow-leak.txt'))).rejects.toThrow();
+  });
+});
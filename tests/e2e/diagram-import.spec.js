@@ -0,0 +1,150 @@
+/**
+ * 다이어그램 가져오기 E2E 테스트
+ * - File > Import… 로 선택한 draw.io / PlantUML / DOT 파일을 Mermaid로 변환해 새 탭으로 열어야 함
+ * - 변환하지 못한 항목은 탭 내용의 주석과 알림으로 보고해야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  getEditorContent
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const DOT_SOURCE = [
+  'digraph G {',
+  '  rankdir=LR;',
+  '  start [shape=circle];',
+  '  check [shape=diamond, label="OK?"];',
+  '  start -> check [style=dashed];',
+  '  check -> done [label="yes", weight=2];',
+  '}'
+].join('\n');
+
+const PLANTUML_SOURCE = [
+  '@startuml',
+  'actor User',
+  'participant "Auth Service" as Auth',
+  'User -> Auth : login',
+  'Auth --> User : token',
+  'skinparam monochrome true',
+  '@enduml'
+].join('\n');
+
+const DRAWIO_SOURCE = [
+  '<mxfile><diagram name="Page-1"><mxGraphModel><root>',
+  '<mxCell id="0"/><mxCell id="1" parent="0"/>',
+  '<mxCell id="a" value="Begin" style="rounded=1;" vertex="1" parent="1"><mxGeometry x="0" y="0" width="120" height="60" as="geometry"/></mxCell>',
+  '<mxCell id="b" value="Decide" style="rhombus;" vertex="1" parent="1"><mxGeometry x="0" y="200" width="80" height="80" as="geometry"/></mxCell>',
+  '<mxCell id="e" value="next" edge="1" parent="1" source="a" target="b"><mxGeometry relative="1" as="geometry"/></mxCell>',
+  '</root></mxGraphModel></diagram></mxfile>'
+].join('');
+
+/**
+ * 열기 다이얼로그를 모킹하고 File > Import… 메뉴 클릭
+ */
+async function importFiles(electronApp, filePaths) {
+  await electronApp.evaluate(({ dialog, Menu }, paths) => {
+    dialog.showOpenDialog = async () => ({ canceled: false, filePaths: paths });
+    const fileMenu = Menu.getApplicationMenu().items.find(item => item.label === 'File');
+    fileMenu.submenu.items.find(item => item.label === 'Import…').click();
+  }, filePaths);
+}
+
+test.describe('다이어그램 가져오기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await closeAllTabs(window);
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('Graphviz DOT 파일을 flowchart로 변환해 새 탭으로 열어야 함', async ({ window, electronApp }) => {
+    const dotPath = path.join(testWorkspace, 'flow.dot');
+    await fs.writeFile(dotPath, DOT_SOURCE);
+    const dialogPromise = window.waitForEvent('dialog');
+
+    await importFiles(electronApp, [dotPath]);
+    const dialog = await dialogPromise;
+    expect(dialog.message()).toContain('flow.dot: 1 item(s) not translated');
+    await dialog.dismiss();
+    await expect(window.locator('.tab-item.active:has-text("Untitled")')).toBeVisible();
+
+    const content = await getEditorContent(window);
+    expect(content).toContain('flowchart LR');
+    expect(content).toContain('%% Imported from flow.dot');
+    expect(content).toContain('start(("start"))');
+    expect(content).toContain('check{"OK?"}');
+    expect(content).toContain('start -.-> check');
+    expect(content).toContain('check -->|"yes"| done');
+    // weight는 변환하지 않음
+    expect(content).toContain('Attributes not translated: weight');
+  });
+
+  test('PlantUML과 draw.io 파일을 각각 새 탭으로 열어야 함', async ({ window, electronApp }) => {
+    const pumlPath = path.join(testWorkspace, 'login.puml');
+    const drawioPath = path.join(testWorkspace, 'process.drawio');
+    await fs.writeFile(pumlPath, PLANTUML_SOURCE);
+    await fs.writeFile(drawioPath, DRAWIO_SOURCE);
+
+    const initialTabCount = await window.locator('.tab-item').count();
+    await importFiles(electronApp, [pumlPath, drawioPath]);
+    await expect(window.locator('.tab-item')).toHaveCount(initialTabCount + 2);
+
+    // 마지막으로 연 draw.io 탭이 활성화됨
+    const drawioContent = await getEditorContent(window);
+    expect(drawioContent).toContain('flowchart TB');
+    expect(drawioContent).toContain('a("Begin")');
+    expect(drawioContent).toContain('b{"Decide"}');
+    expect(drawioContent).toContain('a -->|"next"| b');
+
+    await window.locator('.tab-item').nth(initialTabCount).click();
+    const sequenceContent = await getEditorContent(window);
+    expect(sequenceContent).toContain('sequenceDiagram');
+    expect(sequenceContent).toContain('participant Auth as Auth Service');
+    expect(sequenceContent).toContain('User->>Auth: login');
+    expect(sequenceContent).toContain('Auth-->>User: token');
+    expect(sequenceContent).toContain('"skinparam" statements (styling/layout) were not translated');
+  });
+
+  test('변환할 수 없는 파일은 탭을 열지 않고 오류를 알려야 함', async ({ window, electronApp }) => {
+    const brokenPath = path.join(testWorkspace, 'broken.dot');
+    await fs.writeFile(brokenPath, 'digraph {');
+    const initialTabCount = await window.locator('.tab-item').count();
+
+    const dialogPromise = window.waitForEvent('dialog');
+    await importFiles(electronApp, [brokenPath]);
+    const dialog = await dialogPromise;
+    expect(dialog.message()).toContain('Import failed');
+    expect(dialog.message()).toContain('broken.dot');
+    await dialog.dismiss();
+
+    await expect(window.locator('.tab-item')).toHaveCount(initialTabCount);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * 내보내기 옵션 다이얼로그 E2E 테스트
+ * - 형식별 옵션 표시
+ * - 워크스페이스별 옵션 저장/복원
+ * - Markdown 스니펫 이미지는 기존 파일을 덮어쓰지 않음
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { test: base, expect } = require('@playwright/test');
+const {
+  launchElectron,
+  forceCloseElectron,
+  waitForDiagramRender,
+  closeAllTabs,
+  createNewTab,
+  typeInEditor,
+  callAPI
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+test.describe('내보내기 옵션 다이얼로그', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await createNewTab(window);
+    await typeInEditor(window, 'graph TD\n  A[Start] --> B[End]');
+    await waitForDiagramRender(window);
+  });
+
+  test('PNG 버튼은 크기 옵션이 있는 다이얼로그를 열어야 함', async ({ window }) => {
+    await window.click('button[title="Export as PNG"]');
+
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toBeVisible();
+    await expect(dialog).toContainText('Export as PNG');
+    await expect(dialog).toContainText('Scale');
+    await expect(dialog).toContainText('Width (px)');
+    await expect(dialog).not.toContainText('Page size');
+
+    await dialog.locator('button:has-text("Cancel")').click();
+    await expect(dialog).toHaveCount(0);
+  });
+
+  test('PDF 다이얼로그는 용지 크기와 방향을 선택할 수 있어야 함', async ({ window }) => {
+    await window.click('button[title="Export as PDF"]');
+
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Page size');
+    await expect(dialog).toContainText('Orientation');
+
+    await window.click('.export-dialog-overlay');
+    await expect(dialog).toHaveCount(0);
+  });
+
+  test('SVG 다이얼로그에는 래스터 크기 옵션이 없어야 함', async ({ window }) => {
+    await window.click('button[title="Export as SVG"]');
+
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Background');
+    await expect(dialog).not.toContainText('Width (px)');
+
+    await dialog.locator('button:has-text("Cancel")').click();
+  });
+
+  test('More 메뉴에서 JPEG를 선택하면 품질 옵션이 표시되어야 함', async ({ window }) => {
+    await window.click('button[title="More export formats"]');
+    await window.click('.export-more-menu button:has-text("Export as JPEG")');
+
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Export as JPEG');
+    await expect(dialog).toContainText('Quality (%)');
+
+    await dialog.locator('button:has-text("Cancel")').click();
+    await expect(window.locator('.export-more-menu')).toHaveCount(0);
+  });
+
+  test('Markdown 스니펫은 이미지 형식을 선택할 수 있어야 함', async ({ window }) => {
+    await window.click('button[title="More export formats"]');
+    await window.click('.export-more-menu button:has-text("Markdown Snippet")');
+
+    const dialog = window.locator('.export-options-dialog');
+    await expect(dialog).toContainText('Image format');
+    await expect(dialog).not.toContainText('Quality (%)');
+
+    await dialog.locator('label:has-text("Image format") select').selectOption('webp');
+    await expect(dialog).toContainText('Quality (%)');
+
+    await dialog.locator('button:has-text("Cancel")').click();
+  });
+
+  test('Markdown 스니펫 이미지는 같은 이름의 파일을 덮어쓰지 않아야 함', async ({ window }) => {
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'mermaid-snippet-'));
+    try {
+      const imagePath = path.join(folder, 'diagram.png');
+      expect(await callAPI(window, 'getAvailableFilePath', imagePath)).toEqual({ success: true, filePath: imagePath });
+
+      fs.writeFileSync(imagePath, 'existing');
+      fs.writeFileSync(path.join(folder, 'diagram-1.png'), 'existing');
+      expect(await callAPI(window, 'getAvailableFilePath', imagePath)).toEqual({
+        success: true,
+        filePath: path.join(folder, 'diagram-2.png')
+      });
+    } finally {
+      fs.rmSync(folder, { recursive: true, force: true });
+    }
+  });
+
+  test('내보내기 옵션은 워크스페이스별로 저장되어야 함', async ({ window }) => {
+    const optionsA = { background: 'transparent', scale: 4, padding: 16 };
+    const optionsB = { pdfPageSize: 'a4', pdfOrientation: 'landscape' };
+
+    await callAPI(window, 'saveExportOptions', '/tmp/workspace-a', optionsA);
+    await callAPI(window, 'saveExportOptions', '/tmp/workspace-b', optionsB);
+
+    expect(await callAPI(window, 'getExportOptions', '/tmp/workspace-a')).toEqual(optionsA);
+    expect(await callAPI(window, 'getExportOptions', '/tmp/workspace-b')).toEqual(optionsB);
+    expect(await callAPI(window, 'getExportOptions', '/tmp/workspace-none')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Markdown front-matter E2E 테스트
+ * - 제목/작성자/날짜/상태/태그 문서 머리말 표시
+ * - mermaid: 설정을 문서 안의 모든 다이어그램에 적용
+ * - 필수 필드 누락 시 Problems 경고
+ * - title을 PDF 파일 이름으로 사용
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const DOCUMENT = [
+  '---',
+  'title: Payment Flow',
+  'authors: [Alice, Bob]',
+  'date: 2024-05-01',
+  'status: review',
+  'tags: [payments, architecture]',
+  'mermaid:',
+  '  theme: forest',
+  '---',
+  '',
+  '## Overview',
+  '',
+  '```mermaid',
+  'graph TD',
+  '  A --> B',
+  '```'
+].join('\n');
+
+const INCOMPLETE_DOCUMENT = [
+  '---',
+  'title: Draft Notes',
+  '---',
+  '',
+  '# Notes'
+].join('\n');
+
+test.describe('Markdown front-matter', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'payment.md'), DOCUMENT);
+    await fs.writeFile(path.join(testWorkspace, 'notes.md'), INCOMPLETE_DOCUMENT);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('front-matter를 문서 머리말로 표시해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'payment.md');
+
+    const header = window.locator('.markdown-content .front-matter-header');
+    await expect(header.locator('.front-matter-title')).toHaveText('Payment Flow');
+    await expect(header.locator('.front-matter-authors')).toHaveText('Alice, Bob');
+    await expect(header.locator('.front-matter-date')).toHaveText('2024-05-01');
+    await expect(header.locator('.front-matter-status')).toHaveText('review');
+    await expect(header.locator('.front-matter-tag')).toHaveText(['payments', 'architecture']);
+
+    // YAML 원문은 본문에 표시하지 않음
+    await expect(window.locator('.markdown-content')).not.toContainText('tags:');
+  });
+
+  test('mermaid 설정을 문서 안의 다이어그램에 적용해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'payment.md');
+
+    const svg = window.locator('.markdown-content .mermaid-diagram svg');
+    await expect(svg).toBeVisible({ timeout: 10000 });
+
+    // forest 테마의 노드 색상(녹색 계열)으로 렌더링
+    const fill = await svg.locator('.node rect').first().evaluate(el => getComputedStyle(el).fill);
+    expect(fill).toBe('rgb(205, 228, 152)');
+  });
+
+  test('필수 필드가 없으면 Problems에 경고를 표시해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'notes.md');
+
+    const problems = window.locator('.problems-panel .problem-item.warning');
+    await expect(problems).toHaveCount(2, { timeout: 3000 });
+    await expect(problems.nth(0)).toContainText('"authors"');
+    await expect(problems.nth(1)).toContainText('"date"');
+    await expect(window.locator('.problems-panel .problem-location').first()).toContainText('Ln 1');
+  });
+
+  test('PDF 파일 이름에 title을 사용해야 함', async ({ window, electronApp }) => {
+    await selectFileInTree(window, 'payment.md');
+    await expect(window.locator('.front-matter-title')).toHaveText('Payment Flow');
+
+    const pdfPath = path.join(testWorkspace, 'exported.pdf');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      global.__lastPdfDefaultPath = null;
+      dialog.showSaveDialog = async (_window, options) => {
+        global.__lastPdfDefaultPath = options.defaultPath;
+        return { canceled: false, filePath };
+      };
+    }, pdfPath);
+
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+    await window.click('.markdown-pdf-dialog .export-dialog-btn.primary');
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 15000 });
+
+    const defaultPath = await electronApp.evaluate(() => global.__lastPdfDefaultPath);
+    expect(path.basename(defaultPath)).toBe('Payment Flow.pdf');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * 단축키 설정 E2E 테스트
+ * - 명령 단축키를 바꾸면 바로 적용되고 저장되어야 함
+ * - 같은 키를 쓰는 명령은 충돌로 표시해야 함
+ * - 적용 조건(터미널 포커스 등)에 따라 단축키가 에디터/터미널로 전달되어야 함
+ * - 명령별/전체 기본값 복원
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createNewTab,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+test.describe('단축키 설정', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await callIPC(window, 'save-keybindings', {});
+  });
+
+  test.afterEach(async ({ window }) => {
+    if (await window.locator('.keybindings-editor').isVisible()) {
+      await window.click('.keybindings-editor-close-btn');
+    }
+    if (await window.locator('.terminal-panel').isVisible()) {
+      await window.click('.terminal-toggle-btn');
+    }
+    await callIPC(window, 'save-keybindings', {});
+  });
+
+  async function openKeybindingsEditor(window) {
+    await window.keyboard.press('Control+Shift+P');
+    await window.locator('.command-palette .quick-open-input').fill('keyboard shortcuts');
+    await window.keyboard.press('Enter');
+    const editor = window.locator('.keybindings-editor');
+    await expect(editor).toBeVisible();
+    return editor;
+  }
+
+  function commandRow(editor, commandId) {
+    return editor.locator(`.keybinding-row[data-command-id="${commandId}"]`);
+  }
+
+  async function recordKeybinding(window, row, keys) {
+    await row.locator('.keybinding-add-btn').click();
+    await expect(row.locator('.keybinding-recorder')).toBeFocused();
+    await window.keyboard.press(keys);
+  }
+
+  test('Ctrl+Shift+S는 다른 이름으로 저장이고 SVG 내보내기에는 기본 단축키가 없어야 함', async ({ window }) => {
+    const editor = await openKeybindingsEditor(window);
+
+    await expect(commandRow(editor, 'file.saveAs').locator('.keybinding-key')).toHaveText(/^(Ctrl|Cmd)\+Shift\+S$/);
+    await expect(commandRow(editor, 'export.svg').locator('.keybinding-key')).toHaveCount(0);
+    await expect(commandRow(editor, 'tabs.close').locator('.keybinding-when')).toHaveValue('!terminalFocus');
+  });
+
+  test('새 단축키를 추가하면 바로 실행되고 저장되어야 함', async ({ window }) => {
+    const editor = await openKeybindingsEditor(window);
+    const row = commandRow(editor, 'terminal.toggle');
+
+    await recordKeybinding(window, row, 'Control+Alt+T');
+    await expect(row.locator('.keybinding-key').last()).toHaveText('Ctrl+Alt+T');
+    await expect(row).toHaveClass(/customized/);
+
+    const saved = await callIPC(window, 'get-keybindings');
+    expect(saved['terminal.toggle'].map(binding => binding.key)).toContain('CmdOrCtrl+Alt+T');
+
+    await window.click('.keybindings-editor-close-btn');
+    await window.keyboard.press('Control+Alt+T');
+    await expect(window.locator('.terminal-panel')).toBeVisible();
+  });
+
+  test('같은 키를 쓰는 명령은 충돌로 표시해야 함', async ({ window }) => {
+    const editor = await openKeybindingsEditor(window);
+    const row = commandRow(editor, 'view.toggleOutline');
+
+    await recordKeybinding(window, row, 'Control+Shift+E');
+    await expect(row.locator('.keybinding-conflict')).toContainText('Export: Export as PNG');
+    await expect(commandRow(editor, 'export.png').locator('.keybinding-conflict')).toContainText('View: Toggle Outline');
+
+    // 조건이 겹치지 않으면 충돌 아님 (터미널 포커스 vs 터미널 외)
+    await callIPC(window, 'save-keybindings', {
+      'view.toggleOutline': [{ key: 'CmdOrCtrl+W', when: 'terminalFocus' }]
+    });
+    await expect(row.locator('.keybinding-key')).toHaveText(/^(Ctrl|Cmd)\+W$/);
+    await expect(row.locator('.keybinding-conflict')).toHaveCount(0);
+
+    await row.locator('.keybinding-remove-btn').click();
+    await expect(row.locator('.keybinding-key')).toHaveCount(0);
+  });
+
+  test('터미널에 포커스가 있으면 Ctrl+W로 탭을 닫지 않아야 함', async ({ window }) => {
+    await createNewTab(window);
+    await expect(window.locator('.tab-item')).toHaveCount(1);
+
+    await window.click('.terminal-toggle-btn');
+    await window.locator('.terminal-panel .xterm').click();
+    await window.keyboard.press('Control+w');
+    await expect(window.locator('.tab-item')).toHaveCount(1);
+
+    // 조건을 없애면 터미널에서도 탭을 닫음
+    await callIPC(window, 'save-keybindings', {
+      'tabs.close': [{ key: 'CmdOrCtrl+W' }]
+    });
+    await window.locator('.terminal-panel .xterm').click();
+    await window.keyboard.press('Control+w');
+    await expect(window.locator('.tab-item')).toHaveCount(0);
+  });
+
+  test('명령별, 전체 단축키를 기본값으로 되돌릴 수 있어야 함', async ({ window }) => {
+    const editor = await openKeybindingsEditor(window);
+    const paletteRow = commandRow(editor, 'view.commandPalette');
+    const terminalRow = commandRow(editor, 'terminal.toggle');
+
+    await paletteRow.locator('.keybinding-remove-btn').click();
+    await expect(paletteRow.locator('.keybinding-key')).toHaveCount(0);
+    await paletteRow.locator('.keybinding-reset-btn').click();
+    await expect(paletteRow.locator('.keybinding-key')).toHaveText(/^(Ctrl|Cmd)\+Shift\+P$/);
+    await expect(paletteRow).not.toHaveClass(/customized/);
+
+    await terminalRow.locator('.keybinding-remove-btn').first().click();
+    await paletteRow.locator('.keybinding-remove-btn').click();
+    expect(Object.keys(await callIPC(window, 'get-keybindings')).sort()).toEqual(['terminal.toggle', 'view.commandPalette']);
+
+    window.once('dialog', dialog => dialog.accept());
+    await editor.locator('.keybindings-editor-btn:has-text("Reset All to Defaults")').click();
+    await expect(editor.locator('.keybinding-row.customized')).toHaveCount(0);
+    expect(await callIPC(window, 'get-keybindings')).toEqual({});
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Markdown DOCX 내보내기 E2E 테스트
+ * - DOCX 버튼으로 Word 문서를 저장해야 함
+ * - Mermaid 다이어그램과 로컬 이미지는 PNG로 포함되어야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// 1x1 투명 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const DOCUMENT = [
+  '---',
+  'title: Release Notes',
+  'authors: [Alice]',
+  'date: 2024-05-01',
+  '---',
+  '',
+  '# Overview',
+  '',
+  'Some **bold** and `inline code`.',
+  '',
+  '![pixel](pixel.png)',
+  '',
+  '## Steps',
+  '',
+  '1. First',
+  '2. Second',
+  '   - Nested bullet',
+  '',
+  '> Quoted remark',
+  '',
+  '| Name | Value |',
+  '| :--- | ----: |',
+  '| a    | 1     |',
+  '',
+  '```js',
+  'const answer = 42;',
+  '```',
+  '',
+  '```mermaid',
+  'flowchart LR',
+  '  A --> B',
+  '```'
+].join('\n');
+
+test.describe('Markdown DOCX 내보내기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'notes.md'), DOCUMENT);
+    await fs.writeFile(path.join(testWorkspace, 'pixel.png'), PIXEL_PNG);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'notes.md');
+    await expect(window.locator('.front-matter-title')).toHaveText('Release Notes');
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('다이어그램과 이미지를 PNG로 포함한 DOCX를 내보내야 함', async ({ window, electronApp }) => {
+    const docxPath = path.join(testWorkspace, 'notes.docx');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      dialog.showSaveDialog = async () => ({ canceled: false, filePath });
+    }, docxPath);
+
+    await window.click('.markdown-preview button[title="Export as Word document"]');
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 20000 });
+
+    const docx = await fs.readFile(docxPath);
+    // DOCX는 ZIP 패키지 (파일 이름은 압축되지 않고 저장됨)
+    expect(docx.subarray(0, 2).toString()).toBe('PK');
+    const entries = docx.toString('latin1');
+    expect(entries).toContain('word/document.xml');
+    expect(entries).toContain('word/numbering.xml');
+    // 다이어그램 + 로컬 이미지
+    const images = new Set(entries.match(/word\/media\/[\w-]+\.png/g) || []);
+    expect(images.size).toBeGreaterThanOrEqual(2);
+  });
+
+  test('저장을 취소하면 파일을 만들지 않아야 함', async ({ window, electronApp }) => {
+    await electronApp.evaluate(({ dialog }) => {
+      dialog.showSaveDialog = async () => ({ canceled: true, filePath: undefined });
+    });
+
+    await window.click('.markdown-preview button[title="Export as Word document"]');
+    await expect(window.locator('.markdown-preview button[title="Export as Word document"]')).toBeEnabled();
+
+    const files = await fs.readdir(testWorkspace);
+    expect(files.some(file => file.endsWith('.docx'))).toBe(false);
+  });
+});
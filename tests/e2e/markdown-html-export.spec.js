@@ -0,0 +1,134 @@
+/**
+ * Markdown HTML 내보내기 E2E 테스트
+ * - 단일 HTML 파일에 스타일, 다이어그램 SVG, 로컬 이미지가 포함되어야 함
+ * - 자바스크립트 없이 열려야 함
+ * - 고정 목차는 옵션으로 포함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// 1x1 투명 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const DOCUMENT = [
+  '# Architecture',
+  '',
+  '![pixel](pixel.png)',
+  '',
+  '## Flow',
+  '',
+  '```mermaid',
+  'flowchart LR',
+  '  A[Client] --> B[Server]',
+  '```',
+  '',
+  '## Code',
+  '',
+  '```js',
+  'const answer = 42;',
+  '```',
+  '',
+  'Inline math $a^2 + b^2 = c^2$.'
+].join('\n');
+
+test.describe('Markdown HTML 내보내기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'doc.md'), DOCUMENT);
+    await fs.writeFile(path.join(testWorkspace, 'pixel.png'), PIXEL_PNG);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'doc.md');
+    await expect(window.locator('.markdown-content .mermaid-block svg')).toBeVisible({ timeout: 10000 });
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('스타일, 다이어그램, 이미지가 포함된 단일 HTML 파일을 내보내야 함', async ({ window, electronApp }) => {
+    const htmlPath = path.join(testWorkspace, 'doc.html');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      dialog.showSaveDialog = async () => ({ canceled: false, filePath });
+    }, htmlPath);
+
+    await window.click('.markdown-preview button[title="Export as HTML"]');
+    const dialog = window.locator('.markdown-html-dialog');
+    await expect(dialog).toBeVisible();
+    await dialog.locator('.export-dialog-btn.primary').click();
+
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 15000 });
+
+    const html = await fs.readFile(htmlPath, 'utf-8');
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toContain('<script');
+    expect(html).toContain('<style>');
+    // 다이어그램은 SVG로, 로컬 이미지는 Data URL로 포함
+    expect(html).toContain('<svg');
+    expect(html).toContain('src="data:image/png;base64,');
+    expect(html).not.toContain('mermaid-file:');
+    // 하이라이팅된 코드와 수식
+    expect(html).toContain('answer');
+    expect(html).toContain('class="katex"');
+    // 기본 옵션은 고정 목차 포함
+    expect(html).toContain('class="html-toc"');
+    expect(html).toContain('href="#flow"');
+    // 편집용 버튼과 소스 줄 속성은 제외
+    expect(html).not.toContain('<button');
+    expect(html).not.toContain('data-source-line');
+  });
+
+  test('목차 없이 내보낼 수 있어야 함', async ({ window, electronApp }) => {
+    const htmlPath = path.join(testWorkspace, 'no-toc.html');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      dialog.showSaveDialog = async () => ({ canceled: false, filePath });
+    }, htmlPath);
+
+    await window.click('.markdown-preview button[title="Export as HTML"]');
+    const dialog = window.locator('.markdown-html-dialog');
+    await dialog.getByLabel('Floating table of contents').uncheck();
+    await dialog.locator('.export-dialog-btn.primary').click();
+
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 15000 });
+
+    const html = await fs.readFile(htmlPath, 'utf-8');
+    expect(html).not.toContain('class="html-toc"');
+    expect(html).toContain('<svg');
+  });
+});
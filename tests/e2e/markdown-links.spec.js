@@ -0,0 +1,157 @@
+/**
+ * Markdown 미리보기 링크/이미지 E2E 테스트
+ * - 상대 경로 이미지 로드 (mermaid-file:// 프로토콜)
+ * - .md 상대 링크, 위키 링크 → 새 탭
+ * - #anchor 링크 → 미리보기 스크롤
+ * - 없는 파일 링크 → 오류 메시지
+ * - 워크스페이스/문서 폴더 밖의 파일(.. 경로, 밖을 가리키는 심볼릭 링크 포함)은 불러오지 않음
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const os = require('os');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// 1x1 투명 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+// 절대 경로 → mermaid-file:// URL (렌더러의 toLocalFileUrl과 같은 형식)
+function toLocalFileUrl(filePath) {
+  const normalized = filePath.replace(/\\/g, '/');
+  const rooted = normalized.startsWith('/') ? normalized : `/${normalized}`;
+  return `mermaid-file://local${rooted.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// 앵커 대상 제목이 화면 밖에 있고 맨 위까지 스크롤할 수 있도록 앞뒤에 긴 문단 추가
+const FILLER = Array.from({ length: 60 }, (_, i) => `Filler paragraph ${i + 1}.`).join('\n\n');
+
+const INDEX_DOCUMENT = [
+  '# Index',
+  '',
+  '![Pixel](./img/pixel.png)',
+  '',
+  '- [Other document](./notes/other.md)',
+  '- [[Wiki Page]]',
+  '- [Jump to details](#details-section)',
+  '- [Missing](./missing.md)',
+  '',
+  FILLER,
+  '',
+  '## Details Section',
+  '',
+  FILLER
+].join('\n');
+
+test.describe('Markdown 링크와 이미지', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.mkdir(path.join(testWorkspace, 'img'), { recursive: true });
+    await fs.mkdir(path.join(testWorkspace, 'notes'), { recursive: true });
+    await fs.writeFile(path.join(testWorkspace, 'img', 'pixel.png'), PIXEL_PNG);
+    await fs.writeFile(path.join(testWorkspace, 'index.md'), INDEX_DOCUMENT);
+    await fs.writeFile(path.join(testWorkspace, 'Wiki Page.md'), '# Wiki Page\n');
+    await fs.writeFile(path.join(testWorkspace, 'notes', 'other.md'), '# Other\n');
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'index.md');
+    await expect(window.locator('.markdown-content h1')).toHaveText('Index');
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('상대 경로 이미지를 디스크에서 불러와야 함', async ({ window }) => {
+    const image = window.locator('.markdown-content img[alt="Pixel"]');
+    await expect(image).toHaveAttribute('src', /^mermaid-file:\/\/local\/.*pixel\.png$/);
+    await expect.poll(() => image.evaluate(img => img.complete && img.naturalWidth)).toBe(1);
+  });
+
+  test('상대 경로 .md 링크를 새 탭으로 열어야 함', async ({ window }) => {
+    await window.click('.markdown-content a:has-text("Other document")');
+    await expect(window.locator('.tab-item.active')).toContainText('other.md');
+    await expect(window.locator('.markdown-content h1')).toHaveText('Other');
+  });
+
+  test('위키 링크를 새 탭으로 열어야 함', async ({ window }) => {
+    await window.click('.markdown-content a:has-text("Wiki Page")');
+    await expect(window.locator('.tab-item.active')).toContainText('Wiki Page.md');
+  });
+
+  test('#anchor 링크는 미리보기 안에서 스크롤해야 함', async ({ window }) => {
+    const tabCount = await window.locator('.tab-item').count();
+    await window.click('.markdown-content a:has-text("Jump to details")');
+
+    await expect.poll(() => window.evaluate(() => {
+      const container = document.querySelector('.markdown-content');
+      const heading = document.getElementById('details-section');
+      return Math.abs(heading.getBoundingClientRect().top - container.getBoundingClientRect().top) < 5;
+    })).toBe(true);
+    await expect(window.locator('.tab-item')).toHaveCount(tabCount);
+  });
+
+  test('없는 파일 링크는 오류를 표시해야 함', async ({ window }) => {
+    await window.click('.markdown-content a:has-text("Missing")');
+    await expect(window.locator('.markdown-toast-error')).toContainText('missing.md');
+  });
+
+  test('워크스페이스 밖의 파일은 불러오지 않아야 함', async ({ window }) => {
+    const outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mermaid-outside-'));
+    const secretPath = path.join(outsideDir, 'secret.png');
+    try {
+      await fs.writeFile(secretPath, PIXEL_PNG);
+      await fs.symlink(secretPath, path.join(testWorkspace, 'img', 'link.png'));
+
+      const fetchStatus = (filePath) => window.evaluate(async (url) => (await fetch(url)).status, toLocalFileUrl(filePath));
+      expect(await fetchStatus(path.join(testWorkspace, 'img', 'pixel.png'))).toBe(200);
+      expect(await fetchStatus(secretPath)).toBe(403);
+      expect(await fetchStatus(path.join(testWorkspace, 'img', 'link.png'))).toBe(403);
+
+      // 문서의 .. 상대 경로로 워크스페이스 밖을 가리키는 이미지
+      const relativeSecret = path.relative(testWorkspace, secretPath).split(path.sep).join('/');
+      await fs.writeFile(path.join(testWorkspace, 'outside.md'), `# Outside\n\n![Secret](${relativeSecret})\n`);
+      await selectFileInTree(window, 'outside.md');
+      await expect(window.locator('.markdown-content h1')).toHaveText('Outside');
+
+      const image = window.locator('.markdown-content img[alt="Secret"]');
+      await expect.poll(() => image.evaluate(img => img.complete)).toBe(true);
+      expect(await image.evaluate(img => img.naturalWidth)).toBe(0);
+    } finally {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    }
+  });
+});
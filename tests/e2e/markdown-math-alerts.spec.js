@@ -0,0 +1,111 @@
+/**
+ * Markdown 수식(KaTeX)과 알림(callout) E2E 테스트
+ * - $인라인$ / $$블록$$ 수식 렌더링
+ * - > [!NOTE] 등 GitHub 알림 렌더링
+ * - 일반 인용문은 그대로 유지
+ * - 수식/알림이 있는 문서의 PDF 내보내기
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const DOCUMENT = [
+  '# Design',
+  '',
+  'Energy is $E = mc^2$ in the rest frame.',
+  '',
+  '$$',
+  '\\sum_{i=1}^{n} i = \\frac{n(n+1)}{2}',
+  '$$',
+  '',
+  '> [!NOTE]',
+  '> Useful information.',
+  '',
+  '> [!WARNING]',
+  '> Breaking change ahead.',
+  '',
+  '> Just a quote.'
+].join('\n');
+
+test.describe('Markdown 수식과 알림', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'design.md'), DOCUMENT);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'design.md');
+    await expect(window.locator('.markdown-content h1')).toHaveText('Design');
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('인라인 수식과 블록 수식을 KaTeX로 렌더링해야 함', async ({ window }) => {
+    const content = window.locator('.markdown-content');
+    await expect(content.locator('p .katex')).toHaveCount(1);
+    await expect(content.locator('.katex-display')).toHaveCount(1);
+    await expect(content).not.toContainText('$$');
+    await expect(content.locator('.katex-error')).toHaveCount(0);
+  });
+
+  test('GitHub 알림을 제목이 있는 알림 블록으로 렌더링해야 함', async ({ window }) => {
+    const note = window.locator('.markdown-alert-note');
+    await expect(note.locator('.markdown-alert-title')).toContainText('Note');
+    await expect(note).toContainText('Useful information.');
+    await expect(note).not.toContainText('[!NOTE]');
+
+    await expect(window.locator('.markdown-alert-warning .markdown-alert-title')).toContainText('Warning');
+  });
+
+  test('알림 표시가 없는 인용문은 그대로 유지해야 함', async ({ window }) => {
+    await expect(window.locator('.markdown-content blockquote')).toHaveCount(1);
+    await expect(window.locator('.markdown-content blockquote')).toHaveText('Just a quote.');
+  });
+
+  test('수식과 알림이 있는 문서를 PDF로 내보낼 수 있어야 함', async ({ window, electronApp }) => {
+    const pdfPath = path.join(testWorkspace, 'design.pdf');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      dialog.showSaveDialog = async () => ({ canceled: false, filePath });
+    }, pdfPath);
+
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+    await window.click('.markdown-pdf-dialog .export-dialog-btn.primary');
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 15000 });
+
+    const header = (await fs.readFile(pdfPath)).subarray(0, 4).toString();
+    expect(header).toBe('%PDF');
+  });
+});
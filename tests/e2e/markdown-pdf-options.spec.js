@@ -0,0 +1,140 @@
+/**
+ * Markdown PDF 내보내기 옵션 E2E 테스트
+ * - PDF 버튼이 옵션 다이얼로그를 열어야 함
+ * - 용지/여백/머리글·바닥글/표지/목차 옵션으로 PDF 생성
+ * - 이름 있는 프리셋을 워크스페이스별로 저장/불러오기/삭제
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const DOCUMENT = [
+  '---',
+  'title: Storage Spec',
+  'authors: [Alice]',
+  'date: 2024-05-01',
+  '---',
+  '',
+  '# Introduction',
+  '',
+  'Scope of the document.',
+  '',
+  '## Requirements',
+  '',
+  'Everything must be numbered.',
+  '',
+  '# Design',
+  '',
+  'Details.'
+].join('\n');
+
+test.describe('Markdown PDF 내보내기 옵션', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'spec.md'), DOCUMENT);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'spec.md');
+    await expect(window.locator('.front-matter-title')).toHaveText('Storage Spec');
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('PDF 버튼은 옵션 다이얼로그를 열고 취소할 수 있어야 함', async ({ window }) => {
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+
+    const dialog = window.locator('.markdown-pdf-dialog');
+    await expect(dialog).toBeVisible();
+    await expect(dialog.locator('.markdown-pdf-margin input')).toHaveCount(4);
+
+    await dialog.locator('.export-dialog-btn.secondary', { hasText: 'Cancel' }).click();
+    await expect(dialog).not.toBeVisible();
+  });
+
+  test('표지, 목차, 쪽 번호가 있는 PDF를 내보낼 수 있어야 함', async ({ window, electronApp }) => {
+    const pdfPath = path.join(testWorkspace, 'spec.pdf');
+    await electronApp.evaluate(({ dialog }, filePath) => {
+      dialog.showSaveDialog = async () => ({ canceled: false, filePath });
+    }, pdfPath);
+
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+    const dialog = window.locator('.markdown-pdf-dialog');
+    await dialog.locator('select').nth(1).selectOption('Letter');
+    await dialog.getByLabel('Cover page').check();
+    await dialog.getByLabel('Table of contents').check();
+    await dialog.locator('.markdown-pdf-template').nth(1).fill('{title}||Page {page} of {pages}');
+    await dialog.locator('.export-dialog-btn.primary').click();
+
+    await expect(window.locator('.markdown-toast-success')).toBeVisible({ timeout: 15000 });
+
+    const pdf = await fs.readFile(pdfPath);
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF');
+    // 표지 + 목차 + 본문 = 최소 3쪽
+    const pageCount = (pdf.toString('latin1').match(/\/Type\s*\/Page[^s]/g) || []).length;
+    expect(pageCount).toBeGreaterThanOrEqual(3);
+
+    // 마지막 옵션은 워크스페이스별로 저장
+    const saved = await callIPC(window, 'get-markdown-pdf-settings', testWorkspace);
+    expect(saved.options.pageSize).toBe('Letter');
+    expect(saved.options.coverPage).toBe(true);
+    expect(saved.options.tableOfContents).toBe(true);
+  });
+
+  test('프리셋을 저장하고 다시 불러오고 삭제할 수 있어야 함', async ({ window }) => {
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+    const dialog = window.locator('.markdown-pdf-dialog');
+
+    await dialog.locator('select').nth(2).selectOption('landscape');
+    await dialog.locator('.markdown-pdf-preset-name').fill('Compliance');
+    await dialog.getByRole('button', { name: 'Save' }).click();
+    await dialog.locator('.export-dialog-btn.secondary', { hasText: 'Cancel' }).click();
+
+    const saved = await callIPC(window, 'get-markdown-pdf-settings', testWorkspace);
+    expect(saved.presets.map(preset => preset.name)).toEqual(['Compliance']);
+    expect(saved.presets[0].options.landscape).toBe(true);
+
+    // 다시 열면 마지막 옵션(세로)으로 시작하고, 프리셋 선택 시 가로로 바뀜
+    await window.click('.markdown-preview button[title="Export as PDF"]');
+    await expect(dialog.locator('select').nth(2)).toHaveValue('portrait');
+    await dialog.locator('.markdown-pdf-preset-select').selectOption('Compliance');
+    await expect(dialog.locator('select').nth(2)).toHaveValue('landscape');
+
+    await dialog.getByRole('button', { name: 'Delete' }).click();
+    await expect(dialog.locator('.markdown-pdf-preset-select option')).toHaveCount(1);
+    await dialog.locator('.export-dialog-btn.secondary', { hasText: 'Cancel' }).click();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Markdown 에디터 ↔ 미리보기 스크롤 동기화 E2E 테스트
+ * - 블록 요소에 소스 줄 기록
+ * - 에디터 스크롤 → 미리보기 스크롤
+ * - 미리보기 스크롤 → 에디터 스크롤
+ * - 블록 클릭 시 에디터 커서 이동
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const SECTION_COUNT = 40;
+
+// 섹션마다 제목 + 문단이 있는 긴 문서 (섹션 n의 제목은 (n-1)*4+1 줄)
+function buildLongDocument() {
+  const sections = [];
+  for (let i = 1; i <= SECTION_COUNT; i++) {
+    sections.push(`## Section ${i}\n\nParagraph for section ${i}.\n`);
+  }
+  return sections.join('\n');
+}
+
+// 에디터 화면 맨 위 줄
+async function getEditorTopLine(window) {
+  return window.evaluate(() => window.monaco?.editor?.getEditors()[0]?.getVisibleRanges()[0]?.startLineNumber);
+}
+
+// 에디터 커서 줄 번호 읽기
+async function getCursorLine(window) {
+  return window.evaluate(() => window.monaco?.editor?.getEditors()[0]?.getPosition()?.lineNumber);
+}
+
+// 미리보기 맨 위에 보이는 제목 텍스트
+async function getPreviewTopHeading(window) {
+  return window.evaluate(() => {
+    const container = document.querySelector('.markdown-content');
+    const top = container.getBoundingClientRect().top;
+    const headings = Array.from(container.querySelectorAll('h2'));
+    const visible = headings.find(heading => heading.getBoundingClientRect().bottom > top + 1);
+    return visible?.textContent;
+  });
+}
+
+test.describe('Markdown 스크롤 동기화', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'long.md'), buildLongDocument());
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await selectFileInTree(window, 'long.md');
+    await expect(window.locator('.markdown-content h2').first()).toBeVisible();
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('블록 요소에 소스 줄 번호가 기록되어야 함', async ({ window }) => {
+    await expect(window.locator('.markdown-content h2', { hasText: 'Section 1' }).first())
+      .toHaveAttribute('data-source-line', '1');
+    await expect(window.locator('.markdown-content h2', { hasText: 'Section 3' }))
+      .toHaveAttribute('data-source-line', '9');
+  });
+
+  test('에디터를 스크롤하면 미리보기가 같은 위치로 이동해야 함', async ({ window }) => {
+    // Section 21 제목 줄 = 81
+    await window.evaluate(() => {
+      const editor = window.monaco.editor.getEditors()[0];
+      editor.setScrollTop(editor.getTopForLineNumber(81));
+    });
+
+    await expect.poll(() => getPreviewTopHeading(window)).toBe('Section 21');
+  });
+
+  test('미리보기를 스크롤하면 에디터가 같은 위치로 이동해야 함', async ({ window }) => {
+    await window.evaluate(() => {
+      const container = document.querySelector('.markdown-content');
+      const heading = Array.from(container.querySelectorAll('h2')).find(h => h.textContent === 'Section 31');
+      container.scrollTop += heading.getBoundingClientRect().top - container.getBoundingClientRect().top;
+    });
+
+    // Section 31 제목 줄 = 121
+    await expect.poll(() => getEditorTopLine(window)).toBeGreaterThanOrEqual(120);
+    await expect.poll(() => getEditorTopLine(window)).toBeLessThanOrEqual(122);
+  });
+
+  test('블록 클릭 시 에디터 커서가 소스 줄로 이동해야 함', async ({ window }) => {
+    await window.locator('.markdown-content p', { hasText: 'Paragraph for section 5.' }).click();
+
+    // Section 5 문단 줄 = 19
+    await expect.poll(() => getCursorLine(window)).toBe(19);
+  });
+});
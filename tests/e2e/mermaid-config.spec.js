@@ -0,0 +1,104 @@
+/**
+ * Mermaid 설정 E2E 테스트
+ * - 워크스페이스 mermaid.config.json 읽기
+ * - 파일별 front-matter / %%{init}%% 테마 적용
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForDiagramRender,
+  closeAllTabs,
+  createNewTab,
+  typeInEditor,
+  callAPI
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// forest 테마의 기본 노드 색상
+const FOREST_PRIMARY_COLOR = '#cde498';
+
+// 렌더링된 SVG의 스타일 텍스트
+async function getDiagramStyle(window) {
+  return window.locator('.diagram-container svg style').first().textContent();
+}
+
+test.describe('워크스페이스 Mermaid 설정 파일', () => {
+  let testWorkspace;
+
+  test.beforeEach(async () => {
+    testWorkspace = await createTestWorkspace();
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('설정 파일이 없으면 config가 null', async ({ window }) => {
+    const result = await callAPI(window, 'getWorkspaceMermaidConfig', testWorkspace);
+
+    expect(result.success).toBe(true);
+    expect(result.config).toBeNull();
+  });
+
+  test('mermaid.config.json 내용을 읽어야 함', async ({ window }) => {
+    const config = { theme: 'forest', flowchart: { curve: 'linear' } };
+    await fs.writeFile(path.join(testWorkspace, 'mermaid.config.json'), JSON.stringify(config));
+
+    const result = await callAPI(window, 'getWorkspaceMermaidConfig', testWorkspace);
+
+    expect(result.success).toBe(true);
+    expect(result.config).toEqual(config);
+  });
+
+  test('잘못된 JSON은 오류로 보고', async ({ window }) => {
+    await fs.writeFile(path.join(testWorkspace, 'mermaid.config.json'), '{ theme: ');
+
+    const result = await callAPI(window, 'getWorkspaceMermaidConfig', testWorkspace);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
+
+test.describe('파일별 Mermaid 설정', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await createNewTab(window);
+  });
+
+  test('front-matter 테마가 미리보기에 적용되어야 함', async ({ window }) => {
+    await typeInEditor(window, '---\nconfig:\n  theme: forest\n---\ngraph TD\n  A --> B');
+    await waitForDiagramRender(window);
+
+    await expect.poll(() => getDiagramStyle(window)).toContain(FOREST_PRIMARY_COLOR);
+  });
+
+  test('%%{init}%% 지시자 테마가 미리보기에 적용되어야 함', async ({ window }) => {
+    await typeInEditor(window, '%%{init: {"theme": "forest"}}%%\ngraph TD\n  A --> B');
+    await waitForDiagramRender(window);
+
+    await expect.poll(() => getDiagramStyle(window)).toContain(FOREST_PRIMARY_COLOR);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * 아웃라인 패널 E2E 테스트
+ * - Markdown 제목 목록 (코드 블록 안의 # 제외)
+ * - 항목 클릭 시 에디터 커서 이동
+ * - 하위 항목 접기
+ * - Mermaid 서브그래프/참여자 목록
+ * - 입력 시 실시간 갱신
+ * - 표시 여부 저장
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createNewTab,
+  typeInEditor,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callAPI,
+  callIPC
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const MARKDOWN_DOCUMENT = [
+  '# Guide',
+  '',
+  'Intro paragraph.',
+  '',
+  '## Install',
+  '',
+  '```bash',
+  '# not a heading',
+  'npm install',
+  '```',
+  '',
+  '### From source',
+  '',
+  'Build steps.',
+  '',
+  '## Usage',
+  '',
+  'Usage notes.'
+].join('\n');
+
+// 아웃라인 패널이 열려 있도록 보장
+async function showOutline(window) {
+  if (!(await window.locator('.outline-panel').isVisible())) {
+    await window.click('.outline-toggle-btn');
+  }
+  await expect(window.locator('.outline-panel')).toBeVisible();
+}
+
+// 에디터 커서 줄 번호 읽기
+async function getCursorLine(window) {
+  return window.evaluate(() => window.monaco?.editor?.getEditors()[0]?.getPosition()?.lineNumber);
+}
+
+test.describe('아웃라인 패널', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'guide.md'), MARKDOWN_DOCUMENT);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  test('Markdown 제목을 순서대로 표시해야 함 (코드 블록 제외)', async ({ window }) => {
+    await selectFileInTree(window, 'guide.md');
+    await showOutline(window);
+
+    const labels = window.locator('.outline-item .outline-label');
+    await expect(labels).toHaveText(['Guide', 'Install', 'From source', 'Usage']);
+  });
+
+  test('항목 클릭 시 에디터 커서가 해당 줄로 이동해야 함', async ({ window }) => {
+    await selectFileInTree(window, 'guide.md');
+    await showOutline(window);
+
+    await window.click('.outline-item:has-text("From source")');
+    await expect.poll(() => getCursorLine(window)).toBe(12);
+
+    await window.click('.outline-item:has-text("Usage")');
+    await expect.poll(() => getCursorLine(window)).toBe(16);
+    await expect(window.locator('.outline-item.active .outline-label')).toHaveText('Usage');
+  });
+
+  test('하위 항목을 접고 펼칠 수 있어야 함', async ({ window }) => {
+    await selectFileInTree(window, 'guide.md');
+    await showOutline(window);
+
+    const install = window.locator('.outline-item:has-text("Install")');
+    await install.locator('.outline-toggle').click();
+    await expect(window.locator('.outline-item:has-text("From source")')).toHaveCount(0);
+
+    await install.locator('.outline-toggle').click();
+    await expect(window.locator('.outline-item:has-text("From source")')).toHaveCount(1);
+  });
+
+  test('Mermaid flowchart의 서브그래프를 중첩 표시해야 함', async ({ window }) => {
+    await createNewTab(window);
+    await typeInEditor(window, [
+      'graph TD',
+      '  subgraph backend [Backend]',
+      '    subgraph db [Database]',
+      '      A --> B',
+      '    end',
+      '  end',
+      '  subgraph frontend',
+      '    C --> D',
+      '  end'
+    ].join('\n'));
+    await showOutline(window);
+
+    const labels = window.locator('.outline-item .outline-label');
+    await expect(labels).toHaveText(['Backend', 'Database', 'frontend']);
+
+    const indents = await window.locator('.outline-item.subgraph').evaluateAll(items =>
+      items.map(item => parseInt(item.style.paddingLeft, 10))
+    );
+    expect(indents[1]).toBeGreaterThan(indents[0]);
+    expect(indents[2]).toBe(indents[0]);
+  });
+
+  test('Mermaid sequence의 참여자를 표시해야 함', async ({ window }) => {
+    await createNewTab(window);
+    await typeInEditor(window, [
+      'sequenceDiagram',
+      '  participant A as Alice',
+      '  A->>Bob: Hello',
+      '  Bob-->>Carol: Forward'
+    ].join('\n'));
+    await showOutline(window);
+
+    await expect(window.locator('.outline-item .outline-label')).toHaveText(['Alice', 'Bob', 'Carol']);
+  });
+
+  test('입력하면 아웃라인이 갱신되어야 함', async ({ window }) => {
+    await createNewTab(window);
+    await typeInEditor(window, 'classDiagram\n  class Animal');
+    await showOutline(window);
+    await expect(window.locator('.outline-item .outline-label')).toHaveText(['Animal']);
+
+    await typeInEditor(window, 'classDiagram\n  class Animal\n  Animal <|-- Duck');
+    await expect(window.locator('.outline-item .outline-label')).toHaveText(['Animal', 'Duck']);
+  });
+
+  test('토글 상태가 레이아웃 설정에 저장되어야 함', async ({ window }) => {
+    await selectFileInTree(window, 'guide.md');
+    await showOutline(window);
+    await expect.poll(async () => (await callAPI(window, 'getLayoutSettings'))?.outlineVisible).toBe(true);
+
+    await window.click('.outline-close-btn');
+    await expect(window.locator('.outline-panel')).toHaveCount(0);
+    await expect(window.locator('.outline-toggle-btn')).not.toHaveClass(/active/);
+    await expect.poll(async () => (await callAPI(window, 'getLayoutSettings'))?.outlineVisible).toBe(false);
+  });
+});
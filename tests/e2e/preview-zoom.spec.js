@@ -0,0 +1,107 @@
+/**
+ * 미리보기 확대/이동 E2E 테스트
+ * - 확대/축소 버튼, 1:1 복원
+ * - 마우스 휠 확대
+ * - 드래그 이동
+ * - 탭별 확대 상태 유지
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const {
+  launchElectron,
+  forceCloseElectron,
+  waitForDiagramRender,
+  closeAllTabs,
+  createNewTab,
+  typeInEditor
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// 현재 확대 배율(%) 읽기
+async function getZoomLevel(window) {
+  const text = await window.locator('.zoom-controls .zoom-level').textContent();
+  return parseInt(text, 10);
+}
+
+test.describe('미리보기 확대/이동', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await createNewTab(window);
+    await typeInEditor(window, 'graph TD\n  A[Start] --> B[Middle] --> C[End]');
+    await waitForDiagramRender(window);
+  });
+
+  test('확대/맞춤 컨트롤이 표시되어야 함', async ({ window }) => {
+    await expect(window.locator('.zoom-controls')).toBeVisible();
+    await expect(window.locator('.zoom-controls .zoom-btn')).toHaveCount(5);
+  });
+
+  test('확대 버튼 클릭 시 배율 증가, 1:1 버튼으로 복원', async ({ window }) => {
+    await window.click('.zoom-btn[title="Actual Size (1:1)"]');
+    expect(await getZoomLevel(window)).toBe(100);
+
+    await window.click('.zoom-btn[title="Zoom In"]');
+    expect(await getZoomLevel(window)).toBeGreaterThan(100);
+
+    await window.click('.zoom-btn[title="Actual Size (1:1)"]');
+    expect(await getZoomLevel(window)).toBe(100);
+  });
+
+  test('마우스 휠로 확대/축소', async ({ window }) => {
+    await window.click('.zoom-btn[title="Actual Size (1:1)"]');
+
+    const viewport = window.locator('.diagram-viewport');
+    await viewport.hover();
+    await window.mouse.wheel(0, -200);
+
+    await expect.poll(() => getZoomLevel(window)).toBeGreaterThan(100);
+  });
+
+  test('드래그로 다이어그램 이동', async ({ window }) => {
+    const container = window.locator('.diagram-container');
+    const before = await container.evaluate(el => el.style.transform);
+
+    const box = await window.locator('.diagram-viewport').boundingBox();
+    await window.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
+    await window.mouse.down();
+    await window.mouse.move(box.x + box.width / 2 + 80, box.y + box.height / 2 + 40, { steps: 5 });
+    await window.mouse.up();
+
+    const after = await container.evaluate(el => el.style.transform);
+    expect(after).not.toBe(before);
+  });
+
+  test('탭 전환 후에도 탭별 확대 배율 유지', async ({ window }) => {
+    await window.click('.zoom-btn[title="Actual Size (1:1)"]');
+    await window.click('.zoom-btn[title="Zoom In"]');
+    await window.click('.zoom-btn[title="Zoom In"]');
+    const zoomedLevel = await getZoomLevel(window);
+
+    // 저장 디바운스 대기 후 다른 탭으로 전환했다가 복귀
+    await window.waitForTimeout(600);
+    await createNewTab(window);
+    await waitForDiagramRender(window);
+
+    const tabs = await window.locator('.tab-item').all();
+    await tabs[0].click();
+    await waitForDiagramRender(window);
+
+    expect(await getZoomLevel(window)).toBe(zoomedLevel);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * 빠른 파일 열기 (Ctrl/Cmd+P) E2E 테스트
+ * - 펼치지 않은 하위 폴더를 포함해 워크스페이스 전체 파일을 퍼지 매칭으로 찾아야 함
+ * - .gitignore로 무시된 파일은 표시하지 않아야 함
+ * - 최근 파일을 우선 표시해야 함
+ * - 새로 만들거나 삭제한 파일이 인덱스에 반영되어야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  callIPC,
+  getEditorContent
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const ORDER_FLOW = 'flowchart TD\n  A[Order] --> B[Payment]';
+
+test.describe('빠른 파일 열기', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.mkdir(path.join(testWorkspace, 'docs', 'api'), { recursive: true });
+    await fs.mkdir(path.join(testWorkspace, 'build'), { recursive: true });
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'api', 'order-flow.mmd'), ORDER_FLOW);
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'api', 'payment.mmd'), 'sequenceDiagram\n  A->>B: pay');
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'overview.md'), '# Overview');
+    await fs.writeFile(path.join(testWorkspace, 'build', 'generated.mmd'), 'flowchart LR\n  A --> B');
+    await fs.writeFile(path.join(testWorkspace, 'scratch.mmd'), 'flowchart LR\n  X --> Y');
+    await fs.writeFile(path.join(testWorkspace, '.gitignore'), 'build/\nscratch.mmd\n');
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async ({ window }) => {
+    if (await window.locator('.quick-open').isVisible()) {
+      await window.keyboard.press('Escape');
+    }
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  async function openQuickOpen(window) {
+    await window.keyboard.press('Control+p');
+    const palette = window.locator('.quick-open');
+    await expect(palette).toBeVisible();
+    await expect(palette.locator('.quick-open-input')).toBeFocused();
+    return palette;
+  }
+
+  test('Ctrl+P로 하위 폴더 파일을 퍼지 매칭해 열어야 함', async ({ window }) => {
+    const palette = await openQuickOpen(window);
+    await palette.locator('.quick-open-input').fill('ordflow');
+
+    const first = palette.locator('.quick-open-item').first();
+    await expect(first.locator('.quick-open-name')).toHaveText('order-flow.mmd');
+    await expect(first.locator('.quick-open-folder')).toHaveText('docs/api');
+    await expect(first.locator('.quick-open-highlight').first()).toBeVisible();
+
+    await window.keyboard.press('Enter');
+    await expect(palette).toBeHidden();
+    await expect(window.locator('.tab-item.active')).toContainText('order-flow.mmd');
+    expect(await getEditorContent(window)).toBe(ORDER_FLOW);
+  });
+
+  test('.gitignore로 무시된 파일은 표시하지 않아야 함', async ({ window }) => {
+    const palette = await openQuickOpen(window);
+    const input = palette.locator('.quick-open-input');
+
+    await input.fill('generated');
+    await expect(palette.locator('.quick-open-message')).toHaveText('No matching files');
+
+    await input.fill('scratch');
+    await expect(palette.locator('.quick-open-message')).toHaveText('No matching files');
+
+    await input.fill('overview');
+    await expect(palette.locator('.quick-open-item')).toHaveCount(1);
+  });
+
+  test('최근 파일을 먼저 표시해야 함', async ({ window }) => {
+    // 파일을 읽으면 최근 파일 목록에 추가됨
+    await callIPC(window, 'read-file', path.join(testWorkspace, 'docs', 'api', 'payment.mmd'));
+
+    const palette = await openQuickOpen(window);
+    const first = palette.locator('.quick-open-item').first();
+    await expect(first.locator('.quick-open-name')).toHaveText('payment.mmd');
+    await expect(first.locator('.quick-open-recent')).toBeVisible();
+
+    // 검색어가 있어도 최근 파일 가산점 적용
+    await palette.locator('.quick-open-input').fill('m');
+    await expect(palette.locator('.quick-open-item').first().locator('.quick-open-name')).toHaveText('payment.mmd');
+  });
+
+  test('Escape와 바깥 클릭으로 닫혀야 함', async ({ window }) => {
+    let palette = await openQuickOpen(window);
+    await window.keyboard.press('Escape');
+    await expect(palette).toBeHidden();
+
+    palette = await openQuickOpen(window);
+    await window.locator('.quick-open-overlay').click({ position: { x: 5, y: 5 } });
+    await expect(palette).toBeHidden();
+  });
+
+  test('새로 만들거나 삭제한 파일이 인덱스에 반영되어야 함', async ({ window }) => {
+    // 인덱스 생성
+    let palette = await openQuickOpen(window);
+    await expect(palette.locator('.quick-open-item')).toHaveCount(3);
+    await window.keyboard.press('Escape');
+
+    await fs.mkdir(path.join(testWorkspace, 'docs', 'new'), { recursive: true });
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'new', 'shipping.mmd'), 'flowchart LR\n  S --> T');
+    await fs.rm(path.join(testWorkspace, 'docs', 'overview.md'));
+
+    // 변경 이벤트는 잠시 후 반영되므로 팔레트를 다시 열며 확인
+    await expect(async () => {
+      palette = await openQuickOpen(window);
+      await palette.locator('.quick-open-input').fill('shipping');
+      await window.waitForTimeout(200);
+      const count = await palette.locator('.quick-open-item').count();
+      await window.keyboard.press('Escape');
+      expect(count).toBe(1);
+    }).toPass({ timeout: 5000 });
+
+    palette = await openQuickOpen(window);
+    await palette.locator('.quick-open-input').fill('overview');
+    await expect(palette.locator('.quick-open-message')).toHaveText('No matching files');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 소스 컨트롤(git) E2E 테스트
+ * - 파일 탐색기에 변경/추가/추적하지 않는 파일 상태를 표시해야 함
+ * - 에디터에 HEAD 대비 줄 변경 거터를 표시해야 함 (맨 앞 줄 삭제는 1번 줄 위쪽)
+ * - 소스 컨트롤 패널에서 스테이징 후 커밋할 수 있어야 함
+ * - 파일 히스토리의 이전 리비전을 읽기 전용 탭으로 열어야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const { execFileSync } = require('child_process');
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC,
+  typeInEditor,
+  getEditorContent
+} = require('../helpers/electron-helpers');
+const { computeLineChanges } = require('../../src/renderer/utils/lineDiff');
+const { isInsideRepository } = require('../../src/renderer/utils/gitDecorations');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const ORIGINAL = [
+  'flowchart TD',
+  '  A[Start] --> B[Review]',
+  '  B --> C[Done]'
+].join('\n');
+
+const EDITED = [
+  'flowchart TD',
+  '  A[Start] --> B[Approve]',
+  '  B --> C[Done]'
+].join('\n');
+
+function git(cwd, ...args) {
+  return execFileSync('git', args, { cwd, stdio: 'pipe', encoding: 'utf8' });
+}
+
+test.describe('소스 컨트롤', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), ORIGINAL);
+
+    git(testWorkspace, 'init', '-q');
+    git(testWorkspace, 'config', 'user.name', 'Test');
+    git(testWorkspace, 'config', 'user.email', 'test@example.com');
+    git(testWorkspace, 'add', 'flow.mmd');
+    git(testWorkspace, 'commit', '-q', '-m', 'Add flow');
+
+    await closeAllTabs(window);
+  });
+
+  test.afterEach(async () => {
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  async function openWorkspace(window) {
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+    await expect(window.locator('.source-control-panel')).toBeVisible({ timeout: 5000 });
+  }
+
+  test('파일 탐색기에 git 상태를 표시해야 함', async ({ window }) => {
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), EDITED);
+    await fs.writeFile(path.join(testWorkspace, 'new.mmd'), 'graph LR\n  X --> Y');
+    await openWorkspace(window);
+
+    const modified = window.locator('.tree-item.file.git-modified:has-text("flow.mmd")');
+    await expect(modified.locator('.git-status-badge')).toHaveText('M');
+    const untracked = window.locator('.tree-item.file.git-untracked:has-text("new.mmd")');
+    await expect(untracked.locator('.git-status-badge')).toHaveText('U');
+
+    // 패널 변경 목록
+    await expect(window.locator('.scm-change')).toHaveCount(2);
+  });
+
+  test('에디터에 HEAD 대비 변경 거터를 표시해야 함', async ({ window }) => {
+    await openWorkspace(window);
+    await selectFileInTree(window, 'flow.mmd');
+
+    await expect(window.locator('.editor-body .git-gutter-modified')).toHaveCount(0);
+
+    await typeInEditor(window, EDITED + '\n  C --> D[Publish]');
+    await expect(window.locator('.editor-body .git-gutter-modified')).toHaveCount(1);
+    await expect(window.locator('.editor-body .git-gutter-added')).toHaveCount(1);
+  });
+
+  test('변경을 스테이징하고 커밋해야 함', async ({ window }) => {
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), EDITED);
+    await openWorkspace(window);
+
+    const panel = window.locator('.source-control-panel');
+    const change = panel.locator('.scm-change:has-text("flow.mmd")');
+    await change.hover();
+    await change.locator('button[title="Stage"]').click();
+    await expect(panel.locator('.scm-group-title:has-text("Staged Changes")')).toBeVisible();
+
+    await panel.locator('.scm-message').fill('Rename review step');
+    await panel.locator('.scm-message').press('Control+Enter');
+
+    await expect(panel.locator('.scm-empty')).toHaveText('No changes');
+    expect(git(testWorkspace, 'log', '-1', '--format=%s').trim()).toBe('Rename review step');
+  });
+
+  test('파일 히스토리에서 이전 리비전을 읽기 전용 탭으로 열어야 함', async ({ window }) => {
+    await fs.writeFile(path.join(testWorkspace, 'flow.mmd'), EDITED);
+    git(testWorkspace, 'commit', '-q', '-am', 'Rename review step');
+    await openWorkspace(window);
+
+    await window.locator('.tree-item.file:has-text("flow.mmd")').click({ button: 'right' });
+    await window.locator('.context-menu .context-menu-item:has-text("파일 히스토리")').click();
+
+    const commits = window.locator('.scm-commit');
+    await expect(commits).toHaveCount(2);
+    await expect(commits.first()).toContainText('Rename review step');
+
+    await commits.nth(1).click();
+    const shortHash = git(testWorkspace, 'rev-parse', '--short', 'HEAD~1').trim();
+    await expect(window.locator(`.tab-item.active:has-text("flow.mmd @ ${shortHash}")`)).toBeVisible();
+    await expect(window.locator('.editor-readonly-badge')).toBeVisible();
+    expect(await getEditorContent(window)).toBe(ORIGINAL);
+  });
+});
+
+test.describe('줄 변경 계산', () => {
+  test('첫 줄 삭제는 1번 줄 위쪽 삭제로 표시해야 함', () => {
+    expect(computeLineChanges(ORIGINAL, ORIGINAL.split('\n').slice(1).join('\n'))).toEqual([
+      { type: 'deleted', startLineNumber: 1, endLineNumber: 1, aboveStartLine: true }
+    ]);
+  });
+
+  test('중간 줄 삭제는 바로 위 줄 아래쪽에 표시해야 함', () => {
+    const lines = ORIGINAL.split('\n');
+    expect(computeLineChanges(ORIGINAL, [lines[0], lines[2]].join('\n'))).toEqual([
+      { type: 'deleted', startLineNumber: 1, endLineNumber: 1 }
+    ]);
+  });
+
+  test('이름이 비슷한 다른 저장소의 파일은 저장소 안으로 보지 않아야 함', () => {
+    expect(isInsideRepository('/repo/flow.mmd', '/repo')).toBe(true);
+    expect(isInsideRepository('C:\\repo\\flow.mmd', 'C:\\repo')).toBe(true);
+    expect(isInsideRepository('/repo2/flow.mmd', '/repo')).toBe(false);
+    expect(isInsideRepository('/repo', '/repo')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * 미리보기 ↔ 에디터 소스 이동 E2E 테스트
+ * - 노드/엣지/서브그래프/참여자 클릭 시 에디터 정의 줄로 이동
+ * - 에디터 커서 줄에 대응하는 미리보기 요소 강조
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const {
+  launchElectron,
+  forceCloseElectron,
+  waitForDiagramRender,
+  closeAllTabs,
+  createNewTab,
+  typeInEditor
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+// 에디터 커서 줄 번호 읽기
+async function getCursorLine(window) {
+  return window.evaluate(() => window.monaco?.editor?.getEditors()[0]?.getPosition()?.lineNumber);
+}
+
+// 에디터 커서를 지정한 줄로 이동
+async function setCursorLine(window, lineNumber) {
+  await window.evaluate((line) => {
+    const editor = window.monaco?.editor?.getEditors()[0];
+    editor?.setPosition({ lineNumber: line, column: 1 });
+  }, lineNumber);
+}
+
+test.describe('미리보기 → 에디터 이동', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await createNewTab(window);
+  });
+
+  test('flowchart 노드 클릭 시 정의 줄로 이동', async ({ window }) => {
+    await typeInEditor(window, 'graph TD\n  A --> B\n  B[Second] --> C\n  C --> A');
+    await waitForDiagramRender(window);
+
+    await window.locator('.diagram-container g.node[data-source-line]', { hasText: 'Second' }).click();
+
+    await expect.poll(() => getCursorLine(window)).toBe(3);
+  });
+
+  test('서브그래프 클릭 시 subgraph 줄로 이동', async ({ window }) => {
+    await typeInEditor(window, 'flowchart LR\n  X --> Y\n  subgraph group1\n    Y --> Z\n  end');
+    await waitForDiagramRender(window);
+
+    const cluster = window.locator('.diagram-container g.cluster[data-source-line]');
+    await expect(cluster).toHaveAttribute('data-source-line', '3');
+  });
+
+  test('sequence 참여자와 메시지에 소스 줄 기록', async ({ window }) => {
+    await typeInEditor(window, 'sequenceDiagram\n  participant Alice\n  participant Bob\n  Alice->>Bob: Hello');
+    await waitForDiagramRender(window);
+
+    await expect(window.locator('.diagram-container [name="Bob"][data-source-line="3"]').first()).toBeAttached();
+    await expect(window.locator('.diagram-container .messageText[data-source-line="4"]')).toBeAttached();
+  });
+});
+
+test.describe('에디터 → 미리보기 강조', () => {
+  test.beforeEach(async ({ window }) => {
+    await closeAllTabs(window);
+    await createNewTab(window);
+    await typeInEditor(window, 'graph TD\n  A[Start] --> B[End]\n  B --> C[Done]');
+    await waitForDiagramRender(window);
+  });
+
+  test('커서 줄의 노드와 엣지가 강조되어야 함', async ({ window }) => {
+    await setCursorLine(window, 3);
+
+    const highlighted = window.locator('.diagram-container .source-highlight');
+    await expect(highlighted.first()).toBeAttached();
+
+    const sourceLines = await highlighted.evaluateAll(elements => (
+      elements.map(element => element.getAttribute('data-source-lines'))
+    ));
+    sourceLines.forEach(lines => expect(lines.split(' ')).toContain('3'));
+  });
+});
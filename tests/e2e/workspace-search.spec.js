@@ -0,0 +1,178 @@
+/**
+ * 워크스페이스 검색/바꾸기 E2E 테스트
+ * - 불러오지 않은 하위 폴더를 포함해 워크스페이스 전체 파일 내용을 검색해야 함
+ * - 대소문자/단어 단위/정규식 토글과 include/exclude glob을 적용해야 함
+ * - 검색 결과를 클릭하면 해당 위치에서 파일을 열어야 함
+ * - 미리보기 후 모두 바꾸기, 저장하지 않은 파일은 건너뛰어야 함
+ */
+
+const { test: base, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs').promises;
+const {
+  launchElectron,
+  forceCloseElectron,
+  closeAllTabs,
+  createTestWorkspace,
+  cleanupTestWorkspace,
+  waitForFileExplorer,
+  selectFileInTree,
+  callIPC,
+  typeInEditor,
+  getEditorContent
+} = require('../helpers/electron-helpers');
+
+// Custom fixture for Electron app
+const test = base.extend({
+  app: [async ({}, use) => {
+    const result = await launchElectron();
+    await use({ electronApp: result.app, window: result.window });
+    await forceCloseElectron(result.app);
+  }, { scope: 'worker' }],
+
+  window: async ({ app }, use) => {
+    await use(app.window);
+  },
+
+  electronApp: async ({ app }, use) => {
+    await use(app.electronApp);
+  }
+});
+
+const ORDERS = [
+  'flowchart TD',
+  '  A[OrderService] --> B[PaymentService]',
+  '  B --> C[orderservice cache]'
+].join('\n');
+
+const BILLING = [
+  'sequenceDiagram',
+  '  OrderService->>Billing: charge'
+].join('\n');
+
+const ARCHIVED = 'flowchart LR\n  OrderService --> Legacy';
+
+test.describe('워크스페이스 검색', () => {
+  let testWorkspace;
+
+  test.beforeEach(async ({ window }) => {
+    testWorkspace = await createTestWorkspace();
+    await fs.writeFile(path.join(testWorkspace, 'orders.mmd'), ORDERS);
+    await fs.mkdir(path.join(testWorkspace, 'docs', 'archive'), { recursive: true });
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'billing.mmd'), BILLING);
+    await fs.writeFile(path.join(testWorkspace, 'docs', 'archive', 'old.mmd'), ARCHIVED);
+
+    await closeAllTabs(window);
+    await callIPC(window, 'open-folder-by-path', testWorkspace);
+    await waitForFileExplorer(window);
+  });
+
+  test.afterEach(async ({ window }) => {
+    // 검색 패널 닫기
+    const panel = window.locator('.search-panel');
+    if (await panel.isVisible()) {
+      await panel.locator('button[title="Back to Explorer"]').click();
+    }
+    await cleanupTestWorkspace(testWorkspace);
+  });
+
+  async function openSearch(window) {
+    await window.locator('.search-in-files-btn').click();
+    const panel = window.locator('.search-panel');
+    await expect(panel).toBeVisible();
+    await expect(window.locator('.file-explorer')).toBeHidden();
+    return panel;
+  }
+
+  test('하위 폴더를 포함해 파일별로 결과를 표시해야 함', async ({ window }) => {
+    const panel = await openSearch(window);
+    await panel.locator('.search-query-input').fill('OrderService');
+
+    await expect(panel.locator('.search-message')).toHaveText('4 results in 3 files');
+    await expect(panel.locator('.search-file')).toHaveCount(3);
+    const orders = panel.locator('.search-file:has-text("orders.mmd")');
+    await expect(orders.locator('.search-file-count')).toHaveText('2');
+    await expect(orders.locator('.search-match').first()).toContainText('A[OrderService] --> B[PaymentService]');
+  });
+
+  test('대소문자/단어 단위/정규식 옵션을 적용해야 함', async ({ window }) => {
+    const panel = await openSearch(window);
+    const input = panel.locator('.search-query-input');
+
+    await input.fill('OrderService');
+    await panel.locator('button[title="Match Case"]').click();
+    await expect(panel.locator('.search-message')).toHaveText('3 results in 3 files');
+
+    await input.fill('Order');
+    await panel.locator('button[title="Match Whole Word"]').click();
+    await expect(panel.locator('.search-message')).toHaveText('No results found');
+
+    await panel.locator('button[title="Match Whole Word"]').click();
+    await panel.locator('button[title="Use Regular Expression"]').click();
+    await input.fill('(Order|Payment)Service\\]');
+    await expect(panel.locator('.search-message')).toHaveText('2 results in 1 file');
+
+    // 잘못된 정규식은 오류 표시
+    await input.fill('(Order');
+    await expect(panel.locator('.search-message.error')).toBeVisible();
+  });
+
+  test('include/exclude glob으로 검색 범위를 제한해야 함', async ({ window }) => {
+    const panel = await openSearch(window);
+    await panel.locator('.search-query-input').fill('OrderService');
+    await panel.locator('button[title="Toggle Search Details"]').click();
+
+    await panel.locator('.search-include-input').fill('docs/');
+    await expect(panel.locator('.search-message')).toHaveText('2 results in 2 files');
+
+    await panel.locator('.search-exclude-input').fill('archive');
+    await expect(panel.locator('.search-message')).toHaveText('1 result in 1 file');
+    await expect(panel.locator('.search-file')).toContainText('billing.mmd');
+  });
+
+  test('검색 결과를 클릭하면 일치 위치에서 파일을 열어야 함', async ({ window }) => {
+    const panel = await openSearch(window);
+    await panel.locator('.search-query-input').fill('charge');
+
+    await panel.locator('.search-match').first().click();
+    await expect(window.locator('.tab-item.active:has-text("billing.mmd")')).toBeVisible();
+
+    const selection = await window.evaluate(() => {
+      const editor = window.monaco.editor.getEditors()[0];
+      const range = editor.getSelection();
+      return { line: range.startLineNumber, text: editor.getModel().getValueInRange(range) };
+    });
+    expect(selection).toEqual({ line: 2, text: 'charge' });
+  });
+
+  test('미리보기 후 모두 바꾸기, 저장하지 않은 파일은 건너뛰어야 함', async ({ window }) => {
+    // 저장하지 않은 변경이 있는 탭
+    await selectFileInTree(window, 'orders.mmd');
+    await typeInEditor(window, ORDERS + '\n  C --> D[OrderService]');
+
+    const panel = await openSearch(window);
+    await panel.locator('.search-query-input').fill('OrderService');
+    await panel.locator('button[title="Match Case"]').click();
+    await panel.locator('button[title="Toggle Replace"]').click();
+    await panel.locator('.search-replace-input').fill('CheckoutService');
+
+    // 바꾸기 미리보기
+    const preview = panel.locator('.search-file:has-text("billing.mmd") .search-match').first();
+    await expect(preview.locator('.search-match-text.replaced')).toHaveText('OrderService');
+    await expect(preview.locator('.search-match-replacement')).toHaveText('CheckoutService');
+
+    window.once('dialog', dialog => dialog.accept());
+    await panel.locator('button[title="Replace All"]').click();
+
+    await expect(panel.locator('.search-file')).toHaveCount(1);
+    await expect(panel.locator('.search-file')).toContainText('orders.mmd');
+
+    const billing = await fs.readFile(path.join(testWorkspace, 'docs', 'billing.mmd'), 'utf-8');
+    expect(billing).toContain('CheckoutService->>Billing');
+    const archived = await fs.readFile(path.join(testWorkspace, 'docs', 'archive', 'old.mmd'), 'utf-8');
+    expect(archived).toContain('CheckoutService --> Legacy');
+    const orders = await fs.readFile(path.join(testWorkspace, 'orders.mmd'), 'utf-8');
+    expect(orders).toBe(ORDERS);
+    expect(await getEditorContent(window)).toContain('D[OrderService]');
+  });
+});